@@ -20,6 +20,9 @@ import { CryptoModule } from "./crypto/crypto.module";
 import { TransparencyModule } from "./transparency/transparency.module";
 import { ProofsModule } from "./proofs/proofs.module";
 import { KYCModule } from "./kyc/kyc.module";
+import { PolicyModule } from "./policy/policy.module";
+import { ReconciliationModule } from "./reconciliation/reconciliation.module";
+import { ReceiptsModule } from "./receipts/receipts.module";
 
 @Module({
   controllers: [AppController],
@@ -65,6 +68,9 @@ import { KYCModule } from "./kyc/kyc.module";
         TransparencyModule,
         ProofsModule,
         KYCModule,
+        PolicyModule,
+        ReconciliationModule,
+        ReceiptsModule,
       ],
   providers: [
     {
@@ -55,8 +55,8 @@ export class CampaignBalanceService {
     for (const doc of donationsSnap.docs) {
       const donation = doc.data() as any;
       
-      // Skip pending/unconfirmed donations
-      if (donation.verified === false) {
+      // Skip pending/unconfirmed and refunded donations
+      if (donation.verified === false || donation.refunded) {
         continue;
       }
       
@@ -111,6 +111,7 @@ export class CampaignBalanceService {
     
     for (const doc of legacyDonationsSnap.docs) {
       const donation = doc.data() as any;
+      if (donation.refunded) continue;
       
       if (donation.type === "INR") {
         const amount = parseFloat(donation.amount || "0");
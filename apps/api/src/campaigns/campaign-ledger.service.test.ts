@@ -0,0 +1,112 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import * as admin from "firebase-admin";
+import { keccak256, toHex } from "viem";
+import {
+  computeLedgerRoot,
+  donationLedgerEntry,
+  verifyLedgerProof,
+  withdrawalLedgerEntry,
+} from "@opencause/verifier";
+import { CampaignLedgerService } from "./campaign-ledger.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("CampaignLedgerService", () => {
+  let service: CampaignLedgerService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const createdAt = admin.firestore.Timestamp.fromMillis(Date.UTC(2024, 0, 1));
+  const entries = [
+    donationLedgerEntry({ donationId: "don_1", campaignId: "camp1", type: "INR", assetSymbol: "INR", amountNative: "500", createdAt }),
+    donationLedgerEntry({ donationId: "don_2", campaignId: "camp1", type: "CRYPTO", assetSymbol: "USDT", networkId: "bsc", amountNative: "12.5", createdAt }),
+    withdrawalLedgerEntry({ withdrawalId: "wd_1", campaignId: "camp1", method: "INR", amountDisplay: "₹300", status: "PAID", createdAt }),
+  ];
+
+  // Snapshot as the worker's ledger anchor job leaves it once the root is mined
+  const seedAnchoredSnapshot = async () => {
+    const { root, proofs } = computeLedgerRoot(entries);
+    const snapshotId = `camp1_${root.slice(2)}`;
+    const txHash = keccak256(toHex("ledger-root-tx"));
+
+    await db.collection("ledger_snapshots").doc(snapshotId).set({
+      campaignId: "camp1",
+      merkleRoot: root,
+      entryCount: 3,
+      donationCount: 2,
+      withdrawalCount: 1,
+      networkId: "polygon_mainnet",
+      chainId: 137,
+      registryAddress: "0x0000000000000000000000000000000000000e71",
+      status: "ANCHORED",
+      txHash,
+      blockNumber: "4321",
+      explorerUrl: `https://polygonscan.com/tx/${txHash}`,
+      createdAt: admin.firestore.Timestamp.fromDate(new Date("2026-03-01T12:00:00Z")),
+      anchoredAt: admin.firestore.Timestamp.now(),
+    });
+    await Promise.all(
+      proofs.map((p) =>
+        db.collection("ledger_snapshots").doc(snapshotId).collection("entries").doc(`${p.entry.kind}_${p.entry.id}`).set({
+          entry: p.entry,
+          entryHash: p.entryHash,
+          leaf: p.leaf,
+          leafIndex: p.leafIndex,
+          proof: p.proof,
+        })
+      )
+    );
+    await db.collection("campaign_ledgers").doc("camp1").set({
+      campaignId: "camp1",
+      latestSnapshotId: snapshotId,
+      latestRoot: root,
+      anchoredSnapshotId: snapshotId,
+    });
+    return { root, snapshotId, txHash };
+  };
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["ledger_snapshots", "campaign_ledgers"]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CampaignLedgerService, { provide: FirebaseService, useValue: { firestore: db } }],
+    }).compile();
+
+    service = module.get<CampaignLedgerService>(CampaignLedgerService);
+  });
+
+  it("returns a donation's leaf, path and anchor tx", async () => {
+    const { root, snapshotId, txHash } = await seedAnchoredSnapshot();
+
+    const result = await service.getDonationProof("camp1", "don_2");
+
+    expect(result).toMatchObject({
+      snapshotId,
+      merkleRoot: root,
+      proofValid: true,
+      anchor: { txHash, blockNumber: "4321", chainId: 137 },
+    });
+    expect(verifyLedgerProof(result.entry as any, result.path as any, root)).toBe(true);
+  });
+
+  it("serves the ledger in a form the verifier recomputes to the anchored root", async () => {
+    const { root } = await seedAnchoredSnapshot();
+
+    const ledger = await service.getLedger("camp1");
+
+    expect(ledger.entryCount).toBe(3);
+    // Tells the verifier which public records the snapshot should hold
+    expect(ledger.snapshotAt).toBe("2026-03-01T12:00:00.000Z");
+    expect(computeLedgerRoot(ledger.entries as any).root).toBe(root);
+  });
+
+  it("rejects donations outside the anchored snapshot", async () => {
+    await seedAnchoredSnapshot();
+
+    await expect(service.getDonationProof("camp1", "don_missing")).rejects.toThrow("not in the campaign's latest anchored ledger");
+  });
+
+  it("reports campaigns without an anchored ledger", async () => {
+    await expect(service.getLedger("camp2")).rejects.toThrow("has not been anchored yet");
+  });
+});
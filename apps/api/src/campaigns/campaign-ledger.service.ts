@@ -0,0 +1,103 @@
+import { Injectable, NotFoundException } from "@nestjs/common";
+import { CampaignLedgerDoc, LedgerSnapshotDoc, LedgerSnapshotEntryDoc } from "@opencause/firebase";
+import { verifyLedgerProof } from "@opencause/verifier";
+import type { LedgerEntry } from "@opencause/verifier";
+import type { Hex } from "viem";
+import { FirebaseService } from "../firebase/firebase.service";
+
+/**
+ * Public campaign ledger as committed by the worker's ledger anchor job:
+ * the latest anchored snapshot of donations_public and withdrawals_public,
+ * and per-donation inclusion proofs against its on-chain root.
+ */
+@Injectable()
+export class CampaignLedgerService {
+  constructor(private firebase: FirebaseService) {}
+
+  /**
+   * Entries of the latest anchored snapshot, in leaf order; this is the input
+   * @opencause/verifier recomputes the root from
+   */
+  async getLedger(campaignId: string) {
+    const { snapshotId, snapshot } = await this.getAnchoredSnapshot(campaignId);
+    const entries = await this.firebase.firestore
+      .collection("ledger_snapshots")
+      .doc(snapshotId)
+      .collection("entries")
+      .get();
+
+    return {
+      campaignId,
+      snapshotId,
+      merkleRoot: snapshot.merkleRoot,
+      entryCount: snapshot.entryCount,
+      // Public records created after this went into later snapshots
+      snapshotAt: snapshot.createdAt?.toDate().toISOString() ?? null,
+      anchor: this.toAnchor(snapshot),
+      entries: entries.docs
+        .map((doc) => doc.data() as LedgerSnapshotEntryDoc)
+        .sort((a, b) => a.leafIndex - b.leafIndex)
+        .map((doc) => doc.entry),
+    };
+  }
+
+  /**
+   * Leaf and Merkle path of one donation in the latest anchored snapshot
+   */
+  async getDonationProof(campaignId: string, donationId: string) {
+    const { snapshotId, snapshot } = await this.getAnchoredSnapshot(campaignId);
+    const entrySnap = await this.firebase.firestore
+      .collection("ledger_snapshots")
+      .doc(snapshotId)
+      .collection("entries")
+      .doc(`DONATION_${donationId}`)
+      .get();
+    if (!entrySnap.exists) {
+      throw new NotFoundException("Donation is not in the campaign's latest anchored ledger");
+    }
+
+    const entry = entrySnap.data() as LedgerSnapshotEntryDoc;
+    return {
+      campaignId,
+      snapshotId,
+      entry: entry.entry,
+      entryHash: entry.entryHash,
+      leaf: entry.leaf,
+      leafIndex: entry.leafIndex,
+      path: entry.proof,
+      merkleRoot: snapshot.merkleRoot,
+      proofValid: verifyLedgerProof(entry.entry as LedgerEntry, entry.proof as Hex[], snapshot.merkleRoot as Hex),
+      anchor: this.toAnchor(snapshot),
+    };
+  }
+
+  private async getAnchoredSnapshot(campaignId: string) {
+    const db = this.firebase.firestore;
+    const ledger = (await db.collection("campaign_ledgers").doc(campaignId).get()).data() as
+      | CampaignLedgerDoc
+      | undefined;
+    if (!ledger?.anchoredSnapshotId) {
+      throw new NotFoundException("Campaign ledger has not been anchored yet");
+    }
+
+    const snapshot = (await db.collection("ledger_snapshots").doc(ledger.anchoredSnapshotId).get()).data() as
+      | LedgerSnapshotDoc
+      | undefined;
+    if (!snapshot) {
+      throw new NotFoundException("Campaign ledger has not been anchored yet");
+    }
+    return { snapshotId: ledger.anchoredSnapshotId, snapshot };
+  }
+
+  private toAnchor(snapshot: LedgerSnapshotDoc) {
+    return {
+      txHash: snapshot.txHash ?? null,
+      blockNumber: snapshot.blockNumber ?? null,
+      explorerUrl: snapshot.explorerUrl ?? null,
+      networkId: snapshot.networkId,
+      chainId: snapshot.chainId,
+      registryAddress: snapshot.registryAddress,
+      anchoredAt: snapshot.anchoredAt?.toDate().toISOString() ?? null,
+    };
+  }
+}
@@ -15,6 +15,7 @@ import { RolesGuard } from "../auth/guards/roles.guard";
 import { Roles } from "../auth/decorators/roles.decorator";
 import { CampaignsService } from "./campaigns.service";
 import { CampaignBalanceService } from "./campaign-balance.service";
+import { CampaignLedgerService } from "./campaign-ledger.service";
 import { CreateCampaignDto } from "@opencause/types";
 import { PaymentIntentsService } from "../crypto/payment-intents.service";
 
@@ -23,6 +24,7 @@ export class CampaignsController {
   constructor(
     private campaignsService: CampaignsService,
     private campaignBalance: CampaignBalanceService,
+    private campaignLedger: CampaignLedgerService,
     private paymentIntents: PaymentIntentsService
   ) {}
 
@@ -57,6 +59,16 @@ export class CampaignsController {
     return this.campaignBalance.getCampaignBalance(id);
   }
 
+  @Get(":id/ledger")
+  async getLedger(@Param("id") id: string) {
+    return this.campaignLedger.getLedger(id);
+  }
+
+  @Get(":id/ledger/proof/:donationId")
+  async getLedgerProof(@Param("id") id: string, @Param("donationId") donationId: string) {
+    return this.campaignLedger.getDonationProof(id, donationId);
+  }
+
   @Post()
   @UseGuards(JwtAuthGuard)
   async create(@Request() req, @Body() dto: CreateCampaignDto) {
@@ -77,6 +89,18 @@ export class CampaignsController {
     return this.campaignsService.approveCampaign(id, req.user.id, body.notes);
   }
 
+  @Get(":id/vaults")
+  async getVaults(@Param("id") id: string) {
+    return this.campaignsService.getVaults(id);
+  }
+
+  @Post(":id/vaults/deploy")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles("ADMIN")
+  async deployVaults(@Param("id") id: string) {
+    return this.campaignsService.deployVaults(id);
+  }
+
   @Put(":id/reject")
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles("ADMIN", "REVIEWER")
@@ -1,16 +1,18 @@
 import { Module } from "@nestjs/common";
 import { CampaignsService } from "./campaigns.service";
 import { CampaignBalanceService } from "./campaign-balance.service";
+import { CampaignLedgerService } from "./campaign-ledger.service";
 import { CampaignsController } from "./campaigns.controller";
 import { Web3Module } from "../web3/web3.module";
 import { CryptoModule } from "../crypto/crypto.module";
 import { FirebaseModule } from "../firebase/firebase.module";
 import { KYCModule } from "../kyc/kyc.module";
+import { QueueModule } from "../queue/queue.module";
 
 @Module({
-  imports: [Web3Module, CryptoModule, FirebaseModule, KYCModule],
+  imports: [Web3Module, CryptoModule, FirebaseModule, KYCModule, QueueModule],
   controllers: [CampaignsController],
-  providers: [CampaignsService, CampaignBalanceService],
+  providers: [CampaignsService, CampaignBalanceService, CampaignLedgerService],
   exports: [CampaignsService, CampaignBalanceService],
 })
 export class CampaignsModule {}
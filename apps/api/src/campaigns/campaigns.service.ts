@@ -1,19 +1,41 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException, Inject, forwardRef } from "@nestjs/common";
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  Inject,
+  forwardRef,
+  OnModuleInit,
+} from "@nestjs/common";
 import { FirebaseService } from "../firebase/firebase.service";
 import { CreateCampaignDto } from "@opencause/types";
+import { JOB_QUEUES } from "@opencause/firebase";
+import { QueueService } from "../queue/queue.service";
 import { Web3Service } from "../web3/web3.service";
 import { KYCService } from "../kyc/kyc.service";
 import { randomBytes } from "crypto";
 
 @Injectable()
-export class CampaignsService {
+export class CampaignsService implements OnModuleInit {
   constructor(
     private firebase: FirebaseService,
     private web3Service: Web3Service,
+    private queueService: QueueService,
     @Inject(forwardRef(() => KYCService))
     private kycService: KYCService,
   ) {}
 
+  onModuleInit() {
+    // Queued on approval; retried until every vault is deployed
+    this.queueService.consume(JOB_QUEUES.VAULT_DEPLOYMENT, async (job) => {
+      const deployments = await this.deployVaults(job.data.campaignId);
+      const pending = deployments.filter((d) => d.status !== "DEPLOYED");
+      if (pending.length > 0) {
+        throw new Error(`${pending.length} vault(s) of campaign ${job.data.campaignId} not deployed yet`);
+      }
+    });
+  }
+
   async create(userId: string, dto: CreateCampaignDto) {
     // Check user is organizer
     const user = await this.firebase.getUserById(userId) as any;
@@ -36,15 +58,7 @@ export class CampaignsService {
     // Generate campaign ID
     const campaignId = randomBytes(16).toString("hex");
 
-    // Deploy vault on-chain (stub for MVP - will use actual contract deployment)
-    let vaultAddress: string | undefined;
-    try {
-      vaultAddress = await this.web3Service.deployCampaignVault(campaignId, user.walletAddress || "");
-    } catch (error) {
-      console.error("Failed to deploy vault:", error);
-      // Continue without vault for MVP
-    }
-
+    // Vaults are deployed once the campaign is approved (see approveCampaign)
     // Create campaign
     const campaign = await this.firebase.createCampaign({
       id: campaignId,
@@ -62,7 +76,6 @@ export class CampaignsService {
       endDate: dto.endDate,
       imageUrl: dto.imageUrl,
       status: "PENDING_REVIEW", // Campaigns must be reviewed before going live
-      vaultAddress,
     });
 
     // Create milestones
@@ -159,8 +172,9 @@ export class CampaignsService {
       }
     }
 
-    // Only ACTIVE campaigns are visible to public, but organizers/admins can see their own
-    if (campaign.status !== "ACTIVE" && !canView) {
+    // Only ACTIVE campaigns are visible to public, but organizers/admins can see their own.
+    // Cancelled campaigns stay visible so donors can follow their refunds.
+    if (campaign.status !== "ACTIVE" && campaign.status !== "CANCELLED" && !canView) {
       throw new NotFoundException("Campaign not found or not active");
     }
 
@@ -218,6 +232,14 @@ export class CampaignsService {
       throw new ForbiddenException("Only admin or organizer can update campaign status");
     }
 
+    // Cancelling also refunds donors, which only POST /campaigns/:id/cancel does
+    if (status === "CANCELLED") {
+      throw new BadRequestException("Use POST /campaigns/:id/cancel to cancel a campaign");
+    }
+    if (campaign.status === "CANCELLED") {
+      throw new BadRequestException("Cancelled campaigns cannot be reopened");
+    }
+
     const updateData: any = { status };
     if (notes) {
       updateData.reviewNotes = notes;
@@ -239,12 +261,48 @@ export class CampaignsService {
       throw new ForbiddenException("Only campaigns pending review can be approved");
     }
 
-    return this.firebase.updateCampaign(id, {
+    const updated = await this.firebase.updateCampaign(id, {
       status: "ACTIVE",
       reviewNotes: notes,
       reviewedBy: userId,
       reviewedAt: new Date().toISOString(),
     });
+
+    // Deploying every vault takes several confirmations; progress is on vault_deployments
+    await this.queueService.addVaultDeploymentJob(id);
+
+    return updated;
+  }
+
+  /**
+   * Deploy the campaign's vaults and grant its organizer and reviewer their
+   * on-chain roles. Safe to call again: finished deployments are skipped and
+   * submitted ones resumed.
+   */
+  async deployVaults(id: string) {
+    const campaign = await this.firebase.getCampaignById(id) as any;
+
+    if (!campaign) {
+      throw new NotFoundException("Campaign not found");
+    }
+
+    if (campaign.status !== "ACTIVE") {
+      throw new ForbiddenException("Vaults are deployed for approved campaigns only");
+    }
+
+    const roleHolder = async (userId?: string) => {
+      const user = userId ? (await this.firebase.getUserById(userId) as any) : null;
+      return user?.walletAddress ? { userId: user.id, address: user.walletAddress } : null;
+    };
+
+    return this.web3Service.deployCampaignVaults(id, {
+      organizer: await roleHolder(campaign.organizerId),
+      reviewer: await roleHolder(campaign.reviewedBy),
+    });
+  }
+
+  async getVaults(id: string) {
+    return this.web3Service.getVaultDeployments(id);
   }
 
   async rejectCampaign(id: string, userId: string, notes?: string) {
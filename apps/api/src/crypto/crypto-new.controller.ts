@@ -1,4 +1,4 @@
-import { Controller, Get, Post, Body, Param, Query, Request, HttpException, HttpStatus } from "@nestjs/common";
+import { Controller, Get, Post, Body, Param, Query, Request, HttpException, HttpStatus, UseGuards } from "@nestjs/common";
 import { PaymentIntentsService, CreatePaymentIntentDto } from "./payment-intents.service";
 import { FirestoreRepository } from "@opencause/firebase";
 import { FirebaseService } from "../firebase/firebase.service";
@@ -7,6 +7,8 @@ import { FxRateService } from "./fx-rate.service";
 import { CryptoVerificationService } from "./crypto-verification.service";
 import { CryptoVerifyService } from "./crypto-verify.service";
 import { CampaignPublicService } from "./campaign-public.service";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { OptionalJwtAuthGuard } from "../auth/guards/optional-jwt.guard";
 import * as admin from "firebase-admin";
 
 @Controller("crypto")
@@ -52,6 +54,7 @@ export class CryptoNewController {
    * Create a payment intent
    */
   @Post("payment-intents")
+  @UseGuards(OptionalJwtAuthGuard)
   async createPaymentIntent(@Request() req: any, @Body() body: CreatePaymentIntentDto) {
     try {
       const userId = req.user?.id; // Optional auth (allows guests)
@@ -97,6 +100,17 @@ export class CryptoNewController {
     }
   }
 
+  /**
+   * POST /crypto/payment-intents/:intentId/accept-partial
+   * Accept a partial payment as a smaller donation instead of topping it up
+   * (the intent's donor or an admin)
+   */
+  @Post("payment-intents/:intentId/accept-partial")
+  @UseGuards(JwtAuthGuard)
+  async acceptPartialPayment(@Request() req: any, @Param("intentId") intentId: string) {
+    return this.paymentIntents.acceptPartial(intentId, req.user);
+  }
+
   /**
    * GET /crypto/fx-rate?assetId=...
    * Get FX rate for an asset (USD per unit)
@@ -463,8 +477,8 @@ export class CryptoNewController {
             };
           })
             .filter((donation: any) => {
-              // Hard filter: only verified donations with valid amounts
-              if (!donation.verified) return false;
+              // Hard filter: only verified, unrefunded donations with valid amounts
+              if (!donation.verified || donation.refunded) return false;
               
               // Filter out 0 amounts
               if (donation.type === "CRYPTO") {
@@ -523,6 +537,7 @@ export class CryptoNewController {
       const transformed = await Promise.all(
         allDonations.map(async (doc) => {
           const data = doc.data();
+          if (data.refunded) return null;
           
           // Handle INR donations
           if (data.type === "INR") {
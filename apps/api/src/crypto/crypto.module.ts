@@ -6,13 +6,16 @@ import { HDWalletService } from "./hd-wallet.service";
 import { PaymentIntentsService } from "./payment-intents.service";
 import { FxRateService } from "./fx-rate.service";
 import { CampaignPublicService } from "./campaign-public.service";
+import { UnattributedDepositsService } from "./unattributed-deposits.service";
 import { CryptoController } from "./crypto.controller";
 import { CryptoNewController } from "./crypto-new.controller";
 import { PricesController } from "./prices.controller";
+import { UnattributedDepositsController } from "./unattributed-deposits.controller";
 import { FirebaseModule } from "../firebase/firebase.module";
+import { QueueModule } from "../queue/queue.module";
 
 @Module({
-  imports: [FirebaseModule],
+  imports: [FirebaseModule, QueueModule],
   providers: [
     HDWalletService,
     CryptoAddressService,
@@ -21,8 +24,9 @@ import { FirebaseModule } from "../firebase/firebase.module";
     PaymentIntentsService,
     FxRateService,
     CampaignPublicService,
+    UnattributedDepositsService,
   ],
-  controllers: [CryptoController, CryptoNewController, PricesController],
+  controllers: [CryptoController, CryptoNewController, PricesController, UnattributedDepositsController],
   exports: [
     CryptoAddressService,
     CryptoVerificationService,
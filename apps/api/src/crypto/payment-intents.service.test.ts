@@ -1,4 +1,5 @@
 import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException, ForbiddenException } from "@nestjs/common";
 import { PaymentIntentsService } from "./payment-intents.service";
 import { FirebaseService } from "../firebase/firebase.service";
 import { HDWalletService } from "./hd-wallet.service";
@@ -28,6 +29,9 @@ describe("PaymentIntentsService", () => {
     // Clear test data
     await clearFirestoreCollections([
       "payment_intents",
+      "payment_intents_private",
+      "payment_intents_public",
+      "chain_txs_private",
       "campaign_deposits",
       "crypto_assets",
       "crypto_networks",
@@ -164,6 +168,130 @@ describe("PaymentIntentsService", () => {
     );
     expect(intent.amountNative).toBe("0.01");
   });
+
+  it("offers a top-up QR for a partial payment and accepts it as a smaller donation", async () => {
+    const intent = await service.createIntent(
+      {
+        campaignId: "camp1",
+        networkId: "ethereum_mainnet",
+        assetId: "eth_ethereum_mainnet",
+        amountNative: "0.01",
+      },
+      "donor1"
+    );
+
+    await db.collection("payment_intents").doc(intent.intentId).update({
+      status: "MISMATCH",
+      resolution: "PARTIAL",
+      receivedAmountRaw: "6000000000000000",
+      receivedAmountNative: "0.006",
+      remainingAmountRaw: "4000000000000000",
+      remainingAmountNative: "0.004",
+      detectedTxHashes: ["0xabc"],
+    });
+    await db.collection("chain_txs_private").doc("ethereum_mainnet_0xabc").set({
+      networkId: "ethereum_mainnet",
+      txHash: "0xabc",
+      intentId: intent.intentId,
+      status: "CONFIRMED",
+    });
+
+    const partial = await service.getIntent(intent.intentId);
+    expect(partial?.resolution).toBe("PARTIAL");
+    expect(partial?.remainingAmountNative).toBe("0.004");
+    expect(partial?.remainingQrString).toContain(intent.depositAddress);
+
+    // Only the donor (or an admin) may accept it
+    await expect(service.acceptPartial(intent.intentId, { id: "someone-else" })).rejects.toThrow(ForbiddenException);
+
+    const accepted = await service.acceptPartial(intent.intentId, { id: "donor1" });
+    expect(accepted?.status).toBe("CONFIRMED");
+    expect(accepted?.resolution).toBe("UNDERPAID_ACCEPTED");
+    expect(accepted?.remainingQrString).toBeUndefined();
+
+    const publicDoc = await db.collection("payment_intents_public").doc(intent.intentId).get();
+    expect(publicDoc.data()?.resolution).toBe("UNDERPAID_ACCEPTED");
+
+    await expect(service.acceptPartial(intent.intentId, { id: "admin1", role: "ADMIN" })).rejects.toThrow(
+      BadRequestException
+    );
+  });
+
+  describe("address per intent (UTXO)", () => {
+    const btcIntent = (amountNative = "0.01") =>
+      service.createIntent({
+        campaignId: "camp1",
+        networkId: "bitcoin_mainnet",
+        assetId: "btc_bitcoin_mainnet",
+        amountNative,
+      });
+
+    beforeEach(() => {
+      mockHDWalletService.generateAddress.mockImplementation(
+        async (campaignId: string, crypto: string, blockchain: string, index: number) => ({
+          address: `bc1q${campaignId}${crypto.toLowerCase()}${index}`,
+          derivationPath: `m/84'/0'/0'/0/${index}`,
+        })
+      );
+    });
+
+    afterEach(() => {
+      mockHDWalletService.generateAddress.mockResolvedValue({
+        address: "0x1234567890123456789012345678901234567890",
+        derivationPath: "m/44'/60'/0'/0/0",
+      });
+    });
+
+    it("derives a fresh address for every intent and skips the amount nonce", async () => {
+      const intent1 = await btcIntent();
+      const intent2 = await btcIntent();
+
+      expect(intent1.depositAddress).not.toBe(intent2.depositAddress);
+
+      const doc1 = (await db.collection("payment_intents").doc(intent1.intentId).get()).data();
+      expect(doc1?.addressIndex).toBe(1);
+      expect(doc1?.depositRef).toBe("camp1_btc_bitcoin_mainnet_bitcoin_mainnet_1");
+      expect(doc1?.expectedAmountRaw).toBe("1000000");
+
+      const deposit1 = (await db.collection("campaign_deposits").doc(doc1?.depositRef).get()).data();
+      expect(deposit1?.intentId).toBe(intent1.intentId);
+      expect(deposit1?.parentRef).toBe("camp1_btc_bitcoin_mainnet_bitcoin_mainnet");
+
+      const campaignDeposit = (
+        await db.collection("campaign_deposits").doc("camp1_btc_bitcoin_mainnet_bitcoin_mainnet").get()
+      ).data();
+      expect(campaignDeposit?.nextAddressIndex).toBe(3);
+    });
+
+    it("reuses an address released by an expired intent once the cooldown has passed", async () => {
+      const expired = await btcIntent();
+      const depositRef = "camp1_btc_bitcoin_mainnet_bitcoin_mainnet_1";
+
+      await db.collection("campaign_deposits").doc(depositRef).update({
+        intentId: null,
+        releasedAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000),
+      });
+
+      const next = await btcIntent();
+      expect(next.depositAddress).toBe(expired.depositAddress);
+      const deposit = (await db.collection("campaign_deposits").doc(depositRef).get()).data();
+      expect(deposit?.intentId).toBe(next.intentId);
+    });
+
+    it("falls back to the campaign address with a nonce at the unpaid address limit", async () => {
+      await btcIntent();
+      await db.collection("campaign_deposits").doc("camp1_btc_bitcoin_mainnet_bitcoin_mainnet").update({
+        nextAddressIndex: 21,
+        highestUsedIndex: 0,
+      });
+
+      const intent = await btcIntent();
+      const doc = (await db.collection("payment_intents").doc(intent.intentId).get()).data();
+      expect(doc?.depositRef).toBe("camp1_btc_bitcoin_mainnet_bitcoin_mainnet");
+      expect(doc?.addressIndex).toBeUndefined();
+      expect(BigInt(doc?.expectedAmountRaw)).toBeGreaterThan(1000000n);
+    });
+  });
 });
 
 
@@ -1,7 +1,7 @@
-import { Injectable, ForbiddenException, BadRequestException } from "@nestjs/common";
+import { Injectable, ForbiddenException, BadRequestException, NotFoundException } from "@nestjs/common";
 import { randomBytes, createHash } from "crypto";
 import { FirebaseService } from "../firebase/firebase.service";
-import { FirestoreRepository } from "@opencause/firebase";
+import { FirestoreRepository, CampaignDepositDoc } from "@opencause/firebase";
 import { getNetwork, getAsset, getEnabledNetworks, CryptoNetwork } from "@opencause/crypto-core";
 import { buildQRUri, getExplorerAddressUrl } from "@opencause/crypto-core";
 import * as admin from "firebase-admin";
@@ -10,6 +10,15 @@ import { FxRateService } from "./fx-rate.service";
 import { CampaignPublicService } from "./campaign-public.service";
 import { parseUnits } from "viem";
 
+// Derived per-intent addresses in a row that may go unpaid before new intents
+// fall back to the campaign address. Bounds the addresses the watchers poll
+// per campaign; the HD indices are hashed (not sequential), so funds are
+// found again from each doc's derivationPath, not by wallet gap scanning.
+const UNPAID_ADDRESS_LIMIT = 20;
+// A released address is not handed out again before this, so a late payment
+// for the expired intent is not taken for the next donor's
+const ADDRESS_REUSE_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
 export interface CreatePaymentIntentDto {
   campaignId: string;
   networkId: string;
@@ -36,6 +45,10 @@ export interface PaymentIntentResponse {
   status: string;
   confirmedTxHash?: string;
   startBlock?: string;
+  resolution?: string;
+  receivedAmountNative?: string;
+  remainingAmountNative?: string;
+  remainingQrString?: string; // Top-up QR for the amount still owed (MISMATCH only)
 }
 
 @Injectable()
@@ -146,26 +159,38 @@ export class PaymentIntentsService {
 
     // Create payment intent
     const intentId = this.generateIntentId();
+
+    // On UTXO/Solana the intent gets an address of its own, so detection matches
+    // by address and donors do not have to send an exact amount
+    const intentDeposit = network.addressPerIntent
+      ? await this.assignIntentAddress(deposit, intentId, network, asset)
+      : null;
+    const depositForIntent = intentDeposit || deposit;
+
     const expiresAt = admin.firestore.Timestamp.fromMillis(
       Date.now() + 24 * 60 * 60 * 1000 // 24 hours
     );
 
-    // Calculate expectedAmountRaw (with nonce for exact matching)
+    // Calculate expectedAmountRaw (with nonce for exact matching on a shared address)
     const decimals = asset.decimals || 18;
     let expectedAmountRaw: bigint;
-    try {
-      const baseAmountRaw = parseUnits(amountNative, decimals);
-      // Add small random nonce (0.000001 to 0.000999 in raw units) to ensure unique amounts
-      // This prevents collisions when multiple donors use the same deposit address
-      const nonceMax = parseUnits("0.001", decimals);
-      const nonceMin = parseUnits("0.000001", decimals);
-      const nonceRange = nonceMax - nonceMin;
-      const nonce = nonceMin + BigInt(Math.floor(Math.random() * Number(nonceRange)));
-      expectedAmountRaw = baseAmountRaw + nonce;
-    } catch (error) {
-      console.error("Failed to parse amount with nonce:", error);
-      // Fallback: use base amount without nonce
+    if (intentDeposit) {
       expectedAmountRaw = parseUnits(amountNative, decimals);
+    } else {
+      try {
+        const baseAmountRaw = parseUnits(amountNative, decimals);
+        // Add small random nonce (0.000001 to 0.000999 in raw units) to ensure unique amounts
+        // This prevents collisions when multiple donors use the same deposit address
+        const nonceMax = parseUnits("0.001", decimals);
+        const nonceMin = parseUnits("0.000001", decimals);
+        const nonceRange = nonceMax - nonceMin;
+        const nonce = nonceMin + BigInt(Math.floor(Math.random() * Number(nonceRange)));
+        expectedAmountRaw = baseAmountRaw + nonce;
+      } catch (error) {
+        console.error("Failed to parse amount with nonce:", error);
+        // Fallback: use base amount without nonce
+        expectedAmountRaw = parseUnits(amountNative, decimals);
+      }
     }
 
     // Get startBlockByNetwork for ALL enabled EVM networks (for cross-chain detection)
@@ -195,8 +220,9 @@ export class PaymentIntentsService {
       campaignId: dto.campaignId,
       assetId: dto.assetId, // Expected asset (what user selected)
       networkId: dto.networkId, // Expected network (what user selected)
-      depositRef: deposit.id,
-      depositAddress: deposit.address, // Store for easy access
+      depositRef: depositForIntent.id,
+      depositAddress: depositForIntent.address, // Store for easy access
+      addressIndex: intentDeposit ? intentDeposit.addressIndex : undefined,
       amountNative, // Expected formatted amount (for display)
       amountUsd,
       fxRate,
@@ -207,23 +233,36 @@ export class PaymentIntentsService {
       expectedNative: amountNative, // Expected native amount (for display)
       expectedAmountRaw: expectedAmountRaw.toString(), // Raw amount with nonce (for exact matching)
       expectedDecimals: decimals,
-      expectedTokenAddress: asset.assetType === "ERC20" ? (asset.contractAddress || null) : null,
+      expectedTokenAddress:
+        asset.assetType === "ERC20" || asset.assetType === "SPL" ? (asset.contractAddress || null) : null,
       startBlockByNetwork: Object.keys(startBlockByNetwork).length > 0 ? startBlockByNetwork : undefined,
-      lastScannedBlockByNetwork: {}, // Initialize empty, worker will populate
     };
 
     const intent = await this.repo.createPaymentIntent(intentId, intentData);
+    // Who the donation is attributed to; guests have no uid
+    await this.repo.createPaymentIntentPrivate(intentId, {
+      intentId,
+      campaignId: dto.campaignId,
+      donorUid: userId || null,
+      donorName: dto.isAnonymous ? null : dto.donorLabel || null,
+      isAnonymous: !!dto.isAnonymous,
+      startBlockByNetwork,
+      expectedAmountRaw: expectedAmountRaw.toString(),
+      expectedDecimals: decimals,
+      expectedTokenAddress: intentData.expectedTokenAddress,
+      expectedAmountNative: amountNative,
+    });
 
     // Build QR string
-    const qrString = buildQRUri(network, asset, deposit.address, amountNative);
-    const explorerAddressUrl = getExplorerAddressUrl(network, deposit.address);
+    const qrString = buildQRUri(network, asset, depositForIntent.address, amountNative);
+    const explorerAddressUrl = getExplorerAddressUrl(network, depositForIntent.address);
 
     return {
       intentId,
       campaignId: dto.campaignId,
       networkId: dto.networkId,
       assetId: dto.assetId,
-      depositAddress: deposit.address,
+      depositAddress: depositForIntent.address,
       qrString,
       amountNative,
       amountUsd,
@@ -298,6 +337,13 @@ export class PaymentIntentsService {
         status: intent.status,
         confirmedTxHash: (intent as any).confirmedTxHash,
         startBlock: (intent as any).startBlock,
+        resolution: intent.resolution,
+        receivedAmountNative: intent.receivedAmountNative,
+        remainingAmountNative: intent.remainingAmountNative,
+        remainingQrString:
+          intent.status === "MISMATCH" && intent.remainingAmountNative
+            ? buildQRUri(network, asset, deposit.address, intent.remainingAmountNative)
+            : undefined,
       };
     } catch (error: any) {
       console.error(`Error in getIntent for ${intentId}:`, error);
@@ -305,6 +351,52 @@ export class PaymentIntentsService {
     }
   }
 
+  /**
+   * Accept a partial payment as a smaller donation instead of topping it up.
+   * Only the donor who created the intent (or an admin) may; a guest's partial
+   * payment is accepted when the intent expires. The intent confirms once
+   * every transfer credited to it has.
+   */
+  async acceptPartial(intentId: string, user: { id: string; role?: string }): Promise<PaymentIntentResponse | null> {
+    const intent = await this.repo.getPaymentIntent(intentId);
+    if (!intent) {
+      throw new NotFoundException("Payment intent not found");
+    }
+    if (user.role !== "ADMIN") {
+      const intentPrivate = await this.repo.getPaymentIntentPrivate(intentId);
+      if (!intentPrivate?.donorUid || intentPrivate.donorUid !== user.id) {
+        throw new ForbiddenException("Only the donor who created this payment can accept it as a smaller donation");
+      }
+    }
+    if (intent.status !== "MISMATCH" || intent.resolution !== "PARTIAL") {
+      throw new BadRequestException("Only partially paid intents can be accepted as a smaller donation");
+    }
+
+    const db = this.firebase.firestore;
+    const txs = await db.collection("chain_txs_private").where("intentId", "==", intentId).get();
+    const settled = txs.docs.every((doc) => doc.get("status") === "CONFIRMED" || doc.get("status") === "REORGED");
+    const status = settled ? "CONFIRMED" : "CONFIRMING";
+    const now = admin.firestore.Timestamp.now();
+
+    const batch = db.batch();
+    batch.update(db.collection("payment_intents").doc(intentId), {
+      status,
+      resolution: "UNDERPAID_ACCEPTED",
+      remainingAmountRaw: "0",
+      remainingAmountNative: "0",
+      acceptedPartialAt: now,
+      updatedAt: now,
+    });
+    batch.set(
+      db.collection("payment_intents_public").doc(intentId),
+      { status, resolution: "UNDERPAID_ACCEPTED", remainingAmountNative: "0", updatedAt: now },
+      { merge: true }
+    );
+    await batch.commit();
+
+    return this.getIntent(intentId);
+  }
+
   /**
    * Generate deposit address for campaign+asset+network
    */
@@ -319,10 +411,12 @@ export class PaymentIntentsService {
     const crypto = asset.symbol;
     const blockchain = networkId.split("_")[0]; // e.g., "bsc_mainnet" -> "bsc"
     
-    // For EVM: use vault contract address if available, otherwise derive
+    // For EVM: derive the deposit address and sweep into the campaign vault once deployed
     if (network.type === "EVM") {
-      // TODO: Get vault address from factory contract
-      // For now, derive HD wallet address
+      const deployment = await this.firebase.firestore
+        .collection("vault_deployments")
+        .doc(`${campaignId}_${assetId}_${networkId}`)
+        .get();
       const walletInfo = await this.hdWallet.generateAddress(
         campaignId,
         crypto,
@@ -331,6 +425,7 @@ export class PaymentIntentsService {
       );
       return {
         address: walletInfo.address,
+        vaultAddress: deployment.get("status") === "DEPLOYED" ? deployment.get("vaultAddress") : undefined,
         derivationPath: walletInfo.derivationPath,
         addressIndex: 0,
       };
@@ -351,6 +446,87 @@ export class PaymentIntentsService {
     };
   }
 
+  /**
+   * Give an intent its own deposit address under the campaign address: the
+   * lowest-index address released by an expired, unpaid intent once its
+   * cooldown has passed, otherwise the next HD index. Returns null (the
+   * intent shares the campaign address and gets an amount nonce) when
+   * UNPAID_ADDRESS_LIMIT derived addresses past the last paid one are all out.
+   */
+  private async assignIntentAddress(
+    campaignDeposit: CampaignDepositDoc & { id: string },
+    intentId: string,
+    network: CryptoNetwork,
+    asset: any
+  ): Promise<(CampaignDepositDoc & { id: string }) | null> {
+    const db = this.firebase.firestore;
+    const deposits = db.collection("campaign_deposits");
+    const now = admin.firestore.Timestamp.now();
+
+    // Reuse a released address (released docs carry intentId: null)
+    const released = await deposits
+      .where("parentRef", "==", campaignDeposit.id)
+      .where("intentId", "==", null)
+      .get();
+    const reusable = released.docs
+      .filter((doc) => {
+        const data = doc.data() as CampaignDepositDoc;
+        return !data.usedAt && !!data.releasedAt && data.releasedAt.toMillis() <= now.toMillis() - ADDRESS_REUSE_COOLDOWN_MS;
+      })
+      .sort((a, b) => (a.get("addressIndex") || 0) - (b.get("addressIndex") || 0));
+
+    for (const doc of reusable) {
+      const claimed = await db.runTransaction(async (t) => {
+        const current = (await t.get(doc.ref)).data() as CampaignDepositDoc | undefined;
+        if (!current || current.intentId || current.usedAt) return false;
+        t.update(doc.ref, { intentId, assignedAt: now, releasedAt: null });
+        return true;
+      });
+      if (claimed) {
+        return { ...(doc.data() as CampaignDepositDoc), id: doc.id, intentId, assignedAt: now, releasedAt: null };
+      }
+    }
+
+    // Reserve the next index on the campaign address
+    const campaignRef = deposits.doc(campaignDeposit.id);
+    const addressIndex = await db.runTransaction(async (t) => {
+      const current = (await t.get(campaignRef)).data() as CampaignDepositDoc;
+      const next = current.nextAddressIndex || 1;
+      if (next - 1 - (current.highestUsedIndex || 0) >= UNPAID_ADDRESS_LIMIT) return null;
+      t.update(campaignRef, { nextAddressIndex: next + 1 });
+      return next;
+    });
+    if (addressIndex === null) {
+      console.warn(
+        `Limit of ${UNPAID_ADDRESS_LIMIT} unpaid addresses reached for ${campaignDeposit.id}, intent ${intentId} shares the campaign address`
+      );
+      return null;
+    }
+
+    const walletInfo = await this.hdWallet.generateAddress(
+      campaignDeposit.campaignId,
+      asset.symbol,
+      network.networkId.split("_")[0],
+      addressIndex
+    );
+    const data: CampaignDepositDoc = {
+      campaignId: campaignDeposit.campaignId,
+      assetId: campaignDeposit.assetId,
+      networkId: campaignDeposit.networkId,
+      address: walletInfo.address,
+      derivationPath: walletInfo.derivationPath,
+      addressIndex,
+      parentRef: campaignDeposit.id,
+      intentId,
+      assignedAt: now,
+      releasedAt: null,
+      usedAt: null,
+    };
+    const docId = `${campaignDeposit.id}_${addressIndex}`;
+    await deposits.doc(docId).set({ ...data, createdAt: now });
+    return { id: docId, ...data };
+  }
+
   /**
    * Generate unique intent ID
    */
@@ -0,0 +1,35 @@
+import { Controller, Get, Post, Body, Param, Query, Request, UseGuards } from "@nestjs/common";
+import { UnattributedDepositStatus } from "@opencause/firebase";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { UnattributedDepositAction, UnattributedDepositsService } from "./unattributed-deposits.service";
+
+@Controller("admin/unattributed-deposits")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class UnattributedDepositsController {
+  constructor(private unattributedDeposits: UnattributedDepositsService) {}
+
+  /**
+   * Inbox of transfers that matched no intent; OPEN (confirmed, unresolved) by default
+   */
+  @Get()
+  @Roles("ADMIN")
+  async list(@Query("status") status?: UnattributedDepositStatus | "ALL", @Query("limit") limit?: string) {
+    return this.unattributedDeposits.list(
+      status === "ALL" ? undefined : status || "OPEN",
+      limit ? parseInt(limit, 10) : undefined
+    );
+  }
+
+  @Post(":depositId/resolve")
+  @Roles("ADMIN")
+  async resolve(
+    @Request() req,
+    @Param("depositId") depositId: string,
+    @Body()
+    body: { action: UnattributedDepositAction; intentId?: string; returnAddress?: string; txHash?: string; note?: string }
+  ) {
+    return this.unattributedDeposits.resolve(depositId, body, req.user.id);
+  }
+}
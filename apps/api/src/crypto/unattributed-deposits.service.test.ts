@@ -0,0 +1,150 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { UnattributedDepositsService } from "./unattributed-deposits.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { FxRateService } from "./fx-rate.service";
+import { QueueService } from "../queue/queue.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("UnattributedDepositsService", () => {
+  let service: UnattributedDepositsService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let queueService: { addDepositReturnJob: jest.Mock };
+
+  const depositAddress = "0x00000000000000000000000000000000000000d1";
+  const sender = "0x00000000000000000000000000000000000000a1";
+
+  const seedDeposit = (id: string, fields: Record<string, any> = {}) =>
+    db.collection("unattributed_deposits").doc(id).set({
+      networkId: "polygon_mainnet",
+      txHash: `0x${id}`,
+      from: sender,
+      to: depositAddress,
+      depositRef: "camp1_usdc_polygon_mainnet",
+      campaignId: "camp1",
+      assetId: "usdc_polygon_mainnet",
+      assetType: "ERC20",
+      tokenAddress: "0x3c499c542cef5e3811e1192ce70d8cc03d5c3359",
+      amountRaw: "5000000",
+      amountNative: "5",
+      decimals: 6,
+      blockNumber: "100",
+      blockHash: "0xblock",
+      confirmations: 128,
+      status: "OPEN",
+      resolution: null,
+      ...fields,
+    });
+
+  const read = async (id: string) => (await db.collection("unattributed_deposits").doc(id).get()).data();
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "unattributed_deposits",
+      "payment_intents",
+      "payment_intents_private",
+      "chain_txs_private",
+    ]);
+
+    queueService = { addDepositReturnJob: jest.fn().mockResolvedValue("job1") };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UnattributedDepositsService,
+        { provide: FirebaseService, useValue: { firestore: db } },
+        { provide: FxRateService, useValue: { getRate: jest.fn().mockResolvedValue("1") } },
+        { provide: QueueService, useValue: queueService },
+      ],
+    }).compile();
+
+    service = module.get<UnattributedDepositsService>(UnattributedDepositsService);
+  });
+
+  it("refuses to attach a deposit to an intent for another asset", async () => {
+    await seedDeposit("dep1");
+    await db.collection("payment_intents").doc("intent1").set({
+      campaignId: "camp1",
+      networkId: "polygon_mainnet",
+      assetId: "matic_polygon_mainnet",
+      depositAddress,
+      expectedAmountRaw: "5000000",
+      status: "EXPIRED",
+    });
+
+    await expect(
+      service.resolve("dep1", { action: "ATTACH_INTENT", intentId: "intent1" }, "admin1")
+    ).rejects.toThrow("different asset");
+    expect(await read("dep1")).toMatchObject({ status: "OPEN", resolution: null });
+  });
+
+  it("queues the return transfer of an EVM deposit", async () => {
+    await seedDeposit("dep1");
+
+    const resolved = await service.resolve("dep1", { action: "MARK_FOR_RETURN" }, "admin1");
+
+    expect(resolved).toMatchObject({
+      status: "RETURN_PENDING",
+      resolution: { action: "MARK_FOR_RETURN", returnAddress: sender, resolvedBy: "admin1" },
+    });
+    expect(queueService.addDepositReturnJob).toHaveBeenCalledWith("dep1");
+    await expect(
+      service.resolve("dep1", { action: "RECORD_RETURN", txHash: "0xmanual" }, "admin1")
+    ).rejects.toThrow("sent and recorded by the worker");
+  });
+
+  it("leaves the deposit open when the return cannot be queued", async () => {
+    await seedDeposit("dep1");
+    queueService.addDepositReturnJob.mockRejectedValueOnce(new Error("deadline exceeded"));
+
+    await expect(service.resolve("dep1", { action: "MARK_FOR_RETURN" }, "admin1")).rejects.toThrow(
+      BadRequestException
+    );
+
+    expect(await read("dep1")).toMatchObject({
+      status: "OPEN",
+      resolution: null,
+      returnFailureReason: "deadline exceeded",
+    });
+  });
+
+  it("lets a failed return be marked again", async () => {
+    await seedDeposit("dep1", { status: "RETURN_FAILED", returnFailureReason: "out of gas" });
+
+    await expect(
+      service.resolve("dep1", { action: "MARK_FOR_RETURN", returnAddress: "not-an-address" }, "admin1")
+    ).rejects.toThrow("not a valid EVM address");
+    await service.resolve("dep1", { action: "MARK_FOR_RETURN" }, "admin1");
+
+    expect(await read("dep1")).toMatchObject({ status: "RETURN_PENDING", returnFailureReason: null });
+    expect(queueService.addDepositReturnJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("records a return paid out by hand on networks the worker cannot send from", async () => {
+    await seedDeposit("dep1", {
+      networkId: "bitcoin_mainnet",
+      from: "bc1qsenderaddress0000000000000000000000000",
+      to: "bc1qdepositaddress000000000000000000000000",
+      assetId: "btc_bitcoin_mainnet",
+      assetType: "UTXO",
+      tokenAddress: null,
+      amountRaw: "150000",
+      amountNative: "0.0015",
+      decimals: 8,
+    });
+
+    await service.resolve("dep1", { action: "MARK_FOR_RETURN" }, "admin1");
+    expect(queueService.addDepositReturnJob).not.toHaveBeenCalled();
+    await expect(service.resolve("dep1", { action: "RECORD_RETURN" }, "admin1")).rejects.toThrow("txHash");
+
+    const returned = await service.resolve("dep1", { action: "RECORD_RETURN", txHash: "btc-return-tx" }, "admin1");
+
+    expect(returned).toMatchObject({
+      status: "RETURNED",
+      returnTx: { txHash: "btc-return-tx", amountRaw: "150000" },
+    });
+    await expect(service.resolve("dep1", { action: "RECORD_DONATION" }, "admin1")).rejects.toThrow(
+      "already RETURNED"
+    );
+  });
+});
@@ -0,0 +1,515 @@
+import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { isAddress } from "viem";
+import {
+  PaymentIntentDoc,
+  UnattributedDepositDoc,
+  UnattributedDepositStatus,
+} from "@opencause/firebase";
+import {
+  getAsset,
+  getNetwork,
+  getExplorerTxUrl,
+  maskTxHash,
+  classifyPayment,
+  getPaymentTolerance,
+  PaymentResolution,
+} from "@opencause/crypto-core";
+import { FirebaseService } from "../firebase/firebase.service";
+import { QueueService } from "../queue/queue.service";
+import { FxRateService } from "./fx-rate.service";
+
+export type UnattributedDepositAction = "ATTACH_INTENT" | "RECORD_DONATION" | "MARK_FOR_RETURN" | "RECORD_RETURN";
+
+// Intents a late transfer can still be credited to
+const ATTACHABLE_INTENT_STATUSES = ["CREATED", "DETECTING", "MISMATCH", "EXPIRED", "FAILED"];
+
+interface Donor {
+  donorUid: string | null;
+  donorName: string | null;
+  isAnonymous: boolean;
+}
+
+/**
+ * Unattributed Deposits Service
+ * Admin inbox for transfers to campaign deposit addresses that matched no
+ * payment intent (recorded by the worker's intent watcher). Each confirmed
+ * deposit is attached to a late intent, recorded as an anonymous donation at
+ * the FX rate snapshotted when it confirmed, or sent back: by the worker's
+ * deposit_return job on EVM networks, by hand (then recorded) elsewhere.
+ */
+@Injectable()
+export class UnattributedDepositsService {
+  constructor(
+    private firebase: FirebaseService,
+    private fxRate: FxRateService,
+    private queueService: QueueService
+  ) {}
+
+  async list(status?: UnattributedDepositStatus, limit = 100) {
+    let query: admin.firestore.Query = this.firebase.firestore.collection("unattributed_deposits");
+    if (status) query = query.where("status", "==", status);
+    const snapshot = await query.orderBy("createdAt", "desc").limit(Math.min(limit, 200)).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as UnattributedDepositDoc) }));
+  }
+
+  async resolve(
+    depositId: string,
+    params: {
+      action: UnattributedDepositAction;
+      intentId?: string;
+      returnAddress?: string;
+      txHash?: string;
+      note?: string;
+    },
+    adminId: string
+  ) {
+    const depositRef = this.firebase.firestore.collection("unattributed_deposits").doc(depositId);
+    const snap = await depositRef.get();
+    if (!snap.exists) {
+      throw new NotFoundException("Unattributed deposit not found");
+    }
+    if (params.action !== "RECORD_RETURN") {
+      this.assertOpen(snap.data() as UnattributedDepositDoc);
+    }
+
+    switch (params.action) {
+      case "ATTACH_INTENT":
+        if (!params.intentId) {
+          throw new BadRequestException("intentId is required to attach a deposit");
+        }
+        await this.attachToIntent(depositRef, params.intentId, params.note, adminId);
+        break;
+      case "RECORD_DONATION":
+        await this.recordAnonymousDonation(depositRef, params.note, adminId);
+        break;
+      case "MARK_FOR_RETURN":
+        await this.markForReturn(depositRef, params.returnAddress, params.note, adminId);
+        break;
+      case "RECORD_RETURN":
+        if (!params.txHash?.trim()) {
+          throw new BadRequestException("txHash of the return transfer is required");
+        }
+        await this.recordReturn(depositRef, params.txHash.trim(), params.note);
+        break;
+      default:
+        throw new BadRequestException(
+          "action must be ATTACH_INTENT, RECORD_DONATION, MARK_FOR_RETURN or RECORD_RETURN"
+        );
+    }
+
+    return { id: depositId, ...(await depositRef.get()).data() };
+  }
+
+  /**
+   * Credit the transfer to an intent it arrived too late for (or that missed
+   * it), with the same running total and resolution the watcher keeps
+   */
+  private async attachToIntent(
+    depositRef: admin.firestore.DocumentReference,
+    intentId: string,
+    note: string | undefined,
+    adminId: string
+  ) {
+    const db = this.firebase.firestore;
+    const intentRef = db.collection("payment_intents").doc(intentId);
+    const [intentSnap, intentPrivateSnap, intentTxs] = await Promise.all([
+      intentRef.get(),
+      db.collection("payment_intents_private").doc(intentId).get(),
+      db.collection("chain_txs_private").where("intentId", "==", intentId).get(),
+    ]);
+    if (!intentSnap.exists) {
+      throw new NotFoundException("Payment intent not found");
+    }
+    const intent = intentSnap.data() as PaymentIntentDoc;
+    const deposit = (await depositRef.get()).data() as UnattributedDepositDoc;
+
+    if (intent.campaignId !== deposit.campaignId || intent.depositAddress?.toLowerCase() !== deposit.to.toLowerCase()) {
+      throw new BadRequestException("Intent is for a different campaign or deposit address");
+    }
+    if (intent.networkId !== deposit.networkId) {
+      throw new BadRequestException("Intent is for a different network");
+    }
+    if (intent.assetId !== deposit.assetId) {
+      throw new BadRequestException("Intent is for a different asset");
+    }
+    if (!ATTACHABLE_INTENT_STATUSES.includes(intent.status)) {
+      throw new BadRequestException(`A ${intent.status} intent cannot take another transfer`);
+    }
+
+    const intentPrivate = intentPrivateSnap.data();
+    const donor: Donor = {
+      donorUid: intentPrivate?.donorUid || null,
+      donorName: intentPrivate?.donorName || null,
+      isAnonymous: intentPrivate?.isAnonymous || false,
+    };
+    const otherTxsConfirmed = intentTxs.docs.every((doc) =>
+      ["CONFIRMED", "REORGED"].includes(doc.get("status"))
+    );
+    const usdRate = await this.usdRateFor(deposit);
+
+    await db.runTransaction(async (t) => {
+      const current = (await t.get(intentRef)).data() as PaymentIntentDoc;
+      const decimals = current.expectedDecimals || deposit.decimals;
+      const receivedRaw = BigInt(current.receivedAmountRaw || "0") + BigInt(deposit.amountRaw);
+      const transferCount = (current.detectedTxHashes?.length || 0) + 1;
+      let { resolution, remainingRaw } = classifyPayment(
+        BigInt(current.expectedAmountRaw || deposit.amountRaw),
+        receivedRaw,
+        transferCount,
+        getPaymentTolerance(current.assetId)
+      );
+
+      // Nobody can top up an intent that has run out
+      const expiresAt = (current.expiresAt as admin.firestore.Timestamp | undefined)?.toMillis();
+      const expired = current.status === "EXPIRED" || (!!expiresAt && expiresAt < Date.now());
+      if (resolution === "PARTIAL" && expired) {
+        resolution = "UNDERPAID_ACCEPTED";
+        remainingRaw = 0n;
+      }
+      const status: PaymentIntentDoc["status"] =
+        resolution === "PARTIAL" ? "MISMATCH" : otherTxsConfirmed ? "CONFIRMED" : "CONFIRMING";
+
+      const { explorerTxUrl } = await this.recordDonation(t, depositRef, deposit, donor, intentId, usdRate, {
+        action: "ATTACH_INTENT",
+        intentId,
+        note,
+        adminId,
+      });
+
+      const amountNative = this.formatUnits(BigInt(deposit.amountRaw), decimals);
+      const resolutionFields = this.intentResolutionFields(resolution, receivedRaw, remainingRaw, decimals);
+      const now = admin.firestore.Timestamp.now();
+      t.update(intentRef, {
+        status,
+        ...resolutionFields,
+        detectedTxHashes: admin.firestore.FieldValue.arrayUnion(deposit.txHash),
+        ...(deposit.from ? { senderAddresses: admin.firestore.FieldValue.arrayUnion(deposit.from) } : {}),
+        confirmedTxHash: deposit.txHash,
+        txHash: deposit.txHash,
+        detectedNetworkId: deposit.networkId,
+        detectedAssetType: deposit.assetType,
+        detectedTokenAddress: deposit.tokenAddress,
+        detectedAmountRaw: deposit.amountRaw,
+        detectedAmountNative: amountNative,
+        updatedAt: now,
+      });
+      t.set(
+        db.collection("payment_intents_public").doc(intentId),
+        {
+          intentId,
+          campaignId: current.campaignId,
+          depositAddress: current.depositAddress,
+          expectedAsset: current.assetId,
+          expectedNetwork: current.networkId,
+          expectedAmountNative: current.expectedNative || current.amountNative,
+          expiresAt: current.expiresAt,
+          status,
+          resolution,
+          receivedAmountNative: resolutionFields.receivedAmountNative,
+          remainingAmountNative: resolutionFields.remainingAmountNative,
+          detectedNetworkId: deposit.networkId,
+          detectedAssetSymbol: getAsset(deposit.assetId || "")?.symbol || null,
+          detectedAmountNative: amountNative,
+          ...(!donor.isAnonymous ? { explorerUrl: explorerTxUrl, txHashMasked: maskTxHash(deposit.txHash) } : {}),
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+    });
+  }
+
+  /**
+   * Record the transfer as an anonymous donation to the deposit's campaign
+   */
+  private async recordAnonymousDonation(
+    depositRef: admin.firestore.DocumentReference,
+    note: string | undefined,
+    adminId: string
+  ) {
+    const deposit = (await depositRef.get()).data() as UnattributedDepositDoc;
+    const donor: Donor = { donorUid: null, donorName: null, isAnonymous: true };
+    const usdRate = await this.usdRateFor(deposit);
+    await this.firebase.firestore.runTransaction(async (t) => {
+      await this.recordDonation(t, depositRef, deposit, donor, null, usdRate, {
+        action: "RECORD_DONATION",
+        intentId: null,
+        note,
+        adminId,
+      });
+    });
+  }
+
+  /**
+   * Send the transfer back to its sender (or `returnAddress`). On EVM networks
+   * the worker signs the return from the deposit address; if that job cannot
+   * be queued nothing was sent and the deposit goes back to where it was.
+   * Elsewhere the deposit waits in RETURN_PENDING until an admin records the
+   * transfer they made by hand (RECORD_RETURN).
+   */
+  private async markForReturn(
+    depositRef: admin.firestore.DocumentReference,
+    returnAddress: string | undefined,
+    note: string | undefined,
+    adminId: string
+  ) {
+    const { previous, automatic } = await this.firebase.firestore.runTransaction(async (t) => {
+      const deposit = (await t.get(depositRef)).data() as UnattributedDepositDoc;
+      this.assertOpen(deposit);
+      const destination = returnAddress?.trim() || deposit.from;
+      if (!destination) {
+        throw new BadRequestException("No sender address is known; a return address is required");
+      }
+      const automatic = getNetwork(deposit.networkId)?.type === "EVM";
+      if (automatic && !isAddress(destination)) {
+        throw new BadRequestException("Return address is not a valid EVM address");
+      }
+      t.update(depositRef, {
+        status: "RETURN_PENDING",
+        resolution: {
+          action: "MARK_FOR_RETURN",
+          returnAddress: destination,
+          note: note || null,
+          resolvedBy: adminId,
+          resolvedAt: admin.firestore.Timestamp.now(),
+        },
+        returnTx: null,
+        returnFailureReason: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { previous: deposit, automatic };
+    });
+    if (!automatic) return;
+
+    try {
+      await this.queueService.addDepositReturnJob(depositRef.id);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      await depositRef.update({
+        status: previous.status,
+        resolution: previous.resolution || null,
+        returnFailureReason: message,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new BadRequestException(`Could not queue return transfer: ${message}`);
+    }
+  }
+
+  /**
+   * Close a return paid out by hand on a network the worker cannot send from
+   */
+  private async recordReturn(depositRef: admin.firestore.DocumentReference, txHash: string, note: string | undefined) {
+    await this.firebase.firestore.runTransaction(async (t) => {
+      const deposit = (await t.get(depositRef)).data() as UnattributedDepositDoc;
+      if (deposit.status !== "RETURN_PENDING") {
+        throw new BadRequestException(`Deposit is ${deposit.status}, not waiting for a return`);
+      }
+      const network = getNetwork(deposit.networkId);
+      if (network?.type === "EVM") {
+        throw new BadRequestException("EVM returns are sent and recorded by the worker");
+      }
+      const now = admin.firestore.Timestamp.now();
+      t.update(depositRef, {
+        status: "RETURNED",
+        returnTx: {
+          txHash,
+          amountRaw: deposit.amountRaw,
+          explorerUrl: network ? getExplorerTxUrl(network, txHash) : "",
+          submittedAt: now,
+          confirmedAt: now,
+        },
+        ...(note && { "resolution.note": note }),
+        updatedAt: now,
+      });
+    });
+  }
+
+  /**
+   * Write the chain tx, donation records and provisional campaign_stats amount
+   * for a confirmed deposit, and close it. Reads happen before any write, so
+   * callers must not have written in the transaction yet.
+   */
+  private async recordDonation(
+    t: admin.firestore.Transaction,
+    depositRef: admin.firestore.DocumentReference,
+    deposit: UnattributedDepositDoc,
+    donor: Donor,
+    intentId: string | null,
+    usdRate: string | null,
+    resolution: { action: "ATTACH_INTENT" | "RECORD_DONATION"; intentId: string | null; note?: string; adminId: string }
+  ) {
+    const db = this.firebase.firestore;
+    const donationId = depositRef.id;
+    const txRef = db.collection("chain_txs_private").doc(`${deposit.networkId}_${deposit.txHash}`);
+    const statsRef = db.collection("campaign_stats").doc(deposit.campaignId);
+    const donationPublicRef = db
+      .collection("donations_public")
+      .doc(deposit.campaignId)
+      .collection("items")
+      .doc(donationId);
+
+    const [current, txSnap, statsSnap] = await Promise.all([t.get(depositRef), t.get(txRef), t.get(statsRef)]);
+    this.assertOpen(current.data() as UnattributedDepositDoc);
+    if (txSnap.exists && txSnap.get("status") !== "REORGED") {
+      throw new BadRequestException("This transfer is already recorded");
+    }
+
+    const network = getNetwork(deposit.networkId);
+    const asset = deposit.assetId ? getAsset(deposit.assetId) : undefined;
+    const assetSymbol = asset?.symbol || (deposit.assetType === "ERC20" ? "TOKEN" : network?.symbol || "ETH");
+    const explorerTxUrl = `${network?.explorerBaseUrl || "https://etherscan.io"}/tx/${deposit.txHash}`;
+    const statsAssetKey = deposit.assetId ? `${deposit.assetId}_${deposit.networkId}` : null;
+
+    const amount = Number(deposit.amountNative);
+    const usdAtConfirm = usdRate ? (amount * parseFloat(usdRate)).toFixed(2) : null;
+    const inrAtConfirm = deposit.inrRateAtConfirm ? (amount * parseFloat(deposit.inrRateAtConfirm)).toFixed(2) : null;
+
+    const now = admin.firestore.Timestamp.now();
+    const createdAt = deposit.blockTimestamp || now;
+
+    t.set(txRef, {
+      networkId: deposit.networkId,
+      txHash: deposit.txHash,
+      to: deposit.to,
+      from: deposit.from,
+      amountRaw: deposit.amountRaw,
+      amountNative: deposit.amountNative,
+      assetType: deposit.assetType,
+      tokenAddress: deposit.tokenAddress,
+      blockNumber: deposit.blockNumber,
+      blockHash: deposit.blockHash,
+      confirmations: deposit.confirmations,
+      status: "CONFIRMED",
+      explorerUrl: explorerTxUrl,
+      intentId,
+      campaignId: deposit.campaignId,
+      donationId,
+      statsAssetKey,
+      reorgedAt: null,
+      createdAt,
+      updatedAt: now,
+    });
+
+    if (statsAssetKey) {
+      const stats = statsSnap.data() || {};
+      const add = (field: string) =>
+        (BigInt(stats[field]?.[statsAssetKey] || "0") + BigInt(deposit.amountRaw)).toString();
+      t.set(
+        statsRef,
+        {
+          totalsByAsset: { [statsAssetKey]: add("totalsByAsset") },
+          balanceByAsset: { [statsAssetKey]: add("balanceByAsset") },
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+    }
+
+    t.set(db.collection("donations_private").doc(donationId), {
+      donationId,
+      campaignId: deposit.campaignId,
+      donorUid: donor.donorUid,
+      donorName: donor.donorName,
+      donorEmail: null,
+      isAnonymous: donor.isAnonymous,
+      txHash: deposit.txHash,
+      fromAddress: deposit.from,
+      fullExplorerUrl: explorerTxUrl,
+      networkId: deposit.networkId,
+      assetId: deposit.assetId || "unknown",
+      assetSymbol,
+      assetType: deposit.assetType,
+      rawAmount: deposit.amountRaw,
+      decimals: deposit.decimals,
+      tokenAddress: deposit.tokenAddress,
+      amountNative: deposit.amountNative,
+      inrAtConfirm,
+      usdAtConfirm,
+      priceAtConfirm: usdRate,
+      blockNumber: deposit.blockNumber,
+      confirmations: deposit.confirmations,
+      createdAt,
+    });
+
+    t.set(donationPublicRef, {
+      donationId,
+      campaignId: deposit.campaignId,
+      type: "CRYPTO",
+      donorLabel: donor.isAnonymous ? "Anonymous" : donor.donorName || "Anonymous",
+      isAnonymous: donor.isAnonymous,
+      assetSymbol,
+      networkId: deposit.networkId,
+      amountNative: deposit.amountNative,
+      amountRaw: deposit.amountRaw,
+      decimals: deposit.decimals,
+      verified: true,
+      verifiedOnChain: true,
+      createdAt,
+      blockTimestamp: deposit.blockTimestamp || null,
+      blockNumber: deposit.blockNumber,
+      updatedAt: now,
+      ...(donor.isAnonymous
+        ? { txHashPrivateRef: donationId }
+        : { txHashMasked: maskTxHash(deposit.txHash), explorerUrl: explorerTxUrl }),
+    });
+
+    t.update(depositRef, {
+      status: resolution.action === "ATTACH_INTENT" ? "ATTACHED" : "DONATION_RECORDED",
+      resolution: {
+        action: resolution.action,
+        intentId: resolution.intentId,
+        donationId,
+        note: resolution.note || null,
+        resolvedBy: resolution.adminId,
+        resolvedAt: now,
+      },
+      updatedAt: now,
+    });
+
+    return { donationId, explorerTxUrl };
+  }
+
+  /**
+   * USD rate from when the transfer confirmed; a live rate if that snapshot failed
+   */
+  private async usdRateFor(deposit: UnattributedDepositDoc): Promise<string | null> {
+    if (deposit.usdRateAtConfirm) return deposit.usdRateAtConfirm;
+    const asset = deposit.assetId ? getAsset(deposit.assetId) : undefined;
+    if (!asset) return null;
+    return this.fxRate.getRate(asset.coingeckoId || asset.assetId).catch(() => null);
+  }
+
+  private intentResolutionFields(
+    resolution: PaymentResolution,
+    receivedRaw: bigint,
+    remainingRaw: bigint,
+    decimals: number
+  ) {
+    return {
+      resolution,
+      receivedAmountRaw: receivedRaw.toString(),
+      receivedAmountNative: this.formatUnits(receivedRaw, decimals),
+      remainingAmountRaw: remainingRaw.toString(),
+      remainingAmountNative: this.formatUnits(remainingRaw, decimals),
+    };
+  }
+
+  private assertOpen(deposit: UnattributedDepositDoc) {
+    if (deposit.status === "CONFIRMING") {
+      throw new BadRequestException("Deposit has not reached its confirmation depth yet");
+    }
+    // A return that could not be sent leaves the funds on the deposit address
+    if (deposit.status !== "OPEN" && deposit.status !== "RETURN_FAILED") {
+      throw new BadRequestException(`Deposit is already ${deposit.status}`);
+    }
+  }
+
+  private formatUnits(value: bigint, decimals: number): string {
+    const divisor = 10n ** BigInt(decimals);
+    const whole = value / divisor;
+    const remainder = value % divisor;
+    if (remainder === 0n) return whole.toString();
+    const remainderStr = remainder.toString().padStart(decimals, "0").replace(/0+$/, "");
+    return `${whole}.${remainderStr}`;
+  }
+}
@@ -135,16 +135,22 @@ export class DonationsService {
 
     const donation = { id: donationId };
 
-    // Anchor evidence on-chain
-    try {
-      await this.web3Service.anchorEvidence({
-        kind: EvidenceKind.INR_DONATION,
-        campaignId: dto.campaignId,
-        evidenceHash: `0x${evidenceHash}`,
-        amount: dto.amount,
-      });
-    } catch (error) {
-      console.error("Failed to anchor evidence:", error);
+    // INR donations have no on-chain trail of their own; anchor them in the
+    // campaign's next INR_DONATION batch
+    if (dto.type === "INR") {
+      try {
+        await this.web3Service.anchorEvidence(
+          {
+            kind: EvidenceKind.INR_DONATION,
+            campaignId: dto.campaignId,
+            evidenceHash: `0x${evidenceHash}`,
+            amount: dto.amount,
+          },
+          { type: "donation", id: donationId }
+        );
+      } catch (error) {
+        console.error("Failed to anchor evidence:", error);
+      }
     }
 
     // Update campaign totals (outside transaction for now, but should be in transaction ideally)
@@ -1,14 +1,10 @@
-import { Controller, Get, Post, Body, Param } from "@nestjs/common";
+import { Controller, Get, Post, Body, Param, StreamableFile } from "@nestjs/common";
 import { EvidenceService } from "./evidence.service";
 import { EvidenceBundle } from "@opencause/types";
-import { FirebaseService } from "../firebase/firebase.service";
 
 @Controller("evidence")
 export class EvidenceController {
-  constructor(
-    private evidenceService: EvidenceService,
-    private firebase: FirebaseService
-  ) {}
+  constructor(private evidenceService: EvidenceService) {}
 
   @Post("verify")
   async verify(@Body() body: { bundle: EvidenceBundle; expectedHash: string }) {
@@ -16,15 +12,22 @@ export class EvidenceController {
     return { valid };
   }
 
+  /**
+   * GET /evidence/:hash/ipfs
+   * Download canonical evidence JSON through its IPFS CID, verified against the hash
+   */
+  @Get(":hash/ipfs")
+  async downloadFromIpfs(@Param("hash") hash: string): Promise<StreamableFile> {
+    const content = await this.evidenceService.getEvidenceFromIpfs(hash);
+    return new StreamableFile(content, {
+      type: "application/json",
+      disposition: `attachment; filename="${hash.replace(/^0x/, "").toLowerCase()}.json"`,
+    });
+  }
+
   @Get(":hash")
   async getEvidence(@Param("hash") hash: string) {
-    const evidence = await this.firebase.query("evidence", "evidenceHash", "==", hash);
-
-    if (evidence.length === 0) {
-      return { found: false };
-    }
-
-    return { found: true, evidence: evidence[0] };
+    return this.evidenceService.getEvidence(hash);
   }
 }
 
@@ -2,9 +2,10 @@ import { Module } from "@nestjs/common";
 import { EvidenceService } from "./evidence.service";
 import { EvidenceController } from "./evidence.controller";
 import { QueueModule } from "../queue/queue.module";
+import { IpfsModule } from "../ipfs/ipfs.module";
 
 @Module({
-  imports: [QueueModule],
+  imports: [QueueModule, IpfsModule],
   controllers: [EvidenceController],
   providers: [EvidenceService],
   exports: [EvidenceService],
@@ -0,0 +1,231 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { createHash } from "crypto";
+import * as admin from "firebase-admin";
+import { keccak256, toHex } from "viem";
+import { EvidenceKind } from "@opencause/types";
+import { buildMerkleTree, getMerkleProof, merkleLeaf, processMerkleProof } from "@opencause/crypto-core";
+import { EvidenceService } from "./evidence.service";
+import { Web3Service } from "../web3/web3.service";
+import { QueueService } from "../queue/queue.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { IpfsService } from "../ipfs/ipfs.service";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startKubo,
+  startFakeR2,
+  KuboNode,
+  FakeR2,
+} from "@opencause/testkit";
+
+describe("EvidenceService anchoring", () => {
+  let service: EvidenceService;
+  let web3: Web3Service;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const hashes = ["bundle-1", "bundle-2", "bundle-3"].map((b) => keccak256(toHex(b)));
+
+  // Batch as the worker's evidence anchor job leaves it once the root is mined
+  const seedAnchoredBatch = async () => {
+    const leaves = hashes.map((h) => merkleLeaf(h));
+    const tree = buildMerkleTree(leaves);
+    const txHash = keccak256(toHex("root-tx"));
+    const now = admin.firestore.Timestamp.now();
+
+    await db.collection("evidence_batches").doc("batch1").set({
+      campaignId: "camp1",
+      kind: "WITHDRAWAL_REQUEST",
+      merkleRoot: tree.root,
+      leafCount: hashes.length,
+      evidenceHashes: hashes,
+      networkId: "polygon_mainnet",
+      chainId: 137,
+      registryAddress: "0x0000000000000000000000000000000000000e71",
+      status: "ANCHORED",
+      txHash,
+      blockNumber: "1234",
+      explorerUrl: `https://polygonscan.com/tx/${txHash}`,
+      anchoredAt: now,
+    });
+    await Promise.all(
+      hashes.map((h, index) =>
+        db.collection("evidence_anchors").doc(h.slice(2)).set({
+          evidenceHash: h,
+          kind: "WITHDRAWAL_REQUEST",
+          campaignId: "camp1",
+          status: "ANCHORED",
+          batchId: "batch1",
+          leaf: leaves[index],
+          leafIndex: index,
+          proof: getMerkleProof(tree, index),
+          merkleRoot: tree.root,
+          txHash,
+          blockNumber: "1234",
+          explorerUrl: `https://polygonscan.com/tx/${txHash}`,
+          anchoredAt: now,
+        })
+      )
+    );
+    return { tree, txHash };
+  };
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["evidence", "evidence_anchors", "evidence_batches"]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvidenceService,
+        Web3Service,
+        IpfsService,
+        { provide: QueueService, useValue: {} },
+        { provide: FirebaseService, useValue: { firestore: db } },
+      ],
+    }).compile();
+
+    service = module.get<EvidenceService>(EvidenceService);
+    web3 = module.get<Web3Service>(Web3Service);
+  });
+
+  it("queues an evidence hash once for the next batch", async () => {
+    const dto = { kind: EvidenceKind.WITHDRAWAL_REQUEST, campaignId: "camp1", evidenceHash: hashes[0], amount: "500" };
+
+    await web3.anchorEvidence(dto, { type: "withdrawal", id: "wd1" });
+    await web3.anchorEvidence(dto, { type: "withdrawal", id: "wd1" });
+
+    const anchors = await db.collection("evidence_anchors").get();
+    expect(anchors.docs.map((d) => d.id)).toEqual([hashes[0].slice(2)]);
+    expect(anchors.docs[0].data()).toMatchObject({
+      status: "PENDING",
+      kind: "WITHDRAWAL_REQUEST",
+      campaignId: "camp1",
+      source: { type: "withdrawal", id: "wd1" },
+    });
+
+    const result = await service.getEvidence(hashes[0]);
+    expect(result.anchor).toMatchObject({ status: "PENDING", proof: null, txHash: null, proofValid: null });
+  });
+
+  it("returns the anchor tx, block and an inclusion proof for the batch root", async () => {
+    const { tree, txHash } = await seedAnchoredBatch();
+
+    // Hashes are looked up with or without 0x
+    const result = await service.getEvidence(hashes[1].slice(2));
+
+    expect(result).toMatchObject({
+      found: true,
+      anchor: {
+        status: "ANCHORED",
+        leafIndex: 1,
+        merkleRoot: tree.root,
+        txHash,
+        blockNumber: "1234",
+        chainId: 137,
+        leafCount: 3,
+        proofValid: true,
+      },
+    });
+    expect(processMerkleProof(merkleLeaf(hashes[1]), result.anchor!.proof as any)).toBe(tree.root);
+  });
+
+  it("reports a proof that does not lead to the root", async () => {
+    await seedAnchoredBatch();
+    await db.collection("evidence_anchors").doc(hashes[2].slice(2)).update({ proof: [keccak256(toHex("forged"))] });
+
+    const result = await service.getEvidence(hashes[2]);
+
+    expect(result.anchor!.proofValid).toBe(false);
+  });
+
+  it("reports unknown hashes as not found", async () => {
+    expect(await service.getEvidence(keccak256(toHex("nothing")))).toEqual({ found: false });
+  });
+});
+
+describe("EvidenceService IPFS pinning", () => {
+  let kubo: KuboNode;
+  let r2: FakeR2;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let service: EvidenceService;
+  let queue: { addIPFSPinJob: jest.Mock };
+  const env = { ...process.env };
+
+  const bundle = { version: 1, kind: "WITHDRAWAL_REQUEST", campaignId: "camp1", artifacts: [] } as any;
+  const canonical = '{"artifacts":[],"campaignId":"camp1","kind":"WITHDRAWAL_REQUEST","version":1}';
+  const evidenceHash = createHash("sha256").update(canonical).digest("hex");
+
+  const seedEvidence = (fields: Record<string, any>) =>
+    db.collection("evidence").doc("ev1").set({ kind: "WITHDRAWAL_REQUEST", campaignId: "camp1", evidenceHash, ...fields });
+
+  beforeAll(async () => {
+    kubo = await startKubo({ apiPort: 5104 });
+    r2 = await startFakeR2();
+    process.env.IPFS_API_URL = kubo.apiUrl;
+    process.env.R2_ENDPOINT = r2.url;
+    process.env.R2_ACCOUNT_ID = "test";
+    process.env.R2_ACCESS_KEY_ID = "test";
+    process.env.R2_SECRET_ACCESS_KEY = "test";
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await kubo?.stop();
+    await r2?.close();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["evidence"]);
+    queue = { addIPFSPinJob: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EvidenceService,
+        IpfsService,
+        { provide: QueueService, useValue: queue },
+        { provide: FirebaseService, useValue: { firestore: db } },
+      ],
+    }).compile();
+
+    service = module.get<EvidenceService>(EvidenceService);
+  });
+
+  it("keeps the canonical JSON in R2 for the pin job", async () => {
+    expect(await service.createEvidenceBundle(bundle)).toEqual({ evidenceHash });
+
+    const objectKey = `evidence/${evidenceHash}.json`;
+    expect(r2.objects.get(`opencause-proofs/${objectKey}`)?.body.toString()).toBe(canonical);
+    expect(queue.addIPFSPinJob).toHaveBeenCalledWith({ evidenceHash, objectKey });
+  });
+
+  it("serves pinned evidence once it hashes back to the evidence hash", async () => {
+    await seedEvidence({ evidenceCid: await kubo.add(canonical), evidencePinStatus: "PINNED" });
+
+    expect((await service.getEvidenceFromIpfs(`0x${evidenceHash}`)).toString()).toBe(canonical);
+    expect(queue.addIPFSPinJob).not.toHaveBeenCalled();
+  });
+
+  it("refuses content that does not match and queues a re-pin from R2", async () => {
+    await seedEvidence({ evidenceCid: await kubo.add("tampered"), evidencePinStatus: "PINNED" });
+
+    await expect(service.getEvidenceFromIpfs(evidenceHash)).rejects.toThrow("queued for re-pinning");
+
+    expect(queue.addIPFSPinJob).toHaveBeenCalledWith({ evidenceHash, objectKey: `evidence/${evidenceHash}.json` });
+    const evidence = (await db.collection("evidence").doc("ev1").get()).data()!;
+    expect(evidence.evidencePinStatus).toBe("PENDING");
+    expect(evidence.evidencePinError).toContain("expected");
+  });
+
+  it("re-pins evidence whose pin job gave up", async () => {
+    await seedEvidence({ evidencePinStatus: "FAILED", evidencePinError: "IPFS add failed: 500" });
+
+    await expect(service.getEvidenceFromIpfs(evidenceHash)).rejects.toThrow("queued for re-pinning");
+    expect(queue.addIPFSPinJob).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports evidence that is not pinned yet", async () => {
+    await seedEvidence({});
+
+    await expect(service.getEvidenceFromIpfs(evidenceHash)).rejects.toThrow("not pinned to IPFS yet");
+  });
+});
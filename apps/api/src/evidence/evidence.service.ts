@@ -1,15 +1,28 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, NotFoundException, ServiceUnavailableException } from "@nestjs/common";
+import * as admin from "firebase-admin";
 import { EvidenceBundle } from "@opencause/types";
+import { EvidenceAnchorDoc, EvidenceBatchDoc } from "@opencause/firebase";
+import { verifyMerkleProof } from "@opencause/crypto-core";
+import type { Hex } from "viem";
 import { createHash } from "crypto";
 import canonicalize from "canonicalize";
+import { buildEvidenceKey, uploadBuffer } from "@opencause/r2";
 import { QueueService } from "../queue/queue.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { IpfsService } from "../ipfs/ipfs.service";
 
 @Injectable()
 export class EvidenceService {
-  constructor(private queueService: QueueService) {}
+  constructor(
+    private queueService: QueueService,
+    private firebase: FirebaseService,
+    private ipfsService: IpfsService
+  ) {}
 
   /**
    * Create evidence bundle: canonicalize JSON, hash, and pin to IPFS
+   * The canonical JSON is kept in R2, where the pin job (and any re-pin)
+   * reads it from
    */
   async createEvidenceBundle(bundle: EvidenceBundle): Promise<{ evidenceHash: string; evidenceCid?: string }> {
     // Canonicalize JSON deterministically
@@ -21,11 +34,11 @@ export class EvidenceService {
     // Generate hash
     const evidenceHash = createHash("sha256").update(canonical).digest("hex");
 
+    const objectKey = buildEvidenceKey(evidenceHash);
+    await uploadBuffer({ key: objectKey, buffer: Buffer.from(canonical), contentType: "application/json" });
+
     // Queue IPFS pinning job
-    await this.queueService.addIPFSPinJob({
-      data: canonical,
-      evidenceHash,
-    });
+    await this.queueService.addIPFSPinJob({ evidenceHash, objectKey });
 
     // For MVP, return hash immediately (CID will be updated async)
     return { evidenceHash };
@@ -42,6 +55,108 @@ export class EvidenceService {
     const computedHash = createHash("sha256").update(canonical).digest("hex");
     return computedHash === expectedHash.replace("0x", "");
   }
-}
 
+  /**
+   * Download canonical evidence JSON through its IPFS CID
+   * Content that does not hash back to the evidence hash is never served;
+   * the evidence is queued for re-pinning from R2 instead
+   */
+  async getEvidenceFromIpfs(hash: string): Promise<Buffer> {
+    const evidenceHash = hash.replace(/^0x/, "").toLowerCase();
+    const records = await this.firebase.firestore
+      .collection("evidence")
+      .where("evidenceHash", "==", evidenceHash)
+      .get();
+    if (records.empty) {
+      throw new NotFoundException(`Evidence ${evidenceHash} not found`);
+    }
+
+    const evidence = records.docs[0].data();
+    if (!evidence.evidenceCid && evidence.evidencePinStatus !== "FAILED") {
+      throw new NotFoundException(`Evidence ${evidenceHash} is not pinned to IPFS yet`);
+    }
 
+    const result = evidence.evidenceCid
+      ? await this.ipfsService.fetchVerified(evidence.evidenceCid, evidenceHash)
+      : { verified: false as const, reason: evidence.evidencePinError || "Pinning failed" };
+    if (result.verified === false) {
+      await this.requeuePin(evidenceHash, records.docs, result.reason);
+      throw new ServiceUnavailableException("IPFS copy of this evidence is unavailable; it has been queued for re-pinning");
+    }
+    return result.content;
+  }
+
+  /**
+   * Queue a re-pin; the job id keeps one pending per evidence hash
+   */
+  private async requeuePin(
+    evidenceHash: string,
+    records: admin.firestore.QueryDocumentSnapshot[],
+    reason: string
+  ): Promise<void> {
+    console.warn(`[Evidence] Re-pinning evidence ${evidenceHash}: ${reason}`);
+    await this.queueService.addIPFSPinJob({ evidenceHash, objectKey: buildEvidenceKey(evidenceHash) });
+    for (const doc of records) {
+      await doc.ref.update({
+        evidencePinStatus: "PENDING",
+        evidencePinError: reason,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+  }
+
+  /**
+   * Evidence record and its on-chain anchor: the batch root tx and block, and
+   * the Merkle proof linking the evidence hash to that root
+   */
+  async getEvidence(hash: string) {
+    const evidenceHash = hash.replace(/^0x/, "").toLowerCase();
+    const db = this.firebase.firestore;
+
+    const [records, anchorSnap] = await Promise.all([
+      db.collection("evidence").where("evidenceHash", "==", evidenceHash).limit(1).get(),
+      db.collection("evidence_anchors").doc(evidenceHash).get(),
+    ]);
+    if (records.empty && !anchorSnap.exists) {
+      return { found: false };
+    }
+
+    const evidence = records.empty ? null : { id: records.docs[0].id, ...records.docs[0].data() };
+    if (!anchorSnap.exists) {
+      return { found: true, evidence, anchor: null };
+    }
+
+    const anchor = anchorSnap.data() as EvidenceAnchorDoc;
+    const batch = anchor.batchId
+      ? ((await db.collection("evidence_batches").doc(anchor.batchId).get()).data() as EvidenceBatchDoc | undefined)
+      : undefined;
+
+    return {
+      found: true,
+      evidence,
+      anchor: {
+        status: anchor.status,
+        kind: anchor.kind,
+        campaignId: anchor.campaignId,
+        evidenceHash: anchor.evidenceHash,
+        leaf: anchor.leaf || null,
+        leafIndex: anchor.leafIndex ?? null,
+        proof: anchor.proof || null,
+        merkleRoot: anchor.merkleRoot || null,
+        // Only a mined root is worth checking against
+        proofValid:
+          anchor.status === "ANCHORED" && anchor.leaf && anchor.proof && anchor.merkleRoot
+            ? verifyMerkleProof(anchor.leaf as Hex, anchor.proof as Hex[], anchor.merkleRoot as Hex)
+            : null,
+        txHash: anchor.txHash || null,
+        blockNumber: anchor.blockNumber || null,
+        explorerUrl: anchor.explorerUrl || null,
+        anchoredAt: anchor.anchoredAt ? anchor.anchoredAt.toDate().toISOString() : null,
+        networkId: batch?.networkId || null,
+        chainId: batch?.chainId || null,
+        registryAddress: batch?.registryAddress || null,
+        leafCount: batch?.leafCount || null,
+      },
+    };
+  }
+}
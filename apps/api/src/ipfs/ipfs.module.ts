@@ -0,0 +1,11 @@
+import { Module } from "@nestjs/common";
+import { IpfsService } from "./ipfs.service";
+
+/**
+ * IpfsModule - Verified reads of pinned evidence and proof files
+ */
+@Module({
+  providers: [IpfsService],
+  exports: [IpfsService],
+})
+export class IpfsModule {}
@@ -0,0 +1,53 @@
+import { Injectable } from "@nestjs/common";
+import { createHash } from "crypto";
+
+export type IpfsFetchResult =
+  | { verified: true; content: Buffer }
+  | { verified: false; reason: string };
+
+/**
+ * IpfsService - Reads pinned content back through the kubo HTTP API
+ * (IPFS_API_URL) and checks it against the sha256 recorded at upload
+ * Pinning itself happens in the worker's IPFS pin job
+ */
+@Injectable()
+export class IpfsService {
+  private readonly timeoutMs = 30_000;
+
+  /**
+   * Fetch content by CID; only returned when it hashes to `sha256` (hex)
+   */
+  async fetchVerified(cid: string, sha256: string): Promise<IpfsFetchResult> {
+    const apiUrl = process.env.IPFS_API_URL;
+    if (!apiUrl) {
+      return { verified: false, reason: "IPFS_API_URL not configured" };
+    }
+
+    let content: Buffer;
+    try {
+      const response = await fetch(
+        `${apiUrl.replace(/\/$/, "")}/api/v0/cat?arg=${encodeURIComponent(cid)}`,
+        { method: "POST", headers: this.authHeaders(), signal: AbortSignal.timeout(this.timeoutMs) }
+      );
+      if (!response.ok) {
+        return { verified: false, reason: `IPFS cat failed: ${response.status} ${await response.text()}` };
+      }
+      content = Buffer.from(await response.arrayBuffer());
+    } catch (error: any) {
+      return { verified: false, reason: `IPFS cat failed: ${error.message}` };
+    }
+
+    const actual = createHash("sha256").update(content).digest("hex");
+    if (actual !== sha256.replace(/^0x/, "").toLowerCase()) {
+      return { verified: false, reason: `Content of ${cid} hashes to ${actual}, expected ${sha256}` };
+    }
+    return { verified: true, content };
+  }
+
+  private authHeaders(): Record<string, string> {
+    // Hosted kubo endpoints (e.g. Infura) take basic auth
+    if (!process.env.IPFS_PROJECT_ID || !process.env.IPFS_PROJECT_SECRET) return {};
+    const credentials = `${process.env.IPFS_PROJECT_ID}:${process.env.IPFS_PROJECT_SECRET}`;
+    return { Authorization: `Basic ${Buffer.from(credentials).toString("base64")}` };
+  }
+}
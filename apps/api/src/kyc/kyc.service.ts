@@ -1,6 +1,7 @@
 import { Injectable, BadRequestException } from "@nestjs/common";
 import { FirebaseService } from "../firebase/firebase.service";
 import { KYCDto, VC } from "@opencause/types";
+import { NgoDetails } from "@opencause/firebase";
 import * as jwt from "jsonwebtoken";
 import * as admin from "firebase-admin";
 import { uploadBuffer, buildKYCImageKey, getExtensionFromMimeType, getSignedGetUrl } from "@opencause/r2";
@@ -46,10 +47,21 @@ export class KYCService {
       expiresIn: "1y",
     });
 
-    // Store VC and update KYC status
+    // Store VC and update KYC status. NGO registration details are also kept
+    // in the clear for 80G receipts.
     await this.firebase.updateUser(userId, {
       vcJwt,
       kycStatus: "VERIFIED",
+      ...(user.role === "NGO_ORGANIZER" && {
+        ngoDetails: {
+          name: kycData.name,
+          pan: kycData.pan || null,
+          address: kycData.address || null,
+          registrationNumber: kycData.registrationNumber || null,
+          section12A: kycData.section12A || null,
+          section80G: kycData.section80G || null,
+        } as NgoDetails,
+      }),
     });
 
     return vcJwt;
@@ -43,8 +43,11 @@ async function bootstrap() {
   // Register raw body parser for webhook routes only
   // Only capture raw body for webhook endpoints to avoid interfering with normal JSON parsing
   fastifyInstance.addHook('onRequest', async (request, reply) => {
-    // Only capture raw body for webhook routes (Razorpay webhook)
-    const isWebhookRoute = request.url.includes('/payments/razorpay/webhook');
+    // Only capture raw body for webhook routes (Razorpay and Cashfree webhooks)
+    const isWebhookRoute =
+      request.url.includes('/payments/razorpay/webhook') ||
+      request.url.includes('/payments/cashfree/webhook') ||
+      request.url.includes('/payments/cashfree/payout-webhook');
     if (isWebhookRoute && request.headers['content-type']?.includes('application/json')) {
       const chunks: Buffer[] = [];
       request.raw.on('data', (chunk: Buffer) => chunks.push(chunk));
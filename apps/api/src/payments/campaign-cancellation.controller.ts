@@ -0,0 +1,35 @@
+import { Controller, Get, Post, Body, Param, Request, UseGuards } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { CampaignCancellationService } from "./campaign-cancellation.service";
+
+@Controller("campaigns/:campaignId")
+export class CampaignCancellationController {
+  constructor(private cancellationService: CampaignCancellationService) {}
+
+  /**
+   * Cancel the campaign and refund donors their share of unreleased funds
+   */
+  @Post("cancel")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles("ADMIN")
+  async cancel(@Param("campaignId") campaignId: string, @Request() req, @Body() body: { reason: string }) {
+    return this.cancellationService.cancelCampaign(campaignId, req.user.id, body?.reason);
+  }
+
+  /**
+   * Start batch refunds left in REQUESTED by an interrupted cancellation
+   */
+  @Post("cancellation/resume")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles("ADMIN")
+  async resume(@Param("campaignId") campaignId: string, @Request() req) {
+    return this.cancellationService.startPendingRefunds(campaignId, req.user.id);
+  }
+
+  @Get("cancellation")
+  async getProgress(@Param("campaignId") campaignId: string) {
+    return this.cancellationService.getProgress(campaignId);
+  }
+}
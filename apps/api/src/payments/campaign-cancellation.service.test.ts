@@ -0,0 +1,185 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { CampaignCancellationService } from "./campaign-cancellation.service";
+import { RefundService } from "./refund.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { EventService } from "../transparency/event.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("CampaignCancellationService", () => {
+  let service: CampaignCancellationService;
+  let refundService: {
+    openCancellationRefunds: jest.Mock;
+    startRefund: jest.Mock;
+    issueClaim: jest.Mock;
+  };
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const sharesByDonation = () =>
+    Object.fromEntries(
+      (refundService.openCancellationRefunds.mock.calls[0][1] as any[]).map((share) => [share.donationId, share])
+    );
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "campaigns",
+      "campaign_cancellations",
+      "campaign_stats",
+      "donations",
+      "donations_private",
+      "donation_refunds",
+      "withdrawals",
+      "withdrawals_private",
+    ]);
+
+    await db.collection("campaigns").doc("camp1").set({ title: "Clinic", status: "ACTIVE" });
+
+    refundService = {
+      openCancellationRefunds: jest.fn(),
+      startRefund: jest.fn(),
+      issueClaim: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CampaignCancellationService,
+        { provide: RefundService, useValue: refundService },
+        { provide: EventService, useValue: { emitEvent: jest.fn() } },
+        { provide: FirebaseService, useValue: { firestore: db } },
+      ],
+    }).compile();
+
+    service = module.get<CampaignCancellationService>(CampaignCancellationService);
+  });
+
+  it("refunds INR donors their share of what was not withdrawn", async () => {
+    await db.collection("donations").doc("d1").set({ campaignId: "camp1", type: "INR", amount: "3000", orderId: "o1" });
+    await db.collection("donations").doc("d2").set({ campaignId: "camp1", type: "INR", amount: "1000", orderId: "o2" });
+    await db.collection("withdrawals_private").doc("w1").set({
+      campaignId: "camp1",
+      method: "INR",
+      amountInrPaise: "100000",
+      status: "PAID",
+    });
+    await db.collection("withdrawals_private").doc("w2").set({
+      campaignId: "camp1",
+      method: "INR",
+      amountInrPaise: "50000",
+      status: "REJECTED",
+    });
+    // Legacy mirror of w1; counted once
+    await db.collection("withdrawals").doc("m1").set({
+      id: "w1",
+      campaignId: "camp1",
+      currency: "INR",
+      amount: "1000",
+      status: "PAID",
+    });
+
+    await service.cancelCampaign("camp1", "admin1", "Organizer withdrew");
+
+    const shares = sharesByDonation();
+    expect(shares.d1).toMatchObject({ amount: "2250", donatedAmount: "3000" });
+    expect(shares.d2).toMatchObject({ amount: "750", donatedAmount: "1000" });
+
+    const cancellation = (await db.collection("campaign_cancellations").doc("camp1").get()).data()!;
+    expect(cancellation.pools.INR).toMatchObject({ donated: "400000", released: "100000", refundable: "300000" });
+    expect((await db.collection("campaigns").doc("camp1").get()).get("status")).toBe("CANCELLED");
+  });
+
+  it("caps crypto pools at the campaign balance and skips already refunded donations", async () => {
+    await db.collection("donations_private").doc("c1").set({
+      campaignId: "camp1",
+      assetId: "usdc_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      assetSymbol: "USDC",
+      amountNative: "60",
+      rawAmount: "60000000",
+    });
+    await db.collection("donations_private").doc("c2").set({
+      campaignId: "camp1",
+      assetId: "usdc_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      assetSymbol: "USDC",
+      amountNative: "40",
+      rawAmount: "40000000",
+    });
+    await db.collection("donations_private").doc("c3").set({
+      campaignId: "camp1",
+      assetId: "usdc_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      assetSymbol: "USDC",
+      amountNative: "10",
+      rawAmount: "10000000",
+      refunded: true,
+    });
+    await db.collection("campaign_stats").doc("camp1").set({
+      balanceByAsset: { usdc_polygon_mainnet_polygon_mainnet: "80000000" },
+    });
+    await db.collection("withdrawals_private").doc("w1").set({
+      campaignId: "camp1",
+      method: "CRYPTO",
+      assetSymbol: "USDC",
+      networkId: "polygon_mainnet",
+      amountCryptoRaw: "30",
+      decimals: 6,
+      status: "APPROVED",
+    });
+
+    await service.cancelCampaign("camp1", "admin1", "Fraud report");
+
+    const shares = sharesByDonation();
+    expect(Object.keys(shares).sort()).toEqual(["c1", "c2"]);
+    expect(shares.c1).toMatchObject({ amountRaw: "30000000", donatedAmountRaw: "60000000" });
+    expect(shares.c2).toMatchObject({ amountRaw: "20000000", donatedAmountRaw: "40000000" });
+  });
+
+  it("turns refunds that cannot be started into claims", async () => {
+    await db.collection("donations").doc("d1").set({ campaignId: "camp1", type: "INR", amount: "500", orderId: "o1" });
+    refundService.openCancellationRefunds.mockImplementation(async (campaignId: string, shares: any[]) => {
+      for (const share of shares) {
+        await db.collection("donation_refunds").doc(share.donationId).set({
+          ...share,
+          cancellationId: campaignId,
+          status: "REQUESTED",
+        });
+      }
+    });
+    refundService.startRefund.mockRejectedValue(new Error("Razorpay payment id is unknown for this donation"));
+
+    const progress = await service.cancelCampaign("camp1", "admin1", "Duplicate campaign");
+
+    expect(refundService.issueClaim).toHaveBeenCalledWith(
+      "d1",
+      "Razorpay payment id is unknown for this donation",
+      "admin1"
+    );
+    expect(progress.status).toBe("IN_PROGRESS");
+    expect(progress.refunds.total).toBe(1);
+  });
+
+  it("resumes a cancellation interrupted before its refunds were opened", async () => {
+    await db.collection("donations").doc("d1").set({ campaignId: "camp1", type: "INR", amount: "500", orderId: "o1" });
+    refundService.openCancellationRefunds.mockRejectedValueOnce(new Error("deadline exceeded"));
+
+    await expect(service.cancelCampaign("camp1", "admin1", "Duplicate campaign")).rejects.toThrow("deadline exceeded");
+
+    // No refunds exist yet, but the batch is not done
+    const progress = await service.getProgress("camp1");
+    expect(progress.status).toBe("IN_PROGRESS");
+    expect(progress.refunds.total).toBe(1);
+
+    await service.startPendingRefunds("camp1", "admin1");
+    expect(refundService.openCancellationRefunds).toHaveBeenLastCalledWith(
+      "camp1",
+      [expect.objectContaining({ donationId: "d1", amount: "500" })],
+      "admin1",
+      "Campaign cancelled: Duplicate campaign"
+    );
+  });
+
+  it("refuses to cancel twice", async () => {
+    await service.cancelCampaign("camp1", "admin1", "Organizer withdrew");
+    await expect(service.cancelCampaign("camp1", "admin1", "Again")).rejects.toThrow("already cancelled");
+  });
+});
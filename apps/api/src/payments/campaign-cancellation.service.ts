@@ -0,0 +1,330 @@
+import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import {
+  CampaignCancellationDoc,
+  CampaignCancellationPool,
+  CampaignCancellationShare,
+  DonationRefundDoc,
+  DonationRefundStatus,
+  WithdrawalDoc,
+} from "@opencause/firebase";
+import { fromNative, getAsset, getAssetsByNetwork } from "@opencause/crypto-core";
+import { parseUnits } from "viem";
+import { FirebaseService } from "../firebase/firebase.service";
+import { EventService } from "../transparency/event.service";
+import { RefundService, RefundableDonation, toRefundableDonation } from "./refund.service";
+
+// Withdrawals that have taken (or will take) money out of the campaign
+const RELEASED_WITHDRAWAL_STATUSES = ["APPROVED", "PAID"];
+// Legacy POST /withdrawals/crypto records, executed by the worker
+const RELEASED_LEGACY_WITHDRAWAL_STATUSES = ["APPROVED", "EXECUTING", "EXECUTED", "PAID"];
+
+// Refund of the donation already left the review queue; the batch leaves it alone
+const SETTLED_REFUND_STATUSES: DonationRefundStatus[] = ["PROCESSING", "REFUNDED", "FAILED", "CLAIMABLE"];
+
+/**
+ * Campaign Cancellation Service
+ * Cancelling a campaign returns its unreleased funds to donors. For each
+ * currency pool (INR, and each crypto asset) the unreleased amount is the
+ * balance minus approved/paid withdrawals; every donor gets the same
+ * fraction of their donation back. The shares are recorded with the
+ * cancellation, then become donation_refunds (gateway refunds for INR,
+ * return transfers for crypto); donors that cannot be refunded
+ * automatically get a claim link.
+ */
+@Injectable()
+export class CampaignCancellationService {
+  constructor(
+    private firebase: FirebaseService,
+    private refundService: RefundService,
+    private eventService: EventService
+  ) {}
+
+  async cancelCampaign(campaignId: string, adminId: string, reason: string) {
+    if (!reason?.trim()) {
+      throw new BadRequestException("A reason is required to cancel a campaign");
+    }
+
+    const db = this.firebase.firestore;
+    const campaignRef = db.collection("campaigns").doc(campaignId);
+    const cancellationRef = db.collection("campaign_cancellations").doc(campaignId);
+
+    const { pools, shares } = await this.computeShares(campaignId);
+
+    await db.runTransaction(async (t) => {
+      const [campaignSnap, existing] = await t.getAll(campaignRef, cancellationRef);
+      if (!campaignSnap.exists) {
+        throw new NotFoundException("Campaign not found");
+      }
+      const status = campaignSnap.get("status");
+      if (status === "CANCELLED" || existing.exists) {
+        throw new BadRequestException("Campaign is already cancelled");
+      }
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      t.update(campaignRef, {
+        status: "CANCELLED",
+        cancellationReason: reason.trim(),
+        cancelledAt: new Date().toISOString(),
+      });
+      const cancellation: CampaignCancellationDoc = {
+        campaignId,
+        status: shares.length > 0 ? "IN_PROGRESS" : "COMPLETED",
+        reason: reason.trim(),
+        cancelledBy: adminId,
+        previousStatus: status,
+        pools,
+        refundCount: shares.length,
+        shares,
+      };
+      t.set(cancellationRef, {
+        ...cancellation,
+        createdAt: now,
+        completedAt: shares.length > 0 ? null : now,
+        updatedAt: now,
+      });
+
+      await this.eventService.emitEvent(t, {
+        campaignId,
+        type: "CAMPAIGN_CANCELLED",
+        visibility: "PUBLIC",
+        actorUserId: adminId,
+        entityType: "CAMPAIGN",
+        entityId: campaignId,
+        data: { reason: reason.trim(), pools, refundCount: shares.length },
+      });
+    });
+
+    return this.startPendingRefunds(campaignId, adminId);
+  }
+
+  /**
+   * Open the batch's refunds and start those still in REQUESTED; run again
+   * to resume an interrupted cancellation. Refunds that cannot be started
+   * become claims.
+   */
+  async startPendingRefunds(campaignId: string, adminId: string) {
+    const snap = await this.firebase.firestore.collection("campaign_cancellations").doc(campaignId).get();
+    if (!snap.exists) {
+      throw new NotFoundException("Campaign has not been cancelled");
+    }
+    const cancellation = snap.data() as CampaignCancellationDoc;
+    await this.refundService.openCancellationRefunds(
+      campaignId,
+      cancellation.shares || [],
+      adminId,
+      `Campaign cancelled: ${cancellation.reason}`
+    );
+
+    const snapshot = await this.firebase.firestore
+      .collection("donation_refunds")
+      .where("cancellationId", "==", campaignId)
+      .where("status", "==", "REQUESTED")
+      .get();
+
+    for (const doc of snapshot.docs) {
+      try {
+        await this.refundService.startRefund(doc.id, adminId);
+      } catch (error: any) {
+        const message = error?.message || String(error);
+        console.warn(`[Cancellation] Refund ${doc.id} could not be started: ${message}`);
+        try {
+          await this.refundService.issueClaim(doc.id, message, adminId);
+        } catch (claimError: any) {
+          console.error(`[Cancellation] Could not issue claim for ${doc.id}:`, claimError?.message || claimError);
+        }
+      }
+    }
+
+    return this.getProgress(campaignId);
+  }
+
+  /**
+   * Cancellation status and refund counts (public: no donor details).
+   * Marks the cancellation COMPLETED once every share has been refunded.
+   */
+  async getProgress(campaignId: string) {
+    const db = this.firebase.firestore;
+    const cancellationRef = db.collection("campaign_cancellations").doc(campaignId);
+    const snap = await cancellationRef.get();
+    if (!snap.exists) {
+      throw new NotFoundException("Campaign has not been cancelled");
+    }
+    const cancellation = snap.data() as CampaignCancellationDoc;
+
+    const refunds = await db.collection("donation_refunds").where("cancellationId", "==", campaignId).get();
+    const counts: Record<string, number> = {};
+    for (const doc of refunds.docs) {
+      const status = (doc.data() as DonationRefundDoc).status;
+      counts[status] = (counts[status] || 0) + 1;
+    }
+
+    const refunded = counts.REFUNDED || 0;
+    if (cancellation.status === "IN_PROGRESS" && refunded >= cancellation.refundCount) {
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      await cancellationRef.update({ status: "COMPLETED", completedAt: now, updatedAt: now });
+      cancellation.status = "COMPLETED";
+    }
+
+    return {
+      campaignId,
+      status: cancellation.status,
+      reason: cancellation.reason,
+      pools: cancellation.pools,
+      createdAt: cancellation.createdAt,
+      completedAt: cancellation.completedAt || null,
+      refunds: {
+        total: cancellation.refundCount,
+        refunded,
+        inProgress: (counts.REQUESTED || 0) + (counts.PROCESSING || 0),
+        failed: counts.FAILED || 0,
+        awaitingClaim: counts.CLAIMABLE || 0,
+      },
+    };
+  }
+
+  /**
+   * Pro-rata share of each donation still counted toward the campaign
+   */
+  private async computeShares(
+    campaignId: string
+  ): Promise<{ pools: Record<string, CampaignCancellationPool>; shares: CampaignCancellationShare[] }> {
+    const db = this.firebase.firestore;
+    const [legacySnap, privateSnap, refundsSnap, withdrawalsSnap, legacyWithdrawalsSnap, statsSnap] =
+      await Promise.all([
+        db.collection("donations").where("campaignId", "==", campaignId).get(),
+        db.collection("donations_private").where("campaignId", "==", campaignId).get(),
+        db.collection("donation_refunds").where("campaignId", "==", campaignId).get(),
+        db.collection("withdrawals_private").where("campaignId", "==", campaignId).get(),
+        db.collection("withdrawals").where("campaignId", "==", campaignId).get(),
+        db.collection("campaign_stats").doc(campaignId).get(),
+      ]);
+
+    const settled = new Set(
+      refundsSnap.docs
+        .filter((doc) => SETTLED_REFUND_STATUSES.includes((doc.data() as DonationRefundDoc).status))
+        .map((doc) => doc.id)
+    );
+
+    const donations: Array<{ donation: RefundableDonation; key: string; units: bigint }> = [];
+    const collect = (docs: admin.firestore.QueryDocumentSnapshot[], source: DonationRefundDoc["source"]) => {
+      for (const doc of docs) {
+        const data = doc.data() as any;
+        if (data.refunded || data.verified === false || settled.has(doc.id)) continue;
+
+        const donation = toRefundableDonation(doc.id, source, data);
+        if (donation.type === "INR") {
+          donations.push({ donation, key: "INR", units: toPaise(donation.amount) });
+        } else if (donation.assetId && donation.networkId && donation.amountRaw) {
+          donations.push({
+            donation,
+            key: `${donation.assetId}_${donation.networkId}`,
+            units: BigInt(donation.amountRaw),
+          });
+        } else {
+          console.warn(`[Cancellation] Donation ${doc.id} has no asset or network; not refundable`);
+        }
+      }
+    };
+    collect(legacySnap.docs, "donations");
+    collect(privateSnap.docs, "donations_private");
+
+    const pools: Record<string, CampaignCancellationPool> = {};
+    const donated: Record<string, bigint> = {};
+    for (const { donation, key, units } of donations) {
+      donated[key] = (donated[key] || 0n) + units;
+      pools[key] ??= {
+        type: donation.type,
+        currency: donation.currency,
+        networkId: donation.networkId,
+        assetId: donation.assetId,
+        donated: "0",
+        released: "0",
+        refundable: "0",
+      };
+    }
+
+    const released: Record<string, bigint> = {};
+    const release = (key: string, amount: bigint) => {
+      released[key] = (released[key] || 0n) + amount;
+    };
+    // POST /withdrawals: INR in paise, crypto as a decimal amount of assetSymbol
+    for (const doc of withdrawalsSnap.docs) {
+      const withdrawal = doc.data();
+      if (!RELEASED_WITHDRAWAL_STATUSES.includes(withdrawal.status)) continue;
+      if (withdrawal.method === "INR") {
+        release("INR", BigInt(withdrawal.amountInrPaise || "0"));
+        continue;
+      }
+      const networkId = withdrawal.networkId || "ethereum_mainnet";
+      const asset = getAssetsByNetwork(networkId).find((a) => a.symbol === withdrawal.assetSymbol);
+      if (!asset) {
+        console.warn(`[Cancellation] Withdrawal ${doc.id} has no known asset; not counted as released`);
+        continue;
+      }
+      release(
+        `${asset.assetId}_${networkId}`,
+        parseUnits(withdrawal.amountCryptoRaw || "0", withdrawal.decimals ?? asset.decimals)
+      );
+    }
+    // POST /withdrawals/crypto only writes the legacy collection; mirrors of
+    // the records above carry their id in an `id` field
+    const mirrored = new Set(withdrawalsSnap.docs.map((doc) => doc.id));
+    for (const doc of legacyWithdrawalsSnap.docs) {
+      const withdrawal = doc.data() as WithdrawalDoc & { id?: string };
+      if (mirrored.has(withdrawal.id || doc.id)) continue;
+      if (!RELEASED_LEGACY_WITHDRAWAL_STATUSES.includes(withdrawal.status)) continue;
+      if (withdrawal.currency === "INR") {
+        release("INR", toPaise(withdrawal.amount));
+      } else if (withdrawal.assetId && withdrawal.networkId) {
+        release(`${withdrawal.assetId}_${withdrawal.networkId}`, BigInt(withdrawal.amountNative || "0"));
+      }
+    }
+
+    const balanceByAsset: Record<string, string> = statsSnap.get("balanceByAsset") || {};
+    const refundable: Record<string, bigint> = {};
+    for (const key of Object.keys(pools)) {
+      // INR has no on-chain balance; what was donated is what the campaign holds
+      let balance = donated[key];
+      if (key !== "INR" && balanceByAsset[key] !== undefined && BigInt(balanceByAsset[key]) < balance) {
+        balance = BigInt(balanceByAsset[key]);
+      }
+      const unreleased = balance - (released[key] || 0n);
+      refundable[key] = unreleased > 0n ? unreleased : 0n;
+      pools[key].donated = donated[key].toString();
+      pools[key].released = (released[key] || 0n).toString();
+      pools[key].refundable = refundable[key].toString();
+    }
+
+    const shares: CampaignCancellationShare[] = [];
+    for (const { donation, key, units } of donations) {
+      const share = donated[key] > 0n ? (units * refundable[key]) / donated[key] : 0n;
+      if (share === 0n) continue;
+
+      if (donation.type === "INR") {
+        shares.push({
+          ...donation,
+          amount: fromNative(share, 2),
+          donatedAmount: share === units ? null : donation.amount,
+          donatedAmountRaw: null,
+        });
+      } else {
+        const decimals = getAsset(donation.assetId!)?.decimals ?? 18;
+        shares.push({
+          ...donation,
+          amount: fromNative(share, decimals),
+          amountRaw: share.toString(),
+          donatedAmount: share === units ? null : donation.amount,
+          donatedAmountRaw: share === units ? null : donation.amountRaw,
+        });
+      }
+    }
+
+    return { pools, shares };
+  }
+}
+
+function toPaise(amount: string | number | undefined): bigint {
+  const value = parseFloat(String(amount ?? "0"));
+  return isNaN(value) ? 0n : BigInt(Math.round(value * 100));
+}
@@ -7,6 +7,7 @@ export class CashfreeService {
   private secretKey: string;
   private webhookSecret: string;
   private baseUrl: string;
+  private payoutBaseUrl: string;
 
   constructor() {
     this.appId = process.env.CASHFREE_APP_ID || "";
@@ -18,6 +19,7 @@ export class CashfreeService {
     this.baseUrl = isProduction 
       ? "https://api.cashfree.com/pg" 
       : "https://sandbox.cashfree.com/pg";
+    this.payoutBaseUrl = process.env.CASHFREE_PAYOUT_BASE_URL || this.baseUrl;
 
     if (!this.appId || !this.secretKey) {
       console.warn("Cashfree credentials not configured. Payment features will be disabled.");
@@ -206,13 +208,14 @@ export class CashfreeService {
    * Create a payout/transfer to vendor/payee
    */
   async createPayout(params: {
-    accountNumber: string;
-    ifsc: string;
+    accountNumber?: string; // BANK rail
+    ifsc?: string;
+    vpa?: string; // UPI rail
     amount: number; // Amount in rupees
     currency?: string;
     accountHolderName: string;
-    transferMode?: "NEFT" | "IMPS" | "RTGS";
-    transferId?: string;
+    transferMode?: "NEFT" | "IMPS" | "RTGS" | "UPI";
+    transferId?: string; // Cashfree rejects duplicate transferIds, so this doubles as the idempotency key
     remarks?: string;
   }) {
     if (!this.appId || !this.secretKey) {
@@ -226,19 +229,20 @@ export class CashfreeService {
         transferId: transferId,
         transferAmount: params.amount,
         transferCurrency: params.currency || "INR",
-        transferMode: params.transferMode || "NEFT",
+        transferMode: (params.transferMode || (params.vpa ? "UPI" : "NEFT")).toLowerCase(),
         beneDetails: {
           beneId: `bene_${Date.now()}`,
           name: params.accountHolderName,
           email: `payout_${Date.now()}@opencause.in`,
           phone: "9999999999",
-          bankAccount: params.accountNumber,
-          ifsc: params.ifsc,
+          ...(params.vpa
+            ? { vpa: params.vpa }
+            : { bankAccount: params.accountNumber, ifsc: params.ifsc }),
         },
         transferRemarks: params.remarks || "Withdrawal payout",
       };
 
-      const response = await fetch(`${this.baseUrl}/transfers`, {
+      const response = await fetch(`${this.payoutBaseUrl}/transfers`, {
         method: "POST",
         headers: this.getAuthHeaders(),
         body: JSON.stringify(payoutData),
@@ -256,6 +260,8 @@ export class CashfreeService {
         amount: payout.transferAmount,
         currency: payout.transferCurrency,
         status: payout.transferStatus || "PENDING",
+        utr: payout.utr || null,
+        reason: payout.reason || null,
         mode: payout.transferMode,
         remarks: payout.transferRemarks,
         createdAt: new Date().toISOString(),
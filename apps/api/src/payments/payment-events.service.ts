@@ -0,0 +1,238 @@
+import { Injectable, Inject, forwardRef, NotFoundException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { DonationType } from "@opencause/types";
+import { FirebaseService } from "../firebase/firebase.service";
+import { DonationsService } from "../donations/donations.service";
+import { PayoutService } from "./payout.service";
+import { RefundService } from "./refund.service";
+import { ReceiptsService } from "../receipts/receipts.service";
+
+// How long a caller may hold a pending donation in COMPLETING; an expired
+// claim belongs to a caller that died mid-way and is taken over
+const COMPLETION_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * Payment Events Service
+ * Applies verified Razorpay and Cashfree webhook events. Called through
+ * WebhookEventsService, which guarantees each event is handled at most once;
+ * handlers throw to have the event retried.
+ */
+@Injectable()
+export class PaymentEventsService {
+  constructor(
+    private firebase: FirebaseService,
+    @Inject(forwardRef(() => DonationsService))
+    private donationsService: DonationsService,
+    private payoutService: PayoutService,
+    private refundService: RefundService,
+    private receiptsService: ReceiptsService
+  ) {}
+
+  async handleRazorpayEvent(eventType: string, event: any): Promise<void> {
+    switch (eventType) {
+      case "payment.captured": {
+        const payment = event.payload.payment.entity;
+        await this.completeFromWebhook(payment.order_id, payment.id);
+        break;
+      }
+      case "order.paid": {
+        // Sent alongside payment.captured; whichever arrives first creates the donation
+        const order = event.payload.order.entity;
+        await this.completeFromWebhook(order.id, event.payload.payment?.entity?.id || null);
+        break;
+      }
+      case "payment.failed": {
+        const payment = event.payload.payment.entity;
+        await this.failPendingDonation(payment.order_id, payment.id);
+        break;
+      }
+      case "payout.processed":
+      case "payout.reversed":
+      case "payout.failed":
+      case "payout.rejected":
+        await this.payoutService.handleRazorpayPayoutEvent(event);
+        break;
+      case "refund.processed":
+      case "refund.failed":
+        await this.refundService.handleRazorpayRefundEvent(event);
+        break;
+      default:
+        console.log(`Unhandled Razorpay webhook event: ${eventType || "unknown"}`);
+    }
+  }
+
+  async handleCashfreeEvent(eventType: string, event: any): Promise<void> {
+    switch (eventType) {
+      case "PAYMENT_SUCCESS_WEBHOOK": {
+        const orderId = event.data.order.order_id;
+        // Checkout only opens pending donations for Razorpay orders, so a Cashfree
+        // payment without one has no donation to complete and must not be retried
+        if (!(await this.hasPendingDonation(orderId))) {
+          console.warn(`[Payments] No pending donation for Cashfree order ${orderId}; ignoring payment`);
+          break;
+        }
+        await this.completeFromWebhook(orderId, String(event.data.payment?.cf_payment_id || "") || null);
+        break;
+      }
+      case "PAYMENT_FAILED_WEBHOOK":
+      case "PAYMENT_USER_DROPPED_WEBHOOK":
+        await this.failPendingDonation(
+          event.data.order.order_id,
+          String(event.data.payment?.cf_payment_id || "") || null
+        );
+        break;
+      case "TRANSFER_SUCCESS":
+      case "TRANSFER_FAILED":
+      case "TRANSFER_REVERSED":
+      case "TRANSFER_REJECTED":
+        await this.payoutService.handleCashfreePayoutEvent(event);
+        break;
+      case "REFUND_STATUS_WEBHOOK":
+        await this.refundService.handleCashfreeRefundEvent(event);
+        break;
+      default:
+        console.log(`Unhandled Cashfree webhook event: ${eventType || "unknown"}`);
+    }
+  }
+
+  /**
+   * Turn a pending donation into a donation exactly once.
+   *
+   * The checkout verify call and the captured/paid webhooks all land here;
+   * the pending_donations status is claimed in a transaction so only the
+   * first caller creates the donation. Later callers get the stored donation,
+   * or none while the claim is still held. A claim left behind by a caller
+   * that died is taken over once its lease expires: completed if the
+   * donation was already written, otherwise created again.
+   */
+  async completePendingDonation(
+    orderId: string,
+    paymentId: string | null
+  ): Promise<{ donation: any; created: boolean }> {
+    const db = this.firebase.firestore;
+    const snapshot = await db.collection("pending_donations").where("orderId", "==", orderId).limit(1).get();
+    if (snapshot.empty) {
+      throw new NotFoundException(`Pending donation not found for order ${orderId}`);
+    }
+    const ref = snapshot.docs[0].ref;
+
+    const claim = await db.runTransaction(async (t) => {
+      const pending = (await t.get(ref)).data() as any;
+      if (pending.status === "COMPLETED") {
+        return { claimed: false, pending };
+      }
+      if (pending.status === "COMPLETING") {
+        if ((pending.completingUntil?.toMillis() ?? 0) > Date.now()) {
+          return { claimed: false, pending };
+        }
+        // Abandoned claim: the donation may exist without the pending doc knowing
+        const existing = await t.get(db.collection("donations").where("orderId", "==", orderId).limit(1));
+        if (!existing.empty) {
+          t.update(ref, {
+            status: "COMPLETED",
+            donationId: existing.docs[0].id,
+            completingUntil: null,
+            verifiedAt: new Date().toISOString(),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return { claimed: false, pending: { ...pending, status: "COMPLETED", donationId: existing.docs[0].id } };
+        }
+      }
+      t.update(ref, {
+        status: "COMPLETING",
+        completingUntil: admin.firestore.Timestamp.fromMillis(Date.now() + COMPLETION_LEASE_MS),
+        paymentId: paymentId || pending.paymentId || null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { claimed: true, pending };
+    });
+
+    if (!claim.claimed) {
+      const donation = claim.pending.donationId
+        ? await this.firebase.getById("donations", claim.pending.donationId)
+        : null;
+      return { donation, created: false };
+    }
+
+    const pending = claim.pending;
+    let donation: any;
+    try {
+      donation = await this.donationsService.create(
+        pending.userId,
+        {
+          campaignId: pending.campaignId,
+          type: DonationType.INR,
+          amount: pending.amount,
+          orderId,
+        },
+        {
+          guestName: pending.guestName,
+          guestEmail: pending.guestEmail,
+        }
+      );
+    } catch (error) {
+      // Release the claim so a retry can create the donation
+      await ref.update({
+        status: "PENDING",
+        completingUntil: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw error;
+    }
+
+    await ref.update({
+      status: "COMPLETED",
+      donationId: donation.id,
+      completingUntil: null,
+      verifiedAt: new Date().toISOString(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    // A missing receipt is issued on first download, so this never fails the payment
+    try {
+      await this.receiptsService.issueReceipt(donation.id);
+    } catch (error: any) {
+      console.error(`[Receipts] Could not issue receipt for donation ${donation.id}:`, error?.message || error);
+    }
+
+    return { donation, created: true };
+  }
+
+  /**
+   * Webhook path: an event that finds the donation still being completed by
+   * another caller fails, so it is retried instead of marked processed
+   */
+  private async completeFromWebhook(orderId: string, paymentId: string | null): Promise<void> {
+    const { donation } = await this.completePendingDonation(orderId, paymentId);
+    if (!donation) {
+      throw new Error(`Donation for order ${orderId} is still being completed`);
+    }
+  }
+
+  private async hasPendingDonation(orderId: string): Promise<boolean> {
+    const snapshot = await this.firebase.firestore
+      .collection("pending_donations")
+      .where("orderId", "==", orderId)
+      .limit(1)
+      .get();
+    return !snapshot.empty;
+  }
+
+  private async failPendingDonation(orderId: string, paymentId: string | null): Promise<void> {
+    const db = this.firebase.firestore;
+    const snapshot = await db.collection("pending_donations").where("orderId", "==", orderId).get();
+
+    for (const doc of snapshot.docs) {
+      await db.runTransaction(async (t) => {
+        const pending = (await t.get(doc.ref)).data() as any;
+        // A later attempt on the same order may already have succeeded
+        if (pending.status !== "PENDING") return;
+        t.update(doc.ref, {
+          status: "FAILED",
+          paymentId: paymentId || pending.paymentId || null,
+          failedAt: new Date().toISOString(),
+        });
+      });
+    }
+  }
+}
@@ -9,23 +9,22 @@ import {
   Headers,
   RawBodyRequest,
   Req,
-  Inject,
-  forwardRef,
   BadRequestException,
 } from "@nestjs/common";
 import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+import { PaymentEventsService } from "./payment-events.service";
+import { WebhookEventsService } from "./webhook-events.service";
 import { OptionalJwtAuthGuard } from "../auth/guards/optional-jwt.guard";
-import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
-import { DonationsService } from "../donations/donations.service";
 import { FirebaseService } from "../firebase/firebase.service";
-import { DonationType } from "@opencause/types";
 
 @Controller("payments")
 export class PaymentsController {
   constructor(
     private razorpayService: RazorpayService,
-    @Inject(forwardRef(() => DonationsService))
-    private donationsService: DonationsService,
+    private cashfreeService: CashfreeService,
+    private paymentEventsService: PaymentEventsService,
+    private webhookEventsService: WebhookEventsService,
     private firebase: FirebaseService
   ) {}
 
@@ -41,6 +40,7 @@ export class PaymentsController {
       campaignId: string;
       guestName?: string;
       guestEmail?: string;
+      donorPan?: string; // Optional, printed on the 80G receipt
     }
   ) {
     // Validate request body
@@ -67,6 +67,11 @@ export class PaymentsController {
       }
     }
 
+    const donorPan = body.donorPan?.trim().toUpperCase() || null;
+    if (donorPan && !/^[A-Z]{5}[0-9]{4}[A-Z]$/.test(donorPan)) {
+      throw new BadRequestException("Invalid PAN format.");
+    }
+
     // Verify campaign exists
     const campaign = await this.firebase.getCampaignById(body.campaignId);
     if (!campaign) {
@@ -111,6 +116,7 @@ export class PaymentsController {
       status: "PENDING",
       guestName: body.guestName,
       guestEmail: body.guestEmail,
+      donorPan,
       createdAt: new Date().toISOString(),
     });
 
@@ -154,39 +160,11 @@ export class PaymentsController {
       throw new Error("Payment not captured");
     }
 
-    // Get pending donation
-    const pendingDonations = await this.firebase.query(
-      "pending_donations",
-      "orderId",
-      "==",
-      body.razorpay_order_id
-    );
-    const pendingDonation = pendingDonations[0];
-
-    if (!pendingDonation) {
-      throw new Error("Pending donation not found");
-    }
-
-    // Update pending donation status
-    await this.firebase.update("pending_donations", pendingDonation.id, {
-      status: "COMPLETED",
-      paymentId: body.razorpay_payment_id,
-      verifiedAt: new Date().toISOString(),
-    });
-
-    // Create donation record
-    const donation = await this.donationsService.create(
-      pendingDonation.userId,
-      {
-        campaignId: pendingDonation.campaignId,
-            type: DonationType.INR,
-        amount: pendingDonation.amount,
-        orderId: body.razorpay_order_id,
-      },
-      {
-        guestName: pendingDonation.guestName,
-        guestEmail: pendingDonation.guestEmail,
-      }
+    // Shared with the payment.captured / order.paid webhooks, which may have
+    // already created the donation
+    const { donation } = await this.paymentEventsService.completePendingDonation(
+      body.razorpay_order_id,
+      body.razorpay_payment_id
     );
 
     return {
@@ -202,11 +180,15 @@ export class PaymentsController {
 
   /**
    * Razorpay webhook handler
+   * Verified events are stored in webhook_events and processed at most once;
+   * handler failures are retried from there, so only storage errors are
+   * reported back to Razorpay for redelivery.
    */
   @Post("razorpay/webhook")
   async handleWebhook(
     @Req() req: RawBodyRequest<Request>,
     @Headers("x-razorpay-signature") signature: string,
+    @Headers("x-razorpay-event-id") eventIdHeader: string,
     @Body() body: any
   ) {
     // For Fastify, raw body is available in req.rawBody
@@ -220,163 +202,40 @@ export class PaymentsController {
       return { status: "error", message: "Invalid signature" };
     }
 
-    const event = body as any;
-
-    try {
-      const eventType = event?.event || (event as any)?.type;
-      switch (eventType) {
-        case "payment.captured":
-          await this.handlePaymentCaptured(event);
-          break;
-        case "payment.failed":
-          await this.handlePaymentFailed(event);
-          break;
-        case "order.paid":
-          await this.handleOrderPaid(event);
-          break;
-        default:
-          console.log(`Unhandled webhook event: ${eventType || "unknown"}`);
-      }
-
-      return { status: "success" };
-    } catch (error) {
-      console.error("Webhook handler error:", error);
-      return { status: "error", message: error.message };
-    }
-  }
-
-  private async handlePaymentCaptured(event: any) {
-    const payment = event.payload.payment.entity;
-    console.log("Payment captured:", payment.id);
-
-    // Find pending donation by payment ID
-    const pendingDonations = await this.firebase.query(
-      "pending_donations",
-      "paymentId",
-      "==",
-      payment.id
+    const result = await this.webhookEventsService.ingest(
+      "razorpay",
+      WebhookEventsService.eventId(eventIdHeader, webhookBody),
+      body?.event || body?.type || "unknown",
+      body
     );
-
-    if (pendingDonations.length > 0) {
-      const pendingDonation = pendingDonations[0];
-      
-      // Update status
-      await this.firebase.update("pending_donations", pendingDonation.id, {
-        status: "COMPLETED",
-        verifiedAt: new Date().toISOString(),
-      });
-
-      // Create donation if not already created
-      try {
-        await this.donationsService.create(
-          pendingDonation.userId,
-          {
-            campaignId: pendingDonation.campaignId,
-            type: DonationType.INR,
-            amount: pendingDonation.amount,
-            orderId: payment.order_id,
-          },
-          {
-            guestName: pendingDonation.guestName,
-            guestEmail: pendingDonation.guestEmail,
-          }
-        );
-      } catch (error) {
-        console.error("Error creating donation from webhook:", error);
-      }
-    }
-  }
-
-  private async handlePaymentFailed(event: any) {
-    const payment = event.payload.payment.entity;
-    console.log("Payment failed:", payment.id);
-
-    // Update pending donation status
-    const pendingDonations = await this.firebase.query(
-      "pending_donations",
-      "paymentId",
-      "==",
-      payment.id
-    );
-
-    for (const pendingDonation of pendingDonations) {
-      await this.firebase.update("pending_donations", pendingDonation.id, {
-        status: "FAILED",
-        failedAt: new Date().toISOString(),
-      });
-    }
-  }
-
-  private async handleOrderPaid(event: any) {
-    const order = event.payload.order.entity;
-    console.log("Order paid:", order.id);
-    // Similar handling as payment captured
+    return { status: "success", eventStatus: result.status, duplicate: result.duplicate };
   }
 
   /**
-   * Create payout for withdrawal
+   * Cashfree payment and payout webhooks
+   * (PAYMENT_SUCCESS_WEBHOOK, TRANSFER_SUCCESS / TRANSFER_FAILED / TRANSFER_REVERSED, ...)
    */
-  @Post("razorpay/payout")
-  @UseGuards(JwtAuthGuard)
-  async createPayout(
-    @Request() req,
-    @Body() body: {
-      withdrawalId: string;
-      accountNumber: string;
-      ifsc?: string;
-      accountHolderName?: string;
-      amount: number; // Amount in rupees
-    }
+  @Post(["cashfree/webhook", "cashfree/payout-webhook"])
+  async handleCashfreeWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers("x-webhook-signature") signature: string,
+    @Headers("x-idempotency-key") eventIdHeader: string,
+    @Body() body: any
   ) {
-    // Get withdrawal request
-    const withdrawals = await this.firebase.query("withdrawals", "id", "==", body.withdrawalId);
-    const withdrawal = withdrawals && withdrawals.length > 0 ? withdrawals[0] : null;
-
-    if (!withdrawal) {
-      throw new Error("Withdrawal not found");
-    }
+    const webhookBody = (req.rawBody as Buffer)?.toString() || JSON.stringify(body);
 
-    // Verify user has permission (organizer or admin)
-    const user = await this.firebase.getUserById(req.user.id) as any;
-    if (user.role !== "ADMIN" && withdrawal.organizerId !== req.user.id) {
-      throw new Error("Unauthorized");
+    if (!this.cashfreeService.verifyWebhookSignature(webhookBody, signature)) {
+      console.error("Invalid Cashfree webhook signature");
+      return { status: "error", message: "Invalid signature" };
     }
 
-    // Convert rupees to paise
-    const amountInPaise = Math.round(body.amount * 100);
-
-    // Create payout
-    const payout = await this.razorpayService.createPayout({
-      accountNumber: body.accountNumber,
-      amount: amountInPaise,
-      currency: "INR",
-      mode: "NEFT",
-      purpose: "payout",
-      fundAccount: {
-        accountType: "bank_account",
-        bankAccount: {
-          name: body.accountHolderName || "Payee",
-          ifsc: body.ifsc || "",
-          accountNumber: body.accountNumber,
-        },
-      },
-      notes: {
-        withdrawalId: body.withdrawalId,
-        campaignId: withdrawal.campaignId,
-      },
-    });
-
-    // Update withdrawal with payout details
-    await this.firebase.update("withdrawals", body.withdrawalId, {
-      payoutId: payout.id,
-      payoutStatus: payout.status,
-      payoutCreatedAt: new Date().toISOString(),
-    });
-
-    return {
-      success: true,
-      payout,
-    };
+    const result = await this.webhookEventsService.ingest(
+      "cashfree",
+      WebhookEventsService.eventId(eventIdHeader, webhookBody),
+      body?.type || body?.event || "unknown",
+      body
+    );
+    return { status: "success", eventStatus: result.status, duplicate: result.duplicate };
   }
 }
 
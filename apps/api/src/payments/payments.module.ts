@@ -1,10 +1,22 @@
 import { Module, forwardRef } from "@nestjs/common";
 import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+import { PayoutService } from "./payout.service";
+import { PaymentEventsService } from "./payment-events.service";
+import { WebhookEventsService } from "./webhook-events.service";
+import { WebhookEventsController } from "./webhook-events.controller";
+import { RefundService } from "./refund.service";
+import { RefundsController } from "./refunds.controller";
+import { RefundClaimsController } from "./refund-claims.controller";
+import { CampaignCancellationService } from "./campaign-cancellation.service";
+import { CampaignCancellationController } from "./campaign-cancellation.controller";
 import { PaymentsController } from "./payments.controller";
 import { FirebaseModule } from "../firebase/firebase.module";
 import { DonationsModule } from "../donations/donations.module";
 import { Web3Module } from "../web3/web3.module";
 import { QueueModule } from "../queue/queue.module";
+import { TransparencyModule } from "../transparency/transparency.module";
+import { ReceiptsModule } from "../receipts/receipts.module";
 
 @Module({
   imports: [
@@ -12,10 +24,26 @@ import { QueueModule } from "../queue/queue.module";
     forwardRef(() => DonationsModule), // Use forwardRef to avoid circular dependency
     Web3Module,
     QueueModule,
+    forwardRef(() => TransparencyModule),
+    ReceiptsModule,
   ],
-  controllers: [PaymentsController],
-  providers: [RazorpayService],
-  exports: [RazorpayService],
+  controllers: [
+    PaymentsController,
+    WebhookEventsController,
+    RefundsController,
+    RefundClaimsController,
+    CampaignCancellationController,
+  ],
+  providers: [
+    RazorpayService,
+    CashfreeService,
+    PayoutService,
+    RefundService,
+    CampaignCancellationService,
+    PaymentEventsService,
+    WebhookEventsService,
+  ],
+  exports: [RazorpayService, CashfreeService, PayoutService, RefundService, PaymentEventsService],
 })
 export class PaymentsModule {}
 
@@ -0,0 +1,161 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PayoutService } from "./payout.service";
+import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startFakePayoutProvider,
+  FakePayoutProvider,
+} from "@opencause/testkit";
+
+describe("PayoutService", () => {
+  let service: PayoutService;
+  let provider: FakePayoutProvider;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const seedWithdrawal = async (id: string, payee: Record<string, any>) => {
+    await db.collection("withdrawals_private").doc(id).set({
+      withdrawalId: id,
+      campaignId: "camp1",
+      method: "INR",
+      amountInrPaise: "250000",
+      payee,
+      status: "APPROVED",
+    });
+    await db.collection("withdrawals_public").doc("camp1").collection("items").doc(id).set({
+      status: "APPROVED",
+    });
+  };
+
+  const razorpayEvent = (payoutId: string, event: string, reason?: string) => {
+    const payout = provider.payouts.get(payoutId)!;
+    return {
+      event,
+      payload: {
+        payout: {
+          entity: {
+            id: payout.id,
+            utr: payout.utr,
+            notes: payout.notes,
+            status_details: reason ? { description: reason } : null,
+          },
+        },
+      },
+    };
+  };
+
+  beforeAll(async () => {
+    provider = await startFakePayoutProvider();
+    process.env.RAZORPAY_KEY_ID = "rzp_test_key";
+    process.env.RAZORPAY_SECRET_KEY = "rzp_test_secret";
+    process.env.RAZORPAY_ACCOUNT_NUMBER = "2323230000000000";
+    process.env.RAZORPAYX_BASE_URL = `${provider.url}/v1`;
+    process.env.PAYOUT_PROVIDER = "razorpay";
+  });
+
+  afterAll(async () => {
+    await provider.close();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["withdrawals_private", "withdrawals"]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PayoutService,
+        RazorpayService,
+        CashfreeService,
+        { provide: FirebaseService, useValue: { firestore: db } },
+      ],
+    }).compile();
+
+    service = module.get<PayoutService>(PayoutService);
+  });
+
+  it("pays UPI payees over UPI with an idempotency key", async () => {
+    await seedWithdrawal("wd_upi", { upiId: "ngo@okbank" });
+
+    const payout = await service.initiatePayout("wd_upi");
+
+    expect(payout).toMatchObject({ rail: "UPI", attempt: 1, idempotencyKey: "wd_wd_upi_1", status: "PROCESSING" });
+    const sent = provider.payouts.get(payout.payoutId!)!;
+    expect(sent.mode).toBe("UPI");
+    expect(sent.idempotencyKey).toBe("wd_wd_upi_1");
+    expect(sent.fundAccount.vpa.address).toBe("ngo@okbank");
+  });
+
+  it("reuses the idempotency key when the provider call failed", async () => {
+    await seedWithdrawal("wd_retry", { bankAccount: "1234567890", ifsc: "HDFC0000001", accountName: "NGO" });
+
+    provider.failNext(1);
+    await expect(service.initiatePayout("wd_retry")).rejects.toThrow();
+    const payout = await service.initiatePayout("wd_retry");
+
+    expect(payout.idempotencyKey).toBe("wd_wd_retry_1");
+    expect(provider.payouts.get(payout.payoutId!)!.mode).toBe("IMPS");
+    await expect(service.initiatePayout("wd_retry")).rejects.toThrow("Payout is already processing");
+  });
+
+  it("marks the withdrawal PAID when the payout is processed", async () => {
+    await seedWithdrawal("wd_paid", { upiId: "ngo@okbank" });
+    const payout = await service.initiatePayout("wd_paid");
+
+    await provider.settle(payout.payoutId!, "processed");
+    await service.handleRazorpayPayoutEvent(razorpayEvent(payout.payoutId!, "payout.processed"));
+
+    const doc = (await db.collection("withdrawals_private").doc("wd_paid").get()).data()!;
+    expect(doc.status).toBe("PAID");
+    expect(doc.payout.status).toBe("PROCESSED");
+    expect(doc.payout.utr).toMatch(/^UTR/);
+    const publicDoc = (await db.collection("withdrawals_public").doc("camp1").collection("items").doc("wd_paid").get()).data()!;
+    expect(publicDoc.status).toBe("PAID");
+  });
+
+  it("returns reversed payouts to APPROVED and retries with a new key", async () => {
+    await seedWithdrawal("wd_reversed", { upiId: "ngo@okbank" });
+    const first = await service.initiatePayout("wd_reversed");
+
+    await provider.settle(first.payoutId!, "reversed", "Beneficiary bank offline");
+    await service.handleRazorpayPayoutEvent(
+      razorpayEvent(first.payoutId!, "payout.reversed", "Beneficiary bank offline")
+    );
+
+    const doc = (await db.collection("withdrawals_private").doc("wd_reversed").get()).data()!;
+    expect(doc.status).toBe("APPROVED");
+    expect(doc.payoutFailureReason).toBe("Beneficiary bank offline");
+
+    const second = await service.initiatePayout("wd_reversed");
+    expect(second.attempt).toBe(2);
+    expect(second.idempotencyKey).toBe("wd_wd_reversed_2");
+
+    // Late webhook for the first attempt is ignored
+    expect(
+      await service.applyPayoutUpdate("razorpay", first.payoutId!, "PROCESSED")
+    ).toBeNull();
+  });
+
+  it("ignores out-of-order webhooks once the payout is final", async () => {
+    await seedWithdrawal("wd_late", { upiId: "ngo@okbank" });
+    const payout = await service.initiatePayout("wd_late");
+
+    await provider.settle(payout.payoutId!, "processed");
+    await service.handleRazorpayPayoutEvent(razorpayEvent(payout.payoutId!, "payout.processed"));
+
+    // Delivered late: neither may pull the paid withdrawal back
+    await service.handleRazorpayPayoutEvent(razorpayEvent(payout.payoutId!, "payout.queued"));
+    expect(await service.applyPayoutUpdate("razorpay", payout.payoutId!, "FAILED")).toBeNull();
+
+    let doc = (await db.collection("withdrawals_private").doc("wd_late").get()).data()!;
+    expect(doc.status).toBe("PAID");
+    expect(doc.payout.status).toBe("PROCESSED");
+
+    // A reversal after processing is a real transition
+    await service.handleRazorpayPayoutEvent(razorpayEvent(payout.payoutId!, "payout.reversed", "Returned by bank"));
+    doc = (await db.collection("withdrawals_private").doc("wd_late").get()).data()!;
+    expect(doc.status).toBe("APPROVED");
+    expect(doc.payout.status).toBe("REVERSED");
+  });
+});
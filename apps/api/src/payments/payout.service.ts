@@ -0,0 +1,374 @@
+import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { WithdrawalPayoutState } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+
+type PayoutProvider = WithdrawalPayoutState["provider"];
+type PayoutStatus = WithdrawalPayoutState["status"];
+
+// IMPS is capped at ₹5,00,000 per transfer; larger bank payouts go over NEFT
+const IMPS_LIMIT_PAISE = 50000000n;
+
+// Payout is with the provider; a new attempt could pay twice
+const IN_FLIGHT_STATUSES: PayoutStatus[] = ["PROCESSING", "PROCESSED", "MANUAL"];
+
+// Statuses an attempt may still move to; anything else is a repeated or
+// out-of-order delivery (e.g. payout.processing after payout.processed).
+// A processed payout can only be reversed; failed and reversed are final
+const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  INITIATED: ["PROCESSING", "PROCESSED", "FAILED", "REVERSED", "MANUAL"],
+  MANUAL: ["PROCESSING", "PROCESSED", "FAILED", "REVERSED"],
+  PROCESSING: ["PROCESSED", "FAILED", "REVERSED"],
+  PROCESSED: ["REVERSED"],
+  FAILED: [],
+  REVERSED: [],
+};
+
+/**
+ * Payout Service
+ * Sends approved INR withdrawals to the payee over UPI or bank transfer and
+ * applies provider payout webhooks to the withdrawal
+ */
+@Injectable()
+export class PayoutService {
+  constructor(
+    private firebase: FirebaseService,
+    private razorpayService: RazorpayService,
+    private cashfreeService: CashfreeService
+  ) {}
+
+  /**
+   * Start (or retry) the payout for an APPROVED INR withdrawal.
+   *
+   * The idempotency key only changes after the provider has reported the
+   * previous attempt as failed or reversed, so retrying after a timeout or
+   * crash reuses the key and cannot send the money twice.
+   */
+  async initiatePayout(withdrawalId: string): Promise<WithdrawalPayoutState> {
+    const db = this.firebase.firestore;
+    const privateRef = db.collection("withdrawals_private").doc(withdrawalId);
+
+    const { withdrawal, payout } = await db.runTransaction(async (t) => {
+      const snap = await t.get(privateRef);
+      if (!snap.exists) {
+        throw new NotFoundException("Withdrawal not found");
+      }
+      const withdrawal = snap.data() as any;
+      if (withdrawal.method !== "INR") {
+        throw new BadRequestException("Only INR withdrawals are paid out through the payout provider");
+      }
+      if (withdrawal.status !== "APPROVED") {
+        throw new BadRequestException(`Withdrawal is not in APPROVED status. Current status: ${withdrawal.status}`);
+      }
+
+      const previous = withdrawal.payout as WithdrawalPayoutState | undefined;
+      if (previous && IN_FLIGHT_STATUSES.includes(previous.status)) {
+        throw new BadRequestException(`Payout is already ${previous.status.toLowerCase()}`);
+      }
+
+      const payee = withdrawal.payee || {};
+      const rail: WithdrawalPayoutState["rail"] = payee.upiId ? "UPI" : "BANK";
+      if (rail === "BANK" && (!payee.bankAccount || !payee.ifsc || !payee.accountName)) {
+        throw new BadRequestException("Bank account details are missing for INR withdrawal");
+      }
+
+      // INITIATED means the outcome of the last call is unknown: reuse its key
+      const attempt = previous?.status === "INITIATED" ? previous.attempt : (previous?.attempt || 0) + 1;
+      const payout: WithdrawalPayoutState = {
+        provider: previous?.status === "INITIATED" ? previous.provider : this.getProvider(),
+        rail,
+        attempt,
+        idempotencyKey: `wd_${withdrawalId}_${attempt}`,
+        payoutId: null,
+        status: "INITIATED",
+        utr: null,
+        failureReason: null,
+      };
+
+      t.update(privateRef, {
+        payout: { ...payout, updatedAt: admin.firestore.FieldValue.serverTimestamp() },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { withdrawal, payout };
+    });
+
+    let result: { payoutId: string; status: PayoutStatus; utr?: string | null; reason?: string | null };
+    try {
+      result = await this.sendToProvider(withdrawalId, withdrawal, payout);
+    } catch (error: any) {
+      // Leave the attempt INITIATED so a retry reuses the same idempotency key
+      const message = error?.message || "Unknown error";
+      await privateRef.update({
+        "payout.failureReason": message,
+        "payout.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new BadRequestException(`Failed to create ${payout.provider} payout: ${message}`);
+    }
+
+    const updated: WithdrawalPayoutState = { ...payout, payoutId: result.payoutId, status: "PROCESSING" };
+    await db.runTransaction(async (t) => {
+      const current = (await t.get(privateRef)).data()?.payout as WithdrawalPayoutState | undefined;
+      // A webhook for this attempt may already have settled it
+      if (current?.idempotencyKey !== payout.idempotencyKey || current.status !== "INITIATED") return;
+      t.update(privateRef, {
+        "payout.payoutId": result.payoutId,
+        "payout.status": result.status === "MANUAL" ? "MANUAL" : "PROCESSING",
+        "payout.failureReason": null,
+        "payout.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    if (result.status === "MANUAL") {
+      return { ...updated, status: "MANUAL" };
+    }
+    // Some providers settle synchronously; apply the final state right away
+    if (result.status !== "PROCESSING") {
+      await this.applyPayoutUpdate(payout.provider, result.payoutId, result.status, {
+        utr: result.utr,
+        reason: result.reason,
+      });
+      return { ...updated, status: result.status, utr: result.utr ?? null, failureReason: result.reason ?? null };
+    }
+    return updated;
+  }
+
+  /**
+   * Apply a provider payout status to its withdrawal.
+   * PROCESSED -> PAID; FAILED/REVERSED -> back to APPROVED with the reason.
+   * Updates for earlier attempts, repeated deliveries and out-of-order
+   * events that would move a final status backwards are ignored.
+   */
+  async applyPayoutUpdate(
+    provider: PayoutProvider,
+    payoutId: string,
+    status: PayoutStatus,
+    details: { utr?: string | null; reason?: string | null; withdrawalId?: string } = {}
+  ): Promise<{ withdrawalId: string; status: string } | null> {
+    const db = this.firebase.firestore;
+    const privateRef = await this.findWithdrawalRef(payoutId, details.withdrawalId);
+    if (!privateRef) {
+      console.warn(`[Payout] No withdrawal for ${provider} payout ${payoutId}`);
+      return null;
+    }
+
+    const applied = await db.runTransaction(async (t) => {
+      const snap = await t.get(privateRef);
+      const withdrawal = snap.data() as any;
+      const payout = withdrawal?.payout as WithdrawalPayoutState | undefined;
+
+      // Cashfree transfer ids are our idempotency keys
+      const matches =
+        payout &&
+        payout.provider === provider &&
+        (payout.payoutId === payoutId || payout.idempotencyKey === payoutId);
+      if (!matches || !PAYOUT_TRANSITIONS[payout.status].includes(status)) {
+        return null;
+      }
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      if (status === "PROCESSED") {
+        t.update(privateRef, {
+          status: "PAID",
+          paidAt: now,
+          payoutFailureReason: null,
+          payout: { ...payout, payoutId, status, utr: details.utr || null, failureReason: null, updatedAt: now },
+          updatedAt: now,
+        });
+        return { campaignId: withdrawal.campaignId, status: "PAID" };
+      }
+      if (status === "FAILED" || status === "REVERSED") {
+        const reason = details.reason || `Payout ${status.toLowerCase()} by ${provider}`;
+        t.update(privateRef, {
+          status: "APPROVED",
+          paidAt: null,
+          payoutFailureReason: reason,
+          payout: { ...payout, payoutId, status, failureReason: reason, updatedAt: now },
+          updatedAt: now,
+        });
+        return { campaignId: withdrawal.campaignId, status: "APPROVED" };
+      }
+
+      t.update(privateRef, {
+        payout: { ...payout, payoutId, status, updatedAt: now },
+        updatedAt: now,
+      });
+      return null;
+    });
+
+    if (!applied) {
+      return null;
+    }
+
+    await this.mirrorStatus(privateRef.id, applied.campaignId, applied.status, details.reason);
+    return { withdrawalId: privateRef.id, status: applied.status };
+  }
+
+  /**
+   * Razorpay payout.* webhook
+   */
+  async handleRazorpayPayoutEvent(event: any): Promise<void> {
+    const payout = event?.payload?.payout?.entity;
+    if (!payout?.id) return;
+
+    const status = toPayoutStatus(String(event.event || "").replace(/^payout\./, ""));
+    await this.applyPayoutUpdate("razorpay", payout.id, status, {
+      utr: payout.utr,
+      reason: payout.status_details?.description || payout.failure_reason,
+      withdrawalId: payout.notes?.withdrawalId,
+    });
+  }
+
+  /**
+   * Cashfree TRANSFER_* webhook
+   */
+  async handleCashfreePayoutEvent(event: any): Promise<void> {
+    const transferId = event?.transferId || event?.data?.transfer?.transfer_id;
+    if (!transferId) return;
+
+    const status = toPayoutStatus(String(event.event || "").replace(/^TRANSFER_/, ""));
+    await this.applyPayoutUpdate("cashfree", transferId, status, {
+      utr: event.utr || event.data?.transfer?.utr,
+      reason: event.reason || event.data?.transfer?.status_description,
+    });
+  }
+
+  private getProvider(): PayoutProvider {
+    const provider = (process.env.PAYOUT_PROVIDER || "razorpay").toLowerCase();
+    if (provider !== "razorpay" && provider !== "cashfree") {
+      throw new BadRequestException(`Unsupported PAYOUT_PROVIDER: ${provider}`);
+    }
+    return provider;
+  }
+
+  private async sendToProvider(
+    withdrawalId: string,
+    withdrawal: any,
+    payout: WithdrawalPayoutState
+  ): Promise<{ payoutId: string; status: PayoutStatus; utr?: string | null; reason?: string | null }> {
+    const payee = withdrawal.payee || {};
+    const amountPaise = BigInt(withdrawal.amountInrPaise || "0");
+    if (amountPaise <= 0n) {
+      throw new BadRequestException("Withdrawal amount must be positive");
+    }
+    const bankMode = amountPaise <= IMPS_LIMIT_PAISE ? "IMPS" : "NEFT";
+
+    if (payout.provider === "cashfree") {
+      const transfer = await this.cashfreeService.createPayout({
+        ...(payout.rail === "UPI"
+          ? { vpa: payee.upiId }
+          : { accountNumber: payee.bankAccount, ifsc: payee.ifsc }),
+        amount: Number(amountPaise) / 100,
+        accountHolderName: payee.accountName || withdrawal.requestedByName || "Payee",
+        transferMode: payout.rail === "UPI" ? "UPI" : bankMode,
+        transferId: payout.idempotencyKey,
+        remarks: `Withdrawal ${withdrawalId}`,
+      });
+      return {
+        payoutId: payout.idempotencyKey,
+        status: toPayoutStatus(transfer.status),
+        utr: transfer.utr,
+        reason: transfer.reason,
+      };
+    }
+
+    const result = await this.razorpayService.createPayout({
+      ...(payout.rail === "BANK" && { accountNumber: payee.bankAccount }),
+      amount: Number(amountPaise),
+      currency: "INR",
+      mode: payout.rail === "UPI" ? "UPI" : bankMode,
+      purpose: "payout",
+      fundAccount:
+        payout.rail === "UPI"
+          ? { accountType: "vpa", vpa: { address: payee.upiId } }
+          : {
+              accountType: "bank_account",
+              bankAccount: { name: payee.accountName, ifsc: payee.ifsc, accountNumber: payee.bankAccount },
+            },
+      notes: { withdrawalId, campaignId: withdrawal.campaignId },
+      idempotencyKey: payout.idempotencyKey,
+    });
+
+    if ((result as any).requires_manual_processing) {
+      return { payoutId: result.id, status: "MANUAL" };
+    }
+    return {
+      payoutId: result.id,
+      status: toPayoutStatus(result.status),
+      utr: (result as any).utr,
+      reason: (result as any).failure_reason,
+    };
+  }
+
+  private async findWithdrawalRef(
+    payoutId: string,
+    withdrawalId?: string
+  ): Promise<admin.firestore.DocumentReference | null> {
+    const collection = this.firebase.firestore.collection("withdrawals_private");
+    for (const field of ["payout.payoutId", "payout.idempotencyKey"]) {
+      const snapshot = await collection.where(field, "==", payoutId).limit(1).get();
+      if (!snapshot.empty) return snapshot.docs[0].ref;
+    }
+    // Webhook may arrive before the payout id is stored
+    if (withdrawalId) {
+      const ref = collection.doc(withdrawalId);
+      if ((await ref.get()).exists) return ref;
+    }
+    return null;
+  }
+
+  private async mirrorStatus(
+    withdrawalId: string,
+    campaignId: string,
+    status: string,
+    reason?: string | null
+  ): Promise<void> {
+    const db = this.firebase.firestore;
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const paid = status === "PAID";
+
+    await db
+      .collection("withdrawals_public")
+      .doc(campaignId)
+      .collection("items")
+      .doc(withdrawalId)
+      .set(
+        {
+          status,
+          publicNote: paid ? "Payment completed" : "Approved, payment failed and will be retried",
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+
+    const legacyRef = db.collection("withdrawals").doc(withdrawalId);
+    if ((await legacyRef.get()).exists) {
+      await legacyRef.update({
+        payoutStatus: paid ? "processed" : "failed",
+        payoutFailureReason: paid ? null : reason || null,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+  }
+}
+
+/**
+ * Normalize Razorpay / Cashfree payout statuses
+ */
+function toPayoutStatus(providerStatus: string): PayoutStatus {
+  switch ((providerStatus || "").toLowerCase()) {
+    case "processed":
+    case "success":
+      return "PROCESSED";
+    case "reversed":
+      return "REVERSED";
+    case "failed":
+    case "rejected":
+    case "cancelled":
+    case "error":
+      return "FAILED";
+    default:
+      return "PROCESSING"; // queued, pending, processing, scheduled
+  }
+}
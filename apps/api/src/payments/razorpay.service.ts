@@ -137,10 +137,10 @@ export class RazorpayService {
    * 2. If not available, return payout details for manual processing
    */
   async createPayout(params: {
-    accountNumber: string; // Bank account number
+    accountNumber?: string; // Bank account number (BANK rail)
     amount: number; // Amount in paise
     currency?: string;
-    mode?: "NEFT" | "IMPS" | "RTGS";
+    mode?: "NEFT" | "IMPS" | "RTGS" | "UPI";
     purpose?: string;
     fundAccount?: {
       accountType: "bank_account" | "vpa" | "card";
@@ -154,6 +154,9 @@ export class RazorpayService {
       };
     };
     notes?: Record<string, any>;
+    // Sent as X-Payout-Idempotency and reference_id; retries with the same key
+    // return the original payout instead of sending money twice
+    idempotencyKey?: string;
   }) {
     if (!this.razorpay) {
       throw new InternalServerErrorException("Razorpay not configured");
@@ -191,7 +194,8 @@ export class RazorpayService {
 
     // RazorpayX is available - proceed with automatic payout
     try {
-      const razorpayXBaseUrl = "https://api.razorpay.com/v1";
+      const razorpayXBaseUrl = process.env.RAZORPAYX_BASE_URL || "https://api.razorpay.com/v1";
+      const isVpa = params.fundAccount?.accountType === "vpa";
       const keyId = process.env.RAZORPAY_KEY_ID;
       const keySecret = process.env.RAZORPAY_SECRET_KEY;
 
@@ -233,15 +237,23 @@ export class RazorpayService {
       }
 
       // Create fund account
-      const fundAccountPayload = {
-        contact_id: contactId,
-        account_type: "bank_account",
-        bank_account: {
-          name: params.fundAccount?.bankAccount?.name || "Payee",
-          ifsc: params.fundAccount?.bankAccount?.ifsc || "",
-          account_number: params.accountNumber,
-        },
-      };
+      const fundAccountPayload = isVpa
+        ? {
+            contact_id: contactId,
+            account_type: "vpa",
+            vpa: {
+              address: params.fundAccount?.vpa?.address || "",
+            },
+          }
+        : {
+            contact_id: contactId,
+            account_type: "bank_account",
+            bank_account: {
+              name: params.fundAccount?.bankAccount?.name || "Payee",
+              ifsc: params.fundAccount?.bankAccount?.ifsc || "",
+              account_number: params.accountNumber,
+            },
+          };
 
       let fundAccountId: string;
       try {
@@ -296,10 +308,10 @@ export class RazorpayService {
         },
         amount: params.amount,
         currency: params.currency || "INR",
-        mode: params.mode || "NEFT",
+        mode: params.mode || (isVpa ? "UPI" : "NEFT"),
         purpose: params.purpose || "payout",
         queue_if_low_balance: true,
-        reference_id: `payout_${Date.now()}`,
+        reference_id: params.idempotencyKey || `payout_${Date.now()}`,
         narration: `Withdrawal payout - ${params.notes?.withdrawalId || ""}`,
         notes: params.notes || {},
       };
@@ -309,6 +321,7 @@ export class RazorpayService {
         headers: {
           "Content-Type": "application/json",
           Authorization: `Basic ${auth}`,
+          ...(params.idempotencyKey && { "X-Payout-Idempotency": params.idempotencyKey }),
         },
         body: JSON.stringify(payoutPayload),
       });
@@ -330,6 +343,8 @@ export class RazorpayService {
         purpose: payoutData.purpose,
         fund_account: payoutData.fund_account,
         notes: payoutData.notes || {},
+        utr: payoutData.utr || null,
+        failure_reason: payoutData.status_details?.description || payoutData.failure_reason || null,
         created_at: payoutData.created_at,
         contact_id: contactId,
         fund_account_id: fundAccountId,
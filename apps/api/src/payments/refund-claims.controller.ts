@@ -0,0 +1,20 @@
+import { Controller, Get, Post, Body, Param } from "@nestjs/common";
+import { RefundService } from "./refund.service";
+
+/**
+ * Refund claim links (public: the token is the credential, donors may be guests)
+ */
+@Controller("refund-claims")
+export class RefundClaimsController {
+  constructor(private refundService: RefundService) {}
+
+  @Get(":token")
+  async getClaim(@Param("token") token: string) {
+    return this.refundService.getClaim(token);
+  }
+
+  @Post(":token")
+  async submitClaim(@Param("token") token: string, @Body() body: { address?: string; upiVpa?: string }) {
+    return this.refundService.submitClaim(token, body || {});
+  }
+}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { JOB_QUEUES } from "@opencause/firebase";
+import { RefundService } from "./refund.service";
+import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { QueueService } from "../queue/queue.service";
+import { Web3Service } from "../web3/web3.service";
+import { DonationAllocationService } from "../transparency/donation-allocation.service";
+import { EventService } from "../transparency/event.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("RefundService", () => {
+  let service: RefundService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let queueService: { addDonationRefundJob: jest.Mock; addNotificationJob: jest.Mock; consume: jest.Mock };
+
+  const seedDonation = async (id: string, networkId: string) => {
+    await db.collection("donations").doc(id).set({
+      campaignId: "camp1",
+      type: "CRYPTO",
+      tokenType: networkId === "bitcoin_mainnet" ? "BTC" : "ETH",
+      networkId,
+      amount: "1000000000000000000",
+      amountNative: "1",
+      amountUsd: "100",
+      fromAddress: "0x00000000000000000000000000000000000000d0",
+      donorId: "donor1",
+    });
+  };
+
+  const raisedCrypto = async () => (await db.collection("campaigns").doc("camp1").get()).get("raisedCrypto");
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "donations",
+      "donation_refunds",
+      "donation_receipts",
+      "campaigns",
+      "campaign_stats",
+    ]);
+    await db.collection("campaigns").doc("camp1").set({
+      title: "Test Campaign",
+      raisedInr: "8300",
+      raisedCrypto: "1000000000000000000",
+    });
+
+    queueService = {
+      addDonationRefundJob: jest.fn().mockResolvedValue("job1"),
+      addNotificationJob: jest.fn(),
+      consume: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundService,
+        { provide: FirebaseService, useValue: { firestore: db } },
+        { provide: QueueService, useValue: queueService },
+        { provide: Web3Service, useValue: {} },
+        { provide: DonationAllocationService, useValue: { reverseDonationAllocations: jest.fn().mockResolvedValue([]) } },
+        { provide: EventService, useValue: { emitEvent: jest.fn() } },
+        { provide: RazorpayService, useValue: {} },
+        { provide: CashfreeService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<RefundService>(RefundService);
+    service.onModuleInit();
+  });
+
+  it("keeps the donation counted until the return transfer has executed", async () => {
+    await seedDonation("don1", "ethereum_mainnet");
+    await service.requestRefund("don1", { id: "donor1" }, "Changed my mind");
+
+    const started = await service.approve("don1", "admin1");
+
+    expect(started).toMatchObject({ status: "PROCESSING", toAddress: "0x00000000000000000000000000000000000000d0" });
+    expect(started.reversedAt).toBeNull();
+    expect(queueService.addDonationRefundJob).toHaveBeenCalledWith("don1", false);
+    expect(await raisedCrypto()).toBe("1000000000000000000");
+
+    // The Safe watcher marks the refund REFUNDED and queues the reversal
+    const [queue, reverse] = queueService.consume.mock.calls[0];
+    expect(queue).toBe(JOB_QUEUES.REFUND_REVERSAL);
+    await expect(reverse({ data: { refundId: "don1" } } as any)).rejects.toThrow("has not been marked REFUNDED");
+
+    await db.collection("donation_refunds").doc("don1").update({ status: "REFUNDED", txHash: "0xabc" });
+    await reverse({ data: { refundId: "don1" } } as any);
+
+    expect(await raisedCrypto()).toBe("0");
+    expect((await db.collection("donations").doc("don1").get()).get("refunded")).toBe(true);
+  });
+
+  it("returns the refund to REQUESTED when the transfer cannot be queued", async () => {
+    await seedDonation("don1", "ethereum_mainnet");
+    await service.requestRefund("don1", { id: "donor1" }, "Changed my mind");
+    queueService.addDonationRefundJob.mockRejectedValueOnce(new Error("deadline exceeded"));
+
+    await expect(service.approve("don1", "admin1")).rejects.toThrow(BadRequestException);
+
+    expect(await service.getRefund("don1")).toMatchObject({
+      status: "REQUESTED",
+      reviewedBy: null,
+      failureReason: "deadline exceeded",
+    });
+  });
+
+  it("refuses return transfers on networks without a Safe-owned vault", async () => {
+    await seedDonation("don1", "bitcoin_mainnet");
+    await service.requestRefund("don1", { id: "donor1" }, "Changed my mind");
+
+    await expect(service.approve("don1", "admin1")).rejects.toThrow("not supported on bitcoin_mainnet");
+    expect((await service.getRefund("don1")).status).toBe("REQUESTED");
+    expect(queueService.addDonationRefundJob).not.toHaveBeenCalled();
+
+    // Claimed and paid out by hand instead; reversed once settled
+    const claim = await service.issueClaim("don1", "No return transfer on bitcoin", "admin1");
+    expect(await raisedCrypto()).toBe("1000000000000000000");
+    await service.submitClaim(claim.claimToken!, { address: "bc1qdonoraddress000000000000000000000000" });
+    expect(queueService.addDonationRefundJob).not.toHaveBeenCalled();
+
+    const settled = await service.settleClaim("don1", "admin1", "btc-transfer-tx");
+    expect(settled).toMatchObject({ status: "REFUNDED", txHash: "btc-transfer-tx" });
+    expect(await raisedCrypto()).toBe("0");
+  });
+
+  it("reissues the 80G receipt for the net amount after a partial refund", async () => {
+    await db.collection("donation_refunds").doc("don2").set({
+      donationId: "don2",
+      campaignId: "camp1",
+      source: "donations",
+      type: "INR",
+      currency: "INR",
+      amount: "300",
+      donatedAmount: "1000",
+      provider: "razorpay",
+      providerRefundId: "rfnd_1",
+      status: "PROCESSING",
+      reversedAt: null,
+    });
+    await db.collection("donation_receipts").doc("don2").set({ serialNumber: "80G/2025-26/000001", amountInr: "1000" });
+
+    await service.applyGatewayRefundUpdate("razorpay", "rfnd_1", "REFUNDED", { donationId: "don2" });
+
+    const receipt = (await db.collection("donation_receipts").doc("don2").get()).data();
+    expect(receipt).toMatchObject({ amountInr: "700.00", originalAmountInr: "1000" });
+    expect(receipt?.voidedAt).toBeUndefined();
+  });
+});
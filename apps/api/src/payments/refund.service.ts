@@ -0,0 +1,939 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+  OnModuleInit,
+} from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { randomBytes } from "crypto";
+import { isAddress } from "viem";
+import {
+  CampaignCancellationShare,
+  DonationReceiptDoc,
+  DonationRefundDoc,
+  DonationRefundStatus,
+  JOB_QUEUES,
+} from "@opencause/firebase";
+import { getAssetsByNetwork, getNetwork } from "@opencause/crypto-core";
+import { FirebaseService } from "../firebase/firebase.service";
+import { QueueService } from "../queue/queue.service";
+import { Web3Service } from "../web3/web3.service";
+import { DonationAllocationService } from "../transparency/donation-allocation.service";
+import { EventService } from "../transparency/event.service";
+import { RazorpayService } from "./razorpay.service";
+import { CashfreeService } from "./cashfree.service";
+
+type RefundProvider = NonNullable<DonationRefundDoc["provider"]>;
+
+// Donation fields a refund is opened with
+export type RefundableDonation = Pick<
+  DonationRefundDoc,
+  | "donationId"
+  | "campaignId"
+  | "source"
+  | "type"
+  | "amount"
+  | "amountRaw"
+  | "currency"
+  | "donorId"
+  | "orderId"
+  | "networkId"
+  | "assetId"
+>;
+
+// Refund has left (or is leaving) the campaign; totals are reversed
+const REVERSED_STATUSES: DonationRefundStatus[] = ["PROCESSING", "REFUNDED", "FAILED", "CLAIMABLE"];
+// Crypto stays in the vault until the return transfer executes
+const CRYPTO_REVERSED_STATUSES: DonationRefundStatus[] = ["REFUNDED"];
+
+/**
+ * Refund Service
+ * Donor refund requests: a donor or admin opens one, an admin approves it.
+ * INR donations are refunded through the gateway that took the payment;
+ * crypto donations get a return transfer to the donor's source address:
+ * the worker (donation_refund job) proposes vault.withdraw() through the
+ * treasury Safe and the Safe watcher settles it once executed. The donation
+ * is reversed everywhere it is counted (milestone allocations, campaign
+ * totals, campaign_stats, the public donation feed and its receipt) when an
+ * INR refund is sent to the gateway, and when a crypto return transfer has
+ * executed (refund_reversal job). Refunds that cannot be sent automatically
+ * become claims: the donor follows a claim link and tells us where to send
+ * the money.
+ */
+@Injectable()
+export class RefundService implements OnModuleInit {
+  constructor(
+    private firebase: FirebaseService,
+    private queueService: QueueService,
+    private web3Service: Web3Service,
+    private allocationService: DonationAllocationService,
+    private eventService: EventService,
+    private razorpayService: RazorpayService,
+    private cashfreeService: CashfreeService
+  ) {}
+
+  onModuleInit() {
+    // Queued by the worker's Safe watcher once a return transfer has executed
+    this.queueService.consume(JOB_QUEUES.REFUND_REVERSAL, async (job) => {
+      const refund = await this.getRefund(job.data.refundId);
+      if (refund.status === "PROCESSING") {
+        throw new Error(`Refund ${refund.id} has not been marked REFUNDED yet`);
+      }
+      await this.reverseDonation(refund.id, null);
+    });
+  }
+
+  /**
+   * Open a refund request. Donors can only request refunds of their own
+   * donations; admins can open one for any donation (e.g. guest donations).
+   */
+  async requestRefund(
+    donationId: string,
+    user: { id: string; role?: string },
+    reason: string
+  ): Promise<DonationRefundDoc & { id: string }> {
+    if (!reason?.trim()) {
+      throw new BadRequestException("A reason is required to request a refund");
+    }
+
+    const donation = await this.loadDonation(donationId);
+    const isAdmin = user.role === "ADMIN";
+    if (!isAdmin && (!donation.donorId || donation.donorId !== user.id)) {
+      throw new ForbiddenException("You can only request refunds of your own donations");
+    }
+
+    const db = this.firebase.firestore;
+    const refundRef = db.collection("donation_refunds").doc(donationId);
+    await db.runTransaction(async (t) => {
+      const existing = (await t.get(refundRef)).data() as DonationRefundDoc | undefined;
+      if (existing && existing.status !== "REJECTED") {
+        throw new BadRequestException(`A refund for this donation is already ${existing.status.toLowerCase()}`);
+      }
+
+      t.set(refundRef, {
+        ...newRefundDoc(donation, reason.trim(), user.id, isAdmin ? "ADMIN" : "DONOR"),
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return this.getRefund(donationId);
+  }
+
+  /**
+   * Open REQUESTED refunds for a campaign cancellation batch. Each share
+   * replaces any refund request still awaiting review for that donation;
+   * shares already opened by an earlier run are left alone.
+   */
+  async openCancellationRefunds(
+    campaignId: string,
+    shares: CampaignCancellationShare[],
+    adminId: string,
+    reason: string
+  ): Promise<void> {
+    const db = this.firebase.firestore;
+    for (let i = 0; i < shares.length; i += 400) {
+      const chunk = shares.slice(i, i + 400);
+      const refs = chunk.map((share) => db.collection("donation_refunds").doc(share.donationId));
+      const existing = await db.getAll(...refs);
+
+      const batch = db.batch();
+      chunk.forEach((share, j) => {
+        if (existing[j].get("cancellationId") === campaignId) return;
+        batch.set(refs[j], {
+          ...newRefundDoc(share, reason, adminId, "ADMIN"),
+          cancellationId: campaignId,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      });
+      await batch.commit();
+    }
+  }
+
+  /**
+   * Approve a requested refund and start it
+   */
+  async approve(refundId: string, adminId: string, note?: string) {
+    const refund = await this.getRefund(refundId);
+    if (refund.status !== "REQUESTED") {
+      throw new BadRequestException(`Refund is not in REQUESTED status. Current status: ${refund.status}`);
+    }
+
+    await this.startRefund(refundId, adminId, note);
+    return this.getRefund(refundId);
+  }
+
+  /**
+   * Start a REQUESTED refund: gateway refund for INR, return transfer for crypto
+   */
+  async startRefund(refundId: string, adminId: string, note?: string): Promise<void> {
+    const refund = await this.getRefund(refundId);
+    const review = { reviewedBy: adminId, reviewNote: note || null };
+
+    if (refund.type === "INR") {
+      const payment = await this.resolvePayment(refund);
+      await this.claim(refundId, "REQUESTED", { ...payment, ...review }, "reviewedAt");
+      await this.startGatewayRefund(refundId, adminId, "REQUESTED");
+    } else {
+      if (!hasReturnTransfer(refund.networkId)) {
+        throw new BadRequestException(
+          `Return transfers are not supported on ${refund.networkId}; issue a claim and pay it out manually`
+        );
+      }
+      const toAddress = await this.resolveSourceAddress(refund);
+      await this.claim(refundId, "REQUESTED", { toAddress, ...review }, "reviewedAt");
+      await this.enqueueReturnTransfer(refundId, "REQUESTED", false);
+    }
+  }
+
+  async reject(refundId: string, adminId: string, note: string) {
+    if (!note?.trim()) {
+      throw new BadRequestException("A note is required to reject a refund");
+    }
+    await this.claim(
+      refundId,
+      "REQUESTED",
+      { status: "REJECTED", reviewedBy: adminId, reviewNote: note.trim() },
+      "reviewedAt"
+    );
+    return this.getRefund(refundId);
+  }
+
+  /**
+   * Retry a FAILED refund. INR totals stay reversed: the money is still owed.
+   * A crypto retry proposes a fresh return transfer.
+   */
+  async retry(refundId: string, adminId: string) {
+    const refund = await this.getRefund(refundId);
+    if (refund.status !== "FAILED") {
+      throw new BadRequestException(`Only FAILED refunds can be retried. Current status: ${refund.status}`);
+    }
+
+    if (refund.type === "INR") {
+      await this.claim(refundId, "FAILED", {});
+      await this.startGatewayRefund(refundId, adminId, "FAILED");
+    } else {
+      if (!hasReturnTransfer(refund.networkId)) {
+        throw new BadRequestException(`Return transfers are not supported on ${refund.networkId}`);
+      }
+      await this.claim(refundId, "FAILED", { safe: null, txHash: null, explorerUrl: null });
+      await this.enqueueReturnTransfer(refundId, "FAILED", !!refund.claimedAt);
+    }
+
+    return this.getRefund(refundId);
+  }
+
+  /**
+   * Turn a requested or failed refund into a claim. INR totals are reversed
+   * now; the money waits until the donor submits a destination.
+   */
+  async issueClaim(refundId: string, reason: string, actorUserId: string | null) {
+    const db = this.firebase.firestore;
+    const refundRef = db.collection("donation_refunds").doc(refundId);
+    const claimToken = randomBytes(24).toString("hex");
+
+    const refund = await db.runTransaction(async (t) => {
+      const snap = await t.get(refundRef);
+      if (!snap.exists) {
+        throw new NotFoundException("Refund not found");
+      }
+      const refund = snap.data() as DonationRefundDoc;
+      if (refund.status !== "REQUESTED" && refund.status !== "FAILED") {
+        throw new BadRequestException(`Only requested or failed refunds can become claims. Current status: ${refund.status}`);
+      }
+      t.update(refundRef, {
+        status: "CLAIMABLE",
+        claimToken,
+        failureReason: reason,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return refund;
+    });
+
+    await this.reverseDonation(refundId, actorUserId);
+
+    // Guest donors have no account; admins share the link from the refunds page
+    if (refund.donorId) {
+      await this.queueService.addNotificationJob({
+        userId: refund.donorId,
+        type: "REFUND_CLAIM",
+        title: "Claim your refund",
+        message: `We could not return ${refund.amount} ${refund.currency} to you automatically. Tell us where to send it.`,
+        link: `/refund-claims/${claimToken}`,
+      });
+    }
+
+    return this.getRefund(refundId);
+  }
+
+  /**
+   * Public view of a claim, looked up by its token
+   */
+  async getClaim(token: string) {
+    const { refund } = await this.findClaim(token);
+    const campaign = await this.firebase.firestore.collection("campaigns").doc(refund.campaignId).get();
+    return {
+      campaignId: refund.campaignId,
+      campaignTitle: campaign.get("title") || null,
+      type: refund.type,
+      amount: refund.amount,
+      currency: refund.currency,
+      networkId: refund.networkId || null,
+      status: refund.status,
+      claimedAt: refund.claimedAt || null,
+      completedAt: refund.completedAt || null,
+      txHash: refund.txHash || null,
+      explorerUrl: refund.explorerUrl || null,
+    };
+  }
+
+  /**
+   * Donor submits where a claimed refund should go: an address on the
+   * donation's network for crypto (sent by the worker where return transfers
+   * are supported, otherwise paid out by an admin), a UPI id for INR (paid
+   * out by an admin, then settled)
+   */
+  async submitClaim(token: string, body: { address?: string; upiVpa?: string }) {
+    const { id, refund } = await this.findClaim(token);
+
+    let destination: Partial<DonationRefundDoc>;
+    if (refund.type === "CRYPTO") {
+      const address = body.address?.trim();
+      if (!address || !isValidAddress(refund.networkId, address)) {
+        throw new BadRequestException(`A valid ${refund.networkId} address is required`);
+      }
+      destination = { toAddress: address };
+    } else {
+      const upiVpa = body.upiVpa?.trim();
+      if (!upiVpa || !/^[\w.-]+@[\w.-]+$/.test(upiVpa)) {
+        throw new BadRequestException("A valid UPI id is required");
+      }
+      destination = { claimUpiVpa: upiVpa };
+    }
+
+    await this.claim(id, "CLAIMABLE", destination, "claimedAt");
+    if (refund.type === "CRYPTO" && hasReturnTransfer(refund.networkId)) {
+      await this.enqueueReturnTransfer(id, "CLAIMABLE", true);
+    }
+
+    return this.getClaim(token);
+  }
+
+  /**
+   * Record the manual payout of a claimed INR refund, or of a claimed crypto
+   * refund on a network without return transfers (reference = transfer tx)
+   */
+  async settleClaim(refundId: string, adminId: string, reference: string) {
+    if (!reference?.trim()) {
+      throw new BadRequestException("A payout reference (UTR or transaction hash) is required");
+    }
+
+    const db = this.firebase.firestore;
+    const refundRef = db.collection("donation_refunds").doc(refundId);
+    await db.runTransaction(async (t) => {
+      const snap = await t.get(refundRef);
+      if (!snap.exists) {
+        throw new NotFoundException("Refund not found");
+      }
+      const refund = snap.data() as DonationRefundDoc;
+      const manualCrypto = refund.type === "CRYPTO" && !!refund.claimedAt && !hasReturnTransfer(refund.networkId);
+      if (refund.status !== "PROCESSING" || (!refund.claimUpiVpa && !manualCrypto)) {
+        throw new BadRequestException("Only claimed refunds awaiting a manual payout can be settled");
+      }
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      t.update(refundRef, {
+        status: "REFUNDED",
+        settlementReference: reference.trim(),
+        ...(manualCrypto && { txHash: reference.trim() }),
+        reviewedBy: adminId,
+        completedAt: now,
+        updatedAt: now,
+      });
+    });
+
+    // Crypto claims are reversed once paid out
+    await this.reverseDonation(refundId, adminId);
+    return this.getRefund(refundId);
+  }
+
+  async getRefund(refundId: string): Promise<DonationRefundDoc & { id: string }> {
+    const snap = await this.firebase.firestore.collection("donation_refunds").doc(refundId).get();
+    if (!snap.exists) {
+      throw new NotFoundException("Refund not found");
+    }
+    return { id: snap.id, ...(snap.data() as DonationRefundDoc) };
+  }
+
+  async list(status?: DonationRefundStatus, limit = 100): Promise<Array<DonationRefundDoc & { id: string }>> {
+    let query: admin.firestore.Query = this.firebase.firestore.collection("donation_refunds");
+    if (status) query = query.where("status", "==", status);
+    const snapshot = await query.orderBy("createdAt", "desc").limit(Math.min(limit, 200)).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as DonationRefundDoc) }));
+  }
+
+  async listForDonor(userId: string): Promise<Array<DonationRefundDoc & { id: string }>> {
+    const snapshot = await this.firebase.firestore
+      .collection("donation_refunds")
+      .where("donorId", "==", userId)
+      .get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as DonationRefundDoc) }));
+  }
+
+  /**
+   * Apply a gateway refund status (from the create response or a webhook).
+   * Repeated deliveries and updates for earlier attempts are ignored.
+   */
+  async applyGatewayRefundUpdate(
+    provider: RefundProvider,
+    providerRefundId: string,
+    status: "REFUNDED" | "FAILED",
+    details: { reason?: string | null; donationId?: string } = {}
+  ): Promise<void> {
+    const ref = await this.findRefundRef(providerRefundId, details.donationId);
+    if (!ref) {
+      console.warn(`[Refund] No refund for ${provider} refund ${providerRefundId}`);
+      return;
+    }
+
+    const applied = await this.firebase.firestore.runTransaction(async (t) => {
+      const refund = (await t.get(ref)).data() as DonationRefundDoc;
+      if (refund.provider !== provider || refund.status !== "PROCESSING") return false;
+      if (refund.providerRefundId && refund.providerRefundId !== providerRefundId) return false;
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      t.update(ref, {
+        status,
+        providerRefundId,
+        failureReason: status === "FAILED" ? details.reason || `Refund failed at ${provider}` : null,
+        completedAt: status === "REFUNDED" ? now : null,
+        updatedAt: now,
+      });
+      return true;
+    });
+
+    // The webhook may beat the reversal after the create call (e.g. crash in between)
+    if (applied) {
+      await this.reverseDonation(ref.id, null);
+    }
+  }
+
+  /**
+   * Razorpay refund.* webhook
+   */
+  async handleRazorpayRefundEvent(event: any): Promise<void> {
+    const refund = event?.payload?.refund?.entity;
+    if (!refund?.id) return;
+
+    if (event.event === "refund.processed") {
+      await this.applyGatewayRefundUpdate("razorpay", refund.id, "REFUNDED", {
+        donationId: refund.notes?.donationId,
+      });
+    } else if (event.event === "refund.failed") {
+      await this.applyGatewayRefundUpdate("razorpay", refund.id, "FAILED", {
+        reason: refund.error_description || null,
+        donationId: refund.notes?.donationId,
+      });
+    }
+  }
+
+  /**
+   * Cashfree REFUND_STATUS_WEBHOOK
+   */
+  async handleCashfreeRefundEvent(event: any): Promise<void> {
+    const refund = event?.data?.refund;
+    if (!refund?.refund_id) return;
+
+    if (refund.refund_status === "SUCCESS") {
+      await this.applyGatewayRefundUpdate("cashfree", refund.refund_id, "REFUNDED");
+    } else if (refund.refund_status === "CANCELLED" || refund.refund_status === "FAILED") {
+      await this.applyGatewayRefundUpdate("cashfree", refund.refund_id, "FAILED", {
+        reason: refund.status_description || null,
+      });
+    }
+  }
+
+  /**
+   * Call the gateway for a claimed (PROCESSING) INR refund. If the gateway
+   * rejects the call nothing was refunded, so the refund returns to `previous`.
+   */
+  private async startGatewayRefund(refundId: string, adminId: string, previous: DonationRefundStatus) {
+    const refundRef = this.firebase.firestore.collection("donation_refunds").doc(refundId);
+    const refund = await this.getRefund(refundId);
+    const attempt = (refund.attempt || 0) + 1;
+
+    let result: { providerRefundId: string; status: "PROCESSING" | "REFUNDED" | "FAILED"; reason?: string | null };
+    try {
+      result = await this.sendToGateway(refund, attempt);
+    } catch (error: any) {
+      const message = error?.message || "Unknown error";
+      await refundRef.update({
+        status: previous,
+        failureReason: message,
+        ...(previous === "REQUESTED" && { reviewedBy: null, reviewNote: null, reviewedAt: null }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new BadRequestException(`Failed to create ${refund.provider} refund: ${message}`);
+    }
+
+    await refundRef.update({
+      attempt,
+      providerRefundId: result.providerRefundId,
+      failureReason: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await this.reverseDonation(refundId, adminId);
+
+    // Some refunds settle synchronously; apply the final state right away
+    if (result.status !== "PROCESSING") {
+      await this.applyGatewayRefundUpdate(refund.provider!, result.providerRefundId, result.status, {
+        reason: result.reason,
+      });
+    }
+  }
+
+  private async sendToGateway(
+    refund: DonationRefundDoc & { id: string },
+    attempt: number
+  ): Promise<{ providerRefundId: string; status: "PROCESSING" | "REFUNDED" | "FAILED"; reason?: string | null }> {
+    const amountPaise = Math.round(parseFloat(refund.amount) * 100);
+    if (!(amountPaise > 0)) {
+      throw new BadRequestException("Refund amount must be positive");
+    }
+
+    if (refund.provider === "cashfree") {
+      // Our refund_id is Cashfree's idempotency key; a new attempt gets a new one
+      const providerRefundId = `refund_${refund.donationId}_${attempt}`;
+      const result: any = await this.cashfreeService.createRefund({
+        orderId: refund.orderId!,
+        refundAmount: amountPaise / 100,
+        refundNote: `Refund of donation ${refund.donationId}`,
+        refundId: providerRefundId,
+      });
+      return {
+        providerRefundId,
+        status: toRefundStatus(result?.refund_status),
+        reason: result?.status_description || null,
+      };
+    }
+
+    if (!refund.paymentId) {
+      throw new BadRequestException("Payment id is unknown for this donation");
+    }
+    const result: any = await this.razorpayService.createRefund({
+      paymentId: refund.paymentId,
+      amount: amountPaise,
+      notes: { donationId: refund.donationId, campaignId: refund.campaignId },
+    });
+    return { providerRefundId: result.id, status: toRefundStatus(result.status) };
+  }
+
+  /**
+   * Reverse a refunded donation exactly once: milestone allocations, campaign
+   * raised totals, campaign_stats, the public feed entry and its 80G receipt.
+   */
+  private async reverseDonation(refundId: string, actorUserId: string | null): Promise<void> {
+    const db = this.firebase.firestore;
+    const refundRef = db.collection("donation_refunds").doc(refundId);
+
+    await db.runTransaction(async (t) => {
+      const refund = (await t.get(refundRef)).data() as DonationRefundDoc;
+      const reversedStatuses = refund.type === "CRYPTO" ? CRYPTO_REVERSED_STATUSES : REVERSED_STATUSES;
+      if (refund.reversedAt || !reversedStatuses.includes(refund.status)) return;
+
+      const donationRef = db.collection(refund.source).doc(refund.donationId);
+      const publicRef = db
+        .collection("donations_public")
+        .doc(refund.campaignId)
+        .collection("items")
+        .doc(refund.donationId);
+      const campaignRef = db.collection("campaigns").doc(refund.campaignId);
+      const statsRef = db.collection("campaign_stats").doc(refund.campaignId);
+      const receiptRef = db.collection("donation_receipts").doc(refund.donationId);
+      const [donationSnap, publicSnap, campaignSnap, statsSnap, receiptSnap] = await t.getAll(
+        donationRef,
+        publicRef,
+        campaignRef,
+        statsRef,
+        receiptRef
+      );
+
+      const reversed = await this.allocationService.reverseDonationAllocations(t, refund.donationId);
+
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      t.update(refundRef, { reversedAt: now, updatedAt: now });
+      if (donationSnap.exists) {
+        t.update(donationRef, { refunded: true, refundedAt: now });
+      }
+      if (publicSnap.exists) {
+        t.update(publicRef, { refunded: true, refundedAt: now, updatedAt: now });
+      }
+      // A refunded donation is no longer eligible for 80G deduction; when only
+      // a share was returned the receipt is reissued for what the NGO kept
+      if (receiptSnap.exists) {
+        const receipt = receiptSnap.data() as DonationReceiptDoc;
+        const keptPaise =
+          refund.type === "INR" && refund.donatedAmount
+            ? Math.round(parseFloat(refund.donatedAmount) * 100) - Math.round(parseFloat(refund.amount) * 100)
+            : 0;
+        if (keptPaise > 0) {
+          t.update(receiptRef, {
+            amountInr: (keptPaise / 100).toFixed(2),
+            originalAmountInr: receipt.originalAmountInr || receipt.amountInr,
+            reissuedAt: now,
+          });
+        } else {
+          t.update(receiptRef, { voidedAt: now });
+        }
+      }
+
+      // Legacy running totals, maintained by DonationsService.create
+      if (campaignSnap.exists && refund.source === "donations") {
+        const campaign = campaignSnap.data() as any;
+        const donation = donationSnap.data() as any;
+        const raisedInr = BigInt(campaign.raisedInr || "0");
+        // The whole donation stops counting, even when only a share is returned
+        if (refund.type === "INR") {
+          const amount = BigInt(Math.round(parseFloat(refund.donatedAmount || refund.amount)));
+          t.update(campaignRef, { raisedInr: maxZero(raisedInr - amount).toString() });
+        } else {
+          const amountUsd = parseFloat(donation?.amountUsd || "");
+          const amountInr = isNaN(amountUsd) ? 0n : BigInt(Math.round(amountUsd * 83));
+          const raisedCrypto = BigInt(campaign.raisedCrypto || "0");
+          t.update(campaignRef, {
+            raisedInr: maxZero(raisedInr - amountInr).toString(),
+            raisedCrypto: maxZero(raisedCrypto - BigInt(refund.donatedAmountRaw || refund.amountRaw || "0")).toString(),
+          });
+        }
+      }
+
+      // Crypto totals per asset (the stats refresher also nets out refunds)
+      if (statsSnap.exists && refund.type === "CRYPTO" && refund.assetId && refund.networkId) {
+        const stats = statsSnap.data() as any;
+        const assetKey = `${refund.assetId}_${refund.networkId}`;
+        const amountRaw = BigInt(refund.donatedAmountRaw || refund.amountRaw || "0");
+        const update: Record<string, string | admin.firestore.FieldValue> = { updatedAt: now };
+        for (const field of ["totalsByAsset", "balanceByAsset"]) {
+          if (stats[field]?.[assetKey] !== undefined) {
+            update[`${field}.${assetKey}`] = maxZero(BigInt(stats[field][assetKey]) - amountRaw).toString();
+          }
+        }
+        t.update(statsRef, update);
+      }
+
+      await this.eventService.emitEvent(t, {
+        campaignId: refund.campaignId,
+        type: "DONATION_REFUNDED",
+        visibility: "PUBLIC",
+        actorUserId,
+        entityType: "DONATION",
+        entityId: refund.donationId,
+        data: {
+          donationId: refund.donationId,
+          amount: refund.amount,
+          currency: refund.currency,
+          type: refund.type,
+          ...(refund.donatedAmount && { donatedAmount: refund.donatedAmount }),
+          ...(refund.cancellationId && { cancellationId: refund.cancellationId }),
+          reversedAllocations: reversed.map((a) => ({
+            milestoneId: a.milestoneId,
+            amount: a.amount,
+            currency: a.currency,
+          })),
+        },
+      });
+    });
+  }
+
+  /**
+   * Queue the worker's return transfer for a refund just moved to PROCESSING.
+   * If the job cannot be queued nothing was sent, so the refund returns to
+   * `previous`.
+   */
+  private async enqueueReturnTransfer(refundId: string, previous: DonationRefundStatus, claimed: boolean) {
+    try {
+      await this.queueService.addDonationRefundJob(refundId, claimed);
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      await this.firebase.firestore.collection("donation_refunds").doc(refundId).update({
+        status: previous,
+        failureReason: message,
+        ...(previous === "REQUESTED" && { toAddress: null, reviewedBy: null, reviewNote: null, reviewedAt: null }),
+        ...(previous === "CLAIMABLE" && { toAddress: null, claimedAt: null }),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw new BadRequestException(`Could not queue return transfer: ${message}`);
+    }
+  }
+
+  /**
+   * Move a refund out of `from`, failing if someone else moved it first
+   */
+  private async claim(
+    refundId: string,
+    from: DonationRefundStatus,
+    update: Partial<DonationRefundDoc>,
+    stampField?: "reviewedAt" | "claimedAt"
+  ) {
+    const db = this.firebase.firestore;
+    const refundRef = db.collection("donation_refunds").doc(refundId);
+    await db.runTransaction(async (t) => {
+      const snap = await t.get(refundRef);
+      if (!snap.exists) {
+        throw new NotFoundException("Refund not found");
+      }
+      const refund = snap.data() as DonationRefundDoc;
+      if (refund.status !== from) {
+        throw new BadRequestException(`Refund is not in ${from} status. Current status: ${refund.status}`);
+      }
+      t.update(refundRef, {
+        status: "PROCESSING",
+        failureReason: null,
+        ...update,
+        ...(stampField ? { [stampField]: admin.firestore.FieldValue.serverTimestamp() } : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  }
+
+  /**
+   * Snapshot the refundable donation from the legacy donations collection
+   * (INR and checkout crypto) or donations_private (intent-detected crypto)
+   */
+  private async loadDonation(donationId: string): Promise<RefundableDonation> {
+    const db = this.firebase.firestore;
+
+    const legacy = await db.collection("donations").doc(donationId).get();
+    if (legacy.exists) {
+      const data = legacy.data() as any;
+      this.assertNotRefunded(data);
+      if (data.type === "INR" && !data.orderId) {
+        throw new BadRequestException("Donation has no gateway order to refund");
+      }
+      return toRefundableDonation(donationId, "donations", data);
+    }
+
+    const privateSnap = await db.collection("donations_private").doc(donationId).get();
+    if (!privateSnap.exists) {
+      throw new NotFoundException("Donation not found");
+    }
+    const data = privateSnap.data() as any;
+    const publicSnap = await db
+      .collection("donations_public")
+      .doc(data.campaignId)
+      .collection("items")
+      .doc(donationId)
+      .get();
+    this.assertNotRefunded(publicSnap.data() || {});
+
+    return toRefundableDonation(donationId, "donations_private", data);
+  }
+
+  private assertNotRefunded(donation: any) {
+    if (donation.refunded) {
+      throw new BadRequestException("Donation has already been refunded");
+    }
+  }
+
+  /**
+   * Gateway payment behind an INR donation, from its pending_donations record
+   */
+  private async resolvePayment(
+    refund: DonationRefundDoc
+  ): Promise<Pick<DonationRefundDoc, "provider" | "paymentId">> {
+    if (!refund.orderId) {
+      throw new BadRequestException("Donation has no gateway order to refund");
+    }
+    const snapshot = await this.firebase.firestore
+      .collection("pending_donations")
+      .where("orderId", "==", refund.orderId)
+      .limit(1)
+      .get();
+    const pending = snapshot.empty ? null : (snapshot.docs[0].data() as any);
+    const provider: RefundProvider = pending?.provider === "cashfree" ? "cashfree" : "razorpay";
+
+    if (provider === "razorpay" && !pending?.paymentId) {
+      throw new BadRequestException("Razorpay payment id is unknown for this donation");
+    }
+    return { provider, paymentId: pending?.paymentId || null };
+  }
+
+  /**
+   * Donor's source address for a crypto donation: recorded at detection time,
+   * else read from the chain
+   */
+  private async resolveSourceAddress(refund: DonationRefundDoc): Promise<string> {
+    if (!refund.networkId || !refund.assetId || !getNetwork(refund.networkId)) {
+      throw new BadRequestException("Network or asset is unknown for this donation");
+    }
+
+    const db = this.firebase.firestore;
+    const donation = (await db.collection(refund.source).doc(refund.donationId).get()).data() as any;
+    if (donation?.fromAddress) {
+      return donation.fromAddress;
+    }
+
+    const txHash = donation?.txHash;
+    if (txHash) {
+      const chainTx = await db.collection("chain_txs_private").doc(`${refund.networkId}_${txHash}`).get();
+      if (chainTx.get("from")) {
+        return chainTx.get("from");
+      }
+      try {
+        const receipt = await this.web3Service.getTransactionReceipt(txHash);
+        if (receipt?.from) return receipt.from;
+      } catch (error: any) {
+        console.warn(`[Refund] Could not read transaction ${txHash}:`, error?.message || error);
+      }
+    }
+
+    throw new BadRequestException("Donor's source address is unknown for this donation");
+  }
+
+  private async findClaim(token: string): Promise<{ id: string; refund: DonationRefundDoc }> {
+    const snapshot = token
+      ? await this.firebase.firestore
+          .collection("donation_refunds")
+          .where("claimToken", "==", token)
+          .limit(1)
+          .get()
+      : null;
+    if (!snapshot || snapshot.empty) {
+      throw new NotFoundException("Claim not found");
+    }
+    return { id: snapshot.docs[0].id, refund: snapshot.docs[0].data() as DonationRefundDoc };
+  }
+
+  private async findRefundRef(
+    providerRefundId: string,
+    donationId?: string
+  ): Promise<admin.firestore.DocumentReference | null> {
+    const collection = this.firebase.firestore.collection("donation_refunds");
+    const snapshot = await collection.where("providerRefundId", "==", providerRefundId).limit(1).get();
+    if (!snapshot.empty) return snapshot.docs[0].ref;
+
+    // Webhook may arrive before the provider refund id is stored
+    const fallbackId = donationId || providerRefundId.match(/^refund_(.+)_\d+$/)?.[1];
+    if (fallbackId) {
+      const ref = collection.doc(fallbackId);
+      if ((await ref.get()).exists) return ref;
+    }
+    return null;
+  }
+}
+
+/**
+ * Map a donation record to the fields a refund is opened with
+ */
+export function toRefundableDonation(
+  donationId: string,
+  source: DonationRefundDoc["source"],
+  data: any
+): RefundableDonation {
+  if (source === "donations_private") {
+    return {
+      donationId,
+      campaignId: data.campaignId,
+      source,
+      type: "CRYPTO",
+      amount: data.amountNative,
+      amountRaw: data.rawAmount,
+      currency: data.assetSymbol,
+      donorId: data.donorUid || null,
+      orderId: null,
+      networkId: data.networkId,
+      assetId: data.assetId,
+    };
+  }
+
+  if (data.type === "INR") {
+    return {
+      donationId,
+      campaignId: data.campaignId,
+      source,
+      type: "INR",
+      amount: String(data.amount),
+      amountRaw: null,
+      currency: "INR",
+      donorId: data.isGuest ? null : data.donorId || null,
+      orderId: data.orderId || null,
+      networkId: null,
+      assetId: null,
+    };
+  }
+
+  const symbol = data.tokenType || "ETH";
+  const networkId = data.networkId || null;
+  const asset = networkId ? getAssetsByNetwork(networkId).find((a) => a.symbol === symbol) : undefined;
+  return {
+    donationId,
+    campaignId: data.campaignId,
+    source,
+    type: "CRYPTO",
+    amount: String(data.amountNative || data.amount),
+    amountRaw: String(data.amount),
+    currency: symbol,
+    donorId: data.isGuest ? null : data.donorId || null,
+    orderId: null,
+    networkId,
+    assetId: data.assetId || asset?.assetId || null,
+  };
+}
+
+function newRefundDoc(
+  donation: RefundableDonation & Partial<DonationRefundDoc>,
+  reason: string,
+  requestedBy: string,
+  requestedByRole: DonationRefundDoc["requestedByRole"]
+): DonationRefundDoc {
+  return {
+    ...donation,
+    reason,
+    requestedBy,
+    requestedByRole,
+    status: "REQUESTED",
+    attempt: 0,
+    providerRefundId: null,
+    txHash: null,
+    explorerUrl: null,
+    claimToken: null,
+    failureReason: null,
+    reviewedBy: null,
+    reviewNote: null,
+    reviewedAt: null,
+    reversedAt: null,
+    completedAt: null,
+  };
+}
+
+/**
+ * Networks the worker can send return transfers on: EVM vaults owned by the
+ * treasury Safe. UTXO and Solana refunds are claimed and paid out manually.
+ */
+function hasReturnTransfer(networkId: string | null | undefined): boolean {
+  return !!networkId && getNetwork(networkId)?.type === "EVM";
+}
+
+function isValidAddress(networkId: string | null | undefined, address: string): boolean {
+  const network = networkId ? getNetwork(networkId) : undefined;
+  if (network?.type === "EVM") return isAddress(address);
+  return /^[A-Za-z0-9]{25,90}$/.test(address);
+}
+
+function toRefundStatus(status: string | undefined): "PROCESSING" | "REFUNDED" | "FAILED" {
+  switch ((status || "").toLowerCase()) {
+    case "processed":
+    case "success":
+      return "REFUNDED";
+    case "failed":
+    case "cancelled":
+      return "FAILED";
+    default:
+      return "PROCESSING";
+  }
+}
+
+function maxZero(value: bigint): bigint {
+  return value < 0n ? 0n : value;
+}
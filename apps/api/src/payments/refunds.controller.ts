@@ -0,0 +1,73 @@
+import { Controller, Get, Post, Body, Param, Query, Request, UseGuards } from "@nestjs/common";
+import { DonationRefundStatus } from "@opencause/firebase";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { RefundService } from "./refund.service";
+
+@Controller("refunds")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RefundsController {
+  constructor(private refundService: RefundService) {}
+
+  /**
+   * Open a refund request (donor for their own donation, or admin)
+   */
+  @Post()
+  async request(@Request() req, @Body() body: { donationId: string; reason: string }) {
+    return this.refundService.requestRefund(body.donationId, req.user, body.reason);
+  }
+
+  @Get("me")
+  async listMine(@Request() req) {
+    return this.refundService.listForDonor(req.user.id);
+  }
+
+  /**
+   * List refunds, e.g. ?status=REQUESTED
+   */
+  @Get()
+  @Roles("ADMIN")
+  async list(@Query("status") status?: DonationRefundStatus, @Query("limit") limit?: string) {
+    return this.refundService.list(status, limit ? parseInt(limit, 10) : undefined);
+  }
+
+  @Post(":id/approve")
+  @Roles("ADMIN")
+  async approve(@Request() req, @Param("id") id: string, @Body() body: { note?: string }) {
+    return this.refundService.approve(id, req.user.id, body?.note);
+  }
+
+  @Post(":id/reject")
+  @Roles("ADMIN")
+  async reject(@Request() req, @Param("id") id: string, @Body() body: { note: string }) {
+    return this.refundService.reject(id, req.user.id, body?.note);
+  }
+
+  /**
+   * Retry a FAILED gateway refund or return transfer
+   */
+  @Post(":id/retry")
+  @Roles("ADMIN")
+  async retry(@Request() req, @Param("id") id: string) {
+    return this.refundService.retry(id, req.user.id);
+  }
+
+  /**
+   * Replace a FAILED refund with a claim link for the donor
+   */
+  @Post(":id/claim")
+  @Roles("ADMIN")
+  async issueClaim(@Request() req, @Param("id") id: string, @Body() body: { note?: string }) {
+    return this.refundService.issueClaim(id, body?.note || "Refund could not be completed", req.user.id);
+  }
+
+  /**
+   * Record the manual payout of a claimed INR refund
+   */
+  @Post(":id/settle")
+  @Roles("ADMIN")
+  async settle(@Request() req, @Param("id") id: string, @Body() body: { reference: string }) {
+    return this.refundService.settleClaim(id, req.user.id, body?.reference);
+  }
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Post, Param, Query, Request, UseGuards } from "@nestjs/common";
+import { WebhookEventStatus } from "@opencause/firebase";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { WebhookEventsService } from "./webhook-events.service";
+
+@Controller("admin/webhook-events")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class WebhookEventsController {
+  constructor(private webhookEventsService: WebhookEventsService) {}
+
+  /**
+   * List stored webhook events, e.g. ?status=FAILED or ?status=DEAD
+   */
+  @Get()
+  @Roles("ADMIN")
+  async list(
+    @Query("status") status?: WebhookEventStatus,
+    @Query("provider") provider?: "razorpay" | "cashfree",
+    @Query("limit") limit?: string
+  ) {
+    return this.webhookEventsService.list(status, provider, limit ? parseInt(limit, 10) : undefined);
+  }
+
+  @Post(":id/replay")
+  @Roles("ADMIN")
+  async replay(@Param("id") id: string, @Request() req) {
+    return this.webhookEventsService.replay(id, req.user.id);
+  }
+}
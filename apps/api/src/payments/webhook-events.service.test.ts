@@ -0,0 +1,137 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException } from "@nestjs/common";
+import { WebhookEventDoc } from "@opencause/firebase";
+import { WebhookEventsService } from "./webhook-events.service";
+import { PaymentEventsService } from "./payment-events.service";
+import { PayoutService } from "./payout.service";
+import { RefundService } from "./refund.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { QueueService } from "../queue/queue.service";
+import { DonationsService } from "../donations/donations.service";
+import { ReceiptsService } from "../receipts/receipts.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("WebhookEventsService", () => {
+  let service: WebhookEventsService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let donationsService: { create: jest.Mock };
+
+  const captured = (orderId: string) => ({
+    event: "payment.captured",
+    payload: { payment: { entity: { id: `pay_${orderId}`, order_id: orderId } } },
+  });
+
+  const getEvent = async (id: string) =>
+    (await db.collection("webhook_events").doc(id).get()).data() as WebhookEventDoc;
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["webhook_events", "pending_donations", "donations"]);
+
+    await db.collection("pending_donations").doc("pd1").set({
+      orderId: "order_1",
+      userId: "donor1",
+      campaignId: "camp1",
+      amount: "500",
+      status: "PENDING",
+    });
+
+    donationsService = { create: jest.fn().mockResolvedValue({ id: "don1" }) };
+    const firebase = {
+      firestore: db,
+      getById: async (collection: string, id: string) => {
+        const snap = await db.collection(collection).doc(id).get();
+        return snap.exists ? { id: snap.id, ...snap.data() } : null;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookEventsService,
+        PaymentEventsService,
+        { provide: FirebaseService, useValue: firebase },
+        { provide: QueueService, useValue: { consume: jest.fn() } },
+        { provide: DonationsService, useValue: donationsService },
+        { provide: PayoutService, useValue: {} },
+        { provide: RefundService, useValue: {} },
+        { provide: ReceiptsService, useValue: { issueReceipt: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<WebhookEventsService>(WebhookEventsService);
+  });
+
+  it("acknowledges a duplicate delivery without creating the donation again", async () => {
+    const body = captured("order_1");
+
+    await expect(service.ingest("razorpay", "evt_1", body.event, body)).resolves.toEqual({
+      id: "razorpay_evt_1",
+      status: "PROCESSED",
+      duplicate: false,
+    });
+    await expect(service.ingest("razorpay", "evt_1", body.event, body)).resolves.toEqual({
+      id: "razorpay_evt_1",
+      status: "PROCESSED",
+      duplicate: true,
+    });
+
+    expect(donationsService.create).toHaveBeenCalledTimes(1);
+    expect((await db.collection("pending_donations").doc("pd1").get()).data()).toMatchObject({
+      status: "COMPLETED",
+      donationId: "don1",
+    });
+  });
+
+  it("retries a failing event until maxAttempts and then marks it DEAD", async () => {
+    donationsService.create.mockRejectedValue(new Error("campaign closed"));
+    const body = captured("order_1");
+
+    const first = await service.ingest("razorpay", "evt_1", body.event, body);
+    expect(first.status).toBe("FAILED");
+    const failed = await getEvent(first.id);
+    expect(failed).toMatchObject({ attempts: 1, maxAttempts: 8, lastError: "campaign closed" });
+    expect(failed.nextAttemptAt!.toMillis()).toBeGreaterThan(Date.now());
+
+    for (let attempt = 2; attempt < 8; attempt++) {
+      await expect(service.process(first.id)).resolves.toBe("FAILED");
+    }
+    await expect(service.process(first.id)).resolves.toBe("DEAD");
+    expect(await getEvent(first.id)).toMatchObject({ status: "DEAD", attempts: 8, nextAttemptAt: null });
+
+    // A DEAD event is not picked up again
+    await expect(service.process(first.id)).resolves.toBe("DEAD");
+    expect(donationsService.create).toHaveBeenCalledTimes(8);
+  });
+
+  it("grants a replayed event a fresh retry budget", async () => {
+    donationsService.create.mockRejectedValue(new Error("campaign closed"));
+    const body = captured("order_1");
+    const { id } = await service.ingest("razorpay", "evt_1", body.event, body);
+
+    for (let attempt = 2; attempt <= 8; attempt++) {
+      await service.process(id);
+    }
+    expect((await getEvent(id)).status).toBe("DEAD");
+
+    // Still failing: back to FAILED with eight more attempts rather than straight to DEAD
+    await expect(service.replay(id, "admin1")).resolves.toEqual({ id, status: "FAILED" });
+    expect(await getEvent(id)).toMatchObject({ attempts: 9, maxAttempts: 16, replayedBy: "admin1" });
+
+    donationsService.create.mockResolvedValue({ id: "don1" });
+    await expect(service.replay(id, "admin1")).resolves.toEqual({ id, status: "PROCESSED" });
+    // Processed events cannot be replayed
+    await expect(service.replay(id, "admin1")).rejects.toThrow(BadRequestException);
+  });
+
+  it("marks a Cashfree payment for an order without a pending donation as processed", async () => {
+    const body = {
+      type: "PAYMENT_SUCCESS_WEBHOOK",
+      data: { order: { order_id: "cf_order_1" }, payment: { cf_payment_id: 123 } },
+    };
+
+    await expect(service.ingest("cashfree", "cf_evt_1", body.type, body)).resolves.toMatchObject({
+      status: "PROCESSED",
+    });
+    expect(donationsService.create).not.toHaveBeenCalled();
+  });
+});
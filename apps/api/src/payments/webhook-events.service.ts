@@ -0,0 +1,239 @@
+import { Injectable, NotFoundException, BadRequestException, OnModuleInit } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import { JOB_QUEUES, WebhookEventDoc, WebhookEventStatus } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+import { QueueService } from "../queue/queue.service";
+import { PaymentEventsService } from "./payment-events.service";
+
+type WebhookProvider = WebhookEventDoc["provider"];
+
+const MAX_ATTEMPTS = 8;
+const BASE_RETRY_DELAY_MS = 30_000; // Doubled per attempt, capped at MAX_RETRY_DELAY_MS
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+const RETRY_BATCH_SIZE = 20;
+
+/**
+ * Webhook Events Service
+ * Persists every verified provider webhook in webhook_events and processes it
+ * at most once; failed events are retried with backoff and can be replayed by
+ * admins.
+ *
+ * The retry sweep runs as a webhook_retry job: the worker scheduler enqueues
+ * one per slot and whichever API replica claims it runs retryDue.
+ */
+@Injectable()
+export class WebhookEventsService implements OnModuleInit {
+  constructor(
+    private firebase: FirebaseService,
+    private queueService: QueueService,
+    private paymentEventsService: PaymentEventsService
+  ) {}
+
+  onModuleInit() {
+    this.queueService.consume(JOB_QUEUES.WEBHOOK_RETRY, async () => {
+      await this.retryDue();
+    });
+  }
+
+  /**
+   * Event id from the provider header, falling back to a hash of the body
+   */
+  static eventId(headerValue: string | undefined, rawBody: string): string {
+    if (headerValue) return headerValue;
+    return `sha256_${crypto.createHash("sha256").update(rawBody).digest("hex").slice(0, 40)}`;
+  }
+
+  /**
+   * Store a verified webhook and process it. Duplicate deliveries of an
+   * already stored event are acknowledged without being processed again.
+   */
+  async ingest(
+    provider: WebhookProvider,
+    eventId: string,
+    eventType: string,
+    payload: Record<string, any>
+  ): Promise<{ id: string; status: WebhookEventStatus; duplicate: boolean }> {
+    const db = this.firebase.firestore;
+    const id = `${provider}_${eventId}`;
+    const ref = db.collection("webhook_events").doc(id);
+
+    const existing = await db.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      if (snap.exists) {
+        return snap.data() as WebhookEventDoc;
+      }
+      const now = admin.firestore.FieldValue.serverTimestamp();
+      t.create(ref, {
+        provider,
+        eventId,
+        eventType,
+        payload,
+        status: "RECEIVED",
+        attempts: 0,
+        maxAttempts: MAX_ATTEMPTS,
+        lastError: null,
+        nextAttemptAt: null,
+        lockedUntil: null,
+        processedAt: null,
+        receivedAt: now,
+        updatedAt: now,
+      });
+      return null;
+    });
+
+    if (existing) {
+      return { id, status: existing.status, duplicate: true };
+    }
+
+    const status = await this.process(id);
+    return { id, status, duplicate: false };
+  }
+
+  /**
+   * Claim and run one event. Returns the resulting status; an event held by
+   * another instance or already settled is left untouched.
+   */
+  async process(id: string): Promise<WebhookEventStatus> {
+    const db = this.firebase.firestore;
+    const ref = db.collection("webhook_events").doc(id);
+
+    const claimed = await db.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      if (!snap.exists) {
+        throw new NotFoundException("Webhook event not found");
+      }
+      const event = snap.data() as WebhookEventDoc;
+      if (event.status === "PROCESSED" || event.status === "DEAD") {
+        return { event, claimed: false };
+      }
+      if (event.status === "PROCESSING" && (event.lockedUntil?.toMillis() ?? 0) > Date.now()) {
+        return { event, claimed: false };
+      }
+
+      t.update(ref, {
+        status: "PROCESSING",
+        attempts: event.attempts + 1,
+        lockedUntil: admin.firestore.Timestamp.fromMillis(Date.now() + PROCESSING_LEASE_MS),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { event: { ...event, attempts: event.attempts + 1 }, claimed: true };
+    });
+
+    if (!claimed.claimed) {
+      return claimed.event.status;
+    }
+
+    const { event } = claimed;
+    try {
+      if (event.provider === "razorpay") {
+        await this.paymentEventsService.handleRazorpayEvent(event.eventType, event.payload);
+      } else {
+        await this.paymentEventsService.handleCashfreeEvent(event.eventType, event.payload);
+      }
+    } catch (error: any) {
+      const message = error?.message || String(error);
+      const dead = event.attempts >= event.maxAttempts;
+      const delayMs = Math.min(BASE_RETRY_DELAY_MS * 2 ** (event.attempts - 1), MAX_RETRY_DELAY_MS);
+      console.error(`[Webhooks] ${id} (${event.eventType}) failed on attempt ${event.attempts}:`, message);
+
+      await ref.update({
+        status: dead ? "DEAD" : "FAILED",
+        lastError: message,
+        nextAttemptAt: dead ? null : admin.firestore.Timestamp.fromMillis(Date.now() + delayMs),
+        lockedUntil: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return dead ? "DEAD" : "FAILED";
+    }
+
+    await ref.update({
+      status: "PROCESSED",
+      lastError: null,
+      nextAttemptAt: null,
+      lockedUntil: null,
+      processedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return "PROCESSED";
+  }
+
+  /**
+   * Retry FAILED events whose backoff has elapsed, events whose processing
+   * lease expired (instance died mid-handler) and events still RECEIVED a
+   * lease after arrival (instance died before claiming them)
+   */
+  async retryDue(): Promise<number> {
+    const db = this.firebase.firestore;
+    const now = admin.firestore.Timestamp.now();
+    const receivedBefore = admin.firestore.Timestamp.fromMillis(now.toMillis() - PROCESSING_LEASE_MS);
+
+    const [failed, stale, unclaimed] = await Promise.all([
+      db.collection("webhook_events")
+        .where("status", "==", "FAILED")
+        .where("nextAttemptAt", "<=", now)
+        .limit(RETRY_BATCH_SIZE)
+        .get(),
+      db.collection("webhook_events")
+        .where("status", "==", "PROCESSING")
+        .where("lockedUntil", "<=", now)
+        .limit(RETRY_BATCH_SIZE)
+        .get(),
+      db.collection("webhook_events")
+        .where("status", "==", "RECEIVED")
+        .where("receivedAt", "<=", receivedBefore)
+        .limit(RETRY_BATCH_SIZE)
+        .get(),
+    ]);
+
+    let retried = 0;
+    for (const doc of [...failed.docs, ...stale.docs, ...unclaimed.docs]) {
+      await this.process(doc.id);
+      retried++;
+    }
+    return retried;
+  }
+
+  async list(
+    status?: WebhookEventStatus,
+    provider?: WebhookProvider,
+    limit = 50
+  ): Promise<Array<WebhookEventDoc & { id: string }>> {
+    let query: admin.firestore.Query = this.firebase.firestore.collection("webhook_events");
+    if (status) query = query.where("status", "==", status);
+    if (provider) query = query.where("provider", "==", provider);
+
+    const snapshot = await query.orderBy("receivedAt", "desc").limit(Math.min(limit, 200)).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as WebhookEventDoc) }));
+  }
+
+  /**
+   * Re-run a FAILED or DEAD event now. Processed events cannot be replayed.
+   */
+  async replay(id: string, adminId: string): Promise<{ id: string; status: WebhookEventStatus }> {
+    const db = this.firebase.firestore;
+    const ref = db.collection("webhook_events").doc(id);
+
+    await db.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      if (!snap.exists) {
+        throw new NotFoundException("Webhook event not found");
+      }
+      const event = snap.data() as WebhookEventDoc;
+      if (event.status !== "FAILED" && event.status !== "DEAD") {
+        throw new BadRequestException(`Only failed events can be replayed. Current status: ${event.status}`);
+      }
+      t.update(ref, {
+        status: "FAILED",
+        // A replay grants a fresh retry budget
+        maxAttempts: event.attempts + MAX_ATTEMPTS,
+        nextAttemptAt: null,
+        replayedBy: adminId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return { id, status: await this.process(id) };
+  }
+}
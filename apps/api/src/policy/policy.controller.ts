@@ -0,0 +1,40 @@
+import { Controller, Get, Put, Delete, Param, Body, Request, UseGuards } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { PolicyService } from "./policy.service";
+
+@Controller("policy")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PolicyController {
+  constructor(private policyService: PolicyService) {}
+
+  @Get("profiles")
+  @Roles("ADMIN")
+  async listProfiles() {
+    return this.policyService.listProfiles();
+  }
+
+  @Put("profiles/:profileId")
+  @Roles("ADMIN")
+  async upsertProfile(
+    @Param("profileId") profileId: string,
+    @Request() req,
+    @Body() body: { thresholds: Record<string, number> }
+  ) {
+    return this.policyService.upsertProfile(profileId, body.thresholds || {}, req.user.id);
+  }
+
+  @Delete("profiles/:profileId")
+  @Roles("ADMIN")
+  async deleteProfile(@Param("profileId") profileId: string) {
+    await this.policyService.deleteProfile(profileId);
+    return { success: true };
+  }
+
+  @Get("evaluations/:withdrawalId")
+  @Roles("ADMIN", "REVIEWER")
+  async getEvaluation(@Param("withdrawalId") withdrawalId: string) {
+    return this.policyService.getEvaluation(withdrawalId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from "@nestjs/common";
+import { PolicyService } from "./policy.service";
+import { PolicyController } from "./policy.controller";
+
+/**
+ * PolicyModule - Withdrawal policy profiles and evaluations
+ */
+@Module({
+  controllers: [PolicyController],
+  providers: [PolicyService],
+  exports: [PolicyService],
+})
+export class PolicyModule {}
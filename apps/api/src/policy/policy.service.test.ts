@@ -0,0 +1,156 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import * as admin from "firebase-admin";
+import { DEFAULT_POLICY_THRESHOLDS } from "@opencause/policy";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+import { PolicyService, WithdrawalPolicyInput } from "./policy.service";
+
+describe("PolicyService", () => {
+  let service: PolicyService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const daysAgo = (days: number) => admin.firestore.Timestamp.fromMillis(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const request = (fields: Partial<WithdrawalPolicyInput> = {}) =>
+    service.evaluateWithdrawal({
+      campaignId: "camp1",
+      organizerId: "organizer1",
+      currency: "INR",
+      amount: "10000",
+      ...fields,
+    });
+
+  const seedProfile = (profileId: string, thresholds: Record<string, number>) =>
+    db.collection("policy_profiles").doc(profileId).set({ thresholds });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "campaigns",
+      "milestones",
+      "policy_profiles",
+      "withdrawals",
+      "withdrawals_private",
+    ]);
+
+    await db.collection("campaigns").doc("camp1").set({
+      organizerId: "organizer1",
+      status: "ACTIVE",
+      goalInr: "10000000", // ₹1,00,000 in paise
+      raisedInr: "10000000",
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PolicyService],
+    }).compile();
+    service = module.get<PolicyService>(PolicyService);
+  });
+
+  describe("profile resolution", () => {
+    it("layers the default, organizer and campaign profiles in that order", async () => {
+      await seedProfile("default", { withdrawalCountLimit: 5, warningScore: 40, pauseScore: 90 });
+      await seedProfile("organizer_organizer1", { withdrawalCountLimit: 3, warningScore: 45 });
+      await seedProfile("campaign_camp1", { withdrawalCountLimit: 1 });
+      // Profiles of other organizers and campaigns do not apply
+      await seedProfile("organizer_organizer2", { pauseScore: 10 });
+      await seedProfile("campaign_camp2", { warningScore: 10 });
+
+      const evaluation = await request();
+
+      expect(evaluation.profileIds).toEqual(["default", "organizer_organizer1", "campaign_camp1"]);
+      expect(evaluation.thresholds).toMatchObject({
+        withdrawalCountLimit: 1,
+        warningScore: 45,
+        pauseScore: 90,
+        coolingOffHours: DEFAULT_POLICY_THRESHOLDS.coolingOffHours,
+      });
+    });
+
+    it("falls back to the organizer and then the built-in defaults", async () => {
+      await seedProfile("organizer_organizer1", { withdrawalCountLimit: 3 });
+
+      const evaluation = await request();
+
+      expect(evaluation.profileIds).toEqual(["organizer_organizer1"]);
+      expect(evaluation.thresholds).toEqual({ ...DEFAULT_POLICY_THRESHOLDS, withdrawalCountLimit: 3 });
+
+      await db.collection("policy_profiles").doc("organizer_organizer1").delete();
+      expect((await request()).thresholds).toEqual(DEFAULT_POLICY_THRESHOLDS);
+    });
+  });
+
+  describe("previous withdrawals", () => {
+    beforeEach(async () => {
+      await db.collection("milestones").doc("m1").set({
+        campaignId: "camp1",
+        title: "Supplies",
+        targetAmountInr: "50000",
+        status: "ACTIVE",
+      });
+
+      // POST /withdrawals record and its legacy mirror, which must count once
+      await db.collection("withdrawals_private").doc("wd1").set({
+        campaignId: "camp1",
+        method: "INR",
+        amountInrPaise: "1000000",
+        milestoneId: "m1",
+        invoice: { vendorName: "Acme" },
+        status: "APPROVED",
+        createdAt: daysAgo(3),
+      });
+      await db.collection("withdrawals").doc("mirror_wd1").set({
+        id: "wd1",
+        campaignId: "camp1",
+        currency: "INR",
+        amount: "10000",
+        milestoneId: "m1",
+        vendorName: "Acme",
+        status: "APPROVED",
+        createdAt: daysAgo(3),
+      });
+
+      // Legacy-only withdrawals (POST /withdrawals/crypto and older INR ones)
+      await db.collection("withdrawals").doc("wd2").set({
+        campaignId: "camp1",
+        currency: "INR",
+        amount: "35000",
+        milestoneId: "m1",
+        vendorName: "Other Traders",
+        status: "PAID",
+        createdAt: daysAgo(2),
+      });
+      await db.collection("withdrawals").doc("wd3").set({
+        campaignId: "camp1",
+        currency: "USDC",
+        amount: "50",
+        status: "PENDING",
+        createdAt: daysAgo(1),
+      });
+      await db.collection("withdrawals_private").doc("wd4").set({
+        campaignId: "camp1",
+        method: "INR",
+        amountInrPaise: "9900000",
+        invoice: { vendorName: "Acme" },
+        status: "REJECTED",
+        createdAt: daysAgo(1),
+      });
+    });
+
+    it("counts withdrawals_private and legacy withdrawals, once each and without rejected ones", async () => {
+      const evaluation = await request({ vendorName: "ACME " });
+
+      expect(evaluation.context.withdrawalCount).toBe(3);
+      // Acme: ₹10,000 earlier + ₹10,000 now, of ₹55,000 in INR withdrawals
+      expect(evaluation.context.vendorConcentration).toBe(36);
+    });
+
+    it("adds both collections' releases against the milestone cap", async () => {
+      const over = await request({ milestoneId: "m1", amount: "10000" });
+      expect(over.releasePolicy).toMatchObject({ allowed: false });
+      // ₹10,000 from withdrawals_private + ₹35,000 from withdrawals, scaled by 10^6
+      expect(over.releasePolicy!.reason).toContain("Already released: 45000000000");
+
+      const within = await request({ milestoneId: "m1", amount: "5000" });
+      expect(within.releasePolicy).toEqual({ allowed: true });
+    });
+  });
+});
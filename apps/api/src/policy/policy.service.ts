@@ -0,0 +1,378 @@
+import { Injectable, NotFoundException, BadRequestException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import {
+  checkAnomalies,
+  evaluateReleasePolicy,
+  resolvePolicyThresholds,
+  DEFAULT_POLICY_THRESHOLDS,
+  PolicyThresholds,
+} from "@opencause/policy";
+import { MilestoneStatus } from "@opencause/types";
+import { getAsset, fromNative } from "@opencause/crypto-core";
+import {
+  CampaignDoc,
+  CampaignEnhancedDoc,
+  MilestoneDoc,
+  PolicyEvaluationDoc,
+  PolicyProfileDoc,
+  WithdrawalDoc,
+} from "@opencause/firebase";
+
+// Amounts are compared as integers scaled by 10^6 so decimal INR and crypto
+// amounts go through the BigInt-based policy functions unchanged
+const AMOUNT_SCALE = 6;
+
+const INACTIVE_WITHDRAWAL_STATUSES = ["DRAFT", "REJECTED"];
+const RELEASED_WITHDRAWAL_STATUSES = ["APPROVED", "PAID"];
+
+// Fields read from campaigns/{campaignId}; crypto campaign docs use LIVE for ACTIVE
+type PolicyCampaign = Pick<CampaignEnhancedDoc, "goalInr" | "raisedInr" | "raisedCrypto"> & {
+  status: CampaignEnhancedDoc["status"] | CampaignDoc["status"];
+};
+
+// An earlier withdrawal of the campaign, amount as a decimal string
+interface PreviousWithdrawal {
+  status: string;
+  currency: string | null;
+  amount: string;
+  milestoneId: string | null;
+  vendorName: string | null;
+  proofSha256: string | null;
+  createdAtMs: number;
+}
+
+export interface WithdrawalPolicyInput {
+  campaignId: string;
+  organizerId: string;
+  milestoneId?: string | null;
+  currency: string;
+  amount: string; // Decimal string
+  vendorName?: string;
+  proofSha256?: string;
+}
+
+export type WithdrawalPolicyEvaluation = Omit<PolicyEvaluationDoc, "withdrawalId" | "createdAt">;
+
+/**
+ * Policy Service
+ * Resolves policy profiles and evaluates withdrawals against them
+ */
+@Injectable()
+export class PolicyService {
+  /**
+   * List stored policy profiles
+   */
+  async listProfiles(): Promise<Array<PolicyProfileDoc & { id: string }>> {
+    const db = admin.firestore();
+    const snapshot = await db.collection("policy_profiles").get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as PolicyProfileDoc) }));
+  }
+
+  /**
+   * Create or replace a policy profile
+   * profileId: "default" | "organizer_{userId}" | "campaign_{campaignId}"
+   */
+  async upsertProfile(
+    profileId: string,
+    thresholds: Partial<PolicyThresholds>,
+    updatedBy: string
+  ): Promise<PolicyProfileDoc & { id: string }> {
+    const { scope, scopeId } = this.parseProfileId(profileId);
+
+    const unknownKeys = Object.keys(thresholds || {}).filter(
+      (key) => !(key in DEFAULT_POLICY_THRESHOLDS)
+    );
+    if (unknownKeys.length > 0) {
+      throw new BadRequestException(`Unknown policy thresholds: ${unknownKeys.join(", ")}`);
+    }
+    for (const [key, value] of Object.entries(thresholds)) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new BadRequestException(`Threshold ${key} must be a non-negative number`);
+      }
+    }
+
+    const db = admin.firestore();
+    const profile: PolicyProfileDoc = {
+      scope,
+      scopeId,
+      thresholds: thresholds as Record<string, number>,
+      updatedBy,
+    };
+    await db
+      .collection("policy_profiles")
+      .doc(profileId)
+      .set({ ...profile, updatedAt: admin.firestore.FieldValue.serverTimestamp() }, { merge: false });
+
+    return { id: profileId, ...profile };
+  }
+
+  async deleteProfile(profileId: string): Promise<void> {
+    const db = admin.firestore();
+    const ref = db.collection("policy_profiles").doc(profileId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      throw new NotFoundException("Policy profile not found");
+    }
+    await ref.delete();
+  }
+
+  /**
+   * Effective thresholds for a campaign: default < organizer < campaign
+   */
+  async resolveThresholds(
+    campaignId: string,
+    organizerId: string
+  ): Promise<{ thresholds: PolicyThresholds; profileIds: string[] }> {
+    const db = admin.firestore();
+    const candidateIds = ["default", `organizer_${organizerId}`, `campaign_${campaignId}`];
+    const snaps = await db.getAll(
+      ...candidateIds.map((id) => db.collection("policy_profiles").doc(id))
+    );
+
+    const applied = snaps.filter((snap) => snap.exists);
+    const thresholds = resolvePolicyThresholds(
+      ...applied.map((snap) => (snap.data() as PolicyProfileDoc).thresholds as Partial<PolicyThresholds>)
+    );
+
+    return { thresholds, profileIds: applied.map((snap) => snap.id) };
+  }
+
+  /**
+   * Evaluate release policy and anomaly score for a new withdrawal
+   */
+  async evaluateWithdrawal(input: WithdrawalPolicyInput): Promise<WithdrawalPolicyEvaluation> {
+    const db = admin.firestore();
+    const { thresholds, profileIds } = await this.resolveThresholds(
+      input.campaignId,
+      input.organizerId
+    );
+
+    const campaignSnap = await db.collection("campaigns").doc(input.campaignId).get();
+    if (!campaignSnap.exists) {
+      throw new NotFoundException("Campaign not found");
+    }
+    const campaign = campaignSnap.data() as PolicyCampaign;
+
+    const previous = (await this.loadPreviousWithdrawals(input.campaignId)).filter(
+      (wd) => !INACTIVE_WITHDRAWAL_STATUSES.includes(wd.status)
+    );
+
+    // Hours since the most recent withdrawal
+    let timeSinceLastWithdrawal: number | undefined;
+    const lastCreatedAt = Math.max(...previous.map((wd) => wd.createdAtMs), 0);
+    if (lastCreatedAt > 0) {
+      timeSinceLastWithdrawal = (Date.now() - lastCreatedAt) / (60 * 60 * 1000);
+    }
+
+    // Share of this currency's withdrawals going to the requested vendor
+    const requested = toScaled(input.amount);
+    let vendorConcentration: number | undefined;
+    if (input.vendorName) {
+      const vendorKey = normalizeVendor(input.vendorName);
+      let vendorTotal = requested;
+      let total = requested;
+      for (const wd of previous) {
+        if (wd.currency !== input.currency) continue;
+        const amount = toScaled(wd.amount);
+        total += amount;
+        if (wd.vendorName && normalizeVendor(wd.vendorName) === vendorKey) {
+          vendorTotal += amount;
+        }
+      }
+      vendorConcentration = total > 0n ? Number((vendorTotal * 100n) / total) : 0;
+    }
+
+    // raisedInr is stored in paise, raisedCrypto as a decimal string
+    const campaignTotalRaised = (
+      input.currency === "INR"
+        ? BigInt(campaign.raisedInr || "0") * 10n ** BigInt(AMOUNT_SCALE - 2)
+        : toScaled(campaign.raisedCrypto)
+    ).toString();
+
+    // Cap: milestone target for this currency, else the campaign INR goal
+    let milestone: MilestoneDoc | null = null;
+    let cap = 0n;
+    if (input.milestoneId) {
+      const milestoneSnap = await db.collection("milestones").doc(input.milestoneId).get();
+      milestone = milestoneSnap.exists ? (milestoneSnap.data() as MilestoneDoc) : null;
+      const target = input.currency === "INR" ? milestone?.targetAmountInr : milestone?.targetAmountCrypto;
+      if (target) cap = toScaled(target);
+    } else if (input.currency === "INR" && campaign.goalInr) {
+      cap = BigInt(campaign.goalInr) * 10n ** BigInt(AMOUNT_SCALE - 2);
+    }
+
+    const context = {
+      withdrawalAmount: requested.toString(),
+      milestoneCap: cap.toString(),
+      campaignTotalRaised,
+      timeSinceLastWithdrawal,
+      vendorConcentration,
+      withdrawalCount: previous.length,
+    };
+
+    const anomaly = checkAnomalies(context, thresholds);
+
+    let releasePolicy: WithdrawalPolicyEvaluation["releasePolicy"] = null;
+    if (milestone && cap > 0n) {
+      let released = 0n;
+      for (const wd of previous) {
+        if (
+          wd.milestoneId === input.milestoneId &&
+          wd.currency === input.currency &&
+          RELEASED_WITHDRAWAL_STATUSES.includes(wd.status)
+        ) {
+          released += toScaled(wd.amount);
+        }
+      }
+
+      const result = evaluateReleasePolicy({
+        milestone: {
+          id: input.milestoneId!,
+          name: milestone.title,
+          capAmount: cap.toString(),
+          releasedAmount: released.toString(),
+          proofTypes: [],
+          coolingOffHours: thresholds.coolingOffHours,
+          reviewWindowHours: 24,
+          status: toPolicyMilestoneStatus(milestone.status),
+        },
+        campaignStatus: campaign.status === "LIVE" ? "ACTIVE" : campaign.status,
+        totalReleased: released.toString(),
+        requestedAmount: requested.toString(),
+        coolingOffPassed:
+          timeSinceLastWithdrawal === undefined ||
+          timeSinceLastWithdrawal >= thresholds.coolingOffHours,
+        reviewWindowOpen: true,
+        duplicateHashDetected:
+          !!input.proofSha256 && previous.some((wd) => wd.proofSha256 === input.proofSha256),
+        vendorAllowlisted: true,
+      });
+      releasePolicy = result.reason ? { allowed: result.allowed, reason: result.reason } : { allowed: result.allowed };
+    }
+
+    return {
+      campaignId: input.campaignId,
+      profileIds,
+      thresholds: thresholds as unknown as Record<string, number>,
+      context: stripUndefined(context),
+      releasePolicy,
+      anomalyScore: anomaly.score,
+      flags: anomaly.flags,
+      shouldPause: anomaly.shouldPause,
+    };
+  }
+
+  async saveEvaluation(withdrawalId: string, evaluation: WithdrawalPolicyEvaluation): Promise<void> {
+    const db = admin.firestore();
+    const doc: PolicyEvaluationDoc = { withdrawalId, ...evaluation };
+    await db
+      .collection("policy_evaluations")
+      .doc(withdrawalId)
+      .set({ ...doc, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+  }
+
+  async getEvaluation(withdrawalId: string): Promise<PolicyEvaluationDoc> {
+    const db = admin.firestore();
+    const snap = await db.collection("policy_evaluations").doc(withdrawalId).get();
+    if (!snap.exists) {
+      throw new NotFoundException("Policy evaluation not found");
+    }
+    return snap.data() as PolicyEvaluationDoc;
+  }
+
+  /**
+   * Earlier withdrawals of a campaign. POST /withdrawals records live in
+   * withdrawals_private (the legacy `withdrawals` mirror carries the id in an
+   * `id` field and is skipped); POST /withdrawals/crypto only writes
+   * `withdrawals`, with the amount in the asset's base units.
+   */
+  private async loadPreviousWithdrawals(campaignId: string): Promise<PreviousWithdrawal[]> {
+    const db = admin.firestore();
+    const [privateSnap, legacySnap] = await Promise.all([
+      db.collection("withdrawals_private").where("campaignId", "==", campaignId).get(),
+      db.collection("withdrawals").where("campaignId", "==", campaignId).get(),
+    ]);
+
+    const previous: PreviousWithdrawal[] = privateSnap.docs.map((doc) => {
+      const wd = doc.data();
+      const isInr = wd.method === "INR";
+      return {
+        status: wd.status,
+        currency: isInr ? "INR" : wd.assetSymbol || null,
+        amount: isInr ? fromNative(wd.amountInrPaise || "0", 2) : wd.amountCryptoRaw || "0",
+        milestoneId: wd.milestoneId || null,
+        vendorName: wd.invoice?.vendorName || null,
+        proofSha256: null,
+        createdAtMs: wd.createdAt?.toMillis?.() ?? 0,
+      };
+    });
+
+    const mirrored = new Set(privateSnap.docs.map((doc) => doc.id));
+    for (const doc of legacySnap.docs) {
+      const wd = doc.data() as WithdrawalDoc & { id?: string };
+      if (mirrored.has(wd.id || doc.id)) continue;
+      const asset = wd.assetId ? getAsset(wd.assetId) : undefined;
+      previous.push({
+        status: wd.status,
+        currency: wd.currency,
+        amount: asset && wd.amountNative ? fromNative(wd.amountNative, asset.decimals) : wd.amount,
+        milestoneId: wd.milestoneId || null,
+        vendorName: wd.vendorName || null,
+        proofSha256: wd.proofSha256 || null,
+        createdAtMs: wd.createdAt?.toMillis?.() ?? 0,
+      });
+    }
+    return previous;
+  }
+
+  private parseProfileId(profileId: string): Pick<PolicyProfileDoc, "scope" | "scopeId"> {
+    if (profileId === "default") {
+      return { scope: "DEFAULT", scopeId: null };
+    }
+    const match = profileId.match(/^(organizer|campaign)_(.+)$/);
+    if (!match) {
+      throw new BadRequestException(
+        'Profile id must be "default", "organizer_{userId}" or "campaign_{campaignId}"'
+      );
+    }
+    return {
+      scope: match[1] === "organizer" ? "ORGANIZER" : "CAMPAIGN",
+      scopeId: match[2],
+    };
+  }
+}
+
+/**
+ * Decimal string -> integer scaled by 10^AMOUNT_SCALE (extra digits truncated)
+ */
+function toScaled(value: string | number | undefined | null): bigint {
+  const str = String(value ?? "0").trim();
+  const match = str.match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match) return 0n;
+  const whole = match[1] || "0";
+  const fraction = (match[2] || "").slice(0, AMOUNT_SCALE).padEnd(AMOUNT_SCALE, "0");
+  return BigInt(whole + fraction);
+}
+
+function normalizeVendor(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Map Firestore milestone lifecycle onto the policy package's milestone status
+ */
+function toPolicyMilestoneStatus(status: string): MilestoneStatus {
+  switch (status) {
+    case "WITHDRAWAL_IN_REVIEW":
+      return MilestoneStatus.IN_REVIEW;
+    case "PAID_OUT":
+      return MilestoneStatus.RELEASED;
+    default:
+      return MilestoneStatus.OPEN;
+  }
+}
+
+// Firestore rejects undefined field values
+function stripUndefined<T extends Record<string, any>>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
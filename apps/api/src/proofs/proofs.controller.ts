@@ -8,10 +8,13 @@ import {
   BadRequestException,
   NotFoundException,
   ForbiddenException,
+  StreamableFile,
 } from "@nestjs/common";
 import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
 import { OptionalJwtAuthGuard } from "../auth/guards/optional-jwt.guard";
-import { ProofsService } from "./proofs.service";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { ProofMetadata, ProofsService } from "./proofs.service";
 import Busboy from "busboy";
 import * as admin from "firebase-admin";
 import { getPublicUrl } from "@opencause/r2";
@@ -182,28 +185,7 @@ export class ProofsController {
   async getProofUrl(@Param("proofId") proofId: string, @Req() req: any): Promise<{ url: string }> {
     const proof = await this.proofsService.getProofById(proofId);
     const user = (req as any).user; // Will be undefined if no valid token
-
-    // Check access for private proofs
-    const checkAccess = (p: any) => {
-      if (p.isPublic) {
-        return true; // Public proofs are accessible to everyone
-      }
-
-      // Private proofs require authentication
-      if (!user) {
-        return false;
-      }
-
-      // Admin and reviewers can access any proof
-      if (user.role === "ADMIN" || user.role === "REVIEWER") {
-        return true;
-      }
-
-      // Campaign organizers can access proofs for their campaigns
-      // This would require loading the campaign, but for now we'll allow authenticated users
-      // TODO: Add proper campaign ownership check
-      return true;
-    };
+    const checkAccess = this.proofAccess(user);
 
     const url = await this.proofsService.getProofUrl(proofId, {
       uid: (req as any).user?.id || null,
@@ -215,6 +197,44 @@ export class ProofsController {
     return { url };
   }
 
+  /**
+   * GET /proofs/:proofId/ipfs
+   * Download a proof through its IPFS CID, verified against the proof's sha256
+   * Same access rules as /proofs/:proofId/url
+   */
+  @Get("proofs/:proofId/ipfs")
+  @UseGuards(OptionalJwtAuthGuard)
+  async downloadFromIpfs(@Param("proofId") proofId: string, @Req() req: any): Promise<StreamableFile> {
+    const { proof, content } = await this.proofsService.getProofFromIpfs(proofId, {
+      uid: (req as any).user?.id || null,
+      ip: req.ip || req.headers["x-forwarded-for"] || null,
+      userAgent: req.headers["user-agent"] || null,
+      checkAccess: this.proofAccess((req as any).user),
+    });
+
+    return new StreamableFile(content, {
+      type: proof.mimeType,
+      disposition: `attachment; filename="${proof.objectKey.split("/").pop()}"`,
+    });
+  }
+
+  /**
+   * POST /proofs/:proofId/publish
+   * Make a proof public; it is pinned to IPFS from then on
+   */
+  @Post("proofs/:proofId/publish")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles("ADMIN", "REVIEWER")
+  async publishProof(@Param("proofId") proofId: string): Promise<any> {
+    const proof = await this.proofsService.publishProof(proofId);
+    return {
+      proofId: proof.proofId,
+      isPublic: proof.isPublic,
+      url: getPublicUrl(proof.objectKey) || null,
+      ipfsStatus: proof.ipfsStatus || null,
+    };
+  }
+
   /**
    * GET /withdrawals/:withdrawalId/proofs
    * List all proofs for a withdrawal
@@ -232,6 +252,10 @@ export class ProofsController {
       isPublic: proof.isPublic,
       createdAt: proof.createdAt,
       url: proof.isPublic ? getPublicUrl(proof.objectKey) : null,
+      sha256: proof.sha256,
+      // Private proofs are not pinned; never hand out a CID for one
+      ipfsCid: proof.isPublic ? proof.ipfsCid || null : null,
+      ipfsStatus: proof.isPublic ? proof.ipfsStatus || null : null,
     }));
   }
 
@@ -249,6 +273,37 @@ export class ProofsController {
       size: proof.size,
       createdAt: proof.createdAt,
       url: getPublicUrl(proof.objectKey) || null,
+      sha256: proof.sha256,
+      ipfsCid: proof.ipfsCid || null,
+      ipfsStatus: proof.ipfsStatus || null,
     }));
   }
+
+  /**
+   * Access check for private proofs (public proofs are open to everyone)
+   */
+  private proofAccess(user: any) {
+    return async (p: ProofMetadata) => {
+      if (p.isPublic) {
+        return true; // Public proofs are accessible to everyone
+      }
+
+      // Private proofs require authentication
+      if (!user) {
+        return false;
+      }
+
+      // Admin and reviewers can access any proof
+      if (user.role === "ADMIN" || user.role === "REVIEWER") {
+        return true;
+      }
+
+      // The uploader, and the organizer of the proof's campaign
+      if (p.createdByUid === user.id) {
+        return true;
+      }
+      const campaign = await admin.firestore().collection("campaigns").doc(p.campaignId).get();
+      return campaign.exists && campaign.get("organizerId") === user.id;
+    };
+  }
 }
@@ -2,9 +2,12 @@ import { Module } from "@nestjs/common";
 import { ProofsService } from "./proofs.service";
 import { ProofsController } from "./proofs.controller";
 import { FirebaseModule } from "../firebase/firebase.module";
+import { Web3Module } from "../web3/web3.module";
+import { QueueModule } from "../queue/queue.module";
+import { IpfsModule } from "../ipfs/ipfs.module";
 
 @Module({
-  imports: [FirebaseModule],
+  imports: [FirebaseModule, Web3Module, QueueModule, IpfsModule],
   controllers: [ProofsController],
   providers: [ProofsService],
   exports: [ProofsService],
@@ -0,0 +1,145 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { ProofsService } from "./proofs.service";
+import { Web3Service } from "../web3/web3.service";
+import { QueueService } from "../queue/queue.service";
+import { IpfsService } from "../ipfs/ipfs.service";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startKubo,
+  startFakeR2,
+  KuboNode,
+  FakeR2,
+} from "@opencause/testkit";
+
+describe("ProofsService IPFS download", () => {
+  let kubo: KuboNode;
+  let r2: FakeR2;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let service: ProofsService;
+  let queue: { addProofPinJob: jest.Mock };
+  const env = { ...process.env };
+
+  const file = Buffer.from("%PDF-1.4 invoice 42");
+  const sha256 = createHash("sha256").update(file).digest("hex");
+
+  const seedProof = async (fields: Record<string, any>) => {
+    await db.collection("withdrawal_proofs").doc("proof1").set({
+      campaignId: "camp1",
+      withdrawalId: "wd1",
+      objectKey: `proofs/camp1/wd1/${sha256}.pdf`,
+      sha256,
+      mimeType: "application/pdf",
+      size: file.length,
+      isPublic: true,
+      createdAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.Timestamp.now(),
+      ...fields,
+    });
+  };
+
+  beforeAll(async () => {
+    kubo = await startKubo({ apiPort: 5101 });
+    r2 = await startFakeR2();
+    process.env.IPFS_API_URL = kubo.apiUrl;
+    process.env.R2_ENDPOINT = r2.url;
+    process.env.R2_ACCOUNT_ID = "test";
+    process.env.R2_ACCESS_KEY_ID = "test";
+    process.env.R2_SECRET_ACCESS_KEY = "test";
+  });
+
+  afterAll(async () => {
+    process.env = env;
+    await kubo?.stop();
+    await r2?.close();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["withdrawal_proofs", "proof_access_logs"]);
+    queue = { addProofPinJob: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProofsService,
+        IpfsService,
+        { provide: Web3Service, useValue: { anchorEvidence: jest.fn() } },
+        { provide: QueueService, useValue: queue },
+      ],
+    }).compile();
+
+    service = module.get<ProofsService>(ProofsService);
+  });
+
+  it("serves the pinned file once it hashes back to the proof's sha256", async () => {
+    await seedProof({ ipfsCid: await kubo.add(file), ipfsStatus: "PINNED" });
+
+    const { content } = await service.getProofFromIpfs("proof1");
+
+    expect(content.equals(file)).toBe(true);
+    expect(queue.addProofPinJob).not.toHaveBeenCalled();
+  });
+
+  it("refuses content that does not match and queues one re-pin", async () => {
+    await seedProof({ ipfsCid: await kubo.add("tampered"), ipfsStatus: "PINNED" });
+
+    await expect(service.getProofFromIpfs("proof1")).rejects.toThrow("queued for re-pinning");
+    await expect(service.getProofFromIpfs("proof1")).rejects.toThrow("queued for re-pinning");
+
+    expect(queue.addProofPinJob).toHaveBeenCalledTimes(1);
+    expect(queue.addProofPinJob).toHaveBeenCalledWith("proof1", 1);
+    const proof = (await db.collection("withdrawal_proofs").doc("proof1").get()).data()!;
+    expect(proof).toMatchObject({ ipfsStatus: "PENDING", ipfsPinAttempts: 1 });
+    expect(proof.ipfsError).toContain("expected");
+  });
+
+  it("re-pins proofs whose pin job gave up", async () => {
+    await seedProof({ ipfsCid: null, ipfsStatus: "FAILED", ipfsError: "IPFS add failed: 500" });
+
+    await expect(service.getProofFromIpfs("proof1")).rejects.toThrow("queued for re-pinning");
+
+    expect(queue.addProofPinJob).toHaveBeenCalledWith("proof1", 1);
+  });
+
+  it("keeps uploaded proofs off IPFS until they are published", async () => {
+    const { proofId } = await service.uploadProof({
+      campaignId: "camp1",
+      withdrawalId: "wd2",
+      buffer: file,
+      mimeType: "application/pdf",
+      filename: "invoice.pdf",
+    });
+
+    expect(queue.addProofPinJob).not.toHaveBeenCalled();
+    expect(await service.getProofById(proofId)).toMatchObject({ isPublic: false, ipfsCid: null, ipfsStatus: null });
+    await expect(service.getProofFromIpfs(proofId)).rejects.toThrow("is private");
+
+    await service.publishProof(proofId);
+
+    expect(queue.addProofPinJob).toHaveBeenCalledWith(proofId, 0);
+    expect(await service.getProofById(proofId)).toMatchObject({ isPublic: true, ipfsStatus: "PENDING" });
+  });
+
+  it("marks a proof FAILED when its pin cannot be queued, so the next download queues it", async () => {
+    await seedProof({ isPublic: false, ipfsCid: null, ipfsStatus: null });
+    queue.addProofPinJob.mockRejectedValueOnce(new Error("deadline exceeded"));
+
+    await service.publishProof("proof1");
+
+    expect(await service.getProofById("proof1")).toMatchObject({
+      ipfsStatus: "FAILED",
+      ipfsError: "Failed to queue pin: deadline exceeded",
+    });
+    await expect(service.getProofFromIpfs("proof1")).rejects.toThrow("queued for re-pinning");
+    expect(queue.addProofPinJob).toHaveBeenLastCalledWith("proof1", 1);
+  });
+
+  it("reports proofs that are not pinned yet", async () => {
+    await seedProof({ ipfsCid: null, ipfsStatus: "PENDING" });
+
+    await expect(service.getProofFromIpfs("proof1")).rejects.toThrow("not pinned to IPFS yet");
+    expect(queue.addProofPinJob).not.toHaveBeenCalled();
+  });
+});
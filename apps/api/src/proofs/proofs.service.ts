@@ -1,4 +1,4 @@
-import { Injectable, NotFoundException, ForbiddenException } from "@nestjs/common";
+import { Injectable, NotFoundException, ForbiddenException, ServiceUnavailableException } from "@nestjs/common";
 import * as admin from "firebase-admin";
 import { createHash } from "crypto";
 import {
@@ -8,6 +8,10 @@ import {
   getSignedGetUrl,
   getPublicUrl,
 } from "@opencause/r2";
+import { EvidenceKind } from "@opencause/types";
+import { Web3Service } from "../web3/web3.service";
+import { QueueService } from "../queue/queue.service";
+import { IpfsService } from "../ipfs/ipfs.service";
 
 export interface ProofMetadata {
   proofId: string;
@@ -19,6 +23,12 @@ export interface ProofMetadata {
   size: number;
   isPublic: boolean;
   createdByUid?: string;
+  // IPFS copy, pinned by the worker's IPFS pin job once the proof is public
+  ipfsCid?: string | null;
+  ipfsStatus?: "PENDING" | "PINNED" | "FAILED" | null; // null while private
+  ipfsError?: string | null;
+  ipfsPinAttempts?: number; // Re-pins queued after failed verifications
+  ipfsPinnedAt?: admin.firestore.Timestamp | null;
   createdAt: admin.firestore.Timestamp;
   updatedAt: admin.firestore.Timestamp;
 }
@@ -33,6 +43,12 @@ export interface ProofAccessLog {
 
 @Injectable()
 export class ProofsService {
+  constructor(
+    private web3Service: Web3Service,
+    private queueService: QueueService,
+    private ipfsService: IpfsService
+  ) {}
+
   /**
    * Get Firestore instance lazily (after Firebase is initialized)
    */
@@ -99,12 +115,25 @@ export class ProofsService {
       size: buffer.length,
       isPublic: false, // Default to private
       createdByUid,
+      // Pinned once published; IPFS content is readable by anyone with the CID
+      ipfsCid: null,
+      ipfsStatus: null,
       createdAt: now,
       updatedAt: now,
     };
 
     await this.db.collection("withdrawal_proofs").doc(proofId).set(proofData);
 
+    // Anchor the file hash in the campaign's next MILESTONE_PROOF batch
+    try {
+      await this.web3Service.anchorEvidence(
+        { kind: EvidenceKind.MILESTONE_PROOF, campaignId, evidenceHash: `0x${sha256}` },
+        { type: "proof", id: proofId }
+      );
+    } catch (error) {
+      console.error("Failed to anchor evidence:", error);
+    }
+
     return {
       proofId,
       objectKey,
@@ -113,6 +142,26 @@ export class ProofsService {
     };
   }
 
+  /**
+   * Make a proof public and queue its IPFS pin
+   */
+  async publishProof(proofId: string): Promise<ProofMetadata> {
+    const proof = await this.getProofById(proofId);
+    if (proof.isPublic) {
+      return proof;
+    }
+
+    await this.db.collection("withdrawal_proofs").doc(proofId).update({
+      isPublic: true,
+      ipfsStatus: "PENDING",
+      ipfsError: null,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    await this.queuePin(proofId, 0);
+
+    return this.getProofById(proofId);
+  }
+
   /**
    * Find existing proof by withdrawalId and sha256
    */
@@ -164,7 +213,7 @@ export class ProofsService {
       uid?: string | null;
       ip?: string | null;
       userAgent?: string | null;
-      checkAccess?: (proof: ProofMetadata) => boolean;
+      checkAccess?: (proof: ProofMetadata) => boolean | Promise<boolean>;
     } = {}
   ): Promise<string> {
     const { uid, ip, userAgent, checkAccess } = options;
@@ -172,7 +221,7 @@ export class ProofsService {
     const proof = await this.getProofById(proofId);
 
     // Check access if provided
-    if (checkAccess && !checkAccess(proof)) {
+    if (checkAccess && !(await checkAccess(proof))) {
       throw new ForbiddenException("Access denied to this proof");
     }
 
@@ -191,6 +240,90 @@ export class ProofsService {
     return await getSignedGetUrl(proof.objectKey, 300);
   }
 
+  /**
+   * Download a proof through its IPFS CID
+   * Content that does not hash back to the proof's sha256 is never served;
+   * the proof is queued for re-pinning from R2 instead
+   */
+  async getProofFromIpfs(
+    proofId: string,
+    options: {
+      uid?: string | null;
+      ip?: string | null;
+      userAgent?: string | null;
+      checkAccess?: (proof: ProofMetadata) => boolean | Promise<boolean>;
+    } = {}
+  ): Promise<{ proof: ProofMetadata; content: Buffer }> {
+    const { uid, ip, userAgent, checkAccess } = options;
+
+    const proof = await this.getProofById(proofId);
+
+    if (checkAccess && !(await checkAccess(proof))) {
+      throw new ForbiddenException("Access denied to this proof");
+    }
+    if (!proof.isPublic) {
+      throw new NotFoundException(`Proof ${proofId} is private; it is pinned to IPFS once published`);
+    }
+    if (!proof.ipfsCid && proof.ipfsStatus !== "FAILED") {
+      throw new NotFoundException(`Proof ${proofId} is not pinned to IPFS yet`);
+    }
+
+    await this.logProofAccess({ proofId, uid: uid || null, ip: ip || null, userAgent: userAgent || null });
+
+    const result = proof.ipfsCid
+      ? await this.ipfsService.fetchVerified(proof.ipfsCid, proof.sha256)
+      : { verified: false as const, reason: proof.ipfsError || "Pinning failed" };
+    if (result.verified === false) {
+      await this.requeuePin(proofId, result.reason);
+      throw new ServiceUnavailableException("IPFS copy of this proof is unavailable; it has been queued for re-pinning");
+    }
+
+    return { proof, content: result.content };
+  }
+
+  /**
+   * Queue a re-pin unless one is already pending
+   */
+  private async requeuePin(proofId: string, reason: string): Promise<void> {
+    const ref = this.db.collection("withdrawal_proofs").doc(proofId);
+    const attempt = await this.db.runTransaction(async (t) => {
+      const proof = (await t.get(ref)).data() as ProofMetadata;
+      if (proof.ipfsStatus === "PENDING") return null;
+
+      const attempt = (proof.ipfsPinAttempts || 0) + 1;
+      t.update(ref, {
+        ipfsStatus: "PENDING",
+        ipfsError: reason,
+        ipfsPinAttempts: attempt,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+      return attempt;
+    });
+
+    if (attempt) {
+      console.warn(`[Proofs] Re-pinning proof ${proofId}: ${reason}`);
+      await this.queuePin(proofId, attempt);
+    }
+  }
+
+  /**
+   * Queue a pin job for a proof marked PENDING. If it cannot be queued the
+   * proof is marked FAILED, so the next download queues it again instead of
+   * waiting on a job that does not exist.
+   */
+  private async queuePin(proofId: string, attempt: number): Promise<void> {
+    try {
+      await this.queueService.addProofPinJob(proofId, attempt);
+    } catch (error: any) {
+      console.error(`[Proofs] Failed to queue IPFS pin of proof ${proofId}:`, error);
+      await this.db.collection("withdrawal_proofs").doc(proofId).update({
+        ipfsStatus: "FAILED",
+        ipfsError: `Failed to queue pin: ${error.message}`,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+  }
+
   /**
    * Log proof access for audit
    */
@@ -0,0 +1,24 @@
+import { Controller, Get, Post, Param, Query, UseGuards } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { QueueService } from "./queue.service";
+
+@Controller("admin/jobs")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class QueueController {
+  constructor(private queueService: QueueService) {}
+
+  @Get("dead")
+  @Roles("ADMIN")
+  async listDead(@Query("queue") queue?: string) {
+    return this.queueService.listDeadJobs(queue);
+  }
+
+  @Post(":id/retry")
+  @Roles("ADMIN")
+  async retry(@Param("id") id: string) {
+    await this.queueService.retryDeadJob(id);
+    return { success: true };
+  }
+}
@@ -1,14 +1,13 @@
 import { Module } from "@nestjs/common";
 import { QueueService } from "./queue.service";
+import { QueueController } from "./queue.controller";
 
 /**
- * QueueModule - Stub module (Redis/BullMQ removed)
- * QueueService is now a no-op service
+ * QueueModule - Firestore-backed durable job queue
  */
 @Module({
+  controllers: [QueueController],
   providers: [QueueService],
   exports: [QueueService],
 })
 export class QueueModule {}
-
-
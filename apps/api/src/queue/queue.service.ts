@@ -1,11 +1,45 @@
-import { Injectable } from "@nestjs/common";
+import { Injectable, OnModuleDestroy } from "@nestjs/common";
+import { hostname } from "os";
+import { FirestoreJobQueue, JOB_QUEUES, AddJobOptions, Job } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+
+const API_JOB_LEASE_MS = 5 * 60 * 1000;
+
+type ApiJobProcessor = (job: Job) => Promise<void>;
 
 /**
- * QueueService - No-op stub (Redis/BullMQ removed)
- * Jobs are processed synchronously or skipped
+ * QueueService - Enqueues jobs on the Firestore-backed job queue
+ * Jobs are claimed and processed by the worker (apps/worker), except the
+ * few queues whose handlers live in the API (see consume)
  */
 @Injectable()
-export class QueueService {
+export class QueueService implements OnModuleDestroy {
+  private jobQueue: FirestoreJobQueue | null = null;
+  private consumers: Map<string, ApiJobProcessor> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly workerId = `api-${hostname()}-${process.pid}`;
+
+  constructor(private firebase: FirebaseService) {}
+
+  onModuleDestroy() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private queue(): FirestoreJobQueue {
+    // Firestore is only available after FirebaseService.onModuleInit
+    if (!this.jobQueue) {
+      this.jobQueue = new FirestoreJobQueue(this.firebase.firestore);
+    }
+    return this.jobQueue;
+  }
+
+  async add(queue: string, name: string, data: Record<string, any>, opts?: AddJobOptions) {
+    return this.queue().add(queue, name, data, opts);
+  }
+
   async addNotificationJob(data: {
     userId: string;
     type: string;
@@ -13,16 +47,107 @@ export class QueueService {
     message: string;
     link?: string;
   }) {
-    // No-op: Redis/BullMQ removed
-    console.log("Notification job (no-op):", data.title);
-    return null;
+    return this.add(JOB_QUEUES.NOTIFICATIONS, data.type, data);
   }
 
-  async addIPFSPinJob(data: { data: string; evidenceHash: string }) {
-    // No-op: Redis/BullMQ removed
-    console.log("IPFS pin job (no-op) for evidence:", data.evidenceHash);
-    return null;
+  async addIPFSPinJob(data: { evidenceHash: string; objectKey: string }) {
+    // One pending pin job per evidence hash; a finished or dead one may be
+    // replaced to pin the hash again
+    return this.add(JOB_QUEUES.IPFS_PIN, "pin_evidence", data, {
+      jobId: `ipfs_pin_${data.evidenceHash}`,
+      replaceSettled: true,
+    });
+  }
+
+  async addProofPinJob(proofId: string, attempt = 0) {
+    // Re-pins after a failed verification get their own job
+    return this.add(JOB_QUEUES.IPFS_PIN, "pin_proof", { proofId }, {
+      jobId: attempt ? `ipfs_pin_proof_${proofId}_${attempt}` : `ipfs_pin_proof_${proofId}`,
+    });
+  }
+
+  async addWithdrawalExecutorJob(withdrawalId: string) {
+    return this.add(JOB_QUEUES.WITHDRAWAL_EXECUTOR, "execute", { withdrawalId }, {
+      jobId: `withdrawal_executor_${withdrawalId}`,
+      attempts: 3,
+    });
   }
-}
 
+  async addDonationRefundJob(refundId: string, claimed = false) {
+    // One return transfer per refund (and one more once a claim is submitted);
+    // a retry replaces the settled job
+    return this.add(JOB_QUEUES.DONATION_REFUND, "return_transfer", { refundId }, {
+      jobId: `donation_refund_${refundId}${claimed ? "_claim" : ""}`,
+      attempts: 3,
+      replaceSettled: true,
+    });
+  }
 
+  async addDepositReturnJob(depositId: string) {
+    // A return that failed may be marked again, which replaces the dead job
+    return this.add(JOB_QUEUES.DEPOSIT_RETURN, "return_transfer", { depositId }, {
+      jobId: `deposit_return_${depositId}`,
+      attempts: 5,
+      replaceSettled: true,
+    });
+  }
+
+  async addVaultDeploymentJob(campaignId: string) {
+    // Deploying again resumes unfinished vaults, so a settled job is replaced
+    return this.add(JOB_QUEUES.VAULT_DEPLOYMENT, "deploy", { campaignId }, {
+      jobId: `vault_deployment_${campaignId}`,
+      attempts: 5,
+      replaceSettled: true,
+    });
+  }
+
+  async addStatsRefresherJob(campaignId: string) {
+    return this.add(JOB_QUEUES.STATS_REFRESHER, "refresh", { campaignId });
+  }
+
+  /**
+   * Process a queue in the API rather than the worker. Every replica polls
+   * (API_QUEUE_POLL_MS, 0 disables); the claim lease makes sure each job runs
+   * on one of them.
+   */
+  consume(queue: string, processor: ApiJobProcessor) {
+    this.consumers.set(queue, processor);
+    const pollMs = parseInt(process.env.API_QUEUE_POLL_MS || "15000", 10);
+    if (this.pollTimer || pollMs <= 0) return;
+
+    let polling = false;
+    this.pollTimer = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      this.drain()
+        .catch((error) => console.error("[Queue] Poll failed:", error))
+        .finally(() => {
+          polling = false;
+        });
+    }, pollMs);
+    this.pollTimer.unref();
+  }
+
+  private async drain() {
+    for (const [queue, processor] of this.consumers) {
+      let job: Job | null;
+      while ((job = await this.queue().claim(queue, this.workerId, API_JOB_LEASE_MS))) {
+        try {
+          await processor(job);
+          await this.queue().complete(job, this.workerId);
+        } catch (error) {
+          const status = await this.queue().fail(job, this.workerId, error);
+          console.warn(`[Queue] ${queue}:${job.id} failed (attempt ${job.attemptsMade}/${job.maxAttempts}) -> ${status}`);
+        }
+      }
+    }
+  }
+
+  async retryDeadJob(jobId: string) {
+    return this.queue().retryDead(jobId);
+  }
+
+  async listDeadJobs(queue?: string) {
+    return this.queue().listByStatus("DEAD", queue);
+  }
+}
@@ -0,0 +1,116 @@
+import PDFDocument from "pdfkit";
+import { DonationReceiptDoc } from "@opencause/firebase";
+
+/**
+ * Render an 80G donation receipt as a single-page A4 PDF
+ */
+export function renderReceiptPdf(receipt: DonationReceiptDoc): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: 50, info: { Title: `Receipt ${receipt.serialNumber}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const { ngo } = receipt;
+    const amount = Number(receipt.amountInr);
+    const donatedOn = receipt.donatedAt.toDate().toLocaleDateString("en-IN", { timeZone: "Asia/Kolkata" });
+
+    doc.fontSize(18).font("Helvetica-Bold").text(ngo.name, { align: "center" });
+    if (ngo.address) {
+      doc.fontSize(10).font("Helvetica").text(ngo.address, { align: "center" });
+    }
+    doc.moveDown(0.5);
+    doc
+      .fontSize(9)
+      .text(
+        [
+          ngo.pan && `PAN: ${ngo.pan}`,
+          ngo.registrationNumber && `Registration No: ${ngo.registrationNumber}`,
+          ngo.section12A && `12A: ${ngo.section12A}`,
+        ]
+          .filter(Boolean)
+          .join("   |   "),
+        { align: "center" }
+      );
+    doc.text(`80G Registration (URN): ${ngo.section80G}`, { align: "center" });
+
+    doc.moveDown(1.5);
+    doc.fontSize(14).font("Helvetica-Bold").text("DONATION RECEIPT", { align: "center" });
+    doc.fontSize(9).font("Helvetica").text("Eligible for deduction under Section 80G of the Income Tax Act, 1961", {
+      align: "center",
+    });
+
+    doc.moveDown(1.5);
+    const row = (label: string, value: string) => {
+      doc.font("Helvetica-Bold").fontSize(10).text(`${label}: `, { continued: true });
+      doc.font("Helvetica").text(value);
+      doc.moveDown(0.3);
+    };
+    row("Receipt No", receipt.serialNumber);
+    row("Financial Year", receipt.financialYear);
+    row("Date of Donation", donatedOn);
+    row("Received From", receipt.donorName);
+    row("Donor PAN", receipt.donorPan || "Not provided");
+    row("Amount", `INR ${amount.toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`);
+    row("Amount in Words", amountInWords(amount));
+    if (receipt.originalAmountInr) {
+      row("Revised", `Reissued after a partial refund of a donation of INR ${receipt.originalAmountInr}`);
+    }
+    row("Mode of Payment", `Electronic (${receipt.paymentMode})`);
+    if (receipt.paymentId) row("Transaction Reference", receipt.paymentId);
+    row("Towards", `${receipt.campaignTitle} (campaign ${receipt.campaignId})`);
+
+    doc.moveDown(2);
+    doc
+      .fontSize(8)
+      .fillColor("#555555")
+      .text(
+        "This is a computer generated receipt issued through OpenCause on behalf of the organization named above " +
+          "and does not require a signature. The donation will be reported in Form 10BD; the certificate in " +
+          "Form 10BE issued after filing is the document to claim the deduction." +
+          (receipt.donorPan ? "" : " A PAN is required to report this donation in Form 10BD.")
+      );
+
+    doc.end();
+  });
+}
+
+const ONES = [
+  "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+function belowHundred(n: number): string {
+  return n < 20 ? ONES[n] : `${TENS[Math.floor(n / 10)]} ${ONES[n % 10]}`.trim();
+}
+
+function belowThousand(n: number): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  return [hundreds && `${ONES[hundreds]} Hundred`, rest && belowHundred(rest)].filter(Boolean).join(" ");
+}
+
+/**
+ * Amount in words using the Indian numbering system (lakh, crore)
+ */
+function amountInWords(amount: number): string {
+  const rupees = Math.floor(amount);
+  const paise = Math.round((amount - rupees) * 100);
+  if (rupees === 0 && paise === 0) return "Rupees Zero Only";
+
+  const parts: string[] = [];
+  const crore = Math.floor(rupees / 10000000);
+  const lakh = Math.floor((rupees % 10000000) / 100000);
+  const thousand = Math.floor((rupees % 100000) / 1000);
+  const rest = rupees % 1000;
+  if (crore) parts.push(`${belowThousand(crore)} Crore`);
+  if (lakh) parts.push(`${belowHundred(lakh)} Lakh`);
+  if (thousand) parts.push(`${belowHundred(thousand)} Thousand`);
+  if (rest) parts.push(belowThousand(rest));
+
+  let words = rupees ? `Rupees ${parts.join(" ")}` : "";
+  if (paise) words += `${words ? " and " : ""}${belowHundred(paise)} Paise`;
+  return `${words} Only`;
+}
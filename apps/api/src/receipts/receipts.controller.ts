@@ -0,0 +1,45 @@
+import { Controller, Get, Param, Query, Request, UseGuards, StreamableFile, ForbiddenException } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { ReceiptsService, financialYearOf } from "./receipts.service";
+
+@Controller("receipts")
+@UseGuards(JwtAuthGuard)
+export class ReceiptsController {
+  constructor(private receiptsService: ReceiptsService) {}
+
+  @Get("me")
+  async listMine(@Request() req) {
+    return this.receiptsService.listForDonor(req.user.id);
+  }
+
+  /**
+   * Form 10BD-style CSV for an NGO, e.g. ?financialYear=2025-26
+   * (admins pass ?organizerId=)
+   */
+  @Get("export/10bd")
+  async exportForm10BD(
+    @Request() req,
+    @Query("financialYear") financialYear?: string,
+    @Query("organizerId") organizerId?: string
+  ) {
+    if (req.user.role !== "ADMIN" && req.user.role !== "NGO_ORGANIZER") {
+      throw new ForbiddenException("Only NGO organizers can export Form 10BD");
+    }
+    const year = financialYear || financialYearOf(new Date());
+    const ngoId = req.user.role === "ADMIN" && organizerId ? organizerId : req.user.id;
+    const csv = await this.receiptsService.exportForm10BD(ngoId, year);
+    return new StreamableFile(Buffer.from(csv), {
+      type: "text/csv",
+      disposition: `attachment; filename="form-10bd-${year}.csv"`,
+    });
+  }
+
+  @Get(":donationId/pdf")
+  async download(@Request() req, @Param("donationId") donationId: string) {
+    const { filename, pdf } = await this.receiptsService.getReceiptPdf(donationId, req.user);
+    return new StreamableFile(pdf, {
+      type: "application/pdf",
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from "@nestjs/common";
+import { ReceiptsService } from "./receipts.service";
+import { ReceiptsController } from "./receipts.controller";
+import { FirebaseModule } from "../firebase/firebase.module";
+
+/**
+ * ReceiptsModule - 80G donation receipts and Form 10BD export
+ */
+@Module({
+  imports: [FirebaseModule],
+  controllers: [ReceiptsController],
+  providers: [ReceiptsService],
+  exports: [ReceiptsService],
+})
+export class ReceiptsModule {}
@@ -0,0 +1,129 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { ReceiptsService, financialYearOf } from "./receipts.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("ReceiptsService", () => {
+  let service: ReceiptsService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const donatedAt = admin.firestore.Timestamp.fromDate(new Date("2025-08-15T10:00:00Z"));
+
+  const addDonation = (id: string, amount: string, orderId: string, donorPan?: string) =>
+    Promise.all([
+      db.collection("donations").doc(id).set({
+        campaignId: "camp1",
+        donorId: "donor1",
+        type: "INR",
+        amount,
+        orderId,
+        createdAt: donatedAt,
+      }),
+      db.collection("pending_donations").doc(orderId).set({
+        orderId,
+        provider: "razorpay",
+        paymentId: `pay_${orderId}`,
+        donorPan: donorPan || null,
+      }),
+    ]);
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "campaigns",
+      "users",
+      "donations",
+      "pending_donations",
+      "donation_receipts",
+      "receipt_counters",
+    ]);
+
+    await db.collection("campaigns").doc("camp1").set({ title: "School Meals", organizerId: "ngo1" });
+    await db.collection("users").doc("ngo1").set({
+      name: "Meals Trust",
+      role: "NGO_ORGANIZER",
+      kycStatus: "VERIFIED",
+      ngoDetails: { name: "Meals Trust", pan: "AAATM1234F", section80G: "AAATM1234FF20214" },
+    });
+    await db.collection("users").doc("donor1").set({ name: "Asha", email: "asha@example.com" });
+
+    const firebase = {
+      firestore: db,
+      getById: async (collection: string, id: string) => {
+        const snap = await db.collection(collection).doc(id).get();
+        return snap.exists ? { id: snap.id, ...snap.data() } : null;
+      },
+      getCampaignById: async (id: string) => {
+        const snap = await db.collection("campaigns").doc(id).get();
+        return snap.exists ? { id: snap.id, ...snap.data() } : null;
+      },
+      getUserById: async (id: string) => {
+        const snap = await db.collection("users").doc(id).get();
+        return snap.exists ? { id: snap.id, ...snap.data() } : null;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [ReceiptsService, { provide: FirebaseService, useValue: firebase }],
+    }).compile();
+
+    service = module.get<ReceiptsService>(ReceiptsService);
+  });
+
+  it("numbers receipts per NGO and financial year", async () => {
+    await addDonation("d1", "500", "o1", "ABCDE1234F");
+    await addDonation("d2", "250", "o2");
+
+    const first = await service.issueReceipt("d1");
+    const second = await service.issueReceipt("d2");
+    const again = await service.issueReceipt("d1");
+
+    expect(first).toMatchObject({ serialNumber: "80G/2025-26/000001", donorPan: "ABCDE1234F", donorName: "Asha" });
+    expect(second?.serialNumber).toBe("80G/2025-26/000002");
+    expect(again?.serialNumber).toBe("80G/2025-26/000001");
+  });
+
+  it("issues no receipt when the NGO has no 80G registration", async () => {
+    await db.collection("users").doc("ngo1").update({ "ngoDetails.section80G": null });
+    await addDonation("d1", "500", "o1");
+
+    expect(await service.issueReceipt("d1")).toBeNull();
+  });
+
+  it("aggregates Form 10BD rows per donor PAN and skips voided receipts", async () => {
+    await addDonation("d1", "500", "o1", "ABCDE1234F");
+    await addDonation("d2", "250.50", "o2", "ABCDE1234F");
+    await addDonation("d3", "100", "o3");
+    await addDonation("d4", "900", "o4", "ZZZZZ9999Z");
+    for (const id of ["d1", "d2", "d3", "d4"]) {
+      await service.issueReceipt(id);
+    }
+    await db.collection("donation_receipts").doc("d4").update({ voidedAt: admin.firestore.Timestamp.now() });
+
+    const csv = await service.exportForm10BD("ngo1", "2025-26");
+    const rows = csv.trim().split("\n").slice(1);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain("ABCDE1234F");
+    expect(rows[0]).toMatch(/,750\.50$/);
+    expect(rows[1]).toMatch(/,100\.00$/);
+  });
+
+  it("checks access before issuing a receipt", async () => {
+    await addDonation("d1", "500", "o1");
+
+    await expect(service.getReceiptPdf("d1", { id: "stranger" })).rejects.toThrow(ForbiddenException);
+    expect((await db.collection("donation_receipts").doc("d1").get()).exists).toBe(false);
+    expect((await db.collection("receipt_counters").doc("ngo1_2025-26").get()).exists).toBe(false);
+
+    const { filename } = await service.getReceiptPdf("d1", { id: "ngo1" });
+    expect(filename).toBe("80G-2025-26-000001.pdf");
+  });
+
+  it("uses the Indian financial year in IST", () => {
+    expect(financialYearOf(new Date("2026-03-31T18:29:00Z"))).toBe("2025-26");
+    expect(financialYearOf(new Date("2026-03-31T18:31:00Z"))).toBe("2026-27");
+  });
+});
@@ -0,0 +1,238 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { DonationReceiptDoc, NgoDetails, ReceiptCounterDoc } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+import { renderReceiptPdf } from "./receipt-pdf";
+
+// Form 10BD column order (Rule 18AB)
+const FORM_10BD_HEADER = [
+  "Sr. No.",
+  "Pre Acknowledgement Number",
+  "ID Code",
+  "Unique Identification Number",
+  "Section Code",
+  "Unique Registration Number (URN)",
+  "Date of Issuance of Unique Registration Number",
+  "Name of donor",
+  "Address of donor",
+  "Donation Type",
+  "Mode of receipt",
+  "Amount of donation (Indian rupees)",
+];
+
+/**
+ * Receipts Service
+ * 80G receipts for INR donations to campaigns run by 80G-registered NGOs.
+ * A receipt is issued (with the NGO's next serial number for the financial
+ * year) when the donation is confirmed; the PDF is rendered from the stored
+ * receipt on download. NGOs export their receipts in Form 10BD layout.
+ */
+@Injectable()
+export class ReceiptsService {
+  constructor(private firebase: FirebaseService) {}
+
+  /**
+   * Issue the receipt for a confirmed donation. Returns null when the donation
+   * is not eligible (crypto, refunded, or the NGO has no 80G registration);
+   * an already issued receipt is returned as is.
+   */
+  async issueReceipt(donationId: string): Promise<DonationReceiptDoc | null> {
+    const db = this.firebase.firestore;
+    const receiptRef = db.collection("donation_receipts").doc(donationId);
+
+    const existing = await receiptRef.get();
+    if (existing.exists) {
+      return existing.data() as DonationReceiptDoc;
+    }
+
+    const donation = await this.firebase.getById("donations", donationId);
+    if (!donation) {
+      throw new NotFoundException("Donation not found");
+    }
+    if (donation.type !== "INR" || donation.refunded) {
+      return null;
+    }
+
+    const campaign = await this.firebase.getCampaignById(donation.campaignId) as any;
+    const organizer = campaign ? (await this.firebase.getUserById(campaign.organizerId) as any) : null;
+    const ngo: NgoDetails | undefined = organizer?.ngoDetails;
+    if (organizer?.role !== "NGO_ORGANIZER" || organizer.kycStatus !== "VERIFIED" || !ngo?.section80G) {
+      return null;
+    }
+
+    const donor = donation.isGuest ? null : (await this.firebase.getUserById(donation.donorId) as any);
+    const pendingSnap = await db
+      .collection("pending_donations")
+      .where("orderId", "==", donation.orderId || "")
+      .limit(1)
+      .get();
+    const pending = pendingSnap.empty ? null : (pendingSnap.docs[0].data() as any);
+
+    const donatedAt: admin.firestore.Timestamp = donation.createdAt || admin.firestore.Timestamp.now();
+    const financialYear = financialYearOf(donatedAt.toDate());
+    const counterRef = db.collection("receipt_counters").doc(`${campaign.organizerId}_${financialYear}`);
+
+    return db.runTransaction(async (t) => {
+      const [receiptSnap, counterSnap] = await t.getAll(receiptRef, counterRef);
+      if (receiptSnap.exists) {
+        return receiptSnap.data() as DonationReceiptDoc;
+      }
+
+      const sequence = ((counterSnap.data() as ReceiptCounterDoc | undefined)?.lastSequence || 0) + 1;
+      const counter: ReceiptCounterDoc = {
+        organizerId: campaign.organizerId,
+        financialYear,
+        lastSequence: sequence,
+      };
+      const receipt: DonationReceiptDoc = {
+        donationId,
+        campaignId: donation.campaignId,
+        campaignTitle: campaign.title || "",
+        organizerId: campaign.organizerId,
+        serialNumber: `80G/${financialYear}/${String(sequence).padStart(6, "0")}`,
+        financialYear,
+        sequence,
+        donorId: donation.isGuest ? null : donation.donorId,
+        donorName: (donation.isGuest ? donation.guestName : donor?.name) || "Donor",
+        donorEmail: (donation.isGuest ? donation.guestEmail : donor?.email) || null,
+        donorPan: pending?.donorPan || null,
+        amountInr: String(donation.amount),
+        paymentMode: pending?.provider === "cashfree" ? "Cashfree" : "Razorpay",
+        orderId: donation.orderId || null,
+        paymentId: pending?.paymentId || null,
+        ngo: {
+          name: ngo.name || organizer.name,
+          pan: ngo.pan || null,
+          address: ngo.address || null,
+          registrationNumber: ngo.registrationNumber || null,
+          section12A: ngo.section12A || null,
+          section80G: ngo.section80G,
+        },
+        donatedAt,
+        voidedAt: null,
+      };
+      t.set(counterRef, { ...counter, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      t.set(receiptRef, { ...receipt, issuedAt: admin.firestore.FieldValue.serverTimestamp() });
+      return receipt;
+    });
+  }
+
+  async listForDonor(userId: string) {
+    const snapshot = await this.firebase.firestore
+      .collection("donation_receipts")
+      .where("donorId", "==", userId)
+      .get();
+    return snapshot.docs.map((doc) => {
+      const receipt = doc.data() as DonationReceiptDoc;
+      return {
+        donationId: receipt.donationId,
+        campaignId: receipt.campaignId,
+        serialNumber: receipt.serialNumber,
+        financialYear: receipt.financialYear,
+        amountInr: receipt.amountInr,
+        voided: !!receipt.voidedAt,
+      };
+    });
+  }
+
+  /**
+   * Receipt PDF for the donor, the NGO, or an admin
+   */
+  async getReceiptPdf(
+    donationId: string,
+    user: { id: string; role?: string }
+  ): Promise<{ filename: string; pdf: Buffer }> {
+    // Check access before issuing, so a stranger cannot consume a serial number
+    const donation = await this.firebase.getById("donations", donationId);
+    if (!donation) {
+      throw new NotFoundException("Donation not found");
+    }
+    if (user.role !== "ADMIN") {
+      const isDonor = !donation.isGuest && donation.donorId === user.id;
+      const campaign = isDonor ? null : (await this.firebase.getCampaignById(donation.campaignId) as any);
+      if (!isDonor && campaign?.organizerId !== user.id) {
+        throw new ForbiddenException("You can only download your own receipts");
+      }
+    }
+
+    // Donations confirmed before receipts were issued get theirs on first download
+    const receipt = await this.issueReceipt(donationId);
+    if (!receipt) {
+      throw new NotFoundException("No 80G receipt is available for this donation");
+    }
+    if (receipt.voidedAt) {
+      throw new BadRequestException("This receipt was voided because the donation was refunded");
+    }
+
+    return {
+      filename: `${receipt.serialNumber.replace(/\//g, "-")}.pdf`,
+      pdf: await renderReceiptPdf(receipt),
+    };
+  }
+
+  /**
+   * Form 10BD-style CSV of an NGO's receipts for a financial year. Donations
+   * are aggregated per donor PAN; donations without a PAN are listed one per
+   * row with the ID columns left for the NGO to complete.
+   */
+  async exportForm10BD(organizerId: string, financialYear: string): Promise<string> {
+    if (!/^\d{4}-\d{2}$/.test(financialYear || "")) {
+      throw new BadRequestException("Financial year must look like 2025-26");
+    }
+
+    const snapshot = await this.firebase.firestore
+      .collection("donation_receipts")
+      .where("organizerId", "==", organizerId)
+      .where("financialYear", "==", financialYear)
+      .get();
+    const receipts = snapshot.docs
+      .map((doc) => doc.data() as DonationReceiptDoc)
+      .filter((receipt) => !receipt.voidedAt)
+      .sort((a, b) => a.sequence - b.sequence);
+
+    const rows = new Map<string, { receipt: DonationReceiptDoc; paise: bigint }>();
+    for (const receipt of receipts) {
+      const key = receipt.donorPan ? `pan:${receipt.donorPan}` : `receipt:${receipt.donationId}`;
+      const paise = BigInt(Math.round(parseFloat(receipt.amountInr) * 100));
+      const row = rows.get(key);
+      if (row) {
+        row.paise += paise;
+      } else {
+        rows.set(key, { receipt, paise });
+      }
+    }
+
+    const lines = [FORM_10BD_HEADER];
+    let serial = 0;
+    for (const { receipt, paise } of rows.values()) {
+      lines.push([
+        String(++serial),
+        "",
+        receipt.donorPan ? "Permanent Account Number" : "",
+        receipt.donorPan || "",
+        "Section 80G",
+        receipt.ngo.section80G || "",
+        "",
+        receipt.donorName,
+        "",
+        "Others",
+        "Electronic modes including account payee cheque/draft",
+        (Number(paise) / 100).toFixed(2),
+      ]);
+    }
+    return lines.map((line) => line.map(csvField).join(",")).join("\n") + "\n";
+  }
+}
+
+/**
+ * Indian financial year (April to March) of a date, in IST, e.g. "2025-26"
+ */
+export function financialYearOf(date: Date): string {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,79 @@
+import { Controller, Get, Post, Body, Param, Query, Request, UseGuards } from "@nestjs/common";
+import { ReconciliationItemStatus, SettlementProvider } from "@opencause/firebase";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { ReconciliationService } from "./reconciliation.service";
+import { SubgraphReconciliationService } from "./subgraph-reconciliation.service";
+
+@Controller("admin/reconciliation")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ReconciliationController {
+  constructor(
+    private reconciliationService: ReconciliationService,
+    private subgraphReconciliationService: SubgraphReconciliationService
+  ) {}
+
+  @Get("runs")
+  @Roles("ADMIN")
+  async listRuns(@Query("limit") limit?: string) {
+    return this.reconciliationService.listRuns(limit ? parseInt(limit, 10) : undefined);
+  }
+
+  @Get("runs/:runId")
+  @Roles("ADMIN")
+  async getRun(@Param("runId") runId: string, @Query("status") status?: ReconciliationItemStatus) {
+    return this.reconciliationService.getRun(runId, status);
+  }
+
+  /**
+   * Upload a settlement report (CSV or JSON text)
+   */
+  @Post("runs")
+  @Roles("ADMIN")
+  async upload(
+    @Request() req,
+    @Body()
+    body: {
+      provider: SettlementProvider;
+      content: string;
+      format?: "csv" | "json";
+      settlementDate: string;
+      fileName?: string;
+    }
+  ) {
+    return this.reconciliationService.createRunFromReport(body, req.user.id);
+  }
+
+  /**
+   * Fetch a day's settlement report from the provider API
+   */
+  @Post("runs/fetch")
+  @Roles("ADMIN")
+  async fetchFromProvider(
+    @Request() req,
+    @Body() body: { provider: SettlementProvider; settlementDate: string }
+  ) {
+    return this.reconciliationService.createRunFromProvider(body.provider, body.settlementDate, req.user.id);
+  }
+
+  @Post("runs/:runId/items/:itemId/resolve")
+  @Roles("ADMIN")
+  async resolveItem(
+    @Request() req,
+    @Param("runId") runId: string,
+    @Param("itemId") itemId: string,
+    @Body() body: { action: "ACKNOWLEDGE" | "CREATE_DONATION"; note?: string }
+  ) {
+    return this.reconciliationService.resolveItem(runId, itemId, body.action, body.note, req.user.id);
+  }
+
+  /**
+   * Compare a campaign's vault and anchoring records with the subgraph
+   */
+  @Get("subgraph/campaigns/:campaignId")
+  @Roles("ADMIN")
+  async reconcileWithSubgraph(@Param("campaignId") campaignId: string) {
+    return this.subgraphReconciliationService.reconcileCampaign(campaignId);
+  }
+}
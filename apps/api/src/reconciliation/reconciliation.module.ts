@@ -0,0 +1,18 @@
+import { Module } from "@nestjs/common";
+import { ReconciliationService } from "./reconciliation.service";
+import { SubgraphReconciliationService } from "./subgraph-reconciliation.service";
+import { ReconciliationController } from "./reconciliation.controller";
+import { FirebaseModule } from "../firebase/firebase.module";
+import { PaymentsModule } from "../payments/payments.module";
+
+/**
+ * ReconciliationModule - Gateway settlement reports vs donations, and the
+ * Firestore vault/anchoring ledger vs the subgraph
+ */
+@Module({
+  imports: [FirebaseModule, PaymentsModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService, SubgraphReconciliationService],
+  exports: [ReconciliationService, SubgraphReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,219 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from "@nestjs/common";
+import * as admin from "firebase-admin";
+import {
+  FLAGGED_RECONCILIATION_STATUSES,
+  ReconciliationItemDoc,
+  ReconciliationItemStatus,
+  ReconciliationRunDoc,
+  SettlementLine,
+  SettlementProvider,
+  SettlementReconciler,
+  fetchSettlementReport,
+  parseSettlementReport,
+} from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+import { PaymentEventsService } from "../payments/payment-events.service";
+
+/**
+ * Reconciliation Service
+ * Creates settlement reconciliation runs from uploaded or downloaded reports
+ * and lets admins resolve the flagged lines
+ */
+@Injectable()
+export class ReconciliationService {
+  constructor(
+    private firebase: FirebaseService,
+    private paymentEventsService: PaymentEventsService
+  ) {}
+
+  /**
+   * Reconcile an uploaded settlement report (CSV or JSON)
+   */
+  async createRunFromReport(
+    params: {
+      provider: SettlementProvider;
+      content: string;
+      format?: "csv" | "json";
+      settlementDate: string;
+      fileName?: string;
+    },
+    adminId: string
+  ) {
+    this.assertProvider(params.provider);
+    this.assertDate(params.settlementDate);
+    if (!params.content?.trim()) {
+      throw new BadRequestException("Settlement report is empty");
+    }
+
+    let lines: SettlementLine[];
+    try {
+      lines = parseSettlementReport(params.provider, params.content, params.format);
+    } catch (error: any) {
+      throw new BadRequestException(`Could not parse settlement report: ${error?.message || error}`);
+    }
+    if (lines.length === 0) {
+      throw new BadRequestException("Settlement report has no lines");
+    }
+
+    const runId = await new SettlementReconciler(this.firebase.firestore).reconcile(lines, {
+      provider: params.provider,
+      source: "UPLOAD",
+      settlementDate: params.settlementDate,
+      fileName: params.fileName || null,
+      createdBy: adminId,
+    });
+    return this.getRun(runId);
+  }
+
+  /**
+   * Download one day's settlement report from the provider and reconcile it
+   */
+  async createRunFromProvider(provider: SettlementProvider, settlementDate: string, adminId: string) {
+    this.assertProvider(provider);
+    this.assertDate(settlementDate);
+
+    const keyId = provider === "razorpay" ? process.env.RAZORPAY_KEY_ID : process.env.CASHFREE_APP_ID;
+    const keySecret = provider === "razorpay" ? process.env.RAZORPAY_SECRET_KEY : process.env.CASHFREE_SECRET_KEY;
+    if (!keyId || !keySecret) {
+      throw new BadRequestException(`${provider} credentials are not configured`);
+    }
+    const baseUrl =
+      provider === "cashfree"
+        ? process.env.CASHFREE_ENV === "production"
+          ? "https://api.cashfree.com/pg"
+          : "https://sandbox.cashfree.com/pg"
+        : undefined;
+
+    let lines: SettlementLine[];
+    try {
+      lines = await fetchSettlementReport(provider, settlementDate, { keyId, keySecret, baseUrl });
+    } catch (error: any) {
+      throw new BadRequestException(`Could not fetch settlement report: ${error?.message || error}`);
+    }
+
+    const runId = await new SettlementReconciler(this.firebase.firestore).reconcile(lines, {
+      provider,
+      source: "PROVIDER_API",
+      settlementDate,
+      createdBy: adminId,
+    });
+    return this.getRun(runId);
+  }
+
+  async listRuns(limit = 30): Promise<Array<ReconciliationRunDoc & { id: string }>> {
+    const snapshot = await this.firebase.firestore
+      .collection("reconciliation_runs")
+      .orderBy("createdAt", "desc")
+      .limit(Math.min(limit, 100))
+      .get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as ReconciliationRunDoc) }));
+  }
+
+  /**
+   * Run with its items; `status` filters items (e.g. only flagged ones)
+   */
+  async getRun(runId: string, status?: ReconciliationItemStatus) {
+    const runRef = this.firebase.firestore.collection("reconciliation_runs").doc(runId);
+    const runSnap = await runRef.get();
+    if (!runSnap.exists) {
+      throw new NotFoundException("Reconciliation run not found");
+    }
+
+    let itemsQuery: admin.firestore.Query = runRef.collection("items");
+    if (status) itemsQuery = itemsQuery.where("status", "==", status);
+    const items = await itemsQuery.get();
+
+    return {
+      id: runId,
+      ...(runSnap.data() as ReconciliationRunDoc),
+      items: items.docs.map((doc) => ({ id: doc.id, ...(doc.data() as ReconciliationItemDoc) })),
+    };
+  }
+
+  /**
+   * Resolve a flagged item. CREATE_DONATION records the missing donation for
+   * a settled payment; ACKNOWLEDGE closes the item with a note.
+   */
+  async resolveItem(
+    runId: string,
+    itemId: string,
+    action: "ACKNOWLEDGE" | "CREATE_DONATION",
+    note: string | undefined,
+    adminId: string
+  ) {
+    const db = this.firebase.firestore;
+    const runRef = db.collection("reconciliation_runs").doc(runId);
+    const itemRef = runRef.collection("items").doc(itemId);
+
+    const itemSnap = await itemRef.get();
+    if (!itemSnap.exists) {
+      throw new NotFoundException("Reconciliation item not found");
+    }
+    const item = itemSnap.data() as ReconciliationItemDoc;
+    this.assertResolvable(item);
+
+    let donationId = item.donationId || null;
+    if (action === "CREATE_DONATION") {
+      if (item.status !== "MISSING_DONATION" || !item.line.orderId) {
+        throw new BadRequestException("Donations can only be created for settled payments missing a donation");
+      }
+      const { donation } = await this.paymentEventsService.completePendingDonation(
+        item.line.orderId,
+        item.line.paymentId || item.line.entityId
+      );
+      if (!donation) {
+        throw new ConflictException("The donation for this payment is still being created; try again shortly");
+      }
+      donationId = donation.id;
+    } else if (action !== "ACKNOWLEDGE") {
+      throw new BadRequestException("action must be ACKNOWLEDGE or CREATE_DONATION");
+    } else if (!note?.trim()) {
+      throw new BadRequestException("A note is required to acknowledge an item");
+    }
+
+    await db.runTransaction(async (t) => {
+      const [runSnap, current] = await Promise.all([t.get(runRef), t.get(itemRef)]);
+      this.assertResolvable(current.data() as ReconciliationItemDoc);
+      const run = runSnap.data() as ReconciliationRunDoc;
+      const unresolvedCount = Math.max(0, run.unresolvedCount - 1);
+
+      t.update(itemRef, {
+        donationId,
+        resolution: {
+          action: action === "CREATE_DONATION" ? "DONATION_CREATED" : "ACKNOWLEDGED",
+          note: note || null,
+          resolvedBy: adminId,
+          resolvedAt: admin.firestore.FieldValue.serverTimestamp(),
+        },
+      });
+      t.update(runRef, {
+        unresolvedCount,
+        status: unresolvedCount === 0 ? "RESOLVED" : "OPEN",
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return { id: itemId, ...(await itemRef.get()).data() };
+  }
+
+  private assertResolvable(item: ReconciliationItemDoc) {
+    if (!FLAGGED_RECONCILIATION_STATUSES.includes(item.status)) {
+      throw new BadRequestException(`${item.status} items do not need resolving`);
+    }
+    if (item.resolution) {
+      throw new BadRequestException("Item is already resolved");
+    }
+  }
+
+  private assertProvider(provider: string) {
+    if (provider !== "razorpay" && provider !== "cashfree") {
+      throw new BadRequestException("provider must be razorpay or cashfree");
+    }
+  }
+
+  private assertDate(date: string) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || "")) {
+      throw new BadRequestException("settlementDate must be YYYY-MM-DD");
+    }
+  }
+}
@@ -0,0 +1,431 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  encodeAbiParameters,
+  encodeFunctionData,
+  http,
+  keccak256,
+  pad,
+  parseAbi,
+  parseEther,
+  stringToHex,
+  toHex,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import type { Abi, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { SubgraphReconciliationService } from "./subgraph-reconciliation.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startAnvil,
+  startKubo,
+  startGraphNode,
+  AnvilNode,
+  KuboNode,
+  GraphNode,
+} from "@opencause/testkit";
+
+// Forge artifacts; build them with `pnpm --filter @opencause/contracts compile`
+// and copy them for the subgraph with `pnpm --filter @opencause/subgraph abis`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(
+    readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8")
+  );
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+const VAULT_FACTORY_ABI = parseAbi([
+  "function createNativeVault(bytes32 campaignId) returns (address)",
+  "function getVault(bytes32 campaignId, bytes32 assetId) view returns (address)",
+]);
+const NATIVE_VAULT_ABI = parseAbi([
+  "function donate(bytes32 intentId) payable",
+  "function withdraw(address to, uint256 amount, bytes32 withdrawalId)",
+]);
+const EVIDENCE_REGISTRY_ABI = parseAbi([
+  "function anchorEvidence(uint8 kind, bytes32 campaignId, bytes32 evidenceHash, uint256 amount)",
+]);
+const ROLE_REGISTRY_ABI = parseAbi(["function grantOrganizer(address account)"]);
+const CAMPAIGN_FACTORY_ABI = parseAbi([
+  "function createCampaign(bytes32 campaignId, string title) returns (address)",
+  "function getCampaignVault(bytes32 campaignId) view returns (address)",
+]);
+const MILESTONE_VAULT_ABI = parseAbi([
+  "function createMilestone(string name, uint256 capAmount, uint256 coolingOffHours, uint256 reviewWindowHours)",
+  "function release(uint256 milestoneId, address token, uint256 amount, address payee, bytes32 evidenceHash)",
+  "function pause()",
+  "function unpause()",
+]);
+const PAUSABLE_ABI = parseAbi(["function pause()", "function unpause()"]);
+
+describe("SubgraphReconciliationService", () => {
+  let anvil: AnvilNode;
+  let kubo: KuboNode;
+  let graphNode: GraphNode;
+  let deployment: Awaited<ReturnType<GraphNode["deploySubgraph"]>>;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let service: SubgraphReconciliationService;
+  const env = { ...process.env };
+
+  const campaignId = "camp1";
+  const payee = "0x00000000000000000000000000000000000000aa";
+  const sweepFee = 1000n;
+  const onchain = {} as { donationTx: Hex; withdrawalTx: Hex; anchorTx: Hex; root: Hex };
+  const contracts = {} as { roleRegistry: Hex; campaignFactory: Hex; vaultFactory: Hex };
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+
+  const deploy = async (name: string, args: any[]) => {
+    const { abi, bytecode } = artifact(name);
+    const hash = await wallet().deployContract({ abi, bytecode, args, chain: null });
+    return (await client().waitForTransactionReceipt({ hash })).contractAddress!;
+  };
+
+  const mined = async (hash: Hex) => {
+    await client().waitForTransactionReceipt({ hash });
+    return hash;
+  };
+
+  const seedSweep = (sweepId: string, fields: Record<string, any>) =>
+    db.collection("deposit_sweeps").doc(sweepId).set({
+      campaignId,
+      networkId: "polygon_mainnet",
+      assetId: "matic_polygon_mainnet",
+      amountRaw: (parseEther("1") + sweepFee).toString(),
+      feeRaw: sweepFee.toString(),
+      status: "CONFIRMED",
+      ...fields,
+    });
+
+  const seedWithdrawal = (amount: bigint) =>
+    db.collection("withdrawals_private").doc("wd1").set({
+      campaignId,
+      method: "CRYPTO",
+      status: "PAID",
+      safe: {
+        status: "EXECUTED",
+        txHash: onchain.withdrawalTx,
+        transaction: {
+          data: encodeFunctionData({
+            abi: NATIVE_VAULT_ABI,
+            functionName: "withdraw",
+            args: [payee, amount, stringToHex("wd1", { size: 32 })],
+          }),
+        },
+      },
+    });
+
+  const seedBatch = (txHash: Hex, fields: Record<string, any> = {}) =>
+    db.collection("evidence_batches").doc("batch1").set({
+      campaignId,
+      kind: "INR_DONATION",
+      merkleRoot: onchain.root,
+      status: "ANCHORED",
+      txHash,
+      ...fields,
+    });
+
+  const send = async (address: Hex, abi: Abi, functionName: string, args: any[] = []) =>
+    mined(await wallet().writeContract({ address, abi, functionName, args, account: account(), chain: null }));
+
+  const subgraph = async <T>(query: string): Promise<T> => {
+    const response = await fetch(deployment.queryUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query }),
+    });
+    return ((await response.json()) as { data: T }).data;
+  };
+
+  const indexed = async () => deployment.waitForBlock(await client().getBlockNumber());
+
+  beforeAll(async () => {
+    anvil = await startAnvil({ port: 8547, chainId: 137 });
+    kubo = await startKubo({ apiPort: 5102 });
+    graphNode = await startGraphNode({ ethereumRpc: anvil.rpcUrl, ipfsApiUrl: kubo.apiUrl, httpPort: 8100 });
+
+    const treasury = account().address;
+    const roleRegistry = await deploy("RoleRegistry", []);
+    const evidenceRegistry = await deploy("EvidenceRegistry", []);
+    const campaignFactory = await deploy("CampaignFactory", [roleRegistry, evidenceRegistry]);
+    const vaultFactory = await deploy("CampaignVaultFactory", [treasury]);
+    Object.assign(contracts, { roleRegistry, campaignFactory, vaultFactory });
+
+    deployment = await graphNode.deploySubgraph({
+      name: "opencause/reconciliation",
+      addresses: {
+        CampaignFactory: campaignFactory,
+        CampaignVaultFactory: vaultFactory,
+        EvidenceRegistry: evidenceRegistry,
+      },
+    });
+    process.env.SUBGRAPH_URL = deployment.queryUrl;
+
+    const vaultCampaignId = stringToHex(campaignId, { size: 32 });
+    await mined(
+      await wallet().writeContract({
+        address: vaultFactory,
+        abi: VAULT_FACTORY_ABI,
+        functionName: "createNativeVault",
+        args: [vaultCampaignId],
+        account: account(),
+        chain: null,
+      })
+    );
+    const vault = await client().readContract({
+      address: vaultFactory,
+      abi: VAULT_FACTORY_ABI,
+      functionName: "getVault",
+      args: [vaultCampaignId, zeroHash],
+      authorizationList: [],
+    });
+
+    // Swept donation the ledger knows about, and one it does not
+    const donate = (intentId: Hex, value: bigint) =>
+      wallet().writeContract({
+        address: vault,
+        abi: NATIVE_VAULT_ABI,
+        functionName: "donate",
+        args: [intentId],
+        value,
+        account: account(),
+        chain: null,
+      });
+    onchain.donationTx = await mined(await donate(pad("0xaaaa"), parseEther("1")));
+    await mined(await donate(pad("0xcccc"), parseEther("0.5")));
+
+    onchain.withdrawalTx = await mined(
+      await wallet().writeContract({
+        address: vault,
+        abi: NATIVE_VAULT_ABI,
+        functionName: "withdraw",
+        args: [payee, parseEther("0.2"), stringToHex("wd1", { size: 32 })],
+        account: account(),
+        chain: null,
+      })
+    );
+
+    onchain.root = keccak256(toHex("evidence-batch-root"));
+    onchain.anchorTx = await mined(
+      await wallet().writeContract({
+        address: evidenceRegistry,
+        abi: EVIDENCE_REGISTRY_ABI,
+        functionName: "anchorEvidence",
+        args: [0, keccak256(toHex(campaignId)), onchain.root, 2n],
+        account: account(),
+        chain: null,
+      })
+    );
+
+    await indexed();
+  }, 180_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await graphNode?.stop();
+    await kubo?.stop();
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["deposit_sweeps", "withdrawals_private", "evidence_batches", "ledger_snapshots"]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SubgraphReconciliationService, { provide: FirebaseService, useValue: { firestore: db } }],
+    }).compile();
+    service = module.get<SubgraphReconciliationService>(SubgraphReconciliationService);
+  });
+
+  it("matches swept donations, Safe withdrawals and anchored roots with the indexed events", async () => {
+    await seedSweep("aaaa", { txHash: onchain.donationTx });
+    await seedWithdrawal(parseEther("0.2"));
+    await seedBatch(onchain.anchorTx);
+
+    const report = await service.reconcileCampaign(campaignId);
+
+    expect(report.items.filter((i) => i.recordId)).toEqual([
+      expect.objectContaining({ type: "DONATION", status: "MATCHED", recordId: "aaaa" }),
+      expect.objectContaining({ type: "WITHDRAWAL", status: "MATCHED", recordId: "wd1" }),
+      expect.objectContaining({ type: "EVIDENCE", status: "MATCHED", recordId: "batch1" }),
+    ]);
+  });
+
+  it("flags settled records the chain does not have and events the ledger does not", async () => {
+    await seedSweep("aaaa", { txHash: onchain.donationTx });
+    await seedSweep("bbbb", { txHash: keccak256(toHex("never-mined")) });
+
+    const report = await service.reconcileCampaign(campaignId);
+
+    const donations = report.items.filter((i) => i.type === "DONATION");
+    expect(donations).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ status: "MISSING_ONCHAIN", recordId: "bbbb", actual: null }),
+        expect.objectContaining({
+          status: "UNRECORDED",
+          recordId: null,
+          onchainId: pad("0xcccc"),
+          actual: expect.objectContaining({ amount: parseEther("0.5").toString() }),
+        }),
+      ])
+    );
+    // The executed withdrawal and anchored root have no Firestore record here
+    expect(report.counts).toMatchObject({ MATCHED: 1, MISSING_ONCHAIN: 1, UNRECORDED: 3 });
+  });
+
+  it("flags amount and transaction mismatches", async () => {
+    await seedWithdrawal(parseEther("0.3"));
+    await seedBatch(keccak256(toHex("other-tx")));
+
+    const report = await service.reconcileCampaign(campaignId);
+
+    expect(report.items.find((i) => i.recordId === "wd1")).toMatchObject({
+      status: "AMOUNT_MISMATCH",
+      expected: { amount: parseEther("0.3").toString() },
+      actual: { amount: parseEther("0.2").toString(), txHash: onchain.withdrawalTx },
+    });
+    expect(report.items.find((i) => i.recordId === "batch1")).toMatchObject({ status: "TX_MISMATCH" });
+  });
+
+  it("leaves sweeps in flight alone until the subgraph has them", async () => {
+    await seedSweep("bbbb", { status: "SUBMITTED", txHash: keccak256(toHex("pending")) });
+
+    const report = await service.reconcileCampaign(campaignId);
+
+    expect(report.items.find((i) => i.recordId === "bbbb")).toBeUndefined();
+  });
+
+  it("reports the subgraph's per-token totals", async () => {
+    const report = await service.reconcileCampaign(campaignId);
+
+    expect(report.totals).toEqual([
+      {
+        token: "0x0000000000000000000000000000000000000000",
+        donationCount: 2,
+        totalDonated: parseEther("1.5").toString(),
+        withdrawalCount: 1,
+        totalWithdrawn: parseEther("0.2").toString(),
+      },
+    ]);
+  });
+
+  it("leaves records settled past the indexed head alone until the subgraph has them", async () => {
+    const { _meta } = await subgraph<{ _meta: { block: { number: number } } }>("{ _meta { block { number } } }");
+    await seedBatch(keccak256(toHex("not-yet-indexed")), {
+      merkleRoot: keccak256(toHex("not-yet-indexed-root")),
+      blockNumber: String(_meta.block.number + 100),
+    });
+
+    const report = await service.reconcileCampaign(campaignId);
+
+    expect(report.items.find((i) => i.recordId === "batch1")).toBeUndefined();
+  });
+
+  it("indexes milestones, releases and pauses, keeping a campaign paused while any vault is", async () => {
+    const id = stringToHex("camp2", { size: 32 });
+    await send(contracts.roleRegistry, ROLE_REGISTRY_ABI, "grantOrganizer", [account().address]);
+    await send(contracts.campaignFactory, CAMPAIGN_FACTORY_ABI, "createCampaign", [id, "Milestones"]);
+    await send(contracts.vaultFactory, VAULT_FACTORY_ABI, "createNativeVault", [id]);
+    const readVault = (address: Hex, abi: Abi, functionName: string, args: any[]) =>
+      client().readContract({ address, abi, functionName, args, authorizationList: [] }) as Promise<Hex>;
+    const milestoneVault = await readVault(contracts.campaignFactory, CAMPAIGN_FACTORY_ABI, "getCampaignVault", [id]);
+    const nativeVault = await readVault(contracts.vaultFactory, VAULT_FACTORY_ABI, "getVault", [id, zeroHash]);
+
+    // CampaignVault only grants ORGANIZER_ROLE; write the admin and reviewer
+    // roles into AccessControl's _roles mapping (slot 0) for the test account
+    const testClient = createTestClient({ mode: "anvil", transport: http(anvil.rpcUrl) });
+    for (const role of [zeroHash, keccak256(toHex("REVIEWER_ROLE"))]) {
+      const roleSlot = keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [role, 0n]));
+      const memberSlot = encodeAbiParameters([{ type: "address" }, { type: "bytes32" }], [account().address, roleSlot]);
+      await testClient.setStorageAt({
+        address: milestoneVault,
+        index: keccak256(memberSlot),
+        value: pad("0x01"),
+      });
+    }
+
+    await mined(
+      await wallet().sendTransaction({
+        to: milestoneVault,
+        value: parseEther("1"),
+        account: account(),
+        chain: null,
+        kzg: undefined,
+      })
+    );
+    await send(milestoneVault, MILESTONE_VAULT_ABI, "createMilestone", ["Supplies", parseEther("0.6"), 0n, 0n]);
+    const evidenceHash = keccak256(toHex("release-evidence"));
+    const releaseTx = await send(milestoneVault, MILESTONE_VAULT_ABI, "release", [
+      0n,
+      zeroAddress,
+      parseEther("0.25"),
+      payee,
+      evidenceHash,
+    ]);
+
+    const campaign = async () => {
+      await indexed();
+      const data = await subgraph<{ campaign: Record<string, any> }>(
+        `{ campaign(id: "${id}") { status paused milestoneCount releaseCount } }`
+      );
+      return data.campaign;
+    };
+
+    expect(await campaign()).toMatchObject({
+      status: "ACTIVE",
+      paused: false,
+      milestoneCount: "1",
+      releaseCount: "1",
+    });
+    const { milestones, releases } = await subgraph<{ milestones: any[]; releases: any[] }>(
+      `{
+        milestones(where: { campaign: "${id}" }) { milestoneId name capAmount releasedAmount }
+        releases(where: { campaign: "${id}" }) { amount payee evidenceHash txHash milestone { id } }
+      }`
+    );
+    expect(milestones).toEqual([
+      {
+        milestoneId: "0",
+        name: "Supplies",
+        capAmount: parseEther("0.6").toString(),
+        releasedAmount: parseEther("0.25").toString(),
+      },
+    ]);
+    expect(releases).toEqual([
+      {
+        amount: parseEther("0.25").toString(),
+        payee,
+        evidenceHash,
+        txHash: releaseTx,
+        milestone: { id: `${milestoneVault.toLowerCase()}-0` },
+      },
+    ]);
+
+    await send(milestoneVault, MILESTONE_VAULT_ABI, "pause");
+    await send(nativeVault, PAUSABLE_ABI, "pause");
+    await send(nativeVault, PAUSABLE_ABI, "unpause");
+    expect(await campaign()).toMatchObject({ status: "PAUSED", paused: true });
+
+    await send(milestoneVault, MILESTONE_VAULT_ABI, "unpause");
+    expect(await campaign()).toMatchObject({ status: "ACTIVE", paused: false });
+
+    const { pauseEvents } = await subgraph<{ pauseEvents: any[] }>(
+      `{ pauseEvents(where: { campaign: "${id}" }, orderBy: blockNumber) { paused account vault { id } } }`
+    );
+    expect(pauseEvents).toEqual([
+      { paused: true, account: null, vault: { id: milestoneVault.toLowerCase() } },
+      { paused: true, account: account().address.toLowerCase(), vault: { id: nativeVault.toLowerCase() } },
+      { paused: false, account: account().address.toLowerCase(), vault: { id: nativeVault.toLowerCase() } },
+      { paused: false, account: null, vault: { id: milestoneVault.toLowerCase() } },
+    ]);
+  });
+});
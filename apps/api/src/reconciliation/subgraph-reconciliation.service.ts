@@ -0,0 +1,322 @@
+import { Injectable, ServiceUnavailableException } from "@nestjs/common";
+import { decodeFunctionData, keccak256, pad, parseAbi, stringToHex, toHex } from "viem";
+import type { Hex } from "viem";
+import { DepositSweepDoc, EvidenceBatchDoc, LedgerSnapshotDoc } from "@opencause/firebase";
+import { getNetwork } from "@opencause/crypto-core";
+import { FirebaseService } from "../firebase/firebase.service";
+
+export type SubgraphReconciliationStatus =
+  | "MATCHED"
+  | "MISSING_ONCHAIN" // Settled in Firestore, not indexed by the subgraph
+  | "UNRECORDED" // Indexed on-chain event with no Firestore record
+  | "AMOUNT_MISMATCH"
+  | "TX_MISMATCH";
+
+export interface SubgraphReconciliationItem {
+  type: "DONATION" | "WITHDRAWAL" | "EVIDENCE";
+  status: SubgraphReconciliationStatus;
+  recordId: string | null; // deposit_sweeps / withdrawals_private / evidence_batches / ledger_snapshots id
+  onchainId: string | null; // intentId, withdrawalId or evidence hash
+  expected: { amount: string | null; txHash: string | null } | null;
+  actual: { amount: string; txHash: string; blockNumber: string } | null;
+}
+
+interface OnchainEvent {
+  id: string;
+  key: string;
+  amount: string;
+  txHash: string;
+  blockNumber: string;
+}
+
+interface LedgerRecord {
+  id: string;
+  key: string;
+  amount: string | null;
+  txHash: string | null;
+  settled: boolean;
+  // Where the record settled: its block when known, else when it was seen settled
+  blockNumber: string | null;
+  settledAt: Date | null;
+}
+
+interface SubgraphHead {
+  number: number;
+  timestamp: number | null; // Unix seconds
+}
+
+const VAULT_WITHDRAW_ABI = parseAbi(["function withdraw(address to, uint256 amount, bytes32 withdrawalId)"]);
+const PAGE_SIZE = 1000;
+
+/**
+ * Subgraph Reconciliation Service
+ * Compares a campaign's Firestore ledger with what the subgraph indexed from
+ * its vaults and EvidenceRegistry (SUBGRAPH_URL):
+ * - confirmed deposit sweeps vs vault DonationReceived (by intentId)
+ * - executed Safe withdrawals vs vault WithdrawalExecuted (by withdrawalId)
+ * - anchored evidence batches and ledger snapshots vs EvidenceAnchored
+ * Records still in flight, or settled past the block the subgraph has
+ * indexed up to, are compared only once the subgraph has them.
+ */
+@Injectable()
+export class SubgraphReconciliationService {
+  private readonly timeoutMs = 30_000;
+
+  constructor(private firebase: FirebaseService) {}
+
+  async reconcileCampaign(campaignId: string) {
+    const db = this.firebase.firestore;
+    const vaultCampaignId = stringToHex(campaignId, { size: 32 });
+    const evidenceCampaignId = keccak256(toHex(campaignId));
+
+    const [meta, donations, withdrawals, evidence, totals, sweeps, privateWithdrawals, batches, snapshots] =
+      await Promise.all([
+        this.query<{ _meta: { block: SubgraphHead } }>("{ _meta { block { number timestamp } } }"),
+        this.fetchAll<{ id: string; intentId: string; amount: string; txHash: string; blockNumber: string }>(
+          "donations",
+          "Donation_filter",
+          "intentId amount txHash blockNumber",
+          { campaign: vaultCampaignId, intentId_not: null }
+        ),
+        this.fetchAll<{ id: string; withdrawalId: string; amount: string; txHash: string; blockNumber: string }>(
+          "withdrawals",
+          "Withdrawal_filter",
+          "withdrawalId amount txHash blockNumber",
+          { campaign: vaultCampaignId }
+        ),
+        this.fetchAll<{ id: string; amount: string; txHash: string; blockNumber: string }>(
+          "evidences",
+          "Evidence_filter",
+          "amount txHash blockNumber",
+          { campaignId: evidenceCampaignId }
+        ),
+        this.fetchAll<{
+          id: string;
+          token: { id: string };
+          donationCount: string;
+          totalDonated: string;
+          withdrawalCount: string;
+          totalWithdrawn: string;
+        }>(
+          "campaignTokens",
+          "CampaignToken_filter",
+          "token { id } donationCount totalDonated withdrawalCount totalWithdrawn",
+          { campaign: vaultCampaignId }
+        ),
+        db.collection("deposit_sweeps").where("campaignId", "==", campaignId).get(),
+        db.collection("withdrawals_private").where("campaignId", "==", campaignId).get(),
+        db.collection("evidence_batches").where("campaignId", "==", campaignId).get(),
+        db.collection("ledger_snapshots").where("campaignId", "==", campaignId).get(),
+      ]);
+
+    // Sweeps donate into the vault with the sweep id as the intent id
+    const sweepRecords: LedgerRecord[] = sweeps.docs
+      .map((doc) => ({ id: doc.id, sweep: doc.data() as DepositSweepDoc }))
+      .filter(({ sweep }) => getNetwork(sweep.networkId)?.type === "EVM" && sweep.txHash)
+      .filter(({ sweep }) => sweep.status === "CONFIRMED" || sweep.status === "SUBMITTED")
+      .map(({ id, sweep }) => ({
+        id,
+        key: pad(`0x${id}` as Hex).toLowerCase(),
+        amount: (BigInt(sweep.amountRaw) - BigInt(sweep.feeRaw || "0")).toString(),
+        txHash: sweep.txHash ?? null,
+        settled: sweep.status === "CONFIRMED",
+        blockNumber: null,
+        settledAt: sweep.confirmedAt?.toDate() ?? null,
+      }));
+
+    // The Safe transaction's calldata carries the amount the vault released
+    const withdrawalRecords: LedgerRecord[] = privateWithdrawals.docs
+      .filter((doc) => doc.data().safe)
+      .map((doc) => {
+        const safe = doc.data().safe;
+        const { args } = decodeFunctionData({ abi: VAULT_WITHDRAW_ABI, data: safe.transaction.data });
+        return {
+          id: doc.id,
+          key: stringToHex(doc.id, { size: 32 }),
+          amount: args[1].toString(),
+          txHash: safe.txHash ?? null,
+          settled: safe.status === "EXECUTED",
+          blockNumber: null,
+          settledAt: safe.executedAt?.toDate() ?? null,
+        };
+      });
+
+    const evidenceRecords: LedgerRecord[] = [...batches.docs, ...snapshots.docs]
+      .map((doc) => ({ id: doc.id, record: doc.data() as EvidenceBatchDoc | LedgerSnapshotDoc }))
+      .filter(({ record }) => record.status !== "FAILED")
+      .map(({ id, record }) => ({
+        id,
+        key: record.merkleRoot.toLowerCase(),
+        amount: null,
+        txHash: record.txHash ?? null,
+        settled: record.status === "ANCHORED",
+        blockNumber: record.blockNumber ?? null,
+        settledAt: record.anchoredAt?.toDate() ?? null,
+      }));
+
+    const head = meta._meta.block;
+    const items = [
+      ...this.compare(
+        "DONATION",
+        sweepRecords,
+        donations.map((d) => ({ ...d, key: d.intentId })),
+        head
+      ),
+      ...this.compare(
+        "WITHDRAWAL",
+        withdrawalRecords,
+        withdrawals.map((w) => ({ ...w, key: w.withdrawalId })),
+        head
+      ),
+      ...this.compare(
+        "EVIDENCE",
+        evidenceRecords,
+        evidence.map((e) => ({ ...e, key: e.id })),
+        head
+      ),
+    ];
+
+    const counts: Record<SubgraphReconciliationStatus, number> = {
+      MATCHED: 0,
+      MISSING_ONCHAIN: 0,
+      UNRECORDED: 0,
+      AMOUNT_MISMATCH: 0,
+      TX_MISMATCH: 0,
+    };
+    for (const item of items) counts[item.status]++;
+
+    return {
+      campaignId,
+      vaultCampaignId,
+      subgraphBlock: head.number,
+      counts,
+      discrepancyCount: items.length - counts.MATCHED,
+      items,
+      totals: totals.map((t) => ({
+        token: t.token.id,
+        donationCount: Number(t.donationCount),
+        totalDonated: t.totalDonated,
+        withdrawalCount: Number(t.withdrawalCount),
+        totalWithdrawn: t.totalWithdrawn,
+      })),
+    };
+  }
+
+  private compare(
+    type: SubgraphReconciliationItem["type"],
+    records: LedgerRecord[],
+    events: OnchainEvent[],
+    head: SubgraphHead
+  ): SubgraphReconciliationItem[] {
+    const byKey = new Map(events.map((event) => [event.key.toLowerCase(), event]));
+    const items: SubgraphReconciliationItem[] = [];
+
+    for (const record of records) {
+      const event = byKey.get(record.key);
+      byKey.delete(record.key);
+      if (!event && (!record.settled || this.pastHead(record, head))) continue;
+
+      let status: SubgraphReconciliationStatus = "MATCHED";
+      if (!event) {
+        status = "MISSING_ONCHAIN";
+      } else if (record.txHash && record.txHash.toLowerCase() !== event.txHash.toLowerCase()) {
+        status = "TX_MISMATCH";
+      } else if (record.amount !== null && record.amount !== event.amount) {
+        status = "AMOUNT_MISMATCH";
+      }
+      items.push({
+        type,
+        status,
+        recordId: record.id,
+        onchainId: record.key,
+        expected: { amount: record.amount, txHash: record.txHash },
+        actual: event ? this.toActual(event) : null,
+      });
+    }
+
+    for (const event of byKey.values()) {
+      items.push({
+        type,
+        status: "UNRECORDED",
+        recordId: null,
+        onchainId: event.key,
+        expected: null,
+        actual: this.toActual(event),
+      });
+    }
+    return items;
+  }
+
+  /**
+   * Whether a record settled beyond what the subgraph has indexed. Records
+   * without a block are placed by when they were seen settled, which is at
+   * or after their block.
+   */
+  private pastHead(record: LedgerRecord, head: SubgraphHead): boolean {
+    if (record.blockNumber !== null) {
+      return BigInt(record.blockNumber) > BigInt(head.number);
+    }
+    if (record.settledAt && head.timestamp !== null) {
+      return record.settledAt.getTime() > head.timestamp * 1000;
+    }
+    return false;
+  }
+
+  private toActual(event: OnchainEvent) {
+    return { amount: event.amount, txHash: event.txHash, blockNumber: event.blockNumber };
+  }
+
+  /**
+   * Page through an entity collection by id
+   */
+  private async fetchAll<T extends { id: string }>(
+    collection: string,
+    filterType: string,
+    fields: string,
+    where: Record<string, any>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    let lastId = "";
+    for (;;) {
+      const data = await this.query<Record<string, T[]>>(
+        `query ($where: ${filterType}!) {
+          ${collection}(first: ${PAGE_SIZE}, orderBy: id, orderDirection: asc, where: $where) { id ${fields} }
+        }`,
+        { where: { ...where, id_gt: lastId } }
+      );
+      const page = data[collection];
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+      lastId = page[page.length - 1].id;
+    }
+  }
+
+  private async query<T>(query: string, variables?: Record<string, any>): Promise<T> {
+    const url = process.env.SUBGRAPH_URL;
+    if (!url) {
+      throw new ServiceUnavailableException("SUBGRAPH_URL not configured");
+    }
+
+    let body: { data?: T; errors?: { message: string }[] };
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query, variables }),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status} ${await response.text()}`);
+      }
+      body = (await response.json()) as typeof body;
+    } catch (error: any) {
+      throw new ServiceUnavailableException(`Subgraph query failed: ${error.message}`);
+    }
+    if (body.errors?.length || !body.data) {
+      throw new ServiceUnavailableException(
+        `Subgraph query failed: ${body.errors?.map((e) => e.message).join("; ") || "no data"}`
+      );
+    }
+    return body.data;
+  }
+}
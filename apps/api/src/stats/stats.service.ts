@@ -68,6 +68,7 @@ export class StatsService {
         if (existingDonationIds.has(doc.id)) continue;
         
         const data = doc.data();
+        if (data.refunded) continue;
         if (data.type === "INR") {
           const amountInr = parseFloat(data.amount || "0");
           if (amountInr > 0 && data.orderId) {
@@ -134,6 +135,12 @@ export class StatsService {
           return sum;
         }
         
+        // Refunded donations no longer count toward the campaign
+        if (donation.refunded) {
+          skippedCount++;
+          return sum;
+        }
+        
         if (donation.type === "INR") {
           // EXACT same logic as featured campaigns
           const amount = parseFloat(donation.amountNative || "0");
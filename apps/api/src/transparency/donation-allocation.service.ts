@@ -167,6 +167,72 @@ export class DonationAllocationService {
     return { allocations, milestonesCompleted };
   }
 
+  /**
+   * Reverse a refunded donation's milestone allocations
+   * Must be called within a Firestore transaction, after the caller's reads
+   * and before its writes (it does both)
+   */
+  async reverseDonationAllocations(
+    transaction: admin.firestore.Transaction,
+    donationId: string
+  ): Promise<DonationAllocationDoc[]> {
+    const db = admin.firestore();
+    const allocationsSnapshot = await transaction.get(
+      db.collection("donation_allocations").where("donationId", "==", donationId)
+    );
+    if (allocationsSnapshot.empty) {
+      return [];
+    }
+
+    const reversed = allocationsSnapshot.docs.map((doc) => doc.data() as DonationAllocationDoc);
+    const milestoneIds = Array.from(new Set(reversed.map((allocation) => allocation.milestoneId)));
+    const milestoneSnaps = await transaction.getAll(
+      ...milestoneIds.map((id) => db.collection("milestones").doc(id))
+    );
+
+    for (const milestoneSnap of milestoneSnaps) {
+      if (!milestoneSnap.exists) continue;
+      const milestone = milestoneSnap.data() as MilestoneDoc;
+      const milestoneUpdate: Partial<MilestoneDoc> = {};
+      let clearFundingCompletedAt = false;
+
+      let receivedInr = parseFloat(milestone.receivedAmountInr || "0");
+      let receivedCrypto = parseFloat(milestone.receivedAmountCrypto || "0");
+      for (const allocation of reversed) {
+        if (allocation.milestoneId !== milestoneSnap.id) continue;
+        if (allocation.currency === "INR") {
+          receivedInr = Math.max(0, receivedInr - parseFloat(allocation.amount));
+          milestoneUpdate.receivedAmountInr = receivedInr.toFixed(18);
+        } else {
+          receivedCrypto = Math.max(0, receivedCrypto - parseFloat(allocation.amount));
+          milestoneUpdate.receivedAmountCrypto = receivedCrypto.toFixed(18);
+        }
+      }
+
+      // Milestones already in withdrawal review or paid out keep their status
+      if (milestone.status === "FUNDING_COMPLETED" || milestone.status === "IN_PROGRESS") {
+        const target = parseFloat(milestone.targetAmountInr || milestone.targetAmountCrypto || "0");
+        const received = milestone.targetAmountInr ? receivedInr : receivedCrypto;
+        if (received < target) {
+          milestoneUpdate.status = (received > 0 ? "IN_PROGRESS" : "NOT_STARTED") as MilestoneStatus;
+          clearFundingCompletedAt = milestone.status === "FUNDING_COMPLETED";
+        }
+      }
+
+      transaction.update(milestoneSnap.ref, {
+        ...milestoneUpdate,
+        ...(clearFundingCompletedAt ? { fundingCompletedAt: admin.firestore.FieldValue.delete() } : {}),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    // Allocation records are removed so received/withdrawable sums stay correct;
+    // the caller's DONATION_REFUNDED event keeps the audit trail
+    allocationsSnapshot.docs.forEach((doc) => transaction.delete(doc.ref));
+
+    return reversed;
+  }
+
   /**
    * Get total received amount for a milestone in a specific currency
    */
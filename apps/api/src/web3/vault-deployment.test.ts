@@ -0,0 +1,227 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  concat,
+  createPublicClient,
+  createWalletClient,
+  encodeAbiParameters,
+  getContractAddress,
+  http,
+  keccak256,
+  stringToHex,
+  toHex,
+  zeroHash,
+} from "viem";
+import type { Abi, Address, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { Web3Service } from "./web3.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { getTestAdminFirestore, clearFirestoreCollections, startAnvil, AnvilNode } from "@opencause/testkit";
+
+// Forge artifacts; build them with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(
+    readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8")
+  );
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+describe("Web3Service vault deployment", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let service: Web3Service;
+  let factoryAddress: Address;
+  let registryAddress: Address;
+  const env = { ...process.env };
+
+  const safeAddress = "0x5afe000000000000000000000000000000005afe";
+  const organizer = privateKeyToAccount(`0x${"22".repeat(32)}`);
+  const reviewer = privateKeyToAccount(`0x${"33".repeat(32)}`);
+  const campaignId = "0123456789abcdef0123456789abcdef";
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+
+  const deploy = async (name: string, args: any[]) => {
+    const { abi, bytecode } = artifact(name);
+    const wallet = createWalletClient({
+      account: privateKeyToAccount(anvil.privateKeys[0]),
+      transport: http(anvil.rpcUrl),
+    });
+    const hash = await wallet.deployContract({ abi, bytecode, args, chain: null });
+    return (await client().waitForTransactionReceipt({ hash })).contractAddress!;
+  };
+
+  // Address CampaignVaultFactory creates the native vault at
+  const expectedNativeVault = () =>
+    getContractAddress({
+      opcode: "CREATE2",
+      from: factoryAddress,
+      salt: keccak256(concat([stringToHex(campaignId, { size: 32 }), zeroHash])),
+      bytecode: concat([
+        artifact("CampaignNativeVault").bytecode,
+        encodeAbiParameters(
+          [{ type: "bytes32" }, { type: "address" }],
+          [stringToHex(campaignId, { size: 32 }), safeAddress]
+        ),
+      ]),
+    });
+
+  beforeAll(async () => {
+    // Polygon's chain id, so the registry's polygon_mainnet assets resolve to this node
+    anvil = await startAnvil({ port: 8546, chainId: 137 });
+    factoryAddress = await deploy("CampaignVaultFactory", [safeAddress]);
+    registryAddress = await deploy("RoleRegistry", []);
+  }, 30_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["vault_deployments", "role_grants", "campaign_deposits", "campaigns"]);
+    await db.collection("campaigns").doc(campaignId).set({ status: "ACTIVE", organizerId: "org1" });
+
+    process.env = { ...env };
+    process.env.TREASURY_SIGNER = "local";
+    process.env.PRIVATE_KEY = anvil.privateKeys[0];
+    process.env.POLYGON_MAINNET_RPC_URL = anvil.rpcUrl;
+    process.env.POLYGON_MAINNET_VAULT_FACTORY_ADDRESS = factoryAddress;
+    process.env.POLYGON_MAINNET_ROLE_REGISTRY_ADDRESS = registryAddress;
+
+    const firebase = {
+      firestore: db,
+      updateCampaign: (id: string, data: any) => db.collection("campaigns").doc(id).update(data),
+    };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [Web3Service, { provide: FirebaseService, useValue: firebase }],
+    }).compile();
+    service = module.get<Web3Service>(Web3Service);
+  });
+
+  it("only deploys on networks with a factory configured", () => {
+    expect(service.getVaultNetworks().map((v) => v.network.networkId)).toEqual(["polygon_mainnet"]);
+  });
+
+  it("deploys the native vault at its CREATE2 address and records the receipt", async () => {
+    const deployment = await service.deployCampaignVault(campaignId, "polygon_mainnet", "matic_polygon_mainnet");
+
+    expect(deployment).toMatchObject({
+      id: `${campaignId}_matic_polygon_mainnet_polygon_mainnet`,
+      status: "DEPLOYED",
+      chainId: 137,
+      token: null,
+      vaultAddress: expectedNativeVault(),
+      receipt: { status: "success" },
+    });
+    expect(deployment.txHash).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(deployment.explorerUrl).toBe(`https://polygonscan.com/tx/${deployment.txHash}`);
+
+    // The treasury Safe, not the deployer, controls the vault
+    const hasRole = await client().readContract({
+      address: deployment.vaultAddress as Address,
+      abi: artifact("CampaignNativeVault").abi,
+      functionName: "hasRole",
+      args: [keccak256(toHex("TREASURY_ROLE")), safeAddress],
+      authorizationList: [],
+    });
+    expect(hasRole).toBe(true);
+  });
+
+  it("does not deploy a vault twice", async () => {
+    const first = await service.deployCampaignVault(campaignId, "polygon_mainnet", "matic_polygon_mainnet");
+    const again = await service.deployCampaignVault(campaignId, "polygon_mainnet", "matic_polygon_mainnet");
+    expect(again).toMatchObject({ vaultAddress: first.vaultAddress, txHash: first.txHash });
+
+    // A lost record is rebuilt from the factory instead of reverting
+    await db.collection("vault_deployments").doc(first.id).delete();
+    const recovered = await service.deployCampaignVault(campaignId, "polygon_mainnet", "matic_polygon_mainnet");
+    expect(recovered).toMatchObject({ status: "DEPLOYED", vaultAddress: first.vaultAddress, txHash: null });
+  });
+
+  it("sends the factory tx from one of two concurrent runs", async () => {
+    const racedCampaignId = "fedcba9876543210fedcba9876543210";
+    const runs = await Promise.allSettled([
+      service.deployCampaignVault(racedCampaignId, "polygon_mainnet", "matic_polygon_mainnet"),
+      service.deployCampaignVault(racedCampaignId, "polygon_mainnet", "matic_polygon_mainnet"),
+    ]);
+
+    // The run that lost the claim backs off or picks up the winner's tx
+    const deployed = runs.flatMap((run) => (run.status === "fulfilled" ? [run.value] : []));
+    const rejected = runs.flatMap((run) => (run.status === "rejected" ? [run.reason.message] : []));
+    expect(new Set(deployed.map((d) => d.txHash)).size).toBe(1);
+    expect(rejected).toEqual(rejected.map(() => expect.stringContaining("already in progress")));
+    const doc = await db
+      .collection("vault_deployments")
+      .doc(`${racedCampaignId}_matic_polygon_mainnet_polygon_mainnet`)
+      .get();
+    expect(doc.get("status")).toBe("DEPLOYED");
+  });
+
+  it("waits for a submitted role grant instead of sending it again", async () => {
+    const admin = privateKeyToAccount(anvil.privateKeys[0]);
+    const txHash = await createWalletClient({ account: admin, transport: http(anvil.rpcUrl) }).writeContract({
+      address: registryAddress,
+      abi: artifact("RoleRegistry").abi,
+      functionName: "grantReviewer",
+      args: [reviewer.address],
+      account: admin,
+      chain: null,
+    });
+    const grantRef = db.collection("role_grants").doc(`polygon_mainnet_REVIEWER_${reviewer.address.toLowerCase()}`);
+    await grantRef.set({
+      networkId: "polygon_mainnet",
+      registryAddress,
+      role: "REVIEWER",
+      account: reviewer.address,
+      userId: "rev1",
+      status: "SUBMITTED",
+      txHash,
+      blockNumber: null,
+      error: null,
+    });
+
+    await service.deployCampaignVaults(campaignId, { reviewer: { userId: "rev1", address: reviewer.address } });
+
+    expect((await grantRef.get()).data()).toMatchObject({ status: "GRANTED", txHash });
+  });
+
+  it("deploys every enabled asset, grants the organizer role and sets the campaign vault", async () => {
+    await db.collection("campaign_deposits").doc(`${campaignId}_usdc_polygon_mainnet_polygon_mainnet`).set({
+      campaignId,
+      assetId: "usdc_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      address: "0x000000000000000000000000000000000000dEaD",
+    });
+
+    const deployments = await service.deployCampaignVaults(campaignId, {
+      organizer: { userId: "org1", address: organizer.address },
+    });
+
+    expect(deployments.length).toBeGreaterThan(1);
+    expect(deployments.every((d) => d.status === "DEPLOYED")).toBe(true);
+    expect(new Set(deployments.map((d) => d.vaultAddress)).size).toBe(deployments.length);
+
+    const usdc = deployments.find((d) => d.assetId === "usdc_polygon_mainnet")!;
+    const deposit = await db.collection("campaign_deposits").doc(usdc.id).get();
+    expect(deposit.get("vaultAddress")).toBe(usdc.vaultAddress);
+
+    const campaign = await db.collection("campaigns").doc(campaignId).get();
+    expect(campaign.get("vaultAddress")).toBe(expectedNativeVault());
+
+    const hasRole = await client().readContract({
+      address: registryAddress,
+      abi: artifact("RoleRegistry").abi,
+      functionName: "hasRole",
+      args: [keccak256(toHex("ORGANIZER_ROLE")), organizer.address],
+      authorizationList: [],
+    });
+    expect(hasRole).toBe(true);
+    const grant = await db
+      .collection("role_grants")
+      .doc(`polygon_mainnet_ORGANIZER_${organizer.address.toLowerCase()}`)
+      .get();
+    expect(grant.data()).toMatchObject({ status: "GRANTED", userId: "org1", registryAddress });
+  });
+});
@@ -0,0 +1,90 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { keccak256, recoverAddress, recoverTransactionAddress, toHex } from "viem";
+import type { TransactionSerialized } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { toSignerAccount } from "@opencause/crypto-core";
+import { Web3Service } from "./web3.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("Web3Service treasury signer", () => {
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  const env = { ...process.env };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [Web3Service, { provide: FirebaseService, useValue: { firestore: db } }],
+    }).compile();
+    return module.get<Web3Service>(Web3Service);
+  };
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["key_configs"]);
+    process.env.TREASURY_SIGNER = "kms-emulator";
+    process.env.TREASURY_KMS_KEY_ID = "arn:aws:kms:ap-south-1:000000000000:key/treasury-test";
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it("derives the KMS key's address once and caches it in key_configs", async () => {
+    const address = await (await createService()).getSigner().getEthereumAddress();
+
+    const configs = await db.collection("key_configs").where("type", "==", "KMS").get();
+    expect(configs.docs).toHaveLength(1);
+    expect(configs.docs[0].data()).toMatchObject({
+      kmsKeyRef: process.env.TREASURY_KMS_KEY_ID,
+      address,
+    });
+
+    // A fresh service reads the cached address
+    await configs.docs[0].ref.update({ address: "0x000000000000000000000000000000000000dEaD" });
+    expect(await (await createService()).getSigner().getEthereumAddress()).toBe(
+      "0x000000000000000000000000000000000000dEaD"
+    );
+  });
+
+  it("returns low-s signatures with the recovery id of the KMS key", async () => {
+    const signer = (await createService()).getSigner();
+    const address = await signer.getEthereumAddress();
+    const halfN = BigInt("0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141") / 2n;
+
+    for (let i = 0; i < 8; i++) {
+      const hash = keccak256(toHex(`digest-${i}`));
+      const { r, s, v } = await signer.signDigest32(hash);
+
+      expect(BigInt(s) <= halfN).toBe(true);
+      expect(await recoverAddress({ hash, signature: { r, s, v: BigInt(v) } })).toBe(address);
+    }
+  });
+
+  it("signs transactions through the signer account", async () => {
+    const signer = (await createService()).getSigner();
+    const account = await toSignerAccount(signer);
+
+    const serializedTransaction = (await account.signTransaction!({
+      chainId: 1101,
+      to: "0x000000000000000000000000000000000000dEaD",
+      value: 1n,
+      nonce: 0,
+      gas: 21000n,
+      maxFeePerGas: 1n,
+      maxPriorityFeePerGas: 1n,
+    })) as TransactionSerialized;
+
+    expect(await recoverTransactionAddress({ serializedTransaction })).toBe(await signer.getEthereumAddress());
+  });
+
+  it("signs with PRIVATE_KEY under the local signer", async () => {
+    const privateKey = `0x${"11".repeat(32)}` as const;
+    process.env.TREASURY_SIGNER = "local";
+    process.env.PRIVATE_KEY = privateKey;
+
+    const signer = (await createService()).getSigner();
+
+    expect(await signer.getEthereumAddress()).toBe(privateKeyToAccount(privateKey).address);
+    expect((await db.collection("key_configs").get()).empty).toBe(true);
+  });
+});
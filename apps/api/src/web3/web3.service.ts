@@ -1,28 +1,72 @@
 import { Injectable } from "@nestjs/common";
-import { createWalletClient, createPublicClient, http, formatUnits } from "viem";
-import { privateKeyToAccount } from "viem/accounts";
+import {
+  createWalletClient,
+  createPublicClient,
+  http,
+  formatUnits,
+  keccak256,
+  pad,
+  parseAbi,
+  stringToHex,
+  toHex,
+  zeroAddress,
+  zeroHash,
+} from "viem";
 import { polygonZkEvm } from "viem/chains";
-import type { Address } from "viem";
+import type { Account, Address, Hash } from "viem";
+import * as admin from "firebase-admin";
 import { AnchorEvidenceDto } from "@opencause/types";
-import { createHash } from "crypto";
+import {
+  createTreasurySigner,
+  CryptoNetwork,
+  getAsset,
+  getAssetsByNetwork,
+  getEnabledNetworks,
+  toSignerAccount,
+  TreasurySigner,
+} from "@opencause/crypto-core";
+import { EvidenceAnchorDoc, FirestoreRepository, RoleGrantDoc, VaultDeploymentDoc } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+
+const VAULT_FACTORY_ABI = parseAbi([
+  "function createNativeVault(bytes32 campaignId) returns (address vault)",
+  "function createTokenVault(bytes32 campaignId, address token) returns (address vault)",
+  "function vaults(bytes32 campaignId, bytes32 assetId) view returns (address)",
+]);
+
+const ROLE_REGISTRY_ABI = parseAbi([
+  "function hasRole(bytes32 role, address account) view returns (bool)",
+  "function grantOrganizer(address account)",
+  "function grantReviewer(address account)",
+]);
+
+// How long a PENDING vault deployment belongs to the run that claimed it; a
+// run that died before sending the factory tx is taken over after this
+const VAULT_DEPLOYMENT_CLAIM_MS = 10 * 60 * 1000;
+
+// Enabled EVM network with a vault factory deployed on it
+export interface VaultNetwork {
+  network: CryptoNetwork;
+  rpcUrl: string;
+  factoryAddress: Address;
+  roleRegistryAddress: Address | null;
+}
+
+export interface CampaignRoleHolder {
+  userId: string;
+  address: string;
+}
 
 @Injectable()
 export class Web3Service {
-  private account = privateKeyToAccount(
-    (process.env.PRIVATE_KEY || "0x0000000000000000000000000000000000000000000000000000000000000001") as `0x${string}`
-  );
+  private signer: TreasurySigner | null = null;
+  private account: Account | null = null;
 
   private publicClient = createPublicClient({
     chain: polygonZkEvm,
     transport: http(process.env.RPC_URL || "https://rpc.public.zkevm-test.net"),
   });
 
-  private walletClient = createWalletClient({
-    account: this.account,
-    chain: polygonZkEvm,
-    transport: http(process.env.RPC_URL || "https://rpc.public.zkevm-test.net"),
-  });
-
   // Common token addresses on Polygon zkEVM
   private readonly TOKEN_ADDRESSES: Record<string, string> = {
     USDC: process.env.USDC_TOKEN_ADDRESS || "0xA8CE8aee21bC2A48a5EF670afCc9254C68Dd62c3", // Polygon zkEVM USDC
@@ -30,37 +74,454 @@ export class Web3Service {
     NATIVE: "0x0000000000000000000000000000000000000000", // Native token (ETH/MATIC)
   };
 
+  constructor(private firebase: FirebaseService) {}
+
   /**
-   * Deploy campaign vault (stub - returns mock address for MVP)
-   * In production, this should deploy the actual CampaignVault contract
+   * Treasury signer (TREASURY_SIGNER); every transaction the API sends is
+   * signed through it. KMS key addresses are cached in key_configs.
    */
-  async deployCampaignVault(campaignId: string, organizerAddress: string): Promise<string> {
-    // For MVP, generate a deterministic address from campaign ID
-    // This ensures the same campaign always gets the same vault address
-    // In production, deploy actual CampaignVault contract using CREATE2
-    
-    // Create deterministic address from campaign ID
-    const hash = createHash("sha256").update(`vault-${campaignId}`).digest("hex");
-    
-    // Take first 40 characters and prefix with 0x for valid Ethereum address
-    const address = `0x${hash.substring(0, 40)}`;
-    
-    // Validate address format
-    if (!address.startsWith("0x") || address.length !== 42) {
-      throw new Error(`Invalid vault address generated: ${address}`);
+  getSigner(): TreasurySigner {
+    if (!this.signer) {
+      const repo = new FirestoreRepository(this.firebase.firestore);
+      this.signer = createTreasurySigner({
+        get: async (keyRef) => (await repo.getSignerAddress(keyRef)) as Address | null,
+        set: (keyRef, address) => repo.setSignerAddress(keyRef, address),
+      });
     }
-    
-    return address;
+    return this.signer;
+  }
+
+  private async getAccount(): Promise<Account> {
+    if (!this.account) {
+      this.account = await toSignerAccount(this.getSigner());
+    }
+    return this.account;
   }
 
   /**
-   * Anchor evidence hash on-chain
+   * Networks campaign vaults are deployed on: enabled EVM networks with
+   * <NETWORK_ID>_RPC_URL and <NETWORK_ID>_VAULT_FACTORY_ADDRESS set.
+   * <NETWORK_ID>_ROLE_REGISTRY_ADDRESS enables role grants on the network.
    */
-  async anchorEvidence(dto: AnchorEvidenceDto): Promise<string> {
-    // For MVP, simulate anchoring
-    // In production, call EvidenceRegistry.anchorEvidence()
-    console.log("Anchoring evidence:", dto);
-    return "0x" + "0".repeat(64); // Mock tx hash
+  getVaultNetworks(): VaultNetwork[] {
+    return getEnabledNetworks()
+      .filter((network) => network.type === "EVM")
+      .map((network) => {
+        const prefix = network.networkId.toUpperCase().replace(/-/g, "_");
+        return {
+          network,
+          rpcUrl: process.env[`${prefix}_RPC_URL`] || "",
+          factoryAddress: (process.env[`${prefix}_VAULT_FACTORY_ADDRESS`] || "") as Address,
+          roleRegistryAddress: (process.env[`${prefix}_ROLE_REGISTRY_ADDRESS`] || null) as Address | null,
+        };
+      })
+      .filter((v) => v.rpcUrl && v.factoryAddress);
+  }
+
+  /**
+   * Deploy a vault for every enabled asset on every vault network, then grant
+   * the organizer and reviewer their RoleRegistry roles. A failed vault is
+   * recorded on its vault_deployments doc and the others carry on; running
+   * this again resumes whatever did not finish.
+   */
+  async deployCampaignVaults(
+    campaignId: string,
+    roles: { organizer?: CampaignRoleHolder | null; reviewer?: CampaignRoleHolder | null } = {}
+  ): Promise<Array<VaultDeploymentDoc & { id: string }>> {
+    const deployments: Array<VaultDeploymentDoc & { id: string }> = [];
+
+    for (const vaultNetwork of this.getVaultNetworks()) {
+      const { network } = vaultNetwork;
+      const assets = getAssetsByNetwork(network.networkId).filter(
+        (asset) => asset.assetType === "NATIVE" || asset.assetType === "ERC20"
+      );
+
+      for (const asset of assets) {
+        try {
+          deployments.push(await this.deployCampaignVault(campaignId, network.networkId, asset.assetId));
+        } catch (error: any) {
+          console.error(`[VaultDeployment] ${campaignId} ${asset.assetId} failed:`, error.message);
+          const failed = await this.vaultDeploymentRef(campaignId, asset.assetId, network.networkId).get();
+          if (failed.exists) {
+            deployments.push({ id: failed.id, ...(failed.data() as VaultDeploymentDoc) });
+          }
+        }
+      }
+
+      for (const [role, holder] of [["ORGANIZER", roles.organizer], ["REVIEWER", roles.reviewer]] as const) {
+        if (!holder?.address || !vaultNetwork.roleRegistryAddress) continue;
+        try {
+          await this.grantRole(vaultNetwork, role, holder);
+        } catch (error: any) {
+          console.error(`[VaultDeployment] ${role} grant to ${holder.address} failed:`, error.message);
+        }
+      }
+    }
+
+    // campaign.vaultAddress is the native vault on the first network; this
+    // also replaces the placeholder addresses older campaigns were created with
+    const native = deployments.find((d) => d.status === "DEPLOYED" && !d.token);
+    if (native) {
+      const campaign = await new FirestoreRepository(this.firebase.firestore).getCampaign(campaignId);
+      if (campaign && campaign.vaultAddress !== native.vaultAddress) {
+        await this.firebase.updateCampaign(campaignId, { vaultAddress: native.vaultAddress });
+      }
+    }
+
+    return deployments;
+  }
+
+  /**
+   * Deploy one campaign vault through CampaignVaultFactory (CREATE2, salt
+   * keccak256(campaignId, assetId)). Progress is tracked on
+   * vault_deployments/{campaignId_assetId_networkId}; a deployed vault is
+   * returned as is and a submitted one is resumed from its tx hash.
+   */
+  async deployCampaignVault(
+    campaignId: string,
+    networkId: string,
+    assetId: string
+  ): Promise<VaultDeploymentDoc & { id: string }> {
+    const ref = this.vaultDeploymentRef(campaignId, assetId, networkId);
+    const existing = (await ref.get()).data() as VaultDeploymentDoc | undefined;
+    if (existing?.status === "DEPLOYED") {
+      return { id: ref.id, ...existing };
+    }
+
+    const vaultNetwork = this.getVaultNetworks().find((v) => v.network.networkId === networkId);
+    const asset = getAsset(assetId);
+    if (!vaultNetwork) {
+      throw new Error(`No vault factory configured for ${networkId}`);
+    }
+    if (!asset || asset.networkId !== networkId) {
+      throw new Error(`Unknown asset ${assetId} on ${networkId}`);
+    }
+
+    const { network, rpcUrl, factoryAddress } = vaultNetwork;
+    const client = createPublicClient({ transport: http(rpcUrl) });
+    const chainId = await client.getChainId();
+    if (chainId !== network.chainId) {
+      throw new Error(`RPC for ${networkId} is on chain ${chainId}, expected ${network.chainId}`);
+    }
+
+    const campaignIdBytes32 = stringToHex(campaignId, { size: 32 });
+    const token = asset.assetType === "ERC20" ? (asset.contractAddress as Address) : null;
+    const vaultAssetId = token ? pad(token, { size: 32 }) : zeroHash;
+    const now = admin.firestore.Timestamp.now();
+
+    let txHash = existing?.status === "SUBMITTED" ? (existing.txHash as Hash) : null;
+    let vaultAddress = existing?.vaultAddress as Address | undefined;
+
+    if (!txHash) {
+      const deployed = await client.readContract({
+        address: factoryAddress,
+        abi: VAULT_FACTORY_ABI,
+        functionName: "vaults",
+        args: [campaignIdBytes32, vaultAssetId],
+        authorizationList: [],
+      });
+
+      const base: VaultDeploymentDoc = {
+        campaignId,
+        networkId,
+        assetId,
+        chainId,
+        factoryAddress,
+        campaignIdBytes32,
+        token,
+        vaultAddress: deployed,
+        status: "PENDING",
+        txHash: null,
+        explorerUrl: null,
+        receipt: null,
+        error: null,
+        deployedAt: null,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      // Already created by the factory (e.g. a lost deployment record)
+      if (deployed !== zeroAddress) {
+        const doc: VaultDeploymentDoc = { ...base, status: "DEPLOYED", deployedAt: now };
+        await ref.set(doc);
+        await this.recordVaultOnDeposit(ref.id, deployed);
+        return { id: ref.id, ...doc };
+      }
+
+      const account = await this.getAccount();
+      const { result } = token
+        ? await client.simulateContract({
+            account,
+            address: factoryAddress,
+            abi: VAULT_FACTORY_ABI,
+            functionName: "createTokenVault",
+            args: [campaignIdBytes32, token],
+          })
+        : await client.simulateContract({
+            account,
+            address: factoryAddress,
+            abi: VAULT_FACTORY_ABI,
+            functionName: "createNativeVault",
+            args: [campaignIdBytes32],
+          });
+      vaultAddress = result;
+
+      // Claimed in a transaction so two runs never send the factory tx twice
+      const claimed = await this.claimVaultDeployment(ref, { ...base, vaultAddress });
+      if (claimed.status === "DEPLOYED") {
+        return { id: ref.id, ...claimed };
+      }
+      txHash = claimed.status === "SUBMITTED" ? (claimed.txHash as Hash) : null;
+    }
+
+    if (!txHash) {
+      const account = await this.getAccount();
+      try {
+        const walletClient = createWalletClient({ account, transport: http(rpcUrl) });
+        txHash = token
+          ? await walletClient.writeContract({
+              address: factoryAddress,
+              abi: VAULT_FACTORY_ABI,
+              functionName: "createTokenVault",
+              args: [campaignIdBytes32, token],
+              account,
+              chain: null,
+            })
+          : await walletClient.writeContract({
+              address: factoryAddress,
+              abi: VAULT_FACTORY_ABI,
+              functionName: "createNativeVault",
+              args: [campaignIdBytes32],
+              account,
+              chain: null,
+            });
+      } catch (error: any) {
+        await this.settleVaultDeployment(ref, { status: "FAILED", error: error.shortMessage || error.message });
+        throw error;
+      }
+
+      await ref.update({
+        status: "SUBMITTED",
+        txHash,
+        explorerUrl: `${network.explorerBaseUrl}/tx/${txHash}`,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+    }
+
+    const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+    const summary = {
+      blockNumber: receipt.blockNumber.toString(),
+      gasUsed: receipt.gasUsed.toString(),
+      status: receipt.status,
+    };
+
+    if (receipt.status !== "success") {
+      await this.settleVaultDeployment(ref, {
+        status: "FAILED",
+        receipt: summary,
+        error: "Factory transaction reverted",
+      });
+      throw new Error(`Vault deployment ${txHash} reverted`);
+    }
+
+    await this.settleVaultDeployment(ref, {
+      status: "DEPLOYED",
+      receipt: summary,
+      error: null,
+      deployedAt: admin.firestore.Timestamp.now(),
+    });
+    await this.recordVaultOnDeposit(ref.id, vaultAddress!);
+
+    return { id: ref.id, ...((await ref.get()).data() as VaultDeploymentDoc) };
+  }
+
+  /**
+   * Record a PENDING deployment unless another run got there first: returns
+   * the deployment as it stands if it is DEPLOYED or SUBMITTED, and throws
+   * while another run's claim is fresh
+   */
+  private async claimVaultDeployment(
+    ref: admin.firestore.DocumentReference,
+    pending: VaultDeploymentDoc
+  ): Promise<VaultDeploymentDoc> {
+    return this.firebase.firestore.runTransaction(async (t) => {
+      const current = (await t.get(ref)).data() as VaultDeploymentDoc | undefined;
+      if (current?.status === "DEPLOYED" || (current?.status === "SUBMITTED" && current.txHash)) {
+        return current;
+      }
+      if (
+        current?.status === "PENDING" &&
+        current.updatedAt &&
+        Date.now() - current.updatedAt.toMillis() < VAULT_DEPLOYMENT_CLAIM_MS
+      ) {
+        throw new Error(`Vault deployment ${ref.id} is already in progress`);
+      }
+      t.set(ref, pending);
+      return pending;
+    });
+  }
+
+  /**
+   * Settle a deployment; a vault another run already marked DEPLOYED stays
+   * deployed
+   */
+  private async settleVaultDeployment(
+    ref: admin.firestore.DocumentReference,
+    update: Partial<VaultDeploymentDoc>
+  ): Promise<void> {
+    await this.firebase.firestore.runTransaction(async (t) => {
+      if ((await t.get(ref)).get("status") === "DEPLOYED") return;
+      t.update(ref, { ...update, updatedAt: admin.firestore.Timestamp.now() });
+    });
+  }
+
+  /**
+   * Vault of a campaign asset, once deployed
+   */
+  async getDeployedVault(campaignId: string, assetId: string, networkId: string): Promise<string | null> {
+    const doc = await this.vaultDeploymentRef(campaignId, assetId, networkId).get();
+    return doc.exists && doc.get("status") === "DEPLOYED" ? (doc.get("vaultAddress") as string) : null;
+  }
+
+  /**
+   * Vault deployments of a campaign
+   */
+  async getVaultDeployments(campaignId: string): Promise<Array<VaultDeploymentDoc & { id: string }>> {
+    const snapshot = await this.firebase.firestore
+      .collection("vault_deployments")
+      .where("campaignId", "==", campaignId)
+      .get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as VaultDeploymentDoc) }));
+  }
+
+  private vaultDeploymentRef(campaignId: string, assetId: string, networkId: string) {
+    // Same id as the campaign's campaign_deposits doc for the asset
+    return this.firebase.firestore.collection("vault_deployments").doc(`${campaignId}_${assetId}_${networkId}`);
+  }
+
+  /**
+   * Point an existing campaign deposit at its vault; deposits created later
+   * pick the vault up from vault_deployments
+   */
+  private async recordVaultOnDeposit(depositId: string, vaultAddress: string): Promise<void> {
+    const depositRef = this.firebase.firestore.collection("campaign_deposits").doc(depositId);
+    if ((await depositRef.get()).exists) {
+      await depositRef.update({ vaultAddress });
+    }
+  }
+
+  /**
+   * Grant ORGANIZER or REVIEWER on the network's RoleRegistry (the treasury
+   * signer must hold its admin role), tracked on role_grants; a submitted
+   * grant is resumed from its tx hash
+   */
+  private async grantRole(
+    vaultNetwork: VaultNetwork,
+    role: RoleGrantDoc["role"],
+    holder: CampaignRoleHolder
+  ): Promise<RoleGrantDoc> {
+    const { network, rpcUrl } = vaultNetwork;
+    const registryAddress = vaultNetwork.roleRegistryAddress!;
+    const account = holder.address as Address;
+    const ref = this.firebase.firestore
+      .collection("role_grants")
+      .doc(`${network.networkId}_${role}_${account.toLowerCase()}`);
+    const existing = (await ref.get()).data() as RoleGrantDoc | undefined;
+    if (existing?.status === "GRANTED") {
+      return existing;
+    }
+
+    const client = createPublicClient({ transport: http(rpcUrl) });
+    const now = admin.firestore.Timestamp.now();
+    const base: RoleGrantDoc = {
+      networkId: network.networkId,
+      registryAddress,
+      role,
+      account,
+      userId: holder.userId,
+      status: "GRANTED",
+      txHash: null,
+      blockNumber: null,
+      error: null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    // A grant sent by an earlier run is waited for rather than sent again
+    let txHash = existing?.status === "SUBMITTED" ? (existing.txHash as Hash | null) : null;
+    if (!txHash) {
+      const hasRole = await client.readContract({
+        address: registryAddress,
+        abi: ROLE_REGISTRY_ABI,
+        functionName: "hasRole",
+        args: [keccak256(toHex(`${role}_ROLE`)), account],
+        authorizationList: [],
+      });
+      if (hasRole) {
+        await ref.set(base);
+        return base;
+      }
+
+      const signer = await this.getAccount();
+      const walletClient = createWalletClient({ account: signer, transport: http(rpcUrl) });
+      txHash = await walletClient.writeContract({
+        address: registryAddress,
+        abi: ROLE_REGISTRY_ABI,
+        functionName: role === "ORGANIZER" ? "grantOrganizer" : "grantReviewer",
+        args: [account],
+        account: signer,
+        chain: null,
+      });
+      await ref.set({ ...base, status: "SUBMITTED", txHash });
+    }
+
+    const receipt = await client.waitForTransactionReceipt({ hash: txHash });
+    const grant: RoleGrantDoc = {
+      ...base,
+      status: receipt.status === "success" ? "GRANTED" : "FAILED",
+      txHash,
+      blockNumber: receipt.blockNumber.toString(),
+      error: receipt.status === "success" ? null : "Grant transaction reverted",
+      updatedAt: admin.firestore.Timestamp.now(),
+    };
+    await ref.set(grant);
+    return grant;
+  }
+
+  /**
+   * Queue an evidence hash for on-chain anchoring. The worker anchors queued
+   * hashes as Merkle roots through EvidenceRegistry (one root per campaign
+   * and kind per run) and stores each item's inclusion proof. Queuing the
+   * same hash again is a no-op. Returns the evidence_anchors doc id.
+   */
+  async anchorEvidence(dto: AnchorEvidenceDto, source?: EvidenceAnchorDoc["source"]): Promise<string> {
+    const hash = dto.evidenceHash.replace(/^0x/, "").toLowerCase();
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Evidence hash must be 32 bytes of hex, got ${dto.evidenceHash}`);
+    }
+    if (!dto.campaignId) {
+      throw new Error("Evidence must belong to a campaign to be anchored");
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const anchor: EvidenceAnchorDoc = {
+      evidenceHash: `0x${hash}`,
+      kind: dto.kind,
+      campaignId: dto.campaignId,
+      amount: dto.amount ?? null,
+      source: source || null,
+      status: "PENDING",
+      createdAt: now,
+      updatedAt: now,
+    };
+    const db = this.firebase.firestore;
+    const ref = db.collection("evidence_anchors").doc(hash);
+    await db.runTransaction(async (t) => {
+      if (!(await t.get(ref)).exists) {
+        t.create(ref, anchor);
+      }
+    });
+    return hash;
   }
 
   /**
@@ -137,7 +598,12 @@ export class Web3Service {
       });
 
       // Call the release function on the vault contract
-      const hash = await this.walletClient.writeContract({
+      const walletClient = createWalletClient({
+        account: await this.getAccount(),
+        chain: polygonZkEvm,
+        transport: http(process.env.RPC_URL || "https://rpc.public.zkevm-test.net"),
+      });
+      const hash = await walletClient.writeContract({
         address: vaultAddress as Address,
         abi: releaseAbi,
         functionName: "release",
@@ -148,8 +614,9 @@ export class Web3Service {
           payee as Address,
           `0x${evidenceHashBytes}` as `0x${string}`,
         ],
+        account: walletClient.account,
         chain: polygonZkEvm,
-      } as any);
+      });
 
       // Wait for transaction receipt
       const receipt = await this.publicClient.waitForTransactionReceipt({ hash });
@@ -183,11 +650,12 @@ export class Web3Service {
       ] as const;
 
       try {
-        const balance = await (this.publicClient as any).readContract({
+        const balance = await this.publicClient.readContract({
           address: tokenAddress as Address,
           abi: erc20Abi,
           functionName: "balanceOf",
           args: [address as Address],
+          authorizationList: [],
         });
         return balance.toString();
       } catch (error) {
@@ -0,0 +1,31 @@
+import { Controller, Get, Put, Delete, Param, Body, UseGuards } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { QuorumRuleDoc } from "@opencause/firebase";
+import { QuorumService } from "./quorum.service";
+
+@Controller("admin/quorum-rules")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class QuorumController {
+  constructor(private quorumService: QuorumService) {}
+
+  @Get()
+  @Roles("ADMIN", "REVIEWER")
+  async list() {
+    return this.quorumService.listRules();
+  }
+
+  @Put(":ruleId")
+  @Roles("ADMIN")
+  async upsert(@Param("ruleId") ruleId: string, @Body() body: Partial<QuorumRuleDoc>) {
+    return this.quorumService.upsertRule(ruleId, body);
+  }
+
+  @Delete(":ruleId")
+  @Roles("ADMIN")
+  async remove(@Param("ruleId") ruleId: string) {
+    await this.quorumService.deleteRule(ruleId);
+    return { success: true };
+  }
+}
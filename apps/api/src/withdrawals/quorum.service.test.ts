@@ -0,0 +1,212 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { BadRequestException, ForbiddenException } from "@nestjs/common";
+import { QuorumService, QuorumSubject } from "./quorum.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import { FxRateService } from "../crypto/fx-rate.service";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+
+describe("QuorumService", () => {
+  let service: QuorumService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let getRate: jest.Mock;
+
+  const subject: QuorumSubject = {
+    withdrawalId: "wd1",
+    campaignId: "camp1",
+    requesterId: "organizer1",
+    method: "INR",
+    amountInrPaise: "500000",
+  };
+
+  const review = (
+    reviewerId: string,
+    decision: "APPROVE" | "REJECT" = "APPROVE",
+    fields: Partial<QuorumSubject> = {}
+  ) =>
+    service.recordDecision(
+      { statusRef: db.collection("withdrawals_private").doc("wd1") },
+      { ...subject, ...fields },
+      reviewerId,
+      decision
+    );
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["campaigns", "withdrawals_private", "withdrawal_approvals", "quorum_rules"]);
+
+    await db.collection("campaigns").doc("camp1").set({
+      title: "Test Campaign",
+      organizerId: "organizer1",
+      reviewedBy: "reviewer1",
+      status: "ACTIVE",
+    });
+    await db.collection("withdrawals_private").doc("wd1").set({
+      campaignId: "camp1",
+      requestedByUid: "organizer1",
+      method: "INR",
+      amountInrPaise: "500000",
+      status: "PENDING",
+    });
+
+    getRate = jest.fn().mockResolvedValue("1");
+    const firebase = {
+      firestore: db,
+      getCampaignById: async (id: string) => {
+        const snap = await db.collection("campaigns").doc(id).get();
+        return snap.exists ? { id: snap.id, ...snap.data() } : null;
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuorumService,
+        { provide: FirebaseService, useValue: firebase },
+        { provide: FxRateService, useValue: { getRate } },
+      ],
+    }).compile();
+
+    service = module.get<QuorumService>(QuorumService);
+  });
+
+  it("keeps the reviewer who approved the campaign off its withdrawals", async () => {
+    await expect(review("reviewer1")).rejects.toThrow(ForbiddenException);
+    await expect(review("organizer1")).rejects.toThrow(ForbiddenException);
+
+    const quorum = await review("reviewer2");
+    expect(quorum).toMatchObject({ approvals: ["reviewer2"], outcome: "APPROVED" });
+  });
+
+  it("rejects crypto rules with a negative or non-numeric USD threshold", async () => {
+    const rule = { method: "CRYPTO" as const, requiredApprovals: 2 };
+
+    await expect(service.upsertRule("r1", { ...rule, minAmountUsd: -1 })).rejects.toThrow(BadRequestException);
+    await expect(service.upsertRule("r1", { ...rule, minAmountUsd: "5000" as any })).rejects.toThrow(
+      BadRequestException
+    );
+    await expect(service.upsertRule("r1", { ...rule, minAmountUsd: NaN })).rejects.toThrow(BadRequestException);
+    expect((await db.collection("quorum_rules").doc("r1").get()).exists).toBe(false);
+
+    await expect(service.upsertRule("r1", { ...rule, minAmountUsd: 2500 })).resolves.toMatchObject({
+      minAmountUsd: 2500,
+    });
+  });
+
+  describe("rule selection", () => {
+    it("requires two approvals for INR above ₹1,00,000", async () => {
+      await expect(service.buildQuorum({ ...subject, amountInrPaise: "10000000" })).resolves.toMatchObject({
+        required: 1,
+        ruleIds: [],
+      });
+      await expect(service.buildQuorum({ ...subject, amountInrPaise: "10000001" })).resolves.toMatchObject({
+        required: 2,
+        vetoOnReject: true,
+        ruleIds: ["inr_above_1_lakh"],
+        outcome: "PENDING",
+      });
+    });
+
+    it("requires three approvals for crypto above $5,000 or without a USD value", async () => {
+      const crypto = { ...subject, method: "CRYPTO" as const, amountInrPaise: null };
+
+      await expect(service.buildQuorum({ ...crypto, amountUsd: 4000 })).resolves.toMatchObject({
+        required: 1,
+        ruleIds: [],
+      });
+      await expect(service.buildQuorum({ ...crypto, amountUsd: 6000 })).resolves.toMatchObject({
+        required: 3,
+        ruleIds: ["crypto_above_5k_usd"],
+      });
+      await expect(service.buildQuorum({ ...crypto, amountUsd: null })).resolves.toMatchObject({
+        required: 3,
+        ruleIds: ["crypto_above_5k_usd"],
+      });
+    });
+
+    it("prices crypto amounts in USD for rule selection", async () => {
+      getRate.mockResolvedValueOnce("2500");
+      await expect(service.cryptoAmountUsd("ETH", "2.5")).resolves.toBe(6250);
+      expect(getRate).toHaveBeenCalledWith("ethereum");
+
+      getRate.mockRejectedValueOnce(new Error("rate limited"));
+      await expect(service.cryptoAmountUsd("ETH", "2.5")).resolves.toBeNull();
+    });
+  });
+
+  describe("decisions", () => {
+    const large = { amountInrPaise: "20000000" };
+
+    it("stays pending at 1 of 2 approvals and approves at 2 of 2", async () => {
+      await expect(review("reviewer2", "APPROVE", large)).resolves.toMatchObject({
+        required: 2,
+        approvals: ["reviewer2"],
+        outcome: "PENDING",
+      });
+      await expect(review("reviewer2", "APPROVE", large)).rejects.toThrow(BadRequestException);
+
+      await expect(review("reviewer3", "APPROVE", large)).resolves.toMatchObject({
+        approvals: ["reviewer2", "reviewer3"],
+        outcome: "APPROVED",
+      });
+      await expect(review("reviewer4", "APPROVE", large)).rejects.toThrow(BadRequestException);
+
+      const approvals = await db.collection("withdrawal_approvals").where("withdrawalId", "==", "wd1").get();
+      expect(approvals.docs.map((doc) => doc.id).sort()).toEqual(["wd1_reviewer2", "wd1_reviewer3"]);
+    });
+
+    it("ends the request on the first reject when the rule has a veto", async () => {
+      await review("reviewer2", "APPROVE", large);
+
+      await expect(review("reviewer3", "REJECT", large)).resolves.toMatchObject({
+        approvals: ["reviewer2"],
+        rejections: ["reviewer3"],
+        outcome: "REJECTED",
+      });
+      await expect(review("reviewer4", "APPROVE", large)).rejects.toThrow(BadRequestException);
+    });
+
+    it("counts a reject without closing the quorum when no rule has a veto", async () => {
+      await service.upsertRule("inr_large", {
+        method: "INR",
+        minAmountInrPaise: "10000000",
+        requiredApprovals: 2,
+        vetoOnReject: false,
+      });
+
+      await expect(review("reviewer2", "REJECT", large)).resolves.toMatchObject({
+        vetoOnReject: false,
+        rejections: ["reviewer2"],
+        outcome: "PENDING",
+      });
+      await review("reviewer3", "APPROVE", large);
+      await expect(review("reviewer4", "APPROVE", large)).resolves.toMatchObject({
+        approvals: ["reviewer3", "reviewer4"],
+        rejections: ["reviewer2"],
+        outcome: "APPROVED",
+      });
+    });
+
+    it("rejects once rejections reach the required count without a veto", async () => {
+      await service.upsertRule("inr_large", {
+        method: "INR",
+        minAmountInrPaise: "10000000",
+        requiredApprovals: 2,
+        vetoOnReject: false,
+      });
+
+      await review("reviewer2", "REJECT", large);
+      await expect(review("reviewer3", "REJECT", large)).resolves.toMatchObject({ outcome: "REJECTED" });
+    });
+
+    it("asks for a second approval when policy holds the withdrawal", async () => {
+      // Withdrawal services pass minimumApprovals: 2 when the policy evaluation pauses
+      const held = { minimumApprovals: 2 };
+
+      await expect(review("reviewer2", "APPROVE", held)).resolves.toMatchObject({
+        required: 2,
+        ruleIds: [],
+        outcome: "PENDING",
+      });
+      await expect(review("reviewer3", "APPROVE", held)).resolves.toMatchObject({ outcome: "APPROVED" });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { QuorumRuleDoc, WithdrawalQuorumState } from "@opencause/firebase";
+import { FirebaseService } from "../firebase/firebase.service";
+import { FxRateService } from "../crypto/fx-rate.service";
+
+// Used while no rules are stored in quorum_rules
+export const DEFAULT_QUORUM_RULES: Array<QuorumRuleDoc & { id: string }> = [
+  {
+    id: "inr_above_1_lakh",
+    name: "INR above ₹1,00,000",
+    method: "INR",
+    minAmountInrPaise: "10000000",
+    requiredApprovals: 2,
+    vetoOnReject: true,
+    enabled: true,
+  },
+  {
+    id: "crypto_above_5k_usd",
+    name: "Crypto above $5,000",
+    method: "CRYPTO",
+    minAmountUsd: 5000,
+    requiredApprovals: 3,
+    vetoOnReject: true,
+    enabled: true,
+  },
+];
+
+const COINGECKO_IDS: Record<string, string> = {
+  ETH: "ethereum",
+  USDC: "usd-coin",
+  USDT: "tether",
+  BTC: "bitcoin",
+  LTC: "litecoin",
+  BNB: "binancecoin",
+  AVAX: "avalanche-2",
+  MATIC: "matic-network",
+  SOL: "solana",
+};
+
+export interface QuorumSubject {
+  withdrawalId: string;
+  campaignId: string;
+  requesterId: string;
+  method: "INR" | "CRYPTO";
+  amountInrPaise?: string | null;
+  amountUsd?: number | null; // null when the FX rate is unavailable
+  minimumApprovals?: number; // e.g. policy hold
+}
+
+/**
+ * Quorum Service
+ * M-of-N reviewer approval for withdrawals, shared by all withdrawal flows
+ */
+@Injectable()
+export class QuorumService {
+  constructor(
+    private firebase: FirebaseService,
+    private fxRateService: FxRateService
+  ) {}
+
+  async listRules(): Promise<Array<QuorumRuleDoc & { id: string }>> {
+    const snapshot = await this.firebase.firestore.collection("quorum_rules").get();
+    if (snapshot.empty) {
+      return DEFAULT_QUORUM_RULES;
+    }
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as QuorumRuleDoc) }));
+  }
+
+  async upsertRule(ruleId: string, rule: Partial<QuorumRuleDoc>): Promise<QuorumRuleDoc & { id: string }> {
+    if (rule.method !== "INR" && rule.method !== "CRYPTO") {
+      throw new BadRequestException("method must be INR or CRYPTO");
+    }
+    if (!Number.isInteger(rule.requiredApprovals) || rule.requiredApprovals! < 1) {
+      throw new BadRequestException("requiredApprovals must be a positive integer");
+    }
+    if (rule.minAmountInrPaise != null && !/^\d+$/.test(rule.minAmountInrPaise)) {
+      throw new BadRequestException("minAmountInrPaise must be an integer string");
+    }
+    if (
+      rule.minAmountUsd != null &&
+      (typeof rule.minAmountUsd !== "number" || !Number.isFinite(rule.minAmountUsd) || rule.minAmountUsd < 0)
+    ) {
+      throw new BadRequestException("minAmountUsd must be a non-negative number");
+    }
+
+    const doc: QuorumRuleDoc = {
+      name: rule.name || ruleId,
+      method: rule.method,
+      minAmountInrPaise: rule.method === "INR" ? rule.minAmountInrPaise ?? null : null,
+      minAmountUsd: rule.method === "CRYPTO" ? rule.minAmountUsd ?? null : null,
+      requiredApprovals: rule.requiredApprovals!,
+      vetoOnReject: rule.vetoOnReject ?? true,
+      enabled: rule.enabled ?? true,
+    };
+    await this.firebase.firestore
+      .collection("quorum_rules")
+      .doc(ruleId)
+      .set({ ...doc, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return { id: ruleId, ...doc };
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    const ref = this.firebase.firestore.collection("quorum_rules").doc(ruleId);
+    const snap = await ref.get();
+    if (!snap.exists) {
+      throw new NotFoundException("Quorum rule not found");
+    }
+    await ref.delete();
+  }
+
+  /**
+   * USD value of a crypto amount, or null if no rate is available
+   */
+  async cryptoAmountUsd(symbolOrCoingeckoId: string, amountDecimal: string): Promise<number | null> {
+    try {
+      const id = COINGECKO_IDS[symbolOrCoingeckoId.toUpperCase()] || symbolOrCoingeckoId.toLowerCase();
+      const rate = await this.fxRateService.getRate(id);
+      const usd = parseFloat(amountDecimal) * parseFloat(rate);
+      return Number.isFinite(usd) ? usd : null;
+    } catch (error) {
+      console.warn(`[Quorum] No USD rate for ${symbolOrCoingeckoId}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Initial quorum state for a withdrawal from the matching rules
+   */
+  async buildQuorum(subject: QuorumSubject): Promise<WithdrawalQuorumState> {
+    const rules = (await this.listRules()).filter(
+      (rule) => rule.enabled && rule.method === subject.method && this.ruleMatches(rule, subject)
+    );
+
+    const required = Math.max(
+      1,
+      subject.minimumApprovals || 1,
+      ...rules.map((rule) => rule.requiredApprovals)
+    );
+
+    return {
+      required,
+      approvals: [],
+      rejections: [],
+      // Veto applies unless every matching rule opts out
+      vetoOnReject: rules.length === 0 || rules.some((rule) => rule.vetoOnReject),
+      ruleIds: rules.map((rule) => rule.id),
+      outcome: "PENDING",
+    };
+  }
+
+  /**
+   * Record a reviewer's decision and settle the quorum outcome atomically.
+   *
+   * `statusRef` holds the authoritative quorum state; `mirrorRefs` (e.g. the
+   * review_queue entry) receive a copy for display. Only the call that moves
+   * the outcome out of PENDING sees APPROVED/REJECTED, so callers can safely
+   * execute the payout or rejection exactly once.
+   */
+  async recordDecision(
+    refs: {
+      statusRef: admin.firestore.DocumentReference;
+      mirrorRefs?: admin.firestore.DocumentReference[];
+    },
+    subject: QuorumSubject,
+    reviewerId: string,
+    decision: "APPROVE" | "REJECT",
+    note?: string
+  ): Promise<WithdrawalQuorumState> {
+    await this.assertNoConflict(subject, reviewerId);
+
+    // Legacy withdrawals created before quorum rules existed
+    const fallback = await this.buildQuorum(subject);
+    const db = this.firebase.firestore;
+    const approvalRef = db.collection("withdrawal_approvals").doc(`${subject.withdrawalId}_${reviewerId}`);
+
+    return db.runTransaction(async (t) => {
+      const snap = await t.get(refs.statusRef);
+      if (!snap.exists) {
+        throw new NotFoundException("Withdrawal not found");
+      }
+
+      const stored = snap.data()?.quorum as WithdrawalQuorumState | undefined;
+      const state: WithdrawalQuorumState = stored
+        ? { ...stored, approvals: [...stored.approvals], rejections: [...stored.rejections] }
+        : fallback;
+
+      if (state.outcome !== "PENDING") {
+        throw new BadRequestException(`Withdrawal review is already ${state.outcome.toLowerCase()}`);
+      }
+      if (state.approvals.includes(reviewerId) || state.rejections.includes(reviewerId)) {
+        throw new BadRequestException("You have already reviewed this withdrawal");
+      }
+
+      if (decision === "APPROVE") {
+        state.approvals.push(reviewerId);
+      } else {
+        state.rejections.push(reviewerId);
+      }
+
+      if (state.approvals.length >= state.required) {
+        state.outcome = "APPROVED";
+      } else if (
+        state.rejections.length > 0 &&
+        (state.vetoOnReject || state.rejections.length >= state.required)
+      ) {
+        state.outcome = "REJECTED";
+      }
+
+      t.update(refs.statusRef, { quorum: state });
+      for (const ref of refs.mirrorRefs || []) {
+        t.set(ref, { quorum: state }, { merge: true });
+      }
+      t.set(approvalRef, {
+        withdrawalId: subject.withdrawalId,
+        reviewerId,
+        decision,
+        note: note || null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      return state;
+    });
+  }
+
+  /**
+   * Undo the decision that settled the quorum when executing it failed
+   * (e.g. payout provider error), so the reviewer can retry
+   */
+  async revertDecision(
+    refs: {
+      statusRef: admin.firestore.DocumentReference;
+      mirrorRefs?: admin.firestore.DocumentReference[];
+    },
+    withdrawalId: string,
+    reviewerId: string
+  ): Promise<void> {
+    const db = this.firebase.firestore;
+    const approvalRef = db.collection("withdrawal_approvals").doc(`${withdrawalId}_${reviewerId}`);
+
+    await db.runTransaction(async (t) => {
+      const snap = await t.get(refs.statusRef);
+      const state = snap.data()?.quorum as WithdrawalQuorumState | undefined;
+      if (!state) return;
+
+      const reverted: WithdrawalQuorumState = {
+        ...state,
+        approvals: state.approvals.filter((id) => id !== reviewerId),
+        rejections: state.rejections.filter((id) => id !== reviewerId),
+        outcome: "PENDING",
+      };
+
+      t.update(refs.statusRef, { quorum: reverted });
+      for (const ref of refs.mirrorRefs || []) {
+        t.set(ref, { quorum: reverted }, { merge: true });
+      }
+      t.delete(approvalRef);
+    });
+  }
+
+  private ruleMatches(rule: QuorumRuleDoc, subject: QuorumSubject): boolean {
+    if (rule.method === "INR") {
+      if (rule.minAmountInrPaise == null) return true;
+      return BigInt(subject.amountInrPaise || "0") > BigInt(rule.minAmountInrPaise);
+    }
+    if (rule.minAmountUsd == null) return true;
+    // Without a USD value, apply the stricter crypto rules
+    if (subject.amountUsd == null) return true;
+    return subject.amountUsd > rule.minAmountUsd;
+  }
+
+  /**
+   * Organizer, campaign creator, the reviewer who approved the campaign and
+   * the requester cannot review the withdrawal
+   */
+  private async assertNoConflict(subject: QuorumSubject, reviewerId: string): Promise<void> {
+    const campaign = (await this.firebase.getCampaignById(subject.campaignId)) as any;
+    const conflicted = [
+      subject.requesterId,
+      campaign?.organizerId,
+      campaign?.createdBy,
+      campaign?.reviewedBy,
+    ].filter(Boolean);
+
+    if (conflicted.includes(reviewerId)) {
+      throw new ForbiddenException(
+        "Conflict of interest: the campaign organizer, creator, approving reviewer or requester cannot review this withdrawal"
+      );
+    }
+  }
+}
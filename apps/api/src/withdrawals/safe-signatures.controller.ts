@@ -0,0 +1,27 @@
+import { Controller, Get, Post, Param, Body, Request, UseGuards } from "@nestjs/common";
+import { JwtAuthGuard } from "../auth/guards/jwt-auth.guard";
+import { RolesGuard } from "../auth/guards/roles.guard";
+import { Roles } from "../auth/decorators/roles.decorator";
+import { SafeSignaturesService } from "./safe-signatures.service";
+
+@Controller("admin/review/safe-signatures")
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SafeSignaturesController {
+  constructor(private safeSignaturesService: SafeSignaturesService) {}
+
+  @Get()
+  @Roles("ADMIN", "REVIEWER")
+  async list() {
+    return this.safeSignaturesService.listAwaitingSignatures();
+  }
+
+  @Post(":withdrawalId")
+  @Roles("ADMIN", "REVIEWER")
+  async sign(
+    @Param("withdrawalId") withdrawalId: string,
+    @Request() req,
+    @Body() body: { signature: string }
+  ) {
+    return this.safeSignaturesService.submitSignature(withdrawalId, req.user.id, body.signature);
+  }
+}
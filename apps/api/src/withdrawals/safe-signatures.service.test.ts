@@ -0,0 +1,143 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { ForbiddenException } from "@nestjs/common";
+import { hashTypedData, recoverTypedDataAddress } from "viem";
+import type { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { getSafeTxTypedData, SafeTransaction } from "@opencause/crypto-core";
+import { SafeSignaturesService } from "./safe-signatures.service";
+import { FirebaseService } from "../firebase/firebase.service";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startFakeSafeService,
+  FakeSafeService,
+} from "@opencause/testkit";
+
+describe("SafeSignaturesService", () => {
+  let service: SafeSignaturesService;
+  let safeService: FakeSafeService;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+
+  const treasury = privateKeyToAccount(`0x${"11".repeat(32)}`);
+  const reviewer = privateKeyToAccount(`0x${"22".repeat(32)}`);
+  const outsider = privateKeyToAccount(`0x${"33".repeat(32)}`);
+  const safeAddress = "0x5afe000000000000000000000000000000005afe";
+  const chainId = 137;
+
+  const transaction: SafeTransaction = {
+    to: "0x1111111111111111111111111111111111111111", // Campaign vault
+    value: "0",
+    data: "0x",
+    operation: 0,
+    safeTxGas: 0,
+    baseGas: 0,
+    gasPrice: "0",
+    gasToken: "0x0000000000000000000000000000000000000000",
+    refundReceiver: "0x0000000000000000000000000000000000000000",
+    nonce: 0,
+  };
+  const typedData = getSafeTxTypedData(safeAddress, chainId, transaction);
+  const safeTxHash = hashTypedData(typedData);
+
+  // Proposal as the worker leaves it: proposed and signed by the treasury signer
+  const seedProposal = async (id: string) => {
+    await fetch(`${safeService.url}/api/v1/safes/${safeAddress}/multisig-transactions/`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...transaction,
+        contractTransactionHash: safeTxHash,
+        sender: treasury.address,
+        signature: await treasury.signTypedData(typedData),
+      }),
+    });
+    await db.collection("withdrawals_private").doc(id).set({
+      withdrawalId: id,
+      campaignId: "camp1",
+      method: "CRYPTO",
+      amountCryptoRaw: "1.5",
+      decimals: 18,
+      assetSymbol: "MATIC",
+      networkId: "polygon_mainnet",
+      payee: { address: "0x000000000000000000000000000000000000dEaD" },
+      status: "APPROVED",
+      safe: {
+        safeAddress,
+        networkId: "polygon_mainnet",
+        chainId,
+        vaultAddress: transaction.to,
+        transaction,
+        safeTxHash,
+        threshold: 2,
+        confirmations: [{ owner: treasury.address, reviewerId: null }],
+        status: "PROPOSED",
+      },
+    });
+  };
+
+  beforeAll(async () => {
+    safeService = await startFakeSafeService({
+      recoverOwner: (_tx, signature) => recoverTypedDataAddress({ ...typedData, signature: signature as Hex }),
+    });
+    process.env.POLYGON_MAINNET_SAFE_SERVICE_URL = safeService.url;
+  });
+
+  afterAll(async () => {
+    await safeService.close();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["withdrawals_private"]);
+    safeService.transactions.clear();
+    safeService.addSafe({ address: safeAddress, owners: [treasury.address, reviewer.address], threshold: 2 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SafeSignaturesService, { provide: FirebaseService, useValue: { firestore: db } }],
+    }).compile();
+
+    service = module.get<SafeSignaturesService>(SafeSignaturesService);
+  });
+
+  it("lists proposals awaiting signatures with the typed data to sign", async () => {
+    await seedProposal("wd_safe");
+
+    const [pending] = await service.listAwaitingSignatures();
+
+    expect(pending).toMatchObject({ withdrawalId: "wd_safe", safeTxHash, threshold: 2 });
+    expect(hashTypedData(pending.typedData as any)).toBe(safeTxHash);
+  });
+
+  it("forwards an owner's signature to the Safe service and records the reviewer", async () => {
+    await seedProposal("wd_safe");
+
+    const result = await service.submitSignature("wd_safe", "reviewer1", await reviewer.signTypedData(typedData));
+
+    expect(result).toMatchObject({ owner: reviewer.address, confirmations: 2, threshold: 2 });
+    expect(safeService.transactions.get(safeTxHash)!.confirmations.map((c) => c.owner)).toEqual([
+      treasury.address,
+      reviewer.address,
+    ]);
+    const stored = (await db.collection("withdrawals_private").doc("wd_safe").get()).data()!;
+    expect(stored.safe.confirmations[1]).toMatchObject({ owner: reviewer.address, reviewerId: "reviewer1" });
+  });
+
+  it("does not forward the same owner twice", async () => {
+    await seedProposal("wd_safe");
+    const signature = await reviewer.signTypedData(typedData);
+
+    await service.submitSignature("wd_safe", "reviewer1", signature);
+    await service.submitSignature("wd_safe", "reviewer1", signature);
+
+    expect(safeService.transactions.get(safeTxHash)!.confirmations).toHaveLength(2);
+  });
+
+  it("rejects signatures from wallets that do not own the Safe", async () => {
+    await seedProposal("wd_safe");
+
+    await expect(
+      service.submitSignature("wd_safe", "reviewer2", await outsider.signTypedData(typedData))
+    ).rejects.toThrow(ForbiddenException);
+    expect(safeService.transactions.get(safeTxHash)!.confirmations).toHaveLength(1);
+  });
+});
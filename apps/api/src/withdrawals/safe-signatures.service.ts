@@ -0,0 +1,140 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from "@nestjs/common";
+import * as admin from "firebase-admin";
+import { recoverTypedDataAddress } from "viem";
+import type { Hex } from "viem";
+import { WithdrawalSafeConfirmation, WithdrawalSafeState } from "@opencause/firebase";
+import { getSafeServiceUrl, getSafeTxTypedData, SAFE_TX_TYPES } from "@opencause/crypto-core";
+import { FirebaseService } from "../firebase/firebase.service";
+
+/**
+ * Reviewer co-signatures on the Safe proposals of approved crypto
+ * withdrawals. The worker proposes (signed by the treasury signer); reviewers
+ * sign the same SafeTx typed data with their wallets from the dashboard and
+ * the signatures are forwarded to the Safe transaction service.
+ */
+@Injectable()
+export class SafeSignaturesService {
+  constructor(private firebase: FirebaseService) {}
+
+  /**
+   * Proposals still waiting for signatures, with the typed data to sign
+   */
+  async listAwaitingSignatures() {
+    const snapshot = await this.firebase.firestore
+      .collection("withdrawals_private")
+      .where("safe.status", "==", "PROPOSED")
+      .get();
+
+    return snapshot.docs.map((doc) => {
+      const withdrawal = doc.data();
+      const safe = withdrawal.safe as WithdrawalSafeState;
+      return {
+        withdrawalId: doc.id,
+        campaignId: withdrawal.campaignId,
+        amountNative: withdrawal.amountCryptoRaw,
+        assetSymbol: withdrawal.assetSymbol,
+        networkId: safe.networkId,
+        payeeAddress: withdrawal.payee?.address || null,
+        safeAddress: safe.safeAddress,
+        safeTxHash: safe.safeTxHash,
+        threshold: safe.threshold,
+        confirmations: safe.confirmations.map((c) => ({ owner: c.owner, reviewerId: c.reviewerId || null })),
+        // JSON-safe EIP-712 payload for eth_signTypedData_v4 / ethers signTypedData
+        typedData: {
+          domain: { chainId: safe.chainId, verifyingContract: safe.safeAddress },
+          types: SAFE_TX_TYPES,
+          primaryType: "SafeTx",
+          message: safe.transaction,
+        },
+      };
+    });
+  }
+
+  /**
+   * Verify a reviewer's signature over the proposal, check the signer owns
+   * the Safe and hand the confirmation to the Safe service
+   */
+  async submitSignature(withdrawalId: string, reviewerId: string, signature: string) {
+    const db = this.firebase.firestore;
+    const privateRef = db.collection("withdrawals_private").doc(withdrawalId);
+    const snap = await privateRef.get();
+    if (!snap.exists) {
+      throw new NotFoundException("Withdrawal not found");
+    }
+
+    const safe = snap.data()!.safe as WithdrawalSafeState | undefined;
+    if (!safe || safe.status !== "PROPOSED") {
+      throw new BadRequestException("Withdrawal has no Safe proposal awaiting signatures");
+    }
+
+    let owner: string;
+    try {
+      owner = await recoverTypedDataAddress({
+        ...getSafeTxTypedData(safe.safeAddress, safe.chainId, safe.transaction),
+        signature: signature as Hex,
+      });
+    } catch {
+      throw new BadRequestException("Signature is not a valid signature of this Safe transaction");
+    }
+
+    const safeServiceUrl = getSafeServiceUrl(safe.networkId);
+    const owners = await this.getSafeOwners(safeServiceUrl, safe.safeAddress);
+    if (!owners.some((o) => o.toLowerCase() === owner.toLowerCase())) {
+      throw new ForbiddenException(`${owner} is not an owner of Safe ${safe.safeAddress}`);
+    }
+
+    if (safe.confirmations.some((c) => c.owner.toLowerCase() === owner.toLowerCase())) {
+      return {
+        withdrawalId,
+        safeTxHash: safe.safeTxHash,
+        owner,
+        confirmations: safe.confirmations.length,
+        threshold: safe.threshold,
+      };
+    }
+
+    const response = await fetch(
+      `${safeServiceUrl}/api/v1/multisig-transactions/${safe.safeTxHash}/confirmations/`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ signature }),
+      }
+    );
+    if (!response.ok) {
+      throw new BadRequestException(`Safe service rejected the signature: ${await response.text()}`);
+    }
+
+    const confirmation: WithdrawalSafeConfirmation = {
+      owner,
+      reviewerId,
+      confirmedAt: admin.firestore.Timestamp.now(),
+    };
+    await privateRef.update({
+      "safe.confirmations": admin.firestore.FieldValue.arrayUnion(confirmation),
+      "safe.updatedAt": admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return {
+      withdrawalId,
+      safeTxHash: safe.safeTxHash,
+      owner,
+      confirmations: safe.confirmations.length + 1,
+      threshold: safe.threshold,
+    };
+  }
+
+  private async getSafeOwners(safeServiceUrl: string, safeAddress: string): Promise<string[]> {
+    const response = await fetch(`${safeServiceUrl}/api/v1/safes/${safeAddress}/`);
+    if (!response.ok) {
+      throw new BadRequestException(`Failed to fetch Safe ${safeAddress}: ${response.statusText}`);
+    }
+    const data: any = await response.json();
+    return data.owners || [];
+  }
+}
@@ -1,9 +1,12 @@
 import { Injectable, ForbiddenException, NotFoundException, BadRequestException } from "@nestjs/common";
 import { FirebaseService } from "../firebase/firebase.service";
-import { FirestoreRepository } from "@opencause/firebase";
+import { QueueService } from "../queue/queue.service";
+import { CampaignEnhancedDoc, FirestoreRepository } from "@opencause/firebase";
 import { randomBytes, createHash } from "crypto";
 import * as admin from "firebase-admin";
-import { getNetwork, getAsset } from "@opencause/crypto-core";
+import { getNetwork, getAsset, fromNative } from "@opencause/crypto-core";
+import { QuorumService, QuorumSubject } from "./quorum.service";
+import { PolicyService } from "../policy/policy.service";
 
 export interface CreateWithdrawalDto {
   campaignId: string;
@@ -30,7 +33,12 @@ export interface WithdrawalResponse {
 export class WithdrawalsCryptoService {
   private repo: FirestoreRepository;
 
-  constructor(private firebase: FirebaseService) {
+  constructor(
+    private firebase: FirebaseService,
+    private queueService: QueueService,
+    private quorumService: QuorumService,
+    private policyService: PolicyService
+  ) {
     this.repo = new FirestoreRepository(firebase.firestore);
   }
 
@@ -67,6 +75,29 @@ export class WithdrawalsCryptoService {
     // Generate withdrawal ID
     const withdrawalId = this.generateWithdrawalId();
 
+    // Policy profile: release policy and anomaly score. Anomalous requests
+    // are held for a second reviewer
+    const evaluation = await this.policyService.evaluateWithdrawal({
+      campaignId: dto.campaignId,
+      // Campaigns created through the API carry organizerId
+      organizerId: (campaign as Partial<CampaignEnhancedDoc>).organizerId || campaign.createdBy,
+      currency: asset.symbol,
+      amount: fromNative(dto.amountNative, asset.decimals),
+    });
+    if (evaluation.releasePolicy && !evaluation.releasePolicy.allowed) {
+      throw new BadRequestException(evaluation.releasePolicy.reason);
+    }
+
+    const quorum = await this.quorumService.buildQuorum({
+      ...(await this.getQuorumSubject(withdrawalId, {
+        campaignId: dto.campaignId,
+        requesterUserId: userId,
+        assetId: dto.assetId,
+        amountNative: dto.amountNative,
+      })),
+      minimumApprovals: evaluation.shouldPause ? 2 : 1,
+    });
+
     // Create withdrawal request
     const withdrawal = await this.repo.createWithdrawal(withdrawalId, {
       campaignId: dto.campaignId,
@@ -88,8 +119,13 @@ export class WithdrawalsCryptoService {
       proofMimeType: "application/json",
       proofSha256: "",
       proofCids: dto.proofCids,
+      anomalyScore: evaluation.anomalyScore,
+      anomalyFlags: evaluation.flags,
+      policyHold: evaluation.shouldPause,
+      quorum,
       status: "SUBMITTED",
     });
+    await this.policyService.saveEvaluation(withdrawalId, evaluation);
 
     return {
       withdrawalId,
@@ -117,22 +153,23 @@ export class WithdrawalsCryptoService {
       throw new BadRequestException(`Withdrawal is ${withdrawal.status}, cannot approve`);
     }
 
-    // Create approval record
-    const approvalDocId = `${withdrawalId}_${reviewerId}`;
-    await this.repo.createApproval(approvalDocId, {
-      withdrawalId,
+    // Record the decision; status only changes once the quorum is reached
+    const quorum = await this.quorumService.recordDecision(
+      { statusRef: this.firebase.firestore.collection("withdrawals").doc(withdrawalId) },
+      await this.getQuorumSubject(withdrawalId, withdrawal),
       reviewerId,
-      decision: "APPROVE",
-      note,
-    });
+      "APPROVE",
+      note
+    );
+    if (quorum.outcome !== "APPROVED") {
+      return;
+    }
 
-    // Update withdrawal status
     await this.repo.updateWithdrawal(withdrawalId, {
       status: "APPROVED",
     });
 
-    // TODO: Queue withdrawal execution job
-    // await queue.add('withdrawal_executor', { withdrawalId });
+    await this.queueService.addWithdrawalExecutorJob(withdrawalId);
   }
 
   /**
@@ -148,16 +185,17 @@ export class WithdrawalsCryptoService {
       throw new BadRequestException(`Withdrawal is ${withdrawal.status}, cannot reject`);
     }
 
-    // Create rejection record
-    const approvalDocId = `${withdrawalId}_${reviewerId}`;
-    await this.repo.createApproval(approvalDocId, {
-      withdrawalId,
+    const quorum = await this.quorumService.recordDecision(
+      { statusRef: this.firebase.firestore.collection("withdrawals").doc(withdrawalId) },
+      await this.getQuorumSubject(withdrawalId, withdrawal),
       reviewerId,
-      decision: "REJECT",
-      note,
-    });
+      "REJECT",
+      note
+    );
+    if (quorum.outcome !== "REJECTED") {
+      return;
+    }
 
-    // Update withdrawal status
     await this.repo.updateWithdrawal(withdrawalId, {
       status: "REJECTED",
     });
@@ -240,6 +278,27 @@ export class WithdrawalsCryptoService {
     };
   }
 
+  private async getQuorumSubject(
+    withdrawalId: string,
+    withdrawal: { campaignId: string; requesterUserId: string; assetId?: string; amountNative?: string }
+  ): Promise<QuorumSubject> {
+    const asset = withdrawal.assetId ? getAsset(withdrawal.assetId) : undefined;
+    const amountUsd = asset
+      ? await this.quorumService.cryptoAmountUsd(
+          asset.coingeckoId || asset.symbol,
+          fromNative(withdrawal.amountNative || "0", asset.decimals)
+        )
+      : null;
+
+    return {
+      withdrawalId,
+      campaignId: withdrawal.campaignId,
+      requesterId: withdrawal.requesterUserId,
+      method: "CRYPTO",
+      amountUsd,
+    };
+  }
+
   private generateWithdrawalId(): string {
     return createHash("sha256")
       .update(`${Date.now()}-${randomBytes(16).toString("hex")}`)
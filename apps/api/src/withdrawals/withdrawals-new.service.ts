@@ -9,13 +9,19 @@ import { CreateWithdrawalRequestInput } from "@opencause/types";
 import * as admin from "firebase-admin";
 import { encryptBankAccount } from "./bank-encryption";
 import { createHash } from "crypto";
+import { PolicyService } from "../policy/policy.service";
+import { QuorumService, QuorumSubject } from "./quorum.service";
 
 /**
  * Enhanced withdrawal service with invoice proof validation
  */
 @Injectable()
 export class WithdrawalsNewService {
-  constructor(private firebase: FirebaseService) {}
+  constructor(
+    private firebase: FirebaseService,
+    private policyService: PolicyService,
+    private quorumService: QuorumService
+  ) {}
 
   /**
    * Create a new withdrawal request with enhanced validation
@@ -87,7 +93,33 @@ export class WithdrawalsNewService {
       }
     }
 
-    // 6. Prepare withdrawal document
+    // 6. Evaluate policy profile (release policy + anomaly score)
+    const evaluation = await this.policyService.evaluateWithdrawal({
+      campaignId: input.campaignId,
+      organizerId: campaign.organizerId,
+      milestoneId: input.milestoneId,
+      currency: input.currency,
+      amount: input.amount,
+      vendorName: input.vendorName,
+      proofSha256: input.proofSha256,
+    });
+
+    if (evaluation.releasePolicy && !evaluation.releasePolicy.allowed) {
+      throw new BadRequestException(evaluation.releasePolicy.reason);
+    }
+
+    // 7. Prepare withdrawal document
+    const withdrawalRef = db.collection("withdrawals").doc();
+    const quorum = await this.quorumService.buildQuorum({
+      ...(await this.getQuorumSubject(withdrawalRef.id, {
+        campaignId: input.campaignId,
+        requesterUserId: userId,
+        currency: input.currency,
+        amount: input.amount,
+      })),
+      minimumApprovals: evaluation.shouldPause ? 2 : 1,
+    });
+
     const withdrawalData: any = {
       campaignId: input.campaignId,
       milestoneId: input.milestoneId || null,
@@ -103,13 +135,18 @@ export class WithdrawalsNewService {
       proofFileUrl: input.proofFileUrl,
       proofMimeType: input.proofMimeType,
       proofSha256: input.proofSha256,
-      status: "SUBMITTED",
+      // Anomalous withdrawals go straight to review and need a second reviewer
+      status: evaluation.shouldPause ? "UNDER_REVIEW" : "SUBMITTED",
+      anomalyScore: evaluation.anomalyScore,
+      anomalyFlags: evaluation.flags,
+      policyHold: evaluation.shouldPause,
+      quorum,
       gstinOcrStatus: input.currency === "INR" ? "PENDING" : undefined,
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     };
 
-    // 7. Add payout-specific fields
+    // 8. Add payout-specific fields
     if (input.currency === "INR") {
       if (input.payoutRail === "UPI") {
         withdrawalData.upiVpa = input.upiVpa;
@@ -130,11 +167,11 @@ export class WithdrawalsNewService {
       withdrawalData.amountNative = input.amount; // For crypto, same as amount
     }
 
-    // 8. Create withdrawal document
-    const withdrawalRef = db.collection("withdrawals").doc();
+    // 9. Create withdrawal document
     await withdrawalRef.set(withdrawalData);
+    await this.policyService.saveEvaluation(withdrawalRef.id, evaluation);
 
-    // 9. Create audit log
+    // 10. Create audit log
     await db.collection("withdrawal_audit_logs").add({
       withdrawalRequestId: withdrawalRef.id,
       actorUserId: userId,
@@ -147,7 +184,20 @@ export class WithdrawalsNewService {
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
     });
 
-    // 10. TODO: Trigger async GSTIN OCR check for INR
+    if (evaluation.shouldPause) {
+      await db.collection("withdrawal_audit_logs").add({
+        withdrawalRequestId: withdrawalRef.id,
+        actorUserId: "system",
+        action: "POLICY_HOLD",
+        details: {
+          anomalyScore: evaluation.anomalyScore,
+          flags: evaluation.flags,
+        },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    // 11. TODO: Trigger async GSTIN OCR check for INR
     if (input.currency === "INR" && input.vendorGstin) {
       // runGstinOcrCheck(input.proofFileUrl, input.vendorGstin)
       //   .then((result) => {
@@ -235,10 +285,19 @@ export class WithdrawalsNewService {
       );
     }
 
-    // Update status
+    // Policy-held and large withdrawals wait for the required number of reviewers
+    const quorum = await this.quorumService.recordDecision(
+      { statusRef: withdrawalRef },
+      await this.getQuorumSubject(withdrawalId, withdrawal),
+      reviewerId,
+      "APPROVE",
+      notes
+    );
+    const approved = quorum.outcome === "APPROVED";
+
     await withdrawalRef.update({
-      status: "APPROVED",
-      approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+      status: approved ? "APPROVED" : "UNDER_REVIEW",
+      ...(approved && { approvedAt: admin.firestore.FieldValue.serverTimestamp() }),
       updatedAt: admin.firestore.FieldValue.serverTimestamp(),
     });
 
@@ -246,11 +305,19 @@ export class WithdrawalsNewService {
     await db.collection("withdrawal_audit_logs").add({
       withdrawalRequestId: withdrawalId,
       actorUserId: reviewerId,
-      action: "APPROVED",
-      details: { notes },
+      action: approved ? "APPROVED" : "APPROVAL_RECORDED",
+      details: {
+        notes,
+        approvals: quorum.approvals.length,
+        requiredApprovals: quorum.required,
+      },
       createdAt: admin.firestore.FieldValue.serverTimestamp(),
     });
 
+    if (!approved) {
+      return;
+    }
+
     // If crypto, trigger payout immediately
     if (withdrawal.currency !== "INR" && withdrawal.status === "APPROVED") {
       // TODO: Trigger crypto payout
@@ -279,6 +346,26 @@ export class WithdrawalsNewService {
       throw new BadRequestException("Cannot reject a paid withdrawal");
     }
 
+    const quorum = await this.quorumService.recordDecision(
+      { statusRef: withdrawalRef },
+      await this.getQuorumSubject(withdrawalId, withdrawal),
+      reviewerId,
+      "REJECT",
+      reason
+    );
+
+    // Without veto, a rejection only counts towards the quorum
+    if (quorum.outcome !== "REJECTED") {
+      await db.collection("withdrawal_audit_logs").add({
+        withdrawalRequestId: withdrawalId,
+        actorUserId: reviewerId,
+        action: "REJECTION_RECORDED",
+        details: { reason, rejections: quorum.rejections.length },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return;
+    }
+
     await withdrawalRef.update({
       status: "REJECTED",
       rejectionReason: reason,
@@ -294,6 +381,28 @@ export class WithdrawalsNewService {
     });
   }
 
+  /**
+   * Quorum inputs for a withdrawal document
+   */
+  private async getQuorumSubject(
+    withdrawalId: string,
+    withdrawal: { campaignId: string; requesterUserId: string; currency: string; amount: string }
+  ): Promise<QuorumSubject> {
+    const isInr = withdrawal.currency === "INR";
+    return {
+      withdrawalId,
+      campaignId: withdrawal.campaignId,
+      requesterId: withdrawal.requesterUserId,
+      method: isInr ? "INR" : "CRYPTO",
+      amountInrPaise: isInr
+        ? Math.round(parseFloat(withdrawal.amount || "0") * 100).toString()
+        : null,
+      amountUsd: isInr
+        ? null
+        : await this.quorumService.cryptoAmountUsd(withdrawal.currency, withdrawal.amount),
+    };
+  }
+
   /**
    * Mark withdrawal as paid
    */
@@ -81,6 +81,13 @@ export class WithdrawalsController {
     return this.withdrawalsService.markPayoutCompleted(id, req.user.id, body.payoutId, body.notes);
   }
 
+  @Post(":id/payout/retry")
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles("ADMIN")
+  async retryPayout(@Param("id") id: string) {
+    return this.withdrawalsService.retryPayout(id);
+  }
+
   @Get("campaign/:campaignId/vault-balance")
   @UseGuards(JwtAuthGuard)
   async getVaultBalance(
@@ -2,15 +2,20 @@ import { Module } from "@nestjs/common";
 import { WithdrawalsService } from "./withdrawals.service";
 import { WithdrawalsNewService } from "./withdrawals-new.service";
 import { WithdrawalsCryptoService } from "./withdrawals-crypto.service";
+import { QuorumService } from "./quorum.service";
+import { SafeSignaturesService } from "./safe-signatures.service";
 import { WithdrawalsController, AdminController } from "./withdrawals.controller";
 import { WithdrawalsNewController } from "./withdrawals-new.controller";
 import { UploadController } from "./upload.controller";
+import { QuorumController } from "./quorum.controller";
+import { SafeSignaturesController } from "./safe-signatures.controller";
 import { Web3Module } from "../web3/web3.module";
 import { EvidenceModule } from "../evidence/evidence.module";
 import { QueueModule } from "../queue/queue.module";
 import { PaymentsModule } from "../payments/payments.module";
 import { FirebaseModule } from "../firebase/firebase.module";
 import { CryptoModule } from "../crypto/crypto.module";
+import { PolicyModule } from "../policy/policy.module";
 
 @Module({
   imports: [
@@ -20,10 +25,11 @@ import { CryptoModule } from "../crypto/crypto.module";
     PaymentsModule,
     FirebaseModule,
     CryptoModule,
+    PolicyModule,
   ],
-  controllers: [WithdrawalsController, AdminController, UploadController],
-  providers: [WithdrawalsService, WithdrawalsNewService, WithdrawalsCryptoService],
-  exports: [WithdrawalsService, WithdrawalsNewService, WithdrawalsCryptoService],
+  controllers: [WithdrawalsController, AdminController, UploadController, QuorumController, SafeSignaturesController],
+  providers: [WithdrawalsService, WithdrawalsNewService, WithdrawalsCryptoService, QuorumService, SafeSignaturesService],
+  exports: [WithdrawalsService, WithdrawalsNewService, WithdrawalsCryptoService, QuorumService],
 })
 export class WithdrawalsModule {}
 
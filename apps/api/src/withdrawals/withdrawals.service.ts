@@ -1,14 +1,17 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from "@nestjs/common";
 import { FirebaseService } from "../firebase/firebase.service";
-import { CreateWithdrawalDto, EvidenceKind, TokenType } from "@opencause/types";
+import { CreateWithdrawalDto, CreateWithdrawalSchema, EvidenceKind, TokenType } from "@opencause/types";
 import { EvidenceService } from "../evidence/evidence.service";
 import { Web3Service } from "../web3/web3.service";
 import { QueueService } from "../queue/queue.service";
-import { RazorpayService } from "../payments/razorpay.service";
+import { PayoutService } from "../payments/payout.service";
 import { FxRateService } from "../crypto/fx-rate.service";
 import { CryptoAddressService } from "../crypto/crypto-address.service";
+import { QuorumService, QuorumSubject } from "./quorum.service";
+import { PolicyService } from "../policy/policy.service";
 import { evaluateReleasePolicy } from "@opencause/policy";
 import { parseUnits } from "viem";
+import { getNetwork } from "@opencause/crypto-core";
 import * as admin from "firebase-admin";
 
 @Injectable()
@@ -18,9 +21,11 @@ export class WithdrawalsService {
     private evidenceService: EvidenceService,
     private web3Service: Web3Service,
     private queueService: QueueService,
-    private razorpayService: RazorpayService,
+    private payoutService: PayoutService,
     private fxRateService: FxRateService,
-    private cryptoAddressService: CryptoAddressService
+    private cryptoAddressService: CryptoAddressService,
+    private quorumService: QuorumService,
+    private policyService: PolicyService
   ) {}
 
   /**
@@ -70,6 +75,24 @@ export class WithdrawalsService {
     return mapping[symbol.toUpperCase()] || symbol.toLowerCase();
   }
 
+  /**
+   * Quorum inputs for a withdrawals_private doc
+   */
+  private async getQuorumSubject(withdrawalId: string, withdrawal: any): Promise<QuorumSubject> {
+    const isInr = withdrawal.method === "INR";
+    return {
+      withdrawalId,
+      campaignId: withdrawal.campaignId,
+      requesterId: withdrawal.requestedByUid,
+      method: isInr ? "INR" : "CRYPTO",
+      amountInrPaise: isInr ? withdrawal.amountInrPaise : null,
+      // amountCryptoRaw holds the decimal amount for crypto withdrawals
+      amountUsd: isInr
+        ? null
+        : await this.quorumService.cryptoAmountUsd(withdrawal.assetSymbol || "ETH", withdrawal.amountCryptoRaw || "0"),
+    };
+  }
+
   /**
    * Validate address format based on chain/network
    */
@@ -273,9 +296,13 @@ export class WithdrawalsService {
 
     // Validate withdrawal details based on type
     if (dto.tokenType === TokenType.INR) {
-      // INR withdrawals require bank account details
-      if (!dto.bankAccountNumber || !dto.bankIfsc || !dto.bankAccountHolderName) {
-        throw new BadRequestException("Bank account details are required for INR withdrawals");
+      // INR withdrawals are paid over UPI or bank transfer
+      if (!dto.upiVpa && (!dto.bankAccountNumber || !dto.bankIfsc || !dto.bankAccountHolderName)) {
+        throw new BadRequestException("A UPI ID or bank account details are required for INR withdrawals");
+      }
+      const upiVpa = CreateWithdrawalSchema.shape.upiVpa.safeParse(dto.upiVpa);
+      if (!upiVpa.success) {
+        throw new BadRequestException(upiVpa.error.errors[0].message);
       }
     } else {
       // Crypto withdrawals - validate address based on chain/network
@@ -447,6 +474,33 @@ export class WithdrawalsService {
       }
     };
 
+    // Policy profile: release policy and anomaly score. Anomalous requests
+    // are held for a second reviewer
+    const evaluation = await this.policyService.evaluateWithdrawal({
+      campaignId: dto.campaignId,
+      organizerId: campaign.organizerId,
+      milestoneId: dto.milestoneId || null,
+      currency: actualTokenType === TokenType.INR ? "INR" : this.getCryptoSymbol(actualTokenType),
+      amount: actualAmountNative,
+      vendorName: invoiceInfo.vendorName || undefined,
+    });
+    if (evaluation.releasePolicy && !evaluation.releasePolicy.allowed) {
+      throw new BadRequestException(evaluation.releasePolicy.reason);
+    }
+
+    // Reviewer quorum required for this withdrawal
+    const quorum = await this.quorumService.buildQuorum({
+      withdrawalId,
+      campaignId: dto.campaignId,
+      requesterId: userId,
+      method: actualTokenType === TokenType.INR ? "INR" : "CRYPTO",
+      amountInrPaise: actualTokenType === TokenType.INR ? amountToStore : null,
+      amountUsd: actualTokenType !== TokenType.INR
+        ? await this.quorumService.cryptoAmountUsd(this.getCryptoSymbol(actualTokenType), actualAmountNative)
+        : null,
+      minimumApprovals: evaluation.shouldPause ? 2 : 1,
+    });
+
     // Create withdrawals_private doc (server/admin only)
     const privateRef = db.collection("withdrawals_private").doc(withdrawalId);
     await privateRef.set({
@@ -462,7 +516,7 @@ export class WithdrawalsService {
       networkId: (dto as any).networkId || null,
       payee: {
         // INR
-        upiId: (dto as any).upiVpa || null,
+        upiId: dto.upiVpa || null,
         bankAccount: dto.bankAccountNumber || null,
         ifsc: dto.bankIfsc || null,
         accountName: dto.bankAccountHolderName || null,
@@ -471,10 +525,16 @@ export class WithdrawalsService {
         networkId: actualTokenType !== TokenType.INR ? ((dto as any).networkId || null) : null,
       },
       invoice: invoiceInfo,
+      milestoneId: dto.milestoneId || null,
+      anomalyScore: evaluation.anomalyScore,
+      anomalyFlags: evaluation.flags,
+      policyHold: evaluation.shouldPause,
+      quorum,
       status: "PENDING",
       createdAt: now,
       updatedAt: now,
     });
+    await this.policyService.saveEvaluation(withdrawalId, evaluation);
 
     // Create withdrawals_public doc (public)
     const amountDisplay = actualTokenType === TokenType.INR
@@ -512,6 +572,7 @@ export class WithdrawalsService {
       method: actualTokenType === TokenType.INR ? "INR" : "CRYPTO",
       amountInrPaise: actualTokenType === TokenType.INR ? amountToStore : null,
       assetSymbol: actualTokenType !== TokenType.INR ? this.getCryptoSymbol(actualTokenType) : null,
+      quorum,
     });
 
     // Also create in legacy withdrawals collection for backward compatibility
@@ -543,18 +604,6 @@ export class WithdrawalsService {
       submitterId: userId,
     });
 
-    // Anchor on-chain
-    try {
-      await this.web3Service.anchorEvidence({
-        kind: EvidenceKind.WITHDRAWAL_REQUEST,
-        campaignId: dto.campaignId,
-        evidenceHash: `0x${evidenceHash}`,
-        amount: actualAmountNative, // Use actual native amount
-      });
-    } catch (error) {
-      console.error("Failed to anchor evidence:", error);
-    }
-
     // Queue notification to donors
     const donations = await this.firebase.query("donations", "campaignId", "==", dto.campaignId);
     const uniqueDonorIds = [...new Set(donations.map((d) => d.donorId))];
@@ -619,6 +668,19 @@ export class WithdrawalsService {
       throw new BadRequestException(`Withdrawal is not in PENDING status. Current status: ${withdrawal.status}`);
     }
 
+    const quorum = await this.quorumService.recordDecision(
+      { statusRef: privateRef, mirrorRefs: [db.collection("review_queue").doc(withdrawalId)] },
+      await this.getQuorumSubject(withdrawalId, withdrawal),
+      reviewerId,
+      "REJECT",
+      reasonInternal || reasonPublic
+    );
+
+    // Without veto, a rejection only counts towards the quorum
+    if (quorum.outcome !== "REJECTED") {
+      return { id: withdrawalId, status: withdrawal.status, quorum };
+    }
+
     const now = admin.firestore.FieldValue.serverTimestamp();
 
     // Update withdrawals_private
@@ -699,93 +761,84 @@ export class WithdrawalsService {
       throw new NotFoundException("Campaign not found");
     }
 
+    const quorumRefs = {
+      statusRef: privateRef,
+      mirrorRefs: [db.collection("review_queue").doc(withdrawalId)],
+    };
+    const quorum = await this.quorumService.recordDecision(
+      quorumRefs,
+      await this.getQuorumSubject(withdrawalId, withdrawal),
+      reviewerId,
+      "APPROVE",
+      notes
+    );
+
+    // Wait for the remaining reviewers
+    if (quorum.outcome !== "APPROVED") {
+      return { id: withdrawalId, status: withdrawal.status, quorum };
+    }
+
     const now = admin.firestore.FieldValue.serverTimestamp();
 
-    // Handle INR withdrawals with Razorpay payout
+    // INR withdrawals: approve, then hand off to the payout provider. The
+    // provider webhook moves the withdrawal to PAID (or back to APPROVED)
     if (withdrawal.method === "INR") {
       const payee = withdrawal.payee || {};
-      if (!payee.bankAccount || !payee.ifsc || !payee.accountName) {
-        throw new BadRequestException("Bank account details are missing for INR withdrawal");
+      if (!payee.upiId && (!payee.bankAccount || !payee.ifsc || !payee.accountName)) {
+        await this.quorumService.revertDecision(quorumRefs, withdrawalId, reviewerId);
+        throw new BadRequestException("UPI ID or bank account details are missing for INR withdrawal");
       }
 
-      try {
-        // withdrawal.amountInrPaise is already in paise (integer string)
-        const amountInPaise = parseInt(withdrawal.amountInrPaise || "0");
-
-        // Create Razorpay payout
-        const payout = await this.razorpayService.createPayout({
-          accountNumber: payee.bankAccount,
-          amount: amountInPaise,
-          currency: "INR",
-          mode: "NEFT",
-          purpose: "payout",
-          fundAccount: {
-            accountType: "bank_account",
-            bankAccount: {
-              name: payee.accountName,
-              ifsc: payee.ifsc,
-              accountNumber: payee.bankAccount,
-            },
-          },
-          notes: {
-            withdrawalId,
-            campaignId: withdrawal.campaignId,
-            reviewerId,
-          },
-        });
-
-        const finalStatus = payout.requires_manual_processing ? "APPROVED" : "PAID";
-        const payoutStatus = payout.status;
-
-        // Update withdrawals_private
-        await privateRef.update({
-          status: finalStatus,
-          adminDecision: {
-            decidedByUid: reviewerId,
-            decidedAt: now,
-            note: notes,
-          },
-          payoutId: payout.id,
-          payoutStatus,
-          updatedAt: now,
-        });
-
-        // Update withdrawals_public
-        const publicRef = db
-          .collection("withdrawals_public")
-          .doc(withdrawal.campaignId)
-          .collection("items")
-          .doc(withdrawalId);
-        
-        await publicRef.update({
-          status: finalStatus,
-          publicNote: finalStatus === "PAID" ? "Payment completed" : "Approved, payment processing",
-          updatedAt: now,
-        });
+      await privateRef.update({
+        status: "APPROVED",
+        adminDecision: {
+          decidedByUid: reviewerId,
+          decidedAt: now,
+          note: notes,
+        },
+        updatedAt: now,
+      });
 
-        // Update review_queue
-        const reviewQueueRef = db.collection("review_queue").doc(withdrawalId);
-        await reviewQueueRef.update({
+      await db
+        .collection("withdrawals_public")
+        .doc(withdrawal.campaignId)
+        .collection("items")
+        .doc(withdrawalId)
+        .update({
           status: "APPROVED",
+          publicNote: "Approved, payment processing",
+          updatedAt: now,
         });
 
-        // Update campaign withdrawn amount
-        const newWithdrawnInr = (
-          BigInt(campaign.withdrawnInr || "0") + BigInt(withdrawal.amountInrPaise || "0")
-        ).toString();
-        await this.firebase.updateCampaign(withdrawal.campaignId, {
-          withdrawnInr: newWithdrawnInr,
-        });
+      await db.collection("review_queue").doc(withdrawalId).update({
+        status: "APPROVED",
+      });
+      await this.anchorApprovedBundle(withdrawalId, withdrawal.campaignId, withdrawal.amountInrPaise);
+
+      // Funds are committed once approved; failed payouts are retried, not released
+      const newWithdrawnInr = (
+        BigInt(campaign.withdrawnInr || "0") + BigInt(withdrawal.amountInrPaise || "0")
+      ).toString();
+      await this.firebase.updateCampaign(withdrawal.campaignId, {
+        withdrawnInr: newWithdrawnInr,
+      });
 
+      try {
+        const payout = await this.payoutService.initiatePayout(withdrawalId);
         return {
           id: withdrawalId,
-          status: finalStatus,
-          payoutId: payout.id,
-          payoutStatus,
+          status: payout.status === "PROCESSED" ? "PAID" : "APPROVED",
+          payout,
         };
       } catch (error: any) {
+        // Approval stands; an admin retries the payout
         const message = error?.message || "Unknown error";
-        throw new BadRequestException(`Failed to create Razorpay payout: ${message}`);
+        console.error(`Payout for withdrawal ${withdrawalId} failed:`, message);
+        return {
+          id: withdrawalId,
+          status: "APPROVED",
+          payoutError: message,
+        };
       }
     } else {
       // Handle Crypto withdrawals (blockchain flow)
@@ -809,79 +862,82 @@ export class WithdrawalsService {
         );
       }
 
-      // Validate vault address
-      if (!campaign.vaultAddress) {
-        throw new BadRequestException("Campaign vault address not found. Vault must be deployed for crypto withdrawals.");
+      // Released from the campaign vault through the treasury Safe
+      const network = getNetwork(networkId);
+      if (!network || network.type !== "EVM") {
+        await this.quorumService.revertDecision(quorumRefs, withdrawalId, reviewerId);
+        throw new BadRequestException(`Crypto withdrawals on ${networkId} cannot be released through the Safe`);
       }
 
-      // Determine token address for release (use default token addresses based on asset)
-      let tokenAddrForRelease = "0x0000000000000000000000000000000000000000"; // Default to native
-      if (assetSymbol === "USDC") {
-        tokenAddrForRelease = process.env.USDC_TOKEN_ADDRESS || "0xA8CE8aee21bC2A48a5EF670afCc9254C68Dd62c3";
-      } else if (assetSymbol === "USDT") {
-        tokenAddrForRelease = process.env.USDT_TOKEN_ADDRESS || "0x1E4a5963aBFD975d8c9021ce480b42188849D41d";
-      }
-
-      try {
-        // Release funds from vault contract
-        const txHash = await this.web3Service.releaseFunds(
-          campaign.vaultAddress,
-          null, // No milestone for direct withdrawals
-          tokenAddrForRelease,
-          amountCryptoRaw, // Use raw amount (integer string)
-          payee.address,
-          "" // evidenceHash - not needed for release
-        );
-
-        // Update withdrawals_private
-        await privateRef.update({
-          status: "PAID",
-          adminDecision: {
-            decidedByUid: reviewerId,
-            decidedAt: now,
-            note: notes,
-          },
-          txHash,
-          updatedAt: now,
-        });
+      await privateRef.update({
+        status: "APPROVED",
+        adminDecision: {
+          decidedByUid: reviewerId,
+          decidedAt: now,
+          note: notes,
+        },
+        updatedAt: now,
+      });
 
-        // Update withdrawals_public
-        const publicRef = db
-          .collection("withdrawals_public")
-          .doc(withdrawal.campaignId)
-          .collection("items")
-          .doc(withdrawalId);
-        
-        await publicRef.update({
-          status: "PAID",
-          publicNote: "Payment completed",
+      await db
+        .collection("withdrawals_public")
+        .doc(withdrawal.campaignId)
+        .collection("items")
+        .doc(withdrawalId)
+        .update({
+          status: "APPROVED",
+          publicNote: "Approved, awaiting multisig signatures",
           updatedAt: now,
         });
 
-        // Update review_queue
-        const reviewQueueRef = db.collection("review_queue").doc(withdrawalId);
-        await reviewQueueRef.update({
-          status: "APPROVED",
-        });
+      await db.collection("review_queue").doc(withdrawalId).update({
+        status: "APPROVED",
+      });
+      await this.anchorApprovedBundle(withdrawalId, withdrawal.campaignId, amountCryptoRaw);
 
-        // Update campaign withdrawn amount
-        const newWithdrawnCrypto = (
-          BigInt(campaign.withdrawnCrypto || "0") + BigInt(amountCryptoRaw)
-        ).toString();
-        await this.firebase.updateCampaign(withdrawal.campaignId, {
-          withdrawnCrypto: newWithdrawnCrypto,
-        });
+      const newWithdrawnCrypto = (
+        BigInt(campaign.withdrawnCrypto || "0") + parseUnits(amountCryptoRaw, decimals)
+      ).toString();
+      await this.firebase.updateCampaign(withdrawal.campaignId, {
+        withdrawnCrypto: newWithdrawnCrypto,
+      });
 
-        return { 
-          id: withdrawalId,
-          txHash, 
-          status: "PAID",
-        };
+      // The worker proposes the vault withdrawal to the Safe; reviewers then
+      // co-sign it from the dashboard. The scheduler re-enqueues missed jobs
+      try {
+        await this.queueService.addWithdrawalExecutorJob(withdrawalId);
       } catch (error: any) {
-        const message = error?.message || "Unknown error";
-        console.error("Crypto withdrawal error:", error);
-        throw new BadRequestException(`Failed to release crypto funds: ${message}`);
+        console.error(`Failed to enqueue Safe proposal for withdrawal ${withdrawalId}:`, error?.message);
       }
+
+      return {
+        id: withdrawalId,
+        status: "APPROVED",
+      };
+    }
+  }
+
+  /**
+   * Queue the evidence bundle of an approved withdrawal for anchoring. The
+   * bundle hash was recorded on the legacy withdrawals doc at submission.
+   */
+  private async anchorApprovedBundle(withdrawalId: string, campaignId: string, amount?: string) {
+    try {
+      const legacy = await this.firebase.getById("withdrawals", withdrawalId) as any;
+      if (!legacy?.evidenceHash) {
+        return;
+      }
+      await this.web3Service.anchorEvidence(
+        {
+          kind: EvidenceKind.WITHDRAWAL_REQUEST,
+          campaignId,
+          evidenceHash: `0x${legacy.evidenceHash}`,
+          amount,
+        },
+        { type: "withdrawal", id: withdrawalId }
+      );
+    } catch (error) {
+      console.error("Failed to anchor evidence:", error);
     }
   }
 
@@ -922,6 +978,7 @@ export class WithdrawalsService {
           assetSymbol: queueItem.assetSymbol,
           createdAt: queueItem.createdAt,
           status: queueItem.status,
+          quorum: privateData.quorum || null,
           // Include invoice summary
           invoice: {
             vendorName: privateData.invoice?.vendorName,
@@ -1026,12 +1083,37 @@ export class WithdrawalsService {
     };
   }
 
+  /**
+   * Retry the payout of an approved INR withdrawal after a failure or reversal
+   */
+  async retryPayout(withdrawalId: string) {
+    const payout = await this.payoutService.initiatePayout(withdrawalId);
+    return { id: withdrawalId, payout };
+  }
+
   async markPayoutCompleted(
     withdrawalId: string,
     adminId: string,
     payoutId?: string,
     notes?: string
   ) {
+    // Payouts that had to be processed outside the provider API
+    const privateDoc = await this.firebase.firestore.collection("withdrawals_private").doc(withdrawalId).get();
+    if (privateDoc.exists) {
+      const payout = privateDoc.data()?.payout;
+      if (!payout || payout.status !== "MANUAL") {
+        throw new BadRequestException("Only manual payouts can be marked completed");
+      }
+      const result = await this.payoutService.applyPayoutUpdate(payout.provider, payout.payoutId, "PROCESSED", {
+        utr: payoutId || null,
+      });
+      await privateDoc.ref.update({
+        payoutCompletedBy: adminId,
+        payoutNotes: notes || null,
+      });
+      return { id: withdrawalId, status: result?.status || "PAID", payoutStatus: "processed" };
+    }
+
     const withdrawal = await this.firebase.getById("withdrawals", withdrawalId) as any;
 
     if (!withdrawal) {
@@ -9,7 +9,8 @@ contract EvidenceRegistry {
     enum EvidenceKind {
         INR_DONATION,
         WITHDRAWAL_REQUEST,
-        MILESTONE_PROOF
+        MILESTONE_PROOF,
+        LEDGER_ROOT // Merkle root of a campaign's public donation/withdrawal ledger
     }
 
     struct EvidenceRecord {
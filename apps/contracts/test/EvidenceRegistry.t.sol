@@ -44,6 +44,13 @@ contract EvidenceRegistryTest is Test {
             2000
         );
     }
-}
 
+    function testAnchorLedgerRoot() public {
+        bytes32 ledgerRoot = keccak256("ledger-root");
+        registry.anchorEvidence(EvidenceRegistry.EvidenceKind.LEDGER_ROOT, campaignId, ledgerRoot, 0);
 
+        EvidenceRegistry.EvidenceRecord memory record = registry.getEvidenceRecord(ledgerRoot);
+        assertEq(uint256(record.kind), uint256(EvidenceRegistry.EvidenceKind.LEDGER_ROOT));
+        assertEq(registry.getCampaignEvidence(campaignId, 0), ledgerRoot);
+    }
+}
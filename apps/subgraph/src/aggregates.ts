@@ -0,0 +1,137 @@
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { Campaign, CampaignToken, PauseEvent, Token, Vault } from "../generated/schema";
+
+export const NATIVE_TOKEN = Address.zero();
+
+export function eventId(event: ethereum.Event): string {
+  return event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
+}
+
+export function getOrCreateCampaign(campaignId: Bytes, event: ethereum.Event): Campaign {
+  const id = campaignId.toHexString();
+  let campaign = Campaign.load(id);
+  if (!campaign) {
+    campaign = new Campaign(id);
+    campaign.createdAt = event.block.timestamp;
+    campaign.status = "ACTIVE";
+    campaign.paused = false;
+    campaign.pausedVaultCount = 0;
+    campaign.donationCount = BigInt.zero();
+    campaign.withdrawalCount = BigInt.zero();
+    campaign.milestoneCount = BigInt.zero();
+    campaign.releaseCount = BigInt.zero();
+    campaign.save();
+  }
+  return campaign;
+}
+
+export function createVault(address: Address, campaign: Campaign, type: string, event: ethereum.Event): Vault {
+  const vault = new Vault(address.toHexString());
+  vault.campaign = campaign.id;
+  vault.type = type;
+  vault.paused = false;
+  vault.totalDonated = BigInt.zero();
+  vault.totalWithdrawn = BigInt.zero();
+  vault.createdAt = event.block.timestamp;
+  vault.createdAtBlock = event.block.number;
+  return vault;
+}
+
+function getOrCreateToken(address: Bytes): Token {
+  const id = address.toHexString();
+  let token = Token.load(id);
+  if (!token) {
+    token = new Token(id);
+    token.donationCount = BigInt.zero();
+    token.withdrawalCount = BigInt.zero();
+    token.totalDonated = BigInt.zero();
+    token.totalWithdrawn = BigInt.zero();
+  }
+  return token;
+}
+
+function getOrCreateCampaignToken(campaign: Campaign, token: Token): CampaignToken {
+  const id = campaign.id + "-" + token.id;
+  let campaignToken = CampaignToken.load(id);
+  if (!campaignToken) {
+    campaignToken = new CampaignToken(id);
+    campaignToken.campaign = campaign.id;
+    campaignToken.token = token.id;
+    campaignToken.donationCount = BigInt.zero();
+    campaignToken.withdrawalCount = BigInt.zero();
+    campaignToken.totalDonated = BigInt.zero();
+    campaignToken.totalWithdrawn = BigInt.zero();
+  }
+  return campaignToken;
+}
+
+/**
+ * Add a donation to the vault, campaign and token totals
+ */
+export function recordDonation(campaign: Campaign, vault: Vault, tokenAddress: Bytes, amount: BigInt): void {
+  const one = BigInt.fromI32(1);
+
+  vault.totalDonated = vault.totalDonated.plus(amount);
+  vault.save();
+
+  campaign.donationCount = campaign.donationCount.plus(one);
+  campaign.save();
+
+  const token = getOrCreateToken(tokenAddress);
+  token.donationCount = token.donationCount.plus(one);
+  token.totalDonated = token.totalDonated.plus(amount);
+  token.save();
+
+  const campaignToken = getOrCreateCampaignToken(campaign, token);
+  campaignToken.donationCount = campaignToken.donationCount.plus(one);
+  campaignToken.totalDonated = campaignToken.totalDonated.plus(amount);
+  campaignToken.save();
+}
+
+/**
+ * Add a vault withdrawal or milestone release to the vault and token totals.
+ * The campaign's own counters are bumped by the caller.
+ */
+export function recordWithdrawal(campaign: Campaign, vault: Vault, tokenAddress: Bytes, amount: BigInt): void {
+  const one = BigInt.fromI32(1);
+
+  vault.totalWithdrawn = vault.totalWithdrawn.plus(amount);
+  vault.save();
+
+  const token = getOrCreateToken(tokenAddress);
+  token.withdrawalCount = token.withdrawalCount.plus(one);
+  token.totalWithdrawn = token.totalWithdrawn.plus(amount);
+  token.save();
+
+  const campaignToken = getOrCreateCampaignToken(campaign, token);
+  campaignToken.withdrawalCount = campaignToken.withdrawalCount.plus(one);
+  campaignToken.totalWithdrawn = campaignToken.totalWithdrawn.plus(amount);
+  campaignToken.save();
+}
+
+/**
+ * Record a pause or unpause of one vault. The campaign is paused while any
+ * of its vaults is; an event for a vault already in that state does not
+ * count twice.
+ */
+export function recordPause(vault: Vault, paused: boolean, account: Bytes | null, event: ethereum.Event): void {
+  const campaign = Campaign.load(vault.campaign)!;
+  if (vault.paused != paused) {
+    vault.paused = paused;
+    vault.save();
+    campaign.pausedVaultCount = campaign.pausedVaultCount + (paused ? 1 : -1);
+  }
+  campaign.paused = campaign.pausedVaultCount > 0;
+  campaign.status = campaign.paused ? "PAUSED" : "ACTIVE";
+  campaign.save();
+
+  const pause = new PauseEvent(eventId(event));
+  pause.campaign = campaign.id;
+  pause.vault = vault.id;
+  pause.paused = paused;
+  pause.account = account;
+  pause.timestamp = event.block.timestamp;
+  pause.txHash = event.transaction.hash;
+  pause.blockNumber = event.block.number;
+  pause.save();
+}
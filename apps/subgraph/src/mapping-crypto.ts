@@ -1,68 +1,129 @@
-import { DonationReceived, WithdrawalExecuted, Vault } from "../generated/schema";
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts";
+import { VaultCreated } from "../generated/CampaignVaultFactory/CampaignVaultFactory";
+import { CampaignTokenVault as CampaignTokenVaultContract } from "../generated/CampaignVaultFactory/CampaignTokenVault";
 import {
-  DonationReceived as DonationReceivedEvent,
-  WithdrawalExecuted as WithdrawalExecutedEvent,
-} from "../generated/CampaignNativeVault/CampaignNativeVault";
-import { Address, BigInt } from "@graphprotocol/graph-ts";
-
-export function handleDonationReceived(event: DonationReceivedEvent): void {
-  // Get or create vault
-  const vaultId = event.address.toHexString();
-  let vault = Vault.load(vaultId);
-  if (!vault) {
-    vault = new Vault(vaultId);
-    vault.campaignId = event.params.campaignId;
-    vault.assetId = Address.fromString("0x0000000000000000000000000000000000000000"); // Native
-    vault.type = "NATIVE";
-    vault.totalDonated = BigInt.fromI32(0);
-    vault.createdAt = event.block.timestamp;
-    vault.createdAtBlock = event.block.number;
+  DonationReceived as NativeDonationReceived,
+  WithdrawalExecuted as NativeWithdrawalExecuted,
+  Paused as NativePaused,
+  Unpaused as NativeUnpaused,
+} from "../generated/templates/CampaignNativeVault/CampaignNativeVault";
+import {
+  DonationReceived as TokenDonationReceived,
+  WithdrawalExecuted as TokenWithdrawalExecuted,
+  Paused as TokenPaused,
+  Unpaused as TokenUnpaused,
+} from "../generated/templates/CampaignTokenVault/CampaignTokenVault";
+import { CampaignNativeVault, CampaignTokenVault } from "../generated/templates";
+import { Campaign, Donation, Vault, Withdrawal } from "../generated/schema";
+import {
+  NATIVE_TOKEN,
+  createVault,
+  eventId,
+  getOrCreateCampaign,
+  recordDonation,
+  recordPause,
+  recordWithdrawal,
+} from "./aggregates";
+
+export function handleVaultCreated(event: VaultCreated): void {
+  const campaign = getOrCreateCampaign(event.params.campaignId, event);
+  const vault = createVault(event.params.vault, campaign, event.params.isNative ? "NATIVE" : "TOKEN", event);
+  vault.assetId = event.params.assetId;
+
+  if (event.params.isNative) {
+    CampaignNativeVault.create(event.params.vault);
+  } else {
+    const token = CampaignTokenVaultContract.bind(event.params.vault).try_token();
+    if (!token.reverted) {
+      vault.token = token.value;
+    }
+    CampaignTokenVault.create(event.params.vault);
   }
-  
-  // Update vault totals
-  vault.totalDonated = vault.totalDonated.plus(event.params.amount);
   vault.save();
-  
-  // Create donation entity
-  const donationId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
-  const donation = new DonationReceived(donationId);
-  donation.campaignId = event.params.campaignId;
-  donation.intentId = event.params.intentId;
-  donation.donor = event.params.donor;
-  donation.amount = event.params.amount;
-  donation.token = null; // Native token
-  donation.timestamp = event.params.timestamp;
-  donation.transactionHash = event.transaction.hash;
-  donation.blockNumber = event.block.number;
-  donation.vault = vaultId;
-  donation.save();
 }
 
-export function handleWithdrawalExecuted(event: WithdrawalExecutedEvent): void {
-  // Get vault
-  const vaultId = event.address.toHexString();
-  const vault = Vault.load(vaultId);
-  if (!vault) {
-    return; // Vault should exist if withdrawal is happening
-  }
-  
-  // Create withdrawal entity
-  const withdrawalId = event.transaction.hash.toHexString() + "-" + event.logIndex.toString();
-  const withdrawal = new WithdrawalExecuted(withdrawalId);
-  withdrawal.campaignId = event.params.campaignId;
-  withdrawal.withdrawalId = event.params.withdrawalId;
-  withdrawal.to = event.params.to;
-  withdrawal.amount = event.params.amount;
-  withdrawal.token = null; // Native token
-  withdrawal.timestamp = event.params.timestamp;
-  withdrawal.transactionHash = event.transaction.hash;
-  withdrawal.blockNumber = event.block.number;
-  withdrawal.vault = vaultId;
-  withdrawal.save();
+export function handleNativeDonationReceived(event: NativeDonationReceived): void {
+  saveDonation(event, event.params.intentId, event.params.donor, NATIVE_TOKEN, event.params.amount, event.params.timestamp);
 }
 
+export function handleTokenDonationReceived(event: TokenDonationReceived): void {
+  saveDonation(event, event.params.intentId, event.params.donor, event.params.token, event.params.amount, event.params.timestamp);
+}
 
+export function handleNativeWithdrawalExecuted(event: NativeWithdrawalExecuted): void {
+  saveWithdrawal(event, event.params.withdrawalId, event.params.to, NATIVE_TOKEN, event.params.amount, event.params.timestamp);
+}
 
+export function handleTokenWithdrawalExecuted(event: TokenWithdrawalExecuted): void {
+  saveWithdrawal(event, event.params.withdrawalId, event.params.to, event.params.token, event.params.amount, event.params.timestamp);
+}
 
+export function handleNativeVaultPaused(event: NativePaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, true, event.params.account, event);
+}
 
+export function handleNativeVaultUnpaused(event: NativeUnpaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, false, event.params.account, event);
+}
 
+export function handleTokenVaultPaused(event: TokenPaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, true, event.params.account, event);
+}
+
+export function handleTokenVaultUnpaused(event: TokenUnpaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, false, event.params.account, event);
+}
+
+function saveDonation(
+  event: ethereum.Event,
+  intentId: Bytes,
+  donor: Address,
+  token: Address,
+  amount: BigInt,
+  timestamp: BigInt
+): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const campaign = Campaign.load(vault.campaign)!;
+
+  const donation = new Donation(eventId(event));
+  donation.campaign = campaign.id;
+  donation.vault = vault.id;
+  donation.intentId = intentId;
+  donation.donor = donor;
+  donation.token = token;
+  donation.amount = amount;
+  donation.timestamp = timestamp;
+  donation.txHash = event.transaction.hash;
+  donation.blockNumber = event.block.number;
+  donation.save();
+
+  recordDonation(campaign, vault, token, amount);
+}
+
+function saveWithdrawal(
+  event: ethereum.Event,
+  withdrawalId: Bytes,
+  payee: Address,
+  token: Address,
+  amount: BigInt,
+  timestamp: BigInt
+): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const campaign = Campaign.load(vault.campaign)!;
+
+  const withdrawal = new Withdrawal(eventId(event));
+  withdrawal.campaign = campaign.id;
+  withdrawal.vault = vault.id;
+  withdrawal.withdrawalId = withdrawalId;
+  withdrawal.token = token;
+  withdrawal.amount = amount;
+  withdrawal.payee = payee;
+  withdrawal.timestamp = timestamp;
+  withdrawal.txHash = event.transaction.hash;
+  withdrawal.blockNumber = event.block.number;
+  withdrawal.save();
+
+  campaign.withdrawalCount = campaign.withdrawalCount.plus(BigInt.fromI32(1));
+  campaign.save();
+  recordWithdrawal(campaign, vault, token, amount);
+}
@@ -0,0 +1,19 @@
+import { EvidenceAnchored } from "../generated/EvidenceRegistry/EvidenceRegistry";
+import { Evidence } from "../generated/schema";
+
+// EvidenceRegistry.EvidenceKind, in declaration order
+const EVIDENCE_KINDS = ["INR_DONATION", "WITHDRAWAL_REQUEST", "MILESTONE_PROOF", "LEDGER_ROOT"];
+
+export function handleEvidenceAnchored(event: EvidenceAnchored): void {
+  const evidence = new Evidence(event.params.evidenceHash.toHexString());
+  const kind = event.params.kind;
+  evidence.kind = kind < EVIDENCE_KINDS.length ? EVIDENCE_KINDS[kind] : "UNKNOWN";
+  evidence.campaignId = event.params.campaignId;
+  evidence.evidenceHash = event.params.evidenceHash;
+  evidence.submitter = event.params.submitter;
+  evidence.amount = event.params.amount;
+  evidence.timestamp = event.block.timestamp;
+  evidence.txHash = event.transaction.hash;
+  evidence.blockNumber = event.block.number;
+  evidence.save();
+}
@@ -1,15 +1,112 @@
+import { BigInt } from "@graphprotocol/graph-ts";
 import { CampaignCreated } from "../generated/CampaignFactory/CampaignFactory";
-import { Campaign } from "../generated/schema";
+import {
+  CampaignPaused,
+  CampaignUnpaused,
+  Funded,
+  MilestoneCreated,
+  Released,
+  WithdrawalRequested,
+} from "../generated/templates/CampaignVault/CampaignVault";
+import { CampaignVault } from "../generated/templates";
+import { Campaign, Donation, Milestone, Release, Vault, WithdrawalRequest } from "../generated/schema";
+import { createVault, eventId, getOrCreateCampaign, recordDonation, recordPause, recordWithdrawal } from "./aggregates";
 
 export function handleCampaignCreated(event: CampaignCreated): void {
-  let campaign = new Campaign(event.params.campaignId.toHex());
-  campaign.vault = event.params.vault;
+  const campaign = getOrCreateCampaign(event.params.campaignId, event);
   campaign.organizer = event.params.organizer;
   campaign.title = event.params.title;
-  campaign.createdAt = event.block.timestamp;
-  campaign.totalRaised = BigInt.fromI32(0);
-  campaign.status = "ACTIVE";
   campaign.save();
+
+  createVault(event.params.vault, campaign, "MILESTONE", event).save();
+  CampaignVault.create(event.params.vault);
+}
+
+export function handleFunded(event: Funded): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const campaign = Campaign.load(vault.campaign)!;
+
+  const donation = new Donation(eventId(event));
+  donation.campaign = campaign.id;
+  donation.vault = vault.id;
+  donation.donor = event.params.donor;
+  donation.token = event.params.token;
+  donation.amount = event.params.amount;
+  donation.timestamp = event.block.timestamp;
+  donation.txHash = event.transaction.hash;
+  donation.blockNumber = event.block.number;
+  donation.save();
+
+  recordDonation(campaign, vault, event.params.token, event.params.amount);
+}
+
+export function handleMilestoneCreated(event: MilestoneCreated): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const campaign = Campaign.load(vault.campaign)!;
+
+  const milestone = new Milestone(vault.id + "-" + event.params.milestoneId.toString());
+  milestone.campaign = campaign.id;
+  milestone.vault = vault.id;
+  milestone.milestoneId = event.params.milestoneId;
+  milestone.name = event.params.name;
+  milestone.capAmount = event.params.capAmount;
+  milestone.requestedAmount = BigInt.zero();
+  milestone.releasedAmount = BigInt.zero();
+  milestone.createdAt = event.block.timestamp;
+  milestone.save();
+
+  campaign.milestoneCount = campaign.milestoneCount.plus(BigInt.fromI32(1));
+  campaign.save();
+}
+
+export function handleWithdrawalRequested(event: WithdrawalRequested): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const milestone = Milestone.load(vault.id + "-" + event.params.milestoneId.toString())!;
+
+  const request = new WithdrawalRequest(eventId(event));
+  request.campaign = vault.campaign;
+  request.milestone = milestone.id;
+  request.token = event.params.token;
+  request.amount = event.params.amount;
+  request.payee = event.params.payee;
+  request.evidenceHash = event.params.evidenceHash;
+  request.timestamp = event.block.timestamp;
+  request.txHash = event.transaction.hash;
+  request.save();
+
+  milestone.requestedAmount = milestone.requestedAmount.plus(event.params.amount);
+  milestone.save();
 }
 
+export function handleReleased(event: Released): void {
+  const vault = Vault.load(event.address.toHexString())!;
+  const campaign = Campaign.load(vault.campaign)!;
+  const milestone = Milestone.load(vault.id + "-" + event.params.milestoneId.toString())!;
 
+  const release = new Release(eventId(event));
+  release.campaign = campaign.id;
+  release.milestone = milestone.id;
+  release.token = event.params.token;
+  release.amount = event.params.amount;
+  release.payee = event.params.payee;
+  release.evidenceHash = event.params.evidenceHash;
+  release.timestamp = event.block.timestamp;
+  release.txHash = event.transaction.hash;
+  release.blockNumber = event.block.number;
+  release.save();
+
+  milestone.releasedAmount = milestone.releasedAmount.plus(event.params.amount);
+  milestone.save();
+
+  campaign.releaseCount = campaign.releaseCount.plus(BigInt.fromI32(1));
+  campaign.save();
+  recordWithdrawal(campaign, vault, event.params.token, event.params.amount);
+}
+
+export function handleCampaignPaused(event: CampaignPaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, true, null, event);
+}
+
+export function handleCampaignUnpaused(event: CampaignUnpaused): void {
+  recordPause(Vault.load(event.address.toHexString())!, false, null, event);
+}
@@ -80,6 +80,14 @@ export default function CampaignDetailPage() {
     },
   });
 
+  // Refund progress for cancelled campaigns
+  const { data: cancellation } = useQuery({
+    queryKey: ["campaign-cancellation", params.id],
+    queryFn: () => apiRequest<any>(`/campaigns/${params.id}/cancellation`),
+    enabled: campaign?.status === "CANCELLED",
+    refetchInterval: 60000,
+  });
+
   // Get unique symbols for price fetching
   const symbols = useMemo(() => {
     const unique = new Set<string>(["INR"]);
@@ -194,7 +202,7 @@ export default function CampaignDetailPage() {
   const isOwnCampaign = isOrganizer && campaign.organizerId === user.id;
   const isAdminOrReviewer = user && (user.role === "ADMIN" || user.role === "REVIEWER");
 
-  if (campaign.status !== "ACTIVE" && !isOwnCampaign && !isAdminOrReviewer) {
+  if (campaign.status !== "ACTIVE" && campaign.status !== "CANCELLED" && !isOwnCampaign && !isAdminOrReviewer) {
     return (
       <div className="min-h-screen bg-black">
         <Header />
@@ -276,7 +284,23 @@ export default function CampaignDetailPage() {
               </div>
             </div>
 
-            {campaign.status === "ACTIVE" && !goalMet ? (
+            {campaign.status === "CANCELLED" ? (
+              <div className="p-4 bg-red-500/20 border border-red-500/50 rounded-lg">
+                <p className="text-red-400 text-sm font-semibold mb-1">
+                  {cancellation?.status === "COMPLETED"
+                    ? "This campaign was cancelled. Unreleased funds have been refunded to donors."
+                    : "This campaign was cancelled. Refunds of unreleased funds to donors are in progress."}
+                </p>
+                {cancellation?.reason && <p className="text-white/60 text-sm">Reason: {cancellation.reason}</p>}
+                {cancellation?.refunds?.total > 0 && (
+                  <p className="text-white/60 text-sm">
+                    {cancellation.refunds.refunded} of {cancellation.refunds.total} donor refunds completed
+                    {cancellation.refunds.awaitingClaim > 0 &&
+                      ` · ${cancellation.refunds.awaitingClaim} waiting for donors to claim`}
+                  </p>
+                )}
+              </div>
+            ) : campaign.status === "ACTIVE" && !goalMet ? (
               <Button
                 size="lg"
                 onClick={() => setDonateOpen(true)}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { apiRequest, getApiUrl } from "@/lib/api";
 import { useParams } from "next/navigation";
 
 export default function ProofsPage() {
@@ -10,6 +10,10 @@ export default function ProofsPage() {
     queryKey: ["withdrawals", params.id],
     queryFn: () => apiRequest<any[]>(`/withdrawals/campaign/${params.id}`),
   });
+  const { data: proofFiles } = useQuery({
+    queryKey: ["proofs", params.id],
+    queryFn: () => apiRequest<any[]>(`/campaigns/${params.id}/proofs`),
+  });
 
   return (
     <div className="min-h-screen p-8 pt-24">
@@ -40,9 +44,23 @@ export default function ProofsPage() {
                 {withdrawal.evidenceCid && (
                   <p>
                     <span className="text-white/60">IPFS CID: </span>
-                    <code className="bg-black/50 px-2 py-1 rounded">
-                      {withdrawal.evidenceCid}
-                    </code>
+                    <a
+                      href={`https://ipfs.io/ipfs/${withdrawal.evidenceCid}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-400 hover:underline"
+                    >
+                      <code className="bg-black/50 px-2 py-1 rounded">
+                        {withdrawal.evidenceCid}
+                      </code>
+                    </a>
+                    {/* Served only after the JSON hashes back to the evidence hash */}
+                    <a
+                      href={`${getApiUrl()}/evidence/${withdrawal.evidenceHash}/ipfs`}
+                      className="ml-4 text-blue-400 hover:underline"
+                    >
+                      Download (verified)
+                    </a>
                   </p>
                 )}
                 {withdrawal.txHash && (
@@ -62,6 +80,54 @@ export default function ProofsPage() {
             </div>
           ))}
         </div>
+
+        {proofFiles && proofFiles.length > 0 && (
+          <>
+            <h2 className="text-3xl font-bold mt-12 mb-6">Proof Files</h2>
+            <div className="space-y-4">
+              {proofFiles.map((proof: any) => (
+                <div
+                  key={proof.proofId}
+                  className="bg-white/5 backdrop-blur-sm border border-white/10 rounded-lg p-6 space-y-2 text-sm"
+                >
+                  <p>
+                    <span className="text-white/60">SHA-256: </span>
+                    <code className="bg-black/50 px-2 py-1 rounded break-all">{proof.sha256}</code>
+                  </p>
+                  {proof.ipfsCid ? (
+                    <>
+                      <p>
+                        <span className="text-white/60">IPFS CID: </span>
+                        <code className="bg-black/50 px-2 py-1 rounded break-all">{proof.ipfsCid}</code>
+                      </p>
+                      <div className="flex gap-4">
+                        {/* Served only after the file hashes back to the SHA-256 above */}
+                        <a
+                          href={`${getApiUrl()}/proofs/${proof.proofId}/ipfs`}
+                          className="text-blue-400 hover:underline"
+                        >
+                          Download from IPFS (verified)
+                        </a>
+                        <a
+                          href={`https://ipfs.io/ipfs/${proof.ipfsCid}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-400 hover:underline"
+                        >
+                          Open on public gateway
+                        </a>
+                      </div>
+                    </>
+                  ) : (
+                    <p className="text-white/60">
+                      {proof.ipfsStatus === "FAILED" ? "IPFS pinning failed" : "Pinning to IPFS…"}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
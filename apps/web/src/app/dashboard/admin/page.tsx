@@ -10,7 +10,7 @@ import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { FileCheck } from "lucide-react";
+import { FileCheck, Inbox, RotateCcw, Scale } from "lucide-react";
 
 // Component to handle proof file links
 function ProofLink({ proofId, index }: { proofId: string; index: number }) {
@@ -190,6 +190,20 @@ export default function AdminDashboardPage() {
     },
   });
 
+  const cancelCampaignMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return await apiRequest(`/campaigns/${id}/cancel`, {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["campaigns"] });
+    },
+    onError: (error: any) => alert(error?.message || "Failed to cancel campaign"),
+  });
+
   const deleteCampaignMutation = useMutation({
     mutationFn: async (id: string) => {
       return await apiRequest(`/campaigns/${id}`, {
@@ -302,6 +316,13 @@ export default function AdminDashboardPage() {
     }
   };
 
+  const handleCancel = (id: string) => {
+    const reason = prompt("Why is this campaign being cancelled? Donors will be refunded their share of unreleased funds.");
+    if (reason?.trim()) {
+      cancelCampaignMutation.mutate({ id, reason: reason.trim() });
+    }
+  };
+
   const handleDelete = (id: string) => {
     if (confirm("Are you sure you want to delete this campaign? This action cannot be undone.")) {
       deleteCampaignMutation.mutate(id);
@@ -388,6 +409,33 @@ export default function AdminDashboardPage() {
                 Review KYC {pendingKYCCount > 0 && `(${pendingKYCCount})`}
               </Button>
             </Link>
+            <Link href="/dashboard/admin/reconciliation">
+              <Button
+                size="lg"
+                className="w-full md:w-auto border bg-white/5 hover:bg-white/10 border-white/20 text-white"
+              >
+                <Scale className="w-5 h-5 mr-2" />
+                Settlement Reconciliation
+              </Button>
+            </Link>
+            <Link href="/dashboard/admin/refunds">
+              <Button
+                size="lg"
+                className="w-full md:w-auto border bg-white/5 hover:bg-white/10 border-white/20 text-white"
+              >
+                <RotateCcw className="w-5 h-5 mr-2" />
+                Donation Refunds
+              </Button>
+            </Link>
+            <Link href="/dashboard/admin/unattributed-deposits">
+              <Button
+                size="lg"
+                className="w-full md:w-auto border bg-white/5 hover:bg-white/10 border-white/20 text-white"
+              >
+                <Inbox className="w-5 h-5 mr-2" />
+                Unattributed Deposits
+              </Button>
+            </Link>
           </motion.div>
 
           {/* Pending Review Queue */}
@@ -534,7 +582,6 @@ export default function AdminDashboardPage() {
                             <option value="ACTIVE">ACTIVE</option>
                             <option value="PAUSED">PAUSED</option>
                             <option value="COMPLETED">COMPLETED</option>
-                            <option value="CANCELLED">CANCELLED</option>
                           </select>
                         </div>
                         <div className="flex gap-4">
@@ -586,17 +633,30 @@ export default function AdminDashboardPage() {
                           >
                             Edit
                           </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => {
-                              const newStatus = campaign.status === "ACTIVE" ? "PAUSED" : "ACTIVE";
-                              updateStatusMutation.mutate({ id: campaign.id, status: newStatus });
-                            }}
-                            disabled={updateStatusMutation.isPending}
-                          >
-                            {campaign.status === "ACTIVE" ? "Pause" : "Activate"}
-                          </Button>
+                          {campaign.status !== "CANCELLED" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                const newStatus = campaign.status === "ACTIVE" ? "PAUSED" : "ACTIVE";
+                                updateStatusMutation.mutate({ id: campaign.id, status: newStatus });
+                              }}
+                              disabled={updateStatusMutation.isPending}
+                            >
+                              {campaign.status === "ACTIVE" ? "Pause" : "Activate"}
+                            </Button>
+                          )}
+                          {campaign.status !== "CANCELLED" && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCancel(campaign.id)}
+                              disabled={cancelCampaignMutation.isPending}
+                              className="text-red-400 border-red-400/50 hover:bg-red-400/10"
+                            >
+                              Cancel & Refund
+                            </Button>
+                          )}
                           <Link href={`/campaigns/${campaign.id}`}>
                             <Button variant="outline" size="sm">
                               View
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { ArrowLeft } from "lucide-react";
+import { apiRequest } from "@/lib/api";
+import { Header } from "@/components/layout/header";
+import { Footer } from "@/components/layout/footer";
+import { Button } from "@/components/ui/button";
+
+const FLAGGED_STATUSES = ["MISSING_DONATION", "ORPHAN_PAYMENT", "AMOUNT_MISMATCH", "REFUND"];
+
+const STATUS_LABELS: Record<string, string> = {
+  MATCHED: "Matched",
+  MISSING_DONATION: "Missing donation",
+  ORPHAN_PAYMENT: "Orphan payment",
+  AMOUNT_MISMATCH: "Amount mismatch",
+  REFUND: "Refund",
+  SKIPPED: "Skipped",
+};
+
+function formatPaise(paise?: string | null) {
+  if (!paise) return "—";
+  return `₹${(parseInt(paise, 10) / 100).toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+}
+
+function yesterday() {
+  const date = new Date();
+  date.setDate(date.getDate() - 1);
+  return date.toISOString().slice(0, 10);
+}
+
+export default function ReconciliationPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [provider, setProvider] = useState<"razorpay" | "cashfree">("razorpay");
+  const [settlementDate, setSettlementDate] = useState(yesterday());
+  const [file, setFile] = useState<File | null>(null);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: user } = useQuery({
+    queryKey: ["user"],
+    queryFn: async () => {
+      try {
+        const token = localStorage.getItem("token");
+        if (!token) return null;
+        return await apiRequest<any>("/users/me");
+      } catch (error) {
+        return null;
+      }
+    },
+    retry: 1,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (user && user.role !== "ADMIN") {
+      router.push("/dashboard");
+    }
+  }, [user, router]);
+
+  const { data: runs } = useQuery({
+    queryKey: ["reconciliation-runs"],
+    queryFn: () => apiRequest<any[]>("/admin/reconciliation/runs"),
+    enabled: user?.role === "ADMIN",
+  });
+
+  const { data: run } = useQuery({
+    queryKey: ["reconciliation-run", selectedRunId],
+    queryFn: () => apiRequest<any>(`/admin/reconciliation/runs/${selectedRunId}`),
+    enabled: !!selectedRunId,
+  });
+
+  const onRunCreated = (created: any) => {
+    queryClient.invalidateQueries({ queryKey: ["reconciliation-runs"] });
+    setSelectedRunId(created.id);
+    setFile(null);
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      if (!file) throw new Error("Choose a settlement report first");
+      const content = await file.text();
+      return apiRequest<any>("/admin/reconciliation/runs", {
+        method: "POST",
+        body: JSON.stringify({
+          provider,
+          settlementDate,
+          content,
+          fileName: file.name,
+          format: file.name.toLowerCase().endsWith(".json") ? "json" : "csv",
+        }),
+      });
+    },
+    onSuccess: onRunCreated,
+    onError: (error: any) => alert(error?.message || "Failed to reconcile report"),
+  });
+
+  const fetchMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<any>("/admin/reconciliation/runs/fetch", {
+        method: "POST",
+        body: JSON.stringify({ provider, settlementDate }),
+      }),
+    onSuccess: onRunCreated,
+    onError: (error: any) => alert(error?.message || "Failed to fetch settlement report"),
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ itemId, action }: { itemId: string; action: "ACKNOWLEDGE" | "CREATE_DONATION" }) =>
+      apiRequest<any>(`/admin/reconciliation/runs/${selectedRunId}/items/${itemId}/resolve`, {
+        method: "POST",
+        body: JSON.stringify({ action, note: notes[itemId] }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-run", selectedRunId] });
+      queryClient.invalidateQueries({ queryKey: ["reconciliation-runs"] });
+    },
+    onError: (error: any) => alert(error?.message || "Failed to resolve item"),
+  });
+
+  const flaggedItems = (run?.items || []).filter((item: any) => FLAGGED_STATUSES.includes(item.status));
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+      <div className="pt-32 pb-20 px-6 lg:px-8">
+        <div className="container mx-auto max-w-7xl">
+          <Link href="/dashboard/admin" className="inline-flex items-center text-white/60 hover:text-white mb-6">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Admin Dashboard
+          </Link>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-12">
+            <h1 className="text-5xl font-bold mb-4">Settlement Reconciliation</h1>
+            <p className="text-white/60 text-lg">
+              Match gateway settlement reports against recorded donations
+            </p>
+          </motion.div>
+
+          {/* New run */}
+          <div className="glass rounded-2xl p-8 mb-8">
+            <h2 className="text-2xl font-bold mb-6">New Run</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium mb-2">Provider</label>
+                <select
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as "razorpay" | "cashfree")}
+                  className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                >
+                  <option value="razorpay">Razorpay</option>
+                  <option value="cashfree">Cashfree</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Settlement date</label>
+                <input
+                  type="date"
+                  value={settlementDate}
+                  onChange={(e) => setSettlementDate(e.target.value)}
+                  className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-2">Report (CSV or JSON)</label>
+                <input
+                  type="file"
+                  accept=".csv,.json"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="w-full text-sm text-white/60"
+                />
+              </div>
+            </div>
+            <div className="flex gap-4 flex-wrap">
+              <Button onClick={() => uploadMutation.mutate()} disabled={!file || uploadMutation.isPending}>
+                {uploadMutation.isPending ? "Reconciling..." : "Upload & Reconcile"}
+              </Button>
+              <Button variant="outline" onClick={() => fetchMutation.mutate()} disabled={fetchMutation.isPending}>
+                {fetchMutation.isPending ? "Fetching..." : "Fetch from Provider"}
+              </Button>
+            </div>
+          </div>
+
+          {/* Runs */}
+          <div className="glass rounded-2xl p-8 mb-8">
+            <h2 className="text-2xl font-bold mb-6">Runs</h2>
+            {runs && runs.length > 0 ? (
+              <div className="space-y-2">
+                {runs.map((r: any) => (
+                  <button
+                    key={r.id}
+                    onClick={() => setSelectedRunId(r.id)}
+                    className={`w-full text-left border rounded-lg p-4 transition-colors ${
+                      selectedRunId === r.id ? "border-white/40 bg-white/10" : "border-white/10 hover:bg-white/5"
+                    }`}
+                  >
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="font-semibold">
+                        {r.provider} · {r.settlementDate} · {r.source.replace("_", " ").toLowerCase()}
+                      </span>
+                      <span className={r.status === "RESOLVED" ? "text-green-400" : "text-yellow-400"}>
+                        {r.status === "RESOLVED" ? "Resolved" : `${r.unresolvedCount} to review`}
+                      </span>
+                    </div>
+                    <div className="text-white/40 text-xs mt-1">
+                      Settled {formatPaise(r.settledAmountPaise)} · {r.counts?.MATCHED || 0} matched
+                      {r.fileName ? ` · ${r.fileName}` : ""}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white/60 text-center py-8">No reconciliation runs yet</p>
+            )}
+          </div>
+
+          {/* Selected run */}
+          {run && (
+            <div className="glass rounded-2xl p-8">
+              <h2 className="text-2xl font-bold mb-4">
+                {run.provider} settlement for {run.settlementDate}
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-6 text-sm">
+                {Object.keys(STATUS_LABELS).map((status) => (
+                  <div key={status}>
+                    <div className="text-white/40">{STATUS_LABELS[status]}</div>
+                    <div className="text-xl font-semibold">{run.counts?.[status] || 0}</div>
+                  </div>
+                ))}
+              </div>
+
+              {flaggedItems.length > 0 ? (
+                <div className="space-y-4">
+                  {flaggedItems.map((item: any) => (
+                    <div key={item.id} className="border border-white/10 rounded-lg p-4">
+                      <div className="flex justify-between items-start mb-2">
+                        <div>
+                          <span className="font-semibold">{STATUS_LABELS[item.status]}</span>
+                          <span className="text-white/40 text-sm ml-2">{item.line.entityId}</span>
+                        </div>
+                        <span className="font-semibold">{formatPaise(item.line.amountPaise)}</span>
+                      </div>
+                      <div className="text-white/60 text-sm mb-3">
+                        Order: {item.line.orderId || "—"}
+                        {item.donationId && ` · Donation: ${item.donationId}`}
+                        {item.expectedAmountPaise && ` · Expected ${formatPaise(item.expectedAmountPaise)}`}
+                      </div>
+                      {item.resolution ? (
+                        <div className="text-green-400 text-sm">
+                          {item.resolution.action === "DONATION_CREATED" ? "Donation created" : "Acknowledged"}
+                          {item.resolution.note && `: ${item.resolution.note}`}
+                        </div>
+                      ) : (
+                        <div className="flex gap-2 flex-wrap items-center">
+                          <input
+                            type="text"
+                            placeholder="Resolution note"
+                            value={notes[item.id] || ""}
+                            onChange={(e) => setNotes({ ...notes, [item.id]: e.target.value })}
+                            className="flex-1 min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                          />
+                          {item.status === "MISSING_DONATION" && (
+                            <Button
+                              size="sm"
+                              onClick={() => resolveMutation.mutate({ itemId: item.id, action: "CREATE_DONATION" })}
+                              disabled={resolveMutation.isPending}
+                            >
+                              Create Donation
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => resolveMutation.mutate({ itemId: item.id, action: "ACKNOWLEDGE" })}
+                            disabled={resolveMutation.isPending || !notes[item.id]?.trim()}
+                          >
+                            Acknowledge
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-white/60 text-center py-8">Every line matched a donation</p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,254 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { ArrowLeft } from "lucide-react";
+import { apiRequest } from "@/lib/api";
+import { Header } from "@/components/layout/header";
+import { Footer } from "@/components/layout/footer";
+import { Button } from "@/components/ui/button";
+import { getNetwork } from "@opencause/crypto-core";
+
+const STATUS_LABELS: Record<string, string> = {
+  REQUESTED: "Requested",
+  PROCESSING: "Processing",
+  REFUNDED: "Refunded",
+  FAILED: "Failed",
+  REJECTED: "Rejected",
+  CLAIMABLE: "Awaiting Claim",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  REQUESTED: "text-yellow-400",
+  PROCESSING: "text-blue-400",
+  REFUNDED: "text-green-400",
+  FAILED: "text-red-400",
+  REJECTED: "text-white/40",
+  CLAIMABLE: "text-orange-400",
+};
+
+// Crypto claims on networks without return transfers are paid out by hand
+function awaitsManualPayout(refund: any) {
+  if (refund.status !== "PROCESSING") return false;
+  if (refund.claimUpiVpa) return true;
+  return refund.type === "CRYPTO" && !!refund.claimedAt && getNetwork(refund.networkId)?.type !== "EVM";
+}
+
+function formatAmount(refund: any) {
+  if (refund.type === "INR") {
+    return `₹${parseFloat(refund.amount || "0").toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+  }
+  return `${refund.amount} ${refund.currency}`;
+}
+
+export default function RefundsPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>("REQUESTED");
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const { data: user } = useQuery({
+    queryKey: ["user"],
+    queryFn: async () => {
+      try {
+        const token = localStorage.getItem("token");
+        if (!token) return null;
+        return await apiRequest<any>("/users/me");
+      } catch (error) {
+        return null;
+      }
+    },
+    retry: 1,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (user && user.role !== "ADMIN") {
+      router.push("/dashboard");
+    }
+  }, [user, router]);
+
+  const { data: refunds } = useQuery({
+    queryKey: ["admin-refunds", status],
+    queryFn: () => apiRequest<any[]>(`/refunds${status ? `?status=${status}` : ""}`),
+    enabled: user?.role === "ADMIN",
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: "approve" | "reject" | "retry" | "claim" | "settle" }) =>
+      apiRequest<any>(`/refunds/${id}/${action}`, {
+        method: "POST",
+        body: JSON.stringify({ note: notes[id], reference: notes[id] }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin-refunds"] }),
+    onError: (error: any) => alert(error?.message || "Failed to update refund"),
+  });
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+      <div className="pt-32 pb-20 px-6 lg:px-8">
+        <div className="container mx-auto max-w-7xl">
+          <Link href="/dashboard/admin" className="inline-flex items-center text-white/60 hover:text-white mb-6">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Admin Dashboard
+          </Link>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-12">
+            <h1 className="text-5xl font-bold mb-4">Donation Refunds</h1>
+            <p className="text-white/60 text-lg">
+              Approving a refund reverses the donation from campaign totals and milestones
+            </p>
+          </motion.div>
+
+          <div className="flex gap-2 flex-wrap mb-6">
+            {["REQUESTED", "PROCESSING", "FAILED", "CLAIMABLE", "REFUNDED", "REJECTED", ""].map((s) => (
+              <Button key={s || "ALL"} size="sm" variant={status === s ? "default" : "outline"} onClick={() => setStatus(s)}>
+                {s ? STATUS_LABELS[s] : "All"}
+              </Button>
+            ))}
+          </div>
+
+          <div className="glass rounded-2xl p-8">
+            {refunds && refunds.length > 0 ? (
+              <div className="space-y-4">
+                {refunds.map((refund: any) => (
+                  <div key={refund.id} className="border border-white/10 rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <span className="font-semibold">{formatAmount(refund)}</span>
+                        <span className="text-white/40 text-sm ml-2">
+                          {refund.type} · requested by {refund.requestedByRole.toLowerCase()}
+                        </span>
+                      </div>
+                      <span className={STATUS_COLORS[refund.status]}>{STATUS_LABELS[refund.status]}</span>
+                    </div>
+                    <div className="text-white/60 text-sm mb-1">
+                      Donation: {refund.donationId} · Campaign: {refund.campaignId}
+                    </div>
+                    <div className="text-white/60 text-sm mb-3">Reason: {refund.reason}</div>
+                    {refund.toAddress && (
+                      <div className="text-white/40 text-xs mb-1">
+                        To {refund.toAddress} on {refund.networkId}
+                      </div>
+                    )}
+                    {refund.safe && !refund.txHash && (
+                      <div className="text-white/40 text-xs mb-1">
+                        Return transfer awaiting Safe signatures ({refund.safe.confirmations?.length || 0}/
+                        {refund.safe.threshold}): {refund.safe.safeTxHash}
+                      </div>
+                    )}
+                    {refund.txHash && (
+                      <div className="text-white/40 text-xs mb-1">
+                        Transfer:{" "}
+                        <a href={refund.explorerUrl} target="_blank" rel="noreferrer" className="underline">
+                          {refund.txHash}
+                        </a>
+                      </div>
+                    )}
+                    {refund.providerRefundId && (
+                      <div className="text-white/40 text-xs mb-1">
+                        {refund.provider} refund {refund.providerRefundId}
+                      </div>
+                    )}
+                    {refund.claimToken && refund.status === "CLAIMABLE" && (
+                      <div className="text-white/40 text-xs mb-1">
+                        Claim link: {typeof window !== "undefined" ? window.location.origin : ""}/refund-claims/
+                        {refund.claimToken}
+                      </div>
+                    )}
+                    {refund.claimUpiVpa && (
+                      <div className="text-white/40 text-xs mb-1">
+                        Claimed to UPI {refund.claimUpiVpa}
+                        {refund.settlementReference && ` · UTR ${refund.settlementReference}`}
+                      </div>
+                    )}
+                    {refund.failureReason && (
+                      <div className="text-red-400 text-sm mb-3">{refund.failureReason}</div>
+                    )}
+                    {refund.reviewNote && (
+                      <div className="text-white/60 text-sm mb-3">Note: {refund.reviewNote}</div>
+                    )}
+
+                    {refund.status === "REQUESTED" && (
+                      <div className="flex gap-2 flex-wrap items-center">
+                        <input
+                          type="text"
+                          placeholder="Review note"
+                          value={notes[refund.id] || ""}
+                          onChange={(e) => setNotes({ ...notes, [refund.id]: e.target.value })}
+                          className="flex-1 min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: refund.id, action: "approve" })}
+                          disabled={actionMutation.isPending}
+                        >
+                          Approve Refund
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ id: refund.id, action: "reject" })}
+                          disabled={actionMutation.isPending || !notes[refund.id]?.trim()}
+                        >
+                          Reject
+                        </Button>
+                      </div>
+                    )}
+                    {refund.status === "FAILED" && (
+                      <div className="flex gap-2 flex-wrap">
+                        <Button
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: refund.id, action: "retry" })}
+                          disabled={actionMutation.isPending}
+                        >
+                          Retry Refund
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => actionMutation.mutate({ id: refund.id, action: "claim" })}
+                          disabled={actionMutation.isPending}
+                        >
+                          Send Claim Link
+                        </Button>
+                      </div>
+                    )}
+                    {awaitsManualPayout(refund) && (
+                      <div className="flex gap-2 flex-wrap items-center">
+                        {refund.type === "CRYPTO" && (
+                          <div className="w-full text-white/40 text-xs">Send to {refund.toAddress}</div>
+                        )}
+                        <input
+                          type="text"
+                          placeholder={refund.type === "CRYPTO" ? "Transfer transaction hash" : "Payout UTR"}
+                          value={notes[refund.id] || ""}
+                          onChange={(e) => setNotes({ ...notes, [refund.id]: e.target.value })}
+                          className="flex-1 min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => actionMutation.mutate({ id: refund.id, action: "settle" })}
+                          disabled={actionMutation.isPending || !notes[refund.id]?.trim()}
+                        >
+                          Mark Paid
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white/60 text-center py-8">No refunds</p>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { ArrowLeft } from "lucide-react";
+import { getNetwork } from "@opencause/crypto-core";
+import { apiRequest } from "@/lib/api";
+import { Header } from "@/components/layout/header";
+import { Footer } from "@/components/layout/footer";
+import { Button } from "@/components/ui/button";
+
+const STATUS_LABELS: Record<string, string> = {
+  OPEN: "Open",
+  CONFIRMING: "Confirming",
+  ATTACHED: "Attached to Intent",
+  DONATION_RECORDED: "Recorded as Donation",
+  RETURN_PENDING: "Marked for Return",
+  RETURNED: "Returned",
+  RETURN_FAILED: "Return Failed",
+  REORGED: "Reorged Out",
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  OPEN: "text-yellow-400",
+  CONFIRMING: "text-blue-400",
+  ATTACHED: "text-green-400",
+  DONATION_RECORDED: "text-green-400",
+  RETURN_PENDING: "text-orange-400",
+  RETURNED: "text-green-400",
+  RETURN_FAILED: "text-red-400",
+  REORGED: "text-white/40",
+};
+
+type ResolveAction = "ATTACH_INTENT" | "RECORD_DONATION" | "MARK_FOR_RETURN" | "RECORD_RETURN";
+
+// The worker sends EVM returns; elsewhere the admin pays out and records the tx
+function awaitsManualReturn(deposit: any) {
+  return deposit.status === "RETURN_PENDING" && getNetwork(deposit.networkId)?.type !== "EVM";
+}
+
+export default function UnattributedDepositsPage() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<string>("OPEN");
+  const [intentIds, setIntentIds] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [txHashes, setTxHashes] = useState<Record<string, string>>({});
+
+  const { data: user } = useQuery({
+    queryKey: ["user"],
+    queryFn: async () => {
+      try {
+        const token = localStorage.getItem("token");
+        if (!token) return null;
+        return await apiRequest<any>("/users/me");
+      } catch (error) {
+        return null;
+      }
+    },
+    retry: 1,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    if (user && user.role !== "ADMIN") {
+      router.push("/dashboard");
+    }
+  }, [user, router]);
+
+  const { data: deposits } = useQuery({
+    queryKey: ["admin-unattributed-deposits", status],
+    queryFn: () => apiRequest<any[]>(`/admin/unattributed-deposits?status=${status || "ALL"}`),
+    enabled: user?.role === "ADMIN",
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: ResolveAction }) =>
+      apiRequest<any>(`/admin/unattributed-deposits/${id}/resolve`, {
+        method: "POST",
+        body: JSON.stringify({ action, intentId: intentIds[id]?.trim(), txHash: txHashes[id]?.trim(), note: notes[id] }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["admin-unattributed-deposits"] }),
+    onError: (error: any) => alert(error?.message || "Failed to resolve deposit"),
+  });
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+      <div className="pt-32 pb-20 px-6 lg:px-8">
+        <div className="container mx-auto max-w-7xl">
+          <Link href="/dashboard/admin" className="inline-flex items-center text-white/60 hover:text-white mb-6">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Admin Dashboard
+          </Link>
+
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-12">
+            <h1 className="text-5xl font-bold mb-4">Unattributed Deposits</h1>
+            <p className="text-white/60 text-lg">
+              Crypto sent to a campaign deposit address that matched no payment intent
+            </p>
+          </motion.div>
+
+          <div className="flex gap-2 flex-wrap mb-6">
+            {[
+              "OPEN",
+              "CONFIRMING",
+              "ATTACHED",
+              "DONATION_RECORDED",
+              "RETURN_PENDING",
+              "RETURNED",
+              "RETURN_FAILED",
+              "REORGED",
+              "",
+            ].map((s) => (
+              <Button key={s || "ALL"} size="sm" variant={status === s ? "default" : "outline"} onClick={() => setStatus(s)}>
+                {s ? STATUS_LABELS[s] : "All"}
+              </Button>
+            ))}
+          </div>
+
+          <div className="glass rounded-2xl p-8">
+            {deposits && deposits.length > 0 ? (
+              <div className="space-y-4">
+                {deposits.map((deposit: any) => (
+                  <div key={deposit.id} className="border border-white/10 rounded-lg p-4">
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <span className="font-semibold">
+                          {deposit.amountNative} {deposit.assetId || deposit.tokenAddress || "unknown asset"}
+                        </span>
+                        <span className="text-white/40 text-sm ml-2">on {deposit.networkId}</span>
+                      </div>
+                      <span className={STATUS_COLORS[deposit.status]}>{STATUS_LABELS[deposit.status]}</span>
+                    </div>
+                    <div className="text-white/60 text-sm mb-1">
+                      Campaign: {deposit.campaignId} · To {deposit.to}
+                    </div>
+                    <div className="text-white/40 text-xs mb-1">
+                      From {deposit.from || "unknown"} · Tx {deposit.txHash} · Block {deposit.blockNumber}
+                    </div>
+                    {deposit.usdRateAtConfirm && (
+                      <div className="text-white/40 text-xs mb-1">
+                        Rate at confirmation: ${deposit.usdRateAtConfirm}
+                        {deposit.inrRateAtConfirm && ` · ₹${deposit.inrRateAtConfirm}`}
+                      </div>
+                    )}
+                    {deposit.resolution && (
+                      <div className="text-white/60 text-sm mt-2">
+                        {deposit.resolution.intentId && `Intent ${deposit.resolution.intentId}. `}
+                        {deposit.resolution.returnAddress && `Return to ${deposit.resolution.returnAddress}. `}
+                        {deposit.resolution.note && `Note: ${deposit.resolution.note}`}
+                      </div>
+                    )}
+                    {deposit.returnTx && (
+                      <div className="text-white/40 text-xs mt-1">
+                        Return transfer:{" "}
+                        <a href={deposit.returnTx.explorerUrl} target="_blank" rel="noreferrer" className="underline">
+                          {deposit.returnTx.txHash}
+                        </a>
+                        {!deposit.returnTx.confirmedAt && " (pending)"}
+                      </div>
+                    )}
+                    {deposit.returnFailureReason && (
+                      <div className="text-red-400 text-xs mt-1">Return failed: {deposit.returnFailureReason}</div>
+                    )}
+
+                    {awaitsManualReturn(deposit) && (
+                      <div className="flex gap-2 flex-wrap items-center mt-3">
+                        <input
+                          type="text"
+                          placeholder="Return transaction hash"
+                          value={txHashes[deposit.id] || ""}
+                          onChange={(e) => setTxHashes({ ...txHashes, [deposit.id]: e.target.value })}
+                          className="flex-1 min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => resolveMutation.mutate({ id: deposit.id, action: "RECORD_RETURN" })}
+                          disabled={resolveMutation.isPending || !txHashes[deposit.id]?.trim()}
+                        >
+                          Record Return
+                        </Button>
+                      </div>
+                    )}
+
+                    {(deposit.status === "OPEN" || deposit.status === "RETURN_FAILED") && (
+                      <div className="flex gap-2 flex-wrap items-center mt-3">
+                        <input
+                          type="text"
+                          placeholder="Late intent ID"
+                          value={intentIds[deposit.id] || ""}
+                          onChange={(e) => setIntentIds({ ...intentIds, [deposit.id]: e.target.value })}
+                          className="min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                        />
+                        <input
+                          type="text"
+                          placeholder="Note"
+                          value={notes[deposit.id] || ""}
+                          onChange={(e) => setNotes({ ...notes, [deposit.id]: e.target.value })}
+                          className="flex-1 min-w-[200px] px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm"
+                        />
+                        <Button
+                          size="sm"
+                          onClick={() => resolveMutation.mutate({ id: deposit.id, action: "ATTACH_INTENT" })}
+                          disabled={resolveMutation.isPending || !intentIds[deposit.id]?.trim()}
+                        >
+                          Attach to Intent
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resolveMutation.mutate({ id: deposit.id, action: "RECORD_DONATION" })}
+                          disabled={resolveMutation.isPending}
+                        >
+                          Record Anonymous Donation
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => resolveMutation.mutate({ id: deposit.id, action: "MARK_FOR_RETURN" })}
+                          disabled={resolveMutation.isPending}
+                        >
+                          Mark for Return
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-white/60 text-center py-8">No deposits</p>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 "use client";
 
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, apiDownload } from "@/lib/api";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
@@ -10,8 +10,18 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect } from "react";
 
+const REFUND_LABELS: Record<string, string> = {
+  REQUESTED: "Refund requested",
+  PROCESSING: "Refund in progress",
+  REFUNDED: "Refunded",
+  FAILED: "Refund delayed",
+  REJECTED: "Refund declined",
+  CLAIMABLE: "Refund waiting for your details",
+};
+
 export default function DonorDashboard() {
   const router = useRouter();
+  const queryClient = useQueryClient();
 
   // Get current user
   const { data: user, isLoading: userLoading } = useQuery({
@@ -45,6 +55,43 @@ export default function DonorDashboard() {
     enabled: !!user?.id,
   });
 
+  const { data: refunds } = useQuery({
+    queryKey: ["my-refunds", user?.id],
+    queryFn: () => apiRequest<any[]>("/refunds/me"),
+    enabled: !!user?.id,
+  });
+  const refundsByDonation = new Map((refunds || []).map((r: any) => [r.donationId, r]));
+
+  const { data: receipts } = useQuery({
+    queryKey: ["my-receipts", user?.id],
+    queryFn: () => apiRequest<any[]>("/receipts/me"),
+    enabled: !!user?.id,
+  });
+  const receiptsByDonation = new Map((receipts || []).map((r: any) => [r.donationId, r]));
+
+  const downloadReceipt = (receipt: any) => {
+    apiDownload(`/receipts/${receipt.donationId}/pdf`, `${receipt.serialNumber.replace(/\//g, "-")}.pdf`).catch(
+      (error: any) => alert(error?.message || "Failed to download receipt")
+    );
+  };
+
+  const refundMutation = useMutation({
+    mutationFn: ({ donationId, reason }: { donationId: string; reason: string }) =>
+      apiRequest<any>("/refunds", {
+        method: "POST",
+        body: JSON.stringify({ donationId, reason }),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["my-refunds", user?.id] }),
+    onError: (error: any) => alert(error?.message || "Failed to request refund"),
+  });
+
+  const requestRefund = (donationId: string) => {
+    const reason = prompt("Why would you like this donation refunded?");
+    if (reason?.trim()) {
+      refundMutation.mutate({ donationId, reason: reason.trim() });
+    }
+  };
+
   useEffect(() => {
     if (user && user.role !== "DONOR") {
       router.push("/dashboard");
@@ -167,13 +214,43 @@ export default function DonorDashboard() {
                           </div>
                         </div>
                       </div>
-                      {donation.campaignId && (
-                        <Link href={`/campaigns/${donation.campaignId}`}>
-                          <Button variant="outline" size="sm">
-                            View Campaign
+                      <div className="flex flex-col items-end gap-2">
+                        {donation.campaignId && (
+                          <Link href={`/campaigns/${donation.campaignId}`}>
+                            <Button variant="outline" size="sm">
+                              View Campaign
+                            </Button>
+                          </Link>
+                        )}
+                        {receiptsByDonation.get(donation.id) && !receiptsByDonation.get(donation.id).voided && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => downloadReceipt(receiptsByDonation.get(donation.id))}
+                          >
+                            Download 80G Receipt
+                          </Button>
+                        )}
+                        {refundsByDonation.get(donation.id)?.status === "CLAIMABLE" ? (
+                          <Link href={`/refund-claims/${refundsByDonation.get(donation.id).claimToken}`}>
+                            <Button size="sm">Claim Refund</Button>
+                          </Link>
+                        ) : refundsByDonation.get(donation.id) &&
+                          refundsByDonation.get(donation.id).status !== "REJECTED" ? (
+                          <span className="text-sm text-white/60">
+                            {REFUND_LABELS[refundsByDonation.get(donation.id).status]}
+                          </span>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => requestRefund(donation.id)}
+                            disabled={refundMutation.isPending}
+                          >
+                            Request Refund
                           </Button>
-                        </Link>
-                      )}
+                        )}
+                      </div>
                     </div>
                   </motion.div>
                 ))}
@@ -398,6 +398,10 @@ export default function WithdrawPage() {
       amountInr: useInrForCrypto && data.amountInr ? data.amountInr : undefined,
       tokenType: selectedAsset.assetSymbol === "INR" ? "INR" : "CRYPTO",
       evidenceBundle,
+      // UPI details for INR
+      ...(selectedAsset.assetSymbol === "INR" && data.payoutRail === "UPI" && {
+        upiVpa: data.upiVpa,
+      }),
       // Bank details for INR
       ...(selectedAsset.assetSymbol === "INR" && data.payoutRail === "BANK" && {
         bankAccountNumber: data.bankAccountNumber,
@@ -1,7 +1,7 @@
 "use client";
 
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/api";
+import { apiRequest, apiDownload } from "@/lib/api";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
@@ -56,6 +56,17 @@ export default function NGOOrganizerDashboard() {
   const totalGoal = campaigns?.reduce((sum: number, c: any) => sum + parseInt(c.goalInr || "0"), 0) || 0;
   const activeCampaigns = campaigns?.filter((c: any) => c.status === "ACTIVE").length || 0;
 
+  // Current Indian financial year (April to March), e.g. "2025-26"
+  const now = new Date();
+  const fyStart = now.getMonth() >= 3 ? now.getFullYear() : now.getFullYear() - 1;
+  const financialYear = `${fyStart}-${String((fyStart + 1) % 100).padStart(2, "0")}`;
+
+  const exportForm10BD = () => {
+    apiDownload(`/receipts/export/10bd?financialYear=${financialYear}`, `form-10bd-${financialYear}.csv`).catch(
+      (error: any) => alert(error?.message || "Failed to export receipts")
+    );
+  };
+
   return (
     <div className="min-h-screen bg-black">
       <Header />
@@ -145,6 +156,9 @@ export default function NGOOrganizerDashboard() {
             <Link href="/dashboard/organizer/campaigns">
               <Button size="lg" variant="outline">View Reports</Button>
             </Link>
+            <Button size="lg" variant="outline" onClick={exportForm10BD}>
+              Export Form 10BD ({financialYear})
+            </Button>
           </motion.div>
 
           {/* Recent Campaigns */}
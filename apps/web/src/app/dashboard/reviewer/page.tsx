@@ -2,6 +2,7 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/api";
+import { signSafeTransaction } from "@/lib/safe";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
 import { Button } from "@/components/ui/button";
@@ -123,6 +124,40 @@ export default function ReviewerDashboardPage() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  const { data: safeProposals } = useQuery({
+    queryKey: ["reviewer-safe-signatures"],
+    queryFn: async () => {
+      try {
+        return await apiRequest<any[]>("/admin/review/safe-signatures");
+      } catch (error) {
+        console.error("Failed to fetch Safe proposals:", error);
+        return [];
+      }
+    },
+    refetchInterval: 30000,
+  });
+
+  const signSafeMutation = useMutation({
+    mutationFn: async (proposal: any) => {
+      const { signature } = await signSafeTransaction(proposal.typedData);
+      return apiRequest(`/admin/review/safe-signatures/${proposal.withdrawalId}`, {
+        method: "POST",
+        body: JSON.stringify({ signature }),
+      });
+    },
+    onSuccess: (result: any) => {
+      queryClient.invalidateQueries({ queryKey: ["reviewer-safe-signatures"] });
+      if (result.confirmations >= result.threshold) {
+        alert("Signature added. The Safe transaction has enough signatures and can be executed.");
+      } else {
+        alert(`Signature added (${result.confirmations} of ${result.threshold}).`);
+      }
+    },
+    onError: (error: any) => {
+      alert(error?.response?.data?.message || error?.message || "Failed to sign the Safe transaction");
+    },
+  });
+
   const [rejectReason, setRejectReason] = useState<Record<string, string>>({});
   const [showRejectModal, setShowRejectModal] = useState<Record<string, boolean>>({});
 
@@ -133,9 +168,22 @@ export default function ReviewerDashboardPage() {
         body: JSON.stringify({ notes: reviewNotes[withdrawalId] || "" }),
       });
     },
-    onSuccess: () => {
+    onSuccess: (result: any) => {
       queryClient.invalidateQueries({ queryKey: ["reviewer-withdrawals"] });
-      alert("Withdrawal approved successfully");
+      const quorum = result?.quorum;
+      if (quorum && quorum.outcome === "PENDING") {
+        alert(`Approval recorded (${quorum.approvals.length} of ${quorum.required}). Waiting for other reviewers.`);
+      } else if (result?.payoutError) {
+        alert(`Withdrawal approved, but the payout could not be started: ${result.payoutError}. An admin can retry it.`);
+      } else if (result?.status === "APPROVED" && !result?.payout) {
+        queryClient.invalidateQueries({ queryKey: ["reviewer-safe-signatures"] });
+        alert("Withdrawal approved. It will be proposed to the treasury Safe for reviewer signatures.");
+      } else {
+        alert("Withdrawal approved successfully");
+      }
+    },
+    onError: (error: any) => {
+      alert(error?.response?.data?.message || error?.message || "Failed to approve withdrawal");
     },
   });
 
@@ -146,11 +194,15 @@ export default function ReviewerDashboardPage() {
         body: JSON.stringify({ reasonPublic, reasonInternal }),
       });
     },
-    onSuccess: () => {
+    onSuccess: (result: any) => {
       queryClient.invalidateQueries({ queryKey: ["reviewer-withdrawals"] });
       setShowRejectModal({});
       setRejectReason({});
-      alert("Withdrawal rejected successfully");
+      if (result?.quorum && result.quorum.outcome === "PENDING") {
+        alert(`Rejection recorded (${result.quorum.rejections.length} of ${result.quorum.required}).`);
+      } else {
+        alert("Withdrawal rejected successfully");
+      }
     },
     onError: (error: any) => {
       alert(error?.response?.data?.message || "Failed to reject withdrawal");
@@ -303,6 +355,10 @@ export default function ReviewerDashboardPage() {
                     : withdrawal.assetSymbol
                     ? `${withdrawal.amountNative || "0"} ${withdrawal.assetSymbol}`
                     : "N/A";
+
+                  const quorum = withdrawal.quorum;
+                  const hasReviewed = !!user?.id && !!quorum &&
+                    (quorum.approvals.includes(user.id) || quorum.rejections.includes(user.id));
                   
                   return (
                     <div
@@ -348,6 +404,28 @@ export default function ReviewerDashboardPage() {
                             </div>
                           )}
                         </div>
+                        {quorum && (
+                          <div className="mt-4">
+                            <div className="flex justify-between text-sm mb-2">
+                              <span className="text-white/40">
+                                Reviewer quorum{quorum.vetoOnReject ? " (any rejection vetoes)" : ""}
+                              </span>
+                              <span className="font-semibold">
+                                {quorum.approvals.length} of {quorum.required} approvals
+                                {quorum.rejections.length > 0 && ` · ${quorum.rejections.length} rejected`}
+                              </span>
+                            </div>
+                            <div className="w-full h-2 bg-white/10 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-green-500 transition-all"
+                                style={{ width: `${Math.min(100, (quorum.approvals.length / quorum.required) * 100)}%` }}
+                              />
+                            </div>
+                            {hasReviewed && (
+                              <p className="text-xs text-white/60 mt-2">You have already reviewed this withdrawal.</p>
+                            )}
+                          </div>
+                        )}
                         {withdrawal.invoice?.proofIds && withdrawal.invoice.proofIds.length > 0 && (
                           <div className="mt-4">
                             <label className="block text-sm font-medium mb-2">Proof Files:</label>
@@ -374,7 +452,7 @@ export default function ReviewerDashboardPage() {
                       <div className="flex gap-4">
                         <Button
                           onClick={() => approveWithdrawalMutation.mutate(withdrawal.withdrawalId)}
-                          disabled={approveWithdrawalMutation.isPending || rejectWithdrawalMutation.isPending}
+                          disabled={hasReviewed || approveWithdrawalMutation.isPending || rejectWithdrawalMutation.isPending}
                           className="flex-1 bg-green-500 hover:bg-green-600"
                         >
                           {approveWithdrawalMutation.isPending ? "Approving..." : "Approve"}
@@ -382,7 +460,7 @@ export default function ReviewerDashboardPage() {
                         <Button
                           variant="outline"
                           onClick={() => setShowRejectModal({ ...showRejectModal, [withdrawal.withdrawalId]: true })}
-                          disabled={approveWithdrawalMutation.isPending || rejectWithdrawalMutation.isPending}
+                          disabled={hasReviewed || approveWithdrawalMutation.isPending || rejectWithdrawalMutation.isPending}
                           className="text-red-400 border-red-400/50 hover:bg-red-400/10"
                         >
                           Reject
@@ -454,6 +532,64 @@ export default function ReviewerDashboardPage() {
               <p className="text-white/60">No withdrawals pending review</p>
             )}
           </motion.div>
+
+          {/* Safe proposals awaiting reviewer signatures */}
+          {safeProposals && safeProposals.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="glass rounded-2xl p-8 mt-8 border border-blue-500/20"
+            >
+              <h2 className="text-3xl font-bold mb-2">Awaiting Multisig Signatures ({safeProposals.length})</h2>
+              <p className="text-white/60 text-sm mb-6">
+                Approved crypto withdrawals are released from the campaign vault by the treasury Safe. Sign with a Safe owner wallet.
+              </p>
+              <div className="space-y-4">
+                {safeProposals.map((proposal: any) => {
+                  const signed = proposal.confirmations.some((c: any) => c.reviewerId && c.reviewerId === user?.id);
+                  return (
+                    <div
+                      key={proposal.withdrawalId}
+                      className="border border-blue-500/30 rounded-lg p-6 hover:bg-white/5 transition-colors"
+                    >
+                      <div className="flex justify-between items-start mb-4">
+                        <h3 className="text-xl font-semibold">Withdrawal #{proposal.withdrawalId.slice(0, 8)}</h3>
+                        <Link href={`/campaigns/${proposal.campaignId}`}>
+                          <Button variant="outline" size="sm">View Campaign</Button>
+                        </Link>
+                      </div>
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm mb-4">
+                        <div>
+                          <span className="text-white/40">Amount: </span>
+                          <span className="font-semibold">{proposal.amountNative} {proposal.assetSymbol}</span>
+                        </div>
+                        <div>
+                          <span className="text-white/40">Recipient: </span>
+                          <span className="font-mono">{proposal.payeeAddress?.slice(0, 10)}…</span>
+                        </div>
+                        <div>
+                          <span className="text-white/40">Signatures: </span>
+                          <span className="font-semibold">{proposal.confirmations.length} of {proposal.threshold}</span>
+                        </div>
+                        <div className="col-span-2 md:col-span-3">
+                          <span className="text-white/40">Safe tx: </span>
+                          <span className="font-mono break-all">{proposal.safeTxHash}</span>
+                        </div>
+                      </div>
+                      <Button
+                        onClick={() => signSafeMutation.mutate(proposal)}
+                        disabled={signed || proposal.confirmations.length >= proposal.threshold || signSafeMutation.isPending}
+                        className="bg-blue-500 hover:bg-blue-600"
+                      >
+                        {signed ? "Signed" : signSafeMutation.isPending ? "Signing..." : "Sign with Wallet"}
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </motion.div>
+          )}
         </div>
       </div>
       <Footer />
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { motion } from "framer-motion";
+import { apiRequest } from "@/lib/api";
+import { Header } from "@/components/layout/header";
+import { Footer } from "@/components/layout/footer";
+import { Button } from "@/components/ui/button";
+
+export default function RefundClaimPage() {
+  const params = useParams();
+  const queryClient = useQueryClient();
+  const [destination, setDestination] = useState("");
+
+  const { data: claim, isLoading, error } = useQuery({
+    queryKey: ["refund-claim", params.token],
+    queryFn: () => apiRequest<any>(`/refund-claims/${params.token}`),
+    enabled: !!params.token,
+    retry: false,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () =>
+      apiRequest<any>(`/refund-claims/${params.token}`, {
+        method: "POST",
+        body: JSON.stringify(claim?.type === "INR" ? { upiVpa: destination } : { address: destination }),
+      }),
+    onSuccess: (data) => queryClient.setQueryData(["refund-claim", params.token], data),
+    onError: (error: any) => alert(error?.message || "Failed to submit claim"),
+  });
+
+  return (
+    <div className="min-h-screen bg-black">
+      <Header />
+      <div className="pt-32 pb-20 px-6 lg:px-8">
+        <div className="container mx-auto max-w-2xl">
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+            <h1 className="text-5xl font-bold mb-4">Claim Your Refund</h1>
+            {claim?.campaignTitle && (
+              <p className="text-white/60 text-lg">
+                From{" "}
+                <Link href={`/campaigns/${claim.campaignId}`} className="underline">
+                  {claim.campaignTitle}
+                </Link>
+              </p>
+            )}
+          </motion.div>
+
+          <div className="glass rounded-2xl p-8">
+            {isLoading ? (
+              <p className="text-white/60 text-center py-8">Loading claim...</p>
+            ) : error || !claim ? (
+              <p className="text-white/60 text-center py-8">This claim link is invalid.</p>
+            ) : (
+              <div>
+                <div className="text-white/40 mb-1">Amount</div>
+                <div className="text-3xl font-bold mb-6">
+                  {claim.type === "INR" ? `₹${claim.amount}` : `${claim.amount} ${claim.currency}`}
+                </div>
+
+                {claim.status === "CLAIMABLE" ? (
+                  <div className="space-y-4">
+                    <label className="block text-sm font-medium">
+                      {claim.type === "INR"
+                        ? "UPI ID to receive the refund"
+                        : `Your ${claim.networkId} address to receive the refund`}
+                    </label>
+                    <input
+                      type="text"
+                      value={destination}
+                      onChange={(e) => setDestination(e.target.value)}
+                      placeholder={claim.type === "INR" ? "name@bank" : "Address"}
+                      className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white"
+                    />
+                    <Button
+                      onClick={() => submitMutation.mutate()}
+                      disabled={submitMutation.isPending || !destination.trim()}
+                    >
+                      {submitMutation.isPending ? "Submitting..." : "Claim Refund"}
+                    </Button>
+                  </div>
+                ) : claim.status === "REFUNDED" ? (
+                  <div className="p-4 bg-green-500/20 border border-green-500/50 rounded-lg">
+                    <p className="text-green-400 text-sm">
+                      Your refund has been sent.
+                      {claim.txHash && (
+                        <>
+                          {" "}
+                          <a href={claim.explorerUrl} target="_blank" rel="noreferrer" className="underline">
+                            View transaction
+                          </a>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                ) : (
+                  <div className="p-4 bg-yellow-500/20 border border-yellow-500/50 rounded-lg">
+                    <p className="text-yellow-400 text-sm">
+                      {claim.status === "FAILED"
+                        ? "We could not send your refund yet. Our team has been notified and will retry."
+                        : "Your claim has been received and the refund is on its way."}
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -182,6 +182,15 @@ export function CryptoDonationAdvanced({
   const [selectedChainForMultiChain, setSelectedChainForMultiChain] = useState<string | null>(null);
   const [showManualEntry, setShowManualEntry] = useState(false);
   const [donationReceived, setDonationReceived] = useState(false);
+  // Set while the intent is partially paid (MISMATCH): what arrived, what is still owed, and a QR for the rest
+  const [partialPayment, setPartialPayment] = useState<{
+    receivedAmountNative: string;
+    remainingAmountNative: string;
+    remainingQrString?: string;
+  } | null>(null);
+  const [acceptingPartial, setAcceptingPartial] = useState(false);
+  // Only a signed-in donor can accept a partial payment; a guest's is kept when the intent expires
+  const isGuest = typeof window !== "undefined" ? !localStorage.getItem("token") : true;
 
   // Map network type to blockchain name
   const mapNetworkToBlockchain = (networkId: string): string => {
@@ -686,6 +695,30 @@ export function CryptoDonationAdvanced({
     await verifyTransaction(validation.normalized || txHashToVerify);
   };
 
+  // Keep a partial payment as a smaller donation instead of sending the rest
+  const acceptPartialPayment = async () => {
+    if (!donationAddress?.id) return;
+    setAcceptingPartial(true);
+    try {
+      await apiRequest(`/crypto/payment-intents/${donationAddress.id}/accept-partial`, { method: "POST" });
+      setPartialPayment(null);
+      toast({
+        variant: "success",
+        title: "Donation Accepted",
+        description: "The amount you sent has been recorded as your donation.",
+      });
+    } catch (error: any) {
+      const errorInfo = parseErrorMessage(error);
+      toast({
+        variant: errorInfo.variant,
+        title: "Could Not Accept Payment",
+        description: errorInfo.description,
+      });
+    } finally {
+      setAcceptingPartial(false);
+    }
+  };
+
   // Auto-detect transaction using API polling (fallback if Firestore not accessible)
   useEffect(() => {
     if (!donationAddress || !selectedCrypto) {
@@ -699,6 +732,7 @@ export function CryptoDonationAdvanced({
     setPollingError(null);
     setDetectedTxHash(null);
     setShowManualEntry(false);
+    setPartialPayment(null);
 
     let unsubscribe: Unsubscribe | null = null;
     let pollInterval: NodeJS.Timeout | null = null;
@@ -706,6 +740,16 @@ export function CryptoDonationAdvanced({
     let finalTimeout: NodeJS.Timeout;
     let useFirestore = true; // Try Firestore first, fallback to API if it fails
 
+    // The top-up QR is built by the API, so partial payments are always read from there
+    const showPartialPayment = (intent: any) => {
+      if (!intent?.remainingAmountNative) return;
+      setPartialPayment({
+        receivedAmountNative: intent.receivedAmountNative,
+        remainingAmountNative: intent.remainingAmountNative,
+        remainingQrString: intent.remainingQrString,
+      });
+    };
+
     // Try to set up Firestore realtime listener (with fallback to API polling)
     const setupFirestoreListener = () => {
       try {
@@ -740,7 +784,14 @@ export function CryptoDonationAdvanced({
             // Handle different statuses
             if (status === "DETECTING") {
               setIsPolling(true);
+            } else if (status === "MISMATCH") {
+              // Partially paid; keep watching for the top-up
+              setIsPolling(true);
+              apiRequest(`/crypto/payment-intents/${intentId}`)
+                .then(showPartialPayment)
+                .catch((err) => console.error("Error loading partial payment:", err));
             } else if (status === "CONFIRMING" && txHash) {
+              setPartialPayment(null);
               setDetectedTxHash(txHash);
               setIsPolling(false);
               verifyTransaction(txHash).catch((err) => {
@@ -753,6 +804,7 @@ export function CryptoDonationAdvanced({
                 });
               });
             } else if (status === "CONFIRMED" && txHash) {
+              setPartialPayment(null);
               setDetectedTxHash(txHash);
               setIsPolling(false);
               setDonationReceived(true);
@@ -802,7 +854,10 @@ export function CryptoDonationAdvanced({
           const intent: any = await apiRequest(`/crypto/payment-intents/${intentId}`);
           const txHash = intent?.txHash || intent?.confirmedTxHash;
           
-          if ((intent?.status === "CONFIRMED" || intent?.status === "CONFIRMING") && txHash) {
+          if (intent?.status === "MISMATCH") {
+            showPartialPayment(intent);
+          } else if ((intent?.status === "CONFIRMED" || intent?.status === "CONFIRMING") && txHash) {
+            setPartialPayment(null);
             setDetectedTxHash(txHash);
             setIsPolling(false);
             if (pollInterval) {
@@ -1130,8 +1185,9 @@ export function CryptoDonationAdvanced({
               {/* QR Code */}
               <div className="bg-white p-4 rounded-lg flex justify-center">
                 {(() => {
-                  // Prioritize qrCode (has proper URI format), fallback to address
-                  const qrValue = donationAddress.qrCode || donationAddress.address;
+                  // Prioritize the top-up QR for a partial payment, then qrCode (has proper URI format), fallback to address
+                  const qrValue =
+                    partialPayment?.remainingQrString || donationAddress.qrCode || donationAddress.address;
                   // Validate that we have a non-empty string
                   if (qrValue && typeof qrValue === "string" && qrValue.trim().length > 0) {
                     return (
@@ -1175,8 +1231,11 @@ export function CryptoDonationAdvanced({
 
                 <div className="grid grid-cols-2 gap-3 text-sm">
                   <div>
-                    <span className="text-white/60">Amount:</span>
-                    <p className="font-medium">{amount} {donationAddress.crypto || selectedCrypto?.symbol}</p>
+                    <span className="text-white/60">{partialPayment ? "Remaining:" : "Amount:"}</span>
+                    <p className="font-medium">
+                      {partialPayment ? partialPayment.remainingAmountNative : amount}{" "}
+                      {donationAddress.crypto || selectedCrypto?.symbol}
+                    </p>
                   </div>
                   {usdAmount && (
                     <div>
@@ -1213,6 +1272,31 @@ export function CryptoDonationAdvanced({
                 </div>
               )}
 
+              {/* Partial Payment: top up or accept */}
+              {partialPayment && !donationReceived && (
+                <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-lg p-4 space-y-3">
+                  <div>
+                    <p className="text-sm font-medium text-yellow-400">Partial payment received</p>
+                    <p className="text-xs text-white/60 mt-1">
+                      We received {partialPayment.receivedAmountNative} {donationAddress.crypto || selectedCrypto?.symbol}.
+                      Send the remaining {partialPayment.remainingAmountNative} to the same address using the QR code
+                      above, or keep what you sent as a smaller donation.
+                      {isGuest && " Without a top-up, what you sent is kept as your donation when the payment window closes."}
+                    </p>
+                  </div>
+                  {!isGuest && (
+                    <button
+                      onClick={acceptPartialPayment}
+                      disabled={acceptingPartial}
+                      className="w-full bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+                    >
+                      {acceptingPartial && <Loader2 className="w-4 h-4 animate-spin" />}
+                      Accept as smaller donation
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Donation Received Success */}
               {donationReceived && (
                 <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
@@ -28,6 +28,8 @@ export function DonateModal({ isOpen, onClose, campaign }: DonateModalProps) {
   // Guest donation fields
   const [guestName, setGuestName] = useState("");
   const [guestEmail, setGuestEmail] = useState("");
+  // Optional PAN for the 80G receipt
+  const [donorPan, setDonorPan] = useState("");
   const token = typeof window !== "undefined" ? localStorage.getItem("token") : null;
   const isGuest = !token;
 
@@ -84,6 +86,7 @@ export function DonateModal({ isOpen, onClose, campaign }: DonateModalProps) {
             campaignId: campaign.id,
             guestName: isGuest ? guestName : undefined,
             guestEmail: isGuest ? guestEmail : undefined,
+            donorPan: donorPan.trim() || undefined,
           }),
         });
 
@@ -247,6 +250,24 @@ export function DonateModal({ isOpen, onClose, campaign }: DonateModalProps) {
                           />
                         </div>
 
+                        <div>
+                          <label htmlFor="pan-input" className="block mb-2 text-sm font-medium text-white">
+                            PAN (optional)
+                          </label>
+                          <input
+                            id="pan-input"
+                            type="text"
+                            maxLength={10}
+                            value={donorPan}
+                            onChange={(e) => setDonorPan(e.target.value.toUpperCase())}
+                            className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-white/20"
+                            placeholder="ABCDE1234F"
+                          />
+                          <p className="mt-1 text-xs text-white/40">
+                            Printed on your 80G receipt when the campaign is run by a registered NGO
+                          </p>
+                        </div>
+
                         {error && (
                           <div className="p-3 bg-red-500/20 border border-red-500/50 rounded-lg">
                             <p className="text-red-400 text-sm">{error}</p>
@@ -241,7 +241,12 @@ export function TransparencyPanel({ campaignId }: TransparencyPanelProps) {
       case "WITHDRAWAL_APPROVED":
       case "WITHDRAWAL_PAID":
         return <CheckCircle2 className="w-4 h-4 text-purple-500" />;
+      case "FUNDS_SWEPT":
+        return <CheckCircle2 className="w-4 h-4 text-blue-500" />;
       case "WITHDRAWAL_REJECTED":
+      case "DONATION_REFUNDED":
+      case "DONATION_REORGED":
+      case "CAMPAIGN_CANCELLED":
         return <XCircle className="w-4 h-4 text-red-500" />;
       default:
         return <Clock className="w-4 h-4" />;
@@ -255,6 +260,14 @@ export function TransparencyPanel({ campaignId }: TransparencyPanelProps) {
         return "Campaign published";
       case "DONATION_RECEIVED":
         return `Received ${formatAmount(data.amount, data.currency)} donation`;
+      case "DONATION_REFUNDED":
+        return `Refunded ${formatAmount(data.amount, data.currency)} donation`;
+      case "DONATION_REORGED":
+        return `Donation of ${data.amount} on ${data.networkId} dropped by a chain reorg`;
+      case "CAMPAIGN_CANCELLED":
+        return "Campaign cancelled; unreleased funds are being refunded to donors";
+      case "FUNDS_SWEPT":
+        return `Moved ${formatAmount(data.amount, data.currency)} from deposit addresses into the campaign vault`;
       case "DONATION_ALLOCATED":
         return `Allocated ${formatAmount(data.amount, data.currency)} to ${data.milestoneTitle || "milestone"}`;
       case "MILESTONE_FUNDING_COMPLETED":
@@ -0,0 +1,35 @@
+import { ethers } from "ethers";
+
+/**
+ * EIP-712 payload of a Safe transaction, as returned by
+ * GET /admin/review/safe-signatures
+ */
+export interface SafeTypedData {
+  domain: { chainId: number; verifyingContract: string };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, any>;
+}
+
+/**
+ * Sign a Safe transaction with the reviewer's browser wallet (MetaMask).
+ * Switches the wallet to the Safe's chain first; the signature is only valid
+ * for that chain's Safe.
+ */
+export async function signSafeTransaction(typedData: SafeTypedData): Promise<{ owner: string; signature: string }> {
+  if (typeof window === "undefined" || !(window as any).ethereum) {
+    throw new Error("MetaMask is not installed");
+  }
+
+  const ethereum = (window as any).ethereum;
+  await ethereum.request({ method: "eth_requestAccounts" });
+  await ethereum.request({
+    method: "wallet_switchEthereumChain",
+    params: [{ chainId: ethers.toQuantity(typedData.domain.chainId) }],
+  });
+
+  const provider = new ethers.BrowserProvider(ethereum);
+  const signer = await provider.getSigner();
+  const signature = await signer.signTypedData(typedData.domain, typedData.types, typedData.message);
+  return { owner: await signer.getAddress(), signature };
+}
@@ -4,31 +4,48 @@ const ERC20_TRANSFER = parseAbiItem(
   "event Transfer(address indexed from, address indexed to, uint256 value)"
 );
 
+// Recipients per getLogs call; keeps the topic filter within RPC limits
+const MAX_ADDRESSES_PER_FILTER = 200;
+
+export interface Erc20Transfer {
+  txHash: `0x${string}`;
+  from: string;
+  to: string; // lowercase
+  value: bigint;
+  token: string; // lowercase
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+}
+
 /**
- * Scan for ERC20 Transfer events with exact value match
+ * Collect Transfer events of the watched tokens to any watched address in a
+ * block range. One getLogs call covers every token and (up to the filter
+ * limit) every recipient. Throws on RPC errors so the caller can retry the
+ * range.
  */
-export async function scanErc20Exact({
+export async function scanErc20Transfers({
   client,
-  tokenAddress,
-  toAddress,
+  tokens,
+  addresses,
   fromBlock,
   toBlock,
-  expectedValue,
 }: {
   client: PublicClient;
-  tokenAddress: `0x${string}`;
-  toAddress: `0x${string}`;
+  tokens: string[]; // lowercase
+  addresses: string[]; // lowercase
   fromBlock: bigint;
   toBlock: bigint;
-  expectedValue: bigint;
-}) {
-  try {
+}): Promise<Erc20Transfer[]> {
+  const transfers: Erc20Transfer[] = [];
+  if (tokens.length === 0 || addresses.length === 0) return transfers;
+
+  for (let i = 0; i < addresses.length; i += MAX_ADDRESSES_PER_FILTER) {
     const logs = await client.getLogs({
-      address: tokenAddress,
+      address: tokens as `0x${string}`[],
       event: ERC20_TRANSFER,
+      args: { to: addresses.slice(i, i + MAX_ADDRESSES_PER_FILTER) as `0x${string}`[] },
       fromBlock,
       toBlock,
-      args: { to: toAddress },
     });
 
     for (const log of logs) {
@@ -38,31 +55,21 @@ export async function scanErc20Exact({
           data: log.data,
           topics: log.topics,
         });
-        const value = (decoded.args as any).value as bigint;
-        if (value === expectedValue) {
-          return {
-            txHash: log.transactionHash as `0x${string}`,
-            value,
-            blockNumber: log.blockNumber?.toString(),
-          };
-        }
+        transfers.push({
+          txHash: log.transactionHash as `0x${string}`,
+          from: decoded.args.from,
+          to: decoded.args.to.toLowerCase(),
+          value: decoded.args.value,
+          token: log.address.toLowerCase(),
+          blockNumber: log.blockNumber as bigint,
+          blockHash: log.blockHash as `0x${string}`,
+        });
       } catch (decodeError) {
         // Skip logs that can't be decoded
         continue;
       }
     }
-  } catch (error: any) {
-    // Log error but don't throw (network issues are expected)
-    if (!error.message?.includes("rate limit") && !error.message?.includes("timeout")) {
-      console.warn(`Error scanning ERC20 logs:`, error.message);
-    }
   }
 
-  return null;
+  return transfers;
 }
-
-
-
-
-
-
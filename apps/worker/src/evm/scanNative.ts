@@ -1,72 +1,55 @@
 import { PublicClient } from "viem";
 
+export interface NativeTransfer {
+  txHash: `0x${string}`;
+  from: string;
+  to: string; // lowercase
+  value: bigint;
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+}
+
 /**
- * Scan for native token transfers with exact value match
- * 
- * Note: This scans blocks sequentially which can be slow for large ranges.
- * In production, consider using WebSocket subscriptions for real-time detection.
+ * Collect native transfers to any watched address in a block range
+ *
+ * Fetches each block once with its transactions, however many addresses are
+ * watched. Throws if a block cannot be fetched so the caller does not move
+ * its cursor past blocks it never saw.
  */
-export async function scanNativeExact({
+export async function scanNativeTransfers({
   client,
-  toAddress,
+  addresses,
   fromBlock,
   toBlock,
-  expectedValue,
 }: {
   client: PublicClient;
-  toAddress: string;
+  addresses: Set<string>; // lowercase
   fromBlock: bigint;
   toBlock: bigint;
-  expectedValue: bigint;
-}) {
-  const lowerAddress = toAddress.toLowerCase();
-  
-  // Limit scan range per call to avoid RPC abuse
-  const maxBlocksPerScan = 50n;
-  const scanTo = toBlock > fromBlock + maxBlocksPerScan ? fromBlock + maxBlocksPerScan : toBlock;
-
-  try {
-    // Get block with transactions
-    for (let blockNum = fromBlock; blockNum <= scanTo; blockNum++) {
-      try {
-        const block = await client.getBlock({ blockNumber: blockNum, includeTransactions: true });
-        
-        if (!block.transactions || !Array.isArray(block.transactions)) {
-          continue;
-        }
-
-        for (const tx of block.transactions) {
-          if (typeof tx === "string") continue; // Skip hash-only transactions
-          
-          if (!tx.to) continue;
-          if (tx.to.toLowerCase() !== lowerAddress) continue;
-          if (tx.value !== expectedValue) continue;
-
-          return {
-            txHash: tx.hash as `0x${string}`,
-            value: tx.value,
-            blockNumber: blockNum.toString(),
-          };
-        }
-      } catch (blockError: any) {
-        // Skip blocks that fail to fetch
-        if (!blockError.message?.includes("rate limit") && !blockError.message?.includes("timeout")) {
-          console.warn(`Error fetching block ${blockNum}:`, blockError.message);
-        }
-        continue;
-      }
-    }
-  } catch (error: any) {
-    if (!error.message?.includes("rate limit") && !error.message?.includes("timeout")) {
-      console.warn(`Error scanning native transfers:`, error.message);
+}): Promise<NativeTransfer[]> {
+  const transfers: NativeTransfer[] = [];
+  if (addresses.size === 0) return transfers;
+
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+    const block = await client.getBlock({ blockNumber, includeTransactions: true });
+
+    for (const tx of block.transactions) {
+      if (typeof tx === "string") continue; // Skip hash-only transactions
+      if (!tx.to || tx.value === 0n) continue;
+
+      const to = tx.to.toLowerCase();
+      if (!addresses.has(to)) continue;
+
+      transfers.push({
+        txHash: tx.hash,
+        from: tx.from,
+        to,
+        value: tx.value,
+        blockNumber,
+        blockHash: block.hash as `0x${string}`,
+      });
     }
   }
 
-  return null;
+  return transfers;
 }
-
-
-
-
-
-
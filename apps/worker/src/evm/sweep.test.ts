@@ -0,0 +1,202 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import * as admin from "firebase-admin";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  parseAbi,
+  parseEther,
+  parseUnits,
+  stringToHex,
+  toHex,
+} from "viem";
+import type { Abi, Address, Hex } from "viem";
+import { HDKey, privateKeyToAccount } from "viem/accounts";
+import { getAsset, getNetwork } from "@opencause/crypto-core";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  seedTestHdWallet,
+  startAnvil,
+  AnvilNode,
+} from "@opencause/testkit";
+import { getUnsweptTransfers } from "../services/sweep-ledger";
+import { sweepEvmDeposits, trackEvmSweeps } from "./sweep";
+
+// Build with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex; deployedBytecode: Hex } => {
+  const json = JSON.parse(readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object, deployedBytecode: json.deployedBytecode.object };
+};
+
+const MOCK_ERC20_ABI = parseAbi(["function mint(address to, uint256 amount)"]);
+
+describe("EVM deposit sweeps", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let nativeVault: Address;
+  let tokenVault: Address;
+  const env = { ...process.env };
+
+  const network = getNetwork("polygon_mainnet")!;
+  // The registry's USDC address, with MockERC20's code put there
+  const usdc = getAsset("usdc_polygon_mainnet")!.contractAddress as Address;
+
+  const seed = randomBytes(64);
+  const depositKey = (index: number) => {
+    const derivationPath = `m/44'/60'/0'/0/${index}`;
+    const account = privateKeyToAccount(toHex(HDKey.fromMasterSeed(seed).derive(derivationPath).privateKey!));
+    return { derivationPath, address: account.address };
+  };
+  const nativeDeposit = depositKey(11);
+  const tokenDeposit = depositKey(12);
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+  const mined = async (hash: Hex) => {
+    await client().waitForTransactionReceipt({ hash });
+    return hash;
+  };
+
+  const deploy = async (name: string, args: any[]) => {
+    const { abi, bytecode } = artifact(name);
+    const hash = await wallet().deployContract({ abi, bytecode, args, account: account(), chain: null });
+    return (await client().waitForTransactionReceipt({ hash })).contractAddress!;
+  };
+
+  const sweep = async () => {
+    await trackEvmSweeps(db, network, anvil.rpcUrl);
+    await sweepEvmDeposits(db, network, anvil.rpcUrl, await getUnsweptTransfers(db, network.networkId));
+  };
+
+  const seedTransfer = (id: string, to: string, amountRaw: bigint, tokenAddress: string | null = null) =>
+    db.collection("chain_txs_private").doc(id).set({
+      networkId: network.networkId,
+      txHash: `0x${id}`,
+      to: to.toLowerCase(),
+      amountRaw: amountRaw.toString(),
+      assetType: tokenAddress ? "ERC20" : "NATIVE",
+      tokenAddress,
+      status: "CONFIRMED",
+      intentId: `intent_${id}`,
+      campaignId: "camp1",
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+
+  const sweeps = async () => (await db.collection("deposit_sweeps").get()).docs.map((doc) => doc.data());
+
+  beforeAll(async () => {
+    anvil = await startAnvil({ port: 8550, chainId: 137 });
+    process.env.SWEEP_GAS_STATION_PRIVATE_KEY = anvil.privateKeys[1];
+    await seedTestHdWallet(seed);
+
+    await createTestClient({ mode: "anvil", transport: http(anvil.rpcUrl) }).setCode({
+      address: usdc,
+      bytecode: artifact("MockERC20").deployedBytecode,
+    });
+    const campaignId = stringToHex("camp1", { size: 32 });
+    nativeVault = await deploy("CampaignNativeVault", [campaignId, account().address]);
+    tokenVault = await deploy("CampaignTokenVault", [campaignId, usdc, account().address]);
+  }, 60_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["campaign_deposits", "chain_txs_private", "deposit_sweeps", "events"]);
+    await db.collection("campaign_deposits").doc("camp1_matic_polygon_mainnet").set({
+      campaignId: "camp1",
+      assetId: "matic_polygon_mainnet",
+      networkId: network.networkId,
+      address: nativeDeposit.address.toLowerCase(),
+      derivationPath: nativeDeposit.derivationPath,
+      vaultAddress: nativeVault,
+    });
+    await db.collection("campaign_deposits").doc("camp1_usdc_polygon_mainnet").set({
+      campaignId: "camp1",
+      assetId: "usdc_polygon_mainnet",
+      networkId: network.networkId,
+      address: tokenDeposit.address.toLowerCase(),
+      derivationPath: tokenDeposit.derivationPath,
+      vaultAddress: tokenVault,
+    });
+  });
+
+  it("donates native deposits into the vault, paying the gas out of the amount", async () => {
+    await mined(
+      await wallet().sendTransaction({ to: nativeDeposit.address, value: parseEther("1"), account: account(), chain: null })
+    );
+    await seedTransfer("aa01", nativeDeposit.address, parseEther("0.4"));
+    await seedTransfer("aa02", nativeDeposit.address, parseEther("0.6"));
+    const before = await client().getBalance({ address: nativeVault });
+
+    await sweep();
+
+    const [swept] = await sweeps();
+    expect(swept).toMatchObject({
+      status: "CONFIRMED",
+      assetId: "matic_polygon_mainnet",
+      amountRaw: parseEther("1").toString(),
+      chainTxIds: ["aa01", "aa02"],
+      vaultAddress: nativeVault,
+    });
+    expect((await client().getBalance({ address: nativeVault })) - before).toBe(
+      parseEther("1") - BigInt(swept.feeRaw)
+    );
+
+    const events = await db.collection("events").where("type", "==", "FUNDS_SWEPT").get();
+    expect(events.docs.map((doc) => doc.get("data.txHash"))).toEqual([swept.txHash]);
+
+    // The transfers are claimed; a second run moves nothing
+    await sweep();
+    expect(await sweeps()).toHaveLength(1);
+  });
+
+  it("tops up gas from the gas station and donates tokens through approve", async () => {
+    const amount = parseUnits("25", 6);
+    await mined(
+      await wallet().writeContract({
+        address: usdc,
+        abi: MOCK_ERC20_ABI,
+        functionName: "mint",
+        args: [tokenDeposit.address, amount],
+        account: account(),
+        chain: null,
+      })
+    );
+    await seedTransfer("bb01", tokenDeposit.address, amount, usdc.toLowerCase());
+
+    await sweep();
+
+    expect(await sweeps()).toEqual([
+      expect.objectContaining({
+        status: "CONFIRMED",
+        assetId: "usdc_polygon_mainnet",
+        amountRaw: amount.toString(),
+        feeRaw: "0",
+        gasTopUpTxHash: expect.any(String),
+        approveTxHash: expect.any(String),
+      }),
+    ]);
+    expect(
+      await client().readContract({ address: usdc, abi: erc20Abi, functionName: "balanceOf", args: [tokenVault] })
+    ).toBe(amount);
+  });
+
+  it("leaves transfers unclaimed while the address holds less than was credited", async () => {
+    await seedTransfer("cc01", nativeDeposit.address, parseEther("1000"));
+
+    await sweep();
+
+    expect(await sweeps()).toEqual([]);
+    expect((await db.collection("chain_txs_private").doc("cc01").get()).get("sweepId")).toBeUndefined();
+  });
+});
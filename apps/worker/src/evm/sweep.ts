@@ -0,0 +1,251 @@
+/**
+ * EVM deposit sweeps: the confirmed donations sitting on a campaign deposit
+ * address go into the campaign's CampaignNativeVault / CampaignTokenVault
+ * through donate(sweepId). Native sweeps pay their own gas out of the amount;
+ * ERC20 deposit addresses hold no native coin, so the gas station wallet
+ * (SWEEP_GAS_STATION_PRIVATE_KEY) tops them up first.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  Address,
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  Hash,
+  http,
+  pad,
+  parseAbi,
+  PublicClient,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { CampaignDepositDoc, ChainTxPrivateDoc } from "@opencause/firebase";
+import { CryptoNetwork, getAsset } from "@opencause/crypto-core";
+import { deriveDepositKey } from "../services/deposit-keys";
+import { formatUnits } from "../services/intent-ledger";
+import { claimSweep, completeSweep, failSweep, updateSweep } from "../services/sweep-ledger";
+
+const NATIVE_VAULT_ABI = parseAbi(["function donate(bytes32 intentId) payable"]);
+const TOKEN_VAULT_ABI = parseAbi(["function donate(bytes32 intentId, uint256 amount)"]);
+
+// Gas limits with headroom; unused gas of a native sweep stays on the deposit address
+const NATIVE_DONATE_GAS = 80_000n;
+const APPROVE_GAS = 70_000n;
+const TOKEN_DONATE_GAS = 150_000n;
+
+// Longest wait for a receipt within a run; slower txs are picked up by trackEvmSweeps
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+/**
+ * Address of the gas station wallet (lowercase), null if none is configured
+ */
+export function getGasStationAddress(): string | null {
+  const stationKey = process.env.SWEEP_GAS_STATION_PRIVATE_KEY;
+  return stationKey ? privateKeyToAccount(stationKey as Hash).address.toLowerCase() : null;
+}
+
+/**
+ * Sweep every deposit address on the network that has a vault and confirmed
+ * donations no sweep has moved yet
+ */
+export async function sweepEvmDeposits(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  rpcUrl: string,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  const client = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  const depositsSnap = await db.collection("campaign_deposits").where("networkId", "==", network.networkId).get();
+
+  for (const doc of depositsSnap.docs) {
+    const deposit = doc.data() as CampaignDepositDoc;
+    const asset = getAsset(deposit.assetId);
+    if (!deposit.vaultAddress || !deposit.derivationPath || !asset) continue;
+    if (asset.assetType !== "NATIVE" && asset.assetType !== "ERC20") continue;
+
+    const token = asset.assetType === "ERC20" ? asset.contractAddress?.toLowerCase() || null : null;
+    const swept = transfers.filter(
+      (tx) =>
+        tx.to.toLowerCase() === deposit.address.toLowerCase() &&
+        tx.campaignId === deposit.campaignId &&
+        (tx.tokenAddress?.toLowerCase() || null) === token
+    );
+    if (swept.length === 0) continue;
+
+    try {
+      await sweepDeposit(db, network, client, rpcUrl, doc.id, deposit, token as Address | null, asset.decimals, swept);
+    } catch (error: any) {
+      console.error(`[DepositSweeper] Error sweeping ${doc.id}:`, error.message);
+    }
+  }
+}
+
+async function sweepDeposit(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  client: PublicClient,
+  rpcUrl: string,
+  depositId: string,
+  deposit: CampaignDepositDoc,
+  token: Address | null,
+  decimals: number,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  const { privateKey } = await deriveDepositKey(db, deposit.derivationPath!);
+  const account = privateKeyToAccount(`0x${Buffer.from(privateKey).toString("hex")}`);
+  if (account.address.toLowerCase() !== deposit.address.toLowerCase()) {
+    throw new Error(`Derived key does not match deposit address ${deposit.address}`);
+  }
+
+  const amount = transfers.reduce((sum, tx) => sum + BigInt(tx.amountRaw), 0n);
+  const balance = token
+    ? await client.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [account.address] })
+    : await client.getBalance({ address: account.address });
+  if (balance < amount) {
+    console.warn(
+      `[DepositSweeper] ⚠️ ${depositId} holds ${balance}, less than the ${amount} credited to it; not sweeping`
+    );
+    return;
+  }
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+  const fee = token ? 0n : NATIVE_DONATE_GAS * maxFeePerGas;
+  if (!token && amount <= fee) return; // Not worth the gas yet
+
+  const sweepId = await claimSweep(db, {
+    campaignId: deposit.campaignId,
+    networkId: network.networkId,
+    assetId: deposit.assetId,
+    fromAddresses: [deposit.address],
+    vaultAddress: deposit.vaultAddress!,
+    chainTxIds: transfers.map((tx) => tx.id),
+    amountRaw: amount,
+    amountNative: formatUnits(amount, decimals),
+    feeRaw: fee,
+  });
+  if (!sweepId) return;
+
+  const vault = deposit.vaultAddress as Address;
+  const wallet = createWalletClient({ account, transport: http(rpcUrl) });
+  const fees = { maxFeePerGas, maxPriorityFeePerGas };
+
+  let txHash: Hash;
+  try {
+    if (token) {
+      await topUpGas(client, rpcUrl, account.address, (APPROVE_GAS + TOKEN_DONATE_GAS) * maxFeePerGas, (topUp) =>
+        updateSweep(db, sweepId, topUp)
+      );
+
+      const approveTxHash = await wallet.writeContract({
+        address: token,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [vault, amount],
+        gas: APPROVE_GAS,
+        chain: null,
+        ...fees,
+      });
+      await updateSweep(db, sweepId, { approveTxHash });
+      await waitForSuccess(client, approveTxHash, "approve");
+
+      txHash = await wallet.writeContract({
+        address: vault,
+        abi: TOKEN_VAULT_ABI,
+        functionName: "donate",
+        args: [pad(`0x${sweepId}`), amount],
+        gas: TOKEN_DONATE_GAS,
+        chain: null,
+        ...fees,
+      });
+    } else {
+      txHash = await wallet.writeContract({
+        address: vault,
+        abi: NATIVE_VAULT_ABI,
+        functionName: "donate",
+        args: [pad(`0x${sweepId}`)],
+        value: amount - fee,
+        gas: NATIVE_DONATE_GAS,
+        chain: null,
+        ...fees,
+      });
+    }
+  } catch (error: any) {
+    await failSweep(db, sweepId, error.shortMessage || error.message);
+    return;
+  }
+
+  await updateSweep(db, sweepId, {
+    status: "SUBMITTED",
+    txHash,
+    explorerUrl: `${network.explorerBaseUrl}/tx/${txHash}`,
+  });
+  console.log(`[DepositSweeper] Sweeping ${amount} from ${deposit.address} into ${vault}: ${txHash}`);
+  await client.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS }).catch(() => null);
+  await settleEvmSweep(db, client, sweepId, txHash);
+}
+
+/**
+ * Send the deposit address whatever native coin it lacks for `needed` gas;
+ * `record` saves the top-up before it is waited on
+ */
+export async function topUpGas(
+  client: PublicClient,
+  rpcUrl: string,
+  address: Address,
+  needed: bigint,
+  record: (topUp: { gasTopUpRaw: string; gasTopUpTxHash: Hash }) => Promise<unknown>
+) {
+  const balance = await client.getBalance({ address });
+  if (balance >= needed) return;
+
+  const stationKey = process.env.SWEEP_GAS_STATION_PRIVATE_KEY;
+  if (!stationKey) throw new Error("SWEEP_GAS_STATION_PRIVATE_KEY is not set; cannot pay gas for token transfers");
+
+  const station = createWalletClient({
+    account: privateKeyToAccount(stationKey as Hash),
+    transport: http(rpcUrl),
+  });
+  const value = needed - balance;
+  const gasTopUpTxHash = await station.sendTransaction({ to: address, value, chain: null });
+  await record({ gasTopUpRaw: value.toString(), gasTopUpTxHash });
+  await waitForSuccess(client, gasTopUpTxHash, "gas top-up");
+}
+
+export async function waitForSuccess(client: PublicClient, hash: Hash, step: string) {
+  const receipt = await client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS });
+  if (receipt.status !== "success") throw new Error(`${step} ${hash} reverted`);
+}
+
+/**
+ * Settle a SUBMITTED sweep from its receipt; left SUBMITTED while the tx is
+ * still pending
+ */
+async function settleEvmSweep(db: admin.firestore.Firestore, client: PublicClient, sweepId: string, txHash: Hash) {
+  let status: "success" | "reverted";
+  try {
+    status = (await client.getTransactionReceipt({ hash: txHash })).status;
+  } catch {
+    return;
+  }
+  if (status === "success") {
+    await completeSweep(db, sweepId);
+  } else {
+    await failSweep(db, sweepId, `Sweep tx ${txHash} reverted`);
+  }
+}
+
+/**
+ * Settle sweeps broadcast by earlier runs
+ */
+export async function trackEvmSweeps(db: admin.firestore.Firestore, network: CryptoNetwork, rpcUrl: string) {
+  const client = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  const submitted = await db
+    .collection("deposit_sweeps")
+    .where("networkId", "==", network.networkId)
+    .where("status", "==", "SUBMITTED")
+    .get();
+  for (const doc of submitted.docs) {
+    const txHash = doc.get("txHash") as Hash | undefined;
+    if (txHash) await settleEvmSweep(db, client, doc.id, txHash);
+  }
+}
@@ -1,15 +1,14 @@
 /**
  * Crypto Donation Worker
  * 
- * DISABLED: Redis/BullMQ removed
- * 
- * Workers are no longer available. Consider implementing:
- * - Scheduled tasks using cron jobs
- * - Direct Firestore triggers
- * - HTTP endpoints to trigger jobs manually
+ * Claims jobs from the Firestore-backed job queue (see @opencause/firebase
+ * FirestoreJobQueue) and runs the matching processor. Jobs survive restarts:
+ * an unfinished job's lease expires and it is picked up again.
  */
 
 import * as admin from "firebase-admin";
+import { JobRunner } from "./queue/job-runner";
+import { registerProcessors } from "./queue/processors";
 
 // Initialize Firebase Admin
 if (!admin.apps.length) {
@@ -38,21 +37,22 @@ if (!admin.apps.length) {
   }
 }
 
-console.log("⚠️  Crypto workers are DISABLED (Redis/BullMQ removed)");
-console.log("   Workers that were available:");
-console.log("   - EVM Indexer");
-console.log("   - UTXO Watcher");
-console.log("   - Solana Watcher");
-console.log("   - Stats Refresher");
-console.log("   - Intent Expirer");
-console.log("   - Withdrawal Executor");
-console.log("");
-console.log("   To process jobs, use:");
-console.log("   - Firestore triggers/cloud functions");
-console.log("   - Scheduled HTTP endpoints");
-console.log("   - Cron jobs");
-
-// Keep process alive
-setInterval(() => {
-  // Do nothing, just keep alive
-}, 60000);
+
+const runner = new JobRunner(admin.firestore(), {
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000"),
+  leaseMs: parseInt(process.env.JOB_LEASE_MS || "300000"),
+});
+
+registerProcessors(runner);
+
+console.log("🚀 Crypto job worker started");
+runner.start();
+
+const shutdown = async (signal: string) => {
+  console.log(`🛑 Received ${signal}, finishing current job...`);
+  await runner.stop();
+  process.exit(0);
+};
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
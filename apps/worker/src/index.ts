@@ -1,12 +1,22 @@
 /**
  * Worker Service
  * 
- * Auto-detection worker for crypto payment intents.
- * Scans EVM chains for incoming payments and updates Firestore.
+ * Runs every periodic watcher job (intent watch, EVM/UTXO/SOL watchers,
+ * intent expiry, stats refresh, withdrawal execution, Safe withdrawal watch,
+ * evidence and ledger anchoring) through the durable job queue: the cron
+ * scheduler enqueues them and the job runner processes them. Only the replica
+ * holding the leader lock fires the schedule; queue jobs are safe on every
+ * replica.
  */
 
 import * as admin from "firebase-admin";
-import { IntentWatchProcessor } from "./jobs/intent-watch.processor";
+import { FirestoreJobQueue, JOB_QUEUES } from "@opencause/firebase";
+import { JobRunner } from "./queue/job-runner";
+import { registerProcessors } from "./queue/processors";
+import { Scheduler } from "./scheduler/scheduler";
+import { LeaderLock } from "./scheduler/leader-lock";
+import { buildSchedule } from "./scheduler/schedule";
+import { startStatusServer } from "./scheduler/status-server";
 
 // Initialize Firebase Admin
 if (!admin.apps.length) {
@@ -38,33 +48,52 @@ if (!admin.apps.length) {
   }
 }
 
-const processor = new IntentWatchProcessor();
+const firestore = admin.firestore();
 
-// Run detection tick every 10 seconds
-const TICK_INTERVAL_MS = 10000;
+const runner = new JobRunner(firestore, {
+  pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000"),
+  leaseMs: parseInt(process.env.JOB_LEASE_MS || "300000"),
+});
 
-console.log("🚀 Intent Watch Processor started");
-console.log(`📡 Scanning every ${TICK_INTERVAL_MS / 1000} seconds`);
+registerProcessors(runner);
 
-// Run initial tick
-processor.tick().catch((error) => {
-  console.error("❌ Error in initial tick:", error);
-});
+const leaderLock = new LeaderLock(
+  firestore,
+  "scheduler",
+  runner.workerId,
+  parseInt(process.env.LEADER_LOCK_TTL_MS || "30000")
+);
 
-// Schedule periodic ticks
-setInterval(() => {
-  processor.tick().catch((error) => {
-    console.error("❌ Error in tick:", error);
-  });
-}, TICK_INTERVAL_MS);
+const scheduler = new Scheduler(() => leaderLock.isLeader(), process.env.SCHEDULER_TIME_ZONE || "UTC");
+for (const definition of buildSchedule(firestore)) {
+  scheduler.register(definition);
+  console.log(`⏱️  ${definition.name}: ${definition.cron}`);
+}
 
-// Keep process alive
-process.on("SIGTERM", () => {
-  console.log("🛑 Received SIGTERM, shutting down gracefully...");
-  process.exit(0);
-});
+const statusServer = startStatusServer(
+  parseInt(process.env.WORKER_STATUS_PORT || "8081"),
+  runner.workerId,
+  scheduler,
+  leaderLock,
+  new FirestoreJobQueue(firestore),
+  // Including the queues the API drains
+  Object.values(JOB_QUEUES)
+);
+
+console.log("🚀 Worker started");
+leaderLock.start();
+scheduler.start();
+runner.start();
 
-process.on("SIGINT", () => {
-  console.log("🛑 Received SIGINT, shutting down gracefully...");
+const shutdown = async (signal: string) => {
+  console.log(`🛑 Received ${signal}, shutting down gracefully...`);
+  statusServer.close();
+  await Promise.all([scheduler.stop(), runner.stop()]);
+  await leaderLock.stop().catch((error) => {
+    console.warn("Failed to release leader lock:", error.message);
+  });
   process.exit(0);
-});
+};
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
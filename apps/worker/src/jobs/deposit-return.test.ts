@@ -0,0 +1,208 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import * as admin from "firebase-admin";
+import {
+  createPublicClient,
+  createWalletClient,
+  erc20Abi,
+  http,
+  keccak256,
+  parseAbi,
+  parseEther,
+  parseGwei,
+  parseUnits,
+  toHex,
+} from "viem";
+import type { Abi, Hex } from "viem";
+import { HDKey, privateKeyToAccount } from "viem/accounts";
+import { Job } from "@opencause/firebase";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  seedTestHdWallet,
+  startAnvil,
+  AnvilNode,
+} from "@opencause/testkit";
+import { processDepositReturnJob } from "./deposit-return";
+
+// Build with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+const MOCK_ERC20_ABI = parseAbi(["function mint(address to, uint256 amount)"]);
+
+describe("processDepositReturnJob", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  const env = { ...process.env };
+
+  const seed = randomBytes(64);
+  const derivationPath = "m/44'/60'/0'/0/7";
+  const depositAccount = privateKeyToAccount(toHex(HDKey.fromMasterSeed(seed).derive(derivationPath).privateKey!));
+  const returnAddress = "0x00000000000000000000000000000000000000a1";
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+  const mined = async (hash: Hex) => {
+    await client().waitForTransactionReceipt({ hash });
+    return hash;
+  };
+
+  const fund = async (value: bigint) =>
+    mined(await wallet().sendTransaction({ to: depositAccount.address, value, account: account(), chain: null }));
+
+  const job = (depositId: string): Job => ({
+    id: `deposit_return_${depositId}`,
+    queueName: "deposit_return",
+    name: "return_transfer",
+    data: { depositId },
+    attemptsMade: 1,
+    maxAttempts: 5,
+  });
+
+  const seedDeposit = (id: string, fields: Record<string, any> = {}) =>
+    db.collection("unattributed_deposits").doc(id).set({
+      networkId: "polygon_mainnet",
+      txHash: `0x${id}`,
+      from: returnAddress,
+      to: depositAccount.address.toLowerCase(),
+      depositRef: "camp1_matic_polygon_mainnet",
+      campaignId: "camp1",
+      assetId: "matic_polygon_mainnet",
+      assetType: "NATIVE",
+      tokenAddress: null,
+      amountRaw: parseEther("1").toString(),
+      amountNative: "1",
+      decimals: 18,
+      status: "RETURN_PENDING",
+      resolution: { action: "MARK_FOR_RETURN", returnAddress, resolvedBy: "admin1" },
+      ...fields,
+    });
+
+  const read = async (id: string) => (await db.collection("unattributed_deposits").doc(id).get()).data();
+
+  beforeAll(async () => {
+    anvil = await startAnvil({ port: 8549, chainId: 137 });
+    process.env.POLYGON_MAINNET_RPC_URL = anvil.rpcUrl;
+    process.env.SWEEP_GAS_STATION_PRIVATE_KEY = anvil.privateKeys[1];
+    await seedTestHdWallet(seed);
+  }, 30_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["unattributed_deposits", "campaign_deposits"]);
+    await db.collection("campaign_deposits").doc("camp1_matic_polygon_mainnet").set({
+      campaignId: "camp1",
+      assetId: "matic_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      address: depositAccount.address.toLowerCase(),
+      derivationPath,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+  });
+
+  it("sends a native deposit back, paying the gas out of the amount", async () => {
+    await fund(parseEther("1"));
+    await seedDeposit("dep1");
+    const before = await client().getBalance({ address: returnAddress });
+
+    await processDepositReturnJob(job("dep1"), db);
+
+    const deposit = await read("dep1");
+    expect(deposit).toMatchObject({ status: "RETURNED", returnFailureReason: null });
+    expect(deposit?.returnTx.confirmedAt).toBeTruthy();
+    expect(BigInt(deposit?.returnTx.amountRaw) + BigInt(deposit?.returnTx.feeRaw)).toBe(parseEther("1"));
+    expect((await client().getBalance({ address: returnAddress })) - before).toBe(BigInt(deposit?.returnTx.amountRaw));
+  });
+
+  it("rebroadcasts a saved return instead of signing a second one", async () => {
+    await fund(parseEther("1"));
+    const value = parseEther("0.9");
+    const rawTx = await depositAccount.signTransaction({
+      type: "eip1559",
+      chainId: 137,
+      nonce: await client().getTransactionCount({ address: depositAccount.address }),
+      to: returnAddress,
+      value,
+      gas: 21_000n,
+      maxFeePerGas: parseGwei("10"),
+      maxPriorityFeePerGas: 1n,
+    });
+    await seedDeposit("dep1", {
+      returnTx: {
+        txHash: keccak256(rawTx),
+        rawTx,
+        amountRaw: value.toString(),
+        explorerUrl: "",
+        submittedAt: admin.firestore.Timestamp.now(),
+      },
+    });
+    const before = await client().getBalance({ address: returnAddress });
+
+    await processDepositReturnJob(job("dep1"), db);
+    await processDepositReturnJob(job("dep1"), db);
+
+    expect(await read("dep1")).toMatchObject({ status: "RETURNED", returnTx: { txHash: keccak256(rawTx) } });
+    expect((await client().getBalance({ address: returnAddress })) - before).toBe(value);
+  });
+
+  it("returns tokens with gas from the gas station", async () => {
+    const { abi, bytecode } = artifact("MockERC20");
+    const deployHash = await wallet().deployContract({
+      abi,
+      bytecode,
+      args: ["Test USD", "TUSD", 6],
+      account: account(),
+      chain: null,
+    });
+    const token = (await client().waitForTransactionReceipt({ hash: deployHash })).contractAddress!;
+    await mined(
+      await wallet().writeContract({
+        address: token,
+        abi: MOCK_ERC20_ABI,
+        functionName: "mint",
+        args: [depositAccount.address, parseUnits("25", 6)],
+        account: account(),
+        chain: null,
+      })
+    );
+    await seedDeposit("dep1", {
+      assetId: "usdc_polygon_mainnet",
+      assetType: "ERC20",
+      tokenAddress: token.toLowerCase(),
+      amountRaw: parseUnits("25", 6).toString(),
+      decimals: 6,
+    });
+
+    await processDepositReturnJob(job("dep1"), db);
+
+    expect(await read("dep1")).toMatchObject({
+      status: "RETURNED",
+      returnTx: { amountRaw: parseUnits("25", 6).toString(), feeRaw: null },
+      returnGasTopUp: { gasTopUpTxHash: expect.any(String) },
+    });
+    expect(
+      await client().readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [returnAddress] })
+    ).toBe(parseUnits("25", 6));
+  });
+
+  it("fails deposits on networks it cannot send from", async () => {
+    await seedDeposit("dep1", { networkId: "bitcoin_mainnet", assetType: "UTXO" });
+
+    await processDepositReturnJob(job("dep1"), db);
+
+    expect(await read("dep1")).toMatchObject({
+      status: "RETURN_FAILED",
+      returnFailureReason: "Return transfers are not supported on bitcoin_mainnet",
+    });
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Deposit Return Job
+ *
+ * Sends an unattributed transfer an admin marked for return back from the
+ * campaign deposit address it arrived on. The return is signed and saved on
+ * the deposit before it is broadcast, so a retried job rebroadcasts the same
+ * transaction rather than sending the funds twice. Native returns pay their
+ * gas out of the amount; token returns are funded by the sweep gas station.
+ * Only EVM deposits are returned here; other networks are paid out by hand.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  Address,
+  createPublicClient,
+  encodeFunctionData,
+  erc20Abi,
+  Hash,
+  Hex,
+  http,
+  keccak256,
+  parseTransaction,
+  PublicClient,
+  toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { CampaignDepositDoc, Job, UnattributedDepositDoc } from "@opencause/firebase";
+import { CryptoNetwork, getExplorerTxUrl, getNetwork } from "@opencause/crypto-core";
+import { deriveDepositKey } from "../services/deposit-keys";
+import { topUpGas } from "../evm/sweep";
+
+type ReturnTx = NonNullable<UnattributedDepositDoc["returnTx"]>;
+
+const NATIVE_TRANSFER_GAS = 21_000n;
+const TOKEN_TRANSFER_GAS = 100_000n;
+
+// Longest wait for a receipt within a run; the job is retried after that
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+export async function processDepositReturnJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  const { depositId } = job.data;
+  const depositRef = firestore.collection("unattributed_deposits").doc(depositId);
+
+  const snap = await depositRef.get();
+  if (!snap.exists) {
+    throw new Error(`Unattributed deposit ${depositId} not found`);
+  }
+  const deposit = snap.data() as UnattributedDepositDoc;
+  if (deposit.status !== "RETURN_PENDING") {
+    console.log(`[DepositReturn] Deposit ${depositId} is ${deposit.status}, skipping`);
+    return;
+  }
+
+  const network = getNetwork(deposit.networkId);
+  const rpcUrl = process.env[`${deposit.networkId.toUpperCase().replace(/-/g, "_")}_RPC_URL`];
+  const failure =
+    network?.type !== "EVM"
+      ? `Return transfers are not supported on ${deposit.networkId}`
+      : !deposit.resolution?.returnAddress
+        ? "Deposit has no return address"
+        : null;
+  if (failure) {
+    await failReturn(depositRef, failure);
+    return;
+  }
+  if (!rpcUrl) throw new Error(`RPC URL not configured for ${deposit.networkId}`);
+
+  const client = createPublicClient({ transport: http(rpcUrl) }) as PublicClient;
+  try {
+    const returnTx = deposit.returnTx || (await signReturn(firestore, depositRef, deposit, network!, client, rpcUrl));
+    if (returnTx) await settleReturn(client, depositRef, deposit.to as Address, returnTx);
+  } catch (error: any) {
+    // A return already signed may still be mined, so it is never failed here
+    const finalAttempt = job.attemptsMade >= job.maxAttempts;
+    const signed = !!(await depositRef.get()).get("returnTx");
+    await depositRef.update({
+      ...(finalAttempt && !signed && { status: "RETURN_FAILED" }),
+      returnFailureReason: error?.shortMessage || error?.message || String(error),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Sign the transfer back from the deposit address and save it on the
+ * deposit. Returns null if the deposit cannot be returned or another run
+ * saved a return first.
+ */
+async function signReturn(
+  db: admin.firestore.Firestore,
+  depositRef: admin.firestore.DocumentReference,
+  deposit: UnattributedDepositDoc,
+  network: CryptoNetwork,
+  client: PublicClient,
+  rpcUrl: string
+): Promise<ReturnTx | null> {
+  const campaignDeposit = deposit.depositRef
+    ? ((await db.collection("campaign_deposits").doc(deposit.depositRef).get()).data() as CampaignDepositDoc | undefined)
+    : undefined;
+  if (!campaignDeposit?.derivationPath) {
+    await failReturn(depositRef, `No derivation path is known for deposit address ${deposit.to}`);
+    return null;
+  }
+
+  const { privateKey } = await deriveDepositKey(db, campaignDeposit.derivationPath);
+  const account = privateKeyToAccount(toHex(privateKey));
+  if (account.address.toLowerCase() !== deposit.to.toLowerCase()) {
+    throw new Error(`Derived key does not match deposit address ${deposit.to}`);
+  }
+
+  const to = deposit.resolution!.returnAddress as Address;
+  const amount = BigInt(deposit.amountRaw);
+  const token = deposit.assetType === "ERC20" && deposit.tokenAddress ? (deposit.tokenAddress as Address) : null;
+  const balance = token
+    ? await client.readContract({ address: token, abi: erc20Abi, functionName: "balanceOf", args: [account.address] })
+    : await client.getBalance({ address: account.address });
+  if (balance < amount) {
+    throw new Error(`${deposit.to} holds ${balance}, less than the ${amount} to return`);
+  }
+
+  const { maxFeePerGas, maxPriorityFeePerGas } = await client.estimateFeesPerGas();
+  const fee = token ? 0n : NATIVE_TRANSFER_GAS * maxFeePerGas;
+  if (!token && amount <= fee) {
+    await failReturn(depositRef, `The deposit does not cover the ${fee} gas needed to return it`);
+    return null;
+  }
+  if (token) {
+    await topUpGas(client, rpcUrl, account.address, TOKEN_TRANSFER_GAS * maxFeePerGas, (topUp) =>
+      depositRef.update({ returnGasTopUp: topUp })
+    );
+  }
+
+  const value = amount - fee;
+  const nonce = await client.getTransactionCount({ address: account.address, blockTag: "pending" });
+  const rawTx = await account.signTransaction({
+    type: "eip1559",
+    chainId: await client.getChainId(),
+    nonce,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+    ...(token
+      ? {
+          to: token,
+          data: encodeFunctionData({ abi: erc20Abi, functionName: "transfer", args: [to, amount] }),
+          gas: TOKEN_TRANSFER_GAS,
+        }
+      : { to, value, gas: NATIVE_TRANSFER_GAS }),
+  });
+  const txHash = keccak256(rawTx);
+  const returnTx: ReturnTx = {
+    txHash,
+    rawTx,
+    amountRaw: value.toString(),
+    feeRaw: token ? null : fee.toString(),
+    explorerUrl: getExplorerTxUrl(network, txHash),
+    submittedAt: admin.firestore.Timestamp.now(),
+    confirmedAt: null,
+  };
+
+  return db.runTransaction(async (t) => {
+    const current = (await t.get(depositRef)).data() as UnattributedDepositDoc;
+    if (current.status !== "RETURN_PENDING" || current.returnTx) return null;
+    t.update(depositRef, { returnTx, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    return returnTx;
+  });
+}
+
+/**
+ * (Re)broadcast a saved return and close the deposit once it is mined. A
+ * return whose nonce was taken by another transaction is dropped so the next
+ * attempt signs a new one.
+ */
+async function settleReturn(
+  client: PublicClient,
+  depositRef: admin.firestore.DocumentReference,
+  from: Address,
+  returnTx: ReturnTx
+) {
+  const hash = returnTx.txHash as Hash;
+  const broadcastError = await client
+    .sendRawTransaction({ serializedTransaction: returnTx.rawTx as Hex })
+    .then(() => null, (error) => error);
+  const receipt = await client.waitForTransactionReceipt({ hash, timeout: RECEIPT_TIMEOUT_MS }).catch(() => null);
+
+  if (!receipt) {
+    const { nonce } = parseTransaction(returnTx.rawTx as Hex);
+    const confirmedNonce = await client.getTransactionCount({ address: from, blockTag: "latest" });
+    if (nonce !== undefined && confirmedNonce > nonce) {
+      await depositRef.update({ returnTx: null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+      throw new Error(`Return ${hash} was replaced by another transaction from ${from}`);
+    }
+    throw broadcastError || new Error(`Return ${hash} is not mined yet`);
+  }
+
+  if (receipt.status !== "success") {
+    await depositRef.update({ returnTx: null, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+    throw new Error(`Return ${hash} reverted`);
+  }
+
+  await depositRef.update({
+    status: "RETURNED",
+    "returnTx.confirmedAt": admin.firestore.Timestamp.now(),
+    returnFailureReason: null,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  console.log(`[DepositReturn] Returned ${returnTx.amountRaw} from ${from} to the sender: ${hash}`);
+}
+
+async function failReturn(depositRef: admin.firestore.DocumentReference, reason: string) {
+  await depositRef.update({
+    status: "RETURN_FAILED",
+    returnFailureReason: reason,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Deposit Sweeper Job
+ *
+ * Moves confirmed donations from HD-derived deposit addresses into campaign
+ * vaults so funds are actually escrowed on-chain: EVM deposits through the
+ * vault's donate() (see evm/sweep), Bitcoin/Litecoin outputs consolidated
+ * per campaign (see utxo/sweep), SOL and SPL tokens transferred to the
+ * campaign's vault wallet (see solana/sweep). Every sweep is recorded in deposit_sweeps
+ * with its tx hash and published on the campaign's activity feed once mined.
+ */
+
+import * as admin from "firebase-admin";
+import { Connection } from "@solana/web3.js";
+import { Job } from "@opencause/firebase";
+import { getNetwork } from "@opencause/crypto-core";
+import { sweepEvmDeposits, trackEvmSweeps } from "../evm/sweep";
+import { getUtxoBackend } from "../utxo/backend";
+import { sweepUtxoDeposits, trackUtxoSweeps } from "../utxo/sweep";
+import { sweepSolanaDeposits, trackSolanaSweeps } from "../solana/sweep";
+import { getUnsweptTransfers } from "../services/sweep-ledger";
+
+export async function processDepositSweeperJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  const { networkId } = job.data;
+  const network = getNetwork(networkId);
+  if (!network) {
+    throw new Error(`Unknown network: ${networkId}`);
+  }
+
+  if (network.type === "EVM") {
+    const rpcUrl = process.env[`${networkId.toUpperCase().replace(/-/g, "_")}_RPC_URL`];
+    if (!rpcUrl) throw new Error(`RPC URL not configured for ${networkId}`);
+
+    await trackEvmSweeps(firestore, network, rpcUrl);
+    await sweepEvmDeposits(firestore, network, rpcUrl, await getUnsweptTransfers(firestore, networkId));
+  } else if (network.type === "UTXO") {
+    const backend = getUtxoBackend(network);
+    if (!backend) throw new Error(`No UTXO backend configured for ${networkId}`);
+
+    await trackUtxoSweeps(firestore, network, backend);
+    await sweepUtxoDeposits(firestore, network, backend, await getUnsweptTransfers(firestore, networkId));
+  } else {
+    const rpcUrl =
+      process.env[`${networkId.toUpperCase()}_RPC_URL`] ||
+      process.env.SOLANA_RPC_URL ||
+      "https://api.mainnet-beta.solana.com";
+    const connection = new Connection(rpcUrl, "confirmed");
+
+    await trackSolanaSweeps(firestore, network, connection);
+    await sweepSolanaDeposits(firestore, network, connection, await getUnsweptTransfers(firestore, networkId));
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Donation Refund Job
+ *
+ * Proposes the return transfer of an approved crypto refund: vault.withdraw()
+ * to the donor's address through the treasury Safe. The Safe watcher marks
+ * the refund REFUNDED once the transaction has executed, and only then are
+ * campaign totals reversed. Networks without Safe-owned vaults have no
+ * return transfer; their refunds are paid out manually through a claim.
+ */
+
+import * as admin from "firebase-admin";
+import { keccak256, toHex } from "viem";
+import type { Address } from "viem";
+import { DonationRefundDoc, FirestoreRepository, Job } from "@opencause/firebase";
+import { getNetwork, getAsset } from "@opencause/crypto-core";
+import { proposeVaultWithdrawal } from "../services/safe-withdrawals";
+
+export async function processDonationRefundJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  const { refundId } = job.data;
+  const refundRef = firestore.collection("donation_refunds").doc(refundId);
+
+  const snap = await refundRef.get();
+  if (!snap.exists) {
+    throw new Error(`Refund ${refundId} not found`);
+  }
+  const refund = snap.data() as DonationRefundDoc;
+
+  if (refund.status !== "PROCESSING" || refund.type !== "CRYPTO") {
+    console.log(`[DonationRefund] Refund ${refundId} is ${refund.status}, skipping`);
+    return;
+  }
+  if (refund.safe) {
+    console.log(`[DonationRefund] Refund ${refundId} already proposed as ${refund.safe.safeTxHash}`);
+    return;
+  }
+
+  const network = getNetwork(refund.networkId || "");
+  const asset = getAsset(refund.assetId || "");
+  const failure = !network || !asset || !refund.toAddress || !refund.amountRaw
+    ? "Refund is missing network, asset, destination or amount"
+    : network.type !== "EVM"
+      ? `Return transfers are not supported on ${network.networkId}`
+      : null;
+  if (failure) {
+    await refundRef.update({
+      status: "FAILED",
+      failureReason: failure,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return;
+  }
+
+  try {
+    const safe = await proposeVaultWithdrawal(new FirestoreRepository(firestore), {
+      campaignId: refund.campaignId,
+      networkId: network!.networkId,
+      assetId: asset!.assetId,
+      to: refund.toAddress as Address,
+      amount: BigInt(refund.amountRaw!),
+      // Refund ids are donation ids, which may not fit in bytes32
+      withdrawalId: keccak256(toHex(`refund:${refundId}`)),
+    });
+    await refundRef.update({
+      safe,
+      failureReason: null,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    console.log(`[DonationRefund] Proposed return transfer for ${refund.donationId} as ${safe.safeTxHash}`);
+  } catch (error: any) {
+    const finalAttempt = job.attemptsMade >= job.maxAttempts;
+    await refundRef.update({
+      ...(finalAttempt && { status: "FAILED" }),
+      failureReason: error?.message || String(error),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    throw error;
+  }
+}
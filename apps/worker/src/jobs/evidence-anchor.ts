@@ -0,0 +1,18 @@
+/**
+ * Evidence Anchor Job
+ *
+ * Anchors queued evidence hashes on-chain in Merkle batches (see
+ * services/evidence-anchoring) and settles batches whose root tx was still
+ * pending on the previous run.
+ */
+
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+import { anchorPendingEvidence } from "../services/evidence-anchoring";
+
+export async function processEvidenceAnchorJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  await anchorPendingEvidence(firestore);
+}
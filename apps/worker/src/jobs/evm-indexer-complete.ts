@@ -5,9 +5,8 @@
  * Updates chain_txs and payment_intents collections
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
+import { FirestoreRepository, Job } from "@opencause/firebase";
 import { getNetwork, getAsset } from "@opencause/crypto-core";
 import { createPublicClient, http, getLogs, decodeEventLog, Address } from "viem";
 import { mainnet, polygon, arbitrum, optimism, base, bsc, avalanche, fantom } from "viem/chains";
@@ -180,6 +179,10 @@ export async function processEVMIndexerJobComplete(
           const existing = await repo.getChainTx(txDocId);
           if (existing) continue;
 
+          // Deposit sweeps re-donate funds already recorded as donations
+          const sweep = await firestore.collection("deposit_sweeps").where("txHash", "==", txHash).limit(1).get();
+          if (!sweep.empty) continue;
+
           // Get transaction receipt for confirmations
           const receipt = await client.getTransactionReceipt({ hash: txHash });
           const currentBlock = await client.getBlockNumber();
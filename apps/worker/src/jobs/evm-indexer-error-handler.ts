@@ -3,7 +3,7 @@
  * Captures errors to Sentry for monitoring
  */
 
-import { Job } from "bullmq";
+import { Job } from "@opencause/firebase";
 
 let Sentry: any;
 try {
@@ -5,7 +5,7 @@
  * Updates chain_txs and payment_intents collections
  */
 
-import { Job } from "bullmq";
+import { Job } from "@opencause/firebase";
 import * as admin from "firebase-admin";
 import { processEVMIndexerJobComplete } from "./evm-indexer-complete";
 
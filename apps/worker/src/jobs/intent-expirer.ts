@@ -4,9 +4,9 @@
  * Expires old payment intents that haven't been confirmed
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
+import { FirestoreRepository, Job } from "@opencause/firebase";
+import { releaseIntentAddress } from "../services/intent-ledger";
 
 export async function processIntentExpirerJob(
   job: Job,
@@ -23,6 +23,7 @@ export async function processIntentExpirerJob(
       await repo.updatePaymentIntent(intent.intentId, {
         status: "EXPIRED",
       });
+      await releaseIntentAddress(firestore, intent.intentId, intent.depositRef);
       console.log(`✅ Expired intent ${intent.intentId}`);
     }
   }
@@ -0,0 +1,374 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import * as admin from "firebase-admin";
+import {
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  parseAbi,
+  parseEther,
+  parseUnits,
+} from "viem";
+import type { Abi, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { DEFAULT_PAYMENT_TOLERANCE } from "@opencause/crypto-core";
+import { getTestAdminFirestore, clearFirestoreCollections, startAnvil, AnvilNode } from "@opencause/testkit";
+import { FoundTransfer, IntentWatchProcessor, routeTransfer, WatchedIntent } from "./intent-watch.processor";
+
+// Only the anvil chain is watched
+jest.mock("@opencause/crypto-core", () => {
+  const actual = jest.requireActual("@opencause/crypto-core");
+  return {
+    ...actual,
+    getEnabledNetworks: () => actual.getEnabledNetworks().filter((n: any) => n.networkId === "polygon_mainnet"),
+  };
+});
+
+// Build with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+const MOCK_ERC20_ABI = parseAbi([
+  "function mint(address to, uint256 amount)",
+  "function transfer(address to, uint256 amount) returns (bool)",
+]);
+
+describe("IntentWatchProcessor", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let processor: IntentWatchProcessor;
+  const env = { ...process.env };
+
+  const depositAddress = "0x00000000000000000000000000000000000000d1";
+  const cursorKey = "intent_index_polygon_mainnet";
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const testClient = () => createTestClient({ mode: "anvil", transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+
+  const mined = async (hash: Hex) => {
+    await client().waitForTransactionReceipt({ hash });
+    return hash;
+  };
+
+  const send = async (value: bigint, to: Hex = depositAddress) =>
+    mined(await wallet().sendTransaction({ to, value, account: account(), chain: null }));
+
+  const seedIntent = async (id: string, fields: Record<string, any> = {}) => {
+    await db.collection("payment_intents").doc(id).set({
+      campaignId: "camp1",
+      networkId: "polygon_mainnet",
+      assetId: "matic_polygon_mainnet",
+      depositAddress,
+      expectedAmountRaw: parseEther("1").toString(),
+      expectedDecimals: 18,
+      status: "DETECTING",
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + 60 * 60 * 1000),
+      startBlockByNetwork: { polygon_mainnet: (await client().getBlockNumber()).toString() },
+      ...fields,
+    });
+  };
+
+  const read = async (collection: string, id: string) => (await db.collection(collection).doc(id).get()).data();
+  const cursor = async () => (await read("key_configs", cursorKey))?.lastProcessedBlock;
+
+  beforeAll(async () => {
+    anvil = await startAnvil({ port: 8548, chainId: 137 });
+    process.env.POLYGON_RPC_URL = anvil.rpcUrl;
+  }, 30_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "payment_intents",
+      "payment_intents_private",
+      "payment_intents_public",
+      "chain_txs_private",
+      "donations_private",
+      "campaign_stats",
+      "campaign_deposits",
+      "unattributed_deposits",
+      "key_configs",
+      "events",
+    ]);
+    processor = new IntentWatchProcessor();
+  });
+
+  it("resumes from the saved cursor and catches up a lagging range over several ticks", async () => {
+    await seedIntent("intent1");
+    const start = await client().getBlockNumber();
+    await db.collection("key_configs").doc(cursorKey).set({
+      type: "INDEX_STATE",
+      networkId: "polygon_mainnet",
+      lastProcessedBlock: start.toString(),
+    });
+
+    // More blocks than one tick walks, with the payment at the end
+    await testClient().mine({ blocks: 60 });
+    const txHash = await send(parseEther("1"));
+
+    await processor.tick();
+    expect(await cursor()).toBe((start + 50n).toString());
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toBeUndefined();
+
+    // A restarted worker picks up where the last one stopped
+    await new IntentWatchProcessor().tick();
+    expect(await cursor()).toBe((await client().getBlockNumber()).toString());
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toMatchObject({
+      intentId: "intent1",
+      amountRaw: parseEther("1").toString(),
+    });
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "CONFIRMING", txHash });
+  });
+
+  it("does not rescan blocks behind the cursor", async () => {
+    await seedIntent("intent1");
+    const early = await send(parseEther("1"));
+    await db.collection("key_configs").doc(cursorKey).set({
+      type: "INDEX_STATE",
+      networkId: "polygon_mainnet",
+      lastProcessedBlock: (await client().getBlockNumber()).toString(),
+    });
+
+    await processor.tick();
+
+    expect(await read("chain_txs_private", `polygon_mainnet_${early}`)).toBeUndefined();
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "DETECTING" });
+  });
+
+  it("confirms a detected transfer once it is confirmationsRequired deep", async () => {
+    await seedIntent("intent1");
+    const txHash = await send(parseEther("1"));
+
+    await processor.tick();
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toMatchObject({
+      status: "CONFIRMING",
+      confirmations: 1,
+    });
+
+    // Polygon needs 128 confirmations
+    await testClient().mine({ blocks: 127 });
+    await processor.tick();
+
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toMatchObject({
+      status: "CONFIRMED",
+      confirmations: 128,
+    });
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "CONFIRMED" });
+  });
+
+  it("rolls back a transfer a reorg dropped", async () => {
+    await seedIntent("intent1");
+    const snapshot = await testClient().snapshot();
+    const txHash = await send(parseEther("1"));
+
+    await processor.tick();
+    const seen = await read("chain_txs_private", `polygon_mainnet_${txHash}`);
+    expect(seen).toMatchObject({ status: "CONFIRMING", blockHash: expect.any(String) });
+    expect(await read("campaign_stats", "camp1")).toMatchObject({
+      totalsByAsset: { matic_polygon_mainnet_polygon_mainnet: parseEther("1").toString() },
+    });
+
+    // Replace the block with one that does not carry the payment
+    await testClient().revert({ id: snapshot });
+    await send(1n, "0x00000000000000000000000000000000000000e1");
+    expect((await client().getBlock({ blockNumber: BigInt(seen!.blockNumber) })).hash).not.toBe(seen!.blockHash);
+
+    await processor.tick();
+
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toMatchObject({ status: "REORGED" });
+    const intent = await read("payment_intents", "intent1");
+    expect(intent).toMatchObject({ status: "DETECTING" });
+    expect(intent?.receivedAmountRaw).toBeUndefined();
+    expect(await read("campaign_stats", "camp1")).toMatchObject({
+      totalsByAsset: { matic_polygon_mainnet_polygon_mainnet: "0" },
+    });
+    const donations = await db.collection("donations_private").where("txHash", "==", txHash).get();
+    expect(donations.empty).toBe(true);
+  });
+
+  it("keeps a transfer a reorg moved to another block", async () => {
+    await seedIntent("intent1");
+    const snapshot = await testClient().snapshot();
+
+    const serialized = await account().signTransaction({
+      to: depositAddress,
+      value: parseEther("1"),
+      chainId: anvil.chainId,
+      nonce: await client().getTransactionCount({ address: account().address }),
+      gas: 21_000n,
+      maxFeePerGas: parseUnits("10", 9),
+      maxPriorityFeePerGas: 1n,
+    });
+    const txHash = await mined(await wallet().sendRawTransaction({ serializedTransaction: serialized }));
+
+    await processor.tick();
+    const seen = await read("chain_txs_private", `polygon_mainnet_${txHash}`);
+
+    // Mined again one block later
+    await testClient().revert({ id: snapshot });
+    await testClient().mine({ blocks: 1 });
+    await mined(await wallet().sendRawTransaction({ serializedTransaction: serialized }));
+
+    await processor.tick();
+
+    const moved = await read("chain_txs_private", `polygon_mainnet_${txHash}`);
+    expect(moved).toMatchObject({ status: "CONFIRMING", blockNumber: (BigInt(seen!.blockNumber) + 1n).toString() });
+    expect(moved?.blockHash).not.toBe(seen!.blockHash);
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "CONFIRMING", txHash });
+  });
+
+  it("credits token transfers to intents expecting the token", async () => {
+    const { abi, bytecode } = artifact("MockERC20");
+    const deployHash = await wallet().deployContract({
+      abi,
+      bytecode,
+      args: ["Test USD", "TUSD", 6],
+      account: account(),
+      chain: null,
+    });
+    const token = (await client().waitForTransactionReceipt({ hash: deployHash })).contractAddress!;
+    await mined(
+      await wallet().writeContract({
+        address: token,
+        abi: MOCK_ERC20_ABI,
+        functionName: "mint",
+        args: [account().address, parseUnits("100", 6)],
+        account: account(),
+        chain: null,
+      })
+    );
+
+    await seedIntent("intent1", {
+      assetId: "usdc_polygon_mainnet",
+      expectedTokenAddress: token,
+      expectedAmountRaw: parseUnits("25", 6).toString(),
+      expectedDecimals: 6,
+    });
+    const txHash = await mined(
+      await wallet().writeContract({
+        address: token,
+        abi: MOCK_ERC20_ABI,
+        functionName: "transfer",
+        args: [depositAddress, parseUnits("25", 6)],
+        account: account(),
+        chain: null,
+      })
+    );
+
+    await processor.tick();
+
+    expect(await read("chain_txs_private", `polygon_mainnet_${txHash}`)).toMatchObject({
+      intentId: "intent1",
+      assetType: "ERC20",
+      tokenAddress: token.toLowerCase(),
+      amountRaw: parseUnits("25", 6).toString(),
+    });
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "CONFIRMING", resolution: "EXACT" });
+  });
+
+  it("picks up deposit addresses created after the first tick", async () => {
+    const campaignAddress = "0x00000000000000000000000000000000000000d2";
+    await processor.tick();
+
+    await db.collection("campaign_deposits").doc("camp2_matic_polygon_mainnet").set({
+      campaignId: "camp2",
+      assetId: "matic_polygon_mainnet",
+      networkId: "polygon_mainnet",
+      address: campaignAddress,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+    const txHash = await send(parseEther("0.3"), campaignAddress);
+    await processor.tick();
+
+    const parked = await db.collection("unattributed_deposits").where("txHash", "==", txHash).get();
+    expect(parked.docs.map((doc) => doc.data())).toEqual([
+      expect.objectContaining({
+        campaignId: "camp2",
+        depositRef: "camp2_matic_polygon_mainnet",
+        amountRaw: parseEther("0.3").toString(),
+      }),
+    ]);
+  });
+});
+
+describe("routeTransfer", () => {
+  const address = "0x00000000000000000000000000000000000000d1";
+  const token = "0x00000000000000000000000000000000000000c1";
+  const donor = "0x00000000000000000000000000000000000000a1";
+
+  const watched = (id: string, expected: bigint, fields: Partial<WatchedIntent> = {}): WatchedIntent => ({
+    ref: { id } as FirebaseFirestore.DocumentReference,
+    intent: { networkId: "polygon_mainnet", startBlockByNetwork: { polygon_mainnet: "100" } },
+    depositAddress: address,
+    expectedValue: expected,
+    expectedToken: null,
+    receivedValue: 0n,
+    senders: new Set(),
+    tolerance: DEFAULT_PAYMENT_TOLERANCE,
+    ...fields,
+  });
+
+  const native = (value: bigint, fields: Partial<FoundTransfer> = {}): FoundTransfer =>
+    ({
+      assetType: "NATIVE",
+      txHash: "0x01",
+      from: donor,
+      to: address,
+      value,
+      blockNumber: 150n,
+      blockHash: "0x02",
+      ...fields,
+    }) as FoundTransfer;
+
+  const route = (transfer: FoundTransfer, pending: WatchedIntent[], matched = new Set<string>()) =>
+    routeTransfer(transfer, "polygon_mainnet", pending, matched)?.ref.id ?? null;
+
+  it("prefers an exact match, even in another asset", () => {
+    const tokenIntent = watched("token", 1_000_000n, { expectedToken: token, intent: { networkId: "ethereum_mainnet" } });
+    const nativeIntent = watched("native", 990_000n);
+
+    expect(route(native(1_000_000n), [nativeIntent, tokenIntent])).toBe("token");
+  });
+
+  it("routes a top-up to the intent the same sender already paid into", () => {
+    const first = watched("first", 1_000_000n, { receivedValue: 600_000n, senders: new Set([donor]) });
+    const other = watched("other", 450_000n);
+
+    expect(route(native(400_000n), [other, first])).toBe("first");
+  });
+
+  it("picks the intent the transfer brings closest to its expected amount", () => {
+    const far = watched("far", 950_000n);
+    const close = watched("close", 1_005_000n);
+
+    expect(route(native(1_000_000n), [far, close])).toBe("close");
+  });
+
+  it("falls back to the only intent in the asset when no total is in band", () => {
+    const only = watched("only", 1_000_000n);
+
+    expect(route(native(300_000n), [only])).toBe("only");
+    expect(route(native(300_000n), [only, watched("second", 2_000_000n)])).toBeNull();
+  });
+
+  it("skips matched intents, other addresses, other tokens and blocks before the intent", () => {
+    const intent = watched("intent", 1_000_000n);
+
+    expect(route(native(1_000_000n), [intent], new Set(["intent"]))).toBeNull();
+    expect(route(native(1_000_000n, { to: "0x00000000000000000000000000000000000000d2" }), [intent])).toBeNull();
+    expect(route(native(1_000_000n, { blockNumber: 99n }), [intent])).toBeNull();
+
+    const tokenTransfer = { ...native(500_000n), assetType: "ERC20", token } as FoundTransfer;
+    expect(route(tokenTransfer, [intent])).toBeNull();
+  });
+});
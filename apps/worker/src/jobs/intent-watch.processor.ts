@@ -2,15 +2,71 @@
  * Intent Watch Processor
  * 
  * Server-side auto-detection of incoming crypto payments across all enabled EVM chains.
- * Scans for exact amount matches to prevent replay attacks and ensure accurate detection.
+ * Each network is walked once per block from a shared cursor (key_configs,
+ * INDEX_STATE); transfers to watched deposit addresses are routed to pending
+ * intents by exact amount match, which also prevents replay attacks. Transfers
+ * that miss the exact amount are credited towards the intent they fit (see
+ * routeTransfer) and classified against the asset's tolerance band: partial
+ * payments leave the intent in MISMATCH waiting for a top-up.
+ * Every campaign deposit address is indexed, not just those with a pending
+ * intent: transfers no intent claims are parked in unattributed_deposits for
+ * an admin to resolve.
+ * Detected txs are re-verified against the canonical chain until they reach
+ * the network's confirmationsRequired depth; reorged-out txs are rolled back.
  */
 
 import { getFirestore, Timestamp } from "firebase-admin/firestore";
 import * as admin from "firebase-admin";
-import { createPublicClient, http, Chain } from "viem";
-import { getEnabledNetworks, CryptoNetwork, getAsset, maskTxHash } from "@opencause/crypto-core";
-import { scanErc20Exact } from "../evm/scanErc20";
-import { scanNativeExact } from "../evm/scanNative";
+import {
+  createPublicClient,
+  http,
+  Chain,
+  PublicClient,
+  TransactionReceipt,
+  TransactionReceiptNotFoundError,
+} from "viem";
+import {
+  getEnabledNetworks,
+  getNetwork,
+  CryptoNetwork,
+  getAssetsByNetwork,
+  CryptoAsset,
+  PaymentTolerance,
+  PaymentResolution,
+  getPaymentTolerance,
+  isWithinTolerance,
+} from "@opencause/crypto-core";
+import {
+  CampaignDepositDoc,
+  ChainTxPrivateDoc,
+  FirestoreRepository,
+  UnattributedDepositDoc,
+} from "@opencause/firebase";
+import { scanErc20Transfers, Erc20Transfer } from "../evm/scanErc20";
+import { scanNativeTransfers, NativeTransfer } from "../evm/scanNative";
+import { getGasStationAddress } from "../evm/sweep";
+import {
+  acceptUnderpaid,
+  confirmIntentIfSettled,
+  creditIntentTransfer,
+  CreditedTransfer,
+  fetchRates,
+  formatUnits,
+  rollbackCreditedTx,
+  releaseIntentAddress,
+} from "../services/intent-ledger";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Blocks walked per network per tick; a lagging cursor catches up over several ticks
+const MAX_BLOCKS_PER_TICK = BigInt(process.env.INTENT_WATCH_MAX_BLOCKS || "50");
+
+// Campaign deposits are read in full this often; ticks in between only read
+// the docs created since the last read
+const DEPOSITS_FULL_RELOAD_MS = parseInt(process.env.INTENT_WATCH_DEPOSITS_RELOAD_MS || "1800000");
+// createdAt may be a server timestamp written just before an earlier read
+// committed, so each incremental read reaches back this far
+const DEPOSITS_READ_OVERLAP_MS = 5 * 60 * 1000;
 
 interface NetworkConfig {
   id: string;
@@ -20,10 +76,83 @@ interface NetworkConfig {
   viemChain: Chain;
 }
 
+export interface WatchedIntent {
+  ref: FirebaseFirestore.DocumentReference;
+  intent: any;
+  depositAddress: string; // lowercase
+  expectedValue: bigint;
+  expectedToken: string | null; // lowercase, null for native
+  receivedValue: bigint; // Credited so far (partial payments)
+  senders: Set<string>; // lowercase
+  tolerance: PaymentTolerance;
+}
+
+interface KnownDeposit {
+  id: string; // campaign_deposits docId
+  campaignId: string;
+  assetId: string;
+}
+
+export type FoundTransfer =
+  | (Erc20Transfer & { assetType: "ERC20" })
+  | (NativeTransfer & { assetType: "NATIVE"; token?: undefined });
+
+/**
+ * Pick the intent a transfer pays. An exact amount match on an intent with
+ * nothing received yet wins, even in another asset. Otherwise the transfer
+ * must be in the intent's own asset and network, and goes to (in order) an
+ * intent the same sender already paid into, the intent whose running total
+ * it brings closest to the expected amount within tolerance, or the only
+ * such intent at the address.
+ */
+export function routeTransfer(
+  transfer: FoundTransfer,
+  networkId: string,
+  pending: WatchedIntent[],
+  matched: Set<string>
+): WatchedIntent | null {
+  const candidates = pending.filter((w) => {
+    if (matched.has(w.ref.id) || w.depositAddress !== transfer.to) return false;
+    const startBlock = w.intent.startBlockByNetwork?.[networkId];
+    return !startBlock || transfer.blockNumber >= BigInt(startBlock);
+  });
+
+  const exact = candidates.find(
+    (w) =>
+      w.receivedValue === 0n &&
+      w.expectedValue === transfer.value &&
+      (transfer.assetType === "NATIVE" || w.expectedToken === transfer.token)
+  );
+  if (exact) return exact;
+
+  const sameAsset = candidates.filter(
+    (w) => w.intent.networkId === networkId && w.expectedToken === (transfer.token ?? null)
+  );
+
+  const from = transfer.from.toLowerCase();
+  const topUp = sameAsset.find((w) => w.receivedValue > 0n && w.senders.has(from));
+  if (topUp) return topUp;
+
+  const distance = (w: WatchedIntent) => {
+    const diff = w.receivedValue + transfer.value - w.expectedValue;
+    return diff < 0n ? -diff : diff;
+  };
+  const inBand = sameAsset
+    .filter((w) => isWithinTolerance(w.expectedValue, w.receivedValue + transfer.value, w.tolerance))
+    .sort((a, b) => (distance(a) < distance(b) ? -1 : distance(a) > distance(b) ? 1 : 0));
+  if (inBand.length > 0) return inBand[0];
+
+  return sameAsset.length === 1 ? sameAsset[0] : null;
+}
+
 export class IntentWatchProcessor {
   private db = getFirestore();
+  private repo = new FirestoreRepository(this.db);
   private networkConfigs: Map<string, NetworkConfig> = new Map();
   private rpcUrlCache: Map<string, string> = new Map();
+  private knownDeposits: Map<string, KnownDeposit & { networkId: string; address: string }> = new Map();
+  private depositsFullReadAt = 0;
+  private depositsReadAt = 0;
 
   constructor() {
     this.initializeNetworkConfigs();
@@ -93,22 +222,26 @@ export class IntentWatchProcessor {
     try {
       const intentsSnap = await this.db
         .collection("payment_intents")
-        .where("status", "in", ["CREATED", "DETECTING", "CONFIRMING"])
-        .limit(50)
+        .where("status", "in", ["CREATED", "DETECTING", "MISMATCH"])
         .get();
 
-      console.log(`[IntentWatch] Scanning ${intentsSnap.size} pending intents...`);
-
+      const watched: WatchedIntent[] = [];
       for (const doc of intentsSnap.docs) {
         const intent = doc.data() as any;
         const intentId = doc.id;
 
-        // Check expiration
+        // Check expiration; a partial payment nobody topped up is kept as a smaller donation
         if (intent.expiresAt?.toMillis?.() && intent.expiresAt.toMillis() < now) {
+          if (intent.status === "MISMATCH" && BigInt(intent.receivedAmountRaw || "0") > 0n) {
+            await acceptUnderpaid(this.db, doc.ref);
+            console.log(`[IntentWatch] Intent ${intentId} expired partially paid; accepted as a smaller donation`);
+            continue;
+          }
           await doc.ref.update({
             status: "EXPIRED",
             updatedAt: Timestamp.now(),
           });
+          await releaseIntentAddress(this.db, intentId, intent.depositRef);
           console.log(`[IntentWatch] Intent ${intentId} expired`);
           continue;
         }
@@ -118,176 +251,300 @@ export class IntentWatchProcessor {
           console.warn(`[IntentWatch] Intent ${intentId} missing expectedAmountRaw, skipping`);
           continue;
         }
+        if (!intent.depositAddress) {
+          console.warn(`[IntentWatch] Intent ${intentId} missing depositAddress`);
+          continue;
+        }
 
-        await this.detectEvmAcrossChains(doc.ref, intent);
+        if (intent.status === "CREATED") {
+          await doc.ref.update({
+            status: "DETECTING",
+            updatedAt: Timestamp.now(),
+          });
+        }
+
+        const expectedTokenAddress = intent.expectedTokenAddress?.toLowerCase();
+        watched.push({
+          ref: doc.ref,
+          intent,
+          depositAddress: intent.depositAddress.toLowerCase(),
+          expectedValue: BigInt(intent.expectedAmountRaw),
+          expectedToken: expectedTokenAddress && expectedTokenAddress !== ZERO_ADDRESS ? expectedTokenAddress : null,
+          receivedValue: BigInt(intent.receivedAmountRaw || "0"),
+          senders: new Set<string>(intent.senderAddresses || []),
+          tolerance: getPaymentTolerance(intent.assetId),
+        });
+      }
+
+      console.log(`[IntentWatch] Watching ${watched.length} pending intents...`);
+
+      const deposits = await this.loadDeposits();
+
+      // Intents settled on one network are not matched again on another
+      const matched = new Set<string>();
+      for (const [networkId, netConfig] of this.networkConfigs.entries()) {
+        try {
+          await this.indexNetwork(networkId, netConfig, watched, matched, deposits.get(networkId) || new Map());
+        } catch (error: any) {
+          // Cursor stays put; the same range is retried next tick
+          if (!error.message?.includes("rate limit") && !error.message?.includes("timeout")) {
+            console.warn(`[IntentWatch] Error indexing ${networkId}:`, error.message);
+          }
+        }
       }
+
+      await this.trackConfirmations();
     } catch (error: any) {
       console.error("[IntentWatch] Error in tick:", error);
     }
   }
 
-  private async detectEvmAcrossChains(intentRef: FirebaseFirestore.DocumentReference, intent: any) {
-    const depositAddress = (intent.depositAddress || "").toLowerCase();
-    if (!depositAddress) {
-      console.warn(`[IntentWatch] Intent ${intentRef.id} missing depositAddress`);
-      return;
+  /**
+   * Campaign deposit addresses per network (lowercase address -> deposits;
+   * one address may serve several assets). Deposit docs are cached across
+   * ticks: a tick reads only the docs created since the previous one, with a
+   * full re-read every DEPOSITS_FULL_RELOAD_MS.
+   */
+  private async loadDeposits(): Promise<Map<string, Map<string, KnownDeposit[]>>> {
+    const now = Date.now();
+    const networkIds = [...this.networkConfigs.keys()];
+    const deposits = this.db.collection("campaign_deposits");
+
+    if (networkIds.length > 0) {
+      if (now - this.depositsFullReadAt >= DEPOSITS_FULL_RELOAD_MS) {
+        const snapshot = await deposits.where("networkId", "in", networkIds).get();
+        this.knownDeposits.clear();
+        snapshot.docs.forEach((doc) => this.cacheDeposit(doc));
+        this.depositsFullReadAt = now;
+      } else {
+        const snapshot = await deposits
+          .where("createdAt", ">=", Timestamp.fromMillis(this.depositsReadAt - DEPOSITS_READ_OVERLAP_MS))
+          .get();
+        snapshot.docs.forEach((doc) => this.cacheDeposit(doc));
+      }
+      this.depositsReadAt = now;
     }
 
-    const expectedValue = BigInt(intent.expectedAmountRaw);
-    const expectedTokenAddress = intent.expectedTokenAddress;
-    const isErc20 = !!expectedTokenAddress && expectedTokenAddress !== "0x0000000000000000000000000000000000000000";
-
-    // Update status to DETECTING if not already
-    if (intent.status !== "DETECTING") {
-      await intentRef.update({
-        status: "DETECTING",
-        updatedAt: Timestamp.now(),
-      });
+    const byNetwork = new Map<string, Map<string, KnownDeposit[]>>();
+    for (const { networkId, address, ...deposit } of this.knownDeposits.values()) {
+      const addresses = byNetwork.get(networkId) || new Map<string, KnownDeposit[]>();
+      addresses.set(address, [...(addresses.get(address) || []), deposit]);
+      byNetwork.set(networkId, addresses);
     }
+    return byNetwork;
+  }
 
-    // Scan all enabled EVM networks
-    for (const [networkId, netConfig] of this.networkConfigs.entries()) {
-      try {
-        // Normalize token address for comparison (case-insensitive)
-        const normalizedExpectedToken = expectedTokenAddress?.toLowerCase();
-        
-        const client = createPublicClient({
-          transport: http(netConfig.rpcUrl),
-          chain: netConfig.viemChain,
-        });
-
-        const latest = await client.getBlockNumber();
-        const startBlockByNetwork = intent.startBlockByNetwork || {};
-        const lastScannedBlockByNetwork = intent.lastScannedBlockByNetwork || {};
+  private cacheDeposit(doc: FirebaseFirestore.QueryDocumentSnapshot) {
+    const deposit = doc.data() as CampaignDepositDoc;
+    if (!deposit.address || !this.networkConfigs.has(deposit.networkId)) return;
+    this.knownDeposits.set(doc.id, {
+      id: doc.id,
+      campaignId: deposit.campaignId,
+      assetId: deposit.assetId,
+      networkId: deposit.networkId,
+      address: deposit.address.toLowerCase(),
+    });
+  }
 
-        const start = BigInt(startBlockByNetwork[networkId] || latest.toString());
-        let last = BigInt(lastScannedBlockByNetwork[networkId] || start.toString());
+  /**
+   * Walk the network from its cursor (at most MAX_BLOCKS_PER_TICK blocks),
+   * collect native and token transfers to every known deposit address, and
+   * credit each to the intent it pays; the rest are recorded as unattributed.
+   * The cursor only advances once the whole range has been scanned.
+   */
+  private async indexNetwork(
+    networkId: string,
+    netConfig: NetworkConfig,
+    watched: WatchedIntent[],
+    matched: Set<string>,
+    deposits: Map<string, KnownDeposit[]>
+  ) {
+    const cursorKey = `intent_index_${networkId}`;
+    const client = createPublicClient({
+      transport: http(netConfig.rpcUrl),
+      chain: netConfig.viemChain,
+    });
+
+    const latest = await client.getBlockNumber();
+    const pending = watched.filter((w) => !matched.has(w.ref.id));
+
+    // Nothing to watch: keep the cursor at the tip so new intents start there
+    if (pending.length === 0 && deposits.size === 0) {
+      await this.saveCursor(cursorKey, networkId, latest);
+      return;
+    }
 
-        // Scan small window each tick (40 blocks) to avoid RPC abuse
-        const fromBlock = last;
-        const scanWindow = 40n;
-        const toBlock = last + scanWindow > latest ? latest : last + scanWindow;
+    const cursor = await this.repo.getKeyConfig(cursorKey);
+    let fromBlock = cursor?.lastProcessedBlock ? BigInt(cursor.lastProcessedBlock) + 1n : null;
+
+    // Blocks before the oldest watched intent was created can't hold its
+    // payment; with deposit addresses to record, no block past the cursor is skipped
+    const startBlocks = pending
+      .map((w) => w.intent.startBlockByNetwork?.[networkId])
+      .filter((block): block is string => !!block)
+      .map((block) => BigInt(block));
+    if (startBlocks.length > 0 && startBlocks.length === pending.length) {
+      const oldestStart = startBlocks.reduce((min, block) => (block < min ? block : min));
+      if (fromBlock === null || (deposits.size === 0 && oldestStart > fromBlock)) fromBlock = oldestStart;
+    }
+    fromBlock ??= latest;
+
+    if (fromBlock > latest) return;
+    const toBlock = fromBlock + MAX_BLOCKS_PER_TICK - 1n < latest ? fromBlock + MAX_BLOCKS_PER_TICK - 1n : latest;
+
+    const addresses = new Set([...pending.map((w) => w.depositAddress), ...deposits.keys()]);
+    const tokens = new Set(
+      [
+        ...pending.map((w) => w.expectedToken),
+        ...getAssetsByNetwork(networkId).map((asset) => asset.contractAddress?.toLowerCase()),
+      ].filter((token): token is string => !!token)
+    );
+
+    const tokenTransfers = await scanErc20Transfers({
+      client,
+      tokens: [...tokens],
+      addresses: [...addresses],
+      fromBlock,
+      toBlock,
+    });
+    // Gas the sweeper sends to token deposit addresses is not a donation
+    const gasStation = getGasStationAddress();
+    const nativeTransfers = (await scanNativeTransfers({ client, addresses, fromBlock, toBlock })).filter(
+      (transfer) => transfer.from.toLowerCase() !== gasStation
+    );
+
+    // Expected-token matches first; a native transfer of the exact amount is
+    // still accepted (wrong asset but still "good")
+    const transfers: FoundTransfer[] = [
+      ...tokenTransfers.map((t) => ({ ...t, assetType: "ERC20" as const })),
+      ...nativeTransfers.map((t) => ({ ...t, assetType: "NATIVE" as const })),
+    ];
+
+    for (const transfer of transfers) {
+      const target = routeTransfer(transfer, networkId, pending, matched);
+      if (!target) {
+        const known = deposits.get(transfer.to);
+        if (known) await this.recordUnattributed(client, networkId, transfer, known);
+        continue;
+      }
 
-        if (fromBlock > latest) {
-          // Already scanned past latest, skip
-          continue;
-        }
+      console.log(
+        `[IntentWatch] Found transaction ${transfer.txHash} on ${networkId} for intent ${target.ref.id}`
+      );
+      const resolution = await this.recordFoundTxAndConfirm(target.ref, target.intent, networkId, netConfig, {
+        txHash: transfer.txHash,
+        from: transfer.from,
+        value: transfer.value,
+        assetType: transfer.assetType,
+        token: transfer.assetType === "ERC20" ? transfer.token : undefined,
+        blockNumber: transfer.blockNumber.toString(),
+        blockHash: transfer.blockHash,
+      });
+      if (!resolution) continue;
 
-        let found: {
-          txHash: `0x${string}`;
-          value: bigint;
-          assetType: "NATIVE" | "ERC20";
-          token?: string;
-          blockNumber?: string;
-        } | null = null;
-
-        // 1) If expected asset is ERC20/BEP20, try that first
-        if (isErc20 && expectedTokenAddress) {
-          // Normalize addresses for comparison (case-insensitive)
-          const normalizedToken = expectedTokenAddress.toLowerCase() as `0x${string}`;
-          const normalizedDeposit = depositAddress.toLowerCase() as `0x${string}`;
-          
-          console.log(
-            `[IntentWatch] Scanning ERC20/BEP20 on ${networkId}: token=${normalizedToken}, deposit=${normalizedDeposit}, expectedValue=${expectedValue.toString()}, blocks=${fromBlock.toString()}-${toBlock.toString()}`
-          );
-          
-          const result = await scanErc20Exact({
-            client,
-            tokenAddress: normalizedToken,
-            toAddress: normalizedDeposit,
-            fromBlock,
-            toBlock,
-            expectedValue,
-          });
-          if (result) {
-            found = {
-              txHash: result.txHash,
-              value: result.value,
-              assetType: "ERC20",
-              token: normalizedToken,
-              blockNumber: result.blockNumber,
-            };
-            console.log(`[IntentWatch] ✅ Found ERC20/BEP20 transaction on ${networkId}: ${result.txHash}, value=${result.value.toString()}`);
-          } else {
-            console.log(`[IntentWatch] No ERC20/BEP20 match on ${networkId} in blocks ${fromBlock.toString()}-${toBlock.toString()}`);
-          }
-        }
+      target.receivedValue += transfer.value;
+      target.senders.add(transfer.from.toLowerCase());
+      if (resolution !== "PARTIAL") matched.add(target.ref.id);
+    }
 
-        // 2) Also detect native (wrong asset but still "good")
-        if (!found) {
-          const result = await scanNativeExact({
-            client,
-            toAddress: depositAddress,
-            fromBlock,
-            toBlock,
-            expectedValue,
-          });
-          if (result) {
-            found = {
-              txHash: result.txHash,
-              value: result.value,
-              assetType: "NATIVE",
-              blockNumber: result.blockNumber,
-            };
-          }
-        }
+    await this.saveCursor(cursorKey, networkId, toBlock);
+    console.log(
+      `[IntentWatch] Indexed ${networkId} blocks ${fromBlock}-${toBlock} for ${addresses.size} deposit addresses`
+    );
+  }
 
-        // Advance cursor
-        await intentRef.update({
-          lastScannedBlockByNetwork: {
-            ...lastScannedBlockByNetwork,
-            [networkId]: toBlock.toString(),
-          },
-          updatedAt: Timestamp.now(),
-        });
+  /**
+   * Park a transfer no pending intent claimed (sent after its intent expired,
+   * or without one) for an admin to attach, record or return. Transfers
+   * already credited to an intent are left alone when a range is rescanned.
+   */
+  private async recordUnattributed(
+    client: PublicClient,
+    networkId: string,
+    transfer: FoundTransfer,
+    deposits: KnownDeposit[]
+  ) {
+    const asset = this.assetForTransfer(networkId, transfer);
+    const deposit = deposits.find((d) => d.assetId === asset?.assetId) || deposits[0];
+    const assetSymbol = asset?.symbol || (transfer.assetType === "ERC20" ? "TOKEN" : "ETH");
+    const decimals = asset?.decimals ?? 18;
+
+    // Same id as the donation it may become
+    const depositDocId = `${networkId}_${transfer.txHash}_${transfer.to}_${transfer.token || assetSymbol.toLowerCase()}`;
+    const depositRef = this.db.collection("unattributed_deposits").doc(depositDocId);
+    const txRef = this.db.collection("chain_txs_private").doc(`${networkId}_${transfer.txHash}`);
+
+    const block = await client.getBlock({ blockNumber: transfer.blockNumber }).catch(() => null);
+    const now = admin.firestore.Timestamp.now();
+    const record: UnattributedDepositDoc = {
+      networkId,
+      txHash: transfer.txHash,
+      from: transfer.from?.toLowerCase() || null,
+      to: transfer.to,
+      depositRef: deposit.id,
+      campaignId: deposit.campaignId,
+      assetId: asset?.assetId || null,
+      assetType: transfer.assetType,
+      tokenAddress: transfer.token ?? null,
+      amountRaw: transfer.value.toString(),
+      amountNative: formatUnits(transfer.value, decimals),
+      decimals,
+      blockNumber: transfer.blockNumber.toString(),
+      blockHash: transfer.blockHash,
+      blockTimestamp: block ? admin.firestore.Timestamp.fromMillis(Number(block.timestamp) * 1000) : null,
+      confirmations: 0,
+      status: "CONFIRMING",
+      confirmedAt: null,
+      usdRateAtConfirm: null,
+      inrRateAtConfirm: null,
+      resolution: null,
+      createdAt: now,
+      updatedAt: now,
+    };
 
-        if (found) {
-          console.log(
-            `[IntentWatch] Found transaction ${found.txHash} on ${networkId} for intent ${intentRef.id}`
-          );
-          await this.recordFoundTxAndConfirm(intentRef, intent, networkId, netConfig, found);
-          return; // Stop after first match across chains
-        }
-      } catch (error: any) {
-        // Log error but continue scanning other networks
-        if (!error.message?.includes("rate limit") && !error.message?.includes("timeout")) {
-          console.warn(`[IntentWatch] Error scanning ${networkId} for intent ${intentRef.id}:`, error.message);
-        }
-      }
+    const recorded = await this.db.runTransaction(async (t) => {
+      const [existing, chainTx] = await Promise.all([t.get(depositRef), t.get(txRef)]);
+      if (existing.exists && existing.get("status") !== "REORGED") return false;
+      if (chainTx.exists && chainTx.get("status") !== "REORGED") return false;
+      t.set(depositRef, record);
+      return true;
+    });
+
+    if (recorded) {
+      console.log(
+        `[IntentWatch] Unattributed ${record.amountNative} ${assetSymbol} to ${transfer.to} on ${networkId} (${transfer.txHash})`
+      );
     }
   }
 
+  private assetForTransfer(networkId: string, transfer: FoundTransfer): CryptoAsset | undefined {
+    return getAssetsByNetwork(networkId).find((asset) =>
+      transfer.assetType === "ERC20"
+        ? asset.contractAddress?.toLowerCase() === transfer.token
+        : asset.assetType === "NATIVE"
+    );
+  }
+
+  private async saveCursor(cursorKey: string, networkId: string, block: bigint) {
+    await this.repo.updateKeyConfig(cursorKey, {
+      type: "INDEX_STATE",
+      networkId,
+      lastProcessedBlock: block.toString(),
+    });
+  }
+
+  /**
+   * Credit a transfer to the intent it pays, stamped with its block's time
+   */
   private async recordFoundTxAndConfirm(
     intentRef: FirebaseFirestore.DocumentReference,
     intent: any,
     networkId: string,
     netConfig: NetworkConfig,
-    found: {
-      txHash: `0x${string}`;
-      value: bigint;
-      assetType: "NATIVE" | "ERC20";
-      token?: string;
-      blockNumber?: string;
-    }
-  ) {
-    const txDocId = `${networkId}_${found.txHash}`;
-    const txRef = this.db.collection("chain_txs_private").doc(txDocId);
-
-    // Get decimals and asset info
-    const decimals = intent.expectedDecimals || 18;
-    const assetId = intent.assetId || this.inferAssetId(networkId, found);
-    const asset = assetId ? getAsset(assetId) : null;
-    const assetSymbol = asset?.symbol || (found.assetType === "ERC20" ? "TOKEN" : "ETH");
-    
-    // Format amount in native units
-    const amountNative = this.formatUnits(found.value, decimals);
-    
-    // Get block timestamp from chain
+    found: CreditedTransfer
+  ): Promise<PaymentResolution | null> {
     let blockTimestamp: admin.firestore.Timestamp | null = null;
-    let blockNumberStr: string | null = null;
-    
     if (found.blockNumber) {
-      blockNumberStr = found.blockNumber.toString();
       try {
         const client = createPublicClient({
           transport: http(netConfig.rpcUrl),
@@ -302,175 +559,157 @@ export class IntentWatchProcessor {
       }
     }
 
-    // Use block timestamp if available, otherwise use now
-    const createdAt = blockTimestamp || admin.firestore.Timestamp.now();
-
-    // Get intent private data for donor info
-    const intentPrivateRef = this.db.collection("payment_intents_private").doc(intentRef.id);
-    const intentPrivateSnap = await intentPrivateRef.get();
-    const intentPrivate = intentPrivateSnap.exists ? intentPrivateSnap.data() : null;
-    
-    const isAnonymous = intentPrivate?.isAnonymous || false;
-    const donorLabel = intentPrivate?.donorName || (isAnonymous ? "Anonymous" : "Anonymous");
-    const donorUid = intentPrivate?.donorUid || null;
+    return creditIntentTransfer(this.db, {
+      intentRef,
+      intent,
+      networkId,
+      explorerBaseUrl: netConfig.explorerBaseUrl,
+      transfer: { ...found, blockTimestamp },
+    });
+  }
 
-    // Create deterministic donationId
-    const toAddressLower = (intent.depositAddress || "").toLowerCase();
-    const tokenAddrOrSymbol = found.token?.toLowerCase() || assetSymbol.toLowerCase();
-    const donationId = `${networkId}_${found.txHash}_${toAddressLower}_${tokenAddrOrSymbol}`;
+  /**
+   * Re-verify detected transactions (and unattributed deposits) until they
+   * are confirmationsRequired deep. A tx whose receipt is gone and whose block
+   * was replaced was dropped by a reorg and is rolled back; one mined again in
+   * another block moves there.
+   */
+  private async trackConfirmations() {
+    const [txSnapshot, depositSnapshot] = await Promise.all([
+      this.db.collection("chain_txs_private").where("status", "in", ["SEEN", "CONFIRMING"]).get(),
+      this.db.collection("unattributed_deposits").where("status", "==", "CONFIRMING").get(),
+    ]);
+
+    const byNetwork = new Map<string, FirebaseFirestore.QueryDocumentSnapshot[]>();
+    for (const doc of [...txSnapshot.docs, ...depositSnapshot.docs]) {
+      const networkId = doc.get("networkId") as string;
+      byNetwork.set(networkId, [...(byNetwork.get(networkId) || []), doc]);
+    }
 
-    const explorerTxUrl = `${netConfig.explorerBaseUrl}/tx/${found.txHash}`;
+    for (const [networkId, docs] of byNetwork.entries()) {
+      const netConfig = this.networkConfigs.get(networkId);
+      if (!netConfig) continue;
+      const required = getNetwork(networkId)?.confirmationsRequired ?? 12;
 
-    try {
-      await this.db.runTransaction(async (t) => {
-        // Check if chain_tx already exists
-        const txExists = await t.get(txRef);
-        if (txExists.exists) {
-          console.log(`[IntentWatch] Transaction ${found.txHash} already recorded, skipping`);
-          return;
+      try {
+        const client = createPublicClient({
+          transport: http(netConfig.rpcUrl),
+          chain: netConfig.viemChain,
+        });
+        const latest = await client.getBlockNumber();
+        for (const doc of docs) {
+          if (doc.ref.parent.id === "unattributed_deposits") {
+            await this.verifyUnattributed(client, doc, latest, required);
+          } else {
+            await this.verifyInclusion(client, doc, latest, required);
+          }
         }
-
-        // Check if donation already exists (deterministic ID prevents duplicates)
-        const donationPublicRef = this.db
-          .collection("donations_public")
-          .doc(intent.campaignId)
-          .collection("items")
-          .doc(donationId);
-        const donationExists = await t.get(donationPublicRef);
-        if (donationExists.exists) {
-          console.log(`[IntentWatch] Donation ${donationId} already exists, skipping`);
-          return;
+      } catch (error: any) {
+        if (!error.message?.includes("rate limit") && !error.message?.includes("timeout")) {
+          console.warn(`[IntentWatch] Error tracking confirmations on ${networkId}:`, error.message);
         }
+      }
+    }
+  }
 
-        // Create chain_tx_private record
-        t.set(
-          txRef,
-          {
-            networkId,
-            txHash: found.txHash,
-            to: intent.depositAddress,
-            from: null, // Could be fetched from receipt if needed
-            amountRaw: found.value.toString(),
-            amountNative,
-            assetType: found.assetType,
-            tokenAddress: found.token ?? null,
-            blockNumber: blockNumberStr,
-            confirmations: 0,
-            status: "SEEN",
-            explorerUrl: explorerTxUrl,
-            intentId: intentRef.id,
-            createdAt: createdAt,
-            updatedAt: admin.firestore.Timestamp.now(),
-          }
-        );
-
-        // Create donation_private record
-        const donationPrivateRef = this.db.collection("donations_private").doc(donationId);
-        t.set(donationPrivateRef, {
-          donationId,
-          campaignId: intent.campaignId,
-          donorUid,
-          donorName: intentPrivate?.donorName || null,
-          donorEmail: null, // Not stored for privacy
-          isAnonymous,
-          txHash: found.txHash,
-          fullExplorerUrl: explorerTxUrl,
-          networkId,
-          assetId: assetId || "unknown",
-          assetSymbol,
-          assetType: found.assetType,
-          rawAmount: found.value.toString(),
-          decimals,
-          tokenAddress: found.token ?? null,
-          amountNative,
-          inrAtConfirm: null, // Will be computed by price service
-          usdAtConfirm: null,
-          priceAtConfirm: null,
-          blockNumber: blockNumberStr,
-          confirmations: 0,
-          createdAt: createdAt,
-        });
+  /**
+   * The tx's receipt, the hash of the block that replaced the one it was seen
+   * in if it was reorged out, or null while neither can be told
+   */
+  private async checkInclusion(
+    client: PublicClient,
+    tx: { txHash: string; blockNumber?: string | null; blockHash?: string | null }
+  ): Promise<{ receipt: TransactionReceipt } | { replacedBy: string } | null> {
+    const receipt = await client
+      .getTransactionReceipt({ hash: tx.txHash as `0x${string}` })
+      .catch((error) => {
+        if (error instanceof TransactionReceiptNotFoundError) return null;
+        throw error;
+      });
+    if (receipt) return { receipt };
 
-        // Create donation_public record (anonymous-safe)
-        const donationPublicData: any = {
-          donationId,
-          campaignId: intent.campaignId,
-          type: "CRYPTO",
-          donorLabel,
-          isAnonymous,
-          assetSymbol,
-          networkId,
-          amountNative,
-          amountRaw: found.value.toString(),
-          decimals,
-          verified: true,
-          verifiedOnChain: true,
-          createdAt: createdAt,
-          blockTimestamp: blockTimestamp,
-          blockNumber: blockNumberStr,
-          updatedAt: admin.firestore.Timestamp.now(),
-        };
-
-        // Only include explorer info if NOT anonymous
-        if (!isAnonymous) {
-          donationPublicData.txHashMasked = maskTxHash(found.txHash);
-          donationPublicData.explorerUrl = explorerTxUrl;
-        } else {
-          donationPublicData.txHashPrivateRef = donationId; // Reference to private doc for audit
-        }
+    // A lagging node may not have the receipt; only a replaced block proves a reorg
+    if (!tx.blockHash || !tx.blockNumber) return null;
+    const block = await client.getBlock({ blockNumber: BigInt(tx.blockNumber) }).catch(() => null);
+    if (!block || block.hash === tx.blockHash) return null;
+    return { replacedBy: block.hash as string };
+  }
 
-        t.set(donationPublicRef, donationPublicData);
-
-        // Update intent with detection result
-        t.update(intentRef, {
-          status: "CONFIRMING",
-          confirmedTxHash: found.txHash,
-          txHash: found.txHash,
-          detectedNetworkId: networkId,
-          detectedAssetType: found.assetType,
-          detectedTokenAddress: found.token ?? null,
-          detectedAmountRaw: found.value.toString(),
-          detectedAmountNative: amountNative,
-          updatedAt: admin.firestore.Timestamp.now(),
-        });
+  private async verifyInclusion(
+    client: PublicClient,
+    doc: FirebaseFirestore.QueryDocumentSnapshot,
+    latest: bigint,
+    required: number
+  ) {
+    const tx = doc.data() as ChainTxPrivateDoc;
+    const inclusion = await this.checkInclusion(client, tx);
+    if (!inclusion) return;
+    if ("replacedBy" in inclusion) {
+      await rollbackCreditedTx(this.db, doc.ref, { canonicalBlockHash: inclusion.replacedBy });
+      return;
+    }
+    const { receipt } = inclusion;
 
-        // Update intent public
-        const intentPublicRef = this.db.collection("payment_intents_public").doc(intentRef.id);
-        t.update(intentPublicRef, {
-          status: "CONFIRMING",
-          detectedNetworkId: networkId,
-          detectedAssetSymbol: assetSymbol,
-          detectedAmountNative: amountNative,
-          explorerUrl: !isAnonymous ? explorerTxUrl : undefined,
-          txHashMasked: !isAnonymous ? maskTxHash(found.txHash) : undefined,
-          updatedAt: admin.firestore.Timestamp.now(),
-        });
-      });
+    if (tx.blockHash && tx.blockHash !== receipt.blockHash) {
+      console.log(
+        `[IntentWatch] ${tx.txHash} on ${tx.networkId} re-included in block ${receipt.blockNumber} after a reorg`
+      );
+    }
 
-      console.log(`[IntentWatch] ✅ Recorded transaction ${found.txHash} and donation ${donationId} for intent ${intentRef.id}`);
-    } catch (error: any) {
-      console.error(`[IntentWatch] Error recording transaction:`, error);
+    const confirmations = latest >= receipt.blockNumber ? Number(latest - receipt.blockNumber) + 1 : 0;
+    const status = confirmations >= required ? "CONFIRMED" : "CONFIRMING";
+    await doc.ref.update({
+      blockNumber: receipt.blockNumber.toString(),
+      blockHash: receipt.blockHash,
+      confirmations,
+      status,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+
+    if (status === "CONFIRMED" && tx.intentId) {
+      await confirmIntentIfSettled(this.db, tx.intentId);
     }
   }
 
-  private formatUnits(value: bigint, decimals: number): string {
-    const divisor = BigInt(10 ** decimals);
-    const whole = value / divisor;
-    const remainder = value % divisor;
-    if (remainder === 0n) return whole.toString();
-    const remainderStr = remainder.toString().padStart(decimals, "0").replace(/0+$/, "");
-    return remainderStr ? `${whole}.${remainderStr}` : whole.toString();
-  }
+  /**
+   * Confirm an unattributed deposit (snapshotting the FX rate it is recorded
+   * at if it becomes a donation) or drop it if it was reorged out
+   */
+  private async verifyUnattributed(
+    client: PublicClient,
+    doc: FirebaseFirestore.QueryDocumentSnapshot,
+    latest: bigint,
+    required: number
+  ) {
+    const deposit = doc.data() as UnattributedDepositDoc;
+    const inclusion = await this.checkInclusion(client, deposit);
+    if (!inclusion) return;
+
+    const now = admin.firestore.Timestamp.now();
+    if ("replacedBy" in inclusion) {
+      await doc.ref.update({ status: "REORGED", updatedAt: now });
+      console.warn(`[IntentWatch] ⚠️ Unattributed deposit ${doc.id} dropped by a chain reorg`);
+      return;
+    }
 
-  private inferAssetId(networkId: string, found: { assetType: "NATIVE" | "ERC20"; token?: string }): string | null {
-    // Try to infer assetId from network and token
-    if (found.assetType === "NATIVE") {
-      if (networkId.includes("ethereum")) return "eth_ethereum_mainnet";
-      if (networkId.includes("bsc")) return "bnb_bsc_mainnet";
-      if (networkId.includes("polygon")) return "matic_polygon_mainnet";
+    const { receipt } = inclusion;
+    const confirmations = latest >= receipt.blockNumber ? Number(latest - receipt.blockNumber) + 1 : 0;
+    const update: Record<string, any> = {
+      blockNumber: receipt.blockNumber.toString(),
+      blockHash: receipt.blockHash,
+      confirmations,
+      updatedAt: now,
+    };
+    if (confirmations >= required) {
+      const rates = await fetchRates(deposit.assetId);
+      Object.assign(update, {
+        status: "OPEN",
+        confirmedAt: now,
+        usdRateAtConfirm: rates.usd,
+        inrRateAtConfirm: rates.inr,
+      });
     }
-    // For ERC20, would need token address mapping
-    return null;
+    await doc.ref.update(update);
   }
 
   private getExplorerBase(networkId: string): string {
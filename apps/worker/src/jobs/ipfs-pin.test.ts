@@ -0,0 +1,145 @@
+import { createHash } from "crypto";
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  startKubo,
+  startFakeR2,
+  KuboNode,
+  FakeR2,
+} from "@opencause/testkit";
+import { processIPFSPinJob } from "./ipfs-pin";
+
+describe("processIPFSPinJob", () => {
+  let kubo: KuboNode;
+  let r2: FakeR2;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  const env = { ...process.env };
+
+  const bucket = "opencause-proofs";
+  const file = Buffer.from("%PDF-1.4 receipt 7");
+  const sha256 = createHash("sha256").update(file).digest("hex");
+  const objectKey = `proofs/camp1/wd1/${sha256}.pdf`;
+
+  const evidence = '{"campaignId":"camp1","kind":"WITHDRAWAL_REQUEST"}';
+  const evidenceHash = createHash("sha256").update(evidence).digest("hex");
+  const evidenceKey = `evidence/${evidenceHash}.json`;
+
+  const job = (name: string, data: Record<string, any>, attemptsMade = 1): Job => ({
+    id: `ipfs_pin_${name}`,
+    queueName: "ipfs_pin",
+    name,
+    data,
+    attemptsMade,
+    maxAttempts: 5,
+  });
+
+  const cat = async (cid: string) => {
+    const response = await fetch(`${kubo.apiUrl}/api/v0/cat?arg=${cid}`, { method: "POST" });
+    return Buffer.from(await response.arrayBuffer());
+  };
+
+  const seedProof = (fields: Record<string, any> = {}) =>
+    db.collection("withdrawal_proofs").doc("proof1").set({
+      campaignId: "camp1",
+      withdrawalId: "wd1",
+      objectKey,
+      sha256,
+      mimeType: "application/pdf",
+      size: file.length,
+      isPublic: true,
+      ipfsCid: null,
+      ipfsStatus: "PENDING",
+      createdAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.Timestamp.now(),
+      ...fields,
+    });
+  const proof = async () => (await db.collection("withdrawal_proofs").doc("proof1").get()).data()!;
+
+  const seedEvidence = async () => {
+    await db.collection("evidence").doc("ev1").set({ kind: "WITHDRAWAL_REQUEST", campaignId: "camp1", evidenceHash });
+    await db.collection("withdrawals").doc("wd1").set({ campaignId: "camp1", evidenceHash, status: "SUBMITTED" });
+  };
+
+  beforeAll(async () => {
+    kubo = await startKubo({ apiPort: 5103 });
+    r2 = await startFakeR2();
+    process.env.IPFS_API_URL = kubo.apiUrl;
+    process.env.R2_ENDPOINT = r2.url;
+    process.env.R2_ACCOUNT_ID = "test";
+    process.env.R2_ACCESS_KEY_ID = "test";
+    process.env.R2_SECRET_ACCESS_KEY = "test";
+  });
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await kubo?.stop();
+    await r2?.close();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["withdrawal_proofs", "evidence", "withdrawals"]);
+    r2.objects.clear();
+  });
+
+  it("pins a public proof read back from R2 and records its CID", async () => {
+    r2.put(bucket, objectKey, file, "application/pdf");
+    await seedProof();
+
+    await processIPFSPinJob(job("pin_proof", { proofId: "proof1" }), db);
+
+    const pinned = await proof();
+    expect(pinned).toMatchObject({ ipfsStatus: "PINNED", ipfsError: null, ipfsCid: expect.any(String) });
+    expect((await cat(pinned.ipfsCid)).equals(file)).toBe(true);
+  });
+
+  it("refuses an R2 object that does not match the proof's sha256", async () => {
+    r2.put(bucket, objectKey, "swapped", "application/pdf");
+    await seedProof();
+
+    await expect(processIPFSPinJob(job("pin_proof", { proofId: "proof1" }), db)).rejects.toThrow("expected");
+    expect(await proof()).toMatchObject({ ipfsStatus: "PENDING", ipfsCid: null });
+
+    // The queue's last attempt gives up
+    await expect(processIPFSPinJob(job("pin_proof", { proofId: "proof1" }, 5), db)).rejects.toThrow("expected");
+    expect(await proof()).toMatchObject({ ipfsStatus: "FAILED", ipfsError: expect.stringContaining(sha256) });
+  });
+
+  it("does not pin private proofs", async () => {
+    r2.put(bucket, objectKey, file, "application/pdf");
+    await seedProof({ isPublic: false, ipfsStatus: null });
+
+    await processIPFSPinJob(job("pin_proof", { proofId: "proof1" }), db);
+
+    expect(await proof()).toMatchObject({ ipfsStatus: null, ipfsCid: null });
+  });
+
+  it("pins evidence JSON from R2 and records the CID on its evidence and withdrawal", async () => {
+    r2.put(bucket, evidenceKey, evidence, "application/json");
+    await seedEvidence();
+
+    await processIPFSPinJob(job("pin_evidence", { evidenceHash, objectKey: evidenceKey }), db);
+
+    const record = (await db.collection("evidence").doc("ev1").get()).data()!;
+    expect(record).toMatchObject({ evidencePinStatus: "PINNED", evidenceCid: expect.any(String) });
+    expect((await db.collection("withdrawals").doc("wd1").get()).get("evidenceCid")).toBe(record.evidenceCid);
+    expect((await cat(record.evidenceCid)).toString()).toBe(evidence);
+  });
+
+  it("refuses evidence JSON that does not hash to its evidence hash", async () => {
+    r2.put(bucket, evidenceKey, '{"campaignId":"camp2"}', "application/json");
+    await seedEvidence();
+
+    await expect(
+      processIPFSPinJob(job("pin_evidence", { evidenceHash, objectKey: evidenceKey }, 5), db)
+    ).rejects.toThrow("expected");
+
+    expect((await db.collection("evidence").doc("ev1").get()).data()).toMatchObject({
+      evidencePinStatus: "FAILED",
+      evidencePinError: expect.stringContaining(evidenceHash),
+    });
+    expect((await db.collection("withdrawals").doc("wd1").get()).get("evidenceCid")).toBeUndefined();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * IPFS Pin Job
+ *
+ * Pins to an IPFS node (kubo HTTP API at IPFS_API_URL):
+ * - "pin_evidence": canonical evidence JSON, read back from R2; the CID is
+ *   recorded on the evidence records and the withdrawal they belong to
+ * - "pin_proof": a public proof file, read back from R2; the CID is recorded
+ *   on withdrawal_proofs. Private proofs are not pinned.
+ *
+ * Content is checked against its sha256 before pinning, and the pinned CID
+ * is read back and checked again. Failed pins are retried with the queue's
+ * backoff; one whose last attempt fails is marked FAILED. The API queues a
+ * re-pin when a download through the CID does not hash back to the sha256.
+ */
+
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { Job } from "@opencause/firebase";
+import { downloadBuffer } from "@opencause/r2";
+
+const READ_BACK_TIMEOUT_MS = 30_000;
+
+export async function processIPFSPinJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  if (job.name === "pin_proof") {
+    await pinProof(job, firestore);
+    return;
+  }
+  await pinEvidence(job, firestore);
+}
+
+async function pinEvidence(job: Job, firestore: admin.firestore.Firestore): Promise<void> {
+  const { evidenceHash } = job.data;
+  const [evidence, withdrawals] = await Promise.all([
+    firestore.collection("evidence").where("evidenceHash", "==", evidenceHash).get(),
+    firestore.collection("withdrawals").where("evidenceHash", "==", evidenceHash).get(),
+  ]);
+  const records = [...evidence.docs, ...withdrawals.docs];
+
+  try {
+    // Jobs queued before evidence JSON was kept in R2 carry it inline
+    const content = job.data.objectKey ? await downloadBuffer(job.data.objectKey) : Buffer.from(job.data.data);
+    checkSha256(content, evidenceHash, `Evidence JSON of ${evidenceHash}`);
+
+    const evidenceCid = await addToIpfs(content, `${evidenceHash}.json`, "application/json");
+    await checkPinned(evidenceCid, evidenceHash);
+
+    for (const doc of records) {
+      await doc.ref.update({
+        evidenceCid,
+        evidencePinStatus: "PINNED",
+        evidencePinError: null,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    console.log(`✅ Pinned evidence ${evidenceHash} as ${evidenceCid}`);
+  } catch (error: any) {
+    const finalAttempt = job.attemptsMade >= job.maxAttempts;
+    for (const doc of records) {
+      await doc.ref.update({
+        ...(finalAttempt && { evidencePinStatus: "FAILED" }),
+        evidencePinError: error?.message || String(error),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    throw error;
+  }
+}
+
+async function pinProof(job: Job, firestore: admin.firestore.Firestore): Promise<void> {
+  const { proofId } = job.data;
+  const proofRef = firestore.collection("withdrawal_proofs").doc(proofId);
+  const proofSnap = await proofRef.get();
+  if (!proofSnap.exists) {
+    console.warn(`[IPFSPin] Proof ${proofId} not found, skipping`);
+    return;
+  }
+  const proof = proofSnap.data()!;
+  if (!proof.isPublic) {
+    console.warn(`[IPFSPin] Proof ${proofId} is private, skipping`);
+    return;
+  }
+
+  try {
+    const content = await downloadBuffer(proof.objectKey);
+    checkSha256(content, proof.sha256, `R2 object ${proof.objectKey}`);
+
+    const ipfsCid = await addToIpfs(content, proof.objectKey.split("/").pop() || proofId, proof.mimeType);
+    await checkPinned(ipfsCid, proof.sha256);
+    await proofRef.update({
+      ipfsCid,
+      ipfsStatus: "PINNED",
+      ipfsError: null,
+      ipfsPinnedAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    console.log(`✅ Pinned proof ${proofId} as ${ipfsCid}`);
+  } catch (error: any) {
+    const finalAttempt = job.attemptsMade >= job.maxAttempts;
+    await proofRef.update({
+      ...(finalAttempt && { ipfsStatus: "FAILED" }),
+      ipfsError: error?.message || String(error),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    throw error;
+  }
+}
+
+function checkSha256(content: Buffer, expected: string, label: string): void {
+  const sha256 = createHash("sha256").update(content).digest("hex");
+  if (sha256 !== expected.replace(/^0x/, "").toLowerCase()) {
+    throw new Error(`${label} hashes to ${sha256}, expected ${expected}`);
+  }
+}
+
+/**
+ * Add and pin content; returns its CIDv1
+ */
+async function addToIpfs(content: Buffer, filename: string, contentType: string): Promise<string> {
+  const form = new FormData();
+  form.append("file", new Blob([content], { type: contentType }), filename);
+
+  const response = await fetch(`${ipfsApiUrl()}/api/v0/add?pin=true&cid-version=1`, {
+    method: "POST",
+    headers: ipfsHeaders(),
+    body: form,
+  });
+
+  if (!response.ok) {
+    throw new Error(`IPFS add failed: ${response.status} ${await response.text()}`);
+  }
+
+  const result = (await response.json()) as { Hash: string };
+  return result.Hash;
+}
+
+/**
+ * Read a pinned CID back from the node and check it against its sha256
+ */
+async function checkPinned(cid: string, sha256: string): Promise<void> {
+  const response = await fetch(`${ipfsApiUrl()}/api/v0/cat?arg=${encodeURIComponent(cid)}`, {
+    method: "POST",
+    headers: ipfsHeaders(),
+    signal: AbortSignal.timeout(READ_BACK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`IPFS cat of ${cid} failed: ${response.status} ${await response.text()}`);
+  }
+  checkSha256(Buffer.from(await response.arrayBuffer()), sha256, `Pinned ${cid}`);
+}
+
+function ipfsApiUrl(): string {
+  const apiUrl = process.env.IPFS_API_URL;
+  if (!apiUrl) {
+    throw new Error("IPFS_API_URL not configured");
+  }
+  return apiUrl.replace(/\/$/, "");
+}
+
+function ipfsHeaders(): Record<string, string> {
+  // Hosted kubo endpoints (e.g. Infura) take basic auth
+  if (!process.env.IPFS_PROJECT_ID || !process.env.IPFS_PROJECT_SECRET) return {};
+  const credentials = `${process.env.IPFS_PROJECT_ID}:${process.env.IPFS_PROJECT_SECRET}`;
+  return { Authorization: `Basic ${Buffer.from(credentials).toString("base64")}` };
+}
@@ -0,0 +1,18 @@
+/**
+ * Ledger Anchor Job
+ *
+ * Anchors a Merkle root of each campaign's public donation/withdrawal ledger
+ * whenever it changed (see services/ledger-anchoring) and settles snapshots
+ * whose root tx was still pending on the previous run.
+ */
+
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+import { anchorCampaignLedgers } from "../services/ledger-anchoring";
+
+export async function processLedgerAnchorJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  await anchorCampaignLedgers(firestore);
+}
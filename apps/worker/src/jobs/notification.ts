@@ -0,0 +1,31 @@
+/**
+ * Notification Job
+ *
+ * Persists in-app notifications enqueued by the API
+ */
+
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+
+export async function processNotificationJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  const { userId, type, title, message, link } = job.data;
+
+  if (!userId) {
+    throw new Error(`Notification job ${job.id} missing userId`);
+  }
+
+  // Job id as document id keeps retries from creating duplicates
+  await firestore.collection("notifications").doc(job.id).set({
+    userId,
+    type,
+    title,
+    message,
+    link: link || null,
+    read: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
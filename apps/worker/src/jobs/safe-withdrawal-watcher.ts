@@ -0,0 +1,19 @@
+/**
+ * Safe Withdrawal Watcher Job
+ *
+ * Polls the Safe transaction service for withdrawal proposals still awaiting
+ * execution. Reviewer signatures collected outside the dashboard are mirrored
+ * onto the withdrawal; an executed proposal marks the withdrawal PAID with its
+ * execution tx hash and explorer link.
+ */
+
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+import { trackSafeWithdrawals } from "../services/safe-withdrawals";
+
+export async function processSafeWithdrawalWatcherJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  await trackSafeWithdrawals(firestore);
+}
@@ -0,0 +1,100 @@
+/**
+ * Settlement Reconciliation Job
+ *
+ * Daily check of what the payment gateways settled against our donations:
+ * - reports dropped into SETTLEMENT_DROP_DIR as `{provider}_{YYYY-MM-DD}.csv|json`
+ *   are reconciled and moved to `processed/`
+ * - yesterday's report is downloaded from each provider with credentials set
+ *
+ * Runs are stored in reconciliation_runs and reviewed from the admin dashboard.
+ */
+
+import * as admin from "firebase-admin";
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  Job,
+  SettlementProvider,
+  SettlementReconciler,
+  fetchSettlementReport,
+  parseSettlementReport,
+} from "@opencause/firebase";
+
+const DROP_FILE_PATTERN = /^(razorpay|cashfree)_(\d{4}-\d{2}-\d{2})\.(csv|json)$/;
+
+export async function processSettlementReconciliationJob(
+  job: Job,
+  firestore: admin.firestore.Firestore
+): Promise<void> {
+  const reconciler = new SettlementReconciler(firestore);
+
+  const dropDir = process.env.SETTLEMENT_DROP_DIR;
+  if (dropDir) {
+    await reconcileDropDir(reconciler, dropDir);
+  }
+
+  const settlementDate = job.data.settlementDate || previousDay();
+  for (const provider of ["razorpay", "cashfree"] as SettlementProvider[]) {
+    const credentials = providerCredentials(provider);
+    if (!credentials) continue;
+
+    // Deterministic id: one API run per provider and day
+    const runId = `${provider}_${settlementDate}_api`;
+    if ((await firestore.collection("reconciliation_runs").doc(runId).get()).exists) {
+      continue;
+    }
+
+    const lines = await fetchSettlementReport(provider, settlementDate, credentials);
+    await reconciler.reconcile(lines, { provider, source: "PROVIDER_API", settlementDate, runId });
+    console.log(`✅ Reconciled ${lines.length} ${provider} settlement lines for ${settlementDate}`);
+  }
+}
+
+async function reconcileDropDir(reconciler: SettlementReconciler, dropDir: string): Promise<void> {
+  const processedDir = path.join(dropDir, "processed");
+  await fs.mkdir(processedDir, { recursive: true });
+
+  for (const fileName of await fs.readdir(dropDir)) {
+    const match = fileName.match(DROP_FILE_PATTERN);
+    if (!match) continue;
+
+    const [, provider, settlementDate, format] = match;
+    const filePath = path.join(dropDir, fileName);
+    const lines = parseSettlementReport(
+      provider as SettlementProvider,
+      await fs.readFile(filePath, "utf8"),
+      format as "csv" | "json"
+    );
+
+    await reconciler.reconcile(lines, {
+      provider: provider as SettlementProvider,
+      source: "FILE_DROP",
+      settlementDate,
+      fileName,
+    });
+    await fs.rename(filePath, path.join(processedDir, `${Date.now()}_${fileName}`));
+    console.log(`✅ Reconciled ${lines.length} lines from ${fileName}`);
+  }
+}
+
+function providerCredentials(provider: SettlementProvider) {
+  if (provider === "razorpay") {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    const keySecret = process.env.RAZORPAY_SECRET_KEY;
+    return keyId && keySecret ? { keyId, keySecret } : null;
+  }
+
+  const keyId = process.env.CASHFREE_APP_ID;
+  const keySecret = process.env.CASHFREE_SECRET_KEY;
+  if (!keyId || !keySecret) return null;
+  const baseUrl =
+    process.env.CASHFREE_ENV === "production" ? "https://api.cashfree.com/pg" : "https://sandbox.cashfree.com/pg";
+  return { keyId, keySecret, baseUrl };
+}
+
+// Settlement reports are per IST calendar day
+function previousDay(): string {
+  const istNow = new Date(Date.now() + 5.5 * 60 * 60 * 1000);
+  istNow.setUTCDate(istNow.getUTCDate() - 1);
+  return istNow.toISOString().slice(0, 10);
+}
@@ -1,141 +1,422 @@
 /**
  * Solana Watcher Job
- * 
- * Watches Solana addresses for deposits
- * Uses @solana/web3.js to monitor signatures
+ *
+ * Watches Solana deposit wallets for SOL and for every enabled SPL asset in
+ * the registry, whose transfers land in the wallet's associated token
+ * account. Each watched account is read from a per-account signature cursor
+ * (key_configs, INDEX_STATE); transfers found in confirmed transactions are
+ * routed to the pending intents at the wallet, by address for a wallet
+ * derived for a single intent and by exact amount first otherwise (see
+ * routeTransfer), credited through the intent ledger and confirmed once the
+ * transaction is finalized. Transfers no intent claims are parked in
+ * unattributed_deposits.
+ *
+ * `SOLANA_MAINNET_RPC_URL` may point at a local solana-test-validator
+ * (http://127.0.0.1:8899) started with `--clone` of the mints under test.
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
-import { getNetwork, getAsset } from "@opencause/crypto-core";
+import { Connection } from "@solana/web3.js";
+import {
+  CampaignDepositDoc,
+  ChainTxPrivateDoc,
+  FirestoreRepository,
+  Job,
+  UnattributedDepositDoc,
+} from "@opencause/firebase";
+import {
+  getNetwork,
+  getAssetsByNetwork,
+  CryptoAsset,
+  CryptoNetwork,
+  PaymentTolerance,
+  getPaymentTolerance,
+  isWithinTolerance,
+} from "@opencause/crypto-core";
+import { getAssociatedTokenAddress, scanAccountTransfers, SolanaTransfer } from "../solana/scanTransfers";
+import {
+  confirmIntentIfSettled,
+  creditIntentTransfer,
+  fetchRates,
+  formatUnits,
+  markAddressUsed,
+  rollbackCreditedTx,
+} from "../services/intent-ledger";
+
+// getSignatureStatuses takes at most 256 signatures per call
+const STATUS_BATCH_SIZE = 256;
+
+interface PendingIntent {
+  ref: FirebaseFirestore.DocumentReference;
+  intent: any;
+  expectedValue: bigint;
+  expectedMint: string | null; // null for SOL
+  receivedValue: bigint; // Credited so far (partial payments)
+  senders: Set<string>;
+  tolerance: PaymentTolerance;
+}
+
+interface WatchedWallet {
+  address: string;
+  deposits: Array<{
+    id: string;
+    campaignId: string;
+    assetId: string;
+    parentRef: string | null; // Set on wallets derived for a single intent
+    intentId: string | null; // The intent holding such a wallet
+  }>;
+  intents: PendingIntent[];
+}
 
 export async function processSolWatcherJob(
   job: Job,
   firestore: admin.firestore.Firestore
 ): Promise<void> {
-  const { networkId, addresses } = job.data;
-  
+  const { networkId } = job.data;
+
   const repo = new FirestoreRepository(firestore);
   const network = getNetwork(networkId);
-  
+
   if (!network || network.type !== "SOL") {
     throw new Error(`Invalid Solana network: ${networkId}`);
   }
 
-  // Dynamically import @solana/web3.js (may not be installed)
-  let Connection: any;
-  let PublicKey: any;
-  let LAMPORTS_PER_SOL: number;
+  const rpcUrl =
+    process.env[`${networkId.toUpperCase()}_RPC_URL`] ||
+    process.env.SOLANA_RPC_URL ||
+    "https://api.mainnet-beta.solana.com";
+  const connection = new Connection(rpcUrl, "confirmed");
 
-  try {
-    const solanaWeb3 = await import("@solana/web3.js");
-    Connection = solanaWeb3.Connection;
-    PublicKey = solanaWeb3.PublicKey;
-    LAMPORTS_PER_SOL = solanaWeb3.LAMPORTS_PER_SOL;
-  } catch (error) {
-    console.error("@solana/web3.js not installed. Install it for Solana support.");
-    throw new Error("Solana web3 library not available");
+  const wallets = await loadWatchedWallets(firestore, networkId);
+  const assets = getAssetsByNetwork(networkId).filter(
+    (asset) => asset.assetType === "SOL" || (asset.assetType === "SPL" && asset.contractAddress)
+  );
+
+  for (const wallet of wallets.values()) {
+    for (const asset of assets) {
+      const mint = asset.assetType === "SPL" ? asset.contractAddress! : null;
+      const account = mint ? getAssociatedTokenAddress(wallet.address, mint) : wallet.address;
+      const cursorKey = `sol_index_${account}`;
+
+      try {
+        const cursor = await repo.getKeyConfig(cursorKey);
+        const { transfers, newestSignature } = await scanAccountTransfers({
+          connection,
+          account,
+          mint,
+          until: cursor?.lastSignature,
+        });
+
+        for (const transfer of transfers) {
+          await handleTransfer(firestore, network, wallet, asset, transfer);
+        }
+
+        // Cursor only moves once every transfer in the batch was handled
+        if (newestSignature) {
+          await repo.updateKeyConfig(cursorKey, { type: "INDEX_STATE", networkId, lastSignature: newestSignature });
+        }
+      } catch (error: any) {
+        console.error(`[SolWatcher] Error watching ${asset.symbol} account ${account}:`, error.message);
+      }
+    }
   }
 
-  // Get RPC URL
-  const rpcUrl = process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
-  const connection = new Connection(rpcUrl, "confirmed");
+  await trackFinality(firestore, connection, network);
+}
 
-  for (const address of addresses) {
-    try {
-      const deposit = await repo.getDeposit(address); // Assuming address lookup
-      if (!deposit) continue;
+/**
+ * Wallet addresses to watch: campaign deposit addresses and the addresses
+ * pending intents were issued, with the intents waiting on each
+ */
+async function loadWatchedWallets(
+  firestore: admin.firestore.Firestore,
+  networkId: string
+): Promise<Map<string, WatchedWallet>> {
+  const [depositsSnap, intentsSnap] = await Promise.all([
+    firestore.collection("campaign_deposits").where("networkId", "==", networkId).get(),
+    firestore
+      .collection("payment_intents")
+      .where("networkId", "==", networkId)
+      .where("status", "in", ["CREATED", "DETECTING", "MISMATCH"])
+      .get(),
+  ]);
 
-      const asset = await repo.getAsset(deposit.assetId);
-      if (!asset) continue;
+  const wallets = new Map<string, WatchedWallet>();
+  const walletFor = (address: string) => {
+    const wallet = wallets.get(address) || { address, deposits: [], intents: [] };
+    wallets.set(address, wallet);
+    return wallet;
+  };
 
-      // Get account info (balance)
-      const pubkey = new PublicKey(deposit.address);
-      const accountInfo = await connection.getAccountInfo(pubkey);
+  for (const doc of depositsSnap.docs) {
+    const deposit = doc.data() as CampaignDepositDoc;
+    if (!deposit.address) continue;
+    walletFor(deposit.address).deposits.push({
+      id: doc.id,
+      campaignId: deposit.campaignId,
+      assetId: deposit.assetId,
+      parentRef: deposit.parentRef ?? null,
+      intentId: deposit.intentId ?? null,
+    });
+  }
 
-      if (!accountInfo) continue;
+  const now = Date.now();
+  for (const doc of intentsSnap.docs) {
+    const intent = doc.data();
+    // Expiry is handled by the intent watch tick
+    if (!intent.depositAddress || !intent.expectedAmountRaw) continue;
+    if (intent.expiresAt?.toMillis?.() && intent.expiresAt.toMillis() < now) continue;
 
-      // Get recent signatures
-      const signatures = await connection.getSignaturesForAddress(pubkey, { limit: 100 });
+    walletFor(intent.depositAddress).intents.push({
+      ref: doc.ref,
+      intent,
+      expectedValue: BigInt(intent.expectedAmountRaw),
+      expectedMint: intent.expectedTokenAddress || null,
+      receivedValue: BigInt(intent.receivedAmountRaw || "0"),
+      senders: new Set<string>(intent.senderAddresses || []),
+      tolerance: getPaymentTolerance(intent.assetId),
+    });
+  }
 
-      for (const sigInfo of signatures) {
-        const txDocId = `${networkId}_${sigInfo.signature}`;
-        const existingTx = await repo.getChainTx(txDocId);
+  return wallets;
+}
 
-        if (existingTx) continue; // Already processed
+/**
+ * Credit a transfer to the intent it pays, or park it as unattributed
+ */
+async function handleTransfer(
+  firestore: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  wallet: WatchedWallet,
+  asset: CryptoAsset,
+  transfer: SolanaTransfer
+) {
+  const blockTimestamp = transfer.blockTime ? admin.firestore.Timestamp.fromMillis(transfer.blockTime * 1000) : null;
+  for (const deposit of wallet.deposits) {
+    if (deposit.parentRef) await markAddressUsed(firestore, deposit.id);
+  }
 
-        // Get transaction details
-        const tx = await connection.getTransaction(sigInfo.signature, {
-          commitment: "confirmed",
-        });
+  const target = routeTransfer(wallet, transfer);
 
-        if (!tx || !tx.meta) continue;
+  if (!target) {
+    if (wallet.deposits.length > 0) {
+      await recordUnattributed(firestore, network, wallet, asset, transfer, blockTimestamp);
+    }
+    return;
+  }
 
-        // Find transfers to our address
-        const postBalances = tx.meta.postBalances;
-        const preBalances = tx.meta.preBalances;
-        const accountKeys = tx.transaction.message.accountKeys;
+  const resolution = await creditIntentTransfer(firestore, {
+    intentRef: target.ref,
+    intent: target.intent,
+    networkId: network.networkId,
+    explorerBaseUrl: network.explorerBaseUrl,
+    transfer: {
+      txHash: transfer.signature,
+      from: transfer.from,
+      value: transfer.amount,
+      assetType: transfer.mint ? "SPL" : "SOL",
+      token: transfer.mint ?? undefined,
+      blockNumber: transfer.slot.toString(),
+      blockTimestamp,
+    },
+  });
+  if (!resolution) return;
 
-        let amountLamports = BigInt(0);
-        for (let i = 0; i < accountKeys.length; i++) {
-          if (accountKeys[i].toBase58() === deposit.address) {
-            const change = BigInt(postBalances[i]) - BigInt(preBalances[i]);
-            if (change > 0) {
-              amountLamports += change;
-            }
-          }
-        }
+  console.log(
+    `[SolWatcher] Credited ${transfer.amount} ${asset.symbol} base units in ${transfer.signature} to intent ${target.ref.id}`
+  );
+  target.receivedValue += transfer.amount;
+  target.senders.add(transfer.from.toLowerCase());
+  if (resolution !== "PARTIAL") {
+    wallet.intents = wallet.intents.filter((w) => w !== target);
+  }
+}
 
-        if (amountLamports === BigInt(0)) continue;
-
-        // Check confirmations (finalized commitment)
-        const confirmations = sigInfo.confirmationStatus === "finalized" 
-          ? network.confirmationsRequired 
-          : 0;
-
-        // Create chain transaction record
-        await repo.createOrUpdateChainTx(txDocId, {
-          networkId,
-          assetId: deposit.assetId,
-          depositRef: deposit.id,
-          txHash: sigInfo.signature,
-          to: deposit.address,
-          amountNative: amountLamports.toString(),
-          block: sigInfo.slot?.toString() || "pending",
-          confirmations,
-          status: confirmations >= network.confirmationsRequired ? "CONFIRMED" : "CONFIRMING",
-          explorerUrl: `${network.explorerBaseUrl}/tx/${sigInfo.signature}`,
-        });
+/**
+ * Pick the intent a transfer pays among those issued the wallet for the same
+ * asset: the intent the wallet was derived for, an exact amount match on an
+ * intent with nothing received yet, an intent the same sender already paid
+ * into, the intent it brings closest to the expected amount within
+ * tolerance, or the only such intent. Transfers from before an intent was
+ * created never pay it.
+ */
+function routeTransfer(wallet: WatchedWallet, transfer: SolanaTransfer): PendingIntent | null {
+  const candidates = wallet.intents.filter((w) => {
+    if (w.expectedMint !== transfer.mint) return false;
+    const createdAt = w.intent.createdAt?.toMillis?.();
+    return !transfer.blockTime || !createdAt || transfer.blockTime * 1000 >= createdAt;
+  });
 
-        // Try to match with payment intent
-        const recentIntents = await firestore
-          .collection("payment_intents")
-          .where("depositRef", "==", deposit.id)
-          .where("status", "in", ["CREATED", "SEEN", "CONFIRMING"])
-          .where("amountNative", ">=", (amountLamports * BigInt(99) / BigInt(100)).toString())
-          .where("amountNative", "<=", (amountLamports * BigInt(101) / BigInt(100)).toString())
-          .limit(1)
-          .get();
-
-        if (!recentIntents.empty) {
-          const intent = recentIntents.docs[0];
-          await repo.updatePaymentIntent(intent.id, {
-            status: confirmations >= network.confirmationsRequired ? "CONFIRMED" : "CONFIRMING",
-            txHash: sigInfo.signature,
-          });
-        }
+  const holder = candidates.find((w) => wallet.deposits.some((d) => d.intentId === w.ref.id));
+  if (holder) return holder;
 
-        console.log(`✅ Detected Solana transaction ${sigInfo.signature} for ${deposit.address}: ${amountLamports} lamports`);
-      }
-    } catch (error) {
-      console.error(`Error watching Solana address ${address}:`, error);
-    }
+  const exact = candidates.find((w) => w.receivedValue === 0n && w.expectedValue === transfer.amount);
+  if (exact) return exact;
+
+  const from = transfer.from.toLowerCase();
+  const topUp = candidates.find((w) => w.receivedValue > 0n && w.senders.has(from));
+  if (topUp) return topUp;
+
+  const distance = (w: PendingIntent) => {
+    const diff = w.receivedValue + transfer.amount - w.expectedValue;
+    return diff < 0n ? -diff : diff;
+  };
+  const inBand = candidates
+    .filter((w) => isWithinTolerance(w.expectedValue, w.receivedValue + transfer.amount, w.tolerance))
+    .sort((a, b) => (distance(a) < distance(b) ? -1 : distance(a) > distance(b) ? 1 : 0));
+  if (inBand.length > 0) return inBand[0];
+
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Park a transfer no pending intent claimed for an admin to attach, record
+ * or return
+ */
+async function recordUnattributed(
+  firestore: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  wallet: WatchedWallet,
+  asset: CryptoAsset,
+  transfer: SolanaTransfer,
+  blockTimestamp: admin.firestore.Timestamp | null
+) {
+  const deposit = wallet.deposits.find((d) => d.assetId === asset.assetId) || wallet.deposits[0];
+  const tokenOrSymbol = (transfer.mint || asset.symbol).toLowerCase();
+
+  // Same id as the donation it may become
+  const depositDocId = `${network.networkId}_${transfer.signature}_${wallet.address.toLowerCase()}_${tokenOrSymbol}`;
+  const depositRef = firestore.collection("unattributed_deposits").doc(depositDocId);
+  const txRef = firestore.collection("chain_txs_private").doc(`${network.networkId}_${transfer.signature}`);
+
+  const now = admin.firestore.Timestamp.now();
+  const record: UnattributedDepositDoc = {
+    networkId: network.networkId,
+    txHash: transfer.signature,
+    from: transfer.from,
+    to: wallet.address,
+    depositRef: deposit.id,
+    campaignId: deposit.campaignId,
+    assetId: asset.assetId,
+    assetType: transfer.mint ? "SPL" : "SOL",
+    tokenAddress: transfer.mint,
+    amountRaw: transfer.amount.toString(),
+    amountNative: formatUnits(transfer.amount, asset.decimals),
+    decimals: asset.decimals,
+    blockNumber: transfer.slot.toString(),
+    blockHash: "",
+    blockTimestamp,
+    confirmations: 0,
+    status: "CONFIRMING",
+    confirmedAt: null,
+    usdRateAtConfirm: null,
+    inrRateAtConfirm: null,
+    resolution: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const recorded = await firestore.runTransaction(async (t) => {
+    const [existing, chainTx] = await Promise.all([t.get(depositRef), t.get(txRef)]);
+    if (existing.exists && existing.get("status") !== "REORGED") return false;
+    if (chainTx.exists && chainTx.get("status") !== "REORGED") return false;
+    t.set(depositRef, record);
+    return true;
+  });
+
+  if (recorded) {
+    console.log(
+      `[SolWatcher] Unattributed ${record.amountNative} ${asset.symbol} to ${wallet.address} (${transfer.signature})`
+    );
   }
 }
 
+/**
+ * Confirm credited transfers and unattributed deposits once their
+ * transaction is finalized. One that failed, or that is missing from the
+ * finalized ledger although later slots are finalized, was on an abandoned
+ * fork and is rolled back.
+ */
+async function trackFinality(
+  firestore: admin.firestore.Firestore,
+  connection: Connection,
+  network: CryptoNetwork
+) {
+  const [txSnapshot, depositSnapshot] = await Promise.all([
+    firestore
+      .collection("chain_txs_private")
+      .where("networkId", "==", network.networkId)
+      .where("status", "in", ["SEEN", "CONFIRMING"])
+      .get(),
+    firestore
+      .collection("unattributed_deposits")
+      .where("networkId", "==", network.networkId)
+      .where("status", "==", "CONFIRMING")
+      .get(),
+  ]);
+  const docs = [...txSnapshot.docs, ...depositSnapshot.docs];
+  if (docs.length === 0) return;
 
+  try {
+    const finalizedSlot = await connection.getSlot("finalized");
 
+    for (let i = 0; i < docs.length; i += STATUS_BATCH_SIZE) {
+      const batch = docs.slice(i, i + STATUS_BATCH_SIZE);
+      const { value: statuses } = await connection.getSignatureStatuses(
+        batch.map((doc) => doc.get("txHash") as string),
+        { searchTransactionHistory: true }
+      );
 
+      for (const [j, doc] of batch.entries()) {
+        const status = statuses[j];
+        const slot = Number(doc.get("blockNumber") || 0);
+        let dropped = !!status?.err;
+        let finalized = !dropped && status?.confirmationStatus === "finalized";
+        if (!status && finalizedSlot > slot) {
+          // Nodes keep statuses for recent slots only; ledger history tells finalized from forked out
+          const finalizedTx = await connection.getTransaction(doc.get("txHash"), {
+            commitment: "finalized",
+            maxSupportedTransactionVersion: 0,
+          });
+          finalized = !!finalizedTx && !finalizedTx.meta?.err;
+          dropped = !finalized;
+        }
+        const now = admin.firestore.Timestamp.now();
 
+        if (doc.ref.parent.id === "unattributed_deposits") {
+          if (dropped) {
+            await doc.ref.update({ status: "REORGED", updatedAt: now });
+            console.warn(`[SolWatcher] ⚠️ Unattributed deposit ${doc.id} dropped from the chain`);
+          } else if (finalized) {
+            const rates = await fetchRates((doc.data() as UnattributedDepositDoc).assetId);
+            await doc.ref.update({
+              status: "OPEN",
+              confirmations: network.confirmationsRequired,
+              confirmedAt: now,
+              usdRateAtConfirm: rates.usd,
+              inrRateAtConfirm: rates.inr,
+              updatedAt: now,
+            });
+          }
+          continue;
+        }
 
+        const tx = doc.data() as ChainTxPrivateDoc;
+        if (dropped) {
+          await rollbackCreditedTx(firestore, doc.ref, { finalizedSlot });
+        } else if (finalized) {
+          await doc.ref.update({
+            status: "CONFIRMED",
+            confirmations: network.confirmationsRequired,
+            updatedAt: now,
+          });
+          if (tx.intentId) await confirmIntentIfSettled(firestore, tx.intentId);
+        } else if (status) {
+          await doc.ref.update({ status: "CONFIRMING", confirmations: status.confirmations ?? 0, updatedAt: now });
+        }
+      }
+    }
+  } catch (error: any) {
+    console.error(`[SolWatcher] Error tracking finality on ${network.networkId}:`, error.message);
+  }
+}
@@ -4,9 +4,8 @@
  * Refreshes campaign stats: totals donated, current balances
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
+import { ChainTxPrivateDoc, DonationRefundDoc, FirestoreRepository, Job } from "@opencause/firebase";
 
 export async function processStatsRefresherJob(
   job: Job,
@@ -23,18 +22,42 @@ export async function processStatsRefresherJob(
   const balanceByAsset: Record<string, string> = {};
   let totalUsd = 0;
 
+  // Refunded donations leave the campaign even before the transfer lands
+  const refundedByAsset = await getRefundedByAsset(firestore, campaignId);
+
+  const received: Record<string, bigint> = {};
+  const counted = new Set<string>();
   for (const deposit of deposits) {
     const assetKey = `${deposit.assetId}_${deposit.networkId}`;
+    received[assetKey] ??= 0n;
     
     // Get confirmed transactions
     const txs = await repo.getChainTxsByDeposit(deposit.id);
     const confirmed = txs.filter((tx) => tx.status === "CONFIRMED");
     
     // Sum totals
-    let total = BigInt(0);
     for (const tx of confirmed) {
-      total += BigInt(tx.amountNative);
+      received[assetKey] += BigInt(tx.amountNative);
+      counted.add(tx.id);
     }
+  }
+
+  // Intent watch detections count from the moment they are seen; reorged-out
+  // ones are excluded (and were already taken back out by the watcher)
+  const detected = await firestore
+    .collection("chain_txs_private")
+    .where("campaignId", "==", campaignId)
+    .where("status", "in", ["SEEN", "CONFIRMING", "CONFIRMED"])
+    .get();
+  for (const doc of detected.docs) {
+    const tx = doc.data() as ChainTxPrivateDoc;
+    if (!tx.statsAssetKey || counted.has(doc.id)) continue;
+    received[tx.statsAssetKey] = (received[tx.statsAssetKey] || 0n) + BigInt(tx.amountRaw);
+  }
+
+  for (const [assetKey, amount] of Object.entries(received)) {
+    let total = amount - (refundedByAsset[assetKey] || 0n);
+    if (total < 0n) total = 0n;
     
     totalsByAsset[assetKey] = total.toString();
     
@@ -58,8 +81,25 @@ export async function processStatsRefresherJob(
   console.log(`✅ Refreshed stats for campaign ${campaignId}`);
 }
 
+async function getRefundedByAsset(
+  firestore: admin.firestore.Firestore,
+  campaignId: string
+): Promise<Record<string, bigint>> {
+  const refunds = await firestore
+    .collection("donation_refunds")
+    .where("campaignId", "==", campaignId)
+    .where("type", "==", "CRYPTO")
+    .where("status", "in", ["PROCESSING", "REFUNDED", "FAILED", "CLAIMABLE"])
+    .get();
 
-
-
-
-
+  const refunded: Record<string, bigint> = {};
+  for (const doc of refunds.docs) {
+    const refund = doc.data() as DonationRefundDoc;
+    if (!refund.reversedAt || !refund.assetId || !refund.networkId) continue;
+    const assetKey = `${refund.assetId}_${refund.networkId}`;
+    // The whole donation stops counting, even when only a share was returned
+    const amountRaw = refund.donatedAmountRaw || refund.amountRaw || "0";
+    refunded[assetKey] = (refunded[assetKey] || 0n) + BigInt(amountRaw);
+  }
+  return refunded;
+}
@@ -0,0 +1,109 @@
+import * as admin from "firebase-admin";
+import { Job } from "@opencause/firebase";
+import { getTestAdminFirestore, clearFirestoreCollections, startBitcoind, BitcoindNode } from "@opencause/testkit";
+import { parseSats } from "../utxo/sats";
+import { processUTXOWatcherJob } from "./utxo-watcher";
+
+describe("processUTXOWatcherJob", () => {
+  let bitcoind: BitcoindNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let address: string;
+  const env = { ...process.env };
+
+  const job: Job = {
+    id: "utxo_watcher_bitcoin_mainnet",
+    queueName: "utxo_watcher",
+    name: "watch",
+    data: { networkId: "bitcoin_mainnet" },
+    attemptsMade: 1,
+    maxAttempts: 5,
+  };
+  const watch = () => processUTXOWatcherJob(job, db);
+
+  const read = async (collection: string, id: string) => (await db.collection(collection).doc(id).get()).data();
+  const tracked = (txid: string) => read("chain_txs_private", `bitcoin_mainnet_${txid}_${address}`);
+  const newAddress = () => bitcoind.rpc<string>("getnewaddress", [], "miner");
+
+  beforeAll(async () => {
+    bitcoind = await startBitcoind({ rpcPort: 18553 });
+    // Regtest addresses stand in for mainnet ones; the watcher does not check the prefix
+    process.env.BITCOIN_MAINNET_RPC_URL = bitcoind.walletUrl("watch");
+  }, 60_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await bitcoind?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections([
+      "payment_intents",
+      "payment_intents_private",
+      "payment_intents_public",
+      "chain_txs_private",
+      "donations_private",
+      "campaign_stats",
+      "campaign_deposits",
+      "unattributed_deposits",
+    ]);
+
+    address = await newAddress();
+    await db.collection("payment_intents").doc("intent1").set({
+      campaignId: "camp1",
+      networkId: "bitcoin_mainnet",
+      assetId: "btc_bitcoin_mainnet",
+      depositAddress: address,
+      expectedAmountRaw: "150000",
+      expectedDecimals: 8,
+      status: "DETECTING",
+      createdAt: admin.firestore.Timestamp.now(),
+      expiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + 60 * 60 * 1000),
+    });
+  });
+
+  it("moves a fee-bumped payment over to its replacement and credits that once mined", async () => {
+    const txid = await bitcoind.send(address, "0.0015");
+    await watch();
+    expect(await tracked(txid)).toMatchObject({ status: "MEMPOOL", intentId: "intent1", amountRaw: "150000" });
+
+    const { txid: replacement } = await bitcoind.rpc<{ txid: string }>("bumpfee", [txid], "miner");
+    await watch();
+    expect(await tracked(txid)).toMatchObject({ status: "REPLACED", replacedBy: replacement });
+    expect(await tracked(replacement)).toMatchObject({ status: "MEMPOOL", intentId: "intent1" });
+
+    await bitcoind.mine(1);
+    await watch();
+    await watch();
+
+    expect(await tracked(replacement)).toMatchObject({ status: "CONFIRMED", intentId: "intent1" });
+    expect(await tracked(txid)).toMatchObject({ status: "REPLACED" });
+    expect(await read("payment_intents", "intent1")).toMatchObject({
+      status: "CONFIRMED",
+      receivedAmountRaw: "150000",
+      txHash: replacement,
+    });
+  });
+
+  it("marks a payment double-spent away from the address as replaced", async () => {
+    const txid = await bitcoind.send(address, "0.0015");
+    await watch();
+    expect(await tracked(txid)).toMatchObject({ status: "MEMPOOL" });
+
+    // Spend the same inputs to another address with a higher fee
+    const original = await bitcoind.rpc("gettransaction", [txid, false, true], "miner");
+    const inputsSats =
+      original.decoded.vout.reduce((sum: bigint, vout: any) => sum + parseSats(vout.value), 0n) - parseSats(original.fee);
+    const raw = await bitcoind.rpc<string>("createrawtransaction", [
+      original.decoded.vin.map((vin: any) => ({ txid: vin.txid, vout: vin.vout })),
+      { [await newAddress()]: (Number(inputsSats - 10_000n) / 1e8).toFixed(8) },
+    ]);
+    const { hex } = await bitcoind.rpc<{ hex: string }>("signrawtransactionwithwallet", [raw], "miner");
+    await bitcoind.rpc("sendrawtransaction", [hex]);
+
+    await watch();
+
+    expect(await tracked(txid)).toMatchObject({ status: "REPLACED", replacedBy: null });
+    expect(await read("payment_intents", "intent1")).toMatchObject({ status: "DETECTING" });
+  });
+});
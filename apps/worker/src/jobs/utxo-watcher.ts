@@ -1,195 +1,519 @@
 /**
  * UTXO Watcher Job
- * 
- * Watches Bitcoin and Litecoin addresses for deposits
- * Uses public APIs (Blockstream, Blockchair) or RPC
+ *
+ * Watches Bitcoin and Litecoin deposit addresses through a pluggable
+ * UtxoBackend (Esplora HTTP API or a bitcoind/litecoind node, see
+ * utxo/backend). Every address derived for a campaign deposit or a pending
+ * intent is polled; outputs paying it are summed in integer satoshis and
+ * routed to the pending intents at that address (to the intent an address
+ * was derived for, whatever the amount). A tx is tracked as MEMPOOL
+ * until it is mined, then credited through the intent ledger and followed to
+ * the network's confirmationsRequired depth. A MEMPOOL tx that disappears or
+ * whose inputs another tx spends was replaced (RBF) and is marked REPLACED;
+ * a credited tx that leaves the chain is rolled back. Mined outputs no intent
+ * claims are parked in unattributed_deposits.
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
-import { getNetwork, getAsset } from "@opencause/crypto-core";
-
-interface UTXOTx {
-  txid: string;
-  vout: Array<{
-    value: number;
-    scriptpubkey_address: string;
-  }>;
-  status: {
-    confirmed: boolean;
-    block_height?: number;
-    block_hash?: string;
-    block_time?: number;
-  };
+import { CampaignDepositDoc, ChainTxPrivateDoc, Job, UnattributedDepositDoc } from "@opencause/firebase";
+import {
+  getNetwork,
+  getAsset,
+  CryptoNetwork,
+  PaymentTolerance,
+  getPaymentTolerance,
+  isWithinTolerance,
+} from "@opencause/crypto-core";
+import { getUtxoBackend, UtxoBackend, UtxoTx } from "../utxo/backend";
+import {
+  confirmIntentIfSettled,
+  creditIntentTransfer,
+  fetchRates,
+  formatUnits,
+  markAddressUsed,
+  rollbackCreditedTx,
+} from "../services/intent-ledger";
+
+// Block timestamps may trail wall-clock time by up to about two hours
+const BLOCK_TIME_SLACK_MS = 2 * 60 * 60 * 1000;
+
+interface PendingIntent {
+  ref: FirebaseFirestore.DocumentReference;
+  intent: any;
+  expectedValue: bigint;
+  receivedValue: bigint; // Credited so far (partial payments)
+  tolerance: PaymentTolerance;
+}
+
+interface WatchedAddress {
+  address: string;
+  deposit: {
+    id: string;
+    campaignId: string;
+    assetId: string;
+    addressIndex: number | null;
+    parentRef: string | null; // Set on addresses derived for a single intent
+    intentId: string | null; // The intent holding such an address
+  } | null;
+  intents: PendingIntent[];
 }
 
 export async function processUTXOWatcherJob(
   job: Job,
   firestore: admin.firestore.Firestore
 ): Promise<void> {
-  const { networkId, addresses } = job.data; // Array of addresses to watch
-  
-  const repo = new FirestoreRepository(firestore);
+  const { networkId } = job.data;
   const network = getNetwork(networkId);
-  
+
   if (!network || network.type !== "UTXO") {
     throw new Error(`Invalid UTXO network: ${networkId}`);
   }
 
-  // Get deposits for these addresses
-  const deposits = await Promise.all(
-    addresses.map(async (address: string) => {
-      const deposit = await repo.getDeposit(address); // Assuming address can be used as lookup
-      return deposit;
-    })
-  );
-
-  for (const deposit of deposits.filter(Boolean)) {
-    if (!deposit) continue;
+  const backend = getUtxoBackend(network);
+  if (!backend) {
+    throw new Error(`No UTXO backend configured for ${networkId}`);
+  }
 
-    const asset = await repo.getAsset(deposit.assetId);
-    if (!asset) continue;
+  const watched = await loadWatchedAddresses(firestore, networkId);
+  if (watched.size === 0) return;
 
-    try {
-      // Fetch transactions for address
-      const txs = await fetchAddressTransactions(network, deposit.address);
-      
-      for (const tx of txs) {
-        // Find outputs to our address
-        const relevantOutputs = tx.vout.filter(
-          (vout) => vout.scriptpubkey_address === deposit.address
-        );
+  await backend.watchAddresses?.([...watched.keys()]);
+  const tip = await backend.getTipHeight();
 
-        if (relevantOutputs.length === 0) continue;
+  // Inputs of txs still in the mempool, to spot a conflicting replacement
+  const mempoolSnap = await firestore
+    .collection("chain_txs_private")
+    .where("networkId", "==", networkId)
+    .where("status", "==", "MEMPOOL")
+    .get();
+  const spentBy = new Map<string, FirebaseFirestore.QueryDocumentSnapshot>();
+  for (const doc of mempoolSnap.docs) {
+    for (const outpoint of doc.get("spentOutpoints") || []) spentBy.set(outpoint, doc);
+  }
 
-        // Calculate total amount received
-        const amountSatoshis = relevantOutputs.reduce(
-          (sum, vout) => sum + Math.floor(vout.value * 1e8),
-          0
-        );
+  for (const entry of watched.values()) {
+    let txs: UtxoTx[];
+    try {
+      txs = await backend.getAddressTransactions(entry.address);
+    } catch (error: any) {
+      console.error(`[UTXOWatcher] Error listing ${entry.address} on ${networkId}:`, error.message);
+      continue;
+    }
 
-        const txDocId = `${networkId}_${tx.txid}`;
-        const existingTx = await repo.getChainTx(txDocId);
-
-        if (existingTx) continue; // Already processed
-
-        // Get current block height for confirmations
-        const currentHeight = await getCurrentBlockHeight(network);
-        const confirmations = tx.status.confirmed && tx.status.block_height
-          ? currentHeight - tx.status.block_height + 1
-          : 0;
-
-        // Create chain transaction record
-        await repo.createOrUpdateChainTx(txDocId, {
-          networkId,
-          assetId: deposit.assetId,
-          depositRef: deposit.id,
-          txHash: tx.txid,
-          to: deposit.address,
-          amountNative: amountSatoshis.toString(),
-          block: tx.status.block_height?.toString() || "pending",
-          confirmations,
-          status: confirmations >= network.confirmationsRequired ? "CONFIRMED" : "CONFIRMING",
-          explorerUrl: `${network.explorerBaseUrl}/tx/${tx.txid}`,
-        });
+    // Mined txs oldest first so partial payments and top-ups are credited in order
+    txs.sort((a, b) => (a.blockHeight ?? Number.MAX_SAFE_INTEGER) - (b.blockHeight ?? Number.MAX_SAFE_INTEGER));
 
-        // Try to match with payment intent
-        // This is simplified - in production, match by amount and timing
-        const recentIntents = await firestore
-          .collection("payment_intents")
-          .where("depositRef", "==", deposit.id)
-          .where("status", "in", ["CREATED", "SEEN", "CONFIRMING"])
-          .where("amountNative", ">=", (amountSatoshis * 0.99).toString()) // Allow 1% variance
-          .where("amountNative", "<=", (amountSatoshis * 1.01).toString())
-          .limit(1)
-          .get();
-
-        if (!recentIntents.empty) {
-          const intent = recentIntents.docs[0];
-          await repo.updatePaymentIntent(intent.id, {
-            status: confirmations >= network.confirmationsRequired ? "CONFIRMED" : "CONFIRMING",
-            txHash: tx.txid,
-          });
-        }
+    for (const tx of txs) {
+      const valueSats = tx.outputs
+        .filter((output) => output.address === entry.address)
+        .reduce((sum, output) => sum + output.valueSats, 0n);
+      if (valueSats === 0n) continue; // Spends from the address
 
-        console.log(`✅ Detected UTXO transaction ${tx.txid} for ${deposit.address}: ${amountSatoshis} sats`);
+      await markReplaced(spentBy, tx);
+      try {
+        await handleOutput(firestore, network, entry, tx, valueSats);
+      } catch (error: any) {
+        console.error(`[UTXOWatcher] Error processing ${tx.txid} on ${networkId}:`, error.message);
       }
-    } catch (error) {
-      console.error(`Error watching UTXO address ${deposit.address}:`, error);
     }
   }
+
+  await trackTransactions(firestore, backend, network, watched, tip);
+  await trackUnattributed(firestore, backend, network, tip);
+}
+
+/**
+ * Every address to poll on the network: campaign deposit addresses (by their
+ * HD derivation index) and the addresses pending intents were issued, with
+ * the intents waiting on each
+ */
+async function loadWatchedAddresses(
+  firestore: admin.firestore.Firestore,
+  networkId: string
+): Promise<Map<string, WatchedAddress>> {
+  const [depositsSnap, intentsSnap] = await Promise.all([
+    firestore.collection("campaign_deposits").where("networkId", "==", networkId).get(),
+    firestore
+      .collection("payment_intents")
+      .where("networkId", "==", networkId)
+      .where("status", "in", ["CREATED", "DETECTING", "MISMATCH"])
+      .get(),
+  ]);
+
+  const watched = new Map<string, WatchedAddress>();
+  const entryFor = (address: string) => {
+    const entry = watched.get(address) || { address, deposit: null, intents: [] };
+    watched.set(address, entry);
+    return entry;
+  };
+
+  for (const doc of depositsSnap.docs) {
+    const deposit = doc.data() as CampaignDepositDoc;
+    if (!deposit.address) continue;
+    entryFor(deposit.address).deposit = {
+      id: doc.id,
+      campaignId: deposit.campaignId,
+      assetId: deposit.assetId,
+      addressIndex: deposit.addressIndex ?? null,
+      parentRef: deposit.parentRef ?? null,
+      intentId: deposit.intentId ?? null,
+    };
+  }
+
+  const now = Date.now();
+  for (const doc of intentsSnap.docs) {
+    const intent = doc.data();
+    // Expiry is handled by the intent watch tick
+    if (!intent.depositAddress || !intent.expectedAmountRaw) continue;
+    if (intent.expiresAt?.toMillis?.() && intent.expiresAt.toMillis() < now) continue;
+
+    entryFor(intent.depositAddress).intents.push({
+      ref: doc.ref,
+      intent,
+      expectedValue: BigInt(intent.expectedAmountRaw),
+      receivedValue: BigInt(intent.receivedAmountRaw || "0"),
+      tolerance: getPaymentTolerance(intent.assetId),
+    });
+  }
+
+  return watched;
+}
+
+/**
+ * A tx spending an input of a tracked MEMPOOL tx replaced it
+ */
+async function markReplaced(spentBy: Map<string, FirebaseFirestore.QueryDocumentSnapshot>, tx: UtxoTx) {
+  for (const outpoint of tx.spentOutpoints) {
+    const conflicting = spentBy.get(outpoint);
+    if (!conflicting || conflicting.get("txHash") === tx.txid) continue;
+
+    spentBy.delete(outpoint);
+    await conflicting.ref.update({
+      status: "REPLACED",
+      replacedBy: tx.txid,
+      updatedAt: admin.firestore.Timestamp.now(),
+    });
+    console.log(`[UTXOWatcher] ${conflicting.get("txHash")} replaced by ${tx.txid}`);
+  }
 }
 
 /**
- * Fetch transactions for a UTXO address
+ * Track an output paying a watched address: MEMPOOL while unconfirmed,
+ * credited to the intent it pays once mined, otherwise unattributed
  */
-async function fetchAddressTransactions(
-  network: any,
-  address: string
-): Promise<UTXOTx[]> {
-  const explorerBaseUrl = network.explorerBaseUrl;
-
-  try {
-    // Try Blockstream API (Bitcoin)
-    if (network.networkId === "bitcoin_mainnet" && explorerBaseUrl.includes("blockstream.info")) {
-      const response = await fetch(`${explorerBaseUrl}/api/address/${address}/txs`);
-      if (response.ok) {
-        return await response.json();
+async function handleOutput(
+  firestore: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  entry: WatchedAddress,
+  tx: UtxoTx,
+  valueSats: bigint
+) {
+  const networkId = network.networkId;
+  const docId = txDocId(networkId, tx.txid, entry.address);
+  const txRef = firestore.collection("chain_txs_private").doc(docId);
+  const existing = (await txRef.get()).data() as ChainTxPrivateDoc | undefined;
+  if (existing && ["SEEN", "CONFIRMING", "CONFIRMED"].includes(existing.status)) return;
+
+  const unattributedSnap = await firestore
+    .collection("unattributed_deposits")
+    .doc(unattributedDocId(network, entry, tx.txid))
+    .get();
+  if (unattributedSnap.exists && unattributedSnap.get("status") !== "REORGED") return;
+
+  if (!existing && entry.deposit?.parentRef) await markAddressUsed(firestore, entry.deposit.id);
+
+  if (!tx.confirmed) {
+    if (existing?.status === "MEMPOOL") return;
+    const target = routeOutput(entry, valueSats, null);
+    const decimals = target?.intent.expectedDecimals ?? assetFor(entry)?.decimals ?? 8;
+    const now = admin.firestore.Timestamp.now();
+    await txRef.set({
+      networkId,
+      txHash: tx.txid,
+      to: entry.address,
+      from: null,
+      amountRaw: valueSats.toString(),
+      amountNative: formatUnits(valueSats, decimals),
+      assetType: "UTXO",
+      tokenAddress: null,
+      confirmations: 0,
+      status: "MEMPOOL",
+      spentOutpoints: tx.spentOutpoints,
+      explorerUrl: `${network.explorerBaseUrl}/tx/${tx.txid}`,
+      intentId: target?.ref.id ?? null,
+      campaignId: target?.intent.campaignId ?? entry.deposit?.campaignId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+    console.log(
+      `[UTXOWatcher] ${tx.txid} in mempool: ${valueSats} sats to ${entry.address}` +
+        (target ? ` for intent ${target.ref.id}` : "")
+    );
+    return;
+  }
+
+  const target = routeOutput(entry, valueSats, tx.blockTime, existing?.intentId);
+  if (!target) {
+    if (entry.deposit) await recordUnattributed(firestore, network, entry, tx, valueSats);
+    return;
+  }
+
+  const resolution = await creditIntentTransfer(firestore, {
+    intentRef: target.ref,
+    intent: target.intent,
+    networkId,
+    explorerBaseUrl: network.explorerBaseUrl,
+    txDocId: docId,
+    transfer: {
+      txHash: tx.txid,
+      value: valueSats,
+      assetType: "UTXO",
+      blockNumber: tx.blockHeight?.toString(),
+      blockHash: tx.blockHash ?? undefined,
+      blockTimestamp: tx.blockTime ? admin.firestore.Timestamp.fromMillis(tx.blockTime * 1000) : null,
+    },
+  });
+  if (!resolution) return;
+
+  console.log(
+    `[UTXOWatcher] Credited ${valueSats} sats in ${tx.txid} to intent ${target.ref.id}` +
+      (entry.deposit?.addressIndex != null ? ` (address index ${entry.deposit.addressIndex})` : "")
+  );
+  target.receivedValue += valueSats;
+  if (resolution !== "PARTIAL") {
+    entry.intents = entry.intents.filter((w) => w !== target);
+  }
+}
+
+/**
+ * Pick the intent an output pays among those issued the address: the one it
+ * was provisionally routed to in the mempool, the intent the address was
+ * derived for, an exact amount match, the only partially paid intent (a
+ * top-up), the intent it brings closest to the expected amount within
+ * tolerance, or the only intent at the address. Mined outputs from before an
+ * intent was created never pay it.
+ */
+function routeOutput(
+  entry: WatchedAddress,
+  valueSats: bigint,
+  blockTime: number | null,
+  preferredIntentId?: string | null
+): PendingIntent | null {
+  const candidates = entry.intents.filter((w) => {
+    const createdAt = w.intent.createdAt?.toMillis?.();
+    return !blockTime || !createdAt || blockTime * 1000 >= createdAt - BLOCK_TIME_SLACK_MS;
+  });
+
+  const preferred = candidates.find((w) => w.ref.id === preferredIntentId);
+  if (preferred) return preferred;
+
+  const holder = candidates.find((w) => w.ref.id === entry.deposit?.intentId);
+  if (holder) return holder;
+
+  const exact = candidates.find((w) => w.receivedValue === 0n && w.expectedValue === valueSats);
+  if (exact) return exact;
+
+  const partiallyPaid = candidates.filter((w) => w.receivedValue > 0n);
+  if (partiallyPaid.length === 1) return partiallyPaid[0];
+
+  const distance = (w: PendingIntent) => {
+    const diff = w.receivedValue + valueSats - w.expectedValue;
+    return diff < 0n ? -diff : diff;
+  };
+  const inBand = candidates
+    .filter((w) => isWithinTolerance(w.expectedValue, w.receivedValue + valueSats, w.tolerance))
+    .sort((a, b) => (distance(a) < distance(b) ? -1 : distance(a) > distance(b) ? 1 : 0));
+  if (inBand.length > 0) return inBand[0];
+
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Follow tracked txs: MEMPOOL txs that vanished were replaced or dropped,
+ * mined ones are credited, and credited ones are counted up to
+ * confirmationsRequired or rolled back if they left the chain
+ */
+async function trackTransactions(
+  firestore: admin.firestore.Firestore,
+  backend: UtxoBackend,
+  network: CryptoNetwork,
+  watched: Map<string, WatchedAddress>,
+  tip: number
+) {
+  const snapshot = await firestore
+    .collection("chain_txs_private")
+    .where("networkId", "==", network.networkId)
+    .where("status", "in", ["MEMPOOL", "SEEN", "CONFIRMING"])
+    .get();
+
+  for (const doc of snapshot.docs) {
+    const tracked = doc.data() as ChainTxPrivateDoc;
+    try {
+      const tx = await backend.getTransaction(tracked.txHash);
+
+      if (tracked.status === "MEMPOOL") {
+        if (!tx) {
+          await doc.ref.update({ status: "REPLACED", replacedBy: null, updatedAt: admin.firestore.Timestamp.now() });
+          console.log(`[UTXOWatcher] ${tracked.txHash} left the mempool unmined (replaced or dropped)`);
+        } else if (tx.confirmed && watched.has(tracked.to)) {
+          // Mined but past what the address listing returns
+          await handleOutput(firestore, network, watched.get(tracked.to)!, tx, BigInt(tracked.amountRaw));
+        }
+        continue;
       }
-    }
 
-    // Try Blockchair API (Bitcoin, Litecoin)
-    if (explorerBaseUrl.includes("blockchair.com")) {
-      const chain = network.networkId.includes("litecoin") ? "litecoin" : "bitcoin";
-      const response = await fetch(
-        `https://api.blockchair.com/${chain}/dashboards/address/${address}`
-      );
-      if (response.ok) {
-        const data = await response.json();
-        return data.data?.[address]?.transactions || [];
+      if (!tx || !tx.confirmed || tx.blockHeight === null) {
+        await rollbackCreditedTx(firestore, doc.ref, { backInMempool: !!tx });
+        continue;
       }
-    }
 
-    // Fallback: return empty array if API unavailable
-    console.warn(`Could not fetch transactions for ${address} from ${explorerBaseUrl}`);
-    return [];
-  } catch (error) {
-    console.error(`Error fetching transactions for ${address}:`, error);
-    return [];
+      if (tracked.blockHash && tracked.blockHash !== tx.blockHash) {
+        console.log(
+          `[UTXOWatcher] ${tracked.txHash} on ${network.networkId} re-included in block ${tx.blockHeight} after a reorg`
+        );
+      }
+
+      const confirmations = tip >= tx.blockHeight ? tip - tx.blockHeight + 1 : 0;
+      const status = confirmations >= network.confirmationsRequired ? "CONFIRMED" : "CONFIRMING";
+      await doc.ref.update({
+        blockNumber: tx.blockHeight.toString(),
+        blockHash: tx.blockHash,
+        confirmations,
+        status,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      if (status === "CONFIRMED" && tracked.intentId) {
+        await confirmIntentIfSettled(firestore, tracked.intentId);
+      }
+    } catch (error: any) {
+      console.error(`[UTXOWatcher] Error tracking ${tracked.txHash}:`, error.message);
+    }
   }
 }
 
 /**
- * Get current block height
+ * Confirm unattributed deposits (snapshotting the FX rate) or drop those
+ * that left the chain
  */
-async function getCurrentBlockHeight(network: any): Promise<number> {
-  try {
-    if (network.explorerBaseUrl.includes("blockstream.info")) {
-      const response = await fetch(`${network.explorerBaseUrl}/api/blocks/tip/height`);
-      if (response.ok) {
-        return parseInt(await response.text());
+async function trackUnattributed(
+  firestore: admin.firestore.Firestore,
+  backend: UtxoBackend,
+  network: CryptoNetwork,
+  tip: number
+) {
+  const snapshot = await firestore
+    .collection("unattributed_deposits")
+    .where("networkId", "==", network.networkId)
+    .where("status", "==", "CONFIRMING")
+    .get();
+
+  for (const doc of snapshot.docs) {
+    const deposit = doc.data() as UnattributedDepositDoc;
+    try {
+      const tx = await backend.getTransaction(deposit.txHash);
+      const now = admin.firestore.Timestamp.now();
+      if (!tx || !tx.confirmed || tx.blockHeight === null) {
+        await doc.ref.update({ status: "REORGED", updatedAt: now });
+        console.warn(`[UTXOWatcher] ⚠️ Unattributed deposit ${doc.id} left the chain`);
+        continue;
       }
-    }
 
-    if (network.explorerBaseUrl.includes("blockchair.com")) {
-      const chain = network.networkId.includes("litecoin") ? "litecoin" : "bitcoin";
-      const response = await fetch(`https://api.blockchair.com/${chain}/stats`);
-      if (response.ok) {
-        const data = await response.json();
-        return data.data?.blocks || 0;
+      const confirmations = tip >= tx.blockHeight ? tip - tx.blockHeight + 1 : 0;
+      const update: Record<string, any> = {
+        blockNumber: tx.blockHeight.toString(),
+        blockHash: tx.blockHash,
+        confirmations,
+        updatedAt: now,
+      };
+      if (confirmations >= network.confirmationsRequired) {
+        const rates = await fetchRates(deposit.assetId);
+        Object.assign(update, {
+          status: "OPEN",
+          confirmedAt: now,
+          usdRateAtConfirm: rates.usd,
+          inrRateAtConfirm: rates.inr,
+        });
       }
+      await doc.ref.update(update);
+    } catch (error: any) {
+      console.error(`[UTXOWatcher] Error tracking unattributed deposit ${doc.id}:`, error.message);
     }
-
-    return 0;
-  } catch (error) {
-    console.error(`Error fetching block height for ${network.networkId}:`, error);
-    return 0;
   }
 }
 
+/**
+ * Park a mined output no pending intent claimed for an admin to attach,
+ * record or return. Its provisional MEMPOOL record is dropped.
+ */
+async function recordUnattributed(
+  firestore: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  entry: WatchedAddress,
+  tx: UtxoTx,
+  valueSats: bigint
+) {
+  const deposit = entry.deposit!;
+  const asset = assetFor(entry);
+  const decimals = asset?.decimals ?? 8;
+  const depositRef = firestore.collection("unattributed_deposits").doc(unattributedDocId(network, entry, tx.txid));
+  const txRef = firestore.collection("chain_txs_private").doc(txDocId(network.networkId, tx.txid, entry.address));
+
+  const now = admin.firestore.Timestamp.now();
+  const record: UnattributedDepositDoc = {
+    networkId: network.networkId,
+    txHash: tx.txid,
+    from: null, // Inputs may come from several addresses; the return address is set by an admin
+    to: entry.address,
+    depositRef: deposit.id,
+    campaignId: deposit.campaignId,
+    assetId: asset?.assetId || null,
+    assetType: "UTXO",
+    tokenAddress: null,
+    amountRaw: valueSats.toString(),
+    amountNative: formatUnits(valueSats, decimals),
+    decimals,
+    blockNumber: tx.blockHeight?.toString() ?? "",
+    blockHash: tx.blockHash ?? "",
+    blockTimestamp: tx.blockTime ? admin.firestore.Timestamp.fromMillis(tx.blockTime * 1000) : null,
+    confirmations: 0,
+    status: "CONFIRMING",
+    confirmedAt: null,
+    usdRateAtConfirm: null,
+    inrRateAtConfirm: null,
+    resolution: null,
+    createdAt: now,
+    updatedAt: now,
+  };
 
+  const recorded = await firestore.runTransaction(async (t) => {
+    const [existing, chainTx] = await Promise.all([t.get(depositRef), t.get(txRef)]);
+    if (existing.exists && existing.get("status") !== "REORGED") return false;
+    if (chainTx.exists && ["SEEN", "CONFIRMING", "CONFIRMED"].includes(chainTx.get("status"))) return false;
+    t.set(depositRef, record);
+    if (chainTx.exists) t.delete(txRef);
+    return true;
+  });
 
+  if (recorded) {
+    console.log(
+      `[UTXOWatcher] Unattributed ${record.amountNative} ${asset?.symbol || ""} to ${entry.address} on ${network.networkId} (${tx.txid})`
+    );
+  }
+}
 
+function assetFor(entry: WatchedAddress) {
+  const assetId = entry.deposit?.assetId ?? entry.intents[0]?.intent.assetId;
+  return assetId ? getAsset(assetId) : undefined;
+}
 
+// One tx may pay several watched addresses (e.g. an exchange batch payout)
+function txDocId(networkId: string, txid: string, address: string): string {
+  return `${networkId}_${txid}_${address}`;
+}
 
+// Same id as the donation it may become
+function unattributedDocId(network: CryptoNetwork, entry: WatchedAddress, txid: string): string {
+  const symbol = assetFor(entry)?.symbol || network.symbol;
+  return `${network.networkId}_${txid}_${entry.address.toLowerCase()}_${symbol.toLowerCase()}`;
+}
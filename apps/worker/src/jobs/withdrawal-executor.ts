@@ -1,19 +1,29 @@
 /**
  * Withdrawal Executor Job
  * 
- * Executes approved withdrawals via Safe multisig or direct signing
+ * Executes approved withdrawals via Safe multisig; the platform's Safe owner
+ * key is the treasury signer (services/treasury-signer). Withdrawals approved
+ * by the reviewer quorum (withdrawals_private) become vault withdrawal
+ * proposals, see services/safe-withdrawals.
  */
 
-import { Job } from "bullmq";
 import * as admin from "firebase-admin";
-import { FirestoreRepository } from "@opencause/firebase";
+import { FirestoreRepository, Job } from "@opencause/firebase";
 import { getNetwork, getAsset } from "@opencause/crypto-core";
+import { SafeMultisigService } from "../services/safe-multisig";
+import { proposeSafeWithdrawal, proposeWithTreasurySigner } from "../services/safe-withdrawals";
 
 export async function processWithdrawalExecutorJob(
   job: Job,
   firestore: admin.firestore.Firestore
 ): Promise<void> {
   const { withdrawalId } = job.data;
+
+  const privateDoc = await firestore.collection("withdrawals_private").doc(withdrawalId).get();
+  if (privateDoc.exists) {
+    await proposeSafeWithdrawal(firestore, withdrawalId);
+    return;
+  }
   
   const repo = new FirestoreRepository(firestore);
   const withdrawal = await repo.getWithdrawal(withdrawalId);
@@ -39,27 +49,7 @@ export async function processWithdrawalExecutorJob(
   });
 
   try {
-    let txHash: string;
-    let explorerUrl: string;
-
-    if (network.type === "EVM") {
-      // Execute EVM withdrawal via Safe multisig or direct
-      const result = await executeEVMWithdrawal(network, asset, withdrawal, repo);
-      txHash = result.txHash;
-      explorerUrl = `${network.explorerBaseUrl}/tx/${txHash}`;
-    } else if (network.type === "UTXO") {
-      // Execute UTXO withdrawal (PSBT + broadcast)
-      const result = await executeUTXOWithdrawal(network, asset, withdrawal);
-      txHash = result.txHash;
-      explorerUrl = `${network.explorerBaseUrl}/tx/${txHash}`;
-    } else if (network.type === "SOL") {
-      // Execute Solana withdrawal
-      const result = await executeSolanaWithdrawal(network, asset, withdrawal);
-      txHash = result.txHash;
-      explorerUrl = `${network.explorerBaseUrl}/tx/${txHash}`;
-    } else {
-      throw new Error(`Unsupported network type: ${network.type}`);
-    }
+    const { txHash, explorerUrl } = await executeCryptoTransfer(network, asset, withdrawal, repo);
 
     // Update withdrawal with tx hash
     await repo.updateWithdrawal(withdrawalId, {
@@ -78,6 +68,37 @@ export async function processWithdrawalExecutorJob(
   }
 }
 
+/**
+ * Send funds for a legacy withdrawal. `transfer` needs campaignId,
+ * networkId, assetId, toAddress and amountNative (smallest units).
+ */
+export async function executeCryptoTransfer(
+  network: any,
+  asset: any,
+  transfer: any,
+  repo: FirestoreRepository
+): Promise<{ txHash: string; explorerUrl: string }> {
+  let txHash: string;
+
+  if (network.type === "EVM") {
+    // Execute EVM withdrawal via Safe multisig or direct
+    const result = await executeEVMWithdrawal(network, asset, transfer, repo);
+    txHash = result.txHash;
+  } else if (network.type === "UTXO") {
+    // Execute UTXO withdrawal (PSBT + broadcast)
+    const result = await executeUTXOWithdrawal(network, asset, transfer);
+    txHash = result.txHash;
+  } else if (network.type === "SOL") {
+    // Execute Solana withdrawal
+    const result = await executeSolanaWithdrawal(network, asset, transfer);
+    txHash = result.txHash;
+  } else {
+    throw new Error(`Unsupported network type: ${network.type}`);
+  }
+
+  return { txHash, explorerUrl: `${network.explorerBaseUrl}/tx/${txHash}` };
+}
+
 /**
  * Execute EVM withdrawal
  */
@@ -104,16 +125,8 @@ async function executeEVMWithdrawal(
   }
 
   const safeAddress = safeKeyConfig.safeAddress;
-  const safeServiceUrl = process.env.SAFE_RPC_URL || "https://safe-transaction-mainnet.safe.global";
-  
-  // Import Safe service
-  const { SafeMultisigService } = await import("../services/safe-multisig");
-  const safeService = new SafeMultisigService(safeServiceUrl);
-
-  // Get Safe nonce
-  const safeInfo = await fetch(`${safeServiceUrl}/api/v1/safes/${safeAddress}/`);
-  const safeData = await safeInfo.json();
-  const nonce = safeData.nonce || 0;
+  const safeService = new SafeMultisigService(withdrawal.networkId);
+  const { nonce } = await safeService.getSafeInfo(safeAddress);
 
   // Build transaction based on asset type
   let transaction;
@@ -136,23 +149,15 @@ async function executeEVMWithdrawal(
     );
   }
 
-  // TODO: Sign transaction with KMS or get signature from authorized signer
-  // For now, this requires external signing
-  // The signature should be generated offline or via KMS
-  
-  // This is a placeholder - in production, you need to:
-  // 1. Get signature from authorized Safe signer (via KMS/HSM/offline)
-  // 2. Propose transaction to Safe service
-  // 3. Wait for execution (if threshold is met) or monitor for execution
-  
-  throw new Error(
-    "EVM withdrawal requires Safe transaction signing - implement KMS/signer integration"
+  if (!network.chainId) throw new Error(`No chainId for ${network.networkId}`);
+  const { safeTxHash } = await proposeWithTreasurySigner(
+    safeService,
+    repo,
+    safeAddress,
+    network.chainId,
+    transaction
   );
-  
-  // Example (once signature is obtained):
-  // const signature = await getSignatureFromKMS(transaction, safeAddress);
-  // const safeTxHash = await safeService.proposeTransaction(safeAddress, transaction, signature);
-  // return { txHash: safeTxHash };
+  return { txHash: safeTxHash };
 }
 
 /**
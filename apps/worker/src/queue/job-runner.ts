@@ -0,0 +1,120 @@
+/**
+ * Job Runner
+ *
+ * Polls the Firestore job queue, claims jobs under a lease and dispatches
+ * them to registered processors. Leases are renewed while a job runs so
+ * long scans are not picked up twice; if the process dies, the lease
+ * expires and another worker reclaims the job.
+ */
+
+import * as admin from "firebase-admin";
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import { FirestoreJobQueue, Job } from "@opencause/firebase";
+import { withErrorTracking } from "../jobs/evm-indexer-error-handler";
+
+export type JobProcessor = (job: Job, firestore: admin.firestore.Firestore) => Promise<void>;
+
+export interface JobRunnerOptions {
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  workerId?: string;
+}
+
+export class JobRunner {
+  private queue: FirestoreJobQueue;
+  private processors: Map<string, JobProcessor> = new Map();
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<void> | null = null;
+
+  readonly workerId: string;
+  private pollIntervalMs: number;
+  private leaseMs: number;
+
+  constructor(
+    private firestore: admin.firestore.Firestore,
+    options: JobRunnerOptions = {}
+  ) {
+    this.queue = new FirestoreJobQueue(firestore);
+    this.workerId = options.workerId || `${hostname()}-${process.pid}-${randomBytes(3).toString("hex")}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? 2000;
+    this.leaseMs = options.leaseMs ?? 5 * 60 * 1000;
+  }
+
+  register(queueName: string, processor: JobProcessor) {
+    this.processors.set(queueName, withErrorTracking(processor));
+    return this;
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    console.log(`[JobRunner] ${this.workerId} polling queues: ${[...this.processors.keys()].join(", ")}`);
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current job to settle
+   */
+  async stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    if (this.inFlight) await this.inFlight;
+  }
+
+  private schedule(delayMs: number) {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.inFlight = this.drain()
+        .catch((error) => console.error("[JobRunner] Poll error:", error))
+        .finally(() => {
+          this.inFlight = null;
+          this.schedule(this.pollIntervalMs);
+        });
+    }, delayMs);
+  }
+
+  /**
+   * Process jobs round-robin across queues until every queue is empty
+   */
+  private async drain() {
+    let processedAny = true;
+    while (this.running && processedAny) {
+      processedAny = false;
+      for (const queueName of this.processors.keys()) {
+        if (!this.running) return;
+        const job = await this.queue.claim(queueName, this.workerId, this.leaseMs);
+        if (!job) continue;
+        processedAny = true;
+        await this.runJob(job);
+      }
+    }
+  }
+
+  private async runJob(job: Job) {
+    const processor = this.processors.get(job.queueName);
+    if (!processor) return;
+
+    const heartbeat = setInterval(() => {
+      this.queue.extendLease(job, this.workerId, this.leaseMs).catch((error) => {
+        console.warn(`[JobRunner] Failed to extend lease for ${job.queueName}:${job.id}:`, error.message);
+      });
+    }, Math.floor(this.leaseMs / 3));
+
+    const startedAt = Date.now();
+    try {
+      await processor(job, this.firestore);
+      await this.queue.complete(job, this.workerId);
+      console.log(`[JobRunner] ✅ ${job.queueName}:${job.id} completed in ${Date.now() - startedAt}ms`);
+    } catch (error) {
+      const status = await this.queue.fail(job, this.workerId, error);
+      console.warn(
+        `[JobRunner] ❌ ${job.queueName}:${job.id} failed (attempt ${job.attemptsMade}/${job.maxAttempts}) -> ${status}`
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Queue Processors
+ *
+ * The one list of queues the worker drains, shared by both entry points so a
+ * queue cannot be registered in one and forgotten in the other.
+ */
+
+import { JOB_QUEUES } from "@opencause/firebase";
+import { JobRunner } from "./job-runner";
+import { processEVMIndexerJob } from "../jobs/evm-indexer";
+import { processUTXOWatcherJob } from "../jobs/utxo-watcher";
+import { processSolWatcherJob } from "../jobs/sol-watcher";
+import { processStatsRefresherJob } from "../jobs/stats-refresher";
+import { processIntentExpirerJob } from "../jobs/intent-expirer";
+import { processWithdrawalExecutorJob } from "../jobs/withdrawal-executor";
+import { processNotificationJob } from "../jobs/notification";
+import { processIPFSPinJob } from "../jobs/ipfs-pin";
+import { processDonationRefundJob } from "../jobs/donation-refund";
+import { processSafeWithdrawalWatcherJob } from "../jobs/safe-withdrawal-watcher";
+import { processEvidenceAnchorJob } from "../jobs/evidence-anchor";
+import { processLedgerAnchorJob } from "../jobs/ledger-anchor";
+import { processDepositSweeperJob } from "../jobs/deposit-sweeper";
+import { processDepositReturnJob } from "../jobs/deposit-return";
+import { processSettlementReconciliationJob } from "../jobs/settlement-reconciliation";
+import { IntentWatchProcessor } from "../jobs/intent-watch.processor";
+
+export function registerProcessors(runner: JobRunner): JobRunner {
+  const intentWatch = new IntentWatchProcessor();
+
+  return runner
+    .register(JOB_QUEUES.INTENT_WATCH, () => intentWatch.tick())
+    .register(JOB_QUEUES.EVM_INDEXER, processEVMIndexerJob)
+    .register(JOB_QUEUES.UTXO_WATCHER, processUTXOWatcherJob)
+    .register(JOB_QUEUES.SOL_WATCHER, processSolWatcherJob)
+    .register(JOB_QUEUES.STATS_REFRESHER, processStatsRefresherJob)
+    .register(JOB_QUEUES.INTENT_EXPIRER, processIntentExpirerJob)
+    .register(JOB_QUEUES.WITHDRAWAL_EXECUTOR, processWithdrawalExecutorJob)
+    .register(JOB_QUEUES.NOTIFICATIONS, processNotificationJob)
+    .register(JOB_QUEUES.IPFS_PIN, processIPFSPinJob)
+    .register(JOB_QUEUES.DONATION_REFUND, processDonationRefundJob)
+    .register(JOB_QUEUES.SAFE_WITHDRAWAL_WATCHER, processSafeWithdrawalWatcherJob)
+    .register(JOB_QUEUES.EVIDENCE_ANCHOR, processEvidenceAnchorJob)
+    .register(JOB_QUEUES.LEDGER_ANCHOR, processLedgerAnchorJob)
+    .register(JOB_QUEUES.DEPOSIT_SWEEPER, processDepositSweeperJob)
+    .register(JOB_QUEUES.DEPOSIT_RETURN, processDepositReturnJob)
+    .register(JOB_QUEUES.SETTLEMENT_RECONCILIATION, processSettlementReconciliationJob);
+}
@@ -0,0 +1,91 @@
+/**
+ * Cron Expression
+ *
+ * Minimal cron matcher supporting 5 fields (minute hour day month weekday)
+ * or 6 fields with a leading seconds field. Each field accepts `*`, lists
+ * (`1,5`), ranges (`1-5`) and steps (`*\/10`, `0-30/5`). Expressions are
+ * evaluated in the given IANA time zone, not the host's.
+ */
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // second
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 6], // day of week (0 = Sunday)
+];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export class CronExpression {
+  private fields: Set<number>[];
+  private formatter: Intl.DateTimeFormat;
+
+  constructor(
+    readonly source: string,
+    readonly timeZone = "UTC"
+  ) {
+    const parts = source.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Invalid cron expression "${source}": expected 5 or 6 fields`);
+    }
+    // 5-field expressions run at second 0
+    const withSeconds = parts.length === 5 ? ["0", ...parts] : parts;
+    this.fields = withSeconds.map((part, i) => parseField(part, FIELD_RANGES[i], source));
+    // Throws a RangeError for an unknown time zone
+    this.formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      second: "numeric",
+      minute: "numeric",
+      hour: "numeric",
+      day: "numeric",
+      month: "numeric",
+      weekday: "short",
+    });
+  }
+
+  matches(date: Date): boolean {
+    const parts = Object.fromEntries(this.formatter.formatToParts(date).map((part) => [part.type, part.value]));
+    const values = [
+      parseInt(parts.second, 10),
+      parseInt(parts.minute, 10),
+      parseInt(parts.hour, 10),
+      parseInt(parts.day, 10),
+      parseInt(parts.month, 10),
+      WEEKDAYS.indexOf(parts.weekday),
+    ];
+    return values.every((value, i) => this.fields[i].has(value));
+  }
+}
+
+function parseField(field: string, [min, max]: [number, number], source: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart ? parseInt(stepPart, 10) : 1;
+    if (!Number.isInteger(step) || step <= 0) {
+      throw new Error(`Invalid step "${part}" in cron expression "${source}"`);
+    }
+
+    let start = min;
+    let end = max;
+    if (rangePart !== "*") {
+      const [a, b] = rangePart.split("-").map((v) => parseInt(v, 10));
+      start = a;
+      end = b === undefined ? (stepPart ? max : a) : b;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Field "${part}" out of range ${min}-${max} in cron expression "${source}"`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
@@ -0,0 +1,76 @@
+import * as admin from "firebase-admin";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+import { LeaderLock } from "./leader-lock";
+
+describe("LeaderLock", () => {
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  const locks: LeaderLock[] = [];
+
+  const TTL_MS = 900;
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const newLock = (ownerId: string) => {
+    const lock = new LeaderLock(db, "scheduler_test", ownerId, TTL_MS);
+    locks.push(lock);
+    return lock;
+  };
+  const waitForLeader = async (lock: LeaderLock, timeoutMs = 5_000) => {
+    const deadline = Date.now() + timeoutMs;
+    while (!lock.isLeader() && Date.now() < deadline) await sleep(50);
+    return lock.isLeader();
+  };
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["worker_locks"]);
+  });
+
+  afterEach(async () => {
+    await Promise.all(locks.splice(0).map((lock) => lock.stop()));
+  });
+
+  it("keeps a second replica out while the holder keeps renewing", async () => {
+    const first = newLock("replica-a");
+    first.start();
+    expect(await waitForLeader(first)).toBe(true);
+
+    const second = newLock("replica-b");
+    second.start();
+    // Well past one TTL; the holder renews every TTL / 3
+    await sleep(TTL_MS * 2);
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect((await db.collection("worker_locks").doc("scheduler_test").get()).get("owner")).toBe("replica-a");
+  });
+
+  it("lets another replica take over only once a dead holder's lease expires", async () => {
+    // A holder that stopped renewing without releasing the lock
+    const expiresAt = Date.now() + TTL_MS * 2;
+    await db
+      .collection("worker_locks")
+      .doc("scheduler_test")
+      .set({ owner: "crashed", expiresAt: admin.firestore.Timestamp.fromMillis(expiresAt) });
+
+    const lock = newLock("replica-b");
+    lock.start();
+    await sleep(TTL_MS);
+    expect(lock.isLeader()).toBe(false);
+
+    expect(await waitForLeader(lock)).toBe(true);
+    expect(Date.now()).toBeGreaterThanOrEqual(expiresAt);
+  });
+
+  it("hands over straight away when the holder releases the lock", async () => {
+    const first = newLock("replica-a");
+    first.start();
+    expect(await waitForLeader(first)).toBe(true);
+    const second = newLock("replica-b");
+    second.start();
+
+    await first.stop();
+
+    expect(await waitForLeader(second, TTL_MS)).toBe(true);
+    expect(first.isLeader()).toBe(false);
+  });
+});
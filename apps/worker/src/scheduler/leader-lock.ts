@@ -0,0 +1,80 @@
+/**
+ * Leader Lock
+ *
+ * Firestore lease in `worker_locks/{name}` so only one worker replica runs
+ * scheduled jobs at a time. The holder renews the lease periodically; if it
+ * dies, another replica takes over once the lease expires.
+ */
+
+import * as admin from "firebase-admin";
+
+export class LeaderLock {
+  private leader = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private firestore: admin.firestore.Firestore,
+    private name: string,
+    private ownerId: string,
+    private ttlMs: number = 30_000
+  ) {}
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  start() {
+    const renew = () => {
+      this.tryAcquire()
+        .then((acquired) => {
+          if (acquired !== this.leader) {
+            console.log(`[LeaderLock] ${this.ownerId} ${acquired ? "acquired" : "lost"} leadership of "${this.name}"`);
+          }
+          this.leader = acquired;
+        })
+        .catch((error) => {
+          // Can't confirm the lease; stop acting as leader until we can
+          console.warn(`[LeaderLock] Renewal failed:`, error.message);
+          this.leader = false;
+        });
+    };
+    renew();
+    this.timer = setInterval(renew, Math.floor(this.ttlMs / 3));
+  }
+
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    if (!this.leader) return;
+
+    this.leader = false;
+    const ref = this.firestore.collection("worker_locks").doc(this.name);
+    await this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      if (snap.exists && snap.data()?.owner === this.ownerId) {
+        t.delete(ref);
+      }
+    });
+  }
+
+  private async tryAcquire(): Promise<boolean> {
+    const ref = this.firestore.collection("worker_locks").doc(this.name);
+
+    return this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      const now = Date.now();
+      const data = snap.data();
+
+      const heldByOther =
+        data && data.owner !== this.ownerId && data.expiresAt?.toMillis?.() > now;
+      if (heldByOther) return false;
+
+      t.set(ref, {
+        owner: this.ownerId,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now + this.ttlMs),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  }
+}
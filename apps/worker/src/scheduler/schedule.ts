@@ -0,0 +1,146 @@
+/**
+ * Worker Schedule
+ *
+ * Cron configuration for every periodic worker job. Each default can be
+ * overridden with `SCHEDULE_<JOB_NAME>` (e.g. SCHEDULE_UTXO_WATCHER="0 * * * * *")
+ * or disabled with the value "off". Times are in SCHEDULER_TIME_ZONE (UTC
+ * by default).
+ */
+
+import * as admin from "firebase-admin";
+import { FirestoreJobQueue, JOB_QUEUES } from "@opencause/firebase";
+import { getEnabledNetworks } from "@opencause/crypto-core";
+import { ScheduledJobDefinition } from "./scheduler";
+
+export const DEFAULT_SCHEDULES: Record<string, string> = {
+  intent_watch: "*/10 * * * * *",
+  evm_indexer: "*/30 * * * * *",
+  utxo_watcher: "0 * * * * *",
+  sol_watcher: "*/30 * * * * *",
+  intent_expirer: "0 * * * * *",
+  stats_refresher: "0 */5 * * * *",
+  withdrawal_executor: "*/30 * * * * *",
+  safe_withdrawal_watcher: "0 * * * * *",
+  evidence_anchor: "0 */10 * * * *", // One Merkle root per campaign and kind every 10 minutes
+  ledger_anchor: "0 30 * * * *", // Hourly ledger root per campaign, when its ledger changed
+  deposit_sweeper: "0 0 * * * *",
+  settlement_reconciliation: "0 0 1 * * *", // 01:00 UTC = 06:30 IST, after T+1 settlements are reported
+  webhook_retry: "0 * * * * *",
+};
+
+/**
+ * Scheduled runs only enqueue work; the job runner processes it with the
+ * queue's retry, backoff and DEAD handling. A run still queued or in flight
+ * (including one backing off) absorbs the next slot, since the job id is
+ * fixed per queue and network.
+ */
+export function buildSchedule(firestore: admin.firestore.Firestore): ScheduledJobDefinition[] {
+  const queue = new FirestoreJobQueue(firestore);
+
+  const enqueue = async (queueName: string, data: Record<string, any> = {}, key?: string) => {
+    await queue.add(queueName, "scheduled", data, {
+      jobId: key ? `scheduled_${queueName}_${key}` : `scheduled_${queueName}`,
+      replaceSettled: true,
+    });
+  };
+  const enqueuePerNetwork = async (queueName: string, networkIds: string[]) => {
+    for (const networkId of networkIds) {
+      await enqueue(queueName, { networkId }, networkId);
+    }
+  };
+
+  const jobs: Record<string, () => Promise<void>> = {
+    intent_watch: () => enqueue(JOB_QUEUES.INTENT_WATCH),
+
+    evm_indexer: () =>
+      enqueuePerNetwork(
+        JOB_QUEUES.EVM_INDEXER,
+        getEnabledNetworks()
+          .filter((n) => n.type === "EVM" && process.env[rpcEnvKey(n.networkId)])
+          .map((n) => n.networkId)
+      ),
+
+    utxo_watcher: () =>
+      enqueuePerNetwork(
+        JOB_QUEUES.UTXO_WATCHER,
+        getEnabledNetworks()
+          .filter((n) => n.type === "UTXO")
+          .map((n) => n.networkId)
+      ),
+
+    sol_watcher: () =>
+      enqueuePerNetwork(
+        JOB_QUEUES.SOL_WATCHER,
+        getEnabledNetworks()
+          .filter((n) => n.type === "SOL")
+          .map((n) => n.networkId)
+      ),
+
+    intent_expirer: () => enqueue(JOB_QUEUES.INTENT_EXPIRER),
+
+    stats_refresher: async () => {
+      const deposits = await firestore.collection("campaign_deposits").select("campaignId").get();
+      const campaignIds = new Set(deposits.docs.map((doc) => doc.get("campaignId") as string));
+      for (const campaignId of campaignIds) {
+        await enqueue(JOB_QUEUES.STATS_REFRESHER, { campaignId }, campaignId);
+      }
+    },
+
+    // Safety net for approvals that never reached the queue; the deterministic
+    // job id dedupes against jobs already enqueued by the API
+    withdrawal_executor: async () => {
+      const approved = await firestore
+        .collection("withdrawals")
+        .where("status", "==", "APPROVED")
+        .where("payoutRail", "==", "CRYPTO")
+        .get();
+      // Reviewer-approved crypto withdrawals that have no Safe proposal yet
+      const approvedPrivate = await firestore
+        .collection("withdrawals_private")
+        .where("status", "==", "APPROVED")
+        .where("method", "==", "CRYPTO")
+        .get();
+      const unproposed = approvedPrivate.docs.filter((doc) => !doc.get("safe"));
+      for (const doc of [...approved.docs, ...unproposed]) {
+        await queue.add(JOB_QUEUES.WITHDRAWAL_EXECUTOR, "execute", { withdrawalId: doc.id }, {
+          jobId: `withdrawal_executor_${doc.id}`,
+          attempts: 3,
+        });
+      }
+    },
+
+    safe_withdrawal_watcher: () => enqueue(JOB_QUEUES.SAFE_WITHDRAWAL_WATCHER),
+
+    evidence_anchor: () => enqueue(JOB_QUEUES.EVIDENCE_ANCHOR),
+
+    ledger_anchor: () => enqueue(JOB_QUEUES.LEDGER_ANCHOR),
+
+    deposit_sweeper: () =>
+      enqueuePerNetwork(
+        JOB_QUEUES.DEPOSIT_SWEEPER,
+        getEnabledNetworks()
+          .filter((n) => n.type !== "EVM" || process.env[rpcEnvKey(n.networkId)])
+          .map((n) => n.networkId)
+      ),
+
+    settlement_reconciliation: () => enqueue(JOB_QUEUES.SETTLEMENT_RECONCILIATION),
+
+    // Run by an API replica, which owns the payment event handlers
+    webhook_retry: () => enqueue(JOB_QUEUES.WEBHOOK_RETRY),
+  };
+
+  const definitions: ScheduledJobDefinition[] = [];
+  for (const [name, run] of Object.entries(jobs)) {
+    const cron = process.env[`SCHEDULE_${name.toUpperCase()}`] || DEFAULT_SCHEDULES[name];
+    if (cron === "off") {
+      console.log(`[Scheduler] ${name} disabled`);
+      continue;
+    }
+    definitions.push({ name, cron, run });
+  }
+  return definitions;
+}
+
+function rpcEnvKey(networkId: string): string {
+  return `${networkId.toUpperCase().replace(/-/g, "_")}_RPC_URL`;
+}
@@ -0,0 +1,66 @@
+import { Scheduler } from "./scheduler";
+
+describe("Scheduler", () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-01-01T00:00:00.500Z") });
+  });
+
+  afterEach(async () => {
+    await scheduler?.stop();
+    jest.useRealTimers();
+  });
+
+  // A run that stays in flight until the test finishes it
+  const controlledRun = () => {
+    const finish: Array<() => void> = [];
+    const run = jest.fn(() => new Promise<void>((resolve) => finish.push(resolve)));
+    return { run, finishAll: () => finish.splice(0).forEach((resolve) => resolve()) };
+  };
+
+  it("skips a slot while the previous run is still in flight", async () => {
+    const { run, finishAll } = controlledRun();
+    scheduler = new Scheduler(() => true).register({ name: "watcher", cron: "* * * * * *", run });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStatus()[0]).toMatchObject({ running: true, runs: 1, skippedOverlaps: 2 });
+
+    finishAll();
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus()[0]).toMatchObject({ runs: 2, skippedOverlaps: 2, lastSuccessAt: expect.any(String) });
+    finishAll();
+  });
+
+  it("records a failed run and keeps firing", async () => {
+    const run = jest.fn().mockRejectedValueOnce(new Error("enqueue failed")).mockResolvedValue(undefined);
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    scheduler = new Scheduler(() => true).register({ name: "watcher", cron: "* * * * * *", run });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(2_000);
+
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(scheduler.getStatus()[0]).toMatchObject({ runs: 2, failures: 1, lastError: "enqueue failed" });
+  });
+
+  it("fires nothing unless this replica is the leader", async () => {
+    let leader = false;
+    const run = jest.fn().mockResolvedValue(undefined);
+    scheduler = new Scheduler(() => leader).register({ name: "watcher", cron: "* * * * * *", run });
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(3_000);
+    expect(run).not.toHaveBeenCalled();
+
+    leader = true;
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Scheduler
+ *
+ * Runs registered jobs on their cron schedule. A job whose previous run is
+ * still in flight is skipped (overlap protection), and nothing runs unless
+ * this replica holds the leader lock. Cron expressions are evaluated in one
+ * pinned time zone (UTC by default), whatever the host's zone is.
+ */
+
+import { CronExpression } from "./cron";
+
+export interface ScheduledJobDefinition {
+  name: string;
+  cron: string;
+  run: () => Promise<void>;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  cron: string;
+  running: boolean;
+  runs: number;
+  failures: number;
+  skippedOverlaps: number;
+  lastRunAt: string | null;
+  lastDurationMs: number | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+interface ScheduledJob {
+  definition: ScheduledJobDefinition;
+  cron: CronExpression;
+  status: ScheduledJobStatus;
+  lastFiredSecond: number | null;
+}
+
+export class Scheduler {
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Set<Promise<void>> = new Set();
+
+  constructor(
+    private isLeader: () => boolean,
+    private timeZone = "UTC"
+  ) {}
+
+  register(definition: ScheduledJobDefinition) {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Scheduled job "${definition.name}" already registered`);
+    }
+
+    this.jobs.set(definition.name, {
+      definition,
+      cron: new CronExpression(definition.cron, this.timeZone),
+      lastFiredSecond: null,
+      status: {
+        name: definition.name,
+        cron: definition.cron,
+        running: false,
+        runs: 0,
+        failures: 0,
+        skippedOverlaps: 0,
+        lastRunAt: null,
+        lastDurationMs: null,
+        lastSuccessAt: null,
+        lastError: null,
+        lastErrorAt: null,
+      },
+    });
+    return this;
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(new Date()), 1000);
+  }
+
+  /**
+   * Stop firing new runs and wait for in-flight runs to finish
+   */
+  async stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    await Promise.allSettled([...this.inFlight]);
+  }
+
+  getStatus(): ScheduledJobStatus[] {
+    return [...this.jobs.values()].map((job) => ({ ...job.status }));
+  }
+
+  private tick(now: Date) {
+    if (!this.isLeader()) return;
+
+    const second = Math.floor(now.getTime() / 1000);
+    for (const job of this.jobs.values()) {
+      // Interval drift can land two ticks in the same second
+      if (job.lastFiredSecond === second || !job.cron.matches(now)) continue;
+      job.lastFiredSecond = second;
+
+      if (job.status.running) {
+        job.status.skippedOverlaps++;
+        continue;
+      }
+
+      const run = this.runJob(job);
+      this.inFlight.add(run);
+      run.finally(() => this.inFlight.delete(run));
+    }
+  }
+
+  private async runJob(job: ScheduledJob) {
+    const startedAt = Date.now();
+    job.status.running = true;
+    job.status.runs++;
+    job.status.lastRunAt = new Date(startedAt).toISOString();
+
+    try {
+      await job.definition.run();
+      job.status.lastSuccessAt = new Date().toISOString();
+    } catch (error: any) {
+      job.status.failures++;
+      job.status.lastError = error?.message || String(error);
+      job.status.lastErrorAt = new Date().toISOString();
+      console.error(`[Scheduler] ❌ ${job.definition.name} failed:`, error);
+    } finally {
+      job.status.running = false;
+      job.status.lastDurationMs = Date.now() - startedAt;
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Status Server
+ *
+ * Small HTTP endpoint for health checks and scheduler visibility:
+ *   GET /health  -> 200 "ok"
+ *   GET /status  -> leader state, each schedule slot's last enqueue, and
+ *                   each queue's last run, duration, error and DEAD count
+ */
+
+import * as http from "http";
+import { FirestoreJobQueue } from "@opencause/firebase";
+import { Scheduler } from "./scheduler";
+import { LeaderLock } from "./leader-lock";
+
+export function startStatusServer(
+  port: number,
+  workerId: string,
+  scheduler: Scheduler,
+  leaderLock: LeaderLock,
+  queue: FirestoreJobQueue,
+  queueNames: string[]
+): http.Server {
+  const startedAt = new Date().toISOString();
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+
+    if (req.method === "GET" && path === "/health") {
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end("ok");
+      return;
+    }
+
+    if (req.method === "GET" && path === "/status") {
+      try {
+        // Runs are recorded by whichever replica claimed the job, not just this one
+        const queues = await queue.getQueueStatus(queueNames);
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+          JSON.stringify({
+            workerId,
+            leader: leaderLock.isLeader(),
+            startedAt,
+            schedule: scheduler.getStatus(),
+            queues,
+          })
+        );
+      } catch (error: any) {
+        res.writeHead(500, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: error?.message || String(error) }));
+      }
+      return;
+    }
+
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+  });
+
+  server.listen(port, () => {
+    console.log(`📊 Worker status on http://localhost:${port}/status`);
+  });
+  return server;
+}
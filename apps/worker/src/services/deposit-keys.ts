@@ -0,0 +1,47 @@
+/**
+ * Deposit Keys
+ *
+ * Private keys of HD-derived deposit addresses, for moving funds out of
+ * them. The API keeps the master seed in system_config/hd_wallet_seed,
+ * AES-256-CBC encrypted with HD_WALLET_ENCRYPTION_KEY / HD_WALLET_ENCRYPTION_IV;
+ * the worker needs the same pair to re-derive a deposit's key from the
+ * derivationPath stored on its campaign_deposits doc.
+ */
+
+import * as admin from "firebase-admin";
+import { createDecipheriv } from "crypto";
+import { HDKey } from "viem/accounts";
+
+let masterKey: HDKey | null = null;
+
+async function loadMasterKey(db: admin.firestore.Firestore): Promise<HDKey> {
+  if (masterKey) return masterKey;
+
+  const key = process.env.HD_WALLET_ENCRYPTION_KEY;
+  const iv = process.env.HD_WALLET_ENCRYPTION_IV;
+  if (!key || !iv) {
+    throw new Error("HD_WALLET_ENCRYPTION_KEY and HD_WALLET_ENCRYPTION_IV must match the API's to sign for deposit addresses");
+  }
+
+  const encryptedSeed = (await db.collection("system_config").doc("hd_wallet_seed").get()).get("encryptedSeed");
+  if (!encryptedSeed) throw new Error("HD wallet seed not found in system_config");
+
+  const decipher = createDecipheriv("aes-256-cbc", Buffer.from(key, "hex"), Buffer.from(iv, "hex"));
+  const seed = Buffer.concat([decipher.update(Buffer.from(encryptedSeed, "hex")), decipher.final()]);
+  masterKey = HDKey.fromMasterSeed(seed);
+  return masterKey;
+}
+
+/**
+ * Private key and compressed public key for a derivation path
+ */
+export async function deriveDepositKey(
+  db: admin.firestore.Firestore,
+  derivationPath: string
+): Promise<{ privateKey: Uint8Array; publicKey: Uint8Array }> {
+  const derived = (await loadMasterKey(db)).derive(derivationPath);
+  if (!derived.privateKey || !derived.publicKey) {
+    throw new Error(`Could not derive a key for ${derivationPath}`);
+  }
+  return { privateKey: derived.privateKey, publicKey: derived.publicKey };
+}
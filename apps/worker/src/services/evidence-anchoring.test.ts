@@ -0,0 +1,184 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import { createPublicClient, createWalletClient, http, keccak256, parseAbi, toHex } from "viem";
+import type { Abi, Address, Hash, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { buildMerkleTree, merkleLeaf, verifyMerkleProof } from "@opencause/crypto-core";
+import { EvidenceAnchorKind } from "@opencause/firebase";
+import { getTestAdminFirestore, clearFirestoreCollections, startAnvil, AnvilNode } from "@opencause/testkit";
+import { anchorPendingEvidence, getEvidenceRegistryConfig, submitEvidenceRoot } from "./evidence-anchoring";
+
+// Build with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+const REGISTRY_ABI = parseAbi([
+  "function anchorEvidence(uint8 kind, bytes32 campaignId, bytes32 evidenceHash, uint256 amount)",
+  "function evidenceHashExists(bytes32 evidenceHash) view returns (bool)",
+]);
+
+describe("Evidence anchoring", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let registryAddress: Address;
+  const env = { ...process.env };
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+
+  const newHash = () => toHex(randomBytes(32));
+  const isAnchored = (root: Hex) =>
+    client().readContract({
+      address: registryAddress,
+      abi: REGISTRY_ABI,
+      functionName: "evidenceHashExists",
+      args: [root],
+    });
+
+  const seedItem = (evidenceHash: Hex, campaignId: string, kind: EvidenceAnchorKind, fields: object = {}) =>
+    db
+      .collection("evidence_anchors")
+      .doc(evidenceHash.slice(2))
+      .set({ evidenceHash, kind, campaignId, amount: null, source: null, status: "PENDING", ...fields });
+
+  // A batch recorded by a run that died before saving its tx hash
+  const seedSubmittedBatch = async (campaignId: string, hashes: Hex[], txHash: Hash | null = null) => {
+    const root = buildMerkleTree(hashes.map(merkleLeaf)).root;
+    const batchRef = db.collection("evidence_batches").doc();
+    await batchRef.set({
+      campaignId,
+      kind: "WITHDRAWAL_REQUEST",
+      merkleRoot: root,
+      leafCount: hashes.length,
+      evidenceHashes: hashes,
+      networkId: "polygon_mainnet",
+      chainId: 137,
+      registryAddress,
+      status: "SUBMITTED",
+      txHash,
+      blockNumber: null,
+      explorerUrl: null,
+      error: null,
+    });
+    for (const hash of hashes) {
+      await seedItem(hash, campaignId, "WITHDRAWAL_REQUEST", { status: "SUBMITTED", batchId: batchRef.id });
+    }
+    return { batchRef, root };
+  };
+
+  const items = async () =>
+    (await db.collection("evidence_anchors").get()).docs.map((doc) => doc.data() as Record<string, any>);
+
+  beforeAll(async () => {
+    // Polygon's chain id; evidence is anchored on polygon_mainnet by default
+    anvil = await startAnvil({ port: 8551, chainId: 137 });
+    const { abi, bytecode } = artifact("EvidenceRegistry");
+    const hash = await wallet().deployContract({ abi, bytecode, account: account(), chain: null });
+    registryAddress = (await client().waitForTransactionReceipt({ hash })).contractAddress!;
+
+    process.env.TREASURY_SIGNER = "local";
+    process.env.PRIVATE_KEY = anvil.privateKeys[0];
+    process.env.POLYGON_MAINNET_RPC_URL = anvil.rpcUrl;
+    process.env.POLYGON_MAINNET_EVIDENCE_REGISTRY_ADDRESS = registryAddress;
+  }, 30_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["evidence_anchors", "evidence_batches", "key_configs"]);
+  });
+
+  it("anchors one root per campaign and kind, with an inclusion proof per item", async () => {
+    const withdrawals = [newHash(), newHash(), newHash()];
+    const proof = newHash();
+    const other = newHash();
+    for (const hash of withdrawals) await seedItem(hash, "camp1", "WITHDRAWAL_REQUEST");
+    await seedItem(proof, "camp1", "MILESTONE_PROOF");
+    await seedItem(other, "camp2", "WITHDRAWAL_REQUEST");
+
+    await anchorPendingEvidence(db);
+
+    const batches = (await db.collection("evidence_batches").get()).docs.map((doc) => doc.data());
+    expect(batches).toHaveLength(3);
+    expect(batches.every((batch) => batch.status === "ANCHORED")).toBe(true);
+    const batch = batches.find((b) => b.campaignId === "camp1" && b.kind === "WITHDRAWAL_REQUEST")!;
+    expect(batch).toMatchObject({ leafCount: 3, evidenceHashes: withdrawals });
+    expect(await isAnchored(batch.merkleRoot)).toBe(true);
+
+    for (const item of await items()) {
+      expect(item).toMatchObject({ status: "ANCHORED", txHash: expect.any(String), blockNumber: expect.any(String) });
+      expect(verifyMerkleProof(item.leaf, item.proof, item.merkleRoot)).toBe(true);
+    }
+  });
+
+  it("settles a batch whose root landed although its tx hash was never saved", async () => {
+    const hashes = [newHash(), newHash()];
+    const { batchRef, root } = await seedSubmittedBatch("camp1", hashes);
+    const config = getEvidenceRegistryConfig()!;
+    const txHash = await submitEvidenceRoot(db, config, "WITHDRAWAL_REQUEST", "camp1", root, 0n);
+    await client().waitForTransactionReceipt({ hash: txHash });
+
+    await anchorPendingEvidence(db);
+
+    expect((await batchRef.get()).data()).toMatchObject({ status: "ANCHORED", txHash });
+    expect(await items()).toEqual(hashes.map(() => expect.objectContaining({ status: "ANCHORED", txHash })));
+  });
+
+  it("settles pending items from the registry instead of anchoring their root again", async () => {
+    // Released by an earlier run whose tx landed afterwards
+    const hashes = [newHash(), newHash()];
+    for (const hash of hashes) await seedItem(hash, "camp1", "WITHDRAWAL_REQUEST");
+    const root = buildMerkleTree(hashes.map(merkleLeaf)).root;
+    const txHash = await submitEvidenceRoot(db, getEvidenceRegistryConfig()!, "WITHDRAWAL_REQUEST", "camp1", root, 0n);
+    await client().waitForTransactionReceipt({ hash: txHash });
+
+    await anchorPendingEvidence(db);
+
+    const batches = (await db.collection("evidence_batches").get()).docs.map((doc) => doc.data());
+    expect(batches).toEqual([expect.objectContaining({ status: "ANCHORED", merkleRoot: root, txHash })]);
+  });
+
+  it("releases a batch whose root tx was never sent and anchors its items again", async () => {
+    const hashes = [newHash()];
+    const { batchRef } = await seedSubmittedBatch("camp1", hashes);
+
+    await anchorPendingEvidence(db);
+
+    expect((await batchRef.get()).data()).toMatchObject({ status: "FAILED", error: "Root tx was never sent" });
+    const [item] = await items();
+    expect(item).toMatchObject({ status: "ANCHORED" });
+    expect(item.batchId).not.toBe(batchRef.id);
+  });
+
+  it("releases a batch whose root tx reverted", async () => {
+    const hashes = [newHash()];
+    // A zero hash reverts with InvalidEvidenceHash; the gas limit skips estimation
+    const reverted = await wallet().writeContract({
+      address: registryAddress,
+      abi: REGISTRY_ABI,
+      functionName: "anchorEvidence",
+      args: [1, keccak256(toHex("camp1")), `0x${"00".repeat(32)}`, 0n],
+      gas: 100_000n,
+      account: account(),
+      chain: null,
+    });
+    await client().waitForTransactionReceipt({ hash: reverted });
+    const { batchRef } = await seedSubmittedBatch("camp1", hashes, reverted);
+
+    await anchorPendingEvidence(db);
+
+    expect((await batchRef.get()).data()).toMatchObject({
+      status: "FAILED",
+      error: `Root tx ${reverted} reverted`,
+    });
+    expect(await items()).toEqual([expect.objectContaining({ status: "ANCHORED" })]);
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Evidence Anchoring
+ *
+ * The API queues evidence hashes (approved withdrawal bundles, milestone
+ * proof files, INR donation receipts) as PENDING evidence_anchors items.
+ * Each run groups them per campaign and kind, builds a Merkle tree over them
+ * and anchors only the root through EvidenceRegistry.anchorEvidence(), one
+ * tx per batch. Every item keeps its leaf index and inclusion proof, so
+ * anyone can check it against the root emitted in EvidenceAnchored.
+ *
+ * The registry lives on EVIDENCE_NETWORK_ID (polygon_mainnet by default) at
+ * <NETWORK_ID>_EVIDENCE_REGISTRY_ADDRESS, reached through <NETWORK_ID>_RPC_URL.
+ */
+
+import * as admin from "firebase-admin";
+import { createPublicClient, createWalletClient, http, keccak256, parseAbi, parseAbiItem, toHex } from "viem";
+import type { Address, Hash, Hex, PublicClient } from "viem";
+import {
+  EvidenceAnchorDoc,
+  EvidenceAnchorKind,
+  EvidenceBatchDoc,
+  FirestoreRepository,
+} from "@opencause/firebase";
+import {
+  buildMerkleTree,
+  CryptoNetwork,
+  getMerkleProof,
+  getNetwork,
+  merkleLeaf,
+  toSignerAccount,
+} from "@opencause/crypto-core";
+import { getTreasurySigner } from "./treasury-signer";
+
+const EVIDENCE_REGISTRY_ABI = parseAbi([
+  "function anchorEvidence(uint8 kind, bytes32 campaignId, bytes32 evidenceHash, uint256 amount)",
+  "function evidenceHashExists(bytes32 evidenceHash) view returns (bool)",
+  // kind, campaignId, evidenceHash, submitter, amount, timestamp
+  "function evidenceRecords(bytes32 evidenceHash) view returns (uint8, bytes32, bytes32, address, uint256, uint256)",
+]);
+
+const EVIDENCE_ANCHORED_EVENT = parseAbiItem(
+  "event EvidenceAnchored(bytes32 indexed evidenceHash, uint8 indexed, bytes32 indexed, address, uint256)"
+);
+
+// EvidenceRegistry.EvidenceKind
+const KIND_INDEX: Record<EvidenceAnchorKind | "LEDGER_ROOT", number> = {
+  INR_DONATION: 0,
+  WITHDRAWAL_REQUEST: 1,
+  MILESTONE_PROOF: 2,
+  LEDGER_ROOT: 3,
+};
+
+// Leaves per root; keeps a batch's Firestore writes under the 500-op limit
+const MAX_BATCH_LEAVES = 256;
+const MAX_ITEMS_PER_RUN = 2_000;
+
+// Longest wait for a receipt within a run; slower txs are settled on the next run
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+export interface EvidenceRegistryConfig {
+  network: CryptoNetwork;
+  rpcUrl: string;
+  registryAddress: Address;
+}
+
+export function getEvidenceRegistryConfig(): EvidenceRegistryConfig | null {
+  const network = getNetwork(process.env.EVIDENCE_NETWORK_ID || "polygon_mainnet");
+  if (!network || network.type !== "EVM" || !network.chainId) return null;
+
+  const prefix = network.networkId.toUpperCase().replace(/-/g, "_");
+  const rpcUrl = process.env[`${prefix}_RPC_URL`];
+  const registryAddress = process.env[`${prefix}_EVIDENCE_REGISTRY_ADDRESS`];
+  if (!rpcUrl || !registryAddress) return null;
+
+  return { network, rpcUrl, registryAddress: registryAddress as Address };
+}
+
+/**
+ * Settle batches sent on earlier runs, then anchor everything still pending
+ */
+export async function anchorPendingEvidence(firestore: admin.firestore.Firestore): Promise<void> {
+  const config = getEvidenceRegistryConfig();
+  if (!config) {
+    console.log("[EvidenceAnchoring] No EvidenceRegistry configured, skipping");
+    return;
+  }
+
+  const client = createPublicClient({ transport: http(config.rpcUrl) }) as PublicClient;
+
+  const submitted = await firestore.collection("evidence_batches").where("status", "==", "SUBMITTED").get();
+  for (const doc of submitted.docs) {
+    await settleBatch(firestore, client, config, doc.id, doc.data() as EvidenceBatchDoc);
+  }
+
+  const pending = await firestore
+    .collection("evidence_anchors")
+    .where("status", "==", "PENDING")
+    .limit(MAX_ITEMS_PER_RUN)
+    .get();
+  if (pending.empty) return;
+
+  const groups = new Map<string, Array<EvidenceAnchorDoc & { id: string }>>();
+  for (const doc of pending.docs) {
+    const item = { id: doc.id, ...(doc.data() as EvidenceAnchorDoc) };
+    const key = `${item.campaignId}:${item.kind}`;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  for (const items of groups.values()) {
+    for (let i = 0; i < items.length; i += MAX_BATCH_LEAVES) {
+      try {
+        await anchorBatch(firestore, client, config, items.slice(i, i + MAX_BATCH_LEAVES));
+      } catch (error: any) {
+        console.error(
+          `[EvidenceAnchoring] Batch for ${items[0].campaignId} ${items[0].kind} failed:`,
+          error.shortMessage || error.message
+        );
+      }
+    }
+  }
+}
+
+async function anchorBatch(
+  firestore: admin.firestore.Firestore,
+  client: PublicClient,
+  config: EvidenceRegistryConfig,
+  items: Array<EvidenceAnchorDoc & { id: string }>
+): Promise<void> {
+  const { campaignId, kind } = items[0];
+  const leaves = items.map((item) => merkleLeaf(item.evidenceHash as Hex));
+  const tree = buildMerkleTree(leaves);
+  const batchRef = firestore.collection("evidence_batches").doc();
+  const now = admin.firestore.Timestamp.now();
+
+  // A run that died before saving its tx hash may have anchored the root
+  // already; the registry would revert sending it again
+  const anchored = await findAnchoredRoot(client, config, tree.root);
+
+  // Proofs are stored before the tx is sent: a crash leaves a SUBMITTED batch
+  // without txHash, which the next run settles from the registry or hands
+  // back to PENDING
+  const batch: EvidenceBatchDoc = {
+    campaignId,
+    kind,
+    merkleRoot: tree.root,
+    leafCount: items.length,
+    evidenceHashes: items.map((item) => item.evidenceHash),
+    networkId: config.network.networkId,
+    chainId: config.network.chainId!,
+    registryAddress: config.registryAddress,
+    status: "SUBMITTED",
+    txHash: null,
+    blockNumber: null,
+    explorerUrl: null,
+    error: null,
+    createdAt: now,
+    anchoredAt: null,
+    updatedAt: now,
+  };
+  const writes = firestore.batch();
+  writes.set(batchRef, batch);
+  items.forEach((item, index) => {
+    writes.update(firestore.collection("evidence_anchors").doc(item.id), {
+      status: "SUBMITTED",
+      batchId: batchRef.id,
+      leaf: leaves[index],
+      leafIndex: index,
+      proof: getMerkleProof(tree, index),
+      merkleRoot: tree.root,
+      updatedAt: now,
+    });
+  });
+  await writes.commit();
+
+  let txHash: Hash;
+  try {
+    // Item amounts differ in unit per kind; they stay with the items
+    txHash = anchored || (await submitEvidenceRoot(firestore, config, kind, campaignId, tree.root, 0n));
+  } catch (error: any) {
+    await releaseBatch(firestore, batchRef.id, batch, error.shortMessage || error.message);
+    throw error;
+  }
+
+  const explorerUrl = `${config.network.explorerBaseUrl}/tx/${txHash}`;
+  await batchRef.update({ txHash, explorerUrl, updatedAt: admin.firestore.Timestamp.now() });
+  console.log(`[EvidenceAnchoring] Anchoring ${items.length} ${kind} item(s) of ${campaignId} as ${tree.root}: ${txHash}`);
+
+  try {
+    await client.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS });
+  } catch {
+    return; // Still pending; settled on the next run
+  }
+  await settleBatch(firestore, client, config, batchRef.id, { ...batch, txHash, explorerUrl });
+}
+
+/**
+ * Send EvidenceRegistry.anchorEvidence() for a root from the treasury signer
+ */
+export async function submitEvidenceRoot(
+  firestore: admin.firestore.Firestore,
+  config: EvidenceRegistryConfig,
+  kind: EvidenceAnchorKind | "LEDGER_ROOT",
+  campaignId: string,
+  root: Hex,
+  amount: bigint
+): Promise<Hash> {
+  const account = await toSignerAccount(getTreasurySigner(new FirestoreRepository(firestore)));
+  const wallet = createWalletClient({ account, transport: http(config.rpcUrl) });
+  return wallet.writeContract({
+    address: config.registryAddress,
+    abi: EVIDENCE_REGISTRY_ABI,
+    functionName: "anchorEvidence",
+    args: [KIND_INDEX[kind], keccak256(toHex(campaignId)), root, amount],
+    account,
+    chain: null,
+  });
+}
+
+/**
+ * Hash of the tx that anchored a root, if the registry has it. Records keep their
+ * block timestamp, which narrows the EvidenceAnchored log search to the
+ * blocks of that second.
+ */
+export async function findAnchoredRoot(
+  client: PublicClient,
+  config: EvidenceRegistryConfig,
+  root: Hex
+): Promise<Hash | null> {
+  const registry = { address: config.registryAddress, abi: EVIDENCE_REGISTRY_ABI } as const;
+  const exists = await client.readContract({ ...registry, functionName: "evidenceHashExists", args: [root] });
+  if (!exists) return null;
+
+  const [, , , , , timestamp] = await client.readContract({
+    ...registry,
+    functionName: "evidenceRecords",
+    args: [root],
+  });
+  const logs = await client.getLogs({
+    address: config.registryAddress,
+    event: EVIDENCE_ANCHORED_EVENT,
+    args: [root],
+    fromBlock: await firstBlockAt(client, timestamp),
+    toBlock: (await firstBlockAt(client, timestamp + 1n)) - 1n,
+  });
+  if (logs.length === 0) {
+    throw new Error(`${root} is anchored but its EvidenceAnchored log was not found`);
+  }
+  return logs[0].transactionHash;
+}
+
+// First block at or after a timestamp; one past the latest block if none
+async function firstBlockAt(client: PublicClient, timestamp: bigint): Promise<bigint> {
+  let low = 0n;
+  let high = (await client.getBlockNumber()) + 1n;
+  while (low < high) {
+    const mid = (low + high) / 2n;
+    if ((await client.getBlock({ blockNumber: mid })).timestamp < timestamp) {
+      low = mid + 1n;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Mark a SUBMITTED batch and its items ANCHORED once the root tx is mined;
+ * a reverted or never-sent batch returns its items to PENDING. A batch
+ * whose tx hash was lost is settled from the registry if the root landed.
+ */
+async function settleBatch(
+  firestore: admin.firestore.Firestore,
+  client: PublicClient,
+  config: EvidenceRegistryConfig,
+  batchId: string,
+  batch: EvidenceBatchDoc
+): Promise<void> {
+  if (!batch.txHash) {
+    const anchored = await findAnchoredRoot(client, config, batch.merkleRoot as Hex);
+    if (!anchored) {
+      await releaseBatch(firestore, batchId, batch, "Root tx was never sent");
+      return;
+    }
+    batch = { ...batch, txHash: anchored };
+    await firestore.collection("evidence_batches").doc(batchId).update({ txHash: anchored });
+  }
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: batch.txHash as Hash });
+  } catch {
+    return; // Not mined yet
+  }
+
+  if (receipt.status !== "success") {
+    await releaseBatch(firestore, batchId, batch, `Root tx ${batch.txHash} reverted`);
+    return;
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const blockNumber = receipt.blockNumber.toString();
+  const explorerUrl = batch.explorerUrl || `${config.network.explorerBaseUrl}/tx/${batch.txHash}`;
+
+  const writes = firestore.batch();
+  writes.update(firestore.collection("evidence_batches").doc(batchId), {
+    status: "ANCHORED",
+    blockNumber,
+    explorerUrl,
+    anchoredAt: now,
+    updatedAt: now,
+  });
+  for (const evidenceHash of batch.evidenceHashes) {
+    writes.update(firestore.collection("evidence_anchors").doc(anchorId(evidenceHash)), {
+      status: "ANCHORED",
+      txHash: batch.txHash,
+      blockNumber,
+      explorerUrl,
+      anchoredAt: now,
+      updatedAt: now,
+    });
+  }
+  await writes.commit();
+
+  console.log(`✅ Evidence root ${batch.merkleRoot} anchored in block ${blockNumber}`);
+}
+
+async function releaseBatch(
+  firestore: admin.firestore.Firestore,
+  batchId: string,
+  batch: EvidenceBatchDoc,
+  error: string
+): Promise<void> {
+  const now = admin.firestore.Timestamp.now();
+  const writes = firestore.batch();
+  writes.update(firestore.collection("evidence_batches").doc(batchId), { status: "FAILED", error, updatedAt: now });
+  for (const evidenceHash of batch.evidenceHashes) {
+    writes.update(firestore.collection("evidence_anchors").doc(anchorId(evidenceHash)), {
+      status: "PENDING",
+      batchId: null,
+      leaf: null,
+      leafIndex: null,
+      proof: null,
+      merkleRoot: null,
+      updatedAt: now,
+    });
+  }
+  await writes.commit();
+
+  console.warn(`[EvidenceAnchoring] Batch ${batchId} released: ${error}`);
+}
+
+// evidence_anchors ids are the evidence hash without 0x
+function anchorId(evidenceHash: string): string {
+  return evidenceHash.replace(/^0x/, "").toLowerCase();
+}
@@ -0,0 +1,586 @@
+/**
+ * Intent Ledger
+ *
+ * Credits on-chain transfers to payment intents and keeps the donation
+ * records in step with the chain. Shared by every chain watcher: a transfer
+ * is credited once it is seen in a block (donation records and campaign_stats
+ * are written right away), the intent is confirmed once every transfer
+ * credited to it is deep enough, and a transfer that leaves the chain before
+ * that is rolled back.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  getAsset,
+  maskTxHash,
+  PaymentResolution,
+  getPaymentTolerance,
+  classifyPayment,
+} from "@opencause/crypto-core";
+import { CampaignDepositDoc, ChainTxPrivateDoc, EventDoc } from "@opencause/firebase";
+
+export interface CreditedTransfer {
+  txHash: string;
+  from?: string;
+  value: bigint;
+  assetType: "NATIVE" | "ERC20" | "UTXO" | "SOL" | "SPL";
+  token?: string;
+  blockNumber?: string;
+  blockHash?: string;
+  blockTimestamp?: admin.firestore.Timestamp | null;
+}
+
+/**
+ * Record a transfer against an intent: chain_txs_private (SEEN), the
+ * donation records, campaign_stats, and the intent's running total
+ * classified against its tolerance band. Returns null if the transfer was
+ * already recorded. `txDocId` defaults to `${networkId}_${txHash}`.
+ */
+export async function creditIntentTransfer(
+  db: admin.firestore.Firestore,
+  {
+    intentRef,
+    intent,
+    networkId,
+    explorerBaseUrl,
+    transfer: found,
+    txDocId = `${networkId}_${found.txHash}`,
+  }: {
+    intentRef: FirebaseFirestore.DocumentReference;
+    intent: any;
+    networkId: string;
+    explorerBaseUrl: string;
+    transfer: CreditedTransfer;
+    txDocId?: string;
+  }
+): Promise<PaymentResolution | null> {
+  const txRef = db.collection("chain_txs_private").doc(txDocId);
+
+  // Get decimals and asset info
+  const decimals = intent.expectedDecimals || 18;
+  const assetId = intent.assetId || inferAssetId(networkId, found);
+  const asset = assetId ? getAsset(assetId) : null;
+  const assetSymbol = asset?.symbol || (found.assetType === "ERC20" ? "TOKEN" : "ETH");
+
+  // Format amount in native units
+  const amountNative = formatUnits(found.value, decimals);
+
+  const blockTimestamp = found.blockTimestamp ?? null;
+  const blockNumberStr = found.blockNumber ?? null;
+
+  // Use block timestamp if available, otherwise use now
+  const createdAt = blockTimestamp || admin.firestore.Timestamp.now();
+
+  // Get intent private data for donor info
+  const intentPrivateRef = db.collection("payment_intents_private").doc(intentRef.id);
+  const intentPrivateSnap = await intentPrivateRef.get();
+  const intentPrivate = intentPrivateSnap.exists ? intentPrivateSnap.data() : null;
+
+  const isAnonymous = intentPrivate?.isAnonymous || false;
+  const donorLabel = intentPrivate?.donorName || (isAnonymous ? "Anonymous" : "Anonymous");
+  const donorUid = intentPrivate?.donorUid || null;
+
+  // Create deterministic donationId
+  const toAddressLower = (intent.depositAddress || "").toLowerCase();
+  const tokenAddrOrSymbol = found.token?.toLowerCase() || assetSymbol.toLowerCase();
+  const donationId = `${networkId}_${found.txHash}_${toAddressLower}_${tokenAddrOrSymbol}`;
+
+  const explorerTxUrl = `${explorerBaseUrl}/tx/${found.txHash}`;
+  const statsAssetKey = `${assetId}_${networkId}`;
+
+  try {
+    const resolution = await db.runTransaction(async (t) => {
+      // A reorged-out tx that was mined again, or one first seen in the
+      // mempool, is recorded afresh
+      const txExists = await t.get(txRef);
+      if (txExists.exists && !["REORGED", "MEMPOOL"].includes(txExists.get("status"))) {
+        console.log(`[IntentLedger] Transaction ${found.txHash} already recorded, skipping`);
+        return null;
+      }
+
+      // Check if donation already exists (deterministic ID prevents duplicates)
+      const donationPublicRef = db
+        .collection("donations_public")
+        .doc(intent.campaignId)
+        .collection("items")
+        .doc(donationId);
+      const donationExists = await t.get(donationPublicRef);
+      if (donationExists.exists) {
+        console.log(`[IntentLedger] Donation ${donationId} already exists, skipping`);
+        return null;
+      }
+
+      const statsRef = db.collection("campaign_stats").doc(intent.campaignId);
+      const statsSnap = await t.get(statsRef);
+
+      // Running total across every transfer credited to the intent
+      const current = (await t.get(intentRef)).data() || {};
+      const detectedTxHashes: string[] = current.detectedTxHashes || [];
+      const receivedRaw = BigInt(current.receivedAmountRaw || "0") + found.value;
+      const classified =
+        current.resolution === "UNDERPAID_ACCEPTED"
+          ? { resolution: "UNDERPAID_ACCEPTED" as const, remainingRaw: 0n }
+          : classifyPayment(
+              BigInt(intent.expectedAmountRaw),
+              receivedRaw,
+              detectedTxHashes.length + 1,
+              getPaymentTolerance(intent.assetId)
+            );
+      const intentStatus = classified.resolution === "PARTIAL" ? "MISMATCH" : "CONFIRMING";
+      const receivedNative = formatUnits(receivedRaw, decimals);
+      const remainingNative = formatUnits(classified.remainingRaw, decimals);
+
+      // Create chain_tx_private record
+      t.set(txRef, {
+        networkId,
+        txHash: found.txHash,
+        to: intent.depositAddress,
+        from: found.from ?? null,
+        amountRaw: found.value.toString(),
+        amountNative,
+        assetType: found.assetType,
+        tokenAddress: found.token ?? null,
+        blockNumber: blockNumberStr,
+        blockHash: found.blockHash ?? null,
+        confirmations: 0,
+        status: "SEEN",
+        explorerUrl: explorerTxUrl,
+        intentId: intentRef.id,
+        campaignId: intent.campaignId,
+        donationId,
+        statsAssetKey: assetId ? statsAssetKey : null,
+        reorgedAt: null,
+        createdAt: createdAt,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      // Count the donation right away; rolled back if a reorg drops the tx
+      if (assetId) {
+        const stats = statsSnap.data() || {};
+        const add = (field: string) =>
+          (BigInt(stats[field]?.[statsAssetKey] || "0") + found.value).toString();
+        t.set(
+          statsRef,
+          {
+            totalsByAsset: { [statsAssetKey]: add("totalsByAsset") },
+            balanceByAsset: { [statsAssetKey]: add("balanceByAsset") },
+            updatedAt: admin.firestore.Timestamp.now(),
+          },
+          { merge: true }
+        );
+      }
+
+      // Create donation_private record
+      const donationPrivateRef = db.collection("donations_private").doc(donationId);
+      t.set(donationPrivateRef, {
+        donationId,
+        campaignId: intent.campaignId,
+        donorUid,
+        donorName: intentPrivate?.donorName || null,
+        donorEmail: null, // Not stored for privacy
+        isAnonymous,
+        txHash: found.txHash,
+        fromAddress: found.from ?? null, // Refund destination
+        fullExplorerUrl: explorerTxUrl,
+        networkId,
+        assetId: assetId || "unknown",
+        assetSymbol,
+        assetType: found.assetType,
+        rawAmount: found.value.toString(),
+        decimals,
+        tokenAddress: found.token ?? null,
+        amountNative,
+        inrAtConfirm: null, // Will be computed by price service
+        usdAtConfirm: null,
+        priceAtConfirm: null,
+        blockNumber: blockNumberStr,
+        confirmations: 0,
+        createdAt: createdAt,
+      });
+
+      // Create donation_public record (anonymous-safe)
+      const donationPublicData: any = {
+        donationId,
+        campaignId: intent.campaignId,
+        type: "CRYPTO",
+        donorLabel,
+        isAnonymous,
+        assetSymbol,
+        networkId,
+        amountNative,
+        amountRaw: found.value.toString(),
+        decimals,
+        verified: true,
+        verifiedOnChain: true,
+        createdAt: createdAt,
+        blockTimestamp: blockTimestamp,
+        blockNumber: blockNumberStr,
+        updatedAt: admin.firestore.Timestamp.now(),
+      };
+
+      // Only include explorer info if NOT anonymous
+      if (!isAnonymous) {
+        donationPublicData.txHashMasked = maskTxHash(found.txHash);
+        donationPublicData.explorerUrl = explorerTxUrl;
+      } else {
+        donationPublicData.txHashPrivateRef = donationId; // Reference to private doc for audit
+      }
+
+      t.set(donationPublicRef, donationPublicData);
+
+      // Update intent with detection result
+      t.update(intentRef, {
+        status: intentStatus,
+        resolution: classified.resolution,
+        receivedAmountRaw: receivedRaw.toString(),
+        receivedAmountNative: receivedNative,
+        remainingAmountRaw: classified.remainingRaw.toString(),
+        remainingAmountNative: remainingNative,
+        detectedTxHashes: admin.firestore.FieldValue.arrayUnion(found.txHash),
+        ...(found.from
+          ? { senderAddresses: admin.firestore.FieldValue.arrayUnion(found.from.toLowerCase()) }
+          : {}),
+        confirmedTxHash: found.txHash,
+        txHash: found.txHash,
+        detectedNetworkId: networkId,
+        detectedAssetType: found.assetType,
+        detectedTokenAddress: found.token ?? null,
+        detectedAmountRaw: found.value.toString(),
+        detectedAmountNative: amountNative,
+        updatedAt: admin.firestore.Timestamp.now(),
+      });
+
+      // Update intent public (created on first detection)
+      const intentPublicRef = db.collection("payment_intents_public").doc(intentRef.id);
+      t.set(
+        intentPublicRef,
+        {
+          intentId: intentRef.id,
+          campaignId: intent.campaignId,
+          depositAddress: intent.depositAddress,
+          expectedAsset: intent.assetId,
+          expectedNetwork: intent.networkId,
+          expectedAmountNative: intent.expectedNative || intent.amountNative,
+          expiresAt: intent.expiresAt,
+          status: intentStatus,
+          resolution: classified.resolution,
+          receivedAmountNative: receivedNative,
+          remainingAmountNative: remainingNative,
+          detectedNetworkId: networkId,
+          detectedAssetSymbol: assetSymbol,
+          detectedAmountNative: amountNative,
+          ...(!isAnonymous ? { explorerUrl: explorerTxUrl, txHashMasked: maskTxHash(found.txHash) } : {}),
+          updatedAt: admin.firestore.Timestamp.now(),
+        },
+        { merge: true }
+      );
+
+      return classified.resolution;
+    });
+
+    if (resolution) {
+      console.log(
+        `[IntentLedger] ✅ Recorded transaction ${found.txHash} and donation ${donationId} for intent ${intentRef.id} (${resolution})`
+      );
+    }
+    return resolution;
+  } catch (error: any) {
+    console.error(`[IntentLedger] Error recording transaction:`, error);
+    return null;
+  }
+}
+
+/**
+ * Accept a partial payment as a smaller donation. The intent confirms once
+ * the transfers already credited to it do.
+ */
+export async function acceptUnderpaid(
+  db: admin.firestore.Firestore,
+  intentRef: FirebaseFirestore.DocumentReference
+) {
+  const now = admin.firestore.Timestamp.now();
+  const batch = db.batch();
+  batch.update(intentRef, {
+    status: "CONFIRMING",
+    resolution: "UNDERPAID_ACCEPTED",
+    remainingAmountRaw: "0",
+    remainingAmountNative: "0",
+    acceptedPartialAt: now,
+    updatedAt: now,
+  });
+  batch.set(
+    db.collection("payment_intents_public").doc(intentRef.id),
+    { status: "CONFIRMING", resolution: "UNDERPAID_ACCEPTED", remainingAmountNative: "0", updatedAt: now },
+    { merge: true }
+  );
+  await batch.commit();
+  await confirmIntentIfSettled(db, intentRef.id);
+}
+
+/**
+ * Mark a CONFIRMING intent CONFIRMED once every transfer credited to it is
+ * confirmationsRequired deep.
+ */
+export async function confirmIntentIfSettled(db: admin.firestore.Firestore, intentId: string) {
+  const intentRef = db.collection("payment_intents").doc(intentId);
+  const intent = (await intentRef.get()).data();
+  if (intent?.status !== "CONFIRMING") return;
+
+  const txs = await db.collection("chain_txs_private").where("intentId", "==", intentId).get();
+  const pendingTx = txs.docs.some((doc) => ["SEEN", "CONFIRMING"].includes(doc.get("status")));
+  if (txs.empty || pendingTx) return;
+
+  const batch = db.batch();
+  batch.update(intentRef, { status: "CONFIRMED", updatedAt: admin.firestore.Timestamp.now() });
+  batch.set(
+    db.collection("payment_intents_public").doc(intentId),
+    { status: "CONFIRMED", updatedAt: admin.firestore.Timestamp.now() },
+    { merge: true }
+  );
+  await batch.commit();
+  console.log(`[IntentLedger] ✅ Intent ${intentId} confirmed`);
+}
+
+/**
+ * Undo a detection whose tx left the canonical chain: the amount comes off
+ * the intent's running total (back to DETECTING if nothing else was
+ * received, MISMATCH if what is left is a partial payment), the donation
+ * records are removed, the provisional campaign_stats amount is taken back
+ * out, and an admin event carrying `details` is written.
+ */
+export async function rollbackCreditedTx(
+  db: admin.firestore.Firestore,
+  txRef: FirebaseFirestore.DocumentReference,
+  details: Record<string, any>
+) {
+  const intentId = await db.runTransaction(async (t) => {
+    const tx = (await t.get(txRef)).data() as ChainTxPrivateDoc | undefined;
+    if (!tx || (tx.status !== "SEEN" && tx.status !== "CONFIRMING")) return null;
+
+    const intentRef = tx.intentId ? db.collection("payment_intents").doc(tx.intentId) : null;
+    const intentSnap = intentRef ? await t.get(intentRef) : null;
+    const statsRef = tx.campaignId && tx.statsAssetKey ? db.collection("campaign_stats").doc(tx.campaignId) : null;
+    const statsSnap = statsRef ? await t.get(statsRef) : null;
+
+    const now = admin.firestore.Timestamp.now();
+    const remove = admin.firestore.FieldValue.delete();
+    t.update(txRef, { status: "REORGED", reorgedAt: now, updatedAt: now });
+
+    const intent = intentSnap?.data();
+    const otherTxHashes: string[] = (intent?.detectedTxHashes || [intent?.confirmedTxHash]).filter(
+      (hash: string | undefined) => hash && hash !== tx.txHash
+    );
+    const wasCredited = intent && (intent.detectedTxHashes || [intent.confirmedTxHash]).includes(tx.txHash);
+
+    if (intentRef && intent && wasCredited && otherTxHashes.length === 0) {
+      t.update(intentRef, {
+        status: "DETECTING",
+        resolution: remove,
+        receivedAmountRaw: remove,
+        receivedAmountNative: remove,
+        remainingAmountRaw: remove,
+        remainingAmountNative: remove,
+        detectedTxHashes: remove,
+        confirmedTxHash: remove,
+        txHash: remove,
+        detectedNetworkId: remove,
+        detectedAssetType: remove,
+        detectedTokenAddress: remove,
+        detectedAmountRaw: remove,
+        detectedAmountNative: remove,
+        updatedAt: now,
+      });
+      t.set(
+        db.collection("payment_intents_public").doc(intentRef.id),
+        {
+          status: "DETECTING",
+          resolution: remove,
+          receivedAmountNative: remove,
+          remainingAmountNative: remove,
+          detectedNetworkId: remove,
+          detectedAssetSymbol: remove,
+          detectedAmountNative: remove,
+          explorerUrl: remove,
+          txHashMasked: remove,
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+    } else if (intentRef && intent && wasCredited) {
+      // Other transfers still stand; reclassify what is left
+      const decimals = intent.expectedDecimals || 18;
+      const receivedRaw = BigInt(intent.receivedAmountRaw || "0") - BigInt(tx.amountRaw);
+      const classified =
+        intent.resolution === "UNDERPAID_ACCEPTED"
+          ? { resolution: "UNDERPAID_ACCEPTED" as const, remainingRaw: 0n }
+          : classifyPayment(
+              BigInt(intent.expectedAmountRaw),
+              receivedRaw > 0n ? receivedRaw : 0n,
+              otherTxHashes.length,
+              getPaymentTolerance(intent.assetId)
+            );
+      const status = classified.resolution === "PARTIAL" ? "MISMATCH" : "CONFIRMING";
+      const latestTxHash = otherTxHashes[otherTxHashes.length - 1];
+      t.update(intentRef, {
+        status,
+        resolution: classified.resolution,
+        receivedAmountRaw: receivedRaw.toString(),
+        receivedAmountNative: formatUnits(receivedRaw, decimals),
+        remainingAmountRaw: classified.remainingRaw.toString(),
+        remainingAmountNative: formatUnits(classified.remainingRaw, decimals),
+        detectedTxHashes: admin.firestore.FieldValue.arrayRemove(tx.txHash),
+        confirmedTxHash: latestTxHash,
+        txHash: latestTxHash,
+        updatedAt: now,
+      });
+      t.set(
+        db.collection("payment_intents_public").doc(intentRef.id),
+        {
+          status,
+          resolution: classified.resolution,
+          receivedAmountNative: formatUnits(receivedRaw, decimals),
+          remainingAmountNative: formatUnits(classified.remainingRaw, decimals),
+          updatedAt: now,
+        },
+        { merge: true }
+      );
+    }
+
+    if (tx.campaignId && tx.donationId) {
+      t.delete(db.collection("donations_private").doc(tx.donationId));
+      t.delete(db.collection("donations_public").doc(tx.campaignId).collection("items").doc(tx.donationId));
+    }
+
+    if (statsRef && statsSnap?.exists && tx.statsAssetKey) {
+      const stats = statsSnap.data() as any;
+      const update: Record<string, any> = { updatedAt: now };
+      for (const field of ["totalsByAsset", "balanceByAsset"]) {
+        if (stats[field]?.[tx.statsAssetKey] !== undefined) {
+          const remaining = BigInt(stats[field][tx.statsAssetKey]) - BigInt(tx.amountRaw);
+          update[`${field}.${tx.statsAssetKey}`] = (remaining > 0n ? remaining : 0n).toString();
+        }
+      }
+      t.update(statsRef, update);
+    }
+
+    if (tx.campaignId) {
+      const eventRef = db.collection("events").doc();
+      const event: EventDoc = {
+        id: eventRef.id,
+        campaignId: tx.campaignId,
+        type: "DONATION_REORGED",
+        visibility: "ADMIN_ONLY",
+        actorUserId: null,
+        entityType: "DONATION",
+        entityId: tx.donationId || txRef.id,
+        data: {
+          networkId: tx.networkId,
+          txHash: tx.txHash,
+          blockNumber: tx.blockNumber,
+          blockHash: tx.blockHash,
+          ...details,
+          amount: tx.amountNative,
+          amountRaw: tx.amountRaw,
+          intentId: tx.intentId || null,
+        },
+        createdAt: now,
+        _campaignId: tx.campaignId,
+        _type: "DONATION_REORGED",
+        _entityType: "DONATION",
+        _entityId: tx.donationId || txRef.id,
+      };
+      t.set(eventRef, event);
+    }
+
+    return tx.intentId || null;
+  });
+
+  console.warn(`[IntentLedger] ⚠️ ${txRef.id} dropped by a chain reorg; detection rolled back`);
+  // The transfers still credited may all be confirmed already
+  if (intentId) await confirmIntentIfSettled(db, intentId);
+}
+
+/**
+ * Note that an address handed to a single intent has received funds: it is
+ * never reassigned, and the campaign address's highestUsedIndex moves up so
+ * the API's unpaid address limit counts from it. No-op for shared deposit addresses.
+ */
+export async function markAddressUsed(db: admin.firestore.Firestore, depositRef: string) {
+  const depositDocRef = db.collection("campaign_deposits").doc(depositRef);
+  await db.runTransaction(async (t) => {
+    const deposit = (await t.get(depositDocRef)).data() as CampaignDepositDoc | undefined;
+    if (!deposit?.parentRef || deposit.usedAt) return;
+
+    const parentRef = db.collection("campaign_deposits").doc(deposit.parentRef);
+    const parent = (await t.get(parentRef)).data() as CampaignDepositDoc | undefined;
+
+    t.update(depositDocRef, { usedAt: admin.firestore.Timestamp.now() });
+    if (parent && (parent.highestUsedIndex || 0) < (deposit.addressIndex || 0)) {
+      t.update(parentRef, { highestUsedIndex: deposit.addressIndex });
+    }
+  });
+}
+
+/**
+ * Hand back the address of an intent that expired without funds, so the API
+ * can assign it again after its cooldown. Addresses that saw funds stay with
+ * the intent.
+ */
+export async function releaseIntentAddress(
+  db: admin.firestore.Firestore,
+  intentId: string,
+  depositRef: string | undefined
+) {
+  if (!depositRef) return;
+  const depositDocRef = db.collection("campaign_deposits").doc(depositRef);
+  const released = await db.runTransaction(async (t) => {
+    const deposit = (await t.get(depositDocRef)).data() as CampaignDepositDoc | undefined;
+    if (!deposit?.parentRef || deposit.intentId !== intentId || deposit.usedAt) return false;
+    t.update(depositDocRef, { intentId: null, releasedAt: admin.firestore.Timestamp.now() });
+    return true;
+  });
+  if (released) console.log(`[IntentLedger] Released address ${depositRef} of expired intent ${intentId}`);
+}
+
+/**
+ * USD and INR per unit from CoinGecko; nulls if unavailable (the API falls
+ * back to a live rate when recording)
+ */
+export async function fetchRates(assetId: string | null): Promise<{ usd: string | null; inr: string | null }> {
+  const coingeckoId = assetId ? getAsset(assetId)?.coingeckoId : undefined;
+  if (!coingeckoId) return { usd: null, inr: null };
+  try {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=${coingeckoId}&vs_currencies=usd,inr`
+    );
+    if (!response.ok) return { usd: null, inr: null };
+    const prices = ((await response.json()) as any)[coingeckoId] || {};
+    return {
+      usd: prices.usd !== undefined ? String(prices.usd) : null,
+      inr: prices.inr !== undefined ? String(prices.inr) : null,
+    };
+  } catch (error: any) {
+    console.warn(`[IntentLedger] Failed to fetch rates for ${assetId}:`, error.message);
+    return { usd: null, inr: null };
+  }
+}
+
+export function formatUnits(value: bigint, decimals: number): string {
+  const divisor = 10n ** BigInt(decimals);
+  const whole = value / divisor;
+  const remainder = value % divisor;
+  if (remainder === 0n) return whole.toString();
+  const remainderStr = remainder.toString().padStart(decimals, "0").replace(/0+$/, "");
+  return remainderStr ? `${whole}.${remainderStr}` : whole.toString();
+}
+
+function inferAssetId(networkId: string, found: { assetType: CreditedTransfer["assetType"] }): string | null {
+  // Try to infer assetId from network and token
+  if (found.assetType === "NATIVE") {
+    if (networkId.includes("ethereum")) return "eth_ethereum_mainnet";
+    if (networkId.includes("bsc")) return "bnb_bsc_mainnet";
+    if (networkId.includes("polygon")) return "matic_polygon_mainnet";
+  }
+  // For ERC20, would need token address mapping
+  return null;
+}
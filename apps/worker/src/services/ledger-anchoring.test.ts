@@ -0,0 +1,212 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { randomBytes } from "crypto";
+import * as admin from "firebase-admin";
+import { createPublicClient, createWalletClient, http, keccak256, parseAbi, toHex } from "viem";
+import type { Abi, Address, Hash, Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { computeLedgerRoot, donationLedgerEntry, verifyLedgerProof } from "@opencause/verifier";
+import type { LedgerEntry } from "@opencause/verifier";
+import { getTestAdminFirestore, clearFirestoreCollections, startAnvil, AnvilNode } from "@opencause/testkit";
+import { getEvidenceRegistryConfig, submitEvidenceRoot } from "./evidence-anchoring";
+import { anchorCampaignLedgers } from "./ledger-anchoring";
+
+// Build with `pnpm --filter @opencause/contracts compile`
+const artifact = (name: string): { abi: Abi; bytecode: Hex } => {
+  const json = JSON.parse(readFileSync(join(__dirname, `../../../contracts/out/${name}.sol/${name}.json`), "utf8"));
+  return { abi: json.abi, bytecode: json.bytecode.object };
+};
+
+const REGISTRY_ABI = parseAbi([
+  "function anchorEvidence(uint8 kind, bytes32 campaignId, bytes32 evidenceHash, uint256 amount)",
+  "function evidenceHashExists(bytes32 evidenceHash) view returns (bool)",
+]);
+
+describe("Ledger anchoring", () => {
+  let anvil: AnvilNode;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let registryAddress: Address;
+  const env = { ...process.env };
+
+  const client = () => createPublicClient({ transport: http(anvil.rpcUrl) });
+  const account = () => privateKeyToAccount(anvil.privateKeys[0]);
+  const wallet = () => createWalletClient({ account: account(), transport: http(anvil.rpcUrl) });
+
+  const isAnchored = (root: Hex) =>
+    client().readContract({
+      address: registryAddress,
+      abi: REGISTRY_ABI,
+      functionName: "evidenceHashExists",
+      args: [root],
+    });
+
+  // Donation ids are fresh per test so no ledger root repeats on the chain
+  const seedDonation = async (campaignId: string) => {
+    const id = `don_${randomBytes(4).toString("hex")}`;
+    const doc = {
+      donationId: id,
+      campaignId,
+      type: "CRYPTO",
+      assetSymbol: "USDC",
+      networkId: "polygon_mainnet",
+      amountNative: "10",
+      createdAt: admin.firestore.Timestamp.now(),
+    };
+    await db.collection("donations_public").doc(campaignId).collection("items").doc(id).set(doc);
+    return donationLedgerEntry(doc);
+  };
+
+  // A snapshot recorded by a run that died before settling it
+  const seedSubmittedSnapshot = async (campaignId: string, entries: LedgerEntry[], txHash: Hash | null = null) => {
+    const root = computeLedgerRoot(entries).root;
+    const snapshotRef = db.collection("ledger_snapshots").doc(`${campaignId}_${root.slice(2)}`);
+    await snapshotRef.set({
+      campaignId,
+      merkleRoot: root,
+      entryCount: entries.length,
+      donationCount: entries.length,
+      withdrawalCount: 0,
+      networkId: "polygon_mainnet",
+      chainId: 137,
+      registryAddress,
+      status: "SUBMITTED",
+      txHash,
+      blockNumber: null,
+      explorerUrl: null,
+      error: null,
+      createdAt: admin.firestore.Timestamp.now(),
+      anchoredAt: null,
+    });
+    await db
+      .collection("campaign_ledgers")
+      .doc(campaignId)
+      .set({ campaignId, latestSnapshotId: snapshotRef.id, latestRoot: root });
+    return { snapshotRef, root };
+  };
+
+  const snapshots = async () =>
+    (await db.collection("ledger_snapshots").get()).docs.map((doc) => doc.data() as Record<string, any>);
+  const campaignLedger = async (campaignId: string) =>
+    (await db.collection("campaign_ledgers").doc(campaignId).get()).data();
+
+  beforeAll(async () => {
+    anvil = await startAnvil({ port: 8552, chainId: 137 });
+    const { abi, bytecode } = artifact("EvidenceRegistry");
+    const hash = await wallet().deployContract({ abi, bytecode, account: account(), chain: null });
+    registryAddress = (await client().waitForTransactionReceipt({ hash })).contractAddress!;
+
+    process.env.TREASURY_SIGNER = "local";
+    process.env.PRIVATE_KEY = anvil.privateKeys[0];
+    process.env.POLYGON_MAINNET_RPC_URL = anvil.rpcUrl;
+    process.env.POLYGON_MAINNET_EVIDENCE_REGISTRY_ADDRESS = registryAddress;
+  }, 30_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await anvil?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await db.recursiveDelete(db.collection("donations_public"));
+    await db.recursiveDelete(db.collection("ledger_snapshots"));
+    await clearFirestoreCollections(["campaign_ledgers", "key_configs"]);
+  });
+
+  it("anchors each campaign's ledger with a proof per entry, and only again once it changes", async () => {
+    const entries = [await seedDonation("camp1"), await seedDonation("camp1")];
+    await seedDonation("camp2");
+
+    await anchorCampaignLedgers(db);
+
+    const { root } = computeLedgerRoot(entries);
+    const snapshotId = `camp1_${root.slice(2)}`;
+    expect(await snapshots()).toEqual([
+      expect.objectContaining({ campaignId: "camp1", status: "ANCHORED", merkleRoot: root, entryCount: 2 }),
+      expect.objectContaining({ campaignId: "camp2", status: "ANCHORED" }),
+    ]);
+    expect(await isAnchored(root)).toBe(true);
+    expect(await campaignLedger("camp1")).toMatchObject({
+      latestSnapshotId: snapshotId,
+      latestRoot: root,
+      anchoredSnapshotId: snapshotId,
+    });
+    const stored = await db.collection("ledger_snapshots").doc(snapshotId).collection("entries").get();
+    for (const doc of stored.docs) {
+      const { entry, proof } = doc.data();
+      expect(verifyLedgerProof(entry, proof, root)).toBe(true);
+    }
+
+    // Nothing changed
+    await anchorCampaignLedgers(db);
+    expect(await snapshots()).toHaveLength(2);
+
+    entries.push(await seedDonation("camp1"));
+    await anchorCampaignLedgers(db);
+    const next = computeLedgerRoot(entries).root;
+    expect(await campaignLedger("camp1")).toMatchObject({
+      latestRoot: next,
+      anchoredSnapshotId: `camp1_${next.slice(2)}`,
+    });
+  });
+
+  it("settles a snapshot whose root landed although its tx hash was never saved", async () => {
+    const entries = [await seedDonation("camp1")];
+    const { snapshotRef, root } = await seedSubmittedSnapshot("camp1", entries);
+    const txHash = await submitEvidenceRoot(db, getEvidenceRegistryConfig()!, "LEDGER_ROOT", "camp1", root, 1n);
+    await client().waitForTransactionReceipt({ hash: txHash });
+
+    await anchorCampaignLedgers(db);
+
+    expect((await snapshotRef.get()).data()).toMatchObject({
+      status: "ANCHORED",
+      txHash,
+      blockNumber: expect.any(String),
+    });
+    expect(await snapshots()).toHaveLength(1);
+    expect(await campaignLedger("camp1")).toMatchObject({ anchoredSnapshotId: snapshotRef.id });
+  });
+
+  it("fails a snapshot whose root tx was never sent and snapshots the ledger again", async () => {
+    const entries = [await seedDonation("camp1")];
+    const { snapshotRef, root } = await seedSubmittedSnapshot("camp1", entries);
+    // The ledger moved on while the snapshot was stuck
+    const latest = [...entries, await seedDonation("camp1")];
+
+    await anchorCampaignLedgers(db);
+
+    expect((await snapshotRef.get()).data()).toMatchObject({ status: "FAILED", error: "Root tx was never sent" });
+    expect(await isAnchored(root)).toBe(false);
+    const next = computeLedgerRoot(latest).root;
+    expect(await isAnchored(next)).toBe(true);
+    expect(await campaignLedger("camp1")).toMatchObject({
+      latestRoot: next,
+      anchoredSnapshotId: `camp1_${next.slice(2)}`,
+    });
+  });
+
+  it("fails a snapshot whose root tx reverted and anchors the ledger in a new tx", async () => {
+    // A zero hash reverts with InvalidEvidenceHash; the gas limit skips estimation
+    const reverted = await wallet().writeContract({
+      address: registryAddress,
+      abi: REGISTRY_ABI,
+      functionName: "anchorEvidence",
+      args: [3, keccak256(toHex("camp1")), `0x${"00".repeat(32)}`, 0n],
+      gas: 100_000n,
+      account: account(),
+      chain: null,
+    });
+    await client().waitForTransactionReceipt({ hash: reverted });
+    const entries = [await seedDonation("camp1")];
+    const { snapshotRef, root } = await seedSubmittedSnapshot("camp1", entries, reverted);
+
+    await anchorCampaignLedgers(db);
+
+    // Same ledger, so the rebuilt snapshot reuses the id
+    const snapshot = (await snapshotRef.get()).data()!;
+    expect(snapshot).toMatchObject({ status: "ANCHORED", error: null });
+    expect(snapshot.txHash).not.toBe(reverted);
+    expect(await isAnchored(root)).toBe(true);
+    expect(await campaignLedger("camp1")).toMatchObject({ latestRoot: root, anchoredSnapshotId: snapshotRef.id });
+  });
+});
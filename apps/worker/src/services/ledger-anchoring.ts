@@ -0,0 +1,244 @@
+/**
+ * Ledger Anchoring
+ *
+ * Commits each campaign's public ledger (donations_public and
+ * withdrawals_public items) to a Merkle root and anchors that root through
+ * EvidenceRegistry as LEDGER_ROOT. The entry format and tree layout come from
+ * @opencause/verifier, so the published package recomputes exactly what was
+ * anchored here. A campaign gets a new snapshot only when its ledger changed
+ * and its previous snapshot is no longer pending.
+ */
+
+import * as admin from "firebase-admin";
+import { createPublicClient, http } from "viem";
+import type { Hash, Hex, PublicClient } from "viem";
+import { CampaignLedgerDoc, LedgerSnapshotDoc, LedgerSnapshotEntryDoc } from "@opencause/firebase";
+import { computeLedgerRoot, donationLedgerEntry, withdrawalLedgerEntry } from "@opencause/verifier";
+import type { LedgerEntry } from "@opencause/verifier";
+import {
+  EvidenceRegistryConfig,
+  findAnchoredRoot,
+  getEvidenceRegistryConfig,
+  submitEvidenceRoot,
+} from "./evidence-anchoring";
+
+// Entry writes per Firestore batch (limit is 500 ops)
+const ENTRY_WRITE_CHUNK = 400;
+
+const RECEIPT_TIMEOUT_MS = 120_000;
+
+/**
+ * Settle snapshots sent on earlier runs, then snapshot every campaign whose
+ * ledger moved since its last root
+ */
+export async function anchorCampaignLedgers(firestore: admin.firestore.Firestore): Promise<void> {
+  const config = getEvidenceRegistryConfig();
+  if (!config) {
+    console.log("[LedgerAnchoring] No EvidenceRegistry configured, skipping");
+    return;
+  }
+
+  const client = createPublicClient({ transport: http(config.rpcUrl) }) as PublicClient;
+
+  const submitted = await firestore.collection("ledger_snapshots").where("status", "==", "SUBMITTED").get();
+  const pendingCampaigns = new Set<string>();
+  for (const doc of submitted.docs) {
+    const snapshot = doc.data() as LedgerSnapshotDoc;
+    const status = await settleSnapshot(firestore, client, config, doc.id, snapshot);
+    if (status === "SUBMITTED") pendingCampaigns.add(snapshot.campaignId);
+  }
+
+  // Ledger parents are bare containers; listDocuments() also returns those without data
+  const [donationParents, withdrawalParents] = await Promise.all([
+    firestore.collection("donations_public").listDocuments(),
+    firestore.collection("withdrawals_public").listDocuments(),
+  ]);
+  const campaignIds = new Set([...donationParents, ...withdrawalParents].map((ref) => ref.id));
+
+  for (const campaignId of campaignIds) {
+    if (pendingCampaigns.has(campaignId)) continue;
+    try {
+      await anchorCampaignLedger(firestore, client, config, campaignId);
+    } catch (error: any) {
+      console.error(`[LedgerAnchoring] Ledger of ${campaignId} failed:`, error.shortMessage || error.message);
+    }
+  }
+}
+
+async function anchorCampaignLedger(
+  firestore: admin.firestore.Firestore,
+  client: PublicClient,
+  config: EvidenceRegistryConfig,
+  campaignId: string
+): Promise<void> {
+  const [donations, withdrawals] = await Promise.all([
+    firestore.collection("donations_public").doc(campaignId).collection("items").get(),
+    firestore.collection("withdrawals_public").doc(campaignId).collection("items").get(),
+  ]);
+  const entries: LedgerEntry[] = [
+    ...donations.docs.map((doc) => donationLedgerEntry({ id: doc.id, ...doc.data() })),
+    ...withdrawals.docs.map((doc) => withdrawalLedgerEntry({ id: doc.id, ...doc.data() })),
+  ];
+  if (entries.length === 0) return;
+
+  const { root, proofs } = computeLedgerRoot(entries);
+  const ledgerRef = firestore.collection("campaign_ledgers").doc(campaignId);
+  const ledger = (await ledgerRef.get()).data() as CampaignLedgerDoc | undefined;
+  if (ledger?.latestRoot === root) return;
+
+  const snapshotId = `${campaignId}_${root.slice(2)}`;
+  const snapshotRef = firestore.collection("ledger_snapshots").doc(snapshotId);
+  const now = admin.firestore.Timestamp.now();
+
+  // The ledger is back to a root that is already on-chain (the registry
+  // rejects anchoring it twice)
+  const existing = (await snapshotRef.get()).data() as LedgerSnapshotDoc | undefined;
+  if (existing?.status === "ANCHORED") {
+    await ledgerRef.set(
+      { campaignId, latestSnapshotId: snapshotId, latestRoot: root, anchoredSnapshotId: snapshotId, updatedAt: now },
+      { merge: true }
+    );
+    return;
+  }
+
+  // A run that died before saving its tx hash may have anchored the root already
+  const anchored = await findAnchoredRoot(client, config, root);
+
+  // Entries and proofs are written before the tx is sent; a snapshot left
+  // SUBMITTED without txHash is settled from the registry on the next run,
+  // or failed and rebuilt
+  const snapshot: LedgerSnapshotDoc = {
+    campaignId,
+    merkleRoot: root,
+    entryCount: entries.length,
+    donationCount: donations.size,
+    withdrawalCount: withdrawals.size,
+    networkId: config.network.networkId,
+    chainId: config.network.chainId!,
+    registryAddress: config.registryAddress,
+    status: "SUBMITTED",
+    txHash: null,
+    blockNumber: null,
+    explorerUrl: null,
+    error: null,
+    createdAt: now,
+    anchoredAt: null,
+    updatedAt: now,
+  };
+  for (let i = 0; i < proofs.length; i += ENTRY_WRITE_CHUNK) {
+    const writes = firestore.batch();
+    for (const proof of proofs.slice(i, i + ENTRY_WRITE_CHUNK)) {
+      const entryDoc: LedgerSnapshotEntryDoc = {
+        entry: proof.entry as unknown as Record<string, any>,
+        entryHash: proof.entryHash,
+        leaf: proof.leaf,
+        leafIndex: proof.leafIndex,
+        proof: proof.proof,
+      };
+      writes.set(snapshotRef.collection("entries").doc(`${proof.entry.kind}_${proof.entry.id}`), entryDoc);
+    }
+    await writes.commit();
+  }
+  await snapshotRef.set(snapshot);
+  await ledgerRef.set(
+    { campaignId, latestSnapshotId: snapshotId, latestRoot: root, updatedAt: now },
+    { merge: true }
+  );
+
+  let txHash: Hash;
+  try {
+    txHash =
+      anchored ||
+      (await submitEvidenceRoot(firestore, config, "LEDGER_ROOT", campaignId, root, BigInt(entries.length)));
+  } catch (error: any) {
+    await failSnapshot(firestore, snapshotId, snapshot, error.shortMessage || error.message);
+    throw error;
+  }
+
+  const explorerUrl = `${config.network.explorerBaseUrl}/tx/${txHash}`;
+  await snapshotRef.update({ txHash, explorerUrl, updatedAt: admin.firestore.Timestamp.now() });
+  console.log(`[LedgerAnchoring] Anchoring ledger of ${campaignId} (${entries.length} entries) as ${root}: ${txHash}`);
+
+  try {
+    await client.waitForTransactionReceipt({ hash: txHash, timeout: RECEIPT_TIMEOUT_MS });
+  } catch {
+    return; // Still pending; settled on the next run
+  }
+  await settleSnapshot(firestore, client, config, snapshotId, { ...snapshot, txHash, explorerUrl });
+}
+
+/**
+ * Mark a SUBMITTED snapshot ANCHORED once its root tx is mined and point the
+ * campaign's ledger at it; reverted or never-sent snapshots are FAILED. A
+ * snapshot whose tx hash was lost is settled from the registry if the root
+ * landed.
+ */
+async function settleSnapshot(
+  firestore: admin.firestore.Firestore,
+  client: PublicClient,
+  config: EvidenceRegistryConfig,
+  snapshotId: string,
+  snapshot: LedgerSnapshotDoc
+): Promise<LedgerSnapshotDoc["status"]> {
+  if (!snapshot.txHash) {
+    const anchored = await findAnchoredRoot(client, config, snapshot.merkleRoot as Hex);
+    if (!anchored) {
+      await failSnapshot(firestore, snapshotId, snapshot, "Root tx was never sent");
+      return "FAILED";
+    }
+    snapshot = { ...snapshot, txHash: anchored };
+    await firestore.collection("ledger_snapshots").doc(snapshotId).update({ txHash: anchored });
+  }
+
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: snapshot.txHash as Hash });
+  } catch {
+    return "SUBMITTED"; // Not mined yet
+  }
+
+  if (receipt.status !== "success") {
+    await failSnapshot(firestore, snapshotId, snapshot, `Root tx ${snapshot.txHash} reverted`);
+    return "FAILED";
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const blockNumber = receipt.blockNumber.toString();
+  const writes = firestore.batch();
+  writes.update(firestore.collection("ledger_snapshots").doc(snapshotId), {
+    status: "ANCHORED",
+    blockNumber,
+    explorerUrl: snapshot.explorerUrl || `${config.network.explorerBaseUrl}/tx/${snapshot.txHash}`,
+    anchoredAt: now,
+    updatedAt: now,
+  });
+  writes.set(
+    firestore.collection("campaign_ledgers").doc(snapshot.campaignId),
+    { anchoredSnapshotId: snapshotId, updatedAt: now },
+    { merge: true }
+  );
+  await writes.commit();
+
+  console.log(`✅ Ledger root ${snapshot.merkleRoot} of ${snapshot.campaignId} anchored in block ${blockNumber}`);
+  return "ANCHORED";
+}
+
+async function failSnapshot(
+  firestore: admin.firestore.Firestore,
+  snapshotId: string,
+  snapshot: LedgerSnapshotDoc,
+  error: string
+): Promise<void> {
+  const now = admin.firestore.Timestamp.now();
+  const writes = firestore.batch();
+  writes.update(firestore.collection("ledger_snapshots").doc(snapshotId), { status: "FAILED", error, updatedAt: now });
+  // Forget the root so the next run snapshots the ledger again
+  writes.set(
+    firestore.collection("campaign_ledgers").doc(snapshot.campaignId),
+    { latestRoot: null, updatedAt: now },
+    { merge: true }
+  );
+  await writes.commit();
+
+  console.warn(`[LedgerAnchoring] Snapshot ${snapshotId} failed: ${error}`);
+}
@@ -4,17 +4,16 @@
  * Interface for executing withdrawals via Safe multisig
  */
 
-export interface SafeTransaction {
-  to: string;
-  value: string; // in wei
-  data: string;
-  operation: 0 | 1; // 0 = call, 1 = delegateCall
-  safeTxGas: number;
-  baseGas: number;
-  gasPrice: string;
-  gasToken: string;
-  refundReceiver: string;
+import type { TypedDataDefinition } from "viem";
+import { getSafeServiceUrl, getSafeTxTypedData, SafeTransaction } from "@opencause/crypto-core";
+
+export type { SafeTransaction };
+
+export interface SafeInfo {
+  address: string;
   nonce: number;
+  threshold: number;
+  owners: string[];
 }
 
 export interface SafeProposal {
@@ -26,17 +25,49 @@ export interface SafeProposal {
 export class SafeMultisigService {
   private safeServiceUrl: string;
 
-  constructor(safeServiceUrl?: string) {
-    this.safeServiceUrl = safeServiceUrl || "https://safe-transaction-mainnet.safe.global";
+  /**
+   * Client of the Safe transaction service of an EVM network (see getSafeServiceUrl)
+   */
+  constructor(networkId: string) {
+    this.safeServiceUrl = getSafeServiceUrl(networkId);
   }
 
   /**
-   * Propose a Safe transaction
+   * EIP-712 typed data of a Safe transaction (Safe >= 1.3.0 domain); its hash
+   * is the safeTxHash owners sign
+   */
+  getTypedData(safeAddress: string, chainId: number, transaction: SafeTransaction): TypedDataDefinition {
+    return getSafeTxTypedData(safeAddress, chainId, transaction) as TypedDataDefinition;
+  }
+
+  /**
+   * Current nonce, threshold and owners of a Safe
+   */
+  async getSafeInfo(safeAddress: string): Promise<SafeInfo> {
+    const response = await fetch(`${this.safeServiceUrl}/api/v1/safes/${safeAddress}/`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch Safe ${safeAddress}: ${response.statusText}`);
+    }
+
+    const data: any = await response.json();
+    return {
+      address: data.address,
+      nonce: Number(data.nonce || 0),
+      threshold: Number(data.threshold || 1),
+      owners: data.owners || [],
+    };
+  }
+
+  /**
+   * Propose a Safe transaction, signed by `sender` (an owner) over `safeTxHash`
    */
   async proposeTransaction(
     safeAddress: string,
     transaction: SafeTransaction,
-    signature: string
+    signature: string,
+    sender: string,
+    safeTxHash: string
   ): Promise<string> {
     const url = `${this.safeServiceUrl}/api/v1/safes/${safeAddress}/multisig-transactions/`;
 
@@ -56,7 +87,9 @@ export class SafeMultisigService {
         gasToken: transaction.gasToken,
         refundReceiver: transaction.refundReceiver,
         nonce: transaction.nonce,
-        signatures: signature,
+        contractTransactionHash: safeTxHash,
+        sender,
+        signature,
       }),
     });
 
@@ -83,6 +116,26 @@ export class SafeMultisigService {
     return response.json();
   }
 
+  /**
+   * Add an owner's signature to a proposed transaction
+   */
+  async confirmTransaction(safeTxHash: string, signature: string): Promise<void> {
+    const url = `${this.safeServiceUrl}/api/v1/multisig-transactions/${safeTxHash}/confirmations/`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ signature }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Safe confirmation failed: ${error}`);
+    }
+  }
+
   /**
    * Check if transaction is executed
    */
@@ -101,12 +154,30 @@ export class SafeMultisigService {
   async getExecutionTxHash(safeTxHash: string): Promise<string | null> {
     try {
       const tx = await this.getTransaction(safeTxHash);
-      return tx.ethereumTx?.safeTxHash || tx.ethereumTx?.transactionHash || null;
+      return tx.transactionHash || null;
     } catch {
       return null;
     }
   }
 
+  /**
+   * Build a contract call from the Safe (e.g. a vault withdrawal)
+   */
+  buildContractCallTransaction(to: string, data: string, nonce: number): SafeTransaction {
+    return {
+      to,
+      value: "0",
+      data,
+      operation: 0,
+      safeTxGas: 0,
+      baseGas: 0,
+      gasPrice: "0",
+      gasToken: "0x0000000000000000000000000000000000000000",
+      refundReceiver: "0x0000000000000000000000000000000000000000",
+      nonce,
+    };
+  }
+
   /**
    * Build native token transfer transaction
    */
@@ -142,7 +213,7 @@ export class SafeMultisigService {
     const transferSelector = "0xa9059cbb";
     const toAddress = to.slice(2).padStart(64, "0");
     const amount = BigInt(amountWei).toString(16).padStart(64, "0");
-    const data = `0x${transferSelector}${toAddress}${amount}`;
+    const data = `${transferSelector}${toAddress}${amount}`;
 
     return {
       to: tokenAddress,
@@ -0,0 +1,331 @@
+/**
+ * Safe Withdrawals
+ *
+ * Approved crypto withdrawals (withdrawals_private) leave their campaign
+ * vault through the treasury Safe: the worker proposes vault.withdraw() as a
+ * Safe transaction signed by the treasury signer, reviewers add their
+ * signatures from the reviewer dashboard, and once an owner executes it the
+ * withdrawal is marked PAID with the execution tx. Crypto donor refunds
+ * (donation_refunds) leave the vault the same way and are marked REFUNDED.
+ */
+
+import * as admin from "firebase-admin";
+import { encodeFunctionData, hashTypedData, parseAbi, parseUnits, stringToHex } from "viem";
+import type { Address, Hex } from "viem";
+import {
+  FirestoreRepository,
+  JOB_QUEUES,
+  FirestoreJobQueue,
+  WithdrawalSafeConfirmation,
+  WithdrawalSafeState,
+} from "@opencause/firebase";
+import { encodeSafeSignature, getAssetsByNetwork, getNetwork } from "@opencause/crypto-core";
+import { SafeMultisigService, SafeTransaction } from "./safe-multisig";
+import { getTreasurySigner } from "./treasury-signer";
+
+const VAULT_WITHDRAW_ABI = parseAbi([
+  "function withdraw(address to, uint256 amount, bytes32 withdrawalId)",
+]);
+
+/**
+ * Sign a Safe transaction as an owner with the treasury signer and propose
+ * it; the remaining owners co-sign through the Safe service
+ */
+export async function proposeWithTreasurySigner(
+  safeService: SafeMultisigService,
+  repo: FirestoreRepository,
+  safeAddress: string,
+  chainId: number,
+  transaction: SafeTransaction
+): Promise<{ safeTxHash: string; sender: Address }> {
+  const signer = getTreasurySigner(repo);
+  const typedData = safeService.getTypedData(safeAddress, chainId, transaction);
+  const signature = encodeSafeSignature(await signer.signTypedData(typedData));
+  const sender = await signer.getEthereumAddress();
+
+  const safeTxHash = await safeService.proposeTransaction(
+    safeAddress,
+    transaction,
+    signature,
+    sender,
+    hashTypedData(typedData)
+  );
+  return { safeTxHash, sender };
+}
+
+/**
+ * Propose the vault withdrawal for an approved crypto withdrawal.
+ * A withdrawal that already has a proposal is left alone.
+ */
+export async function proposeSafeWithdrawal(
+  firestore: admin.firestore.Firestore,
+  withdrawalId: string
+): Promise<void> {
+  const repo = new FirestoreRepository(firestore);
+  const privateRef = firestore.collection("withdrawals_private").doc(withdrawalId);
+  const snap = await privateRef.get();
+  const withdrawal = snap.data();
+
+  if (!withdrawal) {
+    throw new Error(`Withdrawal ${withdrawalId} not found`);
+  }
+  if (withdrawal.method !== "CRYPTO" || withdrawal.status !== "APPROVED") {
+    throw new Error(`Withdrawal ${withdrawalId} is ${withdrawal.method} ${withdrawal.status}, cannot propose`);
+  }
+  if (withdrawal.safe) {
+    console.log(`[SafeWithdrawals] ${withdrawalId} already proposed as ${withdrawal.safe.safeTxHash}`);
+    return;
+  }
+
+  const networkId = withdrawal.networkId || "ethereum_mainnet";
+  const network = getNetwork(networkId);
+  if (!network || network.type !== "EVM" || !network.chainId) {
+    throw new Error(`Withdrawal ${withdrawalId} is on ${networkId}; Safe withdrawals need an EVM network`);
+  }
+  const asset = getAssetsByNetwork(network.networkId).find((a) => a.symbol === withdrawal.assetSymbol);
+  if (!asset) {
+    throw new Error(`No ${withdrawal.assetSymbol} asset on ${network.networkId}`);
+  }
+
+  // amountCryptoRaw is the decimal amount the organizer requested
+  const safe = await proposeVaultWithdrawal(repo, {
+    campaignId: withdrawal.campaignId,
+    networkId: network.networkId,
+    assetId: asset.assetId,
+    to: withdrawal.payee.address as Address,
+    amount: parseUnits(withdrawal.amountCryptoRaw, withdrawal.decimals ?? asset.decimals),
+    withdrawalId: stringToHex(withdrawalId, { size: 32 }),
+  });
+
+  const now = admin.firestore.Timestamp.now();
+  await privateRef.update({ safe, updatedAt: now });
+  await firestore
+    .collection("withdrawals_public")
+    .doc(withdrawal.campaignId)
+    .collection("items")
+    .doc(withdrawalId)
+    .set({ publicNote: "Approved, awaiting multisig signatures", updatedAt: now }, { merge: true });
+
+  console.log(`[SafeWithdrawals] Proposed ${withdrawalId} as ${safe.safeTxHash} (nonce ${safe.transaction.nonce})`);
+}
+
+/**
+ * Propose vault.withdraw() on a campaign's vault for the given asset as a
+ * treasury Safe transaction. Nothing moves until the Safe executes it.
+ */
+export async function proposeVaultWithdrawal(
+  repo: FirestoreRepository,
+  params: {
+    campaignId: string;
+    networkId: string;
+    assetId: string;
+    to: Address;
+    amount: bigint; // Smallest units
+    withdrawalId: Hex; // bytes32 recorded by the vault's WithdrawalExecuted event
+  }
+): Promise<WithdrawalSafeState> {
+  const network = getNetwork(params.networkId);
+  if (!network || network.type !== "EVM" || !network.chainId) {
+    throw new Error(`${params.networkId} is not an EVM network; vault withdrawals need a Safe`);
+  }
+
+  const deposits = await repo.getDepositsByCampaign(params.campaignId);
+  const deposit = deposits.find(
+    (d) => d.assetId === params.assetId && d.networkId === network.networkId && d.vaultAddress
+  );
+  if (!deposit) {
+    throw new Error(`No ${params.assetId} vault for campaign ${params.campaignId}`);
+  }
+
+  const safeKeyConfig = await repo.getKeyConfig(`safe_${network.networkId}`);
+  if (!safeKeyConfig?.safeAddress) {
+    throw new Error(`Safe address not configured for ${network.networkId}`);
+  }
+  const safeAddress = safeKeyConfig.safeAddress;
+
+  const safeService = new SafeMultisigService(network.networkId);
+  const safeInfo = await safeService.getSafeInfo(safeAddress);
+
+  const transaction = safeService.buildContractCallTransaction(
+    deposit.vaultAddress!,
+    encodeFunctionData({
+      abi: VAULT_WITHDRAW_ABI,
+      functionName: "withdraw",
+      args: [params.to, params.amount, params.withdrawalId],
+    }),
+    safeInfo.nonce
+  );
+
+  const { safeTxHash, sender } = await proposeWithTreasurySigner(
+    safeService,
+    repo,
+    safeAddress,
+    network.chainId,
+    transaction
+  );
+
+  const now = admin.firestore.Timestamp.now();
+  return {
+    safeAddress,
+    networkId: network.networkId,
+    chainId: network.chainId,
+    vaultAddress: deposit.vaultAddress!,
+    transaction,
+    safeTxHash,
+    threshold: safeInfo.threshold,
+    confirmations: [{ owner: sender, reviewerId: null, confirmedAt: now }],
+    status: "PROPOSED",
+    proposedAt: now,
+    executedAt: null,
+    txHash: null,
+    failureReason: null,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Follow every open proposal on the Safe service: mirror confirmations and
+ * settle withdrawals and refunds whose Safe transaction was executed
+ */
+export async function trackSafeWithdrawals(firestore: admin.firestore.Firestore): Promise<void> {
+  const [proposed, refunds] = await Promise.all([
+    firestore.collection("withdrawals_private").where("safe.status", "==", "PROPOSED").get(),
+    firestore.collection("donation_refunds").where("safe.status", "==", "PROPOSED").get(),
+  ]);
+
+  for (const doc of proposed.docs) {
+    try {
+      await trackSafeWithdrawal(firestore, doc.ref);
+    } catch (error: any) {
+      console.error(`[SafeWithdrawals] Failed to track ${doc.id}:`, error.message);
+    }
+  }
+  for (const doc of refunds.docs) {
+    try {
+      await trackSafeRefund(firestore, doc.ref);
+    } catch (error: any) {
+      console.error(`[SafeWithdrawals] Failed to track refund ${doc.id}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Settle a refund's return transfer. Only an executed, successful Safe
+ * transaction marks it REFUNDED; the API then reverses the donation.
+ */
+async function trackSafeRefund(
+  firestore: admin.firestore.Firestore,
+  refundRef: admin.firestore.DocumentReference
+): Promise<void> {
+  const refund = (await refundRef.get()).data()!;
+  const safe = refund.safe as WithdrawalSafeState;
+  const tx = await new SafeMultisigService(safe.networkId).getTransaction(safe.safeTxHash);
+  const now = admin.firestore.Timestamp.now();
+  const confirmations = mirrorConfirmations(safe, tx, now);
+
+  if (!tx.isExecuted) {
+    if (confirmations.length !== safe.confirmations.length) {
+      await refundRef.update({ "safe.confirmations": confirmations, "safe.updatedAt": now });
+    }
+    return;
+  }
+
+  const network = getNetwork(safe.networkId);
+  const txHash: string = tx.transactionHash;
+
+  if (tx.isSuccessful === false) {
+    // Nothing left the vault; an admin retries or turns the refund into a claim
+    await refundRef.update({
+      status: "FAILED",
+      failureReason: "Return transfer reverted",
+      safe: { ...safe, confirmations, status: "FAILED", txHash, failureReason: "Safe transaction reverted", updatedAt: now },
+      updatedAt: now,
+    });
+    console.warn(`[SafeWithdrawals] Refund ${refundRef.id} reverted in ${txHash}`);
+    return;
+  }
+
+  // Queued first so a crash in between leaves the proposal for the next pass;
+  // the API retries the job until the refund shows REFUNDED
+  await new FirestoreJobQueue(firestore).add(JOB_QUEUES.REFUND_REVERSAL, "reverse", { refundId: refundRef.id }, {
+    jobId: `refund_reversal_${refundRef.id}`,
+  });
+  await refundRef.update({
+    status: "REFUNDED",
+    txHash,
+    explorerUrl: network ? `${network.explorerBaseUrl}/tx/${txHash}` : null,
+    failureReason: null,
+    completedAt: now,
+    safe: { ...safe, confirmations, status: "EXECUTED", executedAt: now, txHash, updatedAt: now },
+    updatedAt: now,
+  });
+
+  console.log(`✅ Refund ${refundRef.id} returned through Safe: ${txHash}`);
+}
+
+// Keep the reviewer attribution of signatures collected through the API
+function mirrorConfirmations(
+  safe: WithdrawalSafeState,
+  tx: any,
+  now: admin.firestore.Timestamp
+): WithdrawalSafeConfirmation[] {
+  const known = new Map(safe.confirmations.map((c) => [c.owner.toLowerCase(), c]));
+  return (tx.confirmations || []).map(
+    (c: any) => known.get(String(c.owner).toLowerCase()) || { owner: c.owner, reviewerId: null, confirmedAt: now }
+  );
+}
+
+async function trackSafeWithdrawal(
+  firestore: admin.firestore.Firestore,
+  privateRef: admin.firestore.DocumentReference
+): Promise<void> {
+  const withdrawal = (await privateRef.get()).data()!;
+  const safe = withdrawal.safe as WithdrawalSafeState;
+  const tx = await new SafeMultisigService(safe.networkId).getTransaction(safe.safeTxHash);
+  const now = admin.firestore.Timestamp.now();
+  const confirmations = mirrorConfirmations(safe, tx, now);
+
+  if (!tx.isExecuted) {
+    if (confirmations.length !== safe.confirmations.length) {
+      await privateRef.update({ "safe.confirmations": confirmations, "safe.updatedAt": now });
+    }
+    return;
+  }
+
+  const network = getNetwork(safe.networkId);
+  const txHash: string = tx.transactionHash;
+  const explorerUrl = network ? `${network.explorerBaseUrl}/tx/${txHash}` : null;
+
+  if (tx.isSuccessful === false) {
+    // Nothing left the vault; an admin decides whether to propose again
+    await privateRef.update({
+      safe: { ...safe, confirmations, status: "FAILED", txHash, failureReason: "Safe transaction reverted", updatedAt: now },
+      updatedAt: now,
+    });
+    console.warn(`[SafeWithdrawals] ${privateRef.id} reverted in ${txHash}`);
+    return;
+  }
+
+  await privateRef.update({
+    status: "PAID",
+    paidAt: now,
+    txHash,
+    explorerUrl,
+    safe: { ...safe, confirmations, status: "EXECUTED", executedAt: now, txHash, updatedAt: now },
+    updatedAt: now,
+  });
+
+  await firestore
+    .collection("withdrawals_public")
+    .doc(withdrawal.campaignId)
+    .collection("items")
+    .doc(privateRef.id)
+    .set({ status: "PAID", publicNote: "Payment completed", txHash, explorerUrl, updatedAt: now }, { merge: true });
+
+  const legacyRef = firestore.collection("withdrawals").doc(privateRef.id);
+  if ((await legacyRef.get()).exists) {
+    await legacyRef.update({ status: "PAID", txHash, explorerUrl, updatedAt: now });
+  }
+
+  console.log(`✅ Withdrawal ${privateRef.id} paid through Safe: ${txHash}`);
+}
@@ -0,0 +1,152 @@
+/**
+ * Sweep Ledger
+ *
+ * Bookkeeping for moving confirmed donations out of deposit addresses into
+ * campaign vaults. A sweep claims the chain_txs_private docs it moves (their
+ * sweepId), so a transfer is swept once; a sweep that moved nothing releases
+ * them for the next run. A mined sweep is published on the campaign's
+ * activity feed.
+ */
+
+import * as admin from "firebase-admin";
+import { randomBytes } from "crypto";
+import { getAsset } from "@opencause/crypto-core";
+import { ChainTxPrivateDoc, DepositSweepDoc, EventDoc } from "@opencause/firebase";
+
+export interface SweepClaim {
+  campaignId: string;
+  networkId: string;
+  assetId: string;
+  fromAddresses: string[];
+  vaultAddress: string;
+  chainTxIds: string[];
+  amountRaw: bigint;
+  amountNative: string;
+  feeRaw: bigint;
+}
+
+/**
+ * Confirmed, credited transfers on a network that no sweep has moved yet
+ */
+export async function getUnsweptTransfers(
+  db: admin.firestore.Firestore,
+  networkId: string
+): Promise<Array<ChainTxPrivateDoc & { id: string }>> {
+  const snapshot = await db
+    .collection("chain_txs_private")
+    .where("networkId", "==", networkId)
+    .where("status", "==", "CONFIRMED")
+    .get();
+  return snapshot.docs
+    .map((doc) => ({ id: doc.id, ...(doc.data() as ChainTxPrivateDoc) }))
+    .filter((tx) => !tx.sweepId && !!tx.campaignId);
+}
+
+/**
+ * Create a PENDING sweep and stamp its id on the transfers it moves. Returns
+ * null if another run claimed any of them first.
+ */
+export async function claimSweep(db: admin.firestore.Firestore, claim: SweepClaim): Promise<string | null> {
+  const sweepId = randomBytes(16).toString("hex");
+  const sweepRef = db.collection("deposit_sweeps").doc(sweepId);
+  const txRefs = claim.chainTxIds.map((id) => db.collection("chain_txs_private").doc(id));
+
+  return db.runTransaction(async (t) => {
+    const txs = await Promise.all(txRefs.map((ref) => t.get(ref)));
+    if (txs.some((tx) => tx.get("status") !== "CONFIRMED" || tx.get("sweepId"))) return null;
+
+    const now = admin.firestore.Timestamp.now();
+    const sweep: DepositSweepDoc = {
+      campaignId: claim.campaignId,
+      networkId: claim.networkId,
+      assetId: claim.assetId,
+      fromAddresses: claim.fromAddresses,
+      vaultAddress: claim.vaultAddress,
+      chainTxIds: claim.chainTxIds,
+      intentIds: [...new Set(txs.map((tx) => tx.get("intentId")).filter(Boolean))],
+      amountRaw: claim.amountRaw.toString(),
+      amountNative: claim.amountNative,
+      feeRaw: claim.feeRaw.toString(),
+      status: "PENDING",
+      createdAt: now,
+      updatedAt: now,
+    };
+    t.set(sweepRef, sweep);
+    for (const ref of txRefs) t.update(ref, { sweepId, updatedAt: now });
+    return sweepId;
+  });
+}
+
+/**
+ * Record progress on a sweep (gas top-up, approval, the sweep tx itself)
+ */
+export async function updateSweep(
+  db: admin.firestore.Firestore,
+  sweepId: string,
+  fields: Partial<DepositSweepDoc>
+) {
+  await db
+    .collection("deposit_sweeps")
+    .doc(sweepId)
+    .update({ ...fields, updatedAt: admin.firestore.Timestamp.now() });
+}
+
+/**
+ * Mark a sweep CONFIRMED and publish it on the campaign's activity feed
+ */
+export async function completeSweep(db: admin.firestore.Firestore, sweepId: string) {
+  const sweepRef = db.collection("deposit_sweeps").doc(sweepId);
+  await db.runTransaction(async (t) => {
+    const sweep = (await t.get(sweepRef)).data() as DepositSweepDoc | undefined;
+    if (!sweep || sweep.status === "CONFIRMED") return;
+
+    const now = admin.firestore.Timestamp.now();
+    t.update(sweepRef, { status: "CONFIRMED", confirmedAt: now, updatedAt: now });
+
+    const eventRef = db.collection("events").doc();
+    const event: EventDoc = {
+      id: eventRef.id,
+      campaignId: sweep.campaignId,
+      type: "FUNDS_SWEPT",
+      visibility: "PUBLIC",
+      actorUserId: null,
+      entityType: "SWEEP",
+      entityId: sweepId,
+      data: {
+        networkId: sweep.networkId,
+        assetId: sweep.assetId,
+        amount: sweep.amountNative,
+        currency: getAsset(sweep.assetId)?.symbol ?? sweep.assetId,
+        donations: sweep.chainTxIds.length,
+        vaultAddress: sweep.vaultAddress,
+        txHash: sweep.txHash,
+        explorerUrl: sweep.explorerUrl,
+      },
+      createdAt: now,
+      _campaignId: sweep.campaignId,
+      _type: "FUNDS_SWEPT",
+      _entityType: "SWEEP",
+      _entityId: sweepId,
+    };
+    t.set(eventRef, event);
+  });
+  console.log(`[SweepLedger] ✅ Sweep ${sweepId} confirmed`);
+}
+
+/**
+ * Mark a sweep that moved nothing FAILED and release its transfers
+ */
+export async function failSweep(db: admin.firestore.Firestore, sweepId: string, error: string) {
+  const sweepRef = db.collection("deposit_sweeps").doc(sweepId);
+  await db.runTransaction(async (t) => {
+    const sweep = (await t.get(sweepRef)).data() as DepositSweepDoc | undefined;
+    if (!sweep || sweep.status === "CONFIRMED" || sweep.status === "FAILED") return;
+
+    const now = admin.firestore.Timestamp.now();
+    t.update(sweepRef, { status: "FAILED", error, updatedAt: now });
+    for (const id of sweep.chainTxIds) {
+      t.update(db.collection("chain_txs_private").doc(id), { sweepId: null, updatedAt: now });
+    }
+  });
+  console.warn(`[SweepLedger] ⚠️ Sweep ${sweepId} failed: ${error}`);
+}
@@ -0,0 +1,24 @@
+/**
+ * Treasury Signer
+ *
+ * The worker's handle on the platform signing key (TREASURY_SIGNER: local
+ * key, AWS KMS or the KMS emulator; see @opencause/crypto-core). Safe
+ * proposals for withdrawals and refunds are signed through it; the KMS
+ * key's address is cached in key_configs, shared with the API.
+ */
+
+import type { Address } from "viem";
+import { FirestoreRepository } from "@opencause/firebase";
+import { createTreasurySigner, TreasurySigner } from "@opencause/crypto-core";
+
+let signer: TreasurySigner | null = null;
+
+export function getTreasurySigner(repo: FirestoreRepository): TreasurySigner {
+  if (!signer) {
+    signer = createTreasurySigner({
+      get: async (keyRef) => (await repo.getSignerAddress(keyRef)) as Address | null,
+      set: (keyRef, address) => repo.setSignerAddress(keyRef, address),
+    });
+  }
+  return signer;
+}
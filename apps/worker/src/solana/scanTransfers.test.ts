@@ -0,0 +1,173 @@
+import {
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { startSolanaValidator, SolanaValidator } from "@opencause/testkit";
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress, scanAccountTransfers } from "./scanTransfers";
+import { createAssociatedTokenAccountIdempotent, transferChecked } from "./splToken";
+
+const MINT_SIZE = 82;
+
+// SPL token instructions the scanner does not send: InitializeMint2, MintTo
+const u64 = (value: bigint) => {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+};
+
+const initializeMint = (mint: PublicKey, decimals: number, authority: PublicKey) =>
+  new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data: Buffer.concat([Buffer.from([20, decimals]), authority.toBuffer(), Buffer.from([0])]),
+  });
+
+const mintTo = (mint: PublicKey, destination: PublicKey, authority: PublicKey, amount: bigint) =>
+  new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.concat([Buffer.from([7]), u64(amount)]),
+  });
+
+const associatedAccount = (owner: PublicKey, mint: PublicKey) =>
+  new PublicKey(getAssociatedTokenAddress(owner.toBase58(), mint.toBase58()));
+
+describe("scanAccountTransfers", () => {
+  let validator: SolanaValidator;
+  let connection: Connection;
+  const payer = Keypair.generate();
+
+  const send = (instructions: TransactionInstruction[], signers: Keypair[] = [payer]) =>
+    sendAndConfirmTransaction(connection, new Transaction().add(...instructions), signers, { commitment: "confirmed" });
+
+  const paySol = (to: PublicKey, lamports: number) =>
+    send([SystemProgram.transfer({ fromPubkey: payer.publicKey, toPubkey: to, lamports })]);
+
+  beforeAll(async () => {
+    validator = await startSolanaValidator({ rpcPort: 8999, faucetPort: 9901 });
+    connection = new Connection(validator.rpcUrl, "confirmed");
+
+    const airdrop = await connection.requestAirdrop(payer.publicKey, 10 * LAMPORTS_PER_SOL);
+    const blockhash = await connection.getLatestBlockhash();
+    await connection.confirmTransaction({ signature: airdrop, ...blockhash }, "confirmed");
+  }, 120_000);
+
+  afterAll(async () => {
+    await validator?.stop();
+  });
+
+  it("reads the latest SOL transfers of an account seen for the first time", async () => {
+    const wallet = Keypair.generate().publicKey;
+    const signature = await paySol(wallet, 5_000_000);
+
+    const { transfers, newestSignature } = await scanAccountTransfers({
+      connection,
+      account: wallet.toBase58(),
+      mint: null,
+    });
+
+    expect(transfers).toEqual([
+      expect.objectContaining({
+        signature,
+        from: payer.publicKey.toBase58(),
+        account: wallet.toBase58(),
+        mint: null,
+        amount: 5_000_000n,
+      }),
+    ]);
+    expect(newestSignature).toBe(signature);
+  }, 60_000);
+
+  it("pages back to the cursor when more signatures arrived than fit in a page", async () => {
+    const wallet = Keypair.generate().publicKey;
+    const cursor = await paySol(wallet, 1_000_000);
+
+    const signatures: string[] = [];
+    for (let i = 1; i <= 5; i++) {
+      signatures.push(await paySol(wallet, 1_000_000 + i));
+    }
+
+    const { transfers, newestSignature } = await scanAccountTransfers({
+      connection,
+      account: wallet.toBase58(),
+      mint: null,
+      until: cursor,
+      pageSize: 2,
+    });
+
+    expect(transfers.map((t) => [t.signature, t.amount])).toEqual(
+      signatures.map((signature, i) => [signature, BigInt(1_000_000 + i + 1)])
+    );
+    expect(newestSignature).toBe(signatures[4]);
+
+    const resumed = await scanAccountTransfers({
+      connection,
+      account: wallet.toBase58(),
+      mint: null,
+      until: newestSignature!,
+      pageSize: 2,
+    });
+    expect(resumed.transfers).toEqual([]);
+  }, 120_000);
+
+  it("credits SPL transferChecked payments into the wallet's associated token account", async () => {
+    const decimals = 6;
+    const mint = Keypair.generate();
+    const sender = Keypair.generate();
+    const wallet = Keypair.generate().publicKey;
+    const source = associatedAccount(sender.publicKey, mint.publicKey);
+    const destination = associatedAccount(wallet, mint.publicKey);
+
+    await send(
+      [
+        SystemProgram.createAccount({
+          fromPubkey: payer.publicKey,
+          newAccountPubkey: mint.publicKey,
+          lamports: await connection.getMinimumBalanceForRentExemption(MINT_SIZE),
+          space: MINT_SIZE,
+          programId: TOKEN_PROGRAM_ID,
+        }),
+        initializeMint(mint.publicKey, decimals, payer.publicKey),
+        createAssociatedTokenAccountIdempotent(payer.publicKey, sender.publicKey, mint.publicKey),
+        createAssociatedTokenAccountIdempotent(payer.publicKey, wallet, mint.publicKey),
+        mintTo(mint.publicKey, source, payer.publicKey, 5_000_000n),
+      ],
+      [payer, mint]
+    );
+
+    // Two payments into the wallet in one transaction are credited as one
+    const signature = await send(
+      [
+        transferChecked(source, mint.publicKey, destination, sender.publicKey, 1_500_000n, decimals),
+        transferChecked(source, mint.publicKey, destination, sender.publicKey, 500_000n, decimals),
+      ],
+      [payer, sender]
+    );
+
+    const { transfers } = await scanAccountTransfers({
+      connection,
+      account: destination.toBase58(),
+      mint: mint.publicKey.toBase58(),
+    });
+
+    expect(transfers).toEqual([
+      expect.objectContaining({
+        signature,
+        from: sender.publicKey.toBase58(),
+        account: destination.toBase58(),
+        mint: mint.publicKey.toBase58(),
+        amount: 2_000_000n,
+      }),
+    ]);
+  }, 120_000);
+});
@@ -0,0 +1,130 @@
+import {
+  ConfirmedSignatureInfo,
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+} from "@solana/web3.js";
+
+export const TOKEN_PROGRAM_ID = new PublicKey("TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA");
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey("ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL");
+
+// Signatures fetched for an account seen for the first time
+const FIRST_SCAN_LIMIT = 100;
+// Most signatures getSignaturesForAddress returns per call
+const SIGNATURE_PAGE_SIZE = 1000;
+
+export interface SolanaTransfer {
+  signature: string;
+  slot: number;
+  blockTime: number | null; // unix seconds
+  from: string; // Paying wallet (SPL: the transfer authority)
+  account: string; // Account credited: the wallet for SOL, its token account for SPL
+  mint: string | null; // null for native SOL
+  amount: bigint; // Lamports or token base units
+}
+
+/**
+ * Associated token account of a wallet for a mint (what wallets pay SPL
+ * tokens into when given the wallet address)
+ */
+export function getAssociatedTokenAddress(owner: string, mint: string): string {
+  const [address] = PublicKey.findProgramAddressSync(
+    [new PublicKey(owner).toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), new PublicKey(mint).toBuffer()],
+    ASSOCIATED_TOKEN_PROGRAM_ID
+  );
+  return address.toBase58();
+}
+
+/**
+ * Collect transfers into an account from confirmed transactions newer than
+ * `until` (oldest first), plus the newest signature seen to resume from.
+ * Signatures are paged back from the newest until `until` is reached; an
+ * account seen for the first time only has its latest FIRST_SCAN_LIMIT read.
+ * SPL transfers are read from transferChecked (and plain transfer)
+ * instructions, inner instructions included; SOL from system transfers.
+ * Several transfers into the account in one transaction are summed.
+ */
+export async function scanAccountTransfers({
+  connection,
+  account,
+  mint,
+  until,
+  pageSize = SIGNATURE_PAGE_SIZE,
+}: {
+  connection: Connection;
+  account: string;
+  mint: string | null;
+  until?: string;
+  pageSize?: number;
+}): Promise<{ transfers: SolanaTransfer[]; newestSignature: string | null }> {
+  const address = new PublicKey(account);
+  const signatures: ConfirmedSignatureInfo[] = [];
+  if (!until) {
+    const latest = await connection.getSignaturesForAddress(address, { limit: FIRST_SCAN_LIMIT }, "confirmed");
+    signatures.push(...latest);
+  } else {
+    let before: string | undefined;
+    for (;;) {
+      const page = await connection.getSignaturesForAddress(address, { until, before, limit: pageSize }, "confirmed");
+      signatures.push(...page);
+      if (page.length < pageSize) break;
+      before = page[page.length - 1].signature;
+    }
+  }
+
+  const transfers: SolanaTransfer[] = [];
+  for (const info of [...signatures].reverse()) {
+    if (info.err) continue;
+
+    const tx = await connection.getParsedTransaction(info.signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+    if (!tx || tx.meta?.err) continue;
+
+    const transfer = parseTransfersTo(tx, account, mint);
+    if (transfer) transfers.push({ ...transfer, signature: info.signature, slot: tx.slot, blockTime: tx.blockTime ?? null });
+  }
+
+  return { transfers, newestSignature: signatures[0]?.signature ?? null };
+}
+
+function parseTransfersTo(
+  tx: ParsedTransactionWithMeta,
+  account: string,
+  mint: string | null
+): Pick<SolanaTransfer, "from" | "account" | "mint" | "amount"> | null {
+  const instructions: Array<ParsedInstruction | PartiallyDecodedInstruction> = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap((inner) => inner.instructions),
+  ];
+
+  let amount = 0n;
+  let from: string | null = null;
+  for (const ix of instructions) {
+    if (!("parsed" in ix) || !ix.parsed?.info) continue;
+    const { type, info } = ix.parsed;
+
+    if (mint === null) {
+      if (ix.program !== "system" || type !== "transfer" || info.destination !== account) continue;
+      amount += BigInt(info.lamports);
+      from ??= info.source;
+    } else {
+      if (ix.program !== "spl-token" || info.destination !== account) continue;
+      if (type === "transferChecked") {
+        if (info.mint !== mint) continue;
+        amount += BigInt(info.tokenAmount.amount);
+      } else if (type === "transfer") {
+        // The destination account can only hold its own mint
+        amount += BigInt(info.amount);
+      } else {
+        continue;
+      }
+      from ??= info.authority ?? info.multisigAuthority ?? info.source;
+    }
+  }
+
+  return amount > 0n && from ? { from, account, mint, amount } : null;
+}
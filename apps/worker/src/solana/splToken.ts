@@ -0,0 +1,64 @@
+/**
+ * The two SPL instructions deposit sweeps send, built by hand rather than
+ * pulling in @solana/spl-token: creating a wallet's associated token account
+ * if it does not exist yet, and transferChecked.
+ */
+
+import { PublicKey, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import { ASSOCIATED_TOKEN_PROGRAM_ID, TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from "./scanTransfers";
+
+// Instruction indices
+const CREATE_IDEMPOTENT = 1; // Associated token program
+const TRANSFER_CHECKED = 12; // Token program
+
+/**
+ * Create `owner`'s associated token account for `mint`, paid by `payer`; a
+ * no-op if it already exists
+ */
+export function createAssociatedTokenAccountIdempotent(
+  payer: PublicKey,
+  owner: PublicKey,
+  mint: PublicKey
+): TransactionInstruction {
+  const account = new PublicKey(getAssociatedTokenAddress(owner.toBase58(), mint.toBase58()));
+  return new TransactionInstruction({
+    programId: ASSOCIATED_TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: payer, isSigner: true, isWritable: true },
+      { pubkey: account, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+    ],
+    data: Buffer.from([CREATE_IDEMPOTENT]),
+  });
+}
+
+/**
+ * Move `amount` base units between token accounts of `mint`, signed by the
+ * source account's owner
+ */
+export function transferChecked(
+  source: PublicKey,
+  mint: PublicKey,
+  destination: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  decimals: number
+): TransactionInstruction {
+  const data = Buffer.alloc(10);
+  data[0] = TRANSFER_CHECKED;
+  data.writeBigUInt64LE(amount, 1);
+  data[9] = decimals;
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: source, isSigner: false, isWritable: true },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: owner, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+}
@@ -0,0 +1,215 @@
+import { randomBytes } from "crypto";
+import * as admin from "firebase-admin";
+import {
+  Commitment,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  sendAndConfirmTransaction,
+} from "@solana/web3.js";
+import { HDKey } from "viem/accounts";
+import { getAsset, getNetwork } from "@opencause/crypto-core";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  seedTestHdWallet,
+  startSolanaValidator,
+  SolanaValidator,
+} from "@opencause/testkit";
+import { getUnsweptTransfers } from "../services/sweep-ledger";
+import { TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from "./scanTransfers";
+import { createAssociatedTokenAccountIdempotent } from "./splToken";
+import { sweepSolanaDeposits, trackSolanaSweeps } from "./sweep";
+
+const MINT_RENT_LAMPORTS = 1_461_600;
+
+// An initialized SPL mint account with no supply
+const mintAccountData = (authority: PublicKey, decimals: number) => {
+  const data = Buffer.alloc(82);
+  data.writeUInt32LE(1, 0); // Mint authority present
+  authority.toBuffer().copy(data, 4);
+  data[44] = decimals;
+  data[45] = 1; // Initialized
+  return data;
+};
+
+const mintTo = (mint: PublicKey, destination: PublicKey, authority: PublicKey, amount: bigint) => {
+  const data = Buffer.alloc(9);
+  data[0] = 7; // MintTo
+  data.writeBigUInt64LE(amount, 1);
+  return new TransactionInstruction({
+    programId: TOKEN_PROGRAM_ID,
+    keys: [
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: destination, isSigner: false, isWritable: true },
+      { pubkey: authority, isSigner: true, isWritable: false },
+    ],
+    data,
+  });
+};
+
+describe("Solana deposit sweeps", () => {
+  let validator: SolanaValidator;
+  let connection: Connection;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  const env = { ...process.env };
+
+  const network = getNetwork("solana_mainnet")!;
+  // The registry's USDC mint, loaded at genesis with a test mint authority
+  const usdc = new PublicKey(getAsset("usdc_solana_mainnet")!.contractAddress!);
+  const mintAuthority = Keypair.generate();
+  const feePayer = Keypair.generate();
+  const vault = Keypair.generate().publicKey;
+
+  const seed = randomBytes(64);
+  const derivationPath = "m/44'/501'/0'/0'/31";
+  const owner = Keypair.fromSeed(HDKey.fromMasterSeed(seed).derive(derivationPath).privateKey!);
+  const depositAddress = owner.publicKey.toBase58();
+
+  const airdrop = async (to: PublicKey, lamports: number, commitment: Commitment = "confirmed") => {
+    const signature = await connection.requestAirdrop(to, lamports);
+    await connection.confirmTransaction({ signature, ...(await connection.getLatestBlockhash()) }, commitment);
+  };
+
+  const sweep = async () => {
+    await trackSolanaSweeps(db, network, connection);
+    await sweepSolanaDeposits(db, network, connection, await getUnsweptTransfers(db, network.networkId));
+  };
+
+  const seedTransfer = (id: string, amountRaw: bigint, mint: string | null = null) =>
+    db.collection("chain_txs_private").doc(id).set({
+      networkId: network.networkId,
+      txHash: `sig_${id}`,
+      to: depositAddress,
+      amountRaw: amountRaw.toString(),
+      assetType: mint ? "SPL" : "SOL",
+      tokenAddress: mint,
+      status: "CONFIRMED",
+      intentId: `intent_${id}`,
+      campaignId: "camp1",
+    });
+
+  const sweeps = async () => (await db.collection("deposit_sweeps").get()).docs.map((doc) => doc.data());
+
+  beforeAll(async () => {
+    validator = await startSolanaValidator({
+      rpcPort: 9099,
+      faucetPort: 9902,
+      accounts: [
+        {
+          address: usdc.toBase58(),
+          owner: TOKEN_PROGRAM_ID.toBase58(),
+          lamports: MINT_RENT_LAMPORTS,
+          data: mintAccountData(mintAuthority.publicKey, 6),
+        },
+      ],
+    });
+    connection = new Connection(validator.rpcUrl, "confirmed");
+    process.env.SOLANA_SWEEP_FEE_PAYER_KEY = JSON.stringify([...feePayer.secretKey]);
+    await seedTestHdWallet(seed);
+    await airdrop(feePayer.publicKey, LAMPORTS_PER_SOL);
+  }, 120_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await validator?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["campaign_deposits", "chain_txs_private", "deposit_sweeps", "events"]);
+    await db.collection("campaign_deposits").doc("camp1_sol_solana_mainnet").set({
+      campaignId: "camp1",
+      assetId: "sol_solana_mainnet",
+      networkId: network.networkId,
+      address: depositAddress,
+      derivationPath,
+      vaultAddress: vault.toBase58(),
+    });
+  });
+
+  it("moves SOL to the vault wallet, paying the fee out of the amount", async () => {
+    await airdrop(owner.publicKey, LAMPORTS_PER_SOL / 2, "finalized");
+    await seedTransfer("s1", BigInt(LAMPORTS_PER_SOL / 2));
+    const before = await connection.getBalance(vault);
+
+    await sweep();
+
+    const [swept] = await sweeps();
+    expect(swept).toMatchObject({
+      status: "CONFIRMED",
+      assetId: "sol_solana_mainnet",
+      amountRaw: String(LAMPORTS_PER_SOL / 2),
+      feeRaw: "5000",
+      txHash: expect.any(String),
+    });
+    expect((await connection.getBalance(vault, "finalized")) - before).toBe(LAMPORTS_PER_SOL / 2 - 5000);
+    expect(await connection.getBalance(owner.publicKey)).toBe(0);
+  }, 120_000);
+
+  it("moves SPL tokens into the vault's token account with the fee payer paying", async () => {
+    const source = new PublicKey(getAssociatedTokenAddress(depositAddress, usdc.toBase58()));
+    await sendAndConfirmTransaction(
+      connection,
+      new Transaction().add(
+        createAssociatedTokenAccountIdempotent(feePayer.publicKey, owner.publicKey, usdc),
+        mintTo(usdc, source, mintAuthority.publicKey, 25_000_000n)
+      ),
+      [feePayer, mintAuthority],
+      { commitment: "finalized" }
+    );
+    await seedTransfer("t1", 25_000_000n, usdc.toBase58());
+
+    await sweep();
+
+    expect(await sweeps()).toEqual([
+      expect.objectContaining({ status: "CONFIRMED", assetId: "usdc_solana_mainnet", feeRaw: "0" }),
+    ]);
+    const destination = new PublicKey(getAssociatedTokenAddress(vault.toBase58(), usdc.toBase58()));
+    expect((await connection.getTokenAccountBalance(destination)).value.amount).toBe("25000000");
+    expect((await connection.getTokenAccountBalance(source)).value.amount).toBe("0");
+  }, 120_000);
+
+  it("sends a sweep saved by a run that died before broadcasting it", async () => {
+    await airdrop(owner.publicKey, LAMPORTS_PER_SOL / 2, "finalized");
+    await seedTransfer("s2", BigInt(LAMPORTS_PER_SOL / 2));
+
+    const latest = await connection.getLatestBlockhash();
+    const tx = new Transaction({ feePayer: owner.publicKey, ...latest }).add(
+      SystemProgram.transfer({ fromPubkey: owner.publicKey, toPubkey: vault, lamports: LAMPORTS_PER_SOL / 2 - 5000 })
+    );
+    tx.sign(owner);
+    await db.collection("deposit_sweeps").doc("sweep1").set({
+      campaignId: "camp1",
+      networkId: network.networkId,
+      assetId: "sol_solana_mainnet",
+      fromAddresses: [depositAddress],
+      vaultAddress: vault.toBase58(),
+      chainTxIds: ["s2"],
+      intentIds: ["intent_s2"],
+      amountRaw: String(LAMPORTS_PER_SOL / 2),
+      amountNative: "0.5",
+      feeRaw: "5000",
+      status: "SUBMITTED",
+      rawTx: tx.serialize().toString("base64"),
+      lastValidBlockHeight: latest.lastValidBlockHeight,
+      createdAt: admin.firestore.Timestamp.now(),
+    });
+    await db.collection("chain_txs_private").doc("s2").update({ sweepId: "sweep1" });
+
+    const deadline = Date.now() + 60_000;
+    while ((await sweeps())[0].status === "SUBMITTED" && Date.now() < deadline) {
+      await sweep();
+      await new Promise((resolve) => setTimeout(resolve, 2_000));
+    }
+
+    expect(await sweeps()).toEqual([
+      expect.objectContaining({ status: "CONFIRMED", txHash: expect.any(String), explorerUrl: expect.any(String) }),
+    ]);
+    expect(await connection.getBalance(owner.publicKey)).toBe(0);
+  }, 120_000);
+});
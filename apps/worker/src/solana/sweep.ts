@@ -0,0 +1,233 @@
+/**
+ * Solana deposit sweeps: SOL and SPL tokens credited to a campaign's deposit
+ * wallets go to its vault wallet (`vaultAddress` on the campaign's deposit
+ * doc, or `<NETWORK_ID>_SWEEP_ADDRESS` for the whole network), SPL tokens
+ * into the vault wallet's associated token account. SOL sweeps pay their fee
+ * out of the amount; deposit wallets hold no SOL for SPL sweeps, so the fee
+ * payer in SOLANA_SWEEP_FEE_PAYER_KEY (a solana-keygen JSON secret key) pays
+ * for them, and for the vault's token account if it does not exist yet.
+ *
+ * The signed tx is saved on the sweep before it is sent, so a run that dies
+ * in between rebroadcasts it instead of leaving the transfers claimed.
+ */
+
+import * as admin from "firebase-admin";
+import { Connection, Keypair, PublicKey, SystemProgram, Transaction } from "@solana/web3.js";
+import { CampaignDepositDoc, ChainTxPrivateDoc, DepositSweepDoc } from "@opencause/firebase";
+import { CryptoAsset, CryptoNetwork, getAssetsByNetwork } from "@opencause/crypto-core";
+import { deriveDepositKey } from "../services/deposit-keys";
+import { formatUnits } from "../services/intent-ledger";
+import { claimSweep, completeSweep, failSweep, updateSweep } from "../services/sweep-ledger";
+import { getAssociatedTokenAddress } from "./scanTransfers";
+import { createAssociatedTokenAccountIdempotent, transferChecked } from "./splToken";
+
+// Base fee of a transaction with one signature
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+
+/**
+ * Sweep every deposit wallet on the network with confirmed donations no
+ * sweep has moved yet, one sweep per wallet and asset
+ */
+export async function sweepSolanaDeposits(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  connection: Connection,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  const depositsSnap = await db.collection("campaign_deposits").where("networkId", "==", network.networkId).get();
+  const deposits = depositsSnap.docs.map((doc) => doc.data() as CampaignDepositDoc);
+  const networkVault = process.env[`${network.networkId.toUpperCase().replace(/-/g, "_")}_SWEEP_ADDRESS`];
+  const assets = getAssetsByNetwork(network.networkId).filter(
+    (asset) => asset.assetType === "SOL" || (asset.assetType === "SPL" && asset.contractAddress)
+  );
+
+  // A wallet receives every asset, whichever asset its deposit doc is for
+  const wallets = new Map<string, CampaignDepositDoc>();
+  for (const deposit of deposits) {
+    if (deposit.address && deposit.derivationPath && !wallets.has(deposit.address)) {
+      wallets.set(deposit.address, deposit);
+    }
+  }
+
+  for (const deposit of wallets.values()) {
+    const vaultAddress =
+      deposits.find((d) => d.campaignId === deposit.campaignId && !d.parentRef && d.vaultAddress)?.vaultAddress ||
+      networkVault;
+    if (!vaultAddress) continue;
+
+    for (const asset of assets) {
+      const mint = asset.assetType === "SPL" ? asset.contractAddress! : null;
+      const swept = transfers.filter(
+        (tx) => tx.to === deposit.address && tx.campaignId === deposit.campaignId && (tx.tokenAddress || null) === mint
+      );
+      if (swept.length === 0) continue;
+
+      try {
+        await sweepWallet(db, network, connection, deposit, vaultAddress, asset, swept);
+      } catch (error: any) {
+        console.error(`[DepositSweeper] Error sweeping ${asset.symbol} from ${deposit.address}:`, error.message);
+      }
+    }
+  }
+}
+
+async function sweepWallet(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  connection: Connection,
+  deposit: CampaignDepositDoc,
+  vaultAddress: string,
+  asset: CryptoAsset,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  // The API seeds a wallet's ed25519 keypair with its derived secp256k1 key
+  const { privateKey } = await deriveDepositKey(db, deposit.derivationPath!);
+  const owner = Keypair.fromSeed(privateKey.slice(0, 32));
+  if (owner.publicKey.toBase58() !== deposit.address) {
+    throw new Error(`Derived key does not match deposit address ${deposit.address}`);
+  }
+
+  const mint = asset.assetType === "SPL" ? new PublicKey(asset.contractAddress!) : null;
+  const vault = new PublicKey(vaultAddress);
+  const source = mint ? new PublicKey(getAssociatedTokenAddress(deposit.address, mint.toBase58())) : owner.publicKey;
+
+  const amount = transfers.reduce((sum, tx) => sum + BigInt(tx.amountRaw), 0n);
+  const balance = mint
+    ? BigInt((await connection.getTokenAccountBalance(source, "finalized")).value.amount)
+    : BigInt(await connection.getBalance(owner.publicKey, "finalized"));
+  if (balance < amount) {
+    console.warn(
+      `[DepositSweeper] ⚠️ ${source.toBase58()} holds ${balance}, less than the ${amount} credited; not sweeping`
+    );
+    return;
+  }
+
+  const fee = mint ? 0n : LAMPORTS_PER_SIGNATURE;
+  if (!mint && amount <= fee) return; // Not worth the fee yet
+  const feePayer = mint ? loadFeePayer() : owner;
+
+  const sweepId = await claimSweep(db, {
+    campaignId: deposit.campaignId,
+    networkId: network.networkId,
+    assetId: asset.assetId,
+    fromAddresses: [deposit.address],
+    vaultAddress,
+    chainTxIds: transfers.map((tx) => tx.id),
+    amountRaw: amount,
+    amountNative: formatUnits(amount, asset.decimals),
+    feeRaw: fee,
+  });
+  if (!sweepId) return;
+
+  let rawTx: string;
+  let latest: { blockhash: string; lastValidBlockHeight: number };
+  try {
+    latest = await connection.getLatestBlockhash("confirmed");
+    const tx = new Transaction({ feePayer: feePayer.publicKey, ...latest });
+    if (mint) {
+      const destination = new PublicKey(getAssociatedTokenAddress(vaultAddress, mint.toBase58()));
+      tx.add(
+        createAssociatedTokenAccountIdempotent(feePayer.publicKey, vault, mint),
+        transferChecked(source, mint, destination, owner.publicKey, amount, asset.decimals)
+      );
+      tx.sign(feePayer, owner);
+    } else {
+      tx.add(SystemProgram.transfer({ fromPubkey: owner.publicKey, toPubkey: vault, lamports: amount - fee }));
+      tx.sign(owner);
+    }
+    rawTx = tx.serialize().toString("base64");
+  } catch (error: any) {
+    await failSweep(db, sweepId, error.message);
+    return;
+  }
+
+  await updateSweep(db, sweepId, { status: "SUBMITTED", rawTx, lastValidBlockHeight: latest.lastValidBlockHeight });
+  const signature = await broadcast(db, network, connection, sweepId, rawTx);
+  if (!signature) return;
+
+  console.log(
+    `[DepositSweeper] Sweeping ${amount} ${asset.symbol} from ${deposit.address} into ${vaultAddress}: ${signature}`
+  );
+  await connection.confirmTransaction({ signature, ...latest }, "finalized").catch(() => null);
+  await settleSolanaSweep(db, connection, sweepId, signature, latest.lastValidBlockHeight);
+}
+
+/**
+ * Fee payer for SPL sweeps
+ */
+function loadFeePayer(): Keypair {
+  const secret = process.env.SOLANA_SWEEP_FEE_PAYER_KEY;
+  if (!secret) throw new Error("SOLANA_SWEEP_FEE_PAYER_KEY is not set; cannot pay fees for token transfers");
+  return Keypair.fromSecretKey(Uint8Array.from(JSON.parse(secret)));
+}
+
+/**
+ * Send a saved sweep tx (again) and record its signature; null if the node
+ * could not be reached
+ */
+async function broadcast(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  connection: Connection,
+  sweepId: string,
+  rawTx: string
+): Promise<string | null> {
+  let signature: string;
+  try {
+    // Resending a tx that already landed is harmless; preflight would reject it
+    signature = await connection.sendRawTransaction(Buffer.from(rawTx, "base64"), { skipPreflight: true });
+  } catch (error: any) {
+    console.error(`[DepositSweeper] Could not broadcast sweep ${sweepId}:`, error.message);
+    return null;
+  }
+  await updateSweep(db, sweepId, {
+    txHash: signature,
+    explorerUrl: `${network.explorerBaseUrl}/tx/${signature}`,
+  });
+  return signature;
+}
+
+/**
+ * Settle a SUBMITTED sweep: CONFIRMED once finalized, FAILED if it errored
+ * or can no longer land because its blockhash expired; left SUBMITTED while
+ * it may still land
+ */
+async function settleSolanaSweep(
+  db: admin.firestore.Firestore,
+  connection: Connection,
+  sweepId: string,
+  signature: string,
+  lastValidBlockHeight: number
+) {
+  const { value } = await connection.getSignatureStatuses([signature], { searchTransactionHistory: true });
+  const status = value[0];
+  if (status?.err) {
+    await failSweep(db, sweepId, `Sweep tx ${signature} failed: ${JSON.stringify(status.err)}`);
+  } else if (status?.confirmationStatus === "finalized") {
+    await completeSweep(db, sweepId);
+  } else if (!status && (await connection.getBlockHeight("finalized")) > lastValidBlockHeight) {
+    await failSweep(db, sweepId, `Sweep tx ${signature} expired without landing`);
+  }
+}
+
+/**
+ * Settle sweeps sent by earlier runs, rebroadcasting those whose signature
+ * was never recorded
+ */
+export async function trackSolanaSweeps(db: admin.firestore.Firestore, network: CryptoNetwork, connection: Connection) {
+  const submitted = await db
+    .collection("deposit_sweeps")
+    .where("networkId", "==", network.networkId)
+    .where("status", "==", "SUBMITTED")
+    .get();
+
+  for (const doc of submitted.docs) {
+    const sweep = doc.data() as DepositSweepDoc;
+    try {
+      const signature = sweep.txHash || (await broadcast(db, network, connection, doc.id, sweep.rawTx!));
+      if (signature) await settleSolanaSweep(db, connection, doc.id, signature, sweep.lastValidBlockHeight!);
+    } catch (error: any) {
+      console.error(`[DepositSweeper] Error tracking sweep ${doc.id}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { startBitcoind, startElectrs, BitcoindNode, ElectrsNode } from "@opencause/testkit";
+import { UtxoBackend } from "./backend";
+import { BitcoindRpcBackend } from "./bitcoind-rpc";
+import { EsploraBackend } from "./esplora";
+
+describe("UTXO backends on regtest", () => {
+  let bitcoind: BitcoindNode;
+  let electrs: ElectrsNode;
+
+  beforeAll(async () => {
+    bitcoind = await startBitcoind({ rpcPort: 18543 });
+    electrs = await startElectrs({ bitcoind, httpPort: 3102 });
+  }, 120_000);
+
+  afterAll(async () => {
+    await electrs?.stop();
+    await bitcoind?.stop();
+  });
+
+  const newAddress = () => bitcoind.rpc<string>("getnewaddress", [], "miner");
+
+  describe.each([
+    ["bitcoind-rpc", () => new BitcoindRpcBackend(bitcoind.walletUrl("watch"))],
+    ["esplora", () => new EsploraBackend(electrs.esploraUrl)],
+  ] as Array<[string, () => UtxoBackend]>)("%s", (name, createBackend) => {
+    let backend: UtxoBackend;
+
+    // Esplora only answers for what electrs has indexed
+    const synced = async (txid?: string) => {
+      if (name !== "esplora") return;
+      await (txid ? electrs.waitForTx(txid) : electrs.waitForTip());
+    };
+
+    beforeEach(() => {
+      backend = createBackend();
+    });
+
+    it("follows a payment from the mempool into a block", async () => {
+      const address = await newAddress();
+      await backend.watchAddresses?.([address]);
+
+      const txid = await bitcoind.send(address, "0.00123456");
+      await synced(txid);
+
+      const [pending] = await backend.getAddressTransactions(address);
+      expect(pending).toMatchObject({ txid, confirmed: false, blockHeight: null, blockHash: null });
+      expect(pending.outputs).toContainEqual({ address, valueSats: 123456n });
+      expect(pending.spentOutpoints.length).toBeGreaterThan(0);
+      expect(await backend.getAddressUnspent(address)).toEqual([
+        { txid, vout: expect.any(Number), valueSats: 123456n, confirmed: false },
+      ]);
+
+      const [blockHash] = await bitcoind.mine(1);
+      await synced();
+
+      const tip = await backend.getTipHeight();
+      expect(tip).toBe(await bitcoind.rpc("getblockcount"));
+      expect(await backend.getTransaction(txid)).toMatchObject({
+        txid,
+        confirmed: true,
+        blockHeight: tip,
+        blockHash,
+        blockTime: expect.any(Number),
+      });
+      expect(await backend.getAddressUnspent(address)).toEqual([
+        { txid, vout: expect.any(Number), valueSats: 123456n, confirmed: true },
+      ]);
+    });
+
+    it("no longer returns a transaction an RBF replacement evicted", async () => {
+      const address = await newAddress();
+      await backend.watchAddresses?.([address]);
+      const txid = await bitcoind.send(address, "0.0015");
+      await synced(txid);
+      const original = await backend.getTransaction(txid);
+
+      const { txid: replacement } = await bitcoind.rpc<{ txid: string }>("bumpfee", [txid], "miner");
+      await synced(replacement);
+
+      expect(await backend.getTransaction(txid)).toBeNull();
+      const replacementTx = await backend.getTransaction(replacement);
+      expect(replacementTx?.spentOutpoints).toEqual(original?.spentOutpoints);
+      expect(replacementTx?.outputs).toContainEqual({ address, valueSats: 150000n });
+      expect((await backend.getAddressTransactions(address)).map((tx) => tx.txid)).toEqual([replacement]);
+    });
+
+    it("returns null for a transaction it has never seen", async () => {
+      expect(await backend.getTransaction("00".repeat(32))).toBeNull();
+    });
+
+    it("broadcasts a signed transaction", async () => {
+      const raw = await bitcoind.rpc<string>("createrawtransaction", [[], { [await newAddress()]: 0.001 }]);
+      const { hex: funded } = await bitcoind.rpc<{ hex: string }>("fundrawtransaction", [raw], "miner");
+      const { hex } = await bitcoind.rpc<{ hex: string }>("signrawtransactionwithwallet", [funded], "miner");
+
+      const txid = await backend.broadcastTransaction(hex);
+
+      expect(txid).toBe((await bitcoind.rpc<{ txid: string }>("decoderawtransaction", [hex])).txid);
+      expect(await bitcoind.rpc("getmempoolentry", [txid])).toBeTruthy();
+    });
+
+    it("falls back to 1 sat/vB without fee data", async () => {
+      expect(await backend.estimateFeeRate(6)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { UtxoBackend, UtxoTx, UtxoUnspent } from "./backend";
+
+interface EsploraTx {
+  txid: string;
+  vin: Array<{ txid: string; vout: number; is_coinbase?: boolean }>;
+  vout: Array<{ value: number; scriptpubkey_address?: string }>; // value in sats
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_hash?: string;
+    block_time?: number;
+  };
+}
+
+/**
+ * Esplora HTTP API (blockstream.info, mempool.space, litecoinspace.org or a
+ * self-hosted electrs)
+ */
+export class EsploraBackend implements UtxoBackend {
+  readonly name = "esplora";
+  private baseUrl: string;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+  }
+
+  async getTipHeight(): Promise<number> {
+    const height = parseInt(await this.request("/blocks/tip/height"), 10);
+    if (Number.isNaN(height)) throw new Error("Esplora returned an invalid tip height");
+    return height;
+  }
+
+  async getAddressTransactions(address: string): Promise<UtxoTx[]> {
+    const txs = JSON.parse(await this.request(`/address/${address}/txs`)) as EsploraTx[];
+    return txs.map((tx) => this.toUtxoTx(tx));
+  }
+
+  async getTransaction(txid: string): Promise<UtxoTx | null> {
+    const body = await this.request(`/tx/${txid}`, true);
+    return body === null ? null : this.toUtxoTx(JSON.parse(body));
+  }
+
+  async getAddressUnspent(address: string): Promise<UtxoUnspent[]> {
+    const utxos = JSON.parse(await this.request(`/address/${address}/utxo`)) as Array<{
+      txid: string;
+      vout: number;
+      value: number;
+      status: { confirmed: boolean };
+    }>;
+    return utxos.map((utxo) => ({
+      txid: utxo.txid,
+      vout: utxo.vout,
+      valueSats: BigInt(utxo.value),
+      confirmed: utxo.status.confirmed,
+    }));
+  }
+
+  async estimateFeeRate(targetBlocks: number): Promise<number> {
+    // Keyed by confirmation target in blocks, sat/vB
+    const estimates = JSON.parse(await this.request("/fee-estimates")) as Record<string, number>;
+    const target = Object.keys(estimates)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .find((blocks) => blocks >= targetBlocks);
+    return target !== undefined ? estimates[target] : 1;
+  }
+
+  async broadcastTransaction(rawTx: string): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/tx`, { method: "POST", body: rawTx });
+    const body = await response.text();
+    if (!response.ok) throw new Error(`Esplora broadcast failed: ${response.status} ${body}`);
+    return body.trim();
+  }
+
+  private toUtxoTx(tx: EsploraTx): UtxoTx {
+    return {
+      txid: tx.txid,
+      spentOutpoints: tx.vin.filter((vin) => !vin.is_coinbase).map((vin) => `${vin.txid}:${vin.vout}`),
+      outputs: tx.vout.map((vout) => ({
+        address: vout.scriptpubkey_address ?? null,
+        // Esplora reports integer satoshis
+        valueSats: BigInt(vout.value),
+      })),
+      confirmed: tx.status.confirmed,
+      blockHeight: tx.status.block_height ?? null,
+      blockHash: tx.status.block_hash ?? null,
+      blockTime: tx.status.block_time ?? null,
+    };
+  }
+
+  private async request(path: string): Promise<string>;
+  private async request(path: string, allowNotFound: true): Promise<string | null>;
+  private async request(path: string, allowNotFound = false): Promise<string | null> {
+    const response = await fetch(`${this.baseUrl}${path}`);
+    if (allowNotFound && (response.status === 404 || response.status === 400)) return null;
+    if (!response.ok) {
+      throw new Error(`Esplora ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.text();
+  }
+}
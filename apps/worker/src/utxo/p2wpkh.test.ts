@@ -0,0 +1,124 @@
+import { p2wpkhSighash, scriptForAddress, signP2wpkhInput, UnsignedTx } from "./p2wpkh";
+
+const bytes = (hex: string) => Buffer.from(hex, "hex");
+// Outpoint hashes as serialized, to txids as displayed
+const txid = (serialized: string) => bytes(serialized).reverse().toString("hex");
+
+describe("p2wpkh", () => {
+  describe("BIP143 signatures", () => {
+    it("signs the native P2WPKH example", async () => {
+      const tx: UnsignedTx = {
+        version: 1,
+        inputs: [
+          { txid: txid("fff7f7881a8099afa6940d42d1e7f6362bec38171ea3edf433541db4e4ad969f"), vout: 0, sequence: 0xffffffee },
+          { txid: txid("ef51e1b804cc89d182d279655c3aa89e815b1b309fe287d9b2b55d57b90ec68a"), vout: 1, sequence: 0xffffffff },
+        ],
+        outputs: [
+          { scriptPubKey: bytes("76a9148280b37df378db99f66f85c95a783a76ac7a6d5988ac"), valueSats: 112_340_000n },
+          { scriptPubKey: bytes("76a9143bde42dbee7e4dbe6a21b2d50ce2f0167faa815988ac"), valueSats: 223_450_000n },
+        ],
+        locktime: 17,
+      };
+      const input = {
+        privateKey: bytes("619c335025c7f4012e556c2a58b2506e30b8511b53ade95ea316fd8c3286feb9"),
+        publicKey: bytes("025476c2e83188368da1ff3e292e7acafcdb3566bb0ad253f62fc70f07aeee6357"),
+        valueSats: 600_000_000n,
+      };
+
+      expect(p2wpkhSighash(tx, 1, input.publicKey, input.valueSats).toString("hex")).toBe(
+        "c37af31116d1b27caf68aae9e3ac82f1477929014d5b917657d0eb49478cb670"
+      );
+      expect((await signP2wpkhInput(tx, 1, input)).toString("hex")).toBe(
+        "304402203609e17b84f6a7d30c80bfa610b5b4542f32a8a0d5447a12fb1366d7f01cc44a" +
+          "0220573a954c4518331561406f90300e8f3358f51928d43c212a8caed02de67eebee01"
+      );
+    });
+
+    it("signs the P2SH-P2WPKH example, whose digest is the same as native", async () => {
+      const tx: UnsignedTx = {
+        version: 1,
+        inputs: [
+          { txid: txid("db6b1b20aa0fd7b23880be2ecbd4a98130974cf4748fb66092ac4d3ceb1a5477"), vout: 1, sequence: 0xfffffffe },
+        ],
+        outputs: [
+          { scriptPubKey: bytes("76a914a457b684d7f0d539a46a45bbc043f35b59d0d96388ac"), valueSats: 199_996_600n },
+          { scriptPubKey: bytes("76a914fd270b1ee6abcaea97fea7ad0402e8bd8ad6d77c88ac"), valueSats: 800_000_000n },
+        ],
+        locktime: 1170,
+      };
+      const input = {
+        privateKey: bytes("eb696a065ef48a2192da5b28b694f87544b30fae8327c4510137a922f32c6dcf"),
+        publicKey: bytes("03ad1d8e89212f0b92c74d23bb710c00662ad1470198ac48c43f7d6f93a2a26873"),
+        valueSats: 1_000_000_000n,
+      };
+
+      expect(p2wpkhSighash(tx, 0, input.publicKey, input.valueSats).toString("hex")).toBe(
+        "64f3b0f4dd2bb3aa1ce8566d220cc74dda9df97d8490cc81d89d735c92e59fb6"
+      );
+      expect((await signP2wpkhInput(tx, 0, input)).toString("hex")).toBe(
+        "3044022047ac8e878352d3ebbde1c94ce3a10d057c24175747116f8288e5d794d12d482f" +
+          "0220217f36a485cae903c713331d877c1f64677e3622ad4010726870540656fe9dcb01"
+      );
+    });
+  });
+
+  describe("scriptForAddress", () => {
+    // BIP173 and BIP350 valid addresses
+    it.each([
+      ["BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "bc", "0014751e76e8199196d454941c45d1b3a323f1433bd6"],
+      [
+        "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7",
+        "tb",
+        "00201863143c14c5166804bd19203356da136c985678cd4d27a1b8c6329604903262",
+      ],
+      [
+        "bc1pw508d6qejxtdg4y5r3zarvary0c5xw7kw508d6qejxtdg4y5r3zarvary0c5xw7kt5nd6y",
+        "bc",
+        "5128751e76e8199196d454941c45d1b3a323f1433bd6751e76e8199196d454941c45d1b3a323f1433bd6",
+      ],
+      ["BC1SW50QGDZ25J", "bc", "6002751e"],
+      ["bc1zw508d6qejxtdg4y5r3zarvaryvaxxpcs", "bc", "5210751e76e8199196d454941c45d1b3a323"],
+      [
+        "tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c",
+        "tb",
+        "5120000000c4a5cad46221b2a187905e5266362b99d5e91c6ce24d165dab93e86433",
+      ],
+      [
+        "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0",
+        "bc",
+        "512079be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798",
+      ],
+    ])("reads %s", (address, hrp, script) => {
+      expect(scriptForAddress(address, hrp).toString("hex")).toBe(script);
+    });
+
+    // BIP173 and BIP350 invalid addresses
+    it.each([
+      ["tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut", "bc"], // Wrong prefix
+      ["bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd", "bc"], // v1 with a bech32 checksum
+      ["tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf", "tb"],
+      ["BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL", "bc"],
+      ["bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh", "bc"], // v0 with a bech32m checksum
+      ["tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47", "tb"],
+      ["bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4", "bc"], // Invalid character
+      ["BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R", "bc"], // Witness version 17
+      ["bc1pw5dgrnzv", "bc"], // 1-byte program
+      ["bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav", "bc"], // 41-byte program
+      ["BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P", "bc"], // 16-byte v0 program
+      ["tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq47Zagq", "tb"], // Mixed case
+      ["bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v07qwwzcrf", "bc"], // Over 4 bits of padding
+      ["tb1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vpggkg4j", "tb"], // Non-zero padding
+      ["bc1gmk9yu", "bc"], // Empty data
+    ])("rejects %s", (address, hrp) => {
+      expect(() => scriptForAddress(address, hrp)).toThrow();
+    });
+
+    it("rejects a mixed-case address even when its checksum holds", () => {
+      expect(() => scriptForAddress("bc1qW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "bc")).toThrow("Mixed-case");
+    });
+
+    it("rejects an address for another network", () => {
+      expect(() => scriptForAddress("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "ltc")).toThrow("is not a ltc");
+    });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Just enough segwit to sweep HD deposit addresses: P2WPKH inputs signed
+ * with SIGHASH_ALL over the BIP143 digest, paying native segwit outputs
+ * (P2WPKH, P2WSH or taproot addresses).
+ */
+
+import { createHash } from "crypto";
+import { sign } from "viem/accounts";
+
+const BECH32_CHARSET = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const BECH32M_CONST = 0x2bc830a3;
+const SIGHASH_ALL = 1;
+// Opts in to RBF so a stuck sweep can be fee-bumped
+const SEQUENCE = 0xfffffffd;
+
+export interface P2wpkhInput {
+  txid: string;
+  vout: number;
+  valueSats: bigint;
+  privateKey: Uint8Array;
+  publicKey: Uint8Array; // Compressed
+}
+
+export interface TxOutput {
+  scriptPubKey: Buffer;
+  valueSats: bigint;
+}
+
+/**
+ * Virtual size of a tx with P2WPKH inputs and segwit v0 outputs (rounded up)
+ */
+export function estimateP2wpkhVsize(inputs: number, outputs: number): number {
+  return 11 + 68 * inputs + 31 * outputs;
+}
+
+/**
+ * Output script for a bech32 (v0) or bech32m (v1+) address with the given
+ * human-readable prefix ("bc", "ltc", "bcrt", ...)
+ */
+export function scriptForAddress(address: string, hrp: string): Buffer {
+  const lower = address.toLowerCase();
+  if (address !== lower && address !== address.toUpperCase()) throw new Error(`Mixed-case address: ${address}`);
+  const separator = lower.lastIndexOf("1");
+  if (lower.slice(0, separator) !== hrp) throw new Error(`${address} is not a ${hrp} segwit address`);
+
+  const data = [...lower.slice(separator + 1)].map((char) => BECH32_CHARSET.indexOf(char));
+  if (data.length < 7 || data.includes(-1)) throw new Error(`Invalid bech32 address: ${address}`);
+
+  const version = data[0];
+  if (version > 16) throw new Error(`Invalid witness version in ${address}`);
+  const checksum = polymod([...expandHrp(hrp), ...data]);
+  if (checksum !== (version === 0 ? 1 : BECH32M_CONST)) throw new Error(`Bad checksum in ${address}`);
+
+  const program = convertBits(data.slice(1, -6), 5, 8);
+  if (program.length < 2 || program.length > 40 || (version === 0 && program.length !== 20 && program.length !== 32)) {
+    throw new Error(`Invalid witness program in ${address}`);
+  }
+  return Buffer.from([version === 0 ? 0 : 0x50 + version, program.length, ...program]);
+}
+
+export interface UnsignedTx {
+  version: number;
+  inputs: Array<{ txid: string; vout: number; sequence: number }>;
+  outputs: TxOutput[];
+  locktime: number;
+}
+
+/**
+ * BIP143 digest a P2WPKH input signs with SIGHASH_ALL
+ */
+export function p2wpkhSighash(tx: UnsignedTx, index: number, publicKey: Uint8Array, valueSats: bigint): Buffer {
+  const outpoints = tx.inputs.map(outpoint);
+  const hashPrevouts = hash256(Buffer.concat(outpoints));
+  const hashSequence = hash256(Buffer.concat(tx.inputs.map((input) => uint32(input.sequence))));
+  const hashOutputs = hash256(serializeOutputs(tx.outputs));
+
+  const pubkeyHash = hash160(Buffer.from(publicKey));
+  const scriptCode = Buffer.concat([Buffer.from([0x19, 0x76, 0xa9, 0x14]), pubkeyHash, Buffer.from([0x88, 0xac])]);
+  return hash256(
+    Buffer.concat([
+      uint32(tx.version),
+      hashPrevouts,
+      hashSequence,
+      outpoints[index],
+      scriptCode,
+      uint64(valueSats),
+      uint32(tx.inputs[index].sequence),
+      hashOutputs,
+      uint32(tx.locktime),
+      uint32(SIGHASH_ALL),
+    ])
+  );
+}
+
+/**
+ * DER signature (with its sighash byte) of a P2WPKH input, as pushed in its
+ * witness
+ */
+export async function signP2wpkhInput(
+  tx: UnsignedTx,
+  index: number,
+  input: Pick<P2wpkhInput, "privateKey" | "publicKey" | "valueSats">
+): Promise<Buffer> {
+  const digest = p2wpkhSighash(tx, index, input.publicKey, input.valueSats);
+  const { r, s } = await sign({
+    hash: `0x${digest.toString("hex")}`,
+    privateKey: `0x${Buffer.from(input.privateKey).toString("hex")}`,
+  });
+  return Buffer.concat([derSignature(r, s), Buffer.from([SIGHASH_ALL])]);
+}
+
+/**
+ * Sign every input and serialize the tx (version 2, no locktime)
+ */
+export async function signP2wpkhTransaction(
+  inputs: P2wpkhInput[],
+  outputs: TxOutput[]
+): Promise<{ txid: string; hex: string }> {
+  const tx: UnsignedTx = {
+    version: 2,
+    inputs: inputs.map(({ txid, vout }) => ({ txid, vout, sequence: SEQUENCE })),
+    outputs,
+    locktime: 0,
+  };
+
+  const witnesses: Buffer[] = [];
+  for (const [i, input] of inputs.entries()) {
+    const signature = await signP2wpkhInput(tx, i, input);
+    witnesses.push(Buffer.concat([varInt(2), varBytes(signature), varBytes(Buffer.from(input.publicKey))]));
+  }
+
+  const serializedInputs = Buffer.concat([
+    varInt(tx.inputs.length),
+    ...tx.inputs.map((input) => Buffer.concat([outpoint(input), varInt(0), uint32(input.sequence)])),
+  ]);
+  const body = Buffer.concat([serializedInputs, varInt(outputs.length), serializeOutputs(outputs)]);
+  const version = uint32(tx.version);
+  const locktime = uint32(tx.locktime);
+
+  const txid = hash256(Buffer.concat([version, body, locktime])).reverse().toString("hex");
+  const hex = Buffer.concat([version, Buffer.from([0x00, 0x01]), body, ...witnesses, locktime]).toString("hex");
+  return { txid, hex };
+}
+
+function outpoint(input: { txid: string; vout: number }): Buffer {
+  return Buffer.concat([Buffer.from(input.txid, "hex").reverse(), uint32(input.vout)]);
+}
+
+function serializeOutputs(outputs: TxOutput[]): Buffer {
+  return Buffer.concat(outputs.map((output) => Buffer.concat([uint64(output.valueSats), varBytes(output.scriptPubKey)])));
+}
+
+function derSignature(r: string, s: string): Buffer {
+  const integer = (hex: string) => {
+    let bytes = Buffer.from(hex.slice(2).padStart(64, "0"), "hex");
+    while (bytes.length > 1 && bytes[0] === 0 && !(bytes[1] & 0x80)) bytes = bytes.subarray(1);
+    if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    return Buffer.concat([Buffer.from([0x02, bytes.length]), bytes]);
+  };
+  const sequence = Buffer.concat([integer(r), integer(s)]);
+  return Buffer.concat([Buffer.from([0x30, sequence.length]), sequence]);
+}
+
+function hash256(data: Buffer): Buffer {
+  return createHash("sha256").update(createHash("sha256").update(data).digest()).digest();
+}
+
+function hash160(data: Buffer): Buffer {
+  return createHash("ripemd160").update(createHash("sha256").update(data).digest()).digest();
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function uint64(value: bigint): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+function varInt(value: number): Buffer {
+  if (value < 0xfd) return Buffer.from([value]);
+  const buffer = Buffer.alloc(3);
+  buffer[0] = 0xfd;
+  buffer.writeUInt16LE(value, 1);
+  return buffer;
+}
+
+function varBytes(data: Buffer): Buffer {
+  return Buffer.concat([varInt(data.length), data]);
+}
+
+function expandHrp(hrp: string): number[] {
+  const chars = [...hrp].map((char) => char.charCodeAt(0));
+  return [...chars.map((c) => c >> 5), 0, ...chars.map((c) => c & 31)];
+}
+
+function polymod(values: number[]): number {
+  const generators = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >>> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generators.forEach((generator, i) => {
+      if ((top >>> i) & 1) checksum ^= generator;
+    });
+  }
+  return checksum >>> 0;
+}
+
+function convertBits(data: number[], from: number, to: number): number[] {
+  let accumulator = 0;
+  let bits = 0;
+  const result: number[] = [];
+  for (const value of data) {
+    accumulator = (accumulator << from) | value;
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      result.push((accumulator >>> bits) & ((1 << to) - 1));
+    }
+  }
+  if (bits >= from || ((accumulator << (to - bits)) & ((1 << to) - 1))) {
+    throw new Error("Invalid padding in bech32 data");
+  }
+  return result;
+}
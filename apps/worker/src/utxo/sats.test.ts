@@ -0,0 +1,35 @@
+import { parseSats } from "./sats";
+
+describe("parseSats", () => {
+  it("parses decimal strings exactly", () => {
+    expect(parseSats("0.00012345")).toBe(12345n);
+    expect(parseSats("21000000")).toBe(2_100_000_000_000_000n);
+    expect(parseSats("1.5")).toBe(150_000_000n);
+    expect(parseSats(".1")).toBe(10_000_000n);
+    expect(parseSats("3.")).toBe(300_000_000n);
+    expect(parseSats(" 0.001 ")).toBe(100_000n);
+  });
+
+  it("parses JSON numbers as the node serialized them", () => {
+    // 0.29 * 1e8 is 28999999.999999996 in floating point
+    expect(parseSats(0.29)).toBe(29_000_000n);
+    expect(parseSats(0.00000001)).toBe(1n);
+    expect(parseSats(20999999.97690001)).toBe(2_099_999_997_690_001n);
+    expect(parseSats(0)).toBe(0n);
+  });
+
+  it("keeps the sign of negative amounts", () => {
+    expect(parseSats("-0.0001")).toBe(-10_000n);
+    expect(parseSats(-0.00002820)).toBe(-2_820n);
+  });
+
+  it("accepts trailing zeros past eight decimals", () => {
+    expect(parseSats("0.1234567800")).toBe(12_345_678n);
+  });
+
+  it("rejects sub-satoshi precision and malformed amounts", () => {
+    for (const amount of ["0.123456789", "", ".", "1e-8", "abc", "1,5", "--1"]) {
+      expect(() => parseSats(amount)).toThrow("Invalid coin amount");
+    }
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Parse a decimal coin amount ("0.00012345", or a JSON number as nodes
+ * return it) into integer satoshis without going through float arithmetic
+ */
+export function parseSats(amount: string | number): bigint {
+  // toFixed(8) yields the exact 8-decimal string a node serialized
+  const text = typeof amount === "number" ? amount.toFixed(8) : amount.trim();
+  const match = /^(-?)(\d*)(?:\.(\d{0,8})0*)?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid coin amount: ${amount}`);
+  }
+  const sats = BigInt(match[2] || "0") * 100_000_000n + BigInt((match[3] || "").padEnd(8, "0"));
+  return match[1] ? -sats : sats;
+}
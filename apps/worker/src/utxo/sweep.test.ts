@@ -0,0 +1,136 @@
+import { randomBytes } from "crypto";
+import { HDKey } from "viem/accounts";
+import { getNetwork } from "@opencause/crypto-core";
+import {
+  getTestAdminFirestore,
+  clearFirestoreCollections,
+  seedTestHdWallet,
+  startBitcoind,
+  BitcoindNode,
+} from "@opencause/testkit";
+import { getUnsweptTransfers } from "../services/sweep-ledger";
+import { BitcoindRpcBackend } from "./bitcoind-rpc";
+import { parseSats } from "./sats";
+import { sweepUtxoDeposits, trackUtxoSweeps } from "./sweep";
+
+describe("UTXO deposit sweeps on regtest", () => {
+  let bitcoind: BitcoindNode;
+  let backend: BitcoindRpcBackend;
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let vaultAddress: string;
+  const env = { ...process.env };
+
+  // Regtest stands in for mainnet; only the address prefix differs
+  const network = { ...getNetwork("bitcoin_mainnet")!, bech32Prefix: "bcrt" };
+  const seed = randomBytes(64);
+
+  const depositAddress = async (index: number) => {
+    const derivationPath = `m/44'/0'/0'/0/${index}`;
+    const publicKey = Buffer.from(HDKey.fromMasterSeed(seed).derive(derivationPath).publicKey!).toString("hex");
+    const { descriptor } = await bitcoind.rpc<{ descriptor: string }>("getdescriptorinfo", [`wpkh(${publicKey})`]);
+    const [address] = await bitcoind.rpc<string[]>("deriveaddresses", [descriptor]);
+    await backend.watchAddresses([address]);
+    return { derivationPath, address };
+  };
+
+  const seedTransfer = (id: string, txHash: string, to: string, amountRaw: string) =>
+    db.collection("chain_txs_private").doc(id).set({
+      networkId: network.networkId,
+      txHash,
+      to,
+      amountRaw,
+      assetType: "UTXO",
+      tokenAddress: null,
+      status: "CONFIRMED",
+      intentId: `intent_${id}`,
+      campaignId: "camp1",
+    });
+
+  const sweep = async () => {
+    await trackUtxoSweeps(db, network, backend);
+    await sweepUtxoDeposits(db, network, backend, await getUnsweptTransfers(db, network.networkId));
+  };
+
+  const sweeps = async () => (await db.collection("deposit_sweeps").get()).docs.map((doc) => doc.data());
+
+  beforeAll(async () => {
+    bitcoind = await startBitcoind({ rpcPort: 18563 });
+    backend = new BitcoindRpcBackend(bitcoind.walletUrl("watch"));
+    await seedTestHdWallet(seed);
+    vaultAddress = await bitcoind.rpc<string>("getnewaddress", [], "miner");
+  }, 60_000);
+
+  afterAll(async () => {
+    process.env = { ...env };
+    await bitcoind?.stop();
+  });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["campaign_deposits", "chain_txs_private", "deposit_sweeps", "events"]);
+  });
+
+  it("consolidates a campaign's outputs across its deposit addresses into the vault", async () => {
+    const campaign = await depositAddress(21);
+    const intent = await depositAddress(22);
+    await db.collection("campaign_deposits").doc("camp1_btc").set({
+      campaignId: "camp1",
+      assetId: "btc_bitcoin_mainnet",
+      networkId: network.networkId,
+      ...campaign,
+      vaultAddress,
+    });
+    await db.collection("campaign_deposits").doc("camp1_btc_1").set({
+      campaignId: "camp1",
+      assetId: "btc_bitcoin_mainnet",
+      networkId: network.networkId,
+      ...intent,
+      addressIndex: 1,
+      parentRef: "camp1_btc",
+    });
+
+    const first = await bitcoind.send(campaign.address, "0.001");
+    const second = await bitcoind.send(intent.address, "0.0025");
+    await bitcoind.mine(1);
+    await seedTransfer("t1", first, campaign.address, "100000");
+    await seedTransfer("t2", second, intent.address, "250000");
+
+    await sweep();
+
+    const [submitted] = await sweeps();
+    expect(submitted).toMatchObject({
+      status: "SUBMITTED",
+      amountRaw: "350000",
+      fromAddresses: expect.arrayContaining([campaign.address, intent.address]),
+      vaultAddress,
+    });
+    const tx = await bitcoind.rpc("getrawtransaction", [submitted.txHash, true]);
+    expect(tx.vin).toHaveLength(2);
+    expect(tx.vout).toEqual([
+      expect.objectContaining({ scriptPubKey: expect.objectContaining({ address: vaultAddress }) }),
+    ]);
+    expect(parseSats(tx.vout[0].value)).toBe(350000n - BigInt(submitted.feeRaw));
+
+    await bitcoind.mine(1);
+    await sweep();
+
+    expect(await sweeps()).toEqual([expect.objectContaining({ status: "CONFIRMED", txHash: submitted.txHash })]);
+  });
+
+  it("waits for the credited outputs to confirm", async () => {
+    const campaign = await depositAddress(23);
+    await db.collection("campaign_deposits").doc("camp1_btc").set({
+      campaignId: "camp1",
+      assetId: "btc_bitcoin_mainnet",
+      networkId: network.networkId,
+      ...campaign,
+      vaultAddress,
+    });
+    const txid = await bitcoind.send(campaign.address, "0.001");
+    await seedTransfer("t1", txid, campaign.address, "100000");
+
+    await sweep();
+
+    expect(await sweeps()).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * UTXO deposit sweeps: a campaign's confirmed, credited outputs across all
+ * its deposit addresses (the campaign address and those derived per intent)
+ * are consolidated in one P2WPKH transaction to the campaign's vault
+ * address: `vaultAddress` on the campaign's deposit doc, or
+ * `<NETWORK_ID>_SWEEP_ADDRESS` for the whole network.
+ */
+
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { CampaignDepositDoc, ChainTxPrivateDoc } from "@opencause/firebase";
+import { CryptoNetwork, getAsset } from "@opencause/crypto-core";
+import { UtxoBackend } from "./backend";
+import { estimateP2wpkhVsize, P2wpkhInput, scriptForAddress, signP2wpkhTransaction } from "./p2wpkh";
+import { deriveDepositKey } from "../services/deposit-keys";
+import { formatUnits } from "../services/intent-ledger";
+import { claimSweep, completeSweep, failSweep, updateSweep } from "../services/sweep-ledger";
+
+// Inputs per consolidation tx, keeping it well under standardness limits
+const MAX_SWEEP_INPUTS = 200;
+// Outputs below this are non-standard (dust)
+const DUST_SATS = 546n;
+// Confirmation target for the fee estimate; sweeps are not urgent
+const FEE_TARGET_BLOCKS = 12;
+
+/**
+ * Consolidate each campaign's unswept confirmed outputs on the network
+ */
+export async function sweepUtxoDeposits(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  backend: UtxoBackend,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  const depositsSnap = await db.collection("campaign_deposits").where("networkId", "==", network.networkId).get();
+  const networkVault = process.env[`${network.networkId.toUpperCase().replace(/-/g, "_")}_SWEEP_ADDRESS`];
+
+  // Deposit docs per campaign + asset
+  const groups = new Map<string, CampaignDepositDoc[]>();
+  for (const doc of depositsSnap.docs) {
+    const deposit = doc.data() as CampaignDepositDoc;
+    if (!deposit.address || !deposit.derivationPath) continue;
+    const key = `${deposit.campaignId}_${deposit.assetId}`;
+    groups.set(key, [...(groups.get(key) || []), deposit]);
+  }
+
+  for (const [key, deposits] of groups) {
+    const vaultAddress = deposits.find((d) => !d.parentRef && d.vaultAddress)?.vaultAddress || networkVault;
+    if (!vaultAddress) continue;
+
+    const addresses = new Set(deposits.map((d) => d.address));
+    const swept = transfers.filter((tx) => addresses.has(tx.to) && tx.campaignId === deposits[0].campaignId);
+    if (swept.length === 0) continue;
+
+    try {
+      await sweepCampaign(db, network, backend, deposits, vaultAddress, swept);
+    } catch (error: any) {
+      console.error(`[DepositSweeper] Error sweeping ${key} on ${network.networkId}:`, error.message);
+    }
+  }
+}
+
+async function sweepCampaign(
+  db: admin.firestore.Firestore,
+  network: CryptoNetwork,
+  backend: UtxoBackend,
+  deposits: CampaignDepositDoc[],
+  vaultAddress: string,
+  transfers: Array<ChainTxPrivateDoc & { id: string }>
+) {
+  const hrp = network.bech32Prefix || "bc";
+  const vaultScript = scriptForAddress(vaultAddress, hrp);
+
+  // Unspent outputs of the credited txs, as signable inputs
+  const inputs: P2wpkhInput[] = [];
+  const claimed: Array<ChainTxPrivateDoc & { id: string }> = [];
+  for (const deposit of deposits) {
+    const credited = transfers.filter((tx) => tx.to === deposit.address);
+    if (credited.length === 0 || inputs.length >= MAX_SWEEP_INPUTS) continue;
+
+    const { privateKey, publicKey } = await deriveDepositKey(db, deposit.derivationPath!);
+    const pubkeyHash = createHash("ripemd160").update(createHash("sha256").update(publicKey).digest()).digest();
+    if (!scriptForAddress(deposit.address, hrp).subarray(2).equals(pubkeyHash)) {
+      throw new Error(`Derived key does not match deposit address ${deposit.address}`);
+    }
+
+    const unspent = (await backend.getAddressUnspent(deposit.address)).filter((utxo) => utxo.confirmed);
+    for (const tx of credited) {
+      const outputs = unspent.filter((utxo) => utxo.txid === tx.txHash);
+      if (outputs.length === 0 || inputs.length + outputs.length > MAX_SWEEP_INPUTS) continue;
+      inputs.push(...outputs.map((utxo) => ({ ...utxo, privateKey, publicKey })));
+      claimed.push(tx);
+    }
+  }
+  if (inputs.length === 0) return;
+
+  const total = inputs.reduce((sum, input) => sum + input.valueSats, 0n);
+  const feeRate = await backend.estimateFeeRate(FEE_TARGET_BLOCKS);
+  const fee = BigInt(Math.ceil(estimateP2wpkhVsize(inputs.length, 1) * feeRate));
+  if (total - fee < DUST_SATS) return; // Not worth the fee yet
+
+  const { campaignId, assetId } = deposits[0];
+  const decimals = getAsset(assetId)?.decimals ?? 8;
+  const sweepId = await claimSweep(db, {
+    campaignId,
+    networkId: network.networkId,
+    assetId,
+    fromAddresses: [...new Set(claimed.map((tx) => tx.to))],
+    vaultAddress,
+    chainTxIds: claimed.map((tx) => tx.id),
+    amountRaw: total,
+    amountNative: formatUnits(total, decimals),
+    feeRaw: fee,
+  });
+  if (!sweepId) return;
+
+  let txid: string;
+  try {
+    const signed = await signP2wpkhTransaction(inputs, [{ scriptPubKey: vaultScript, valueSats: total - fee }]);
+    txid = await backend.broadcastTransaction(signed.hex);
+  } catch (error: any) {
+    await failSweep(db, sweepId, error.message);
+    return;
+  }
+
+  await updateSweep(db, sweepId, {
+    status: "SUBMITTED",
+    txHash: txid,
+    explorerUrl: `${network.explorerBaseUrl}/tx/${txid}`,
+  });
+  console.log(
+    `[DepositSweeper] Consolidating ${inputs.length} outputs (${total} sats, fee ${fee}) for ${campaignId} into ${vaultAddress}: ${txid}`
+  );
+}
+
+/**
+ * Settle sweeps broadcast by earlier runs: CONFIRMED once mined, FAILED if
+ * the tx left the mempool without being mined
+ */
+export async function trackUtxoSweeps(db: admin.firestore.Firestore, network: CryptoNetwork, backend: UtxoBackend) {
+  const submitted = await db
+    .collection("deposit_sweeps")
+    .where("networkId", "==", network.networkId)
+    .where("status", "==", "SUBMITTED")
+    .get();
+
+  for (const doc of submitted.docs) {
+    const txid = doc.get("txHash") as string;
+    const tx = await backend.getTransaction(txid);
+    if (!tx) {
+      await failSweep(db, doc.id, `Sweep tx ${txid} was dropped`);
+    } else if (tx.confirmed) {
+      await completeSweep(db, doc.id);
+    }
+  }
+}
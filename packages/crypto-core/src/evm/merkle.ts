@@ -0,0 +1,77 @@
+/**
+ * Merkle Trees
+ *
+ * Binary keccak256 trees with sorted pairs, the layout OpenZeppelin's
+ * MerkleProof.verify() expects, so a proof can be checked on-chain as well
+ * as off-chain. Leaves are hashed once more before they enter the tree
+ * (a 32-byte leaf can then never pass for a 64-byte inner node), and an
+ * unpaired node is carried up to the next layer unchanged.
+ */
+
+import { concat, keccak256 } from "viem";
+import type { Hex } from "viem";
+
+export interface MerkleTree {
+  root: Hex;
+  // layers[0] are the hashed leaves, the last layer is [root]
+  layers: Hex[][];
+}
+
+/**
+ * Leaf of a 32-byte value (an evidence hash, a ledger entry hash)
+ */
+export function merkleLeaf(value: Hex): Hex {
+  return keccak256(value);
+}
+
+export function hashMerklePair(a: Hex, b: Hex): Hex {
+  return BigInt(a) <= BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Build the tree over already hashed leaves, keeping their order
+ */
+export function buildMerkleTree(leaves: Hex[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const layers: Hex[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashMerklePair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/**
+ * Sibling hashes from the leaf at `index` up to the root
+ */
+export function getMerkleProof(tree: MerkleTree, index: number): Hex[] {
+  if (index < 0 || index >= tree.layers[0].length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: Hex[] = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function processMerkleProof(leaf: Hex, proof: Hex[]): Hex {
+  return proof.reduce((node, sibling) => hashMerklePair(node, sibling), leaf);
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+  return processMerkleProof(leaf, proof).toLowerCase() === root.toLowerCase();
+}
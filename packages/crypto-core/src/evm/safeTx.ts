@@ -0,0 +1,103 @@
+/**
+ * Safe Transactions
+ *
+ * EIP-712 shape of a Safe (>= 1.3.0) multisig transaction. The worker signs
+ * it with the treasury signer when proposing; reviewers sign the same typed
+ * data with their wallets and the API checks who signed it.
+ */
+
+import { concat, toHex } from "viem";
+import type { Address, Hex, TypedDataDefinition } from "viem";
+import type { Signature } from "../kms/kmsSigner";
+import { getNetwork } from "../registry";
+
+export interface SafeTransaction {
+  to: string;
+  value: string; // in wei
+  data: string;
+  operation: 0 | 1; // 0 = call, 1 = delegateCall
+  safeTxGas: number;
+  baseGas: number;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: number;
+}
+
+// Safe's hosted transaction service, one per chain
+const SAFE_SERVICE_URLS: Record<number, string> = {
+  1: "https://safe-transaction-mainnet.safe.global",
+  10: "https://safe-transaction-optimism.safe.global",
+  56: "https://safe-transaction-bsc.safe.global",
+  137: "https://safe-transaction-polygon.safe.global",
+  8453: "https://safe-transaction-base.safe.global",
+  42161: "https://safe-transaction-arbitrum.safe.global",
+  43114: "https://safe-transaction-avalanche.safe.global",
+};
+
+export const SAFE_TX_TYPES = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+/**
+ * Typed data of a Safe transaction; its hash is the safeTxHash owners sign
+ */
+export function getSafeTxTypedData(
+  safeAddress: string,
+  chainId: number,
+  transaction: SafeTransaction
+): TypedDataDefinition<typeof SAFE_TX_TYPES, "SafeTx"> {
+  return {
+    domain: { chainId, verifyingContract: safeAddress as Address },
+    types: SAFE_TX_TYPES,
+    primaryType: "SafeTx",
+    message: {
+      to: transaction.to as Address,
+      value: BigInt(transaction.value),
+      data: transaction.data as Hex,
+      operation: transaction.operation,
+      safeTxGas: BigInt(transaction.safeTxGas),
+      baseGas: BigInt(transaction.baseGas),
+      gasPrice: BigInt(transaction.gasPrice),
+      gasToken: transaction.gasToken as Address,
+      refundReceiver: transaction.refundReceiver as Address,
+      nonce: BigInt(transaction.nonce),
+    },
+  };
+}
+
+/**
+ * Safe owner signature bytes (r || s || v) for an EIP-712 signature
+ */
+export function encodeSafeSignature({ r, s, v }: Signature): Hex {
+  return concat([r, s, toHex(v, { size: 1 })]);
+}
+
+/**
+ * Safe transaction service of an EVM network: <NETWORK_ID>_SAFE_SERVICE_URL,
+ * else Safe's hosted service for the network's chain
+ */
+export function getSafeServiceUrl(
+  networkId: string,
+  env: Record<string, string | undefined> = process.env
+): string {
+  const url = env[`${networkId.toUpperCase().replace(/-/g, "_")}_SAFE_SERVICE_URL`];
+  if (url) return url;
+
+  const chainId = getNetwork(networkId)?.chainId;
+  if (!chainId || !SAFE_SERVICE_URLS[chainId]) {
+    throw new Error(`No Safe transaction service for ${networkId}; set ${networkId.toUpperCase()}_SAFE_SERVICE_URL`);
+  }
+  return SAFE_SERVICE_URLS[chainId];
+}
@@ -10,11 +10,18 @@ export * from "./amount";
 // Export QR code utilities
 export * from "./qr";
 
+// Export payment tolerance / intent resolution
+export * from "./tolerance";
+
 // Export EVM utilities
 export * from "./evm/normalizeTxHash";
+export * from "./evm/safeTx";
+export * from "./evm/merkle";
 
 // Export general utilities
 export * from "./utils/maskTxHash";
 
-// Export KMS signer
+// Export treasury signers (local key, AWS KMS, KMS emulator)
 export * from "./kms/kmsSigner";
+export * from "./kms/kmsEmulator";
+export * from "./kms/signer";
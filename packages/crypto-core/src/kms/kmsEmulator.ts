@@ -0,0 +1,80 @@
+/**
+ * In-process stand-in for the two AWS KMS calls the signer makes
+ * (GetPublicKey, Sign) on ECC_SECG_P256K1 keys. Responses are shaped like
+ * KMS's: DER SubjectPublicKeyInfo public keys and DER signatures whose s is
+ * not normalized. Keys are derived from the seed and key id, so a given
+ * (seed, key id) always has the same address.
+ */
+
+import {
+  GetPublicKeyCommand,
+  GetPublicKeyCommandOutput,
+  SignCommand,
+  SignCommandOutput,
+} from "@aws-sdk/client-kms";
+import { createHash } from "crypto";
+import { bytesToHex, hexToBytes, keccak256, toHex } from "viem";
+import type { Hex } from "viem";
+import { privateKeyToAccount, sign } from "viem/accounts";
+
+// DER header of a secp256k1 SubjectPublicKeyInfo, up to the 65-byte point
+const SECP256K1_SPKI_PREFIX = "3056301006072a8648ce3d020106052b8104000a034200";
+const SECP256K1_N = BigInt("0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141");
+
+export class LocalKmsEmulator {
+  constructor(private seed: string = "opencause-kms-emulator") {}
+
+  async send(command: GetPublicKeyCommand): Promise<GetPublicKeyCommandOutput>;
+  async send(command: SignCommand): Promise<SignCommandOutput>;
+  async send(command: GetPublicKeyCommand | SignCommand): Promise<GetPublicKeyCommandOutput | SignCommandOutput> {
+    const keyId = command.input.KeyId;
+    if (!keyId) throw new Error("KeyId is required");
+    const privateKey = this.privateKeyFor(keyId);
+
+    if (command instanceof GetPublicKeyCommand) {
+      const point = privateKeyToAccount(privateKey).publicKey.slice(2);
+      return {
+        KeyId: keyId,
+        PublicKey: hexToBytes(`0x${SECP256K1_SPKI_PREFIX}${point}`),
+        KeySpec: "ECC_SECG_P256K1",
+        KeyUsage: "SIGN_VERIFY",
+        SigningAlgorithms: ["ECDSA_SHA_256"],
+        $metadata: {},
+      };
+    }
+
+    const { Message, MessageType, SigningAlgorithm } = command.input;
+    if (!Message) throw new Error("Message is required");
+    if (SigningAlgorithm !== "ECDSA_SHA_256") throw new Error(`Unsupported SigningAlgorithm: ${SigningAlgorithm}`);
+
+    const digest =
+      MessageType === "DIGEST" ? Message : new Uint8Array(createHash("sha256").update(Message).digest());
+    if (digest.length !== 32) throw new Error("DIGEST messages must be 32 bytes");
+
+    const { r, s, yParity } = await sign({ hash: bytesToHex(digest), privateKey });
+    // KMS returns either s; hand back the high one half the time
+    const sBig = yParity === 1 ? SECP256K1_N - BigInt(s) : BigInt(s);
+
+    return {
+      KeyId: keyId,
+      Signature: derSignature(BigInt(r), sBig),
+      SigningAlgorithm,
+      $metadata: {},
+    };
+  }
+
+  private privateKeyFor(keyId: string): Hex {
+    return keccak256(toHex(`${this.seed}:${keyId}`));
+  }
+}
+
+function derSignature(r: bigint, s: bigint): Uint8Array {
+  const integer = (value: bigint) => {
+    let bytes = hexToBytes(`0x${value.toString(16).padStart(64, "0")}`);
+    while (bytes.length > 1 && bytes[0] === 0 && !(bytes[1] & 0x80)) bytes = bytes.slice(1);
+    if (bytes[0] & 0x80) bytes = new Uint8Array([0, ...bytes]);
+    return [0x02, bytes.length, ...bytes];
+  };
+  const sequence = [...integer(r), ...integer(s)];
+  return new Uint8Array([0x30, sequence.length, ...sequence]);
+}
@@ -1,12 +1,19 @@
 /**
  * AWS KMS Signer for EVM (Ethereum/Safe)
- * 
+ *
  * Uses AWS KMS with ECC_SECG_P256K1 keys for signing Ethereum transactions
  * Compatible with Safe protocol typed data signing
  */
 
-import { KMSClient, GetPublicKeyCommand, SignCommand } from "@aws-sdk/client-kms";
-import { hexToBytes } from "viem";
+import {
+  GetPublicKeyCommand,
+  GetPublicKeyCommandOutput,
+  SignCommand,
+  SignCommandOutput,
+} from "@aws-sdk/client-kms";
+import { getAddress, hashTypedData, hexToBytes, keccak256, recoverAddress } from "viem";
+import type { Address, TypedDataDefinition } from "viem";
+import type { SignerAddressCache, TreasurySigner } from "./signer";
 
 export interface Signature {
   r: `0x${string}`;
@@ -14,26 +21,47 @@ export interface Signature {
   v: 27 | 28;
 }
 
-export class Kmsecp256k1Signer {
+// The KMSClient calls the signer makes (LocalKmsEmulator implements the same)
+export interface KmsClientLike {
+  send(command: GetPublicKeyCommand): Promise<GetPublicKeyCommandOutput>;
+  send(command: SignCommand): Promise<SignCommandOutput>;
+}
+
+export class Kmsecp256k1Signer implements TreasurySigner {
+  private address: Address | null = null;
+
   constructor(
-    private kms: KMSClient,
-    private keyId: string
+    private kms: KmsClientLike,
+    private keyId: string,
+    private cache?: SignerAddressCache
   ) {}
 
+  get keyRef(): string {
+    return this.keyId;
+  }
+
   /**
    * Get Ethereum address from KMS public key
-   * Note: Cache this in key_configs after first computation
+   * Computed once per key and cached in key_configs (through `cache`)
    */
   async getEthereumAddress(): Promise<`0x${string}`> {
+    if (this.address) return this.address;
+
+    const cached = await this.cache?.get(this.keyId);
+    if (cached) {
+      this.address = cached;
+      return cached;
+    }
+
     const pub = await this.kms.send(new GetPublicKeyCommand({ KeyId: this.keyId }));
     if (!pub.PublicKey) throw new Error("KMS missing public key");
 
-    // PublicKey is DER-encoded SubjectPublicKeyInfo
-    // Extract uncompressed secp256k1 point and derive address
-    // For production: implement proper DER parsing or use a library
-    // For now: this should be computed once during setup and cached
-    
-    throw new Error("Implement DER parsing once + cache address in key_configs");
+    // PublicKey is DER-encoded SubjectPublicKeyInfo; the address is the last
+    // 20 bytes of keccak256(x || y) of the uncompressed point
+    const point = spkiToUncompressedPoint(pub.PublicKey);
+    this.address = getAddress(`0x${keccak256(point.slice(1)).slice(-40)}`);
+    await this.cache?.set(this.keyId, this.address);
+    return this.address;
   }
 
   /**
@@ -67,23 +95,56 @@ export class Kmsecp256k1Signer {
     if (sBig > secpN / 2n) sBig = secpN - sBig;
     const sHex = `0x${sBig.toString(16).padStart(64, "0")}` as `0x${string}`;
 
-    // v will be determined by recovery in higher layer
-    // For now, return v=27 (will be adjusted by recovery)
-    return { r: rHex, s: sHex, v: 27 };
+    // KMS doesn't return the recovery id: pick the v that recovers our address
+    const address = await this.getEthereumAddress();
+    for (const v of [27, 28] as const) {
+      const recovered = await recoverAddress({ hash: digestHex, signature: { r: rHex, s: sHex, v: BigInt(v) } });
+      if (recovered.toLowerCase() === address.toLowerCase()) return { r: rHex, s: sHex, v };
+    }
+    throw new Error(`KMS signature does not recover to ${address}`);
   }
 
   /**
    * Sign typed data (EIP-712) for Safe transactions
    */
-  async signTypedData(typedData: any): Promise<Signature> {
-    // Hash typed data to get digest (use your EIP-712 hasher)
-    // const digest = hashTypedData(typedData);
-    // return this.signDigest32(digest);
-    
-    throw new Error("Implement EIP-712 hashing + call signDigest32");
+  async signTypedData(typedData: TypedDataDefinition): Promise<Signature> {
+    return this.signDigest32(hashTypedData(typedData));
   }
 }
 
+/**
+ * Extract the 65-byte uncompressed point from a DER SubjectPublicKeyInfo
+ * (SEQUENCE { SEQUENCE { algorithm, curve }, BIT STRING point })
+ */
+function spkiToUncompressedPoint(spki: Uint8Array): Uint8Array {
+  const b = spki;
+  if (b[0] !== 0x30) throw new Error("bad SPKI: missing 0x30");
+
+  let i = 1 + derLengthSize(b, 1); // Skip the outer SEQUENCE header
+  if (b[i] !== 0x30) throw new Error("bad SPKI: missing algorithm identifier");
+  i += 1 + derLengthSize(b, i + 1) + derLength(b, i + 1); // Skip AlgorithmIdentifier
+
+  if (b[i] !== 0x03) throw new Error("bad SPKI: missing BIT STRING");
+  const length = derLength(b, i + 1);
+  i += 1 + derLengthSize(b, i + 1);
+
+  // First BIT STRING byte is the unused-bits count (0)
+  const point = b.slice(i + 1, i + length);
+  if (point.length !== 65 || point[0] !== 0x04) throw new Error("bad SPKI: expected uncompressed secp256k1 point");
+  return point;
+}
+
+function derLength(b: Uint8Array, at: number): number {
+  if (b[at] < 0x80) return b[at];
+  let length = 0;
+  for (let j = 1; j <= (b[at] & 0x7f); j++) length = (length << 8) | b[at + j];
+  return length;
+}
+
+function derLengthSize(b: Uint8Array, at: number): number {
+  return b[at] < 0x80 ? 1 : 1 + (b[at] & 0x7f);
+}
+
 /**
  * Convert DER-encoded ECDSA signature to (r, s) tuple
  */
@@ -92,20 +153,20 @@ function derToRS(derSig: Uint8Array): { r: Uint8Array; s: Uint8Array } {
   // Format: 0x30 len 0x02 rlen r 0x02 slen s
   const b = derSig;
   if (b[0] !== 0x30) throw new Error("bad DER: missing 0x30");
-  
+
   let i = 2; // Skip 0x30 and length byte
-  
+
   if (b[i] !== 0x02) throw new Error("bad DER: missing 0x02 for r");
   const rlen = b[i + 1];
   i += 2;
   const r = b.slice(i, i + rlen);
   i += rlen;
-  
+
   if (b[i] !== 0x02) throw new Error("bad DER: missing 0x02 for s");
   const slen = b[i + 1];
   i += 2;
   const s = b.slice(i, i + slen);
-  
+
   return { r: leftPad32(r), s: leftPad32(s) };
 }
 
@@ -115,9 +176,3 @@ function leftPad32(x: Uint8Array): Uint8Array {
   out.set(x.slice(Math.max(0, x.length - 32)), offset);
   return out;
 }
-
-
-
-
-
-
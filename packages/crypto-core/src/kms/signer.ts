@@ -0,0 +1,128 @@
+/**
+ * Treasury Signer
+ *
+ * One signing key for everything the platform signs on-chain: vault
+ * withdrawals, Safe proposals and evidence anchoring. Backed by one of:
+ * - "local":        a raw private key (PRIVATE_KEY), for development only
+ * - "aws-kms":      an AWS KMS ECC_SECG_P256K1 key (TREASURY_KMS_KEY_ID)
+ * - "kms-emulator": the in-process KMS emulator, for tests and local runs
+ *                   that should exercise the KMS code path
+ * selected with TREASURY_SIGNER.
+ */
+
+import { KMSClient } from "@aws-sdk/client-kms";
+import {
+  hashMessage,
+  hashTypedData,
+  keccak256,
+  serializeSignature,
+  serializeTransaction,
+} from "viem";
+import type { Account, Address, Hex, TypedDataDefinition } from "viem";
+import { privateKeyToAccount, sign, toAccount } from "viem/accounts";
+import { Kmsecp256k1Signer, Signature } from "./kmsSigner";
+import { LocalKmsEmulator } from "./kmsEmulator";
+
+export type TreasurySignerBackend = "local" | "aws-kms" | "kms-emulator";
+
+export interface TreasurySigner {
+  // Key the signer is bound to (KMS key id/ARN, or local:<address>)
+  readonly keyRef: string;
+  getEthereumAddress(): Promise<Address>;
+  signDigest32(digestHex: Hex): Promise<Signature>;
+  signTypedData(typedData: TypedDataDefinition): Promise<Signature>;
+}
+
+/**
+ * Where KMS-derived addresses are kept between runs (key_configs)
+ */
+export interface SignerAddressCache {
+  get(keyRef: string): Promise<Address | null>;
+  set(keyRef: string, address: Address): Promise<void>;
+}
+
+/**
+ * Signer over a raw private key
+ */
+export class LocalKeySigner implements TreasurySigner {
+  private account;
+
+  constructor(private privateKey: Hex) {
+    this.account = privateKeyToAccount(privateKey);
+  }
+
+  get keyRef(): string {
+    return `local:${this.account.address}`;
+  }
+
+  async getEthereumAddress(): Promise<Address> {
+    return this.account.address;
+  }
+
+  async signDigest32(digestHex: Hex): Promise<Signature> {
+    const { r, s, v } = await sign({ hash: digestHex, privateKey: this.privateKey });
+    return { r, s, v: v === 28n ? 28 : 27 };
+  }
+
+  async signTypedData(typedData: TypedDataDefinition): Promise<Signature> {
+    return this.signDigest32(hashTypedData(typedData));
+  }
+}
+
+/**
+ * Build the treasury signer selected by TREASURY_SIGNER (default "local")
+ */
+export function createTreasurySigner(
+  cache?: SignerAddressCache,
+  env: Record<string, string | undefined> = process.env
+): TreasurySigner {
+  const backend = (env.TREASURY_SIGNER || "local") as TreasurySignerBackend;
+
+  switch (backend) {
+    case "local": {
+      if (!env.PRIVATE_KEY) throw new Error("PRIVATE_KEY is not set for the local treasury signer");
+      if (env.NODE_ENV === "production") {
+        console.warn("[TreasurySigner] ⚠️ Signing with a raw PRIVATE_KEY in production; use TREASURY_SIGNER=aws-kms");
+      }
+      return new LocalKeySigner(env.PRIVATE_KEY as Hex);
+    }
+    case "aws-kms": {
+      if (!env.TREASURY_KMS_KEY_ID) throw new Error("TREASURY_KMS_KEY_ID is not set for the KMS treasury signer");
+      const kms = new KMSClient({ region: env.AWS_REGION || "ap-south-1" });
+      return new Kmsecp256k1Signer(kms, env.TREASURY_KMS_KEY_ID, cache);
+    }
+    case "kms-emulator": {
+      const emulator = new LocalKmsEmulator(env.KMS_EMULATOR_SEED);
+      return new Kmsecp256k1Signer(emulator, env.TREASURY_KMS_KEY_ID || "treasury", cache);
+    }
+    default:
+      throw new Error(`Unknown TREASURY_SIGNER: ${backend}`);
+  }
+}
+
+/**
+ * viem account that signs through the treasury signer, for wallet clients
+ */
+export async function toSignerAccount(signer: TreasurySigner): Promise<Account> {
+  const signHash = async (hash: Hex) => {
+    const { r, s, v } = await signer.signDigest32(hash);
+    return serializeSignature({ r, s, yParity: v - 27 });
+  };
+
+  return toAccount({
+    address: await signer.getEthereumAddress(),
+    async sign({ hash }) {
+      return signHash(hash);
+    },
+    async signMessage({ message }) {
+      return signHash(hashMessage(message));
+    },
+    async signTransaction(transaction, { serializer = serializeTransaction } = {}) {
+      const { r, s, v } = await signer.signDigest32(keccak256(await serializer(transaction)));
+      return serializer(transaction, { r, s, yParity: v - 27 });
+    },
+    async signTypedData(typedData) {
+      return signHash(hashTypedData(typedData as TypedDataDefinition));
+    },
+  });
+}
@@ -22,7 +22,7 @@ export function buildQRUri(
     case "EVM":
       return buildEVMQR(network, asset, address, amountNative);
     case "SOL":
-      return buildSolanaQR(address, amountNative);
+      return buildSolanaQR(asset, address, amountNative);
     default:
       return address; // Fallback
   }
@@ -81,13 +81,15 @@ function buildEVMQR(
 }
 
 /**
- * Build Solana QR URI
+ * Build Solana Pay URI
+ * SPL tokens name their mint; wallets pay the recipient's associated token account
  */
-function buildSolanaQR(address: string, amountNative?: string): string {
-  if (amountNative) {
-    return `solana:${address}?amount=${amountNative}`;
-  }
-  return `solana:${address}`;
+function buildSolanaQR(asset: CryptoAsset, address: string, amountNative?: string): string {
+  const params = [
+    ...(amountNative ? [`amount=${amountNative}`] : []),
+    ...(asset.assetType === "SPL" && asset.contractAddress ? [`spl-token=${asset.contractAddress}`] : []),
+  ];
+  return params.length > 0 ? `solana:${address}?${params.join("&")}` : `solana:${address}`;
 }
 
 /**
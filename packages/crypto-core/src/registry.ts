@@ -20,6 +20,16 @@ export interface CryptoNetwork {
   confirmationsRequired: number;
   coinType?: number; // BIP44 coin type for UTXO
   bech32Prefix?: string; // For UTXO bech32 addresses
+  addressPerIntent?: boolean; // Derive a fresh deposit address for every payment intent instead of an amount nonce
+}
+
+/**
+ * How far a payment may stray from the intent amount, in basis points of
+ * the expected amount (see tolerance.ts)
+ */
+export interface PaymentTolerance {
+  underBps: number; // Shortfall still treated as paid (e.g. exchange withdrawal fees)
+  overBps: number; // Excess still matched to the closest intent on a shared address
 }
 
 export interface CryptoAsset {
@@ -32,6 +42,7 @@ export interface CryptoAsset {
   decimals: number;
   enabled: boolean;
   coingeckoId?: string; // For price lookups
+  paymentTolerance?: PaymentTolerance; // Defaults to DEFAULT_PAYMENT_TOLERANCE
 }
 
 /**
@@ -130,6 +141,7 @@ export const NETWORKS: Record<string, CryptoNetwork> = {
     confirmationsRequired: 1,
     coinType: 0,
     bech32Prefix: "bc",
+    addressPerIntent: true,
   },
   litecoin_mainnet: {
     networkId: "litecoin_mainnet",
@@ -141,6 +153,7 @@ export const NETWORKS: Record<string, CryptoNetwork> = {
     confirmationsRequired: 1,
     coinType: 2,
     bech32Prefix: "ltc", // CRITICAL: ltc1 prefix, NOT bc1
+    addressPerIntent: true,
   },
   // Solana
   solana_mainnet: {
@@ -151,6 +164,7 @@ export const NETWORKS: Record<string, CryptoNetwork> = {
     explorerBaseUrl: "https://solscan.io",
     enabled: true,
     confirmationsRequired: 32, // Finalized commitment
+    addressPerIntent: true,
   },
 };
 
@@ -251,6 +265,7 @@ export const ASSETS: CryptoAsset[] = [
     decimals: 6,
     enabled: true,
     coingeckoId: "usd-coin",
+    paymentTolerance: { underBps: 300, overBps: 1000 }, // Exchanges take mainnet gas out of withdrawals
   },
   {
     assetId: "usdc_bsc_mainnet",
@@ -330,6 +345,7 @@ export const ASSETS: CryptoAsset[] = [
     decimals: 6,
     enabled: true,
     coingeckoId: "tether",
+    paymentTolerance: { underBps: 300, overBps: 1000 }, // Exchanges take mainnet gas out of withdrawals
   },
   {
     assetId: "usdt_bsc_mainnet",
@@ -742,6 +758,28 @@ export const ASSETS: CryptoAsset[] = [
     enabled: true,
     coingeckoId: "solana",
   },
+  {
+    assetId: "usdc_solana_mainnet",
+    networkId: "solana_mainnet",
+    symbol: "USDC",
+    name: "USD Coin (Solana)",
+    assetType: "SPL",
+    contractAddress: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", // Mint
+    decimals: 6,
+    enabled: true,
+    coingeckoId: "usd-coin",
+  },
+  {
+    assetId: "usdt_solana_mainnet",
+    networkId: "solana_mainnet",
+    symbol: "USDT",
+    name: "Tether USD (Solana)",
+    assetType: "SPL",
+    contractAddress: "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB", // Mint
+    decimals: 6,
+    enabled: true,
+    coingeckoId: "tether",
+  },
 
   // Additional popular ERC20 tokens to reach 100+
   {
@@ -0,0 +1,41 @@
+import { classifyPayment, getPaymentTolerance, isWithinTolerance, DEFAULT_PAYMENT_TOLERANCE } from "./tolerance";
+
+describe("payment tolerance", () => {
+  // 1% under, 10% over
+  const tolerance = DEFAULT_PAYMENT_TOLERANCE;
+  const expected = 1_000_000n;
+
+  it("accepts totals inside the band, edges included", () => {
+    expect(isWithinTolerance(expected, 990_000n, tolerance)).toBe(true);
+    expect(isWithinTolerance(expected, 1_100_000n, tolerance)).toBe(true);
+    expect(isWithinTolerance(expected, 989_999n, tolerance)).toBe(false);
+    expect(isWithinTolerance(expected, 1_100_001n, tolerance)).toBe(false);
+  });
+
+  it("classifies single transfers", () => {
+    expect(classifyPayment(expected, expected, 1, tolerance)).toEqual({ resolution: "EXACT", remainingRaw: 0n });
+    expect(classifyPayment(expected, 995_000n, 1, tolerance)).toEqual({
+      resolution: "WITHIN_TOLERANCE",
+      remainingRaw: 0n,
+    });
+    // Anything above is credited in full, even outside the band
+    expect(classifyPayment(expected, 2_000_000n, 1, tolerance)).toEqual({ resolution: "OVERPAID", remainingRaw: 0n });
+    expect(classifyPayment(expected, 600_000n, 1, tolerance)).toEqual({
+      resolution: "PARTIAL",
+      remainingRaw: 400_000n,
+    });
+  });
+
+  it("classifies several transfers that reach the band as topped up", () => {
+    expect(classifyPayment(expected, 995_000n, 2, tolerance)).toEqual({ resolution: "TOPPED_UP", remainingRaw: 0n });
+    expect(classifyPayment(expected, 900_000n, 2, tolerance)).toEqual({
+      resolution: "PARTIAL",
+      remainingRaw: 100_000n,
+    });
+    expect(classifyPayment(expected, 1_200_000n, 2, tolerance).resolution).toBe("OVERPAID");
+  });
+
+  it("falls back to the default band for unknown assets", () => {
+    expect(getPaymentTolerance("no_such_asset")).toEqual(DEFAULT_PAYMENT_TOLERANCE);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Payment Tolerance
+ *
+ * Classifies what arrived at a deposit address against what a payment intent
+ * asked for. Shortfalls inside the asset's tolerance band count as paid,
+ * anything above the expected amount is credited in full, and anything below
+ * the band leaves the intent waiting for a top-up.
+ */
+
+import { PaymentTolerance, getAsset } from "./registry";
+
+export const DEFAULT_PAYMENT_TOLERANCE: PaymentTolerance = { underBps: 100, overBps: 1000 };
+
+export type PaymentResolution =
+  | "EXACT" // One transfer of exactly the expected amount
+  | "WITHIN_TOLERANCE" // One transfer short of the expected amount, inside the band
+  | "OVERPAID" // More than expected; credited in full
+  | "TOPPED_UP" // Several transfers that together reached the band
+  | "PARTIAL" // Below the band; waiting for a top-up
+  | "UNDERPAID_ACCEPTED"; // Below the band, accepted as a smaller donation
+
+export function getPaymentTolerance(assetId: string): PaymentTolerance {
+  return getAsset(assetId)?.paymentTolerance ?? DEFAULT_PAYMENT_TOLERANCE;
+}
+
+/**
+ * Smallest total that counts as paid
+ */
+export function minimumAccepted(expectedRaw: bigint, tolerance: PaymentTolerance): bigint {
+  return expectedRaw - (expectedRaw * BigInt(tolerance.underBps)) / 10000n;
+}
+
+/**
+ * Whether a total is close enough to the expected amount to match an intent
+ * that shares its deposit address with others
+ */
+export function isWithinTolerance(expectedRaw: bigint, receivedRaw: bigint, tolerance: PaymentTolerance): boolean {
+  const max = expectedRaw + (expectedRaw * BigInt(tolerance.overBps)) / 10000n;
+  return receivedRaw >= minimumAccepted(expectedRaw, tolerance) && receivedRaw <= max;
+}
+
+export function classifyPayment(
+  expectedRaw: bigint,
+  receivedRaw: bigint,
+  transferCount: number,
+  tolerance: PaymentTolerance
+): { resolution: PaymentResolution; remainingRaw: bigint } {
+  if (receivedRaw < minimumAccepted(expectedRaw, tolerance)) {
+    return { resolution: "PARTIAL", remainingRaw: expectedRaw - receivedRaw };
+  }
+  if (receivedRaw > expectedRaw) {
+    return { resolution: "OVERPAID", remainingRaw: 0n };
+  }
+  if (transferCount > 1) {
+    return { resolution: "TOPPED_UP", remainingRaw: 0n };
+  }
+  return { resolution: receivedRaw === expectedRaw ? "EXACT" : "WITHIN_TOLERANCE", remainingRaw: 0n };
+}
@@ -7,4 +7,6 @@
 export * from "./types";
 export * from "./repositories";
 export * from "./types-transparency";
+export * from "./job-queue";
 
+export * from "./reconciliation";
@@ -0,0 +1,134 @@
+import * as admin from "firebase-admin";
+import { getTestAdminFirestore, clearFirestoreCollections } from "@opencause/testkit";
+import { FirestoreJobQueue } from "./job-queue";
+import { JobDoc } from "./types";
+
+describe("FirestoreJobQueue", () => {
+  let db: ReturnType<typeof getTestAdminFirestore>;
+  let queue: FirestoreJobQueue;
+
+  const QUEUE = "test_queue";
+  const LEASE_MS = 60_000;
+
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  const getDoc = async (jobId: string) => (await db.collection("jobs").doc(jobId).get()).data() as JobDoc;
+  // Make a backed-off job runnable now instead of waiting out its delay
+  const runNow = (jobId: string) =>
+    db.collection("jobs").doc(jobId).update({ runAt: admin.firestore.Timestamp.fromMillis(Date.now() - 1) });
+
+  beforeEach(async () => {
+    db = getTestAdminFirestore();
+    await clearFirestoreCollections(["jobs", "job_queue_status"]);
+    queue = new FirestoreJobQueue(db);
+  });
+
+  it("reclaims a RUNNING job once its lease has expired", async () => {
+    const jobId = await queue.add(QUEUE, "watch", { n: 1 });
+
+    const first = await queue.claim(QUEUE, "worker-a", 50);
+    expect(first).toMatchObject({ id: jobId, attemptsMade: 1 });
+    expect(await queue.claim(QUEUE, "worker-b", LEASE_MS)).toBeNull();
+
+    await sleep(100);
+    const second = await queue.claim(QUEUE, "worker-b", LEASE_MS);
+
+    expect(second).toMatchObject({ id: jobId, attemptsMade: 2, data: { n: 1 } });
+    expect(await getDoc(jobId)).toMatchObject({ status: "RUNNING", leaseOwner: "worker-b" });
+  });
+
+  it("backs off exponentially between attempts and moves the job to DEAD at maxAttempts", async () => {
+    const jobId = await queue.add(QUEUE, "watch", {}, { attempts: 3, backoffMs: 1_000 });
+
+    for (const expectedDelay of [1_000, 2_000]) {
+      const job = (await queue.claim(QUEUE, "worker-a", LEASE_MS))!;
+      const before = Date.now();
+      expect(await queue.fail(job, "worker-a", new Error("boom"))).toBe("QUEUED");
+
+      const doc = await getDoc(jobId);
+      expect(doc).toMatchObject({ status: "QUEUED", leaseOwner: null, lastError: "boom" });
+      const delay = doc.runAt.toMillis() - before;
+      expect(delay).toBeGreaterThanOrEqual(expectedDelay - 50);
+      expect(delay).toBeLessThan(expectedDelay + 1_000);
+      // Not runnable until the backoff has passed
+      expect(await queue.claim(QUEUE, "worker-a", LEASE_MS)).toBeNull();
+      await runNow(jobId);
+    }
+
+    const last = (await queue.claim(QUEUE, "worker-a", LEASE_MS))!;
+    expect(last.attemptsMade).toBe(3);
+    expect(await queue.fail(last, "worker-a", new Error("still broken"))).toBe("DEAD");
+
+    expect(await getDoc(jobId)).toMatchObject({ status: "DEAD", attemptsMade: 3, lastError: "still broken" });
+    expect(await queue.claim(QUEUE, "worker-a", LEASE_MS)).toBeNull();
+    expect((await queue.listByStatus("DEAD", QUEUE)).map((job) => job.id)).toEqual([jobId]);
+  });
+
+  it("ignores complete and fail from a worker that lost its lease", async () => {
+    const jobId = await queue.add(QUEUE, "watch", {});
+    const stale = (await queue.claim(QUEUE, "worker-a", 50))!;
+    await sleep(100);
+    await queue.claim(QUEUE, "worker-b", LEASE_MS);
+
+    await queue.complete(stale, "worker-a");
+    expect(await queue.fail(stale, "worker-a", new Error("late"))).toBe("RUNNING");
+    expect(await queue.extendLease(stale, "worker-a", LEASE_MS)).toBe(false);
+
+    expect(await getDoc(jobId)).toMatchObject({
+      status: "RUNNING",
+      leaseOwner: "worker-b",
+      attemptsMade: 2,
+      lastError: null,
+    });
+  });
+
+  it("replaces a job with replaceSettled only once it is COMPLETED or DEAD", async () => {
+    const jobId = "deploy_camp1";
+    await queue.add(QUEUE, "deploy", { run: 1 }, { jobId });
+
+    // QUEUED and RUNNING jobs are left alone
+    await queue.add(QUEUE, "deploy", { run: 2 }, { jobId, replaceSettled: true });
+    expect(await getDoc(jobId)).toMatchObject({ status: "QUEUED", data: { run: 1 } });
+    const running = (await queue.claim(QUEUE, "worker-a", LEASE_MS))!;
+    await queue.add(QUEUE, "deploy", { run: 2 }, { jobId, replaceSettled: true });
+    expect(await getDoc(jobId)).toMatchObject({ status: "RUNNING", data: { run: 1 } });
+
+    // Without replaceSettled a settled job counts as already enqueued
+    await queue.complete(running, "worker-a");
+    await queue.add(QUEUE, "deploy", { run: 2 }, { jobId });
+    expect(await getDoc(jobId)).toMatchObject({ status: "COMPLETED", data: { run: 1 } });
+
+    await queue.add(QUEUE, "deploy", { run: 2 }, { jobId, replaceSettled: true });
+    expect(await getDoc(jobId)).toMatchObject({ status: "QUEUED", attemptsMade: 0, data: { run: 2 } });
+
+    const dead = (await queue.claim(QUEUE, "worker-a", LEASE_MS))!;
+    await db.collection("jobs").doc(jobId).update({ maxAttempts: 1 });
+    expect(await queue.fail(dead, "worker-a", new Error("boom"))).toBe("DEAD");
+    await queue.add(QUEUE, "deploy", { run: 3 }, { jobId, replaceSettled: true });
+    expect(await getDoc(jobId)).toMatchObject({ status: "QUEUED", attemptsMade: 0, lastError: null, data: { run: 3 } });
+  });
+
+  it("reports each queue's last run, error and DEAD count", async () => {
+    await queue.add(QUEUE, "watch", {}, { attempts: 1 });
+    await queue.add("other_queue", "watch", {});
+    const failing = (await queue.claim(QUEUE, "worker-a", LEASE_MS))!;
+    await queue.fail(failing, "worker-a", new Error("rpc down"));
+
+    const [failed, idle] = await queue.getQueueStatus([QUEUE, "other_queue"]);
+    expect(failed).toMatchObject({
+      queue: QUEUE,
+      lastOutcome: "DEAD",
+      lastRunAt: expect.any(String),
+      lastDurationMs: expect.any(Number),
+      lastSuccessAt: null,
+      lastError: "rpc down",
+      deadCount: 1,
+    });
+    expect(idle).toMatchObject({ queue: "other_queue", lastRunAt: null, lastOutcome: null, deadCount: 0 });
+
+    await queue.add(QUEUE, "watch", {});
+    await queue.complete((await queue.claim(QUEUE, "worker-a", LEASE_MS))!, "worker-a");
+    const [recovered] = await queue.getQueueStatus([QUEUE]);
+    // The DEAD job still needs a replay even though the latest run succeeded
+    expect(recovered).toMatchObject({ lastOutcome: "COMPLETED", lastSuccessAt: expect.any(String), deadCount: 1 });
+  });
+});
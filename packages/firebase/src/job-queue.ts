@@ -0,0 +1,369 @@
+/**
+ * Durable Job Queue
+ *
+ * Firestore-backed replacement for BullMQ. Jobs live in the `jobs` collection,
+ * are claimed with a time-limited lease, retried with exponential backoff and
+ * moved to DEAD once their attempts are exhausted. A worker that crashes
+ * mid-job simply lets its lease expire, so nothing is lost on restart. Each
+ * queue's last run is summarised in `job_queue_status/{queue}`.
+ */
+
+import * as admin from "firebase-admin";
+import { JobDoc, JobQueueStatusDoc, JobStatus } from "./types";
+
+export const JOB_QUEUES = {
+  INTENT_WATCH: "intent_watch",
+  EVM_INDEXER: "evm_indexer",
+  UTXO_WATCHER: "utxo_watcher",
+  SOL_WATCHER: "sol_watcher",
+  STATS_REFRESHER: "stats_refresher",
+  INTENT_EXPIRER: "intent_expirer",
+  WITHDRAWAL_EXECUTOR: "withdrawal_executor",
+  NOTIFICATIONS: "notifications",
+  IPFS_PIN: "ipfs_pin",
+  SETTLEMENT_RECONCILIATION: "settlement_reconciliation",
+  DONATION_REFUND: "donation_refund",
+  DEPOSIT_SWEEPER: "deposit_sweeper",
+  DEPOSIT_RETURN: "deposit_return",
+  SAFE_WITHDRAWAL_WATCHER: "safe_withdrawal_watcher",
+  EVIDENCE_ANCHOR: "evidence_anchor",
+  LEDGER_ANCHOR: "ledger_anchor",
+  // Consumed by the API, which owns the payment event and refund handlers
+  WEBHOOK_RETRY: "webhook_retry",
+  REFUND_REVERSAL: "refund_reversal",
+  VAULT_DEPLOYMENT: "vault_deployment",
+} as const;
+
+export type JobQueueName = (typeof JOB_QUEUES)[keyof typeof JOB_QUEUES];
+
+/**
+ * Job handle passed to processors (mirrors the BullMQ fields we relied on)
+ */
+export interface Job<T = any> {
+  id: string;
+  queueName: string;
+  name: string;
+  data: T;
+  attemptsMade: number;
+  maxAttempts: number;
+  processedOn: number; // When this attempt was claimed (ms)
+}
+
+/**
+ * A queue's last run and how many of its jobs are DEAD
+ */
+export interface QueueStatus {
+  queue: string;
+  lastRunAt: string | null;
+  lastDurationMs: number | null;
+  lastOutcome: JobQueueStatusDoc["lastOutcome"] | null;
+  lastSuccessAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  deadCount: number;
+}
+
+export interface AddJobOptions {
+  jobId?: string; // Deterministic id; adding an existing id is a no-op
+  // With a jobId: replace the job once it is COMPLETED or DEAD rather than
+  // treating it as already enqueued
+  replaceSettled?: boolean;
+  delayMs?: number;
+  attempts?: number;
+  backoffMs?: number;
+}
+
+const DEFAULT_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 10_000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+const STATUS_COLLECTION = "job_queue_status";
+
+export class FirestoreJobQueue {
+  constructor(
+    private firestore: admin.firestore.Firestore,
+    private collectionName: string = "jobs"
+  ) {}
+
+  private collection() {
+    return this.firestore.collection(this.collectionName);
+  }
+
+  /**
+   * Enqueue a job. Returns the job id.
+   */
+  async add(queue: string, name: string, data: Record<string, any>, opts: AddJobOptions = {}): Promise<string> {
+    const ref = opts.jobId ? this.collection().doc(opts.jobId) : this.collection().doc();
+    const now = Date.now();
+
+    const job: JobDoc = {
+      queue,
+      name,
+      data,
+      status: "QUEUED",
+      attemptsMade: 0,
+      maxAttempts: opts.attempts ?? DEFAULT_ATTEMPTS,
+      backoffMs: opts.backoffMs ?? DEFAULT_BACKOFF_MS,
+      runAt: admin.firestore.Timestamp.fromMillis(now + (opts.delayMs || 0)),
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: null,
+    };
+
+    const doc = {
+      ...job,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    };
+
+    if (opts.jobId && opts.replaceSettled) {
+      await this.firestore.runTransaction(async (t) => {
+        const existing = (await t.get(ref)).data() as JobDoc | undefined;
+        if (existing && (existing.status === "QUEUED" || existing.status === "RUNNING")) return;
+        t.set(ref, doc);
+      });
+      return ref.id;
+    }
+
+    try {
+      await ref.create(doc);
+    } catch (error: any) {
+      // ALREADY_EXISTS (gRPC code 6): deterministic job id was already enqueued
+      if (opts.jobId && error?.code === 6) {
+        return ref.id;
+      }
+      throw error;
+    }
+
+    return ref.id;
+  }
+
+  /**
+   * Claim the next runnable job on a queue, or null if there is none.
+   * Runnable = QUEUED with runAt in the past, or RUNNING with an expired lease.
+   */
+  async claim(queue: string, workerId: string, leaseMs: number): Promise<Job | null> {
+    const now = admin.firestore.Timestamp.now();
+
+    const [queued, stale] = await Promise.all([
+      this.collection()
+        .where("queue", "==", queue)
+        .where("status", "==", "QUEUED")
+        .where("runAt", "<=", now)
+        .orderBy("runAt", "asc")
+        .limit(5)
+        .get(),
+      this.collection()
+        .where("queue", "==", queue)
+        .where("status", "==", "RUNNING")
+        .where("leaseExpiresAt", "<=", now)
+        .limit(5)
+        .get(),
+    ]);
+
+    for (const candidate of [...stale.docs, ...queued.docs]) {
+      const claimed = await this.firestore.runTransaction(async (t) => {
+        const snap = await t.get(candidate.ref);
+        if (!snap.exists) return null;
+
+        const job = snap.data() as JobDoc;
+        const nowMs = Date.now();
+        const runnable =
+          (job.status === "QUEUED" && job.runAt.toMillis() <= nowMs) ||
+          (job.status === "RUNNING" && !!job.leaseExpiresAt && job.leaseExpiresAt.toMillis() <= nowMs);
+        if (!runnable) return null;
+
+        const attemptsMade = job.attemptsMade + 1;
+        t.update(candidate.ref, {
+          status: "RUNNING" as JobStatus,
+          attemptsMade,
+          leaseOwner: workerId,
+          leaseExpiresAt: admin.firestore.Timestamp.fromMillis(nowMs + leaseMs),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return {
+          id: snap.id,
+          queueName: job.queue,
+          name: job.name,
+          data: job.data,
+          attemptsMade,
+          maxAttempts: job.maxAttempts,
+          processedOn: nowMs,
+        } as Job;
+      });
+
+      if (claimed) return claimed;
+    }
+
+    return null;
+  }
+
+  /**
+   * Push the lease forward for a long-running job. Returns false if the lease was lost.
+   */
+  async extendLease(job: Job, workerId: string, leaseMs: number): Promise<boolean> {
+    const ref = this.collection().doc(job.id);
+    return this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      const doc = snap.data() as JobDoc | undefined;
+      if (!doc || doc.status !== "RUNNING" || doc.leaseOwner !== workerId) return false;
+
+      t.update(ref, {
+        leaseExpiresAt: admin.firestore.Timestamp.fromMillis(Date.now() + leaseMs),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Mark a job as completed
+   */
+  async complete(job: Job, workerId: string): Promise<void> {
+    await this.settle(job, workerId, {
+      status: "COMPLETED",
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      completedAt: admin.firestore.Timestamp.now(),
+    });
+  }
+
+  /**
+   * Record a failed attempt: requeue with exponential backoff, or move to DEAD
+   */
+  async fail(job: Job, workerId: string, error: unknown): Promise<JobStatus> {
+    const ref = this.collection().doc(job.id);
+    const message = error instanceof Error ? error.message : String(error);
+
+    return this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      const doc = snap.data() as JobDoc | undefined;
+      if (!doc || doc.leaseOwner !== workerId) return doc?.status ?? "DEAD";
+
+      if (doc.attemptsMade >= doc.maxAttempts) {
+        t.update(ref, {
+          status: "DEAD" as JobStatus,
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          lastError: message,
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        this.recordRun(t, job, "DEAD", message);
+        return "DEAD";
+      }
+
+      const delay = Math.min(doc.backoffMs * 2 ** (doc.attemptsMade - 1), MAX_BACKOFF_MS);
+      t.update(ref, {
+        status: "QUEUED" as JobStatus,
+        runAt: admin.firestore.Timestamp.fromMillis(Date.now() + delay),
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: message,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      this.recordRun(t, job, "RETRYING", message);
+      return "QUEUED";
+    });
+  }
+
+  /**
+   * Requeue a DEAD job with a fresh attempt budget (admin replay)
+   */
+  async retryDead(jobId: string): Promise<void> {
+    const ref = this.collection().doc(jobId);
+    await this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      const doc = snap.data() as JobDoc | undefined;
+      if (!doc) throw new Error(`Job ${jobId} not found`);
+      if (doc.status !== "DEAD") throw new Error(`Job ${jobId} is ${doc.status}, only DEAD jobs can be retried`);
+
+      t.update(ref, {
+        status: "QUEUED" as JobStatus,
+        attemptsMade: 0,
+        runAt: admin.firestore.Timestamp.now(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+  }
+
+  async getJob(jobId: string): Promise<(JobDoc & { id: string }) | null> {
+    const doc = await this.collection().doc(jobId).get();
+    return doc.exists ? { id: doc.id, ...(doc.data() as JobDoc) } : null;
+  }
+
+  async listByStatus(status: JobStatus, queue?: string, limit: number = 100): Promise<(JobDoc & { id: string })[]> {
+    let query: admin.firestore.Query = this.collection().where("status", "==", status);
+    if (queue) {
+      query = query.where("queue", "==", queue);
+    }
+    const snapshot = await query.limit(limit).get();
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...(doc.data() as JobDoc) }));
+  }
+
+  /**
+   * Last run (from any worker) and DEAD count of each queue
+   */
+  async getQueueStatus(queues: string[]): Promise<QueueStatus[]> {
+    const iso = (timestamp?: admin.firestore.Timestamp | null) => timestamp?.toDate().toISOString() ?? null;
+
+    return Promise.all(
+      queues.map(async (queue) => {
+        const [status, dead] = await Promise.all([
+          this.firestore.collection(STATUS_COLLECTION).doc(queue).get(),
+          this.collection().where("queue", "==", queue).where("status", "==", "DEAD").count().get(),
+        ]);
+        const doc = status.data() as JobQueueStatusDoc | undefined;
+        return {
+          queue,
+          lastRunAt: iso(doc?.lastRunAt),
+          lastDurationMs: doc?.lastDurationMs ?? null,
+          lastOutcome: doc?.lastOutcome ?? null,
+          lastSuccessAt: iso(doc?.lastSuccessAt),
+          lastError: doc?.lastError ?? null,
+          lastErrorAt: iso(doc?.lastErrorAt),
+          deadCount: dead.data().count,
+        };
+      })
+    );
+  }
+
+  private async settle(job: Job, workerId: string, data: Partial<JobDoc>): Promise<void> {
+    const ref = this.collection().doc(job.id);
+    await this.firestore.runTransaction(async (t) => {
+      const snap = await t.get(ref);
+      const doc = snap.data() as JobDoc | undefined;
+      // Lease was lost to another worker; let that worker settle the job
+      if (!doc || doc.leaseOwner !== workerId) return;
+
+      t.update(ref, {
+        ...data,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      this.recordRun(t, job, "COMPLETED", null);
+    });
+  }
+
+  // Written in the settling transaction, so a lost lease records nothing
+  private recordRun(
+    t: admin.firestore.Transaction,
+    job: Job,
+    outcome: JobQueueStatusDoc["lastOutcome"],
+    error: string | null
+  ) {
+    const now = admin.firestore.Timestamp.now();
+    const status: Partial<JobQueueStatusDoc> = {
+      queue: job.queueName,
+      lastJobId: job.id,
+      lastRunAt: admin.firestore.Timestamp.fromMillis(job.processedOn),
+      lastDurationMs: now.toMillis() - job.processedOn,
+      lastOutcome: outcome,
+      ...(error === null ? { lastSuccessAt: now } : { lastError: error, lastErrorAt: now }),
+    };
+    t.set(
+      this.firestore.collection(STATUS_COLLECTION).doc(job.queueName),
+      { ...status, updatedAt: admin.firestore.FieldValue.serverTimestamp() },
+      { merge: true }
+    );
+  }
+}
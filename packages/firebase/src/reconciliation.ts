@@ -0,0 +1,383 @@
+/**
+ * Settlement Reconciliation
+ *
+ * Matches what Razorpay / Cashfree actually settled against our
+ * `pending_donations` and `donations` records. Reports come from an admin
+ * upload, the worker's file drop or the provider API; every run is stored in
+ * `reconciliation_runs/{runId}` with one item per report line so admins can
+ * review and resolve the flagged ones.
+ */
+
+import * as admin from "firebase-admin";
+import {
+  ReconciliationItemDoc,
+  ReconciliationItemStatus,
+  ReconciliationRunDoc,
+  SettlementLine,
+  SettlementLineType,
+} from "./types";
+
+export type SettlementProvider = ReconciliationRunDoc["provider"];
+
+export const FLAGGED_RECONCILIATION_STATUSES: ReconciliationItemStatus[] = [
+  "MISSING_DONATION",
+  "ORPHAN_PAYMENT",
+  "AMOUNT_MISMATCH",
+  "REFUND",
+];
+
+const IN_QUERY_LIMIT = 30;
+const BATCH_LIMIT = 400;
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Parse a settlement report into normalized lines.
+ *
+ * Razorpay: recon API JSON ({ items: [...] }, amounts in paise) or the
+ * dashboard CSV export (amounts in rupees). Cashfree: settlement recon JSON
+ * ({ data: [...] }) or CSV, amounts in rupees.
+ */
+export function parseSettlementReport(
+  provider: SettlementProvider,
+  content: string,
+  format: "csv" | "json" = content.trim().startsWith("{") || content.trim().startsWith("[") ? "json" : "csv"
+): SettlementLine[] {
+  let rows: Record<string, any>[];
+  if (format === "json") {
+    const parsed = JSON.parse(content);
+    rows = Array.isArray(parsed) ? parsed : parsed.items || parsed.data || [];
+  } else {
+    rows = parseCsv(content);
+  }
+
+  // Razorpay's API reports paise, its CSV export rupees
+  const amountsInPaise = provider === "razorpay" && format === "json";
+  return rows
+    .map((row) =>
+      provider === "razorpay" ? razorpayLine(row, amountsInPaise) : cashfreeLine(row)
+    )
+    .filter((line): line is SettlementLine => line !== null);
+}
+
+function razorpayLine(row: Record<string, any>, amountsInPaise: boolean): SettlementLine | null {
+  const entityId = str(row.entity_id || row.id);
+  if (!entityId) return null;
+  const toPaise = (value: any) => (amountsInPaise ? integerString(value) : rupeesToPaise(value));
+
+  return {
+    type: lineType(row.type),
+    entityId,
+    orderId: str(row.order_id),
+    paymentId: str(row.payment_id) || (lineType(row.type) === "payment" ? entityId : null),
+    amountPaise: toPaise(row.amount),
+    feePaise: row.fee != null && row.fee !== "" ? toPaise(row.fee) : null,
+    taxPaise: row.tax != null && row.tax !== "" ? toPaise(row.tax) : null,
+    settlementId: str(row.settlement_id),
+    settledAt: toIsoDate(row.settled_at),
+  };
+}
+
+function cashfreeLine(row: Record<string, any>): SettlementLine | null {
+  const type = lineType(row.event_type || row.type);
+  const entityId = str(type === "refund" ? row.cf_refund_id || row.refund_id : row.cf_payment_id) || str(row.event_id);
+  if (!entityId) return null;
+
+  return {
+    type,
+    entityId,
+    orderId: str(row.order_id),
+    paymentId: str(row.cf_payment_id),
+    amountPaise: rupeesToPaise(row.event_amount ?? row.amount),
+    feePaise: row.event_service_charge != null ? rupeesToPaise(row.event_service_charge) : null,
+    taxPaise: row.event_service_tax != null ? rupeesToPaise(row.event_service_tax) : null,
+    settlementId: str(row.cf_settlement_id || row.settlement_id),
+    settledAt: toIsoDate(row.settlement_date || row.event_settlement_time),
+  };
+}
+
+function lineType(value: any): SettlementLineType {
+  const type = String(value || "").toLowerCase();
+  if (type === "payment") return "payment";
+  if (type === "refund") return "refund";
+  return "other";
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const records: string[][] = [];
+  let field = "";
+  let record: string[] = [];
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((cell) => cell.trim() !== ""));
+  if (nonEmpty.length === 0) return [];
+
+  const headers = nonEmpty[0].map((h) => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_"));
+  return nonEmpty.slice(1).map((cells) =>
+    Object.fromEntries(headers.map((header, i) => [header, (cells[i] ?? "").trim()]))
+  );
+}
+
+function str(value: any): string | null {
+  const s = value == null ? "" : String(value).trim();
+  return s === "" ? null : s;
+}
+
+function integerString(value: any): string {
+  const s = String(value ?? "0").trim();
+  return /^-?\d+$/.test(s) ? BigInt(s).toString() : rupeesToPaise(s);
+}
+
+function rupeesToPaise(value: any): string {
+  const s = String(value ?? "0").replace(/,/g, "").trim();
+  const match = s.match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match) return "0";
+  const paise = BigInt((match[2] || "0") + (match[3] || "").slice(0, 2).padEnd(2, "0"));
+  return (match[1] ? -paise : paise).toString();
+}
+
+function toIsoDate(value: any): string | null {
+  if (value == null || value === "") return null;
+  // Razorpay API uses unix seconds
+  const date = /^\d+$/.test(String(value)) ? new Date(Number(value) * 1000) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ============================================
+// PROVIDER API
+// ============================================
+
+/**
+ * Download the settlement report for one day from the provider API
+ */
+export async function fetchSettlementReport(
+  provider: SettlementProvider,
+  settlementDate: string, // YYYY-MM-DD
+  credentials: { keyId: string; keySecret: string; baseUrl?: string }
+): Promise<SettlementLine[]> {
+  const rows: Record<string, any>[] = [];
+
+  if (provider === "razorpay") {
+    const [year, month, day] = settlementDate.split("-").map((part) => parseInt(part, 10));
+    const baseUrl = credentials.baseUrl || "https://api.razorpay.com/v1";
+    const auth = Buffer.from(`${credentials.keyId}:${credentials.keySecret}`).toString("base64");
+    const count = 1000;
+
+    for (let skip = 0; ; skip += count) {
+      const response = await fetch(
+        `${baseUrl}/settlements/recon/combined?year=${year}&month=${month}&day=${day}&count=${count}&skip=${skip}`,
+        { headers: { Authorization: `Basic ${auth}` } }
+      );
+      if (!response.ok) {
+        throw new Error(`Razorpay settlement recon failed with ${response.status}`);
+      }
+      const page = (await response.json()) as any;
+      rows.push(...(page.items || []));
+      if ((page.items || []).length < count) break;
+    }
+    return rows.map((row) => razorpayLine(row, true)).filter((line): line is SettlementLine => line !== null);
+  }
+
+  const baseUrl = credentials.baseUrl || "https://api.cashfree.com/pg";
+  let cursor: string | null = null;
+  do {
+    const response = await fetch(`${baseUrl}/settlement/recon`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "x-client-id": credentials.keyId,
+        "x-client-secret": credentials.keySecret,
+        "x-api-version": "2023-08-01",
+      },
+      body: JSON.stringify({
+        pagination: { limit: 1000, ...(cursor && { cursor }) },
+        filters: { start_date: `${settlementDate}T00:00:00Z`, end_date: `${settlementDate}T23:59:59Z` },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Cashfree settlement recon failed with ${response.status}`);
+    }
+    const page = (await response.json()) as any;
+    rows.push(...(page.data || []));
+    cursor = page.cursor || null;
+  } while (cursor);
+
+  return rows.map(cashfreeLine).filter((line): line is SettlementLine => line !== null);
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+export interface ReconcileOptions {
+  provider: SettlementProvider;
+  source: ReconciliationRunDoc["source"];
+  settlementDate: string;
+  fileName?: string | null;
+  createdBy?: string | null;
+  runId?: string; // Deterministic id for scheduled runs; defaults to a new id
+}
+
+export class SettlementReconciler {
+  constructor(private firestore: admin.firestore.Firestore) {}
+
+  /**
+   * Match report lines to our records and store the run. Returns the run id.
+   */
+  async reconcile(lines: SettlementLine[], options: ReconcileOptions): Promise<string> {
+    const runs = this.firestore.collection("reconciliation_runs");
+    const runRef = options.runId ? runs.doc(options.runId) : runs.doc();
+
+    const pendingByOrder = await this.loadByField("pending_donations", "orderId", lines.map((l) => l.orderId));
+    const pendingByPayment = await this.loadByField("pending_donations", "paymentId", lines.map((l) => l.paymentId));
+    const donationsByOrder = await this.loadByField("donations", "orderId", lines.map((l) => l.orderId));
+
+    const items = lines.map((line) => this.matchLine(line, pendingByOrder, pendingByPayment, donationsByOrder));
+
+    const counts = Object.fromEntries(
+      (["MATCHED", ...FLAGGED_RECONCILIATION_STATUSES, "SKIPPED"] as ReconciliationItemStatus[]).map((status) => [
+        status,
+        items.filter((item) => item.status === status).length,
+      ])
+    ) as Record<ReconciliationItemStatus, number>;
+    const unresolvedCount = items.filter((item) => FLAGGED_RECONCILIATION_STATUSES.includes(item.status)).length;
+    const settledAmountPaise = lines
+      .filter((line) => line.type === "payment")
+      .reduce((sum, line) => sum + BigInt(line.amountPaise), 0n)
+      .toString();
+
+    const now = admin.firestore.FieldValue.serverTimestamp();
+    const run: ReconciliationRunDoc = {
+      provider: options.provider,
+      source: options.source,
+      settlementDate: options.settlementDate,
+      fileName: options.fileName || null,
+      status: unresolvedCount === 0 ? "RESOLVED" : "OPEN",
+      counts,
+      unresolvedCount,
+      settledAmountPaise,
+      createdBy: options.createdBy || null,
+    };
+
+    // Items first, so a run document never points at a partial item set
+    for (let i = 0; i < items.length; i += BATCH_LIMIT) {
+      const batch = this.firestore.batch();
+      items.slice(i, i + BATCH_LIMIT).forEach((item, offset) => {
+        const itemId = `${String(i + offset).padStart(5, "0")}_${item.line.entityId}`.replace(/\//g, "_");
+        batch.set(runRef.collection("items").doc(itemId), stripUndefined(item));
+      });
+      await batch.commit();
+    }
+    await runRef.set({ ...run, createdAt: now, updatedAt: now });
+
+    return runRef.id;
+  }
+
+  private matchLine(
+    line: SettlementLine,
+    pendingByOrder: Map<string, admin.firestore.QueryDocumentSnapshot>,
+    pendingByPayment: Map<string, admin.firestore.QueryDocumentSnapshot>,
+    donationsByOrder: Map<string, admin.firestore.QueryDocumentSnapshot>
+  ): ReconciliationItemDoc {
+    const pendingDoc =
+      (line.orderId && pendingByOrder.get(line.orderId)) ||
+      (line.paymentId && pendingByPayment.get(line.paymentId)) ||
+      null;
+    const pending = pendingDoc?.data();
+    const donationId: string | null =
+      pending?.donationId || (line.orderId && donationsByOrder.get(line.orderId)?.id) || null;
+
+    const base = {
+      line,
+      pendingDonationId: pendingDoc?.id || null,
+      donationId,
+      resolution: null,
+    };
+
+    if (line.type === "other") {
+      return { ...base, status: "SKIPPED" };
+    }
+    if (line.type === "refund") {
+      return { ...base, status: "REFUND" };
+    }
+    if (!pendingDoc && !donationId) {
+      return { ...base, status: "ORPHAN_PAYMENT" };
+    }
+    if (!donationId) {
+      return { ...base, status: "MISSING_DONATION" };
+    }
+
+    const expected = pending?.amountInPaise
+      ? String(pending.amountInPaise)
+      : rupeesToPaise(donationsByOrder.get(line.orderId || "")?.get("amount"));
+    if (expected !== line.amountPaise) {
+      return { ...base, status: "AMOUNT_MISMATCH", expectedAmountPaise: expected };
+    }
+    return { ...base, status: "MATCHED" };
+  }
+
+  private async loadByField(
+    collection: string,
+    field: string,
+    values: Array<string | null | undefined>
+  ): Promise<Map<string, admin.firestore.QueryDocumentSnapshot>> {
+    const unique = [...new Set(values.filter((v): v is string => !!v))];
+    const result = new Map<string, admin.firestore.QueryDocumentSnapshot>();
+
+    for (let i = 0; i < unique.length; i += IN_QUERY_LIMIT) {
+      const snapshot = await this.firestore
+        .collection(collection)
+        .where(field, "in", unique.slice(i, i + IN_QUERY_LIMIT))
+        .get();
+      for (const doc of snapshot.docs) {
+        const key = doc.get(field) as string;
+        // Prefer the record that already produced a donation
+        if (!result.has(key) || doc.get("status") === "COMPLETED") {
+          result.set(key, doc);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+// Firestore rejects undefined field values
+function stripUndefined<T extends Record<string, any>>(obj: T): T {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T;
+}
@@ -25,6 +25,11 @@ import {
   ChainTxPrivateDoc,
 } from "./types";
 
+// key_configs doc id for a KMS key (ids and ARNs contain "/" and ":")
+function signerKeyConfigId(kmsKeyRef: string): string {
+  return `signer_${kmsKeyRef.replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
 export class FirestoreRepository {
   constructor(private firestore: admin.firestore.Firestore) {}
 
@@ -277,6 +282,16 @@ export class FirestoreRepository {
     );
   }
 
+  // Address of a KMS signing key, cached once derived from its public key
+  async getSignerAddress(kmsKeyRef: string): Promise<string | null> {
+    const config = await this.getKeyConfig(signerKeyConfigId(kmsKeyRef));
+    return config?.kmsKeyRef === kmsKeyRef ? config.address || null : null;
+  }
+
+  async setSignerAddress(kmsKeyRef: string, address: string): Promise<void> {
+    await this.updateKeyConfig(signerKeyConfigId(kmsKeyRef), { type: "KMS", kmsKeyRef, address });
+  }
+
   // ============================================
   // PUBLIC COLLECTIONS (client-readable)
   // ============================================
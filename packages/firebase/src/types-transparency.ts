@@ -95,8 +95,12 @@ export interface DonationAllocationDoc {
 
 export type EventType =
   | "CAMPAIGN_PUBLISHED"
+  | "CAMPAIGN_CANCELLED"
   | "DONATION_RECEIVED"
   | "DONATION_ALLOCATED"
+  | "DONATION_REFUNDED"
+  | "DONATION_REORGED"
+  | "FUNDS_SWEPT"
   | "MILESTONE_FUNDING_COMPLETED"
   | "WITHDRAWAL_SUBMITTED"
   | "WITHDRAWAL_UNDER_REVIEW"
@@ -107,7 +111,7 @@ export type EventType =
 
 export type EventVisibility = "PUBLIC" | "ORGANIZER_ONLY" | "ADMIN_ONLY";
 
-export type EventEntityType = "DONATION" | "MILESTONE" | "WITHDRAWAL" | "CAMPAIGN";
+export type EventEntityType = "DONATION" | "MILESTONE" | "WITHDRAWAL" | "CAMPAIGN" | "SWEEP";
 
 export interface EventDoc {
   id: string; // cuid
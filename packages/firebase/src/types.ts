@@ -5,6 +5,7 @@
  */
 
 import * as admin from "firebase-admin";
+import type { PaymentResolution } from "@opencause/crypto-core";
 
 export type Timestamp = admin.firestore.Timestamp;
 
@@ -46,6 +47,7 @@ export interface CampaignDoc {
   description?: string;
   createdBy: string;
   status: "DRAFT" | "LIVE" | "PAUSED" | "CLOSED";
+  vaultAddress?: string; // Native vault on the campaign's first network
   createdAt?: Timestamp;
   updatedAt?: Timestamp;
 }
@@ -59,6 +61,15 @@ export interface CampaignDepositDoc {
   vaultAddress?: string;
   derivationPath?: string;
   addressIndex?: number;
+  // Campaign address on networks with an address per intent: HD index bookkeeping
+  nextAddressIndex?: number; // Next index to derive for an intent
+  highestUsedIndex?: number; // Highest index that has received funds (unpaid address limit)
+  // Address derived for a single intent (docId `${parentRef}_${addressIndex}`)
+  parentRef?: string; // campaign_deposits docId of the campaign address
+  intentId?: string | null; // Intent holding the address, null once released
+  assignedAt?: Timestamp;
+  releasedAt?: Timestamp | null; // Intent expired unpaid; handed out again after a cooldown
+  usedAt?: Timestamp | null; // First funds seen; a used address is never reassigned
   createdAt?: Timestamp;
 }
 
@@ -69,6 +80,7 @@ export interface PaymentIntentDoc {
   networkId: string; // Expected network (what user selected)
   depositRef: string; // campaign_deposits docId
   depositAddress: string; // The address shown in QR/copy
+  addressIndex?: number; // HD index when the intent has an address of its own (no amount nonce then)
   amountNative: string; // decimal string (expected, formatted)
   amountUsd: string;
   fxRate: string;
@@ -78,10 +90,10 @@ export interface PaymentIntentDoc {
   
   // CRITICAL: replay protection + scanning cursor (per network for multi-chain detection)
   startBlockByNetwork?: { [networkId: string]: string }; // Block number at intent creation per network
-  lastScannedBlockByNetwork?: { [networkId: string]: string }; // Scanning cursor per network
+  lastScannedBlockByNetwork?: { [networkId: string]: string }; // Deprecated, the worker keeps one cursor per network in key_configs
   
   // CRITICAL: exact amount match (like exchanges) - includes nonce
-  expectedAmountRaw?: string; // in smallest units (wei / token units) with nonce
+  expectedAmountRaw?: string; // in smallest units (wei / token units) with nonce, unless the address is per intent
   expectedDecimals?: number;
   expectedTokenAddress?: string | null; // For ERC20, null for native
   expectedUsd?: string; // Expected USD amount (for display)
@@ -94,6 +106,15 @@ export interface PaymentIntentDoc {
   detectedAmountRaw?: string; // Actual amount from chain
   detectedAmountNative?: string; // Actual amount formatted
   confirmedTxHash?: string; // Transaction hash that confirmed the intent
+  // Every transfer credited to the intent (one donation each)
+  resolution?: PaymentResolution;
+  receivedAmountRaw?: string; // Sum of credited transfers
+  receivedAmountNative?: string;
+  remainingAmountRaw?: string; // Still owed while PARTIAL, "0" otherwise
+  remainingAmountNative?: string;
+  detectedTxHashes?: string[];
+  senderAddresses?: string[]; // lowercase; later transfers from these are routed here as top-ups
+  acceptedPartialAt?: Timestamp | null;
   actualAmountNative?: string; // Deprecated, use detectedAmountNative
   actualAmountRaw?: string; // Deprecated, use detectedAmountRaw
   usdAtConfirm?: string; // USD value at confirmation time
@@ -172,6 +193,21 @@ export interface WithdrawalDoc {
   // GSTIN OCR status
   gstinOcrStatus?: "PENDING" | "FOUND" | "NOT_FOUND";
   
+  // Policy evaluation summary (full record in policy_evaluations/{withdrawalId})
+  anomalyScore?: number;
+  anomalyFlags?: string[];
+  policyHold?: boolean; // Held for a second reviewer
+  
+  // Reviewer quorum (decisions also stored in withdrawal_approvals)
+  quorum?: WithdrawalQuorumState;
+  
+  // Automated INR payout (withdrawals_private)
+  payout?: WithdrawalPayoutState;
+  payoutFailureReason?: string | null; // Set when a payout fails or is reversed
+  
+  // Safe multisig proposal for a crypto withdrawal (withdrawals_private)
+  safe?: WithdrawalSafeState;
+  
   // Status tracking
   status: "DRAFT" | "SUBMITTED" | "UNDER_REVIEW" | "APPROVED" | "REJECTED" | "PAID";
   rejectionReason?: string | null;
@@ -188,6 +224,55 @@ export interface WithdrawalDoc {
   updatedAt?: Timestamp;
 }
 
+// Latest provider payout attempt for an INR withdrawal
+export interface WithdrawalPayoutState {
+  provider: "razorpay" | "cashfree";
+  rail: "UPI" | "BANK";
+  attempt: number; // Bumped only after the provider confirms a failure
+  idempotencyKey: string; // wd_{withdrawalId}_{attempt}
+  payoutId?: string | null; // Provider payout/transfer id
+  status: "INITIATED" | "PROCESSING" | "PROCESSED" | "FAILED" | "REVERSED" | "MANUAL";
+  utr?: string | null;
+  failureReason?: string | null;
+  updatedAt?: Timestamp;
+}
+
+// Safe transaction releasing a crypto withdrawal from its campaign vault.
+// The treasury signer proposes it; reviewers co-sign until the threshold
+export interface WithdrawalSafeState {
+  safeAddress: string;
+  networkId: string;
+  chainId: number;
+  vaultAddress: string; // Safe tx target: vault.withdraw(to, amount, withdrawalId)
+  transaction: {
+    to: string;
+    value: string;
+    data: string;
+    operation: 0 | 1;
+    safeTxGas: number;
+    baseGas: number;
+    gasPrice: string;
+    gasToken: string;
+    refundReceiver: string;
+    nonce: number;
+  };
+  safeTxHash: string;
+  threshold: number;
+  confirmations: WithdrawalSafeConfirmation[];
+  status: "PROPOSED" | "EXECUTED" | "FAILED";
+  proposedAt?: Timestamp;
+  executedAt?: Timestamp | null;
+  txHash?: string | null; // Execution transaction
+  failureReason?: string | null;
+  updatedAt?: Timestamp;
+}
+
+export interface WithdrawalSafeConfirmation {
+  owner: string;
+  reviewerId?: string | null; // null for the treasury signer
+  confirmedAt?: Timestamp;
+}
+
 // 9) withdrawal_approvals/{withdrawalId_reviewerId}
 export interface WithdrawalApprovalDoc {
   withdrawalId: string;
@@ -197,6 +282,30 @@ export interface WithdrawalApprovalDoc {
   createdAt?: Timestamp;
 }
 
+// quorum_rules/{ruleId}
+// A withdrawal needs the highest requiredApprovals among matching enabled rules
+export interface QuorumRuleDoc {
+  name: string;
+  method: "INR" | "CRYPTO";
+  minAmountInrPaise?: string | null; // INR: applies when amount is above this
+  minAmountUsd?: number | null; // CRYPTO: applies when USD value is above this
+  requiredApprovals: number;
+  vetoOnReject: boolean; // A single rejection rejects the withdrawal
+  enabled: boolean;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// Embedded on withdrawal docs (withdrawals, withdrawals_private, review_queue)
+export interface WithdrawalQuorumState {
+  required: number;
+  approvals: string[]; // Reviewer ids
+  rejections: string[]; // Reviewer ids
+  vetoOnReject: boolean;
+  ruleIds: string[]; // Matching quorum rules
+  outcome: "PENDING" | "APPROVED" | "REJECTED";
+}
+
 // 10) key_configs/{keyId}
 export interface KeyConfigDoc {
   type: "XPUB" | "SAFE" | "KMS" | "MPC" | "INDEX_STATE";
@@ -204,10 +313,12 @@ export interface KeyConfigDoc {
   assetSymbol?: string;
   xpub?: string;
   kmsKeyRef?: string;
+  address?: string; // KMS: Ethereum address derived from the key's public key
   mpcVaultRef?: string;
   safeAddress?: string;
   encryptedConfigBlob?: string;
   lastProcessedBlock?: string | number;
+  lastSignature?: string; // Solana: newest signature processed for an account
   updatedAt?: Timestamp;
 }
 
@@ -267,6 +378,10 @@ export interface DonationPublicDoc {
 
   // Fiat display
   inrAtConfirm?: string; // snapshot at confirm time
+
+  // Refund (set once an admin approves a refund; no longer counted in totals)
+  refunded?: boolean;
+  refundedAt?: Timestamp | null;
   updatedAt: Timestamp;
 }
 
@@ -284,6 +399,9 @@ export interface PaymentIntentPublicDoc {
   detectedNetworkId?: string;
   detectedAssetSymbol?: string;
   detectedAmountNative?: string;
+  resolution?: PaymentResolution;
+  receivedAmountNative?: string;
+  remainingAmountNative?: string;
   inrLive?: string;
   explorerUrl?: string; // Only if not anonymous
   txHashMasked?: string; // Only if not anonymous (first 6 + "…" + last 4)
@@ -305,6 +423,7 @@ export interface DonationPrivateDoc {
   isAnonymous: boolean;
   // Transaction details (always stored, even if anonymous)
   txHash: string; // Full hash (always stored for audit)
+  fromAddress?: string | null; // Donor's source address (refund destination)
   fullExplorerUrl: string;
   networkId: string;
   assetId: string;
@@ -360,13 +479,586 @@ export interface ChainTxPrivateDoc {
   from?: string;
   amountRaw: string; // BigInt string
   amountNative: string;
-  assetType: "NATIVE" | "ERC20";
+  assetType: "NATIVE" | "ERC20" | "UTXO" | "SOL" | "SPL";
   tokenAddress?: string | null;
   blockNumber?: string;
+  blockHash?: string; // Block the tx was seen in; re-verified until confirmed
   confirmations: number;
-  status: "SEEN" | "CONFIRMING" | "CONFIRMED";
+  // MEMPOOL: unconfirmed UTXO tx, not credited yet
+  // REPLACED: MEMPOOL tx that was replaced (RBF) or dropped before being mined
+  // REORGED: dropped from the canonical chain before reaching confirmationsRequired
+  status: "MEMPOOL" | "SEEN" | "CONFIRMING" | "CONFIRMED" | "REPLACED" | "REORGED";
+  spentOutpoints?: string[]; // MEMPOOL only: "txid:vout" inputs, to spot a conflicting replacement
+  replacedBy?: string | null; // REPLACED only, when the replacement is known
   explorerUrl: string;
   intentId?: string;
+  campaignId?: string;
+  donationId?: string; // donations_private / donations_public doc created at detection
+  statsAssetKey?: string | null; // campaign_stats key the amount was provisionally added to
+  reorgedAt?: Timestamp | null;
+  sweepId?: string | null; // deposit_sweeps doc that moved the funds into the campaign vault
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type UnattributedDepositStatus =
+  | "CONFIRMING" // Waiting for confirmationsRequired
+  | "OPEN" // Confirmed; waiting for an admin
+  | "ATTACHED" // Credited to a late payment intent
+  | "DONATION_RECORDED" // Recorded as an anonymous donation
+  | "RETURN_PENDING" // To be sent back to the sender
+  | "RETURNED" // Return transfer confirmed (returnTx)
+  | "RETURN_FAILED" // Return transfer could not be sent; may be resolved again
+  | "REORGED"; // Dropped from the canonical chain before confirming
+
+// unattributed_deposits/{networkId_txHash_to_tokenOrSymbol}
+// Inbound transfers to a campaign deposit address that matched no pending intent.
+// The id is the donationId the transfer gets if it is recorded.
+export interface UnattributedDepositDoc {
+  networkId: string;
+  txHash: string;
+  from: string | null; // Return destination
+  to: string; // Deposit address
+  depositRef: string | null; // campaign_deposits docId
+  campaignId: string;
+  assetId: string | null;
+  assetType: "NATIVE" | "ERC20" | "UTXO" | "SOL" | "SPL";
+  tokenAddress: string | null;
+  amountRaw: string;
+  amountNative: string;
+  decimals: number;
+  blockNumber: string;
+  blockHash: string;
+  blockTimestamp?: Timestamp | null;
+  confirmations: number;
+  status: UnattributedDepositStatus;
+  // Snapshot when the transfer reached confirmationsRequired; used if it is recorded as a donation
+  confirmedAt?: Timestamp | null;
+  usdRateAtConfirm?: string | null; // USD per unit
+  inrRateAtConfirm?: string | null; // INR per unit
+  resolution?: {
+    action: "ATTACH_INTENT" | "RECORD_DONATION" | "MARK_FOR_RETURN";
+    intentId?: string | null;
+    donationId?: string | null;
+    returnAddress?: string | null;
+    note?: string | null;
+    resolvedBy: string; // Admin uid
+    resolvedAt: Timestamp;
+  } | null;
+  // Transfer back to resolution.returnAddress: signed and sent by the worker
+  // on EVM networks, paid out by hand and recorded by an admin elsewhere
+  returnTx?: {
+    txHash: string;
+    rawTx?: string | null; // Signed EVM tx, rebroadcast if the worker stops before it is mined
+    amountRaw: string; // Amount sent; native EVM returns pay their gas out of the deposit
+    feeRaw?: string | null;
+    explorerUrl: string;
+    submittedAt: Timestamp;
+    confirmedAt?: Timestamp | null;
+  } | null;
+  returnGasTopUp?: { gasTopUpRaw: string; gasTopUpTxHash: string } | null; // Gas station funding for a token return
+  returnFailureReason?: string | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type DepositSweepStatus =
+  | "PENDING" // Transfers claimed; sweep tx not broadcast yet
+  | "SUBMITTED" // Sweep tx broadcast (Solana: signed and saved, then sent)
+  | "CONFIRMED" // Sweep tx mined
+  | "FAILED"; // Nothing moved; the transfers are released for the next run
+
+// deposit_sweeps/{sweepId}
+// Confirmed donations moved from deposit addresses into the campaign vault.
+// The id (32 hex chars, like an intent id) is the intentId the vault's
+// donate() is called with.
+export interface DepositSweepDoc {
+  campaignId: string;
+  networkId: string;
+  assetId: string;
+  fromAddresses: string[];
+  vaultAddress: string;
+  chainTxIds: string[]; // chain_txs_private docs swept
+  intentIds: string[];
+  amountRaw: string; // Credited amount taken out of the deposit addresses
+  amountNative: string;
+  feeRaw: string; // Network fee taken out of the amount (native and UTXO sweeps)
+  gasTopUpRaw?: string | null; // ERC20: gas sent to the deposit address by the gas station
+  gasTopUpTxHash?: string | null;
+  approveTxHash?: string | null;
+  rawTx?: string | null; // Solana: signed tx (base64), saved before it is sent
+  lastValidBlockHeight?: number | null; // Solana: the tx can no longer land past this block height
+  txHash?: string | null;
+  explorerUrl?: string | null;
+  status: DepositSweepStatus;
+  error?: string | null;
+  confirmedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// VAULT DEPLOYMENTS (server-only)
+// ============================================
+
+export type VaultDeploymentStatus =
+  | "PENDING" // Recorded, factory tx not sent yet
+  | "SUBMITTED" // Factory tx sent, waiting for the receipt
+  | "DEPLOYED" // Vault live; recorded on campaign_deposits
+  | "FAILED"; // Reverted or not sent; deploying again resumes it
+
+// vault_deployments/{campaignId_assetId_networkId}
+// One CampaignVaultFactory vault per campaign and EVM asset. The address is
+// the factory's CREATE2 address, known before the tx is sent.
+export interface VaultDeploymentDoc {
+  campaignId: string;
+  networkId: string;
+  assetId: string;
+  chainId: number;
+  factoryAddress: string;
+  campaignIdBytes32: string; // Vault campaignId (the campaign id as a bytes32 string)
+  token?: string | null; // ERC20 vaults
+  vaultAddress: string;
+  status: VaultDeploymentStatus;
+  txHash?: string | null; // null when the factory already had the vault
+  explorerUrl?: string | null;
+  receipt?: { blockNumber: string; gasUsed: string; status: "success" | "reverted" } | null;
+  error?: string | null;
+  deployedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// role_grants/{networkId}_{role}_{account}
+// RoleRegistry grants made for campaign organizers and reviewers
+export interface RoleGrantDoc {
+  networkId: string;
+  registryAddress: string;
+  role: "ORGANIZER" | "REVIEWER";
+  account: string;
+  userId: string;
+  status: "SUBMITTED" | "GRANTED" | "FAILED";
+  txHash?: string | null; // null when the account already had the role
+  blockNumber?: string | null;
+  error?: string | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// EVIDENCE ANCHORING (server-only)
+// ============================================
+
+export type EvidenceAnchorKind = "INR_DONATION" | "WITHDRAWAL_REQUEST" | "MILESTONE_PROOF";
+
+export type EvidenceAnchorStatus =
+  | "PENDING" // Waiting for the next batch
+  | "SUBMITTED" // In a batch whose root tx is pending
+  | "ANCHORED"; // Root mined; proof is final
+// Items of a reverted batch go back to PENDING and join the next one
+
+// evidence_anchors/{evidenceHash} (hex, no 0x)
+// One item per evidence hash. Items are anchored as leaves of a per-campaign,
+// per-kind Merkle root; `proof` links the leaf to that root.
+export interface EvidenceAnchorDoc {
+  evidenceHash: string; // 0x-prefixed sha256 of the canonical bundle / file
+  kind: EvidenceAnchorKind;
+  campaignId: string;
+  amount?: string | null;
+  source?: { type: "donation" | "withdrawal" | "proof"; id: string } | null;
+  status: EvidenceAnchorStatus;
+  batchId?: string | null;
+  leaf?: string | null; // keccak256(evidenceHash)
+  leafIndex?: number | null;
+  proof?: string[] | null; // Sibling hashes, leaf to root (sorted pairs)
+  merkleRoot?: string | null;
+  txHash?: string | null;
+  blockNumber?: string | null;
+  explorerUrl?: string | null;
+  anchoredAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// evidence_batches/{batchId}
+// One EvidenceRegistry.anchorEvidence() call: the Merkle root of a batch of
+// evidence_anchors items, recorded as the evidence hash of the campaign.
+export interface EvidenceBatchDoc {
+  campaignId: string;
+  kind: EvidenceAnchorKind;
+  merkleRoot: string;
+  leafCount: number;
+  evidenceHashes: string[]; // Leaf order
+  networkId: string;
+  chainId: number;
+  registryAddress: string;
+  status: "SUBMITTED" | "ANCHORED" | "FAILED";
+  txHash?: string | null;
+  blockNumber?: string | null;
+  explorerUrl?: string | null;
+  error?: string | null;
+  createdAt?: Timestamp;
+  anchoredAt?: Timestamp | null;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// CAMPAIGN LEDGER (server-only)
+// ============================================
+
+// ledger_snapshots/{campaignId}_{merkleRoot without 0x}
+// Merkle root over a campaign's donations_public and withdrawals_public
+// items at one point in time, anchored through EvidenceRegistry as
+// LEDGER_ROOT. Entry format and tree layout: @opencause/verifier.
+export interface LedgerSnapshotDoc {
+  campaignId: string;
+  merkleRoot: string;
+  entryCount: number;
+  donationCount: number;
+  withdrawalCount: number;
+  networkId: string;
+  chainId: number;
+  registryAddress: string;
+  status: "SUBMITTED" | "ANCHORED" | "FAILED";
+  txHash?: string | null;
+  blockNumber?: string | null;
+  explorerUrl?: string | null;
+  error?: string | null;
+  createdAt?: Timestamp;
+  anchoredAt?: Timestamp | null;
+  updatedAt?: Timestamp;
+}
+
+// ledger_snapshots/{snapshotId}/entries/{DONATION_id | WITHDRAWAL_id}
+export interface LedgerSnapshotEntryDoc {
+  entry: Record<string, any>; // LedgerEntry from @opencause/verifier
+  entryHash: string; // sha256 of the canonical entry JSON
+  leaf: string; // keccak256(entryHash)
+  leafIndex: number;
+  proof: string[]; // Sibling hashes, leaf to root (sorted pairs)
+}
+
+// campaign_ledgers/{campaignId}
+export interface CampaignLedgerDoc {
+  campaignId: string;
+  latestSnapshotId: string; // Last snapshot sent, anchored or not
+  latestRoot: string | null; // Cleared when that snapshot fails, so the next run retries
+  anchoredSnapshotId?: string | null; // Last snapshot whose root tx was mined
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// JOB QUEUE (server-only)
+// ============================================
+
+export type JobStatus = "QUEUED" | "RUNNING" | "COMPLETED" | "DEAD";
+
+// jobs/{jobId}
+export interface JobDoc {
+  queue: string; // Queue name, e.g. "evm_indexer"
+  name: string; // Job name within the queue
+  data: Record<string, any>;
+  status: JobStatus;
+  attemptsMade: number;
+  maxAttempts: number;
+  backoffMs: number; // Base delay, doubled on each failed attempt
+  runAt: Timestamp; // Earliest time the job may be claimed
+  leaseOwner?: string | null; // Worker id holding the lease while RUNNING
+  leaseExpiresAt?: Timestamp | null; // Expired leases are reclaimed by other workers
+  lastError?: string | null;
+  completedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// job_queue_status/{queue}: last run of each queue, whichever worker ran it
+export interface JobQueueStatusDoc {
+  queue: string;
+  lastJobId: string;
+  lastRunAt: Timestamp; // When the worker claimed the job
+  lastDurationMs: number;
+  lastOutcome: "COMPLETED" | "RETRYING" | "DEAD";
+  lastSuccessAt?: Timestamp | null;
+  lastError?: string | null;
+  lastErrorAt?: Timestamp | null;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// WITHDRAWAL POLICY (server-only)
+// ============================================
+
+// policy_profiles/{profileId}
+// profileId: "default" | "organizer_{userId}" | "campaign_{campaignId}"
+// Resolution order: default < organizer < campaign
+export interface PolicyProfileDoc {
+  scope: "DEFAULT" | "ORGANIZER" | "CAMPAIGN";
+  scopeId?: string | null; // userId or campaignId
+  thresholds: Record<string, number>; // Partial PolicyThresholds from @opencause/policy
+  updatedBy?: string;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// policy_evaluations/{withdrawalId}
+export interface PolicyEvaluationDoc {
+  withdrawalId: string;
+  campaignId: string;
+  profileIds: string[]; // Profiles applied, in resolution order
+  thresholds: Record<string, number>; // Effective thresholds
+  context: {
+    withdrawalAmount: string; // Scaled integer string
+    milestoneCap: string; // Scaled integer string, "0" if no cap
+    campaignTotalRaised: string;
+    timeSinceLastWithdrawal?: number; // hours
+    vendorConcentration?: number; // percent
+    withdrawalCount: number;
+  };
+  releasePolicy: { allowed: boolean; reason?: string } | null; // null when no milestone
+  anomalyScore: number;
+  flags: string[];
+  shouldPause: boolean;
   createdAt?: Timestamp;
+}
+
+// ============================================
+// PAYMENT WEBHOOKS (server-only)
+// ============================================
+
+export type WebhookEventStatus = "RECEIVED" | "PROCESSING" | "PROCESSED" | "FAILED" | "DEAD";
+
+// webhook_events/{provider}_{eventId}
+// eventId: provider event id (x-razorpay-event-id / x-idempotency-key), else a body hash
+export interface WebhookEventDoc {
+  provider: "razorpay" | "cashfree";
+  eventId: string;
+  eventType: string; // e.g. "payment.captured", "TRANSFER_SUCCESS"
+  payload: Record<string, any>; // Verified body
+  status: WebhookEventStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string | null;
+  nextAttemptAt?: Timestamp | null; // Retry time while FAILED
+  lockedUntil?: Timestamp | null; // Processing lease; expired leases are retried
+  processedAt?: Timestamp | null;
+  replayedBy?: string | null; // Admin who last replayed the event
+  receivedAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// SETTLEMENT RECONCILIATION (server-only)
+// ============================================
+
+export type SettlementLineType = "payment" | "refund" | "other";
+
+// One line of a gateway settlement report, normalized across providers
+export interface SettlementLine {
+  type: SettlementLineType;
+  entityId: string; // Payment / refund id at the provider
+  orderId?: string | null;
+  paymentId?: string | null; // For refunds: the refunded payment
+  amountPaise: string; // Gross amount, integer string
+  feePaise?: string | null;
+  taxPaise?: string | null;
+  settlementId?: string | null;
+  settledAt?: string | null; // ISO date string
+}
+
+export type ReconciliationItemStatus =
+  | "MATCHED"
+  | "MISSING_DONATION" // Settled payment with no donation recorded
+  | "ORPHAN_PAYMENT" // Settled payment we never created an order for
+  | "AMOUNT_MISMATCH"
+  | "REFUND"
+  | "SKIPPED"; // Adjustments, transfers, etc.
+
+// reconciliation_runs/{runId}
+export interface ReconciliationRunDoc {
+  provider: "razorpay" | "cashfree";
+  source: "UPLOAD" | "FILE_DROP" | "PROVIDER_API";
+  settlementDate: string; // YYYY-MM-DD
+  fileName?: string | null;
+  status: "OPEN" | "RESOLVED"; // RESOLVED once every flagged item is resolved
+  counts: Record<ReconciliationItemStatus, number>;
+  unresolvedCount: number;
+  settledAmountPaise: string; // Sum of payment lines
+  createdBy?: string | null; // Admin uid, null for scheduled runs
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+// reconciliation_runs/{runId}/items/{itemId}
+export interface ReconciliationItemDoc {
+  status: ReconciliationItemStatus;
+  line: SettlementLine;
+  pendingDonationId?: string | null;
+  donationId?: string | null;
+  expectedAmountPaise?: string | null; // From our records, for mismatches
+  resolution?: {
+    action: "ACKNOWLEDGED" | "DONATION_CREATED";
+    note?: string | null;
+    resolvedBy: string;
+    resolvedAt: Timestamp;
+  } | null;
+}
+
+// ============================================
+// DONATION REFUNDS (server-only)
+// ============================================
+
+export type DonationRefundStatus =
+  | "REQUESTED"
+  | "PROCESSING"
+  | "REFUNDED"
+  | "FAILED"
+  | "REJECTED"
+  | "CLAIMABLE";
+
+// donation_refunds/{donationId}
+// One refund per donation; a rejected request can be reopened. Donor requests
+// refund the full donation, campaign cancellations a pro-rata share of it.
+export interface DonationRefundDoc {
+  donationId: string;
+  campaignId: string;
+  source: "donations" | "donations_private"; // Collection holding the donation
+  type: "INR" | "CRYPTO";
+  amount: string; // Refunded amount. INR: rupees; CRYPTO: decimal native units
+  amountRaw?: string | null; // CRYPTO: smallest units
+  currency: string; // "INR" or asset symbol (matches donation_allocations.currency)
+  donatedAmount?: string | null; // Full donation when only a share is refunded
+  donatedAmountRaw?: string | null;
+  cancellationId?: string | null; // campaign_cancellations/{campaignId} batch
+  reason: string;
+  requestedBy: string; // uid
+  requestedByRole: "DONOR" | "ADMIN";
+  donorId?: string | null;
+  status: DonationRefundStatus;
+
+  // INR gateway refund
+  provider?: "razorpay" | "cashfree" | null;
+  orderId?: string | null;
+  paymentId?: string | null;
+  attempt?: number; // Bumped on each retry after a failure
+  providerRefundId?: string | null; // Razorpay refund id; Cashfree refund_id (refund_{donationId}_{attempt})
+
+  // CRYPTO return transfer (donation_refund job)
+  networkId?: string | null;
+  assetId?: string | null;
+  toAddress?: string | null; // Donor's source address, or the claimed address
+  safe?: WithdrawalSafeState | null; // vault.withdraw proposal; settled by the Safe watcher
+  txHash?: string | null; // Executed transfer, never the Safe proposal hash
+  explorerUrl?: string | null;
+
+  // Claim link for donors that could not be refunded automatically
+  claimToken?: string | null;
+  claimUpiVpa?: string | null; // INR claims are paid out manually
+  claimedAt?: Timestamp | null;
+  settlementReference?: string | null; // UTR of a manual INR payout, or tx of a manual crypto payout
+
+  failureReason?: string | null;
+  reviewedBy?: string | null;
+  reviewNote?: string | null;
+  reviewedAt?: Timestamp | null;
+  reversedAt?: Timestamp | null; // Totals, allocations and feed reversed
+  completedAt?: Timestamp | null;
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export type CampaignCancellationStatus = "IN_PROGRESS" | "COMPLETED";
+
+// Unreleased funds of one currency, shared pro-rata among its donors.
+// INR amounts are paise; crypto amounts are smallest units.
+export interface CampaignCancellationPool {
+  type: "INR" | "CRYPTO";
+  currency: string;
+  networkId?: string | null;
+  assetId?: string | null;
+  donated: string; // Donations still counted toward the campaign
+  released: string; // Approved or paid withdrawals
+  refundable: string; // Unreleased balance returned to donors
+}
+
+// campaign_cancellations/{campaignId}
+export type CampaignCancellationShare = Pick<
+  DonationRefundDoc,
+  | "donationId"
+  | "campaignId"
+  | "source"
+  | "type"
+  | "amount"
+  | "amountRaw"
+  | "currency"
+  | "donatedAmount"
+  | "donatedAmountRaw"
+  | "donorId"
+  | "orderId"
+  | "networkId"
+  | "assetId"
+>;
+
+export interface CampaignCancellationDoc {
+  campaignId: string;
+  status: CampaignCancellationStatus;
+  reason: string;
+  cancelledBy: string; // uid
+  previousStatus: string; // Campaign status before cancellation
+  pools: Record<string, CampaignCancellationPool>; // "INR" or assetId_networkId
+  refundCount: number; // Refunds created by the batch
+  // Each donor's refund, recorded with the cancellation so an interrupted
+  // batch can still open every refund
+  shares: CampaignCancellationShare[];
+  createdAt?: Timestamp;
+  completedAt?: Timestamp | null;
+  updatedAt?: Timestamp;
+}
+
+// ============================================
+// 80G DONATION RECEIPTS (server-only)
+// ============================================
+
+// NGO details recorded from KYC (users/{uid}.ngoDetails), printed on receipts
+export interface NgoDetails {
+  name: string;
+  pan?: string | null;
+  address?: string | null;
+  registrationNumber?: string | null;
+  section12A?: string | null;
+  section80G?: string | null; // 80G registration (URN); receipts are only issued when set
+}
+
+// donation_receipts/{donationId}
+// Issued once per confirmed INR donation to an 80G-registered NGO campaign.
+// Everything printed on the PDF is snapshotted here; the PDF is rendered on download.
+export interface DonationReceiptDoc {
+  donationId: string;
+  campaignId: string;
+  campaignTitle: string;
+  organizerId: string;
+  serialNumber: string; // 80G/{financialYear}/{sequence}, per NGO
+  financialYear: string; // e.g. "2025-26" (April to March)
+  sequence: number;
+  donorId: string | null; // null for guest donations
+  donorName: string;
+  donorEmail: string | null;
+  donorPan: string | null; // Optional at checkout; needed for Form 10BD
+  amountInr: string; // Rupees
+  paymentMode: string; // Electronic mode, e.g. "Razorpay"
+  orderId: string | null;
+  paymentId: string | null;
+  ngo: NgoDetails;
+  donatedAt: Timestamp;
+  issuedAt?: Timestamp;
+  voidedAt?: Timestamp | null; // Donation refunded; excluded from Form 10BD
+  originalAmountInr?: string | null; // Set when a partial refund reissued the receipt for the net amount
+  reissuedAt?: Timestamp | null;
+}
+
+// receipt_counters/{organizerId}_{financialYear}
+export interface ReceiptCounterDoc {
+  organizerId: string;
+  financialYear: string;
+  lastSequence: number;
   updatedAt?: Timestamp;
 }
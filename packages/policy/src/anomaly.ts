@@ -1,4 +1,5 @@
 import { calculateAnomalyScore } from "./policy";
+import { DEFAULT_POLICY_THRESHOLDS, PolicyThresholds } from "./thresholds";
 
 export interface AnomalyCheckResult {
   score: number;
@@ -6,34 +7,41 @@ export interface AnomalyCheckResult {
   flags: string[];
 }
 
-export function checkAnomalies(context: {
-  withdrawalAmount: string;
-  milestoneCap: string;
-  campaignTotalRaised: string;
-  timeSinceLastWithdrawal?: number;
-  vendorConcentration?: number;
-  withdrawalCount: number;
-}): AnomalyCheckResult {
-  const score = calculateAnomalyScore(context);
+export function checkAnomalies(
+  context: {
+    withdrawalAmount: string;
+    milestoneCap: string;
+    campaignTotalRaised: string;
+    timeSinceLastWithdrawal?: number;
+    vendorConcentration?: number;
+    withdrawalCount: number;
+  },
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS
+): AnomalyCheckResult {
+  const score = calculateAnomalyScore(context, thresholds);
   const flags: string[] = [];
 
-  if (score >= 70) {
+  if (score >= thresholds.pauseScore) {
     flags.push("CRITICAL: High anomaly score detected");
-  } else if (score >= 50) {
+  } else if (score >= thresholds.warningScore) {
     flags.push("WARNING: Elevated anomaly score");
   }
 
-  if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < 1) {
+  if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < thresholds.rapidWithdrawalHours) {
     flags.push("Rapid withdrawal detected");
   }
 
-  if (context.vendorConcentration !== undefined && context.vendorConcentration > 70) {
+  if (context.vendorConcentration !== undefined && context.vendorConcentration > thresholds.vendorConcentrationPercent) {
     flags.push("High vendor concentration");
   }
 
+  if (context.withdrawalCount > thresholds.withdrawalCountLimit) {
+    flags.push("High withdrawal count");
+  }
+
   return {
     score,
-    shouldPause: score >= 70,
+    shouldPause: score >= thresholds.pauseScore,
     flags,
   };
 }
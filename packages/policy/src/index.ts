@@ -1,4 +1,5 @@
 export * from "./policy";
 export * from "./anomaly";
+export * from "./thresholds";
 
 
@@ -1,4 +1,5 @@
 import { Milestone, Withdrawal } from "@opencause/types";
+import { DEFAULT_POLICY_THRESHOLDS, PolicyThresholds } from "./thresholds";
 
 export interface PolicyContext {
   milestone: Milestone;
@@ -83,41 +84,45 @@ export function evaluateReleasePolicy(context: PolicyContext): PolicyResult {
   return { allowed: true };
 }
 
-export function calculateAnomalyScore(context: {
-  withdrawalAmount: string;
-  milestoneCap: string;
-  campaignTotalRaised: string;
-  timeSinceLastWithdrawal?: number; // hours
-  vendorConcentration?: number; // percentage
-  withdrawalCount: number;
-}): number {
+export function calculateAnomalyScore(
+  context: {
+    withdrawalAmount: string;
+    milestoneCap: string;
+    campaignTotalRaised: string;
+    timeSinceLastWithdrawal?: number; // hours
+    vendorConcentration?: number; // percentage
+    withdrawalCount: number;
+  },
+  thresholds: PolicyThresholds = DEFAULT_POLICY_THRESHOLDS
+): number {
   let score = 0;
 
   // Large withdrawal relative to cap
   const amountBigInt = BigInt(context.withdrawalAmount);
   const capBigInt = BigInt(context.milestoneCap);
-  const percentageOfCap = Number((amountBigInt * 100n) / capBigInt);
-  if (percentageOfCap > 80) score += 30;
-  else if (percentageOfCap > 50) score += 15;
+  if (capBigInt > 0n) {
+    const percentageOfCap = Number((amountBigInt * 100n) / capBigInt);
+    if (percentageOfCap > thresholds.capHighPercent) score += thresholds.capHighScore;
+    else if (percentageOfCap > thresholds.capElevatedPercent) score += thresholds.capElevatedScore;
+  }
 
   // Rapid withdrawals
-  if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < 1) {
-    score += 25;
-  } else if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < 6) {
-    score += 10;
+  if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < thresholds.rapidWithdrawalHours) {
+    score += thresholds.rapidWithdrawalScore;
+  } else if (context.timeSinceLastWithdrawal !== undefined && context.timeSinceLastWithdrawal < thresholds.frequentWithdrawalHours) {
+    score += thresholds.frequentWithdrawalScore;
   }
 
   // High vendor concentration
-  if (context.vendorConcentration !== undefined && context.vendorConcentration > 70) {
-    score += 20;
+  if (context.vendorConcentration !== undefined && context.vendorConcentration > thresholds.vendorConcentrationPercent) {
+    score += thresholds.vendorConcentrationScore;
   }
 
   // High withdrawal count
-  if (context.withdrawalCount > 10) {
-    score += 15;
+  if (context.withdrawalCount > thresholds.withdrawalCountLimit) {
+    score += thresholds.withdrawalCountScore;
   }
 
   return Math.min(100, score);
 }
 
-
@@ -0,0 +1,75 @@
+/**
+ * Policy thresholds
+ *
+ * Tunable limits used by the anomaly score and release policy. Campaigns or
+ * organizers can override any subset through a stored policy profile.
+ */
+
+export interface PolicyThresholds {
+  // Withdrawal size relative to the milestone/campaign cap (percent)
+  capHighPercent: number;
+  capHighScore: number;
+  capElevatedPercent: number;
+  capElevatedScore: number;
+
+  // Time since the previous withdrawal (hours)
+  rapidWithdrawalHours: number;
+  rapidWithdrawalScore: number;
+  frequentWithdrawalHours: number;
+  frequentWithdrawalScore: number;
+
+  // Share of withdrawn funds going to a single vendor (percent)
+  vendorConcentrationPercent: number;
+  vendorConcentrationScore: number;
+
+  // Number of withdrawals already made for the campaign
+  withdrawalCountLimit: number;
+  withdrawalCountScore: number;
+
+  // Score bands
+  warningScore: number;
+  pauseScore: number;
+
+  // Minimum hours between withdrawals before a release is allowed
+  coolingOffHours: number;
+}
+
+export const DEFAULT_POLICY_THRESHOLDS: PolicyThresholds = {
+  capHighPercent: 80,
+  capHighScore: 30,
+  capElevatedPercent: 50,
+  capElevatedScore: 15,
+  rapidWithdrawalHours: 1,
+  rapidWithdrawalScore: 25,
+  frequentWithdrawalHours: 6,
+  frequentWithdrawalScore: 10,
+  vendorConcentrationPercent: 70,
+  vendorConcentrationScore: 20,
+  withdrawalCountLimit: 10,
+  withdrawalCountScore: 15,
+  warningScore: 50,
+  pauseScore: 70,
+  coolingOffHours: 0,
+};
+
+/**
+ * Merge overrides onto the defaults; later overrides win. Unknown keys and
+ * non-numeric values are ignored.
+ */
+export function resolvePolicyThresholds(
+  ...overrides: Array<Partial<PolicyThresholds> | null | undefined>
+): PolicyThresholds {
+  const resolved: PolicyThresholds = { ...DEFAULT_POLICY_THRESHOLDS };
+
+  for (const override of overrides) {
+    if (!override) continue;
+    for (const key of Object.keys(DEFAULT_POLICY_THRESHOLDS) as Array<keyof PolicyThresholds>) {
+      const value = override[key];
+      if (typeof value === "number" && Number.isFinite(value)) {
+        resolved[key] = value;
+      }
+    }
+  }
+
+  return resolved;
+}
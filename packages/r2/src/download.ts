@@ -0,0 +1,28 @@
+import { GetObjectCommand } from "@aws-sdk/client-s3";
+import { getR2Client } from "./r2Client";
+
+/**
+ * Download an object from R2 into memory
+ */
+export async function downloadBuffer(key: string): Promise<Buffer> {
+  const bucket = process.env.R2_BUCKET || "opencause-proofs";
+
+  if (!bucket) {
+    throw new Error("R2_BUCKET environment variable is required");
+  }
+
+  const client = getR2Client();
+
+  const response = await client.send(
+    new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+    })
+  );
+
+  if (!response.Body) {
+    throw new Error(`R2 object ${key} has no body`);
+  }
+
+  return Buffer.from(await response.Body.transformToByteArray());
+}
@@ -1,5 +1,6 @@
 export { getR2Client } from "./r2Client";
-export { buildProofKey, getExtensionFromMimeType, type ProofKeyParams, buildKYCImageKey, type KYCImageKeyParams } from "./proofKey";
+export { buildProofKey, buildEvidenceKey, getExtensionFromMimeType, type ProofKeyParams, buildKYCImageKey, type KYCImageKeyParams } from "./proofKey";
 export { uploadBuffer, type UploadBufferParams } from "./upload";
 export { getSignedGetUrl, getPublicUrl } from "./signedUrl";
 
+export { downloadBuffer } from "./download";
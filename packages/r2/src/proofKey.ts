@@ -14,6 +14,14 @@ export function buildProofKey(params: ProofKeyParams): string {
   return `proofs/${campaignId}/${withdrawalId}/${sha256}.${ext}`;
 }
 
+/**
+ * Build R2 object key for canonical evidence JSON
+ * Format: evidence/{evidenceHash}.json
+ */
+export function buildEvidenceKey(evidenceHash: string): string {
+  return `evidence/${evidenceHash}.json`;
+}
+
 /**
  * Extract extension from mimetype
  */
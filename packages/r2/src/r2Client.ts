@@ -6,6 +6,8 @@ import { S3Client } from "@aws-sdk/client-s3";
  * - R2_ACCOUNT_ID
  * - R2_ACCESS_KEY_ID
  * - R2_SECRET_ACCESS_KEY
+ * R2_ENDPOINT points at another S3-compatible endpoint (e.g. the testkit's
+ * fake R2), addressed path-style
  */
 export function getR2Client(): S3Client {
   const accountId = process.env.R2_ACCOUNT_ID;
@@ -18,11 +20,12 @@ export function getR2Client(): S3Client {
     );
   }
 
-  const endpoint = `https://${accountId}.r2.cloudflarestorage.com`;
+  const endpoint = process.env.R2_ENDPOINT || `https://${accountId}.r2.cloudflarestorage.com`;
 
   return new S3Client({
     region: "auto",
     endpoint,
+    forcePathStyle: Boolean(process.env.R2_ENDPOINT),
     credentials: {
       accessKeyId,
       secretAccessKey,
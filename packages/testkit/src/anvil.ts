@@ -0,0 +1,83 @@
+import { spawn, ChildProcess } from "child_process";
+
+/**
+ * Local anvil node
+ *
+ * Starts foundry's anvil for tests that deploy the contracts in
+ * apps/contracts (build them first with `pnpm --filter @opencause/contracts
+ * compile`). Anvil must be on PATH; `forge`/`anvil` come from foundryup.
+ */
+
+// anvil's default dev accounts (mnemonic "test test ... junk")
+export const ANVIL_PRIVATE_KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a",
+  "0x7c852118294e51e653712a81e05800f419141751be58f605c371e15141b007a6",
+] as const;
+
+export interface AnvilOptions {
+  port?: number;
+  chainId?: number;
+  // Milliseconds to wait for the node to answer RPC
+  startupTimeout?: number;
+}
+
+export interface AnvilNode {
+  rpcUrl: string;
+  chainId: number;
+  privateKeys: readonly `0x${string}`[];
+  stop(): Promise<void>;
+}
+
+export async function startAnvil(options: AnvilOptions = {}): Promise<AnvilNode> {
+  const port = options.port || 8545;
+  const chainId = options.chainId || 31337;
+  const rpcUrl = `http://127.0.0.1:${port}`;
+
+  const child: ChildProcess = spawn("anvil", ["--port", String(port), "--chain-id", String(chainId), "--silent"], {
+    stdio: "ignore",
+  });
+
+  let exited: Error | null = null;
+  child.on("error", (error) => {
+    exited = error;
+  });
+  child.on("exit", (code) => {
+    exited = exited || new Error(`anvil exited with code ${code}`);
+  });
+
+  const deadline = Date.now() + (options.startupTimeout || 10_000);
+  while (!(await isReady(rpcUrl))) {
+    if (exited || Date.now() > deadline) {
+      child.kill();
+      throw new Error(`anvil did not start on ${rpcUrl}: ${exited ? (exited as Error).message : "timed out"}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  return {
+    rpcUrl,
+    chainId,
+    privateKeys: ANVIL_PRIVATE_KEYS,
+    stop: () =>
+      new Promise<void>((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.once("exit", () => resolve());
+        child.kill();
+      }),
+  };
+}
+
+async function isReady(rpcUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
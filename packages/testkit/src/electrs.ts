@@ -0,0 +1,103 @@
+import { spawn, ChildProcess } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BitcoindNode } from "./bitcoind";
+
+/**
+ * Local Esplora API (Blockstream's electrs)
+ *
+ * Indexes a regtest node started with startBitcoind and serves the Esplora
+ * HTTP API EsploraBackend talks to. The Blockstream fork of `electrs` (the one
+ * with --http-addr) must be on PATH.
+ */
+
+export interface ElectrsOptions {
+  bitcoind: BitcoindNode;
+  httpPort?: number;
+  electrumPort?: number;
+  // Milliseconds to wait for the HTTP API to answer
+  startupTimeout?: number;
+}
+
+export interface ElectrsNode {
+  esploraUrl: string;
+  // electrs indexes asynchronously: wait until it has the node's tip, or a mempool tx
+  waitForTip(timeout?: number): Promise<void>;
+  waitForTx(txid: string, timeout?: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export async function startElectrs(options: ElectrsOptions): Promise<ElectrsNode> {
+  const { bitcoind } = options;
+  const httpPort = options.httpPort || 3002;
+  const electrumPort = options.electrumPort || httpPort + 1;
+  const esploraUrl = `http://127.0.0.1:${httpPort}`;
+  const dbDir = mkdtempSync(join(tmpdir(), "opencause-electrs-"));
+
+  const child: ChildProcess = spawn(
+    "electrs",
+    [
+      "--network", "regtest",
+      "--daemon-dir", bitcoind.datadir,
+      "--daemon-rpc-addr", `127.0.0.1:${bitcoind.rpcPort}`,
+      "--cookie", `${bitcoind.rpcUser}:${bitcoind.rpcPassword}`,
+      "--db-dir", dbDir,
+      "--http-addr", `127.0.0.1:${httpPort}`,
+      "--electrum-rpc-addr", `127.0.0.1:${electrumPort}`,
+      "--jsonrpc-import",
+    ],
+    { stdio: "ignore" }
+  );
+
+  let exited: Error | null = null;
+  child.on("error", (error) => {
+    exited = error;
+  });
+  child.on("exit", (code) => {
+    exited = exited || new Error(`electrs exited with code ${code}`);
+  });
+
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      const cleanup = () => {
+        rmSync(dbDir, { recursive: true, force: true });
+        resolve();
+      };
+      if (child.exitCode !== null) return cleanup();
+      child.once("exit", cleanup);
+      child.kill();
+    });
+
+  const until = async (what: string, check: () => Promise<boolean>, timeout: number) => {
+    const deadline = Date.now() + timeout;
+    while (!(await check().catch(() => false))) {
+      if (exited || Date.now() > deadline) {
+        throw new Error(`electrs ${what}: ${exited ? (exited as Error).message : "timed out"}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  };
+
+  const tipHeight = async () => parseInt(await (await fetch(`${esploraUrl}/blocks/tip/height`)).text(), 10);
+  const waitForTip = async (timeout = 30_000) => {
+    const height = await bitcoind.rpc<number>("getblockcount");
+    await until(`did not reach height ${height}`, async () => (await tipHeight()) >= height, timeout);
+  };
+
+  try {
+    await until(`did not start on ${esploraUrl}`, async () => !Number.isNaN(await tipHeight()), options.startupTimeout || 60_000);
+    await waitForTip();
+  } catch (error) {
+    await stop();
+    throw error;
+  }
+
+  return {
+    esploraUrl,
+    waitForTip,
+    waitForTx: (txid, timeout = 30_000) =>
+      until(`did not see ${txid}`, async () => (await fetch(`${esploraUrl}/tx/${txid}`)).ok, timeout),
+    stop,
+  };
+}
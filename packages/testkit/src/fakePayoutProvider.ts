@@ -0,0 +1,247 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import { AddressInfo } from "net";
+
+/**
+ * Fake payout provider
+ *
+ * Local stand-in for the RazorpayX (/v1/contacts, /v1/fund_accounts,
+ * /v1/payouts) and Cashfree (/transfers) payout APIs. Point the API at it with
+ * RAZORPAYX_BASE_URL=`${url}/v1` or CASHFREE_PAYOUT_BASE_URL=url, then call
+ * `settle()` to deliver a signed payout webhook.
+ */
+
+export interface FakePayout {
+  id: string;
+  provider: "razorpay" | "cashfree";
+  idempotencyKey: string | null;
+  amount: number; // Paise for Razorpay, rupees for Cashfree
+  mode: string;
+  fundAccount: any;
+  notes: Record<string, any>;
+  status: string;
+  utr: string | null;
+}
+
+export interface FakePayoutProviderOptions {
+  port?: number;
+  // Razorpay webhook target and secret (RAZORPAY_WEBHOOK_SECRET)
+  razorpayWebhookUrl?: string;
+  razorpayWebhookSecret?: string;
+  // Cashfree payout webhook target and secret (CASHFREE_WEBHOOK_SECRET)
+  cashfreeWebhookUrl?: string;
+  cashfreeWebhookSecret?: string;
+  // Make the next N payout calls fail with a 500
+  failNext?: number;
+}
+
+export interface FakePayoutProvider {
+  url: string;
+  payouts: Map<string, FakePayout>;
+  // Number of payout create requests received, including idempotent replays
+  requestCount(): number;
+  failNext(count: number): void;
+  settle(
+    payoutId: string,
+    outcome: "processed" | "failed" | "reversed",
+    reason?: string
+  ): Promise<FakePayout>;
+  close(): Promise<void>;
+}
+
+export async function startFakePayoutProvider(
+  options: FakePayoutProviderOptions = {}
+): Promise<FakePayoutProvider> {
+  const payouts = new Map<string, FakePayout>();
+  const byIdempotencyKey = new Map<string, string>();
+  const fundAccounts = new Map<string, any>();
+  let sequence = 0;
+  let requests = 0;
+  let failures = options.failNext || 0;
+
+  const nextId = (prefix: string) => `${prefix}_fake${String(++sequence).padStart(6, "0")}`;
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    const body = await readJson(req);
+
+    const send = (status: number, payload: any) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.method === "POST" && path === "/v1/contacts") {
+      return send(200, { id: nextId("cont"), entity: "contact", ...body });
+    }
+
+    if (req.method === "POST" && path === "/v1/fund_accounts") {
+      const fundAccount = { id: nextId("fa"), entity: "fund_account", ...body };
+      fundAccounts.set(fundAccount.id, fundAccount);
+      return send(200, fundAccount);
+    }
+
+    if (req.method === "POST" && (path === "/v1/payouts" || path === "/transfers")) {
+      requests++;
+      if (failures > 0) {
+        failures--;
+        return send(500, { error: { description: "Fake provider failure" }, message: "Fake provider failure" });
+      }
+
+      const provider = path === "/transfers" ? "cashfree" : "razorpay";
+      const idempotencyKey =
+        provider === "razorpay"
+          ? (req.headers["x-payout-idempotency"] as string) || null
+          : body.transferId || null;
+
+      const existingId = idempotencyKey && byIdempotencyKey.get(`${provider}:${idempotencyKey}`);
+      if (existingId) {
+        return send(200, serialize(payouts.get(existingId)!));
+      }
+      if (provider === "cashfree" && !idempotencyKey) {
+        return send(400, { message: "transferId is required" });
+      }
+
+      const payout: FakePayout = {
+        id: provider === "cashfree" ? idempotencyKey! : nextId("pout"),
+        provider,
+        idempotencyKey,
+        amount: provider === "cashfree" ? body.transferAmount : body.amount,
+        mode: provider === "cashfree" ? body.transferMode : body.mode,
+        fundAccount: provider === "cashfree" ? body.beneDetails : fundAccounts.get(body.fund_account_id || body.fund_account?.id) || null,
+        notes: body.notes || {},
+        status: provider === "cashfree" ? "PENDING" : "processing",
+        utr: null,
+      };
+      payouts.set(payout.id, payout);
+      if (idempotencyKey) {
+        byIdempotencyKey.set(`${provider}:${idempotencyKey}`, payout.id);
+      }
+      return send(200, serialize(payout));
+    }
+
+    const payoutMatch = path.match(/^\/v1\/payouts\/(.+)$/);
+    if (req.method === "GET" && payoutMatch && payouts.has(payoutMatch[1])) {
+      return send(200, serialize(payouts.get(payoutMatch[1])!));
+    }
+
+    send(404, { error: { description: "Not found" } });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port || 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    payouts,
+    requestCount: () => requests,
+    failNext: (count: number) => {
+      failures = count;
+    },
+
+    async settle(payoutId, outcome, reason) {
+      const payout = payouts.get(payoutId);
+      if (!payout) {
+        throw new Error(`Unknown payout ${payoutId}`);
+      }
+
+      if (payout.provider === "cashfree") {
+        payout.status = outcome === "processed" ? "SUCCESS" : outcome.toUpperCase();
+      } else {
+        payout.status = outcome;
+      }
+      payout.utr = outcome === "processed" ? `UTR${Date.now()}` : payout.utr;
+
+      if (payout.provider === "razorpay" && options.razorpayWebhookUrl) {
+        await postSigned(
+          options.razorpayWebhookUrl,
+          {
+            entity: "event",
+            event: `payout.${outcome}`,
+            payload: {
+              payout: {
+                entity: {
+                  ...serialize(payout),
+                  status_details: reason ? { description: reason } : null,
+                },
+              },
+            },
+          },
+          "x-razorpay-signature",
+          options.razorpayWebhookSecret || ""
+        );
+      }
+
+      if (payout.provider === "cashfree" && options.cashfreeWebhookUrl) {
+        await postSigned(
+          options.cashfreeWebhookUrl,
+          {
+            event: outcome === "processed" ? "TRANSFER_SUCCESS" : `TRANSFER_${outcome.toUpperCase()}`,
+            transferId: payout.id,
+            utr: payout.utr,
+            reason: reason || null,
+          },
+          "x-webhook-signature",
+          options.cashfreeWebhookSecret || ""
+        );
+      }
+
+      return payout;
+    },
+
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+function serialize(payout: FakePayout) {
+  if (payout.provider === "cashfree") {
+    return {
+      referenceId: payout.id,
+      transferId: payout.id,
+      transferAmount: payout.amount,
+      transferCurrency: "INR",
+      transferStatus: payout.status,
+      transferMode: payout.mode,
+      utr: payout.utr,
+    };
+  }
+  return {
+    id: payout.id,
+    entity: "payout",
+    amount: payout.amount,
+    currency: "INR",
+    status: payout.status,
+    mode: payout.mode,
+    reference_id: payout.idempotencyKey,
+    fund_account: payout.fundAccount,
+    notes: payout.notes,
+    utr: payout.utr,
+    created_at: Math.floor(Date.now() / 1000),
+  };
+}
+
+async function postSigned(url: string, payload: any, header: string, secret: string): Promise<void> {
+  const body = JSON.stringify(payload);
+  const signature = crypto.createHmac("sha256", secret).update(body).digest("hex");
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [header]: signature },
+    body,
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook delivery to ${url} failed with ${response.status}`);
+  }
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
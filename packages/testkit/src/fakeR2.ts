@@ -0,0 +1,98 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * Fake R2
+ *
+ * In-memory stand-in for the S3 object endpoints @opencause/r2 uses
+ * (PutObject, GetObject, DeleteObject), addressed path-style as
+ * /{bucket}/{key}. Point the API and worker at it with R2_ENDPOINT=url and
+ * any R2_ACCOUNT_ID / R2_ACCESS_KEY_ID / R2_SECRET_ACCESS_KEY; signatures
+ * are not checked.
+ */
+
+export interface FakeR2Object {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface FakeR2Options {
+  port?: number;
+}
+
+export interface FakeR2 {
+  url: string;
+  // Keyed by "{bucket}/{key}"
+  objects: Map<string, FakeR2Object>;
+  put(bucket: string, key: string, body: Buffer | string, contentType?: string): void;
+  close(): Promise<void>;
+}
+
+export async function startFakeR2(options: FakeR2Options = {}): Promise<FakeR2> {
+  const objects = new Map<string, FakeR2Object>();
+
+  const server = http.createServer(async (req, res) => {
+    const path = decodeURIComponent((req.url || "/").split("?")[0].slice(1));
+    const body = await readBody(req);
+
+    if (req.method === "PUT") {
+      const encoding = String(req.headers["content-encoding"] || "");
+      objects.set(path, {
+        body: encoding.includes("aws-chunked") ? decodeAwsChunked(body) : body,
+        contentType: String(req.headers["content-type"] || "application/octet-stream"),
+      });
+      res.writeHead(200, { ETag: '"fake"' });
+      return res.end();
+    }
+    if (req.method === "GET") {
+      const object = objects.get(path);
+      if (!object) {
+        res.writeHead(404, { "Content-Type": "application/xml" });
+        return res.end("<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>");
+      }
+      res.writeHead(200, { "Content-Type": object.contentType, "Content-Length": object.body.length, ETag: '"fake"' });
+      return res.end(object.body);
+    }
+    if (req.method === "DELETE") {
+      objects.delete(path);
+      res.writeHead(204);
+      return res.end();
+    }
+    res.writeHead(405);
+    res.end();
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port || 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    objects,
+    put(bucket, key, body, contentType = "application/octet-stream") {
+      objects.set(`${bucket}/${key}`, { body: Buffer.from(body), contentType });
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+// "<hex size>[;chunk-signature=...]\r\n<data>\r\n" ... "0\r\n<trailers>\r\n\r\n"
+function decodeAwsChunked(body: Buffer): Buffer {
+  const chunks: Buffer[] = [];
+  let offset = 0;
+  while (offset < body.length) {
+    const lineEnd = body.indexOf("\r\n", offset);
+    const size = parseInt(body.subarray(offset, lineEnd).toString("latin1").split(";")[0], 16);
+    if (!size) break;
+    chunks.push(body.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+  return Buffer.concat(chunks);
+}
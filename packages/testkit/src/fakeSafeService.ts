@@ -0,0 +1,184 @@
+import * as http from "http";
+import * as crypto from "crypto";
+import { AddressInfo } from "net";
+
+/**
+ * Fake Safe transaction service
+ *
+ * Local stand-in for the Safe Transaction Service endpoints the platform
+ * uses: Safe info (/api/v1/safes/{safe}/), proposals
+ * (/api/v1/safes/{safe}/multisig-transactions/), transaction details and
+ * confirmations (/api/v1/multisig-transactions/{safeTxHash}/...). Point the
+ * API and worker at it with <NETWORK_ID>_SAFE_SERVICE_URL=url, then call
+ * `execute()` to simulate an owner executing a proposal on-chain.
+ *
+ * Signatures are stored as given. Pass `recoverOwner` to attribute
+ * confirmations to owners the way the real service does.
+ */
+
+export interface FakeSafe {
+  address: string;
+  owners: string[];
+  threshold: number;
+  nonce: number;
+}
+
+export interface FakeSafeTransaction {
+  safe: string;
+  safeTxHash: string;
+  to: string;
+  value: string;
+  data: string | null;
+  operation: number;
+  nonce: number;
+  proposer: string;
+  confirmations: Array<{ owner: string; signature: string }>;
+  isExecuted: boolean;
+  isSuccessful: boolean | null;
+  transactionHash: string | null;
+}
+
+export interface FakeSafeServiceOptions {
+  port?: number;
+  safes?: Array<Omit<FakeSafe, "nonce"> & { nonce?: number }>;
+  // Owner address behind a confirmation signature
+  recoverOwner?: (tx: FakeSafeTransaction, signature: string) => string | Promise<string>;
+}
+
+export interface FakeSafeService {
+  url: string;
+  safes: Map<string, FakeSafe>;
+  transactions: Map<string, FakeSafeTransaction>;
+  addSafe(safe: Omit<FakeSafe, "nonce"> & { nonce?: number }): FakeSafe;
+  // Mark a proposal executed and bump the Safe nonce
+  execute(safeTxHash: string, outcome?: "success" | "reverted"): FakeSafeTransaction;
+  close(): Promise<void>;
+}
+
+export async function startFakeSafeService(options: FakeSafeServiceOptions = {}): Promise<FakeSafeService> {
+  const safes = new Map<string, FakeSafe>();
+  const transactions = new Map<string, FakeSafeTransaction>();
+
+  const addSafe = (safe: Omit<FakeSafe, "nonce"> & { nonce?: number }) => {
+    const stored = { ...safe, nonce: safe.nonce || 0 };
+    safes.set(safe.address.toLowerCase(), stored);
+    return stored;
+  };
+  (options.safes || []).forEach(addSafe);
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    const body = await readJson(req);
+
+    const send = (status: number, payload: any) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(payload));
+    };
+
+    const proposalMatch = path.match(/^\/api\/v1\/safes\/([^/]+)\/multisig-transactions\/$/);
+    if (req.method === "POST" && proposalMatch) {
+      const safe = safes.get(proposalMatch[1].toLowerCase());
+      if (!safe) return send(404, { detail: "Safe not found" });
+      if (!body.contractTransactionHash || !body.sender || !body.signature) {
+        return send(400, { detail: "contractTransactionHash, sender and signature are required" });
+      }
+      if (!ownedBy(safe, body.sender)) {
+        return send(422, { detail: `${body.sender} is not an owner of the Safe` });
+      }
+      if (transactions.has(body.contractTransactionHash)) {
+        return send(422, { detail: "Transaction already proposed" });
+      }
+
+      transactions.set(body.contractTransactionHash, {
+        safe: safe.address,
+        safeTxHash: body.contractTransactionHash,
+        to: body.to,
+        value: String(body.value),
+        data: body.data || null,
+        operation: body.operation,
+        nonce: body.nonce,
+        proposer: body.sender,
+        confirmations: [{ owner: body.sender, signature: body.signature }],
+        isExecuted: false,
+        isSuccessful: null,
+        transactionHash: null,
+      });
+      return send(201, { safeTxHash: body.contractTransactionHash });
+    }
+
+    const safeMatch = path.match(/^\/api\/v1\/safes\/([^/]+)\/$/);
+    if (req.method === "GET" && safeMatch) {
+      const safe = safes.get(safeMatch[1].toLowerCase());
+      if (!safe) return send(404, { detail: "Safe not found" });
+      return send(200, { ...safe, version: "1.3.0" });
+    }
+
+    const confirmationMatch = path.match(/^\/api\/v1\/multisig-transactions\/([^/]+)\/confirmations\/$/);
+    if (req.method === "POST" && confirmationMatch) {
+      const tx = transactions.get(confirmationMatch[1]);
+      if (!tx) return send(404, { detail: "Transaction not found" });
+      if (!body.signature) return send(400, { detail: "signature is required" });
+      if (tx.isExecuted) return send(422, { detail: "Transaction already executed" });
+
+      const owner = options.recoverOwner
+        ? await options.recoverOwner(tx, body.signature)
+        : `unknown_${tx.confirmations.length}`;
+      if (!tx.confirmations.some((c) => c.signature === body.signature)) {
+        tx.confirmations.push({ owner, signature: body.signature });
+      }
+      return send(201, { signature: body.signature });
+    }
+
+    const transactionMatch = path.match(/^\/api\/v1\/multisig-transactions\/([^/]+)\/$/);
+    if (req.method === "GET" && transactionMatch) {
+      const tx = transactions.get(transactionMatch[1]);
+      if (!tx) return send(404, { detail: "Transaction not found" });
+      const safe = safes.get(tx.safe.toLowerCase())!;
+      return send(200, { ...tx, confirmationsRequired: safe.threshold });
+    }
+
+    send(404, { detail: "Not found" });
+  });
+
+  await new Promise<void>((resolve) => server.listen(options.port || 0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    safes,
+    transactions,
+    addSafe,
+
+    execute(safeTxHash, outcome = "success") {
+      const tx = transactions.get(safeTxHash);
+      if (!tx) {
+        throw new Error(`Unknown Safe transaction ${safeTxHash}`);
+      }
+      tx.isExecuted = true;
+      tx.isSuccessful = outcome === "success";
+      tx.transactionHash = `0x${crypto.randomBytes(32).toString("hex")}`;
+      safes.get(tx.safe.toLowerCase())!.nonce++;
+      return tx;
+    },
+
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
+
+function ownedBy(safe: FakeSafe, address: string): boolean {
+  return safe.owners.some((owner) => owner.toLowerCase() === String(address).toLowerCase());
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk) => chunks.push(chunk));
+    req.on("end", () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {});
+      } catch {
+        resolve({});
+      }
+    });
+  });
+}
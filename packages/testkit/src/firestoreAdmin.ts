@@ -1,3 +1,4 @@
+import { createCipheriv, randomBytes } from "crypto";
 import { initializeApp, cert, getApps, App } from "firebase-admin/app";
 import { getFirestore, Firestore } from "firebase-admin/firestore";
 
@@ -39,8 +40,20 @@ export async function clearFirestoreCollections(collections: string[]): Promise<
   }
 }
 
-
-
-
-
-
+/**
+ * Store an HD wallet seed as the API does (system_config/hd_wallet_seed) and
+ * set the HD_WALLET_ENCRYPTION_KEY / HD_WALLET_ENCRYPTION_IV the worker
+ * decrypts it with, for tests that sign for deposit addresses
+ */
+export async function seedTestHdWallet(seed: Buffer): Promise<void> {
+  const key = randomBytes(32);
+  const iv = randomBytes(16);
+  process.env.HD_WALLET_ENCRYPTION_KEY = key.toString("hex");
+  process.env.HD_WALLET_ENCRYPTION_IV = iv.toString("hex");
+
+  const cipher = createCipheriv("aes-256-cbc", key, iv);
+  await getTestAdminFirestore()
+    .collection("system_config")
+    .doc("hd_wallet_seed")
+    .set({ encryptedSeed: Buffer.concat([cipher.update(seed), cipher.final()]).toString("hex") });
+}
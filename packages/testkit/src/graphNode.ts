@@ -0,0 +1,204 @@
+import { spawn, spawnSync, ChildProcess } from "child_process";
+import { cpSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join, resolve } from "path";
+
+/**
+ * Local graph-node
+ *
+ * Starts graph-node against a local chain (startAnvil) and IPFS node
+ * (startKubo) and deploys apps/subgraph to it. Needs `graph-node` and `psql`
+ * on PATH and GRAPH_NODE_POSTGRES_URL pointing at a database graph-node may
+ * own: it is dropped and recreated on every start, since a fresh anvil chain
+ * cannot reuse an earlier run's chain data.
+ */
+
+export interface GraphNodeOptions {
+  ethereumRpc: string;
+  ipfsApiUrl: string;
+  // Network name the subgraph manifest is deployed with
+  network?: string;
+  postgresUrl?: string;
+  // GraphQL port; the WS, admin, index and metrics ports follow graph-node's
+  // defaults relative to it (+1, +20, +30, +40)
+  httpPort?: number;
+  // Milliseconds to wait for the index node to answer
+  startupTimeout?: number;
+}
+
+export interface SubgraphDeployOptions {
+  name: string;
+  // Directory holding subgraph.yaml, with abis/ filled (`pnpm abis`)
+  dir?: string;
+  // Data source name => contract address
+  addresses: Record<string, string>;
+}
+
+export interface SubgraphDeployment {
+  queryUrl: string;
+  query<T = any>(query: string, variables?: Record<string, any>): Promise<T>;
+  // Resolves once the subgraph has indexed the given block
+  waitForBlock(blockNumber: bigint | number, timeout?: number): Promise<void>;
+}
+
+export interface GraphNode {
+  adminUrl: string;
+  deploySubgraph(options: SubgraphDeployOptions): Promise<SubgraphDeployment>;
+  stop(): Promise<void>;
+}
+
+const SUBGRAPH_DIR = resolve(__dirname, "../../../apps/subgraph");
+
+export async function startGraphNode(options: GraphNodeOptions): Promise<GraphNode> {
+  const postgresUrl = options.postgresUrl || process.env.GRAPH_NODE_POSTGRES_URL;
+  if (!postgresUrl) {
+    throw new Error("GRAPH_NODE_POSTGRES_URL not configured");
+  }
+  resetDatabase(postgresUrl);
+
+  const network = options.network || "matic";
+  const httpPort = options.httpPort || 8000;
+  const adminUrl = `http://127.0.0.1:${httpPort + 20}`;
+  const indexUrl = `http://127.0.0.1:${httpPort + 30}/graphql`;
+
+  const child: ChildProcess = spawn(
+    "graph-node",
+    [
+      "--postgres-url", postgresUrl,
+      "--ethereum-rpc", `${network}:${options.ethereumRpc}`,
+      "--ipfs", options.ipfsApiUrl,
+      "--http-port", String(httpPort),
+      "--ws-port", String(httpPort + 1),
+      "--admin-port", String(httpPort + 20),
+      "--index-node-port", String(httpPort + 30),
+      "--metrics-port", String(httpPort + 40),
+    ],
+    {
+      env: { ...process.env, ETHEREUM_REORG_THRESHOLD: "1", ETHEREUM_POLLING_INTERVAL: "200", GRAPH_LOG: "warn" },
+      stdio: "ignore",
+    }
+  );
+
+  let exited: Error | null = null;
+  child.on("error", (error) => {
+    exited = error;
+  });
+  child.on("exit", (code) => {
+    exited = exited || new Error(`graph-node exited with code ${code}`);
+  });
+
+  const deadline = Date.now() + (options.startupTimeout || 60_000);
+  while (!(await isReady(indexUrl))) {
+    if (exited || Date.now() > deadline) {
+      child.kill();
+      throw new Error(`graph-node did not start: ${exited ? (exited as Error).message : "timed out"}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  return {
+    adminUrl,
+    deploySubgraph: async ({ name, dir = SUBGRAPH_DIR, addresses }) => {
+      // graph-cli writes --network addresses into the manifest, so deploy a copy
+      const workDir = mkdtempSync(join(tmpdir(), "opencause-subgraph-"));
+      try {
+        for (const entry of ["subgraph.yaml", "schema.graphql", "src", "abis"]) {
+          cpSync(join(dir, entry), join(workDir, entry), { recursive: true });
+        }
+        symlinkSync(join(dir, "node_modules"), join(workDir, "node_modules"), "dir");
+        const networks = Object.fromEntries(
+          Object.entries(addresses).map(([source, address]) => [source, { address, startBlock: 0 }])
+        );
+        writeFileSync(join(workDir, "networks.json"), JSON.stringify({ [network]: networks }));
+
+        const graph = (args: string[]) => {
+          const result = spawnSync(join(dir, "node_modules/.bin/graph"), args, { cwd: workDir, encoding: "utf8" });
+          if (result.error || result.status !== 0) {
+            throw new Error(`graph ${args[0]} failed: ${result.error?.message || result.stdout + result.stderr}`);
+          }
+        };
+        graph(["codegen"]);
+        graph(["create", "--node", adminUrl, name]);
+        graph([
+          "deploy", "--node", adminUrl, "--ipfs", options.ipfsApiUrl,
+          "--version-label", "v0.0.1", "--network", network, name,
+        ]);
+      } finally {
+        rmSync(workDir, { recursive: true, force: true });
+      }
+
+      const queryUrl = `http://127.0.0.1:${httpPort}/subgraphs/name/${name}`;
+      const query = async (query: string, variables?: Record<string, any>) => {
+        const response = await fetch(queryUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ query, variables }),
+        });
+        const body = (await response.json()) as { data?: any; errors?: { message: string }[] };
+        if (body.errors?.length) {
+          throw new Error(`Subgraph query failed: ${body.errors.map((e) => e.message).join("; ")}`);
+        }
+        return body.data;
+      };
+
+      return {
+        queryUrl,
+        query,
+        waitForBlock: async (blockNumber, timeout = 60_000) => {
+          const deadline = Date.now() + timeout;
+          for (;;) {
+            const meta = await query("{ _meta { block { number } hasIndexingErrors } }").catch(() => null);
+            if (meta?._meta.hasIndexingErrors) {
+              throw new Error(`Subgraph ${name} failed to index`);
+            }
+            if (meta && meta._meta.block.number >= Number(blockNumber)) return;
+            if (Date.now() > deadline) {
+              throw new Error(`Subgraph ${name} did not reach block ${blockNumber}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 250));
+          }
+        },
+      };
+    },
+    stop: () =>
+      new Promise<void>((resolve) => {
+        if (child.exitCode !== null) return resolve();
+        child.once("exit", () => resolve());
+        child.kill();
+      }),
+  };
+}
+
+function resetDatabase(postgresUrl: string) {
+  const url = new URL(postgresUrl);
+  const database = url.pathname.slice(1);
+  url.pathname = "/postgres";
+
+  // graph-node needs the C locale
+  const result = spawnSync(
+    "psql",
+    [
+      url.toString(),
+      "-v", "ON_ERROR_STOP=1",
+      "-c", `DROP DATABASE IF EXISTS "${database}" WITH (FORCE)`,
+      "-c", `CREATE DATABASE "${database}" TEMPLATE template0 ENCODING 'UTF8' LC_COLLATE 'C' LC_CTYPE 'C'`,
+    ],
+    { encoding: "utf8" }
+  );
+  if (result.error || result.status !== 0) {
+    throw new Error(`Could not reset ${database}: ${result.error?.message || result.stderr}`);
+  }
+}
+
+async function isReady(indexUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(indexUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query: "{ indexingStatuses { subgraph } }" }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
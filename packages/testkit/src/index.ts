@@ -6,9 +6,18 @@
 
 export * from "./firebaseEmulator";
 export * from "./firestoreAdmin";
+export * from "./fakePayoutProvider";
+export * from "./fakeSafeService";
+export * from "./fakeR2";
+export * from "./anvil";
 
 
 
 
 
 
+export * from "./kubo";
+export * from "./graphNode";
+export * from "./bitcoind";
+export * from "./electrs";
+export * from "./solana";
@@ -0,0 +1,94 @@
+import { spawn, spawnSync, ChildProcess } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+/**
+ * Local kubo (go-ipfs) node
+ *
+ * Starts an offline IPFS node in a throwaway repo for tests that pin or read
+ * through the kubo HTTP API. The `ipfs` binary must be on PATH.
+ */
+
+export interface KuboOptions {
+  apiPort?: number;
+  // Milliseconds to wait for the HTTP API to answer
+  startupTimeout?: number;
+}
+
+export interface KuboNode {
+  apiUrl: string;
+  // Adds raw bytes and returns their CID (as the pinning job would)
+  add(content: Buffer | string): Promise<string>;
+  stop(): Promise<void>;
+}
+
+export async function startKubo(options: KuboOptions = {}): Promise<KuboNode> {
+  const apiPort = options.apiPort || 5001;
+  const apiUrl = `http://127.0.0.1:${apiPort}`;
+  const repo = mkdtempSync(join(tmpdir(), "opencause-kubo-"));
+  const env = { ...process.env, IPFS_PATH: repo };
+
+  const ipfs = (args: string[]) => {
+    const result = spawnSync("ipfs", args, { env, encoding: "utf8" });
+    if (result.error || result.status !== 0) {
+      rmSync(repo, { recursive: true, force: true });
+      throw new Error(`ipfs ${args.join(" ")} failed: ${result.error?.message || result.stderr}`);
+    }
+  };
+  ipfs(["init", "--profile=test"]);
+  ipfs(["config", "Addresses.API", `/ip4/127.0.0.1/tcp/${apiPort}`]);
+  ipfs(["config", "--json", "Addresses.Gateway", "[]"]);
+
+  const child: ChildProcess = spawn("ipfs", ["daemon", "--offline"], { env, stdio: "ignore" });
+
+  let exited: Error | null = null;
+  child.on("error", (error) => {
+    exited = error;
+  });
+  child.on("exit", (code) => {
+    exited = exited || new Error(`ipfs daemon exited with code ${code}`);
+  });
+
+  const deadline = Date.now() + (options.startupTimeout || 20_000);
+  while (!(await isReady(apiUrl))) {
+    if (exited || Date.now() > deadline) {
+      child.kill();
+      rmSync(repo, { recursive: true, force: true });
+      throw new Error(`kubo did not start on ${apiUrl}: ${exited ? (exited as Error).message : "timed out"}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+
+  return {
+    apiUrl,
+    add: async (content) => {
+      const form = new FormData();
+      form.append("file", new Blob([content]), "file");
+      const response = await fetch(`${apiUrl}/api/v0/add?pin=true&cid-version=1`, { method: "POST", body: form });
+      if (!response.ok) {
+        throw new Error(`ipfs add failed: ${response.status}`);
+      }
+      return ((await response.json()) as { Hash: string }).Hash;
+    },
+    stop: () =>
+      new Promise<void>((resolve) => {
+        const cleanup = () => {
+          rmSync(repo, { recursive: true, force: true });
+          resolve();
+        };
+        if (child.exitCode !== null) return cleanup();
+        child.once("exit", cleanup);
+        child.kill();
+      }),
+  };
+}
+
+async function isReady(apiUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${apiUrl}/api/v0/id`, { method: "POST" });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
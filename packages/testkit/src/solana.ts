@@ -0,0 +1,128 @@
+import { spawn, ChildProcess } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+/**
+ * Local Solana test validator
+ *
+ * Starts `solana-test-validator` (from the Solana/Agave CLI release) on a
+ * fresh ledger with its faucet, so tests can airdrop to their own keypairs.
+ * `accounts` are loaded at genesis, e.g. a mint at a registry address.
+ * The validator must be on PATH.
+ */
+
+export interface SolanaGenesisAccount {
+  address: string; // base58
+  owner: string; // base58 program id
+  lamports: number;
+  data: Buffer;
+}
+
+export interface SolanaValidatorOptions {
+  rpcPort?: number;
+  faucetPort?: number;
+  accounts?: SolanaGenesisAccount[];
+  // Milliseconds to wait for the validator to report healthy
+  startupTimeout?: number;
+}
+
+export interface SolanaValidator {
+  rpcUrl: string;
+  ledger: string;
+  stop(): Promise<void>;
+}
+
+export async function startSolanaValidator(options: SolanaValidatorOptions = {}): Promise<SolanaValidator> {
+  const rpcPort = options.rpcPort || 8899;
+  const faucetPort = options.faucetPort || 9900;
+  const rpcUrl = `http://127.0.0.1:${rpcPort}`;
+  const ledger = mkdtempSync(join(tmpdir(), "solana-ledger-"));
+  const accountsDir = mkdtempSync(join(tmpdir(), "solana-accounts-"));
+
+  const accountArgs = (options.accounts || []).flatMap((account) => {
+    const file = join(accountsDir, `${account.address}.json`);
+    writeFileSync(
+      file,
+      JSON.stringify({
+        pubkey: account.address,
+        account: {
+          lamports: account.lamports,
+          data: [account.data.toString("base64"), "base64"],
+          owner: account.owner,
+          executable: false,
+          rentEpoch: 0,
+          space: account.data.length,
+        },
+      })
+    );
+    return ["--account", account.address, file];
+  });
+
+  // The validator also binds the ports after the RPC port for its gossip and TPU
+  const child: ChildProcess = spawn(
+    "solana-test-validator",
+    [
+      "--ledger",
+      ledger,
+      "--rpc-port",
+      String(rpcPort),
+      "--faucet-port",
+      String(faucetPort),
+      "--dynamic-port-range",
+      `${rpcPort + 2}-${rpcPort + 30}`,
+      ...accountArgs,
+      "--reset",
+      "--quiet",
+    ],
+    { stdio: "ignore" }
+  );
+
+  let exited: Error | null = null;
+  child.on("error", (error) => {
+    exited = error;
+  });
+  child.on("exit", (code) => {
+    exited = exited || new Error(`solana-test-validator exited with code ${code}`);
+  });
+
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      const cleanup = () => {
+        rmSync(ledger, { recursive: true, force: true });
+        rmSync(accountsDir, { recursive: true, force: true });
+        resolve();
+      };
+      if (child.exitCode !== null) return cleanup();
+      child.once("exit", cleanup);
+      child.kill();
+    });
+
+  const deadline = Date.now() + (options.startupTimeout || 60_000);
+  while (!(await isReady(rpcUrl))) {
+    if (exited || Date.now() > deadline) {
+      await stop();
+      throw new Error(
+        `solana-test-validator did not start on ${rpcUrl}: ${exited ? (exited as Error).message : "timed out"}`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+
+  return { rpcUrl, ledger, stop };
+}
+
+async function isReady(rpcUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "getHealth", params: [] }),
+    });
+    if (!response.ok) return false;
+    const body = (await response.json()) as { result?: string };
+    return body.result === "ok";
+  } catch {
+    return false;
+  }
+}
@@ -42,6 +42,15 @@ export enum DonationType {
   CRYPTO = "CRYPTO",
 }
 
+export enum DonationRefundStatus {
+  REQUESTED = "REQUESTED",
+  PROCESSING = "PROCESSING", // Approved; gateway refund or return transfer in flight
+  REFUNDED = "REFUNDED",
+  FAILED = "FAILED", // Refund failed after approval; totals stay reversed until retried
+  REJECTED = "REJECTED",
+  CLAIMABLE = "CLAIMABLE", // Could not be sent automatically; donor claims it via a link
+}
+
 export enum EvidenceKind {
   INR_DONATION = "INR_DONATION",
   WITHDRAWAL_REQUEST = "WITHDRAWAL_REQUEST",
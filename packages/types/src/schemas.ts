@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { upiVpaRegex } from "./withdrawal-schemas";
 import {
   UserRole,
   CampaignStatus,
@@ -163,6 +164,8 @@ export const CreateWithdrawalSchema = z.object({
   networkId: z.string().optional(), // Network/chain ID (e.g., "ethereum_mainnet", "polygon_mainnet")
   chainId: z.number().optional(), // Legacy chain ID support
   evidenceBundle: EvidenceBundleSchema,
+  // UPI payee for INR withdrawals
+  upiVpa: z.string().regex(upiVpaRegex, "Invalid UPI VPA format").optional(),
   // Bank account details for INR withdrawals
   bankAccountNumber: z.string().optional(),
   bankIfsc: z.string().optional(),
@@ -20,7 +20,7 @@ export const WithdrawalStatusSchema = z.enum([
 export const GstinOcrStatusSchema = z.enum(["PENDING", "FOUND", "NOT_FOUND"]);
 
 // UPI validation regex
-const upiVpaRegex = /^[\w.\-]{2,256}@[a-zA-Z]{2,64}$/;
+export const upiVpaRegex = /^[\w.\-]{2,256}@[a-zA-Z]{2,64}$/;
 
 // IFSC validation regex
 const ifscRegex = /^[A-Z]{4}0[A-Z0-9]{6}$/;
@@ -0,0 +1,64 @@
+/**
+ * On-chain Anchors
+ *
+ * Ledger roots are anchored through EvidenceRegistry.anchorEvidence() as
+ * kind LEDGER_ROOT, with keccak256(campaignId) as the campaign. Reading the
+ * record straight from a node you choose is what makes a root trustworthy;
+ * the API's own account of the anchor tx is only a pointer.
+ */
+
+import { createPublicClient, http, keccak256, parseAbi, stringToHex } from "viem";
+import type { Address, Hex } from "viem";
+
+const EVIDENCE_REGISTRY_ABI = parseAbi([
+  "struct EvidenceRecord { uint8 kind; bytes32 campaignId; bytes32 evidenceHash; address submitter; uint256 amount; uint256 timestamp; }",
+  "function getEvidenceRecord(bytes32 evidenceHash) view returns (EvidenceRecord)",
+]);
+
+// EvidenceRegistry.EvidenceKind
+export const EVIDENCE_KINDS = ["INR_DONATION", "WITHDRAWAL_REQUEST", "MILESTONE_PROOF", "LEDGER_ROOT"] as const;
+
+export interface AnchoredRoot {
+  anchored: boolean;
+  kind: (typeof EVIDENCE_KINDS)[number] | null;
+  campaignMatches: boolean;
+  submitter: Address | null;
+  anchoredAt: Date | null;
+}
+
+/**
+ * bytes32 campaign id recorded on-chain for a platform campaign id
+ */
+export function campaignIdHash(campaignId: string): Hex {
+  return keccak256(stringToHex(campaignId));
+}
+
+/**
+ * Look the root up in EvidenceRegistry
+ */
+export async function checkAnchoredRoot(params: {
+  rpcUrl: string;
+  registryAddress: Address;
+  root: Hex;
+  campaignId: string;
+}): Promise<AnchoredRoot> {
+  const client = createPublicClient({ transport: http(params.rpcUrl) });
+  const record = await client.readContract({
+    address: params.registryAddress,
+    abi: EVIDENCE_REGISTRY_ABI,
+    functionName: "getEvidenceRecord",
+    args: [params.root],
+  });
+
+  if (record.timestamp === 0n) {
+    return { anchored: false, kind: null, campaignMatches: false, submitter: null, anchoredAt: null };
+  }
+
+  return {
+    anchored: true,
+    kind: EVIDENCE_KINDS[record.kind] ?? null,
+    campaignMatches: record.campaignId.toLowerCase() === campaignIdHash(params.campaignId).toLowerCase(),
+    submitter: record.submitter,
+    anchoredAt: new Date(Number(record.timestamp) * 1000),
+  };
+}
@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+/**
+ * opencause-verify <ledger.json | ledger URL> [--rpc-url <url>] [--registry <address>]
+ *   [--project <firebase project> [--firestore-url <url>]]
+ *   [--donation <id> [--amount <amount>] [--donated-at <date | time>]]
+ *
+ * Takes a campaign ledger as served by GET /campaigns/:id/ledger, recomputes
+ * its Merkle root locally and, with --rpc-url, checks that the root was
+ * anchored on-chain for that campaign. With --project, reads the campaign's
+ * public donation and withdrawal records straight from Firestore and checks
+ * the ledger against them. With --donation, also checks that the donation is
+ * one of the ledger's entries, with the amount and date the donor gives.
+ */
+
+import { readFileSync } from "fs";
+import type { Address, Hex } from "viem";
+import {
+  checkDonationClaim,
+  compareLedgers,
+  computeLedgerRoot,
+  donationLedgerEntry,
+  withdrawalLedgerEntry,
+} from "./ledger";
+import type { DonationLedgerEntry, LedgerEntry } from "./ledger";
+import { checkAnchoredRoot } from "./anchor";
+import { fetchPublicLedgerEntries } from "./sources";
+
+const USAGE =
+  "Usage: opencause-verify <ledger.json | ledger URL> [--rpc-url <url>] [--registry <address>] " +
+  "[--project <id> [--firestore-url <url>]] [--donation <id> [--amount <amount>] [--donated-at <date | time>]]";
+
+interface LedgerDocument {
+  campaignId: string;
+  merkleRoot: Hex;
+  snapshotAt?: string | null;
+  entries: Record<string, any>[];
+  anchor?: {
+    txHash?: string | null;
+    explorerUrl?: string | null;
+    registryAddress?: Address | null;
+  };
+}
+
+function parseArgs(argv: string[]) {
+  const args: {
+    source?: string;
+    donation?: string;
+    amount?: string;
+    donatedAt?: string;
+    rpcUrl?: string;
+    registry?: string;
+    project?: string;
+    firestoreUrl?: string;
+  } = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--donation") args.donation = argv[++i];
+    else if (arg === "--amount") args.amount = argv[++i];
+    else if (arg === "--donated-at") args.donatedAt = argv[++i];
+    else if (arg === "--rpc-url") args.rpcUrl = argv[++i];
+    else if (arg === "--registry") args.registry = argv[++i];
+    else if (arg === "--project") args.project = argv[++i];
+    else if (arg === "--firestore-url") args.firestoreUrl = argv[++i];
+    else if (!args.source) args.source = arg;
+    else throw new Error(`Unexpected argument: ${arg}`);
+  }
+  return args;
+}
+
+async function loadLedger(source: string): Promise<LedgerDocument> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`GET ${source} failed: ${response.status}`);
+    }
+    return (await response.json()) as LedgerDocument;
+  }
+  return JSON.parse(readFileSync(source, "utf8")) as LedgerDocument;
+}
+
+async function main(): Promise<boolean> {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.source) {
+    console.error(USAGE);
+    return false;
+  }
+  if ((args.amount || args.donatedAt) && !args.donation) {
+    throw new Error("--amount and --donated-at need --donation");
+  }
+  if (args.donatedAt && Number.isNaN(new Date(args.donatedAt).getTime())) {
+    throw new Error(`--donated-at is not a date or time: ${args.donatedAt}`);
+  }
+
+  const ledger = await loadLedger(args.source);
+  const entries: LedgerEntry[] = ledger.entries.map((entry) =>
+    entry.kind === "WITHDRAWAL" ? withdrawalLedgerEntry(entry) : donationLedgerEntry(entry)
+  );
+  const { root, proofs } = computeLedgerRoot(entries);
+  let ok = true;
+
+  console.log(`Campaign:        ${ledger.campaignId}`);
+  console.log(`Entries:         ${entries.length}`);
+  console.log(`Recomputed root: ${root}`);
+  if (root.toLowerCase() !== ledger.merkleRoot.toLowerCase()) {
+    console.log(`MISMATCH: published root is ${ledger.merkleRoot}`);
+    ok = false;
+  }
+
+  if (args.project) {
+    const source = await fetchPublicLedgerEntries({
+      projectId: args.project,
+      campaignId: ledger.campaignId,
+      firestoreUrl: args.firestoreUrl,
+    });
+    const { changed, unknown, missing } = compareLedgers(entries, source);
+    // Records created after the snapshot go into the next one
+    const snapshotAt = ledger.snapshotAt ? new Date(ledger.snapshotAt).getTime() : Infinity;
+    const leftOut = missing.filter((entry) => new Date(entry.createdAt).getTime() < snapshotAt);
+
+    console.log(`Source records:  ${source.length} in ${args.project}`);
+    for (const entry of unknown) {
+      console.log(`NOT A PUBLIC RECORD: ${entry.kind} ${entry.id}`);
+    }
+    for (const { published } of changed) {
+      console.log(`DIFFERS from its public record (or changed since the snapshot): ${published.kind} ${published.id}`);
+    }
+    for (const entry of leftOut) {
+      console.log(`LEFT OUT of the ledger: ${entry.kind} ${entry.id} of ${entry.createdAt}`);
+    }
+    if (missing.length > leftOut.length) {
+      console.log(`Newer records:   ${missing.length - leftOut.length}, not in this snapshot yet`);
+    }
+    if (unknown.length > 0 || changed.length > 0 || leftOut.length > 0) ok = false;
+  }
+
+  if (args.donation) {
+    const proof = proofs.find((p) => p.entry.kind === "DONATION" && p.entry.id === args.donation);
+    if (proof) {
+      const entry = proof.entry as DonationLedgerEntry;
+      console.log(`Donation ${args.donation}: ${entry.amountNative} ${entry.assetSymbol} on ${entry.createdAt}`);
+      console.log(`                 leaf ${proof.leaf} at index ${proof.leafIndex}`);
+      const mismatches = checkDonationClaim(entry, { amount: args.amount, donatedAt: args.donatedAt });
+      if (mismatches.includes("amount")) {
+        console.log(`MISMATCH: you gave ${args.amount}, the ledger records ${entry.amountNative}`);
+      }
+      if (mismatches.includes("donatedAt")) {
+        console.log(`MISMATCH: you gave ${args.donatedAt}, the ledger records ${entry.createdAt}`);
+      }
+      if (mismatches.length > 0) ok = false;
+    } else {
+      console.log(`Donation ${args.donation} is NOT in this ledger`);
+      ok = false;
+    }
+  }
+
+  if (args.rpcUrl) {
+    const registryAddress = (args.registry ?? ledger.anchor?.registryAddress) as Address | undefined;
+    if (!registryAddress) {
+      throw new Error("No registry address in the ledger; pass --registry");
+    }
+    const anchored = await checkAnchoredRoot({
+      rpcUrl: args.rpcUrl,
+      registryAddress,
+      root,
+      campaignId: ledger.campaignId,
+    });
+    if (!anchored.anchored) {
+      console.log(`Root is NOT anchored in EvidenceRegistry ${registryAddress}`);
+      ok = false;
+    } else if (anchored.kind !== "LEDGER_ROOT" || !anchored.campaignMatches) {
+      console.log(`Root is anchored as ${anchored.kind} for a different campaign or kind`);
+      ok = false;
+    } else {
+      console.log(`Anchored:        ${anchored.anchoredAt!.toISOString()} by ${anchored.submitter}`);
+    }
+  } else if (ledger.anchor?.explorerUrl) {
+    console.log(`Anchor tx (unchecked, pass --rpc-url to verify): ${ledger.anchor.explorerUrl}`);
+  }
+
+  console.log(ok ? "OK" : "FAILED");
+  return ok;
+}
+
+main()
+  .then((ok) => process.exit(ok ? 0 : 1))
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  });
@@ -0,0 +1,11 @@
+// Ledger entry format, hashing and root computation
+export * from "./ledger";
+
+// Merkle tree layout shared with the platform's anchoring
+export * from "./merkle";
+
+// On-chain lookup of anchored roots
+export * from "./anchor";
+
+// Public ledger records, read from Firestore without credentials
+export * from "./sources";
@@ -0,0 +1,96 @@
+import {
+  canonicalJson,
+  checkDonationClaim,
+  compareLedgers,
+  computeLedgerRoot,
+  donationLedgerEntry,
+  verifyLedgerProof,
+  withdrawalLedgerEntry,
+} from "./ledger";
+
+describe("campaign ledger", () => {
+  const donation = (id: string, fields: object = {}) =>
+    donationLedgerEntry({
+      donationId: id,
+      campaignId: "camp1",
+      type: "CRYPTO",
+      assetSymbol: "USDC",
+      networkId: "polygon_mainnet",
+      amountNative: "25.5",
+      createdAt: "2026-03-01T10:00:00.000Z",
+      ...fields,
+    });
+  const withdrawal = (id: string, fields: object = {}) =>
+    withdrawalLedgerEntry({
+      withdrawalId: id,
+      campaignId: "camp1",
+      method: "CRYPTO",
+      assetSymbol: "USDC",
+      networkId: "polygon_mainnet",
+      amountDisplay: "10 USDC",
+      status: "EXECUTED",
+      payeeMasked: "0x12…cdef",
+      createdAt: "2026-03-02T10:00:00.000Z",
+      ...fields,
+    });
+
+  it("serializes with sorted keys at every level and no whitespace", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: null, e: "x" }], c: undefined } })).toBe(
+      '{"a":{"d":[2,{"e":"x","f":null}]},"b":1}'
+    );
+  });
+
+  it("reads timestamps in their stored, JSON and string forms", () => {
+    const iso = "2026-03-01T10:00:00.000Z";
+    const seconds = Date.parse(iso) / 1000;
+    expect(donation("d1", { createdAt: { toDate: () => new Date(iso) } }).createdAt).toBe(iso);
+    expect(donation("d1", { createdAt: { _seconds: seconds, _nanoseconds: 0 } }).createdAt).toBe(iso);
+    expect(donation("d1", { createdAt: { seconds, nanoseconds: 0 } }).createdAt).toBe(iso);
+    expect(donation("d1", { createdAt: "2026-03-01T15:30:00+05:30" }).createdAt).toBe(iso);
+    expect(() => donation("d1", { createdAt: null })).toThrow("createdAt");
+  });
+
+  it("keeps only ledger fields", () => {
+    expect(withdrawal("w1")).not.toHaveProperty("payeeMasked");
+    expect(donation("d1", { donorName: "Asha" })).not.toHaveProperty("donorName");
+  });
+
+  it("proves every entry against the root, whatever order the entries come in", () => {
+    const entries = [withdrawal("w1"), donation("d2"), donation("d1")];
+    const { root, proofs } = computeLedgerRoot(entries);
+
+    expect(computeLedgerRoot([...entries].reverse()).root).toBe(root);
+    expect(proofs.map((p) => `${p.entry.kind}_${p.entry.id}`)).toEqual(["DONATION_d1", "DONATION_d2", "WITHDRAWAL_w1"]);
+    for (const { entry, proof } of proofs) {
+      expect(verifyLedgerProof(entry, proof, root)).toBe(true);
+    }
+    expect(verifyLedgerProof(donation("d1", { amountNative: "2550" }), proofs[0].proof, root)).toBe(false);
+  });
+
+  it("changes the root when an entry changes", () => {
+    const { root } = computeLedgerRoot([donation("d1"), donation("d2")]);
+    expect(computeLedgerRoot([donation("d1"), donation("d2", { refunded: true })]).root).not.toBe(root);
+  });
+
+  it("compares a published ledger with its source records", () => {
+    const published = [donation("d1"), donation("d2"), withdrawal("w1", { status: "APPROVED" }), donation("x1")];
+    const source = [donation("d1"), donation("d2"), withdrawal("w1"), donation("d3")];
+
+    expect(compareLedgers(published, source)).toEqual({
+      changed: [{ published: published[2], source: source[2] }],
+      unknown: [published[3]],
+      missing: [source[3]],
+    });
+    expect(compareLedgers(source, source)).toEqual({ changed: [], unknown: [], missing: [] });
+  });
+
+  it("checks the amount and date a donor gives against their donation", () => {
+    const entry = donation("d1");
+    expect(checkDonationClaim(entry, {})).toEqual([]);
+    expect(checkDonationClaim(entry, { amount: "25.50", donatedAt: "2026-03-01" })).toEqual([]);
+    expect(checkDonationClaim(entry, { amount: "025.5", donatedAt: "2026-03-01T10:00:30Z" })).toEqual([]);
+    expect(checkDonationClaim(entry, { amount: "255" })).toEqual(["amount"]);
+    expect(checkDonationClaim(entry, { amount: "25.5", donatedAt: "2026-03-02" })).toEqual(["donatedAt"]);
+    expect(checkDonationClaim(entry, { donatedAt: "2026-03-01T10:05:00Z" })).toEqual(["donatedAt"]);
+  });
+});
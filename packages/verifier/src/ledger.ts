@@ -0,0 +1,214 @@
+/**
+ * Campaign Ledger
+ *
+ * The ledger of a campaign is its public donations (donations_public) and
+ * withdrawals (withdrawals_public), reduced to the fields below. Each entry
+ * is serialized as canonical JSON (keys sorted, no whitespace) and hashed
+ * with SHA-256; the Merkle leaf is keccak256 of that hash. Entries are
+ * ordered by kind, then id.
+ */
+
+import { sha256, stringToBytes } from "viem";
+import type { Hex } from "viem";
+import { buildMerkleTree, getMerkleProof, merkleLeaf, verifyMerkleProof } from "./merkle";
+
+export interface DonationLedgerEntry {
+  kind: "DONATION";
+  id: string;
+  campaignId: string;
+  method: string; // "CRYPTO" | "INR"
+  assetSymbol: string;
+  networkId: string | null;
+  amountNative: string;
+  createdAt: string; // ISO 8601
+  refunded: boolean;
+}
+
+export interface WithdrawalLedgerEntry {
+  kind: "WITHDRAWAL";
+  id: string;
+  campaignId: string;
+  method: string; // "CRYPTO" | "INR"
+  assetSymbol: string | null;
+  networkId: string | null;
+  amountDisplay: string;
+  status: string;
+  txHash: string | null;
+  createdAt: string; // ISO 8601
+}
+
+export type LedgerEntry = DonationLedgerEntry | WithdrawalLedgerEntry;
+
+export interface LedgerProof {
+  entry: LedgerEntry;
+  entryHash: Hex;
+  leaf: Hex;
+  leafIndex: number;
+  proof: Hex[];
+}
+
+/**
+ * Ledger entry of a donations_public item, as stored or as served by the
+ * public API (timestamps may be Firestore Timestamps, their JSON form or ISO strings)
+ */
+export function donationLedgerEntry(doc: Record<string, any>): DonationLedgerEntry {
+  return {
+    kind: "DONATION",
+    id: String(doc.donationId ?? doc.id),
+    campaignId: String(doc.campaignId),
+    method: String(doc.type ?? doc.method),
+    assetSymbol: String(doc.assetSymbol),
+    networkId: doc.networkId ?? null,
+    amountNative: String(doc.amountNative),
+    createdAt: toIsoString(doc.createdAt),
+    refunded: doc.refunded === true,
+  };
+}
+
+/**
+ * Ledger entry of a withdrawals_public item
+ */
+export function withdrawalLedgerEntry(doc: Record<string, any>): WithdrawalLedgerEntry {
+  return {
+    kind: "WITHDRAWAL",
+    id: String(doc.withdrawalId ?? doc.id),
+    campaignId: String(doc.campaignId),
+    method: String(doc.method),
+    assetSymbol: doc.assetSymbol ?? null,
+    networkId: doc.networkId ?? null,
+    amountDisplay: String(doc.amountDisplay),
+    status: String(doc.status),
+    txHash: doc.txHash ?? null,
+    createdAt: toIsoString(doc.createdAt),
+  };
+}
+
+/**
+ * JSON with object keys sorted at every level and no whitespace
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+export function hashLedgerEntry(entry: LedgerEntry): Hex {
+  return sha256(stringToBytes(canonicalJson(entry)));
+}
+
+export function sortLedgerEntries<T extends LedgerEntry>(entries: T[]): T[] {
+  return [...entries].sort((a, b) =>
+    a.kind !== b.kind ? (a.kind < b.kind ? -1 : 1) : a.id < b.id ? -1 : a.id > b.id ? 1 : 0
+  );
+}
+
+/**
+ * Merkle root over a ledger, with the proof of every entry (in ledger order)
+ */
+export function computeLedgerRoot(entries: LedgerEntry[]): { root: Hex; proofs: LedgerProof[] } {
+  const sorted = sortLedgerEntries(entries);
+  const entryHashes = sorted.map(hashLedgerEntry);
+  const leaves = entryHashes.map(merkleLeaf);
+  const tree = buildMerkleTree(leaves);
+
+  return {
+    root: tree.root,
+    proofs: sorted.map((entry, leafIndex) => ({
+      entry,
+      entryHash: entryHashes[leafIndex],
+      leaf: leaves[leafIndex],
+      leafIndex,
+      proof: getMerkleProof(tree, leafIndex),
+    })),
+  };
+}
+
+/**
+ * Check that an entry is part of the ledger committed to by `root`
+ */
+export function verifyLedgerProof(entry: LedgerEntry, proof: Hex[], root: Hex): boolean {
+  return verifyMerkleProof(merkleLeaf(hashLedgerEntry(entry)), proof, root);
+}
+
+export interface LedgerDifferences {
+  changed: Array<{ published: LedgerEntry; source: LedgerEntry }>; // Same entry, different fields
+  unknown: LedgerEntry[]; // Published, but no such source record
+  missing: LedgerEntry[]; // Source records the published ledger leaves out
+}
+
+/**
+ * Compare a published ledger with the entries built from its source records,
+ * matching entries by kind and id
+ */
+export function compareLedgers(published: LedgerEntry[], source: LedgerEntry[]): LedgerDifferences {
+  const key = (entry: LedgerEntry) => `${entry.kind}_${entry.id}`;
+  const sourceByKey = new Map(source.map((entry) => [key(entry), entry]));
+  const publishedKeys = new Set(published.map(key));
+  const differences: LedgerDifferences = { changed: [], unknown: [], missing: [] };
+
+  for (const entry of published) {
+    const match = sourceByKey.get(key(entry));
+    if (!match) {
+      differences.unknown.push(entry);
+    } else if (hashLedgerEntry(match) !== hashLedgerEntry(entry)) {
+      differences.changed.push({ published: entry, source: match });
+    }
+  }
+  differences.missing = source.filter((entry) => !publishedKeys.has(key(entry)));
+  return differences;
+}
+
+/**
+ * Check a donation entry against what the donor knows of it: the amount
+ * (compared as a decimal) and when it was made (a date compares the UTC day;
+ * a time matches within a minute). Returns the fields that do not match.
+ */
+export function checkDonationClaim(
+  entry: DonationLedgerEntry,
+  claim: { amount?: string; donatedAt?: string }
+): Array<"amount" | "donatedAt"> {
+  const mismatches: Array<"amount" | "donatedAt"> = [];
+  if (claim.amount !== undefined && normalizeDecimal(claim.amount) !== normalizeDecimal(entry.amountNative)) {
+    mismatches.push("amount");
+  }
+  if (claim.donatedAt !== undefined) {
+    const matches = /^\d{4}-\d{2}-\d{2}$/.test(claim.donatedAt)
+      ? entry.createdAt.slice(0, 10) === claim.donatedAt
+      : Math.abs(new Date(claim.donatedAt).getTime() - new Date(entry.createdAt).getTime()) < 60_000;
+    if (!matches) mismatches.push("donatedAt");
+  }
+  return mismatches;
+}
+
+// "1.50" and "1.5" are the same amount
+function normalizeDecimal(value: string): string {
+  const [whole, fraction = ""] = value.trim().replace(/,/g, "").split(".");
+  const trimmedFraction = fraction.replace(/0+$/, "");
+  const trimmedWhole = whole.replace(/^0+(?=\d)/, "");
+  return trimmedFraction ? `${trimmedWhole}.${trimmedFraction}` : trimmedWhole;
+}
+
+function toIsoString(value: any): string {
+  if (!value) {
+    throw new Error("Ledger entries need a createdAt timestamp");
+  }
+  if (typeof value === "string") return new Date(value).toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value.toDate === "function") return value.toDate().toISOString();
+
+  // Timestamp JSON: { seconds, nanoseconds } or { _seconds, _nanoseconds }
+  const seconds = value.seconds ?? value._seconds;
+  const nanos = value.nanoseconds ?? value._nanoseconds ?? 0;
+  if (typeof seconds !== "number") {
+    throw new Error(`Unrecognized timestamp: ${JSON.stringify(value)}`);
+  }
+  return new Date(seconds * 1000 + Math.floor(nanos / 1e6)).toISOString();
+}
@@ -0,0 +1,63 @@
+/**
+ * Merkle Trees
+ *
+ * Same layout as the platform's anchoring (and OpenZeppelin's MerkleProof):
+ * keccak256 over sorted pairs, leaves hashed once more before entering the
+ * tree, an unpaired node carried up unchanged. Kept self-contained so the
+ * verifier shares no code with the platform it checks.
+ */
+
+import { concat, keccak256 } from "viem";
+import type { Hex } from "viem";
+
+export interface MerkleTree {
+  root: Hex;
+  layers: Hex[][];
+}
+
+export function merkleLeaf(value: Hex): Hex {
+  return keccak256(value);
+}
+
+export function hashMerklePair(a: Hex, b: Hex): Hex {
+  return BigInt(a) <= BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+export function buildMerkleTree(leaves: Hex[]): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const layers: Hex[][] = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashMerklePair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+export function getMerkleProof(tree: MerkleTree, index: number): Hex[] {
+  if (index < 0 || index >= tree.layers[0].length) {
+    throw new Error(`Leaf index ${index} out of range`);
+  }
+
+  const proof: Hex[] = [];
+  for (const layer of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: Hex, proof: Hex[], root: Hex): boolean {
+  const computed = proof.reduce((node, sibling) => hashMerklePair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
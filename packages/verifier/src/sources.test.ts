@@ -0,0 +1,48 @@
+import { randomBytes } from "crypto";
+import { getTestAdminFirestore } from "@opencause/testkit";
+import { donationLedgerEntry, withdrawalLedgerEntry } from "./ledger";
+import { fetchPublicLedgerEntries } from "./sources";
+
+describe("public ledger sources", () => {
+  const firestoreUrl = "http://127.0.0.1:8080/v1";
+  const projectId = "opencause-test";
+
+  it("reads a campaign's public donations and withdrawals without credentials", async () => {
+    const db = getTestAdminFirestore();
+    // Subcollections outlive clearFirestoreCollections; a fresh campaign keeps runs apart
+    const campaignId = `camp_${randomBytes(4).toString("hex")}`;
+    // Stored as a Firestore timestamp
+    const createdAt = new Date("2026-03-01T10:00:00.123Z");
+    const donation = {
+      donationId: "d1",
+      campaignId,
+      type: "CRYPTO",
+      assetSymbol: "USDC",
+      networkId: "polygon_mainnet",
+      amountNative: "25.5",
+      displayName: "Anonymous",
+      createdAt,
+    };
+    const withdrawal = {
+      withdrawalId: "w1",
+      campaignId,
+      method: "INR",
+      assetSymbol: null,
+      networkId: null,
+      amountDisplay: "₹5,000",
+      status: "EXECUTED",
+      proofSummary: { count: 2 },
+      createdAt,
+    };
+    await db.collection("donations_public").doc(campaignId).collection("items").doc("d1").set(donation);
+    await db.collection("withdrawals_public").doc(campaignId).collection("items").doc("w1").set(withdrawal);
+
+    const entries = await fetchPublicLedgerEntries({ projectId, campaignId, firestoreUrl });
+
+    expect(entries).toEqual([donationLedgerEntry(donation), withdrawalLedgerEntry(withdrawal)]);
+  });
+
+  it("returns no entries for a campaign without records", async () => {
+    expect(await fetchPublicLedgerEntries({ projectId, campaignId: "no_such_campaign", firestoreUrl })).toEqual([]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Ledger Sources
+ *
+ * A campaign's ledger is built from donations_public and withdrawals_public,
+ * which Firestore's security rules let anyone read. Reading them straight
+ * from Firestore's REST API, with no credentials, checks the published
+ * snapshot against the records themselves rather than the API's copy.
+ */
+
+import { donationLedgerEntry, withdrawalLedgerEntry } from "./ledger";
+import type { LedgerEntry } from "./ledger";
+
+export const FIRESTORE_REST_URL = "https://firestore.googleapis.com/v1";
+
+const PAGE_SIZE = 300;
+
+/**
+ * Ledger entries of a campaign, from its public donation and withdrawal
+ * records. `firestoreUrl` points at another REST endpoint (e.g. the
+ * emulator's http://127.0.0.1:8080/v1).
+ */
+export async function fetchPublicLedgerEntries(params: {
+  projectId: string;
+  campaignId: string;
+  firestoreUrl?: string;
+}): Promise<LedgerEntry[]> {
+  const root = params.firestoreUrl ?? FIRESTORE_REST_URL;
+  const base = `${root}/projects/${params.projectId}/databases/(default)/documents`;
+  const campaign = encodeURIComponent(params.campaignId);
+  const [donations, withdrawals] = await Promise.all([
+    listDocuments(`${base}/donations_public/${campaign}/items`),
+    listDocuments(`${base}/withdrawals_public/${campaign}/items`),
+  ]);
+  return [...donations.map(donationLedgerEntry), ...withdrawals.map(withdrawalLedgerEntry)];
+}
+
+async function listDocuments(url: string): Promise<Record<string, any>[]> {
+  const documents: Record<string, any>[] = [];
+  let pageToken: string | undefined;
+  do {
+    const query = `pageSize=${PAGE_SIZE}${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ""}`;
+    const response = await fetch(`${url}?${query}`);
+    if (!response.ok) {
+      throw new Error(`GET ${url} failed: ${response.status} ${await response.text()}`);
+    }
+    const page = (await response.json()) as {
+      documents?: Array<{ name: string; fields?: Record<string, any> }>;
+      nextPageToken?: string;
+    };
+    for (const doc of page.documents ?? []) {
+      documents.push({ id: doc.name.split("/").pop(), ...decodeFields(doc.fields ?? {}) });
+    }
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return documents;
+}
+
+function decodeFields(fields: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, decodeValue(value)]));
+}
+
+// Firestore REST Value -> plain JSON; timestamps stay RFC 3339 strings
+function decodeValue(value: Record<string, any>): any {
+  if ("nullValue" in value) return null;
+  if ("booleanValue" in value) return value.booleanValue;
+  if ("integerValue" in value) return Number(value.integerValue);
+  if ("doubleValue" in value) return Number(value.doubleValue);
+  if ("stringValue" in value) return value.stringValue;
+  if ("timestampValue" in value) return value.timestampValue;
+  if ("mapValue" in value) return decodeFields(value.mapValue.fields ?? {});
+  if ("arrayValue" in value) return (value.arrayValue.values ?? []).map(decodeValue);
+  return Object.values(value)[0];
+}